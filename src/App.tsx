@@ -2,10 +2,14 @@ import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { isApiError } from "@/services/ApiError";
+import { getTenantBasename } from "@/lib/tenant";
 import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import { AuthProvider } from "@/contexts/AuthContext";
 import { UserPrefsProvider } from "@/contexts/UserPrefsContext";
 import { ThemeProvider } from "@/contexts/ThemeContext";
+import { SessionLockScreen } from "./components/auth/SessionLockScreen";
+import { ImpersonationBanner } from "./components/auth/ImpersonationBanner";
 import { ProtectedRoute } from "./components/auth/ProtectedRoute";
 import { AdminProtectedRoute } from "./components/auth/AdminProtectedRoute";
 import { AuthRedirect } from "./components/auth/AuthRedirect";
@@ -15,6 +19,7 @@ import Clients from "./pages/Clients";
 import ClientView from "./pages/ClientView";
 import ClientCreate from "./pages/ClientCreate";
 import ClientEdit from "./pages/ClientEdit";
+import ClientDuplicates from "./pages/ClientDuplicates";
 import Partners from "./pages/Partners";
 import PartnerView from "./pages/PartnerView";
 import ServiceObjects from "./pages/ServiceObjects";
@@ -32,12 +37,15 @@ import Users from "./pages/settings/Users";
 import UserCreate from "./pages/settings/UserCreate";
 import UserProfiles from "./pages/settings/UserProfiles";
 import SystemSettings from "./pages/settings/SystemSettings";
+import AuditLog from "./pages/settings/AuditLog";
 import Stages from "./pages/settings/Stages";
 import TableInstallment from "./pages/settings/TableInstallment";
 import Login from "./pages/auth/Login";
 import Metrics from "./pages/settings/Metrics";
 import AircraftsSettings from "./pages/settings/AircraftsSettings";
 import Register from "./pages/auth/Register";
+import PasswordlessLogin from "./pages/auth/PasswordlessLogin";
+import MagicLinkLogin from "./pages/auth/MagicLinkLogin";
 import ForgotPassword from "./pages/auth/ForgotPassword";
 import ResetPassword from "./pages/auth/ResetPassword";
 import NotFound from "./pages/NotFound";
@@ -96,6 +104,10 @@ const queryClient = new QueryClient({
         ) {
           return false;
         }
+        // BaseApiService já repetiu a chamada conforme a política de requisição
+        if (isApiError(error) && (error.attempts > 1 || error.isAborted || error.code === 'schema_mismatch')) {
+          return false;
+        }
         return failureCount < 1;
       },
       // 5 minutos
@@ -109,7 +121,8 @@ const queryClient = new QueryClient({
     },
     mutations: {
       // Configurações para mutações (create, update, delete)
-      retry: 1,
+      // 403 é a resposta final da API sobre permissão; não adianta repetir
+      retry: (failureCount, error) => !(isApiError(error) && error.isForbidden) && failureCount < 1,
     },
   },
 });
@@ -131,7 +144,9 @@ const App = () => {
             <TooltipProvider>
             <Toaster />
             <Sonner />
-          <BrowserRouter>
+            <SessionLockScreen />
+          <BrowserRouter basename={getTenantBasename()}>
+            <ImpersonationBanner />
             <Routes>
               {/* Rotas públicas */}
               <Route path="/"  element={<LandingPage linkLoja={link_loja} />} />
@@ -145,6 +160,16 @@ const App = () => {
                   <Register />
                 </AuthRedirect>
               } />
+              <Route path="/passwordless-login" element={
+                <AuthRedirect>
+                  <PasswordlessLogin />
+                </AuthRedirect>
+              } />
+              <Route path="/magic-link" element={
+                <AuthRedirect>
+                  <MagicLinkLogin />
+                </AuthRedirect>
+              } />
               <Route path="/forgot-password" element={
                 <AuthRedirect>
                   <ForgotPassword />
@@ -239,14 +264,18 @@ const App = () => {
               <Route path="/admin/school/courses/create" element={
                 <AdminProtectedRoute>
                   <AppLayout>
-                    <CourseCreate />
+                    <PermissionGuard menuPath="/admin/school/courses" action="create">
+                      <CourseCreate />
+                    </PermissionGuard>
                   </AppLayout>
                 </AdminProtectedRoute>
               } />
               <Route path="/admin/school/courses/:id/edit" element={
                 <AdminProtectedRoute>
                   <AppLayout>
-                    <CourseEdit />
+                    <PermissionGuard menuPath="/admin/school/courses" action="edit">
+                      <CourseEdit />
+                    </PermissionGuard>
                   </AppLayout>
                 </AdminProtectedRoute>
               } />
@@ -286,21 +315,36 @@ const App = () => {
               <Route path="/admin/school/classes/create" element={
                 <AdminProtectedRoute>
                   <AppLayout>
-                    <ClassCreate />
+                    <PermissionGuard menuPath="/admin/school/classes" action="create">
+                      <ClassCreate />
+                    </PermissionGuard>
                   </AppLayout>
                 </AdminProtectedRoute>
               } />
               <Route path="/admin/school/classes/:id/edit" element={
                 <AdminProtectedRoute>
                   <AppLayout>
-                    <ClassEdit />
+                    <PermissionGuard menuPath="/admin/school/classes" action="edit">
+                      <ClassEdit />
+                    </PermissionGuard>
                   </AppLayout>
                 </AdminProtectedRoute>
               } />
               <Route path="/admin/clients/create" element={
                 <AdminProtectedRoute>
                   <AppLayout>
-                    <ClientCreate />
+                    <PermissionGuard menuPath="/admin/clients" action="create">
+                      <ClientCreate />
+                    </PermissionGuard>
+                  </AppLayout>
+                </AdminProtectedRoute>
+              } />
+              <Route path="/admin/clients/duplicates" element={
+                <AdminProtectedRoute>
+                  <AppLayout>
+                    <PermissionGuard menuPath="/admin/clients" action="edit">
+                      <ClientDuplicates />
+                    </PermissionGuard>
                   </AppLayout>
                 </AdminProtectedRoute>
               } />
@@ -314,7 +358,9 @@ const App = () => {
               <Route path="/admin/clients/:id/edit" element={
                 <AdminProtectedRoute>
                   <AppLayout>
-                    <ClientEdit />
+                    <PermissionGuard menuPath="/admin/clients" action="edit">
+                      <ClientEdit />
+                    </PermissionGuard>
                   </AppLayout>
                 </AdminProtectedRoute>
               } />
@@ -344,7 +390,9 @@ const App = () => {
               <Route path="/admin/partners/:id/edit" element={
                 <AdminProtectedRoute>
                   <AppLayout>
-                    <Partners />
+                    <PermissionGuard menuPath="/admin/partners" action="edit">
+                      <Partners />
+                    </PermissionGuard>
                   </AppLayout>
                 </AdminProtectedRoute>
               } />
@@ -360,14 +408,18 @@ const App = () => {
               <Route path="/admin/products/create" element={
                 <AdminProtectedRoute>
                   <AppLayout>
-                    <ProductCreate />
+                    <PermissionGuard menuPath="/admin/products" action="create">
+                      <ProductCreate />
+                    </PermissionGuard>
                   </AppLayout>
                 </AdminProtectedRoute>
               } />
               <Route path="/admin/products/:id/edit" element={
                 <AdminProtectedRoute>
                   <AppLayout>
-                    <ProductEdit />
+                    <PermissionGuard menuPath="/admin/products" action="edit">
+                      <ProductEdit />
+                    </PermissionGuard>
                   </AppLayout>
                 </AdminProtectedRoute>
               } />
@@ -401,7 +453,9 @@ const App = () => {
               <Route path="/admin/sales/proposals/create" element={
                 <AdminProtectedRoute>
                   <AppLayout>
-                    <ProposalsCreate />
+                    <PermissionGuard menuPath="/admin/sales/proposals" action="create">
+                      <ProposalsCreate />
+                    </PermissionGuard>
                   </AppLayout>
                 </AdminProtectedRoute>
               } />
@@ -410,7 +464,9 @@ const App = () => {
               <Route path="/admin/sales/proposals/edit/:id" element={
                 <AdminProtectedRoute>
                   <AppLayout>
-                    <ProposalsEdit />
+                    <PermissionGuard menuPath="/admin/sales/proposals" action="edit">
+                      <ProposalsEdit />
+                    </PermissionGuard>
                   </AppLayout>
                 </AdminProtectedRoute>
               } />
@@ -456,14 +512,18 @@ const App = () => {
               <Route path="/admin/site/conteudo-site/create" element={
                 <AdminProtectedRoute>
                   <AppLayout>
-                    <SiteComponentsForm />
+                    <PermissionGuard menuPath="/admin/site/conteudo-site" action="create">
+                      <SiteComponentsForm />
+                    </PermissionGuard>
                   </AppLayout>
                 </AdminProtectedRoute>
               } />
               <Route path="/admin/site/conteudo-site/:id/edit" element={
                 <AdminProtectedRoute>
                   <AppLayout>
-                    <SiteComponentsForm />
+                    <PermissionGuard menuPath="/admin/site/conteudo-site" action="edit">
+                      <SiteComponentsForm />
+                    </PermissionGuard>
                   </AppLayout>
                 </AdminProtectedRoute>
               } />
@@ -503,14 +563,18 @@ const App = () => {
               <Route path="/admin/settings/table-installment/create" element={
                 <AdminProtectedRoute>
                   <AppLayout>
-                    <TableInstallment />
+                    <PermissionGuard menuPath="/admin/settings/table-installment" action="create">
+                      <TableInstallment />
+                    </PermissionGuard>
                   </AppLayout>
                 </AdminProtectedRoute>
               } />
               <Route path="/admin/settings/table-installment/:id/edit" element={
                 <AdminProtectedRoute>
                   <AppLayout>
-                    <TableInstallment />
+                    <PermissionGuard menuPath="/admin/settings/table-installment" action="edit">
+                      <TableInstallment />
+                    </PermissionGuard>
                   </AppLayout>
                 </AdminProtectedRoute>
               } />
@@ -547,6 +611,7 @@ const App = () => {
                   <AppLayout>
                     <PermissionGuard 
                       menuPath="/admin/settings/users"
+                      action="create"
                       requireRemote={false}
                     >
                       {/* pt-BR/en-US: Dedicated user creation page */}
@@ -593,6 +658,19 @@ const App = () => {
                   </AppLayout>
                 </AdminProtectedRoute>
               } />
+              <Route path="/admin/settings/audit-log" element={
+                <AdminProtectedRoute>
+                  <AppLayout>
+                    <PermissionGuard 
+                      required="settings.audit-log.view" 
+                      menuPath="/admin/settings/audit-log"
+                      requireRemote={false}
+                    >
+                      <AuditLog />
+                    </PermissionGuard>
+                  </AppLayout>
+                </AdminProtectedRoute>
+              } />
 
               {/* Financeiro */}
               <Route path="/admin/financial" element={
@@ -641,21 +719,27 @@ const App = () => {
               <Route path="/admin/service-orders/quick-create" element={
                 <AdminProtectedRoute>
                   <AppLayout>
-                    <QuickCreateServiceOrder />
+                    <PermissionGuard menuPath="/admin/service-orders" action="create">
+                      <QuickCreateServiceOrder />
+                    </PermissionGuard>
                   </AppLayout>
                 </AdminProtectedRoute>
               } />
               <Route path="/admin/service-orders/create" element={
                 <AdminProtectedRoute>
                   <AppLayout>
-                    <CreateServiceOrder />
+                    <PermissionGuard menuPath="/admin/service-orders" action="create">
+                      <CreateServiceOrder />
+                    </PermissionGuard>
                   </AppLayout>
                 </AdminProtectedRoute>
               } />
               <Route path="/admin/service-orders/update/:id" element={
                 <AdminProtectedRoute>
                   <AppLayout>
-                    <UpdateServiceOrder />
+                    <PermissionGuard menuPath="/admin/service-orders" action="edit">
+                      <UpdateServiceOrder />
+                    </PermissionGuard>
                   </AppLayout>
                 </AdminProtectedRoute>
               } />
@@ -0,0 +1,36 @@
+import { ArrowRight } from 'lucide-react';
+import { formatAuditValue, humanizeField, isVisibleAuditField } from '@/lib/audit';
+import type { AuditFieldChange } from '@/types/audit';
+
+interface AuditChangesListProps {
+  changes?: AuditFieldChange[];
+  /** Rótulos dos campos do recurso / Resource field labels */
+  fieldLabels?: Record<string, string>;
+}
+
+/**
+ * AuditChangesList
+ * pt-BR: Mudanças campo a campo de um registro de auditoria (valor anterior → novo).
+ * en-US: Field-level changes of an audit entry (previous value → new).
+ */
+export function AuditChangesList({ changes = [], fieldLabels }: AuditChangesListProps) {
+  const visible = changes.filter((change) => isVisibleAuditField(change.field));
+  if (visible.length === 0) return null;
+
+  return (
+    <dl className="mt-2 space-y-1 rounded-md bg-muted/50 p-2 text-sm">
+      {visible.map((change) => (
+        <div key={change.field} className="grid grid-cols-[minmax(0,10rem)_1fr] gap-2">
+          <dt className="truncate font-medium text-muted-foreground" title={change.field}>
+            {humanizeField(change.field, fieldLabels)}
+          </dt>
+          <dd className="flex min-w-0 flex-wrap items-center gap-1 break-all">
+            <span className="text-muted-foreground line-through">{formatAuditValue(change.old)}</span>
+            <ArrowRight className="h-3 w-3 shrink-0 text-muted-foreground" />
+            <span>{formatAuditValue(change.new)}</span>
+          </dd>
+        </div>
+      ))}
+    </dl>
+  );
+}
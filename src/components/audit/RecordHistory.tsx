@@ -0,0 +1,105 @@
+import { format, formatDistanceToNow } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { Loader2, Pencil, Plus, RotateCcw, Trash2, History } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { cn } from '@/lib/utils';
+import { useRecordHistory } from '@/hooks/audit';
+import { auditActionLabel } from '@/lib/audit';
+import type { AuditLogEntry } from '@/types/audit';
+import { AuditChangesList } from './AuditChangesList';
+
+interface RecordHistoryProps {
+  /** Recurso no formato do caminho da API (ex.: `clients`) / Resource as the API path */
+  subjectType: string;
+  subjectId?: string | number;
+  fieldLabels?: Record<string, string>;
+  title?: string;
+  description?: string;
+  className?: string;
+}
+
+const ACTION_STYLES: Record<string, { icon: typeof Plus; color: string }> = {
+  created: { icon: Plus, color: 'bg-green-100 text-green-700' },
+  updated: { icon: Pencil, color: 'bg-blue-100 text-blue-700' },
+  deleted: { icon: Trash2, color: 'bg-red-100 text-red-700' },
+  restored: { icon: RotateCcw, color: 'bg-amber-100 text-amber-700' },
+};
+
+function entryDate(entry: AuditLogEntry) {
+  const date = new Date(entry.created_at);
+  if (Number.isNaN(date.getTime())) return { relative: '', absolute: '' };
+  return {
+    relative: formatDistanceToNow(date, { addSuffix: true, locale: ptBR }),
+    absolute: format(date, "dd/MM/yyyy 'às' HH:mm", { locale: ptBR }),
+  };
+}
+
+/**
+ * RecordHistory
+ * pt-BR: Card "Histórico de Alterações" com a linha do tempo da auditoria de um registro:
+ *        quem fez, quando e o que mudou em cada campo.
+ * en-US: "Change history" card with the audit timeline of one record: who did it, when and
+ *        what changed in each field.
+ */
+export function RecordHistory({
+  subjectType,
+  subjectId,
+  fieldLabels,
+  title = 'Histórico de Alterações',
+  description = 'Registro de todas as modificações realizadas',
+  className,
+}: RecordHistoryProps) {
+  const { data, isLoading, error } = useRecordHistory(subjectType, subjectId);
+  const entries = data?.data ?? [];
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          {title}
+        </CardTitle>
+        <CardDescription>{description}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-destructive">Não foi possível carregar o histórico.</p>
+        ) : entries.length === 0 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">Nenhuma alteração registrada.</p>
+        ) : (
+          <ol className="relative space-y-6 border-l pl-6">
+            {entries.map((entry) => {
+              const style = ACTION_STYLES[entry.action] ?? ACTION_STYLES.updated;
+              const Icon = style.icon;
+              const date = entryDate(entry);
+              return (
+                <li key={entry.id} className="relative">
+                  <span className={cn('absolute -left-[2.15rem] flex h-6 w-6 items-center justify-center rounded-full ring-4 ring-background', style.color)}>
+                    <Icon className="h-3 w-3" />
+                  </span>
+                  <div className="flex flex-wrap items-baseline justify-between gap-x-2">
+                    <p className="text-sm">
+                      <span className="font-medium">{entry.user_name || 'Sistema'}</span>
+                      {' · '}
+                      {auditActionLabel(entry.action)}
+                    </p>
+                    <time className="text-xs text-muted-foreground" dateTime={entry.created_at} title={date.absolute}>
+                      {date.relative}
+                    </time>
+                  </div>
+                  {entry.description && <p className="text-sm text-muted-foreground">{entry.description}</p>}
+                  {entry.reason && <p className="text-sm text-muted-foreground">Motivo: {entry.reason}</p>}
+                  <AuditChangesList changes={entry.changes} fieldLabels={fieldLabels} />
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
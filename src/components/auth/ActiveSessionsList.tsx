@@ -0,0 +1,142 @@
+import { useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { Loader2, LogOut, Monitor, Smartphone, Tablet } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useRevokeOtherSessions, useRevokeSession, useUserSessions } from '@/hooks/sessions';
+import { describeUserAgent } from '@/lib/userAgent';
+import type { UserSession } from '@/types/sessions';
+
+interface ActiveSessionsListProps {
+  /** Outro usuário (administração); sem ele, as sessões do usuário logado / Another user (administration); without it, the logged-in user's sessions */
+  userId?: string;
+}
+
+const DEVICE_ICONS = { desktop: Monitor, mobile: Smartphone, tablet: Tablet };
+
+function lastActivity(session: UserSession): string {
+  const date = new Date(session.last_active_at);
+  if (Number.isNaN(date.getTime())) return '—';
+  return formatDistanceToNow(date, { addSuffix: true, locale: ptBR });
+}
+
+/**
+ * ActiveSessionsList
+ * pt-BR: Lista os logins abertos (dispositivo, IP e última atividade) com as ações de
+ *        encerrar uma sessão e encerrar as demais. Usado no perfil, na área do cliente e,
+ *        com `userId`, pelo administrador em Configurações › Usuários.
+ * en-US: Lists the open logins (device, IP and last activity) with the actions to end one
+ *        session and to end the others. Used by the profile, the client area and, with
+ *        `userId`, by administrators in Settings › Users.
+ */
+export function ActiveSessionsList({ userId }: ActiveSessionsListProps) {
+  const { data: sessions = [], isLoading, error } = useUserSessions(userId);
+  const revokeMutation = useRevokeSession(userId);
+  const revokeOthersMutation = useRevokeOtherSessions(userId);
+  const [confirmRevokeAll, setConfirmRevokeAll] = useState(false);
+
+  const isAdminView = !!userId;
+  const revocable = sessions.filter((session) => isAdminView || !session.is_current);
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-6">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return <p className="text-sm text-destructive">Não foi possível carregar as sessões.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {sessions.length === 0 && (
+        <p className="text-sm text-muted-foreground">Nenhuma sessão ativa.</p>
+      )}
+
+      {sessions.map((session) => {
+        const device = describeUserAgent(session.user_agent);
+        const Icon = DEVICE_ICONS[device.kind];
+        const isRevoking = revokeMutation.isPending && revokeMutation.variables === session.id;
+        return (
+          <div key={session.id} className="flex items-center justify-between gap-4 p-4 border rounded-lg">
+            <div className="flex items-start gap-3 min-w-0">
+              <Icon className="h-5 w-5 mt-0.5 shrink-0 text-muted-foreground" />
+              <div className="min-w-0">
+                <h4 className="font-medium flex flex-wrap items-center gap-2">
+                  {session.device || `${device.browser} · ${device.os}`}
+                  {session.is_current && !isAdminView && <Badge variant="secondary">Esta sessão</Badge>}
+                </h4>
+                <p className="text-sm text-muted-foreground">
+                  {session.ip_address || 'IP desconhecido'} · ativa {lastActivity(session)}
+                </p>
+                {session.user_agent && (
+                  <p className="text-xs text-muted-foreground truncate" title={session.user_agent}>
+                    {session.user_agent}
+                  </p>
+                )}
+              </div>
+            </div>
+            {(isAdminView || !session.is_current) && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => revokeMutation.mutate(session.id)}
+                disabled={revokeMutation.isPending}
+              >
+                {isRevoking ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <LogOut className="mr-2 h-4 w-4" />}
+                Encerrar
+              </Button>
+            )}
+          </div>
+        );
+      })}
+
+      {revocable.length > 0 && (
+        <Button
+          variant="outline"
+          className="w-full"
+          onClick={() => setConfirmRevokeAll(true)}
+          disabled={revokeOthersMutation.isPending}
+        >
+          {revokeOthersMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {isAdminView ? 'Encerrar todas as sessões' : 'Encerrar as outras sessões'}
+        </Button>
+      )}
+
+      <AlertDialog open={confirmRevokeAll} onOpenChange={setConfirmRevokeAll}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {isAdminView ? 'Encerrar todas as sessões?' : 'Encerrar as outras sessões?'}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {isAdminView
+                ? 'O usuário será desconectado de todos os dispositivos e precisará entrar novamente.'
+                : 'Os outros dispositivos serão desconectados. Esta sessão continua ativa.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction onClick={() => revokeOthersMutation.mutate()}>
+              Encerrar
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
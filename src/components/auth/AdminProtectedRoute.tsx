@@ -1,7 +1,11 @@
-import { Navigate } from 'react-router-dom';
+import { Navigate, useLocation } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import { ProtectedRoute } from './ProtectedRoute';
 import { useEffect, useState } from 'react';
+import { hasAdminAccess } from '@/lib/menu';
+
+// Tela onde o usuário ativa o 2FA exigido pelo seu grupo de permissão
+const TWO_FACTOR_SETUP_PATH = '/admin/settings/user-profiles';
 
 interface AdminProtectedRouteProps {
   children: React.ReactNode;
@@ -10,12 +14,14 @@ interface AdminProtectedRouteProps {
 
 /**
  * Componente que protege rotas administrativas
- * Verifica se o usuário tem permissão adequada (permission_id < 5)
- * Redireciona usuários com permissão >= 5 para a área do cliente
+ * Verifica se o menu do usuário tem algum item visível (sem menu: permission_id <= 5)
+ * Redireciona os demais usuários para a área do cliente
+ * Enquanto o grupo exigir 2FA ainda não ativado, só libera a tela de perfil
  * Mostra tela de carregamento durante a verificação para evitar flash de conteúdo
  */
 export function AdminProtectedRoute({ children, linkLoja = '' }: AdminProtectedRouteProps) {
-  const { user, isAuthenticated, isLoading } = useAuth();
+  const { user, menu, isAuthenticated, isLoading, twoFactorSetupRequired } = useAuth();
+  const location = useLocation();
   const [isCheckingPermissions, setIsCheckingPermissions] = useState(true);
 
   useEffect(() => {
@@ -48,12 +54,17 @@ export function AdminProtectedRoute({ children, linkLoja = '' }: AdminProtectedR
   }
 
   // Verifica se o usuário tem permissão para acessar o admin
-  // Usuários com permission_id >= 5 são redirecionados para a área do cliente
-  if (user?.permission_id && parseInt(user.permission_id) > 5) {
+  // Usuários sem nenhum item de menu visível são redirecionados para a área do cliente
+  if (!hasAdminAccess(menu, user?.permission_id)) {
     const clientAreaUrl = linkLoja ? `${linkLoja}/area-cliente` : '/lojaderesgatesantenamais/area-cliente';
     return <Navigate to={clientAreaUrl} replace />;
   }
 
+  // 2FA obrigatório pendente: o perfil é a única tela liberada até a ativação
+  if (twoFactorSetupRequired && location.pathname !== TWO_FACTOR_SETUP_PATH) {
+    return <Navigate to={TWO_FACTOR_SETUP_PATH} replace />;
+  }
+
   // Se chegou até aqui, o usuário tem permissão para acessar o admin
   return (
     <ProtectedRoute>
@@ -0,0 +1,39 @@
+import React from 'react';
+import { useCan } from '@/hooks/useCan';
+import { PermissionAction } from '@/types/permissions';
+
+interface CanProps {
+  action: PermissionAction;
+  /** Rota do menu; padrão: rota atual / Menu route; default: current route */
+  menuPath?: string;
+  /** `hide` remove o conteúdo; `disable` mantém desabilitado / `hide` removes the content; `disable` keeps it disabled */
+  mode?: 'hide' | 'disable';
+  fallback?: React.ReactNode;
+  children: React.ReactNode;
+}
+
+const DENIED_TITLE = 'Você não tem permissão para esta ação';
+
+/**
+ * Can
+ * pt-BR: Renderiza o conteúdo apenas se o usuário puder executar a ação na rota do menu.
+ *        Em `mode="disable"`, o filho único recebe `disabled` em vez de sumir.
+ * en-US: Renders the content only if the user may perform the action on the menu route.
+ *        With `mode="disable"`, the single child receives `disabled` instead of disappearing.
+ * @example <Can action="delete"><Button onClick={remove}>Excluir</Button></Can>
+ */
+export function Can({ action, menuPath, mode = 'hide', fallback = null, children }: CanProps) {
+  const allowed = useCan(action, menuPath);
+
+  if (allowed) return <>{children}</>;
+
+  if (mode === 'disable' && React.isValidElement(children)) {
+    return React.cloneElement(children as React.ReactElement<Record<string, unknown>>, {
+      disabled: true,
+      'aria-disabled': true,
+      title: DENIED_TITLE,
+    });
+  }
+
+  return <>{fallback}</>;
+}
@@ -0,0 +1,85 @@
+import { useState } from 'react';
+import { RefreshCw, ShieldCheck } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { getHumanVerificationProvider, type HumanVerificationWidgetProps } from '@/lib/humanVerification';
+
+/**
+ * Verificação humana
+ * pt-BR: Passo "não sou um robô" exigido pela API após algumas falhas de login. O provedor é
+ *        escolhido pela API (`captcha_provider`) e cada um é um componente que entrega um token
+ *        em `onVerify`; o token vai junto no próximo login como `captcha_token`. Outros provedores
+ *        são registrados em `@/lib/humanVerification`.
+ * en-US: "I'm not a robot" step required by the API after a few failed logins. The provider is
+ *        chosen by the API (`captcha_provider`) and each one is a component that hands a token
+ *        to `onVerify`; the token goes with the next login as `captcha_token`. Other providers
+ *        are registered in `@/lib/humanVerification`.
+ */
+
+function randomPair(): [number, number] {
+  return [2 + Math.floor(Math.random() * 8), 1 + Math.floor(Math.random() * 9)];
+}
+
+/**
+ * LocalChallenge
+ * pt-BR: Provedor `local` para desenvolvimento e testes: uma soma simples, sem serviço externo.
+ *        O token `local:a:b:resposta` é conferido pela API (e pelo backend mock).
+ * en-US: `local` provider for development and tests: a simple sum, no external service.
+ *        The `local:a:b:answer` token is checked by the API (and the mock backend).
+ */
+function LocalChallenge({ onVerify, onExpire }: HumanVerificationWidgetProps) {
+  const [[a, b], setPair] = useState(randomPair);
+  const [answer, setAnswer] = useState('');
+  const isCorrect = answer !== '' && Number(answer) === a + b;
+
+  const handleChange = (value: string) => {
+    const digits = value.replace(/\D/g, '');
+    setAnswer(digits);
+    if (digits !== '' && Number(digits) === a + b) onVerify(`local:${a}:${b}:${digits}`);
+    else onExpire();
+  };
+
+  const refresh = () => {
+    setAnswer('');
+    setPair(randomPair());
+    onExpire();
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="human-verification-answer" className="flex items-center gap-1">
+        {isCorrect ? <ShieldCheck className="h-4 w-4 text-green-600" /> : null}
+        Quanto é {a} + {b}?
+      </Label>
+      <div className="flex gap-2">
+        <Input
+          id="human-verification-answer"
+          inputMode="numeric"
+          autoComplete="off"
+          value={answer}
+          onChange={(e) => handleChange(e.target.value)}
+        />
+        <Button type="button" variant="outline" size="icon" onClick={refresh} title="Outra pergunta">
+          <RefreshCw className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+interface HumanVerificationProps extends HumanVerificationWidgetProps {
+  /** Id do provedor; desconhecido ou ausente usa o `local` / Provider id; unknown or missing falls back to `local` */
+  provider?: string;
+}
+
+export function HumanVerification({ provider, onVerify, onExpire }: HumanVerificationProps) {
+  const Widget = getHumanVerificationProvider(provider)?.Widget ?? LocalChallenge;
+
+  return (
+    <div className="rounded-md border border-dashed p-3">
+      <p className="mb-2 text-sm text-muted-foreground">Confirme que você não é um robô para continuar.</p>
+      <Widget onVerify={onVerify} onExpire={onExpire} />
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Eye, Loader2, LogOut } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/contexts/AuthContext';
+
+/**
+ * ImpersonationBanner
+ * pt-BR: Aviso fixo no topo enquanto o modo "ver como" estiver ativo, em qualquer rota
+ *        (painel, loja ou área do cliente), com o botão para voltar à conta real.
+ * en-US: Sticky notice at the top while "view as" mode is active, on every route
+ *        (admin, store or client area), with the button to return to the real account.
+ */
+export function ImpersonationBanner() {
+  const { user, impersonator, isImpersonating, stopImpersonation } = useAuth();
+  const navigate = useNavigate();
+  const [isStopping, setIsStopping] = useState(false);
+
+  if (!isImpersonating || !user) return null;
+
+  const handleExit = async () => {
+    setIsStopping(true);
+    await stopImpersonation();
+    setIsStopping(false);
+    navigate('/admin/settings/users');
+  };
+
+  return (
+    <div
+      role="status"
+      className="sticky top-0 z-[60] flex flex-wrap items-center justify-center gap-3 bg-amber-400 px-4 py-2 text-sm text-amber-950 shadow"
+    >
+      <Eye className="h-4 w-4 shrink-0" />
+      <span>
+        Vendo como <strong>{user.name}</strong>
+        {user.email ? ` (${user.email})` : ''} — somente leitura
+        {impersonator ? `. Sessão de ${impersonator.name}.` : '.'}
+      </span>
+      <Button
+        size="sm"
+        variant="outline"
+        className="h-7 border-amber-950/30 bg-amber-50 text-amber-950 hover:bg-amber-100"
+        onClick={handleExit}
+        disabled={isStopping}
+      >
+        {isStopping ? <Loader2 className="mr-1 h-3 w-3 animate-spin" /> : <LogOut className="mr-1 h-3 w-3" />}
+        Sair do modo "ver como"
+      </Button>
+    </div>
+  );
+}
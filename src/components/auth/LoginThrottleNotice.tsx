@@ -0,0 +1,64 @@
+import { format } from 'date-fns';
+import { AlertTriangle, Lock, Timer } from 'lucide-react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { isLoginLocked } from '@/services/authService';
+import type { LoginThrottle } from '@/types/security';
+import { HumanVerification } from './HumanVerification';
+
+interface LoginThrottleNoticeProps {
+  throttle: LoginThrottle | null;
+  /** Segundos até poder tentar de novo (`useRetryCountdown`) / Seconds until the next attempt */
+  secondsLeft: number;
+  onCaptchaChange: (token: string | null) => void;
+}
+
+/**
+ * LoginThrottleNotice
+ * pt-BR: Avisos após falhas de login (conta bloqueada, espera progressiva, tentativas restantes)
+ *        e a verificação humana quando a API pede. Usado no Login e na tela de bloqueio.
+ * en-US: Notices after failed logins (locked account, progressive wait, attempts left) and the
+ *        human verification when the API asks for it. Used on Login and on the lock screen.
+ */
+export function LoginThrottleNotice({ throttle, secondsLeft, onCaptchaChange }: LoginThrottleNoticeProps) {
+  if (!throttle) return null;
+
+  if (isLoginLocked(throttle)) {
+    return (
+      <Alert variant="destructive">
+        <Lock className="h-4 w-4" />
+        <AlertDescription>
+          Conta bloqueada por excesso de tentativas até {format(new Date(throttle.locked_until!), 'HH:mm')}.
+          Use "Esqueceu a senha?" ou aguarde para tentar de novo.
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {secondsLeft > 0 && (
+        <Alert>
+          <Timer className="h-4 w-4" />
+          <AlertDescription>Aguarde {secondsLeft}s para tentar novamente.</AlertDescription>
+        </Alert>
+      )}
+      {throttle.attempts_remaining !== undefined && throttle.attempts_remaining <= 3 && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>
+            {throttle.attempts_remaining === 1
+              ? 'Última tentativa antes do bloqueio da conta.'
+              : `Restam ${throttle.attempts_remaining} tentativas antes do bloqueio da conta.`}
+          </AlertDescription>
+        </Alert>
+      )}
+      {throttle.captcha_required && (
+        <HumanVerification
+          provider={throttle.captcha_provider}
+          onVerify={onCaptchaChange}
+          onExpire={() => onCaptchaChange(null)}
+        />
+      )}
+    </div>
+  );
+}
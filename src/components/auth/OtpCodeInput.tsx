@@ -0,0 +1,49 @@
+import { REGEXP_ONLY_DIGITS } from 'input-otp';
+import { InputOTP, InputOTPGroup, InputOTPSeparator, InputOTPSlot } from '@/components/ui/input-otp';
+
+interface OtpCodeInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  /** Chamado ao completar os 6 dígitos / Called once all 6 digits are filled */
+  onComplete?: (value: string) => void;
+  disabled?: boolean;
+  autoFocus?: boolean;
+  id?: string;
+}
+
+export const OTP_CODE_LENGTH = 6;
+
+/**
+ * OtpCodeInput
+ * pt-BR: Campo de 6 dígitos (3 + 3) para códigos TOTP do app autenticador.
+ * en-US: 6-digit field (3 + 3) for authenticator app TOTP codes.
+ */
+export function OtpCodeInput({ value, onChange, onComplete, disabled, autoFocus, id }: OtpCodeInputProps) {
+  return (
+    <InputOTP
+      id={id}
+      maxLength={OTP_CODE_LENGTH}
+      pattern={REGEXP_ONLY_DIGITS}
+      inputMode="numeric"
+      autoComplete="one-time-code"
+      value={value}
+      onChange={onChange}
+      onComplete={onComplete}
+      disabled={disabled}
+      autoFocus={autoFocus}
+      containerClassName="justify-center"
+    >
+      <InputOTPGroup>
+        <InputOTPSlot index={0} />
+        <InputOTPSlot index={1} />
+        <InputOTPSlot index={2} />
+      </InputOTPGroup>
+      <InputOTPSeparator />
+      <InputOTPGroup>
+        <InputOTPSlot index={3} />
+        <InputOTPSlot index={4} />
+        <InputOTPSlot index={5} />
+      </InputOTPGroup>
+    </InputOTP>
+  );
+}
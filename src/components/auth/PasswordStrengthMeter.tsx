@@ -0,0 +1,54 @@
+import { Check, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { passwordRules, passwordStrength } from '@/lib/passwordPolicy';
+import type { PasswordPolicy } from '@/types/security';
+
+interface PasswordStrengthMeterProps {
+  password: string;
+  policy: PasswordPolicy;
+  className?: string;
+}
+
+const SCORE_COLORS = ['bg-red-500', 'bg-orange-500', 'bg-yellow-500', 'bg-lime-500', 'bg-green-600'];
+
+/**
+ * PasswordStrengthMeter
+ * pt-BR: Barra de força da senha e a lista das regras da política, marcadas conforme a digitação.
+ * en-US: Password strength bar and the policy rule list, checked off while typing.
+ */
+export function PasswordStrengthMeter({ password, policy, className }: PasswordStrengthMeterProps) {
+  const strength = passwordStrength(password);
+  const rules = passwordRules(policy);
+
+  return (
+    <div className={cn('space-y-2', className)} aria-live="polite">
+      <div className="flex items-center gap-2">
+        <div className="flex flex-1 gap-1">
+          {[0, 1, 2, 3].map((index) => (
+            <span
+              key={index}
+              className={cn('h-1.5 flex-1 rounded-full bg-muted', password && index < Math.max(1, strength.score) && SCORE_COLORS[strength.score])}
+            />
+          ))}
+        </div>
+        {password && <span className="w-20 text-right text-xs text-muted-foreground">{strength.label}</span>}
+      </div>
+      <ul className="grid gap-1 text-xs sm:grid-cols-2">
+        {rules.map((rule) => {
+          const passed = rule.test(password);
+          return (
+            <li key={rule.id} className={cn('flex items-center gap-1', passed ? 'text-green-700' : 'text-muted-foreground')}>
+              {passed ? <Check className="h-3 w-3" /> : <X className="h-3 w-3" />}
+              {rule.label}
+            </li>
+          );
+        })}
+      </ul>
+      {policy.history_size > 0 && (
+        <p className="text-xs text-muted-foreground">
+          Não é possível repetir nenhuma das últimas {policy.history_size} senhas.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -1,10 +1,13 @@
 import { useAuth } from '@/contexts/AuthContext';
 import { useAccessCheck } from '@/hooks/use-access-check';
-import { findMenuItemByUrl, isCanViewTruthy } from '@/lib/menu';
+import { canPerform, findMenuItemForPath } from '@/lib/menu';
+import { PermissionAction } from '@/types/permissions';
 
 interface PermissionGuardProps {
   required?: string;
   menuPath?: string;
+  /** Ação exigida no item do menu (padrão `view`) / Action required on the menu item (default `view`) */
+  action?: PermissionAction;
   requireRemote?: boolean;
   children: React.ReactNode;
   fallback?: React.ReactNode;
@@ -13,20 +16,24 @@ interface PermissionGuardProps {
 export function PermissionGuard({ 
   required, 
   menuPath, 
+  action = 'view',
   requireRemote = false, 
   children, 
   fallback 
 }: PermissionGuardProps) {
-  const { permissions, menu } = useAuth();
+  const { permissions, menu, isImpersonating } = useAuth();
 
   // Check local permissions
   const hasRequiredPermission = required ? (permissions?.includes(required) ?? false) : true;
   
-  // Check menu can_view if menuPath is provided
-  const menuItem = menuPath && menu ? findMenuItemByUrl(menu, menuPath) : undefined;
-  const hasMenuAccess = menuItem ? isCanViewTruthy(menuItem.can_view) : true;
+  // Check the menu action flag (can_view by default) if menuPath is provided
+  const menuItem = menuPath && menu ? findMenuItemForPath(menu, menuPath) : undefined;
+  const hasMenuAccess = menuItem ? canPerform(menu, action, menuPath!) : true;
   
-  const localAllow = hasRequiredPermission || hasMenuAccess;
+  // Actions other than view always require the menu flag, even when `required` matches,
+  // and are never allowed in read-only "view as" mode
+  const localAllow = (hasRequiredPermission || hasMenuAccess) &&
+    (action === 'view' || (hasMenuAccess && !isImpersonating));
 
   // Remote access check - only when explicitly required
   const { data: remoteAccess, isLoading, isError } = useAccessCheck({
@@ -0,0 +1,123 @@
+import { FormEvent, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Lock, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useAuth } from '@/contexts/AuthContext';
+import { useIdleTimeout } from '@/hooks/useIdleTimeout';
+import { systemSettingsService } from '@/services/systemSettingsService';
+import { TwoFactorChallengeForm } from './TwoFactorChallengeForm';
+import { LoginThrottleNotice } from './LoginThrottleNotice';
+import { useRetryCountdown } from '@/hooks/security';
+import { isLoginLocked } from '@/services/authService';
+
+/**
+ * SessionLockScreen
+ * pt-BR: Bloqueia a tela após o tempo de inatividade configurado em
+ *        `AdvancedSystemSettings.sessionTimeout` (minutos) e pede a senha para continuar.
+ *        A página continua montada por baixo, então nada do que estava sendo editado se perde.
+ * en-US: Locks the screen after the idle time configured in
+ *        `AdvancedSystemSettings.sessionTimeout` (minutes) and asks for the password to continue.
+ *        The page stays mounted underneath, so nothing being edited is lost.
+ */
+export function SessionLockScreen() {
+  const { user, isAuthenticated, isLocked, lockSession, unlockSession, logout, twoFactorChallenge, loginThrottle } = useAuth();
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [captchaToken, setCaptchaToken] = useState<string | null>(null);
+  const [captchaKey, setCaptchaKey] = useState(0);
+  const secondsLeft = useRetryCountdown(loginThrottle?.retry_at);
+  const isBlocked = isLoginLocked(loginThrottle) || secondsLeft > 0 || (!!loginThrottle?.captcha_required && !captchaToken);
+
+  const { data: advancedSettings } = useQuery({
+    queryKey: ['system-settings', 'advanced'],
+    queryFn: () => systemSettingsService.getAdvancedSettings('/options'),
+    enabled: isAuthenticated,
+    staleTime: 10 * 60 * 1000,
+    retry: false,
+  });
+
+  const timeoutMinutes = Number(advancedSettings?.sessionTimeout);
+  const timeoutMs = Number.isFinite(timeoutMinutes) && timeoutMinutes > 0 ? timeoutMinutes * 60 * 1000 : null;
+
+  useIdleTimeout({
+    timeoutMs,
+    onIdle: lockSession,
+    enabled: isAuthenticated && !isLocked,
+  });
+
+  if (!isAuthenticated || !isLocked) return null;
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!password) return;
+    setIsSubmitting(true);
+    setError(null);
+    const ok = await unlockSession(password, captchaToken ?? undefined);
+    setIsSubmitting(false);
+    setCaptchaToken(null);
+    setCaptchaKey((key) => key + 1);
+    if (ok) {
+      setPassword('');
+    } else {
+      setError('Senha incorreta. Tente novamente.');
+    }
+  };
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="session-lock-title"
+      className="fixed inset-0 z-[100] flex items-center justify-center bg-background/95 p-4 backdrop-blur-sm"
+    >
+      <div className="w-full max-w-sm space-y-6 rounded-lg border bg-card p-6 shadow-lg">
+        <div className="space-y-2 text-center">
+          <div className="mx-auto flex h-12 w-12 items-center justify-center rounded-full bg-muted">
+            <Lock className="h-6 w-6 text-muted-foreground" />
+          </div>
+          <h2 id="session-lock-title" className="text-xl font-semibold">Sessão bloqueada</h2>
+          <p className="text-sm text-muted-foreground">
+            Por inatividade, confirme sua senha para continuar
+            {user?.email ? ` como ${user.email}` : ''}.
+          </p>
+        </div>
+
+        {twoFactorChallenge ? (
+          <TwoFactorChallengeForm onSuccess={() => setPassword('')} onCancel={() => setError(null)} />
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="session-lock-password">Senha</Label>
+              <Input
+                id="session-lock-password"
+                type="password"
+                autoComplete="current-password"
+                autoFocus
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                disabled={isSubmitting}
+              />
+              {error && <p className="text-sm text-destructive">{error}</p>}
+            </div>
+            <LoginThrottleNotice
+              key={captchaKey}
+              throttle={loginThrottle}
+              secondsLeft={secondsLeft}
+              onCaptchaChange={setCaptchaToken}
+            />
+            <Button type="submit" className="w-full" disabled={isSubmitting || !password || isBlocked}>
+              {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Desbloquear
+            </Button>
+            <Button type="button" variant="ghost" className="w-full" onClick={() => logout()} disabled={isSubmitting}>
+              Sair da conta
+            </Button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
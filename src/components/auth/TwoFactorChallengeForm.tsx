@@ -0,0 +1,121 @@
+import { FormEvent, useState } from 'react';
+import { Loader2, ShieldCheck } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useAuth } from '@/contexts/AuthContext';
+import { OTP_CODE_LENGTH, OtpCodeInput } from './OtpCodeInput';
+
+interface TwoFactorChallengeFormProps {
+  /** Chamado após o login ser concluído / Called after the login completes */
+  onSuccess?: () => void;
+  /** Chamado ao voltar para a senha / Called when going back to the password */
+  onCancel?: () => void;
+}
+
+/**
+ * TwoFactorChallengeForm
+ * pt-BR: Segundo passo do login: código do app autenticador (ou de recuperação) e a opção
+ *        de lembrar este dispositivo. Usado no Login e na tela de bloqueio por inatividade.
+ * en-US: Second login step: authenticator app code (or recovery code) and the option to
+ *        remember this device. Used by Login and by the idle lock screen.
+ */
+export function TwoFactorChallengeForm({ onSuccess, onCancel }: TwoFactorChallengeFormProps) {
+  const { twoFactorChallenge, verifyTwoFactor, cancelTwoFactor } = useAuth();
+  const [code, setCode] = useState('');
+  const [useRecovery, setUseRecovery] = useState(false);
+  const [rememberDevice, setRememberDevice] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const submit = async (value: string) => {
+    if (isSubmitting) return;
+    setIsSubmitting(true);
+    const ok = await verifyTwoFactor(value, { recovery: useRecovery, rememberDevice });
+    setIsSubmitting(false);
+    if (ok) {
+      onSuccess?.();
+    } else {
+      setCode('');
+    }
+  };
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    if (code) submit(code);
+  };
+
+  const handleCancel = () => {
+    cancelTwoFactor();
+    onCancel?.();
+  };
+
+  const canSubmit = useRecovery ? code.trim().length > 0 : code.length === OTP_CODE_LENGTH;
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2 text-center">
+        <ShieldCheck className="mx-auto h-8 w-8 text-primary" />
+        <p className="text-sm text-muted-foreground">
+          {useRecovery
+            ? 'Digite um dos seus códigos de recuperação.'
+            : `Digite o código de 6 dígitos do seu app autenticador${twoFactorChallenge?.email ? ` para ${twoFactorChallenge.email}` : ''}.`}
+        </p>
+      </div>
+
+      {useRecovery ? (
+        <div className="space-y-2">
+          <Label htmlFor="two-factor-recovery">Código de recuperação</Label>
+          <Input
+            id="two-factor-recovery"
+            autoComplete="off"
+            autoFocus
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            disabled={isSubmitting}
+            placeholder="xxxxx-xxxxx"
+          />
+        </div>
+      ) : (
+        <OtpCodeInput
+          value={code}
+          onChange={setCode}
+          onComplete={submit}
+          disabled={isSubmitting}
+          autoFocus
+        />
+      )}
+
+      <div className="flex items-center space-x-2">
+        <Checkbox
+          id="two-factor-remember"
+          checked={rememberDevice}
+          onCheckedChange={(checked) => setRememberDevice(!!checked)}
+          disabled={isSubmitting}
+        />
+        <Label htmlFor="two-factor-remember" className="text-sm font-normal">
+          Lembrar este dispositivo (não pedir o código neste navegador)
+        </Label>
+      </div>
+
+      <Button type="submit" className="w-full" disabled={isSubmitting || !canSubmit}>
+        {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        Verificar
+      </Button>
+
+      <div className="flex items-center justify-between text-sm">
+        <button
+          type="button"
+          className="text-primary underline"
+          onClick={() => { setUseRecovery(!useRecovery); setCode(''); }}
+          disabled={isSubmitting}
+        >
+          {useRecovery ? 'Usar o app autenticador' : 'Usar código de recuperação'}
+        </button>
+        <button type="button" className="text-muted-foreground underline" onClick={handleCancel} disabled={isSubmitting}>
+          Voltar
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,101 @@
+import { ExternalLink, Loader2, Users } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { DUPLICATE_REASON_LABELS } from '@/lib/clientDuplicates';
+import type { ClientDuplicateCandidate, ClientRecord } from '@/types/clients';
+
+interface ClientDuplicatesDialogProps {
+  /** Lista vazia fecha o diálogo / An empty list closes the dialog */
+  candidates: ClientDuplicateCandidate[];
+  onOpenChange: (open: boolean) => void;
+  onCreateAnyway: () => void;
+  /** Usa o cadastro existente em vez de criar outro (ex.: cadastro rápido da OS) / Uses the existing record instead of creating another (e.g. service order quick form) */
+  onUseExisting?: (client: ClientRecord) => void;
+  isCreating?: boolean;
+}
+
+/**
+ * ClientDuplicatesDialog
+ * pt-BR: Aviso antes de criar um cliente que parece já existir. Mostra por que cada cadastro
+ *        foi considerado parecido e deixa abrir o existente, usá-lo ou criar mesmo assim.
+ * en-US: Warning before creating a client that seems to exist already. Shows why each record
+ *        was considered similar and lets the user open the existing one, use it or create anyway.
+ */
+export function ClientDuplicatesDialog({
+  candidates,
+  onOpenChange,
+  onCreateAnyway,
+  onUseExisting,
+  isCreating = false,
+}: ClientDuplicatesDialogProps) {
+  return (
+    <Dialog open={candidates.length > 0} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Users className="h-5 w-5" />
+            Possível cliente duplicado
+          </DialogTitle>
+          <DialogDescription>
+            {candidates.length === 1 ? 'Encontramos um cadastro parecido' : `Encontramos ${candidates.length} cadastros parecidos`}.
+            Confira antes de criar outro registro para a mesma pessoa.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-80 space-y-2 overflow-y-auto">
+          {candidates.map(({ client, score, reasons }) => (
+            <div key={client.id} className="rounded-md border p-3 space-y-2">
+              <div className="flex items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="font-medium truncate">{client.name}</p>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {[client.email, client.cpf || client.cnpj, client.config?.celular].filter(Boolean).join(' • ')}
+                  </p>
+                </div>
+                <Badge variant={score >= 90 ? 'destructive' : 'secondary'}>{score}%</Badge>
+              </div>
+              <div className="flex flex-wrap items-center gap-1">
+                {reasons.map((reason) => (
+                  <Badge key={reason} variant="outline" className="text-xs">
+                    {DUPLICATE_REASON_LABELS[reason]}
+                  </Badge>
+                ))}
+                <div className="ml-auto flex gap-1">
+                  <Button variant="ghost" size="sm" asChild>
+                    <a href={`/admin/clients/${client.id}/view`} target="_blank" rel="noreferrer">
+                      <ExternalLink className="mr-1 h-3.5 w-3.5" />
+                      Ver cadastro
+                    </a>
+                  </Button>
+                  {onUseExisting && (
+                    <Button variant="outline" size="sm" onClick={() => onUseExisting(client)} disabled={isCreating}>
+                      Usar este
+                    </Button>
+                  )}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isCreating}>
+            Voltar ao formulário
+          </Button>
+          <Button onClick={onCreateAnyway} disabled={isCreating}>
+            {isCreating && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Cadastrar mesmo assim
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
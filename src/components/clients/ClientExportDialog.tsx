@@ -0,0 +1,300 @@
+import { useEffect, useRef, useState } from 'react';
+import { Download, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Switch } from '@/components/ui/switch';
+import { Progress } from '@/components/ui/progress';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { SavedFiltersMenu } from '@/components/common/SavedFiltersMenu';
+import { useExportClients } from '@/hooks/clients';
+import { usePermissionsList } from '@/hooks/permissions';
+import { useSavedFilters } from '@/hooks/userPreferences';
+import { downloadCsv, toCsv } from '@/lib/csv';
+import { downloadBlob } from '@/lib/download';
+import { buildXlsx } from '@/lib/xlsx';
+import {
+  CLIENT_EXPORT_FIELDS,
+  CLIENT_EXPORT_GROUP_LABELS,
+  CLIENT_STATUS_LABELS,
+  DEFAULT_CLIENT_EXPORT_FIELDS,
+  type ClientExportFormat,
+  type ClientExportMasking,
+  type ClientExportOptions,
+  clientExportJson,
+  clientExportRows,
+} from '@/lib/clientExport';
+import type { ClientRecord } from '@/types/clients';
+import { toast } from 'sonner';
+
+/** Filtros atuais da lista de clientes / Current filters of the clients list */
+export interface ClientListFilters {
+  search: string;
+  status: string;
+  trash: boolean;
+  /** Filtro avançado aplicado (ver `segmentListParams`) / Applied advanced filter (see `segmentListParams`) */
+  segment?: string;
+  segment_id?: string;
+}
+
+type ClientExportPreset = Pick<ClientExportOptions, 'format' | 'fields' | 'documentMasking' | 'phoneMasking'> & {
+  permission_id: string;
+  trash: boolean;
+};
+
+interface ClientExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  filters: ClientListFilters;
+  /** Nome exibido do filtro avançado aplicado / Display name of the applied advanced filter */
+  segmentName?: string;
+}
+
+const ALL = 'all';
+
+const MASKING_LABELS: Record<ClientExportMasking, string> = {
+  formatted: 'Com máscara',
+  digits: 'Só números',
+  partial: 'Parcialmente oculto',
+};
+
+const FORMAT_LABELS: Record<ClientExportFormat, string> = {
+  csv: 'CSV (Excel, separado por ;)',
+  xlsx: 'XLSX (planilha)',
+  json: 'JSON',
+};
+
+const DEFAULT_PRESET: ClientExportPreset = {
+  format: 'csv',
+  fields: DEFAULT_CLIENT_EXPORT_FIELDS,
+  documentMasking: 'formatted',
+  phoneMasking: 'formatted',
+  permission_id: ALL,
+  trash: false,
+};
+
+/**
+ * ClientExportDialog
+ * pt-BR: Exporta o resultado filtrado da lista de clientes em CSV, XLSX ou JSON, com escolha
+ *        de campos, máscaras de CPF/CNPJ e telefone e filtros de lixeira e grupo. As páginas
+ *        são lidas da API em sequência, com progresso e cancelamento. Combinações usadas com
+ *        frequência ficam salvas nas preferências do usuário.
+ * en-US: Exports the filtered clients list result as CSV, XLSX or JSON, choosing fields,
+ *        CPF/CNPJ and phone masks and the trash and group filters. Pages are read from the
+ *        API in sequence, with progress and cancellation. Frequently used combinations are
+ *        saved in the user preferences.
+ */
+export function ClientExportDialog({ open, onOpenChange, filters, segmentName }: ClientExportDialogProps) {
+  const [preset, setPreset] = useState<ClientExportPreset>(DEFAULT_PRESET);
+  const [progress, setProgress] = useState({ loaded: 0, total: 0 });
+  const abortRef = useRef<AbortController | null>(null);
+  const savedPresets = useSavedFilters<ClientExportPreset>('clients-export');
+  const { data: groups } = usePermissionsList({ per_page: 100 });
+  const exportMutation = useExportClients((loaded, total) => setProgress({ loaded, total }));
+
+  const update = (changes: Partial<ClientExportPreset>) => setPreset((current) => ({ ...current, ...changes }));
+
+  const toggleField = (key: string, checked: boolean) => {
+    update({ fields: checked ? [...preset.fields, key] : preset.fields.filter((field) => field !== key) });
+  };
+
+  // Começa com a lixeira da lista / Starts with the list's trash filter
+  useEffect(() => {
+    if (open) setPreset((current) => ({ ...current, trash: filters.trash }));
+  }, [open, filters.trash]);
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) abortRef.current?.abort();
+    onOpenChange(next);
+  };
+
+  const writeFile = (clients: ClientRecord[]) => {
+    const stamp = new Date().toISOString().slice(0, 10);
+    const baseName = `clientes-${preset.trash ? 'lixeira-' : ''}${stamp}`;
+    if (preset.format === 'json') {
+      downloadBlob(`${baseName}.json`, new Blob([clientExportJson(clients, preset)], { type: 'application/json' }));
+    } else if (preset.format === 'xlsx') {
+      downloadBlob(`${baseName}.xlsx`, buildXlsx(clientExportRows(clients, preset), 'Clientes'));
+    } else {
+      downloadCsv(`${baseName}.csv`, toCsv(clientExportRows(clients, preset)));
+    }
+  };
+
+  const handleExport = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setProgress({ loaded: 0, total: 0 });
+    try {
+      const clients = await exportMutation.mutateAsync({
+        params: {
+          search: filters.search || undefined,
+          excluido: preset.trash ? 's' : undefined,
+          permission_id: preset.permission_id === ALL ? undefined : Number(preset.permission_id),
+          segment: filters.segment,
+          segment_id: filters.segment_id,
+        },
+        status: filters.status === 'all' ? undefined : (filters.status as ClientRecord['status']),
+        signal: controller.signal,
+      });
+      if (clients.length === 0) {
+        toast.info('Nenhum cliente encontrado com esses filtros.');
+        return;
+      }
+      writeFile(clients);
+      toast.success(`${clients.length} cliente(s) exportado(s).`);
+      onOpenChange(false);
+    } catch (error) {
+      if (controller.signal.aborted) {
+        toast.info('Exportação cancelada.');
+      } else {
+        toast.error(`Erro ao exportar clientes: ${error instanceof Error ? error.message : 'erro desconhecido'}`);
+      }
+    } finally {
+      abortRef.current = null;
+    }
+  };
+
+  const activeFilters = [
+    filters.search && `busca "${filters.search}"`,
+    filters.status !== 'all' && `status ${CLIENT_STATUS_LABELS[filters.status as ClientRecord['status']] ?? filters.status}`,
+    segmentName && `segmento "${segmentName}"`,
+  ].filter(Boolean);
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Exportar clientes</DialogTitle>
+          <DialogDescription>
+            Todos os clientes do filtro atual{activeFilters.length > 0 ? ` (${activeFilters.join(', ')})` : ''}, não só os
+            da página aberta.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="space-y-1">
+              <Label className="text-xs">Formato</Label>
+              <Select value={preset.format} onValueChange={(value) => update({ format: value as ClientExportFormat })}>
+                <SelectTrigger className="h-9 w-56"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(FORMAT_LABELS) as ClientExportFormat[]).map((format) => (
+                    <SelectItem key={format} value={format}>{FORMAT_LABELS[format]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Grupo</Label>
+              <Select value={preset.permission_id} onValueChange={(value) => update({ permission_id: value })}>
+                <SelectTrigger className="h-9 w-48"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>Todos os grupos</SelectItem>
+                  {(groups?.data ?? []).map((group) => (
+                    <SelectItem key={group.id} value={String(group.id)}>{group.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <label className="flex h-9 items-center gap-2 text-sm">
+              <Switch checked={preset.trash} onCheckedChange={(checked) => update({ trash: checked })} />
+              Somente lixeira
+            </label>
+            <div className="ml-auto">
+              <SavedFiltersMenu
+                filters={savedPresets.filters}
+                onApply={({ values }) => setPreset({ ...DEFAULT_PRESET, ...values })}
+                onSave={(name) => savedPresets.saveFilter(name, preset)}
+                onRemove={savedPresets.removeFilter}
+              />
+            </div>
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-1">
+              <Label className="text-xs">CPF/CNPJ</Label>
+              <Select value={preset.documentMasking} onValueChange={(value) => update({ documentMasking: value as ClientExportMasking })}>
+                <SelectTrigger className="h-9"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(MASKING_LABELS) as ClientExportMasking[]).map((masking) => (
+                    <SelectItem key={masking} value={masking}>{MASKING_LABELS[masking]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Telefones</Label>
+              <Select value={preset.phoneMasking} onValueChange={(value) => update({ phoneMasking: value as ClientExportMasking })}>
+                <SelectTrigger className="h-9"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(MASKING_LABELS) as ClientExportMasking[]).map((masking) => (
+                    <SelectItem key={masking} value={masking}>{MASKING_LABELS[masking]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <p className="text-sm font-medium">Campos ({preset.fields.length})</p>
+              <div className="flex gap-1">
+                <Button variant="ghost" size="sm" onClick={() => update({ fields: CLIENT_EXPORT_FIELDS.map((field) => field.key) })}>
+                  Todos
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => update({ fields: DEFAULT_CLIENT_EXPORT_FIELDS })}>
+                  Padrão
+                </Button>
+              </div>
+            </div>
+            {(Object.keys(CLIENT_EXPORT_GROUP_LABELS) as Array<keyof typeof CLIENT_EXPORT_GROUP_LABELS>).map((group) => (
+              <div key={group} className="space-y-2">
+                <p className="text-xs font-medium uppercase text-muted-foreground">{CLIENT_EXPORT_GROUP_LABELS[group]}</p>
+                <div className="grid gap-2 sm:grid-cols-3">
+                  {CLIENT_EXPORT_FIELDS.filter((field) => field.group === group).map((field) => (
+                    <label key={field.key} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={preset.fields.includes(field.key)}
+                        onCheckedChange={(checked) => toggleField(field.key, checked === true)}
+                      />
+                      {field.label}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {exportMutation.isPending && (
+            <div className="space-y-1">
+              <Progress value={progress.total ? (progress.loaded / progress.total) * 100 : 0} />
+              <p className="text-xs text-muted-foreground">
+                {progress.loaded} de {progress.total || '...'} cliente(s) lidos
+              </p>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          {exportMutation.isPending ? (
+            <Button variant="outline" onClick={() => abortRef.current?.abort()}>Cancelar exportação</Button>
+          ) : (
+            <Button variant="outline" onClick={() => handleOpenChange(false)}>Fechar</Button>
+          )}
+          <Button onClick={handleExport} disabled={exportMutation.isPending || preset.fields.length === 0}>
+            {exportMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}
+            Exportar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
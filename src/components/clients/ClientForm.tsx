@@ -31,6 +31,7 @@ import { Calendar } from '@/components/ui/calendar';
 import { Textarea } from '@/components/ui/textarea';
 import { MaskedInputField } from '@/components/lib/MaskedInputField';
 import { useCep } from '@/hooks/useCep';
+import { useCan } from '@/hooks/useCan';
 import { SmartDocumentInput } from '@/components/lib/SmartDocumentInput';
 import { ImageUpload } from '@/components/lib/ImageUpload';
 import { useUsersList } from '@/hooks/users';
@@ -78,6 +79,7 @@ export function ClientForm({
   // en-US: Load consultants with larger page size and sorted by name.
   const { data: usersData, isLoading: isLoadingUsers } = useUsersList({ consultores: true, per_page: 100, sort: 'name' });
   const usersList = usersData?.data || [];
+  const canUpload = useCan('upload', '/admin/clients');
   
   // Watch para validação em tempo real
   const emailWatch = form.watch("email");
@@ -1060,6 +1062,7 @@ export function ClientForm({
                        onChange={field.onChange}
                        maxSize={2}
                        className="max-w-md"
+                       disabled={!canUpload}
                      />
                    )}
                  />
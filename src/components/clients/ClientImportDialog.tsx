@@ -0,0 +1,424 @@
+import { ChangeEvent, useMemo, useState } from 'react';
+import { AlertCircle, AlertTriangle, CheckCircle2, Download, FileUp, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Progress } from '@/components/ui/progress';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useAuth } from '@/contexts/AuthContext';
+import { useImportClients } from '@/hooks/clients';
+import { downloadCsv, parseCsvRecords, rowsToRecords, toCsv } from '@/lib/csv';
+import { readXlsxRows } from '@/lib/xlsx';
+import {
+  CLIENT_IMPORT_FIELDS,
+  CLIENT_IMPORT_TEMPLATE,
+  type ClientImportDefaults,
+  type ClientImportMapping,
+  clientImportReport,
+  missingRequiredFields,
+  suggestClientMapping,
+  validateClientImport,
+} from '@/lib/clientImport';
+import type { BatchResult } from '@/lib/batches';
+import { clientsService } from '@/services/clientsService';
+import { funnelsService } from '@/services/funnelsService';
+import type { ClientImportRow, ClientRecord } from '@/types/clients';
+import type { FunnelRecord, StageRecord } from '@/types/pipelines';
+
+interface ClientImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type Step = 'upload' | 'mapping' | 'review' | 'done';
+
+interface SheetData {
+  fileName: string;
+  headers: string[];
+  records: Record<string, string>[];
+}
+
+interface ImportContext {
+  existingClients: ClientRecord[];
+  funnels: FunnelRecord[];
+  stages: StageRecord[];
+}
+
+// Valor do Select para "não importar" (o Radix não aceita string vazia) / Select value for "don't import" (Radix rejects empty strings)
+const NONE = '__none__';
+
+function downloadTemplate() {
+  const url = URL.createObjectURL(new Blob([`\uFEFF${CLIENT_IMPORT_TEMPLATE}`], { type: 'text/csv;charset=utf-8' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = 'modelo-importacao-clientes.csv';
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+async function readSheet(file: File): Promise<SheetData> {
+  const isXlsx = /\.xlsx$/i.test(file.name);
+  const { headers, records } = isXlsx ? rowsToRecords(await readXlsxRows(await file.arrayBuffer())) : parseCsvRecords(await file.text());
+  return { fileName: file.name, headers, records };
+}
+
+/**
+ * loadImportContext
+ * pt-BR: Clientes já cadastrados (para duplicados) e funis/etapas (para resolver nomes).
+ * en-US: Clients already registered (for duplicates) and funnels/stages (to resolve names).
+ */
+async function loadImportContext(): Promise<ImportContext> {
+  const [clients, funnels] = await Promise.all([
+    clientsService.listClients({ per_page: 1000 }),
+    funnelsService.listFunnels({ per_page: 100 }),
+  ]);
+  const stages = await Promise.all(funnels.data.map((funnel) => funnelsService.listStages(funnel.id, { per_page: 100 })));
+  return { existingClients: clients.data, funnels: funnels.data, stages: stages.flatMap((page) => page.data) };
+}
+
+/**
+ * ClientImportDialog
+ * pt-BR: Assistente de importação de clientes por CSV/XLSX: envio do arquivo, ligação das
+ *        colunas aos campos do cadastro, prévia com relatório para download (nada é criado
+ *        até confirmar) e criação em lotes com progresso.
+ * en-US: CSV/XLSX client import wizard: file upload, linking columns to record fields, dry
+ *        run with a downloadable report (nothing is created until confirmed) and batched
+ *        creation with progress.
+ */
+export function ClientImportDialog({ open, onOpenChange }: ClientImportDialogProps) {
+  const [step, setStep] = useState<Step>('upload');
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [isReading, setIsReading] = useState(false);
+  const [sheet, setSheet] = useState<SheetData | null>(null);
+  const [context, setContext] = useState<ImportContext | null>(null);
+  const [mapping, setMapping] = useState<ClientImportMapping>({});
+  const [defaults, setDefaults] = useState<ClientImportDefaults>({ status: 'actived' });
+  const [rows, setRows] = useState<ClientImportRow[]>([]);
+  const [skipWarnings, setSkipWarnings] = useState(true);
+  const [progress, setProgress] = useState(0);
+  const [result, setResult] = useState<BatchResult | null>(null);
+  const { user } = useAuth();
+  const importMutation = useImportClients(setProgress);
+
+  const rowsToImport = rows.filter((row) => row.payload && !(skipWarnings && row.status === 'warning'));
+  const count = (status: ClientImportRow['status']) => rows.filter((row) => row.status === status).length;
+  const missing = missingRequiredFields(mapping);
+  const defaultStages = useMemo(
+    () => (context?.stages ?? []).filter((stage) => String(stage.funnel_id) === defaults.funnelId),
+    [context, defaults.funnelId]
+  );
+
+  const reset = () => {
+    setStep('upload');
+    setFileError(null);
+    setSheet(null);
+    setMapping({});
+    setRows([]);
+    setProgress(0);
+    setResult(null);
+    setContext(null);
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (importMutation.isPending) return;
+    if (!next) reset();
+    onOpenChange(next);
+  };
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setFileError(null);
+    setIsReading(true);
+    try {
+      const data = await readSheet(file);
+      if (data.records.length === 0) {
+        setFileError('O arquivo não tem linhas de dados.');
+        return;
+      }
+      setContext(context ?? await loadImportContext());
+      setSheet(data);
+      setMapping(suggestClientMapping(data.headers));
+      setStep('mapping');
+    } catch (error) {
+      setFileError(error instanceof Error ? error.message : 'Não foi possível ler o arquivo.');
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const handleDryRun = () => {
+    if (!sheet || !context) return;
+    setRows(validateClientImport(sheet.records, mapping, { ...context, defaults, autor: user?.id }));
+    setStep('review');
+  };
+
+  const handleImport = async () => {
+    setProgress(0);
+    setResult(await importMutation.mutateAsync(rowsToImport));
+    setStep('done');
+  };
+
+  const handleDownloadReport = () => {
+    const apiErrors = Object.fromEntries((result?.failed ?? []).map((failure) => [failure.id, failure.message]));
+    const baseName = sheet?.fileName.replace(/\.[^.]+$/, '') || 'clientes';
+    downloadCsv(`relatorio-importacao-${baseName}.csv`, toCsv(clientImportReport(rows, apiErrors)));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Importar clientes</DialogTitle>
+          <DialogDescription>
+            Arquivo CSV ou XLSX (primeira aba) com uma linha de cabeçalho. Nome e e-mail são obrigatórios;
+            as colunas são ligadas aos campos do cadastro no próximo passo.
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'upload' && (
+          <div className="space-y-4">
+            <Button type="button" variant="outline" size="sm" onClick={downloadTemplate}>
+              <Download className="mr-2 h-4 w-4" /> Baixar modelo
+            </Button>
+            <label className="flex cursor-pointer flex-col items-center gap-2 rounded-lg border-2 border-dashed p-8 text-center text-sm text-muted-foreground hover:bg-muted/50">
+              {isReading ? <Loader2 className="h-6 w-6 animate-spin" /> : <FileUp className="h-6 w-6" />}
+              {isReading ? 'Lendo arquivo...' : 'Clique para escolher o arquivo .csv ou .xlsx'}
+              <Input
+                type="file"
+                accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+                className="hidden"
+                onChange={handleFile}
+                disabled={isReading}
+              />
+            </label>
+            {fileError && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>{fileError}</AlertDescription>
+              </Alert>
+            )}
+          </div>
+        )}
+
+        {step === 'mapping' && sheet && context && (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              {sheet.fileName}: {sheet.records.length} linha(s). Confira de qual coluna vem cada campo.
+            </p>
+            <div className="grid gap-3 sm:grid-cols-2">
+              {CLIENT_IMPORT_FIELDS.map((field) => (
+                <div key={field.key} className="space-y-1">
+                  <Label className="text-xs">
+                    {field.label}
+                    {field.required && <span className="text-destructive"> *</span>}
+                  </Label>
+                  <Select
+                    value={mapping[field.key] ?? NONE}
+                    onValueChange={(value) =>
+                      setMapping((current) => ({ ...current, [field.key]: value === NONE ? undefined : value }))
+                    }
+                  >
+                    <SelectTrigger className="h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NONE}>Não importar</SelectItem>
+                      {sheet.headers.filter(Boolean).map((header) => (
+                        <SelectItem key={header} value={header}>{header}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+
+            <div className="rounded-md border p-3 space-y-3">
+              <p className="text-sm font-medium">Valores para células vazias</p>
+              <div className="grid gap-3 sm:grid-cols-3">
+                <div className="space-y-1">
+                  <Label className="text-xs">Status</Label>
+                  <Select
+                    value={defaults.status}
+                    onValueChange={(value) => setDefaults((current) => ({ ...current, status: value as ClientImportDefaults['status'] }))}
+                  >
+                    <SelectTrigger className="h-8"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="actived">Ativo</SelectItem>
+                      <SelectItem value="inactived">Inativo</SelectItem>
+                      <SelectItem value="pre_registred">Pré-cadastro</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Funil</Label>
+                  <Select
+                    value={defaults.funnelId ?? NONE}
+                    onValueChange={(value) =>
+                      setDefaults((current) => ({ ...current, funnelId: value === NONE ? undefined : value, stage_id: undefined }))
+                    }
+                  >
+                    <SelectTrigger className="h-8"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NONE}>Nenhum</SelectItem>
+                      {context.funnels.map((funnel) => (
+                        <SelectItem key={funnel.id} value={String(funnel.id)}>{funnel.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Etapa</Label>
+                  <Select
+                    value={defaults.stage_id ?? NONE}
+                    onValueChange={(value) => setDefaults((current) => ({ ...current, stage_id: value === NONE ? undefined : value }))}
+                    disabled={!defaults.funnelId}
+                  >
+                    <SelectTrigger className="h-8"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NONE}>Nenhuma</SelectItem>
+                      {defaultStages.map((stage) => (
+                        <SelectItem key={stage.id} value={String(stage.id)}>{stage.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            </div>
+
+            {missing.length > 0 && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>Escolha a coluna de: {missing.join(', ')}.</AlertDescription>
+              </Alert>
+            )}
+          </div>
+        )}
+
+        {(step === 'review' || step === 'done') && (
+          <div className="space-y-4">
+            {step === 'done' && result && (
+              <Alert>
+                <CheckCircle2 className="h-4 w-4" />
+                <AlertDescription>
+                  {result.succeeded.length} cliente(s) criado(s).
+                  {result.failed.length > 0 && ` ${result.failed.length} linha(s) recusada(s) pela API; veja o relatório.`}
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <div className="flex flex-wrap items-center gap-2">
+              <Badge className="bg-success text-success-foreground">{count('ready')} pronta(s)</Badge>
+              {count('warning') > 0 && <Badge variant="secondary">{count('warning')} com aviso</Badge>}
+              {count('error') > 0 && <Badge variant="destructive">{count('error')} com erro</Badge>}
+              <Button variant="outline" size="sm" className="ml-auto" onClick={handleDownloadReport}>
+                <Download className="mr-2 h-4 w-4" /> Baixar relatório
+              </Button>
+            </div>
+
+            {step === 'review' && count('warning') > 0 && (
+              <label className="flex items-center gap-2 text-sm">
+                <Checkbox checked={skipWarnings} onCheckedChange={(checked) => setSkipWarnings(checked === true)} />
+                Pular linhas com aviso (possíveis duplicados)
+              </label>
+            )}
+
+            {importMutation.isPending && (
+              <div className="space-y-1">
+                <Progress value={(progress / Math.max(rowsToImport.length, 1)) * 100} />
+                <p className="text-xs text-muted-foreground">{progress} de {rowsToImport.length}</p>
+              </div>
+            )}
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-16">Linha</TableHead>
+                  <TableHead>Nome</TableHead>
+                  <TableHead>E-mail</TableHead>
+                  <TableHead>Situação</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map((row) => {
+                  const failure = result?.failed.find((item) => item.id === String(row.line));
+                  return (
+                    <TableRow key={row.line} className={row.status === 'error' || failure ? 'bg-destructive/5' : undefined}>
+                      <TableCell>{row.line}</TableCell>
+                      <TableCell>{row.name || '—'}</TableCell>
+                      <TableCell>{row.email || '—'}</TableCell>
+                      <TableCell>
+                        {row.status === 'error' || failure ? (
+                          <ul className="list-disc pl-4 text-sm text-destructive">
+                            {row.errors.map((error) => <li key={error}>{error}</li>)}
+                            {failure && <li>{failure.message}</li>}
+                          </ul>
+                        ) : row.status === 'warning' ? (
+                          <ul className="text-sm text-amber-700 space-y-0.5">
+                            {row.warnings.map((warning) => (
+                              <li key={warning} className="flex items-start gap-1">
+                                <AlertTriangle className="mt-0.5 h-3.5 w-3.5 shrink-0" /> {warning}
+                              </li>
+                            ))}
+                          </ul>
+                        ) : (
+                          <span className="flex items-center gap-1 text-sm text-success">
+                            <CheckCircle2 className="h-4 w-4" /> Pronta
+                          </span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        <DialogFooter>
+          {step === 'mapping' && (
+            <>
+              <Button variant="outline" onClick={reset}>Escolher outro arquivo</Button>
+              <Button onClick={handleDryRun} disabled={missing.length > 0}>Validar (prévia)</Button>
+            </>
+          )}
+          {step === 'review' && (
+            <>
+              <Button variant="outline" onClick={() => setStep('mapping')} disabled={importMutation.isPending}>
+                Voltar ao mapeamento
+              </Button>
+              <Button onClick={handleImport} disabled={importMutation.isPending || rowsToImport.length === 0}>
+                {importMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {importMutation.isPending
+                  ? `Importando ${progress}/${rowsToImport.length}`
+                  : `Importar ${rowsToImport.length} cliente(s)`}
+              </Button>
+            </>
+          )}
+          {step === 'done' && <Button onClick={() => handleOpenChange(false)}>Concluir</Button>}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
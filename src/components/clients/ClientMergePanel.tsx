@@ -0,0 +1,240 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Check, Crown, GitMerge, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Can } from '@/components/auth/Can';
+import { useMergeClients } from '@/hooks/clients';
+import { cn } from '@/lib/utils';
+import type { ClientConfig, ClientMergeResult, ClientRecord, UpdateClientInput } from '@/types/clients';
+
+type TopField = 'name' | 'email' | 'tipo_pessoa' | 'cpf' | 'cnpj' | 'razao' | 'genero' | 'status';
+type ConfigField = keyof Pick<ClientConfig,
+  'celular' | 'telefone_residencial' | 'nascimento' | 'profissao' | 'cep' | 'endereco' | 'numero' |
+  'complemento' | 'bairro' | 'cidade' | 'uf' | 'observacoes'>;
+
+type MergeField =
+  | { key: TopField; label: string; scope: 'client' }
+  | { key: ConfigField; label: string; scope: 'config' };
+
+const MERGE_FIELDS: MergeField[] = [
+  { key: 'name', label: 'Nome', scope: 'client' },
+  { key: 'email', label: 'E-mail', scope: 'client' },
+  { key: 'tipo_pessoa', label: 'Tipo de pessoa', scope: 'client' },
+  { key: 'cpf', label: 'CPF', scope: 'client' },
+  { key: 'cnpj', label: 'CNPJ', scope: 'client' },
+  { key: 'razao', label: 'Razão social', scope: 'client' },
+  { key: 'genero', label: 'Gênero', scope: 'client' },
+  { key: 'status', label: 'Status', scope: 'client' },
+  { key: 'celular', label: 'Celular', scope: 'config' },
+  { key: 'telefone_residencial', label: 'Telefone residencial', scope: 'config' },
+  { key: 'nascimento', label: 'Nascimento', scope: 'config' },
+  { key: 'profissao', label: 'Profissão', scope: 'config' },
+  { key: 'cep', label: 'CEP', scope: 'config' },
+  { key: 'endereco', label: 'Endereço', scope: 'config' },
+  { key: 'numero', label: 'Número', scope: 'config' },
+  { key: 'complemento', label: 'Complemento', scope: 'config' },
+  { key: 'bairro', label: 'Bairro', scope: 'config' },
+  { key: 'cidade', label: 'Cidade', scope: 'config' },
+  { key: 'uf', label: 'UF', scope: 'config' },
+  { key: 'observacoes', label: 'Observações', scope: 'config' },
+];
+
+function fieldValue(client: ClientRecord, field: MergeField): string {
+  const value = field.scope === 'config' ? client.config?.[field.key] : client[field.key];
+  return value == null ? '' : String(value).trim();
+}
+
+/**
+ * defaultChoices
+ * pt-BR: Para cada campo, o valor do cadastro mantido; se estiver vazio, o primeiro preenchido.
+ * en-US: For each field, the kept record's value; if empty, the first filled one.
+ */
+function defaultChoices(clients: ClientRecord[], target: ClientRecord): Record<string, string> {
+  return Object.fromEntries(MERGE_FIELDS.map((field) => {
+    const source = fieldValue(target, field) ? target : clients.find((client) => fieldValue(client, field)) ?? target;
+    return [field.key, source.id];
+  }));
+}
+
+interface ClientMergePanelProps {
+  clients: ClientRecord[];
+  onMerged?: (result: ClientMergeResult) => void;
+}
+
+/**
+ * ClientMergePanel
+ * pt-BR: Mescla cadastros duplicados: escolhe o cadastro mantido (por padrão o mais antigo) e,
+ *        campo a campo, qual valor sobrevive. Os vínculos dos demais passam para o mantido.
+ * en-US: Merges duplicate records: picks the kept record (the oldest by default) and, field by
+ *        field, which value survives. The others' links move to the kept one.
+ */
+export function ClientMergePanel({ clients, onMerged }: ClientMergePanelProps) {
+  const mergeMutation = useMergeClients();
+  const oldest = useMemo(
+    () => [...clients].sort((a, b) => String(a.created_at ?? '').localeCompare(String(b.created_at ?? '')))[0],
+    [clients]
+  );
+  const [targetId, setTargetId] = useState(oldest?.id);
+  const [choices, setChoices] = useState<Record<string, string>>({});
+  const [confirmOpen, setConfirmOpen] = useState(false);
+
+  const target = clients.find((client) => client.id === targetId) ?? oldest;
+  const sources = clients.filter((client) => client.id !== target?.id);
+
+  useEffect(() => {
+    setTargetId(oldest?.id);
+  }, [oldest]);
+
+  useEffect(() => {
+    if (target) setChoices(defaultChoices(clients, target));
+  }, [clients, target]);
+
+  // Só linhas com algum valor / Only rows with some value
+  const fields = useMemo(
+    () => MERGE_FIELDS.filter((field) => clients.some((client) => fieldValue(client, field))),
+    [clients]
+  );
+
+  if (!target) return null;
+
+  const buildValues = (): UpdateClientInput => {
+    const pick = (field: MergeField) => {
+      const source = clients.find((client) => client.id === choices[field.key]) ?? target;
+      return field.scope === 'config' ? source.config?.[field.key] : source[field.key];
+    };
+    const values: Record<string, unknown> = {};
+    const config: Record<string, unknown> = { ...target.config };
+    MERGE_FIELDS.forEach((field) => {
+      if (field.scope === 'config') config[field.key] = pick(field) ?? null;
+      else values[field.key] = pick(field) ?? null;
+    });
+    return { ...values, config } as UpdateClientInput;
+  };
+
+  const handleMerge = () => {
+    mergeMutation.mutate(
+      { target_id: target.id, source_ids: sources.map((client) => client.id), values: buildValues() },
+      {
+        onSuccess: (result) => {
+          setConfirmOpen(false);
+          onMerged?.(result);
+        },
+      }
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="overflow-x-auto rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-40">Campo</TableHead>
+              {clients.map((client) => (
+                <TableHead key={client.id} className="min-w-[180px]">
+                  <button
+                    type="button"
+                    onClick={() => setTargetId(client.id)}
+                    className={cn(
+                      'flex w-full items-center gap-2 rounded-md border px-2 py-1 text-left text-xs',
+                      client.id === target.id ? 'border-primary bg-primary/10 text-primary' : 'hover:bg-muted'
+                    )}
+                  >
+                    {client.id === target.id ? <Crown className="h-3.5 w-3.5" /> : <span className="h-3.5 w-3.5" />}
+                    <span className="flex-1">
+                      #{client.id}
+                      {client.created_at && ` • ${new Date(client.created_at).toLocaleDateString('pt-BR')}`}
+                    </span>
+                    {client.id === target.id && <Badge variant="secondary" className="text-[10px]">Mantido</Badge>}
+                  </button>
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {fields.map((field) => {
+              const distinct = new Set(clients.map((client) => fieldValue(client, field))).size > 1;
+              return (
+                <TableRow key={field.key}>
+                  <TableCell className={cn('text-sm', distinct && 'font-medium')}>{field.label}</TableCell>
+                  {clients.map((client) => {
+                    const value = fieldValue(client, field);
+                    const selected = choices[field.key] === client.id;
+                    return (
+                      <TableCell key={client.id} className="p-1">
+                        <button
+                          type="button"
+                          disabled={!distinct}
+                          onClick={() => setChoices((current) => ({ ...current, [field.key]: client.id }))}
+                          className={cn(
+                            'flex w-full items-center gap-2 rounded px-2 py-1 text-left text-sm',
+                            distinct && selected && 'bg-primary/10 text-primary',
+                            distinct && !selected && 'text-muted-foreground hover:bg-muted',
+                            !distinct && 'cursor-default'
+                          )}
+                        >
+                          {distinct && selected ? <Check className="h-3.5 w-3.5 shrink-0" /> : <span className="h-3.5 w-3.5 shrink-0" />}
+                          <span className="truncate">{value || '—'}</span>
+                        </button>
+                      </TableCell>
+                    );
+                  })}
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-sm text-muted-foreground">
+          Matrículas, propostas, aeronaves, OS, extratos de pontos e atendimentos de{' '}
+          {sources.map((client) => `#${client.id}`).join(', ')} passam para #{target.id}.
+        </p>
+        <Can action="delete" menuPath="/admin/clients" mode="disable">
+          <Button onClick={() => setConfirmOpen(true)} disabled={mergeMutation.isPending}>
+            <GitMerge className="mr-2 h-4 w-4" />
+            Mesclar {clients.length} cadastros
+          </Button>
+        </Can>
+      </div>
+
+      <AlertDialog open={confirmOpen} onOpenChange={setConfirmOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Mesclar cadastros?</AlertDialogTitle>
+            <AlertDialogDescription>
+              O cadastro #{target.id} ({target.name}) fica com os valores escolhidos e recebe todos os
+              vínculos. {sources.length === 1 ? 'O cadastro' : 'Os cadastros'}{' '}
+              {sources.map((client) => `#${client.id}`).join(', ')} {sources.length === 1 ? 'vai' : 'vão'} para a lixeira.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={mergeMutation.isPending}>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(event) => {
+                event.preventDefault();
+                handleMerge();
+              }}
+              disabled={mergeMutation.isPending}
+            >
+              {mergeMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Mesclar
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,188 @@
+import { Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  CLIENT_SEGMENT_FIELDS,
+  type ClientSegmentOptions,
+  newSegmentCondition,
+  newSegmentGroup,
+  operatorNeedsValue,
+  segmentField,
+  segmentOperatorLabel,
+} from '@/lib/clientSegments';
+import type {
+  ClientSegmentCondition,
+  ClientSegmentDefinition,
+  ClientSegmentField,
+  ClientSegmentGroup,
+  ClientSegmentMatch,
+} from '@/types/clients';
+
+interface ClientSegmentBuilderProps {
+  value: ClientSegmentDefinition;
+  onChange: (value: ClientSegmentDefinition) => void;
+  options: ClientSegmentOptions;
+}
+
+function MatchSelect({ value, onChange, subject }: { value: ClientSegmentMatch; onChange: (value: ClientSegmentMatch) => void; subject: string }) {
+  return (
+    <Select value={value} onValueChange={(next) => onChange(next as ClientSegmentMatch)}>
+      <SelectTrigger className="h-8 w-auto gap-2"><SelectValue /></SelectTrigger>
+      <SelectContent>
+        <SelectItem value="all">todas as {subject} (E)</SelectItem>
+        <SelectItem value="any">qualquer {subject === 'condições' ? 'condição' : 'grupo'} (OU)</SelectItem>
+      </SelectContent>
+    </Select>
+  );
+}
+
+interface ConditionRowProps {
+  condition: ClientSegmentCondition;
+  options: ClientSegmentOptions;
+  onChange: (condition: ClientSegmentCondition) => void;
+  onRemove: () => void;
+}
+
+function ConditionRow({ condition, options, onChange, onRemove }: ConditionRowProps) {
+  const field = segmentField(condition.field);
+  const update = (changes: Partial<ClientSegmentCondition>) => onChange({ ...condition, ...changes });
+
+  const valueInput = (key: 'value' | 'value_to') => {
+    const value = condition[key] ?? '';
+    if (field.kind === 'option') {
+      return (
+        <Select value={value || undefined} onValueChange={(next) => update({ [key]: next })}>
+          <SelectTrigger className="h-8 min-w-[180px] flex-1"><SelectValue placeholder="Selecione" /></SelectTrigger>
+          <SelectContent>
+            {(options[condition.field] ?? []).map((option) => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+    }
+    const type = field.kind === 'date' && condition.operator !== 'last_days' ? 'date' : field.kind === 'text' ? 'text' : 'number';
+    return (
+      <Input
+        type={type}
+        min={type === 'number' ? 0 : undefined}
+        value={value}
+        onChange={(event) => update({ [key]: event.target.value })}
+        className="h-8 w-36"
+      />
+    );
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Select
+        value={condition.field}
+        onValueChange={(next) => onChange({ ...newSegmentCondition(next as ClientSegmentField), id: condition.id })}
+      >
+        <SelectTrigger className="h-8 w-40"><SelectValue /></SelectTrigger>
+        <SelectContent>
+          {CLIENT_SEGMENT_FIELDS.map((item) => (
+            <SelectItem key={item.key} value={item.key}>{item.label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Select
+        value={condition.operator}
+        onValueChange={(next) => update({ operator: next as ClientSegmentCondition['operator'], value: '', value_to: undefined })}
+      >
+        <SelectTrigger className="h-8 w-44"><SelectValue /></SelectTrigger>
+        <SelectContent>
+          {field.operators.map((operator) => (
+            <SelectItem key={operator} value={operator}>{segmentOperatorLabel(field, operator)}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {operatorNeedsValue(condition.operator) && valueInput('value')}
+      {condition.operator === 'between' && (
+        <>
+          <span className="text-sm text-muted-foreground">e</span>
+          {valueInput('value_to')}
+        </>
+      )}
+      {operatorNeedsValue(condition.operator) && (condition.operator === 'last_days' || field.unit) && (
+        <span className="text-sm text-muted-foreground">{condition.operator === 'last_days' ? 'dias' : field.unit}</span>
+      )}
+      <Button type="button" variant="ghost" size="icon" className="h-8 w-8 ml-auto" onClick={onRemove} aria-label="Remover condição">
+        <Trash2 className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+}
+
+/**
+ * ClientSegmentBuilder
+ * pt-BR: Editor de segmento: grupos de condições combinados por E/OU, dentro e entre grupos.
+ *        Condições incompletas ficam na tela, mas não filtram.
+ * en-US: Segment editor: condition groups combined with AND/OR, inside and across groups.
+ *        Incomplete conditions stay on screen but do not filter.
+ */
+export function ClientSegmentBuilder({ value, onChange, options }: ClientSegmentBuilderProps) {
+  const updateGroup = (groupId: string, changes: Partial<ClientSegmentGroup>) => {
+    onChange({ ...value, groups: value.groups.map((group) => (group.id === groupId ? { ...group, ...changes } : group)) });
+  };
+
+  const removeGroup = (groupId: string) => {
+    const groups = value.groups.filter((group) => group.id !== groupId);
+    onChange({ ...value, groups: groups.length ? groups : [newSegmentGroup()] });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        Clientes que atendem
+        <MatchSelect value={value.match} onChange={(match) => onChange({ ...value, match })} subject="grupos" />
+      </div>
+
+      {value.groups.map((group, index) => (
+        <div key={group.id} className="space-y-2">
+          {index > 0 && (
+            <div className="flex justify-center">
+              <Badge variant="secondary">{value.match === 'any' ? 'OU' : 'E'}</Badge>
+            </div>
+          )}
+          <div className="rounded-md border p-3 space-y-3">
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <span className="font-medium">Grupo {index + 1}:</span>
+              <MatchSelect value={group.match} onChange={(match) => updateGroup(group.id, { match })} subject="condições" />
+              <Button type="button" variant="ghost" size="sm" className="ml-auto" onClick={() => removeGroup(group.id)}>
+                Remover grupo
+              </Button>
+            </div>
+            {group.conditions.map((condition) => (
+              <ConditionRow
+                key={condition.id}
+                condition={condition}
+                options={options}
+                onChange={(next) => updateGroup(group.id, {
+                  conditions: group.conditions.map((item) => (item.id === condition.id ? next : item)),
+                })}
+                onRemove={() => updateGroup(group.id, {
+                  conditions: group.conditions.filter((item) => item.id !== condition.id),
+                })}
+              />
+            ))}
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => updateGroup(group.id, { conditions: [...group.conditions, newSegmentCondition()] })}
+            >
+              <Plus className="mr-1 h-4 w-4" /> Condição
+            </Button>
+          </div>
+        </div>
+      ))}
+
+      <Button type="button" variant="outline" size="sm" onClick={() => onChange({ ...value, groups: [...value.groups, newSegmentGroup()] })}>
+        <Plus className="mr-1 h-4 w-4" /> Grupo
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,167 @@
+import { useEffect, useState } from 'react';
+import { Loader2, Save, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Can } from '@/components/auth/Can';
+import { ClientSegmentBuilder } from '@/components/clients/ClientSegmentBuilder';
+import {
+  useClientSegmentOptions,
+  useClientSegments,
+  useDeleteClientSegment,
+  useSaveClientSegment,
+} from '@/hooks/clients';
+import {
+  type ActiveClientSegment,
+  compactSegment,
+  countSegmentConditions,
+  describeClientSegment,
+  emptyClientSegment,
+  segmentOptionLabeler,
+} from '@/lib/clientSegments';
+import type { ClientSegmentDefinition } from '@/types/clients';
+
+interface ClientSegmentDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  value: ActiveClientSegment | null;
+  onApply: (value: ActiveClientSegment | null) => void;
+}
+
+const NEW = '__new__';
+
+/**
+ * ClientSegmentDialog
+ * pt-BR: Filtro avançado da lista de clientes: monta a definição, aplica na lista e salva
+ *        como segmento com nome (ou atualiza/exclui um segmento salvo).
+ * en-US: Advanced filter of the clients list: builds the definition, applies it to the list
+ *        and saves it as a named segment (or updates/deletes a saved segment).
+ */
+export function ClientSegmentDialog({ open, onOpenChange, value, onApply }: ClientSegmentDialogProps) {
+  const { data: segmentsData } = useClientSegments();
+  const { data: options = {}, isLoading: isLoadingOptions } = useClientSegmentOptions(open);
+  const saveMutation = useSaveClientSegment();
+  const deleteMutation = useDeleteClientSegment();
+  const segments = segmentsData?.data ?? [];
+
+  const [definition, setDefinition] = useState<ClientSegmentDefinition>(emptyClientSegment);
+  const [savedId, setSavedId] = useState<string>(NEW);
+  const [name, setName] = useState('');
+
+  const saved = segments.find((segment) => String(segment.id) === savedId) ?? null;
+  const hasConditions = countSegmentConditions(definition) > 0;
+
+  // Abre com o que está aplicado na lista / Opens with what the list has applied
+  useEffect(() => {
+    if (!open) return;
+    setDefinition(value?.definition ?? emptyClientSegment());
+    setSavedId(value?.saved ? String(value.saved.id) : NEW);
+    setName(value?.saved?.name ?? '');
+  }, [open, value]);
+
+  const loadSaved = (id: string) => {
+    setSavedId(id);
+    const segment = segments.find((item) => String(item.id) === id);
+    setDefinition(segment ? structuredClone(segment.definition) : emptyClientSegment());
+    setName(segment?.name ?? '');
+  };
+
+  const apply = (next: ActiveClientSegment | null) => {
+    onApply(next);
+    onOpenChange(false);
+  };
+
+  const handleSave = () => {
+    const compact = compactSegment(definition);
+    if (!compact || !name.trim()) return;
+    saveMutation.mutate(
+      { id: saved && saved.name === name.trim() ? String(saved.id) : undefined, name: name.trim(), definition: compact },
+      { onSuccess: (segment) => apply({ definition: segment.definition, saved: segment }) }
+    );
+  };
+
+  const handleDelete = () => {
+    if (!saved) return;
+    deleteMutation.mutate(String(saved.id), {
+      onSuccess: () => {
+        if (value?.saved && String(value.saved.id) === String(saved.id)) onApply({ definition: value.definition });
+        loadSaved(NEW);
+      },
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Filtro avançado</DialogTitle>
+          <DialogDescription>
+            Combine cidade/UF, funil e etapa, consultor, status, pontos, idade, data de cadastro, cursos e etiquetas.
+            Salve como segmento para usar de novo na lista, na exportação e nas ações em lote.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-end gap-2">
+            <div className="space-y-1">
+              <Label className="text-xs">Segmento</Label>
+              <Select value={savedId} onValueChange={loadSaved}>
+                <SelectTrigger className="h-9 w-64"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NEW}>Novo filtro</SelectItem>
+                  {segments.map((segment) => (
+                    <SelectItem key={segment.id} value={String(segment.id)}>{segment.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {saved && (
+              <Can action="delete" menuPath="/admin/clients">
+                <Button variant="ghost" size="sm" onClick={handleDelete} disabled={deleteMutation.isPending}>
+                  <Trash2 className="mr-1 h-4 w-4" /> Excluir segmento
+                </Button>
+              </Can>
+            )}
+          </div>
+
+          {isLoadingOptions ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <ClientSegmentBuilder value={definition} onChange={setDefinition} options={options} />
+          )}
+
+          <p className="rounded-md bg-muted px-3 py-2 text-sm text-muted-foreground">
+            {describeClientSegment(definition, segmentOptionLabeler(options))}
+          </p>
+
+          <div className="flex flex-wrap items-end gap-2">
+            <div className="flex-1 space-y-1">
+              <Label className="text-xs">Nome do segmento</Label>
+              <Input value={name} onChange={(event) => setName(event.target.value)} placeholder="Ex.: Leads de MG com pontos" />
+            </div>
+            <Button variant="outline" onClick={handleSave} disabled={!hasConditions || !name.trim() || saveMutation.isPending}>
+              {saveMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+              {saved && saved.name === name.trim() ? 'Atualizar segmento' : 'Salvar como segmento'}
+            </Button>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => apply(null)}>Limpar filtro</Button>
+          <Button onClick={() => apply(hasConditions ? { definition, saved } : null)}>Aplicar</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,322 @@
+import { useMemo, useState } from 'react';
+import { GitBranch, Loader2, RotateCcw, Tags, Trash2, UserCog, UserCheck, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Can } from '@/components/auth/Can';
+import { useBulkClientAction } from '@/hooks/clients';
+import { useFunnelsList, useStagesList } from '@/hooks/funnels';
+import { useUsersList } from '@/hooks/users';
+import { CLIENT_STATUS_LABELS } from '@/lib/clientExport';
+import type { BatchResult } from '@/lib/batches';
+import type { ClientBulkAction, ClientRecord } from '@/types/clients';
+
+type BulkKind = ClientBulkAction['type'];
+
+interface ClientsBulkActionsBarProps {
+  selectedClients: ClientRecord[];
+  /** Lista mostrando a lixeira: troca Excluir por Restaurar / List showing the trash: swaps Delete for Restore */
+  trash: boolean;
+  /** Total de clientes no filtro atual / Total clients in the current filter */
+  totalMatching?: number;
+  onSelectAll?: () => void;
+  isSelectingAll?: boolean;
+  /** Remove da seleção os clientes processados com sucesso / Removes successfully processed clients from the selection */
+  onProcessed: (succeededIds: string[]) => void;
+  onClear: () => void;
+}
+
+const TITLES: Record<BulkKind, string> = {
+  status: 'Alterar status',
+  funnel: 'Mover para funil e etapa',
+  autor: 'Trocar consultor',
+  tags: 'Etiquetas',
+  delete: 'Excluir clientes',
+  restore: 'Restaurar clientes',
+};
+
+const splitTags = (text: string) => text.split(',').map((tag) => tag.trim()).filter(Boolean);
+
+/**
+ * ClientsBulkActionsBar
+ * pt-BR: Barra de ações para os clientes marcados na lista: status, funil/etapa, consultor,
+ *        etiquetas, exclusão e restauração. O diálogo confirma a ação, mostra o progresso e,
+ *        no fim, lista as falhas por cliente (que continuam selecionados).
+ * en-US: Action bar for the clients checked in the list: status, funnel/stage, consultant,
+ *        tags, deletion and restore. The dialog confirms the action, shows the progress and,
+ *        at the end, lists the failures per client (which stay selected).
+ */
+export function ClientsBulkActionsBar({
+  selectedClients,
+  trash,
+  totalMatching,
+  onSelectAll,
+  isSelectingAll,
+  onProcessed,
+  onClear,
+}: ClientsBulkActionsBarProps) {
+  const [kind, setKind] = useState<BulkKind | null>(null);
+  const [status, setStatus] = useState<ClientRecord['status']>('actived');
+  const [funnelId, setFunnelId] = useState('');
+  const [stageId, setStageId] = useState('');
+  const [autor, setAutor] = useState('');
+  const [tagsToAdd, setTagsToAdd] = useState('');
+  const [tagsToRemove, setTagsToRemove] = useState('');
+  const [done, setDone] = useState(0);
+  const [result, setResult] = useState<BatchResult | null>(null);
+  const [total, setTotal] = useState(0);
+  const bulkMutation = useBulkClientAction(setDone);
+
+  const { data: funnelsData } = useFunnelsList({ page: 1, per_page: 100 }, { enabled: kind === 'funnel' });
+  const funnels = useMemo(
+    () => (funnelsData?.data ?? []).filter((funnel) => funnel.settings?.place === 'atendimento'),
+    [funnelsData?.data]
+  );
+  const { data: stagesData } = useStagesList(funnelId, { per_page: 100 });
+  const { data: consultantsData } = useUsersList({ consultores: true, per_page: 100, sort: 'name' });
+
+  const action = useMemo<ClientBulkAction | null>(() => {
+    switch (kind) {
+      case 'status':
+        return { type: 'status', status };
+      case 'funnel':
+        return funnelId ? { type: 'funnel', funnelId, stage_id: stageId || null } : null;
+      case 'autor':
+        return autor ? { type: 'autor', autor } : null;
+      case 'tags': {
+        const add = splitTags(tagsToAdd);
+        const remove = splitTags(tagsToRemove);
+        return add.length || remove.length ? { type: 'tags', add, remove } : null;
+      }
+      case 'delete':
+      case 'restore':
+        return { type: kind };
+      default:
+        return null;
+    }
+  }, [kind, status, funnelId, stageId, autor, tagsToAdd, tagsToRemove]);
+
+  const open = (next: BulkKind) => {
+    setResult(null);
+    setDone(0);
+    setKind(next);
+  };
+
+  const close = () => {
+    if (bulkMutation.isPending) return;
+    setKind(null);
+    setResult(null);
+  };
+
+  const handleConfirm = async () => {
+    if (!action) return;
+    setTotal(selectedClients.length);
+    setDone(0);
+    const outcome = await bulkMutation.mutateAsync({ clients: selectedClients, action });
+    onProcessed(outcome.succeeded);
+    setResult(outcome);
+    if (action.type === 'tags') {
+      setTagsToAdd('');
+      setTagsToRemove('');
+    }
+  };
+
+  const isBusy = bulkMutation.isPending;
+  const canSelectAll = !!onSelectAll && !!totalMatching && totalMatching > selectedClients.length;
+
+  const renderSetup = () => {
+    switch (kind) {
+      case 'status':
+        return (
+          <p className="text-sm">
+            Os {selectedClients.length} cliente(s) passam a ficar como <strong>{CLIENT_STATUS_LABELS[status]}</strong>.
+          </p>
+        );
+      case 'funnel':
+        return (
+          <div className="grid gap-3 sm:grid-cols-2">
+            <div className="space-y-1">
+              <Label className="text-xs">Funil</Label>
+              <Select value={funnelId || undefined} onValueChange={(value) => { setFunnelId(value); setStageId(''); }}>
+                <SelectTrigger><SelectValue placeholder="Selecione o funil" /></SelectTrigger>
+                <SelectContent>
+                  {funnels.map((funnel) => (
+                    <SelectItem key={funnel.id} value={String(funnel.id)}>{funnel.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Etapa</Label>
+              <Select value={stageId || undefined} onValueChange={setStageId} disabled={!funnelId}>
+                <SelectTrigger><SelectValue placeholder="Selecione a etapa" /></SelectTrigger>
+                <SelectContent>
+                  {(stagesData?.data ?? []).map((stage) => (
+                    <SelectItem key={stage.id} value={String(stage.id)}>{stage.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        );
+      case 'autor':
+        return (
+          <div className="space-y-1">
+            <Label className="text-xs">Consultor</Label>
+            <Select value={autor || undefined} onValueChange={setAutor}>
+              <SelectTrigger><SelectValue placeholder="Selecione o consultor" /></SelectTrigger>
+              <SelectContent>
+                {(consultantsData?.data ?? []).map((user) => (
+                  <SelectItem key={user.id} value={String(user.id)}>{user.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        );
+      case 'tags':
+        return (
+          <div className="space-y-3">
+            <div className="space-y-1">
+              <Label className="text-xs">Adicionar etiquetas</Label>
+              <Input value={tagsToAdd} onChange={(event) => setTagsToAdd(event.target.value)} placeholder="Ex.: vip, feira 2026" />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Remover etiquetas</Label>
+              <Input value={tagsToRemove} onChange={(event) => setTagsToRemove(event.target.value)} placeholder="Separe por vírgula" />
+            </div>
+          </div>
+        );
+      case 'delete':
+        return <p className="text-sm">Os {selectedClients.length} cliente(s) vão para a lixeira e podem ser restaurados depois.</p>;
+      case 'restore':
+        return <p className="text-sm">Os {selectedClients.length} cliente(s) saem da lixeira e voltam para a lista.</p>;
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <>
+      <div className="flex flex-wrap items-center gap-2 rounded-lg border bg-muted/50 p-3">
+        <span className="text-sm font-medium mr-2">
+          {selectedClients.length} selecionado(s)
+        </span>
+        {canSelectAll && (
+          <Button size="sm" variant="link" className="px-0" disabled={isSelectingAll} onClick={onSelectAll}>
+            {isSelectingAll && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Selecionar todos os {totalMatching} do filtro
+          </Button>
+        )}
+        {!trash && (
+          <>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button size="sm" variant="outline" disabled={isBusy}>
+                  <UserCheck className="mr-2 h-4 w-4" /> Status
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent>
+                {(Object.keys(CLIENT_STATUS_LABELS) as ClientRecord['status'][]).map((value) => (
+                  <DropdownMenuItem key={value} onClick={() => { setStatus(value); open('status'); }}>
+                    {CLIENT_STATUS_LABELS[value]}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+            <Button size="sm" variant="outline" disabled={isBusy} onClick={() => open('funnel')}>
+              <GitBranch className="mr-2 h-4 w-4" /> Funil e etapa
+            </Button>
+            <Button size="sm" variant="outline" disabled={isBusy} onClick={() => open('autor')}>
+              <UserCog className="mr-2 h-4 w-4" /> Consultor
+            </Button>
+            <Button size="sm" variant="outline" disabled={isBusy} onClick={() => open('tags')}>
+              <Tags className="mr-2 h-4 w-4" /> Etiquetas
+            </Button>
+            <Can action="delete" menuPath="/admin/clients">
+              <Button size="sm" variant="outline" disabled={isBusy} onClick={() => open('delete')}>
+                <Trash2 className="mr-2 h-4 w-4" /> Excluir
+              </Button>
+            </Can>
+          </>
+        )}
+        {trash && (
+          <Button size="sm" variant="outline" disabled={isBusy} onClick={() => open('restore')}>
+            <RotateCcw className="mr-2 h-4 w-4" /> Restaurar
+          </Button>
+        )}
+        <Button size="sm" variant="ghost" className="ml-auto" disabled={isBusy} onClick={onClear}>
+          <X className="mr-2 h-4 w-4" /> Limpar seleção
+        </Button>
+      </div>
+
+      <Dialog open={!!kind} onOpenChange={(next) => { if (!next) close(); }}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{kind ? TITLES[kind] : ''}</DialogTitle>
+            <DialogDescription>
+              {result
+                ? `${result.succeeded.length} cliente(s) processado(s)${result.failed.length ? `, ${result.failed.length} com erro` : ''}.`
+                : `Ação em lote para ${selectedClients.length} cliente(s).`}
+            </DialogDescription>
+          </DialogHeader>
+
+          {!result && !isBusy && renderSetup()}
+
+          {isBusy && (
+            <div className="space-y-1">
+              <Progress value={total ? (done / total) * 100 : 0} />
+              <p className="text-xs text-muted-foreground">{done} de {total} cliente(s) processado(s)</p>
+            </div>
+          )}
+
+          {result && result.failed.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-sm text-muted-foreground">Os clientes abaixo continuam selecionados para uma nova tentativa.</p>
+              <ul className="max-h-60 space-y-1 overflow-y-auto text-sm">
+                {result.failed.map((failure) => (
+                  <li key={failure.id}>
+                    <span className="font-medium">{failure.label}</span>: {failure.message}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <DialogFooter>
+            {result ? (
+              <Button onClick={close}>Fechar</Button>
+            ) : (
+              <>
+                <Button variant="outline" onClick={close} disabled={isBusy}>Cancelar</Button>
+                <Button
+                  variant={kind === 'delete' ? 'destructive' : 'default'}
+                  onClick={handleConfirm}
+                  disabled={!action || isBusy || selectedClients.length === 0}
+                >
+                  {isBusy && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Confirmar
+                </Button>
+              </>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
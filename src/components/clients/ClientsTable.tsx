@@ -4,9 +4,12 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { MoreHorizontal, Pencil, Trash2, Eye, RotateCcw } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
 import { ClientRecord } from '@/types/clients';
 import { useUsersList } from '@/hooks/users';
 import { useRestoreClient } from '@/hooks/clients';
+import { useAbilities } from '@/hooks/useCan';
+import { CLIENT_TABLE_COLUMNS } from '@/lib/clientTable';
 
 interface ClientsTableProps {
   clients: ClientRecord[];
@@ -18,20 +21,41 @@ interface ClientsTableProps {
    * When true, shows a visual banner warning the list is filtering deleted records.
    */
   trashEnabled?: boolean;
+  /** Colunas visíveis, na ordem de exibição (padrão: todas) / Visible columns in display order (default: all) */
+  columns?: string[];
+  /**
+   * Seleção para ações em lote; sem `onToggle` a coluna de seleção não aparece.
+   * Selection for bulk actions; without `onToggle` the selection column is hidden.
+   */
+  selected?: Record<string, ClientRecord>;
+  onToggle?: (client: ClientRecord, checked: boolean) => void;
+  onToggleAll?: (checked: boolean) => void;
 }
 
 /**
  * Componente de Tabela de Clientes
  * Renders client rows with owner and status. When `trashEnabled` is true,
  * shows a purple banner at the top, hides the Delete action, e exibe "Restaurar".
+ * Editar/Restaurar exigem `can_edit` e Excluir exige `can_delete` em `/admin/clients`.
  */
-export function ClientsTable({ clients, onEdit, onDelete, isLoading, trashEnabled }: ClientsTableProps) {
+export function ClientsTable({
+  clients,
+  onEdit,
+  onDelete,
+  isLoading,
+  trashEnabled,
+  columns = CLIENT_TABLE_COLUMNS.map((column) => column.id),
+  selected = {},
+  onToggle,
+  onToggleAll,
+}: ClientsTableProps) {
   const navigate = useNavigate();
   const location = useLocation();
   // Garantir que clients seja sempre um array válido
   const clientsList = Array.isArray(clients) ? clients : [];
   // Hook de restauração
   const restoreClientMutation = useRestoreClient();
+  const { can_edit: canEdit, can_delete: canDelete } = useAbilities('/admin/clients');
   
   // Buscar lista de usuários para identificar o proprietário
   const { data: usersData } = useUsersList();
@@ -61,6 +85,37 @@ export function ClientsTable({ clients, onEdit, onDelete, isLoading, trashEnable
     );
   };
   
+  const renderCell = (client: ClientRecord, columnId: string) => {
+    switch (columnId) {
+      case 'name':
+        return <TableCell key={columnId} className="font-medium">{client.name}</TableCell>;
+      case 'document':
+        return (
+          <TableCell key={columnId}>
+            {client.tipo_pessoa === 'pf' ? (client.cpf || 'Não informado') : (client.cnpj || 'Não informado')}
+          </TableCell>
+        );
+      case 'email':
+        return <TableCell key={columnId}>{client.email || 'Não informado'}</TableCell>;
+      case 'owner':
+        return <TableCell key={columnId}>{client.autor_name || 'Não identificado'}</TableCell>;
+      case 'status':
+        return <TableCell key={columnId}>{getStatusBadge(client.status)}</TableCell>;
+      case 'tags':
+        return (
+          <TableCell key={columnId}>
+            <div className="flex flex-wrap gap-1">
+              {(client.tags ?? []).map((tag) => (
+                <Badge key={tag} variant="outline">{tag}</Badge>
+              ))}
+            </div>
+          </TableCell>
+        );
+      default:
+        return null;
+    }
+  };
+
   if (isLoading) {
     return <div className="text-center py-4">Carregando clientes...</div>;
   }
@@ -91,11 +146,20 @@ export function ClientsTable({ clients, onEdit, onDelete, isLoading, trashEnable
       <Table>
         <TableHeader>
           <TableRow>
-            <TableHead>Nome</TableHead>
-            <TableHead>CPF</TableHead>
-            <TableHead>Email</TableHead>
-            <TableHead>Proprietário</TableHead>
-            <TableHead>Status</TableHead>
+            {onToggle && (
+              <TableHead className="w-10">
+                <Checkbox
+                  checked={clientsList.every((client) => selected[client.id])}
+                  onCheckedChange={(checked) => onToggleAll?.(!!checked)}
+                  aria-label="Selecionar todos"
+                />
+              </TableHead>
+            )}
+            {columns.map((columnId) => (
+              <TableHead key={columnId}>
+                {CLIENT_TABLE_COLUMNS.find((column) => column.id === columnId)?.label}
+              </TableHead>
+            ))}
             <TableHead className="text-right">Ações</TableHead>
           </TableRow>
         </TableHeader>
@@ -106,20 +170,18 @@ export function ClientsTable({ clients, onEdit, onDelete, isLoading, trashEnable
               onDoubleClick={() => navigate(`/admin/clients/${client.id}/view`)}
               className="cursor-pointer hover:bg-muted/50"
               title={`Visualizar detalhes do cliente ${client.name} com dois cliques`}
+              data-state={selected[client.id] ? 'selected' : undefined}
             >
-              <TableCell className="font-medium">{client.name}</TableCell>
-              <TableCell>
-                {client.tipo_pessoa === 'pf' ? (client.cpf || 'Não informado') : (client.cnpj || 'Não informado')}
-              </TableCell>
-              <TableCell>{client.email || 'Não informado'}</TableCell>
-              <TableCell>{client.autor_name || 'Não identificado'}</TableCell>
-              <TableCell>
-                {/* Debug temporário */}
-                <div style={{fontSize: '10px', color: 'gray', marginBottom: '4px'}}>
-                  {/* Debug: {JSON.stringify({ativo: client.status, type: typeof client.status})} */}
-                </div>
-                {getStatusBadge(client.status)}
-              </TableCell>
+              {onToggle && (
+                <TableCell onDoubleClick={(event) => event.stopPropagation()}>
+                  <Checkbox
+                    checked={!!selected[client.id]}
+                    onCheckedChange={(checked) => onToggle(client, !!checked)}
+                    aria-label={`Selecionar ${client.name}`}
+                  />
+                </TableCell>
+              )}
+              {columns.map((columnId) => renderCell(client, columnId))}
               <TableCell className="text-right">
                 <DropdownMenu>
                   <DropdownMenuTrigger asChild>
@@ -131,10 +193,12 @@ export function ClientsTable({ clients, onEdit, onDelete, isLoading, trashEnable
                     <DropdownMenuItem onClick={() => navigate(`/admin/clients/${client.id}/view`, { state: { from: location } })}>
                       <Eye className="mr-2 h-4 w-4" /> Visualizar
                     </DropdownMenuItem>
-                    <DropdownMenuItem onClick={() => navigate(`/admin/clients/${client.id}/edit`, { state: { from: location } })}>
-                      <Pencil className="mr-2 h-4 w-4" /> Editar
-                    </DropdownMenuItem>
-                    {trashEnabled && (
+                    {canEdit && (
+                      <DropdownMenuItem onClick={() => navigate(`/admin/clients/${client.id}/edit`, { state: { from: location } })}>
+                        <Pencil className="mr-2 h-4 w-4" /> Editar
+                      </DropdownMenuItem>
+                    )}
+                    {trashEnabled && canEdit && (
                       <DropdownMenuItem 
                         onClick={() => restoreClientMutation.mutate(client.id)}
                         disabled={restoreClientMutation.isPending}
@@ -142,7 +206,7 @@ export function ClientsTable({ clients, onEdit, onDelete, isLoading, trashEnable
                         <RotateCcw className="mr-2 h-4 w-4" /> Restaurar
                       </DropdownMenuItem>
                     )}
-                    {!trashEnabled && (
+                    {!trashEnabled && canDelete && (
                       <DropdownMenuItem onClick={() => onDelete(client)}>
                         <Trash2 className="mr-2 h-4 w-4" /> Excluir
                       </DropdownMenuItem>
@@ -0,0 +1,45 @@
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { History } from "lucide-react";
+
+/**
+ * FormDraftBanner
+ *
+ * Aviso exibido quando existe um rascunho salvo após a perda da sessão
+ * (ver `useFormDraft`), com ações para restaurar ou descartar.
+ *
+ * English: Notice shown when a draft was saved after the session was lost
+ * (see `useFormDraft`), with restore and discard actions.
+ */
+export function FormDraftBanner({
+  savedAt,
+  onRestore,
+  onDiscard,
+}: {
+  savedAt?: string | null;
+  onRestore: () => void;
+  onDiscard: () => void;
+}) {
+  const savedLabel = savedAt ? new Date(savedAt).toLocaleString("pt-BR") : null;
+
+  return (
+    <Alert className="mb-4">
+      <History className="h-4 w-4" />
+      <AlertTitle>Alterações não salvas encontradas</AlertTitle>
+      <AlertDescription className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+        <span>
+          Sua sessão expirou enquanto este formulário era editado
+          {savedLabel ? ` (${savedLabel})` : ""}. Deseja restaurar as alterações?
+        </span>
+        <span className="flex gap-2">
+          <Button type="button" size="sm" variant="outline" onClick={onDiscard}>
+            Descartar
+          </Button>
+          <Button type="button" size="sm" onClick={onRestore}>
+            Restaurar
+          </Button>
+        </span>
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -0,0 +1,88 @@
+import { FormEvent, useState } from "react";
+import { Bookmark, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Separator } from "@/components/ui/separator";
+import type { SavedFilter } from "@/types/userPreferences";
+
+interface SavedFiltersMenuProps<T> {
+  filters: SavedFilter<T>[];
+  onApply: (filter: SavedFilter<T>) => void;
+  /** Salva os filtros atuais com o nome informado / Saves the current filters under the given name */
+  onSave: (name: string) => void;
+  onRemove: (id: string) => void;
+}
+
+/**
+ * SavedFiltersMenu
+ *
+ * Lista os filtros salvos de uma listagem (aplicar ou excluir) e salva os filtros atuais com
+ * um nome. Os filtros ficam nas preferências do usuário (`useSavedFilters`).
+ *
+ * English: Lists a listing's saved filters (apply or delete) and saves the current filters
+ * under a name. Filters live in the user preferences (`useSavedFilters`).
+ */
+export function SavedFiltersMenu<T>({ filters, onApply, onSave, onRemove }: SavedFiltersMenuProps<T>) {
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState("");
+
+  const handleSave = (event: FormEvent) => {
+    event.preventDefault();
+    if (!name.trim()) return;
+    onSave(name.trim());
+    setName("");
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2">
+          <Bookmark className="h-4 w-4" />
+          Filtros salvos{filters.length > 0 && ` (${filters.length})`}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72 space-y-3">
+        {filters.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nenhum filtro salvo.</p>
+        ) : (
+          <div className="space-y-1">
+            {filters.map((filter) => (
+              <div key={filter.id} className="flex items-center gap-1">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="flex-1 justify-start truncate"
+                  onClick={() => { onApply(filter); setOpen(false); }}
+                >
+                  {filter.name}
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={() => onRemove(filter.id)}
+                  aria-label={`Excluir filtro ${filter.name}`}
+                >
+                  <X className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+        <Separator />
+        <form onSubmit={handleSave} className="flex gap-2">
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Nome do filtro atual"
+            className="h-8"
+          />
+          <Button type="submit" size="sm" disabled={!name.trim()}>
+            Salvar
+          </Button>
+        </form>
+      </PopoverContent>
+    </Popover>
+  );
+}
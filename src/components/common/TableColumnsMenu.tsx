@@ -0,0 +1,110 @@
+import { ArrowDown, ArrowUp, Columns3 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Separator } from "@/components/ui/separator";
+import type { TableColumn } from "@/hooks/userPreferences";
+
+interface TableColumnsMenuProps {
+  /** Colunas na ordem atual / Columns in the current order */
+  columns: TableColumn[];
+  visibleColumns: string[];
+  onToggle: (id: string, visible: boolean) => void;
+  onMove: (id: string, direction: -1 | 1) => void;
+  onReset: () => void;
+  pageSize?: number;
+  pageSizeOptions?: number[];
+  onPageSizeChange?: (pageSize: number) => void;
+}
+
+/**
+ * TableColumnsMenu
+ *
+ * Escolha de colunas visíveis, ordem e itens por página de uma tabela. Os valores vêm de
+ * `useTablePreferences` e acompanham o usuário em qualquer dispositivo.
+ *
+ * English: Picks a table's visible columns, order and items per page. Values come from
+ * `useTablePreferences` and follow the user on any device.
+ */
+export function TableColumnsMenu({
+  columns,
+  visibleColumns,
+  onToggle,
+  onMove,
+  onReset,
+  pageSize,
+  pageSizeOptions = [25, 50, 100, 200],
+  onPageSizeChange,
+}: TableColumnsMenuProps) {
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2">
+          <Columns3 className="h-4 w-4" />
+          Colunas
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72 space-y-3">
+        <p className="text-sm font-medium">Colunas da tabela</p>
+        <div className="space-y-1">
+          {columns.map((column, index) => (
+            <div key={column.id} className="flex items-center gap-2">
+              <Checkbox
+                id={`column-${column.id}`}
+                checked={visibleColumns.includes(column.id)}
+                disabled={column.required}
+                onCheckedChange={(checked) => onToggle(column.id, !!checked)}
+              />
+              <Label htmlFor={`column-${column.id}`} className="flex-1 text-sm font-normal">
+                {column.label}
+              </Label>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                onClick={() => onMove(column.id, -1)}
+                disabled={index === 0}
+                aria-label={`Mover ${column.label} para cima`}
+              >
+                <ArrowUp className="h-3.5 w-3.5" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                onClick={() => onMove(column.id, 1)}
+                disabled={index === columns.length - 1}
+                aria-label={`Mover ${column.label} para baixo`}
+              >
+                <ArrowDown className="h-3.5 w-3.5" />
+              </Button>
+            </div>
+          ))}
+        </div>
+        {pageSize !== undefined && onPageSizeChange && (
+          <>
+            <Separator />
+            <div className="flex items-center justify-between gap-2">
+              <Label className="text-sm font-normal">Itens por página</Label>
+              <Select value={String(pageSize)} onValueChange={(value) => onPageSizeChange(Number(value))}>
+                <SelectTrigger className="h-8 w-24">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {pageSizeOptions.map((option) => (
+                    <SelectItem key={option} value={String(option)}>{option}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </>
+        )}
+        <Button variant="ghost" size="sm" className="w-full" onClick={onReset}>
+          Restaurar padrão
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -2,6 +2,7 @@ import React from 'react';
 import { Table, TableHeader, TableRow, TableHead, TableBody, TableCell } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
+import { Can } from '@/components/auth/Can';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger, DropdownMenuLabel, DropdownMenuSeparator } from '@/components/ui/dropdown-menu';
 import { Loader2, MoreHorizontal, Eye, Edit, Trash2 } from 'lucide-react';
 
@@ -22,6 +23,7 @@ export interface EnrollmentTableProps {
  *        Exibe colunas padrão (ID, Cliente, Curso, Turma, Status, Valor) e menu de ações.
  * en-US: Reusable table component to list enrollments, with per-row actions.
  *        Shows standard columns (ID, Client, Course, Class, Status, Amount) and actions menu.
+ *        Editar/Excluir seguem as permissões da rota atual (matrículas ou interessados).
  */
 export default function EnrollmentTable({ items, isLoading, onView, onEdit, onDelete, resolveAmountBRL }: EnrollmentTableProps) {
   const amountFormatter = resolveAmountBRL || (() => '-');
@@ -85,13 +87,17 @@ export default function EnrollmentTable({ items, isLoading, onView, onEdit, onDe
                   <DropdownMenuItem onClick={() => onView?.(enroll)}>
                     <Eye className="mr-2 h-4 w-4" /> Visualizar
                   </DropdownMenuItem>
-                  <DropdownMenuItem onClick={() => onEdit?.(enroll)}>
-                    <Edit className="mr-2 h-4 w-4" /> Editar
-                  </DropdownMenuItem>
+                  <Can action="edit">
+                    <DropdownMenuItem onClick={() => onEdit?.(enroll)}>
+                      <Edit className="mr-2 h-4 w-4" /> Editar
+                    </DropdownMenuItem>
+                  </Can>
                   <DropdownMenuSeparator />
-                  <DropdownMenuItem className="text-red-600" onClick={() => onDelete?.(enroll)}>
-                    <Trash2 className="mr-2 h-4 w-4" /> Excluir
-                  </DropdownMenuItem>
+                  <Can action="delete">
+                    <DropdownMenuItem className="text-red-600" onClick={() => onDelete?.(enroll)}>
+                      <Trash2 className="mr-2 h-4 w-4" /> Excluir
+                    </DropdownMenuItem>
+                  </Can>
                 </DropdownMenuContent>
               </DropdownMenu>
             </TableCell>
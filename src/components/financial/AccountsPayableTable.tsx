@@ -12,6 +12,8 @@ import {
   TableRow,
 } from '../ui/table';
 import { Button } from '../ui/button';
+import { Can } from '../auth/Can';
+import { useCan } from '../../hooks/useCan';
 import { Input } from '../ui/input';
 import { Badge } from '../ui/badge';
 import {
@@ -62,6 +64,8 @@ export const AccountsPayableTable: React.FC<AccountsPayableTableProps> = ({ cate
   const [isLoading, setIsLoading] = useState(false);
   const [isFormOpen, setIsFormOpen] = useState(false);
   const [selectedAccount, setSelectedAccount] = useState<AccountPayable | undefined>();
+  // Baixa e cancelamento alteram a conta: exigem `can_edit`
+  const canEdit = useCan('edit', '/admin/finance/accounts-payable');
   const [filters, setFilters] = useState<AccountsFilter>({
     page: 1,
     limit: 10,
@@ -256,10 +260,12 @@ export const AccountsPayableTable: React.FC<AccountsPayableTableProps> = ({ cate
       <CardHeader>
         <div className="flex justify-between items-center">
           <CardTitle>Contas a Pagar</CardTitle>
-          <Button onClick={handleNewAccount}>
-            <Plus className="h-4 w-4 mr-2" />
-            Nova Conta
-          </Button>
+          <Can action="create" menuPath="/admin/finance/accounts-payable">
+            <Button onClick={handleNewAccount}>
+              <Plus className="h-4 w-4 mr-2" />
+              Nova Conta
+            </Button>
+          </Can>
         </div>
 
         {/* Filtros */}
@@ -335,32 +341,36 @@ export const AccountsPayableTable: React.FC<AccountsPayableTableProps> = ({ cate
                           </Button>
                         </DropdownMenuTrigger>
                         <DropdownMenuContent align="end">
-                          <DropdownMenuItem onClick={() => handleEditAccount(account)}>
-                            <Edit className="h-4 w-4 mr-2" />
-                            Editar
-                          </DropdownMenuItem>
+                          <Can action="edit" menuPath="/admin/finance/accounts-payable">
+                            <DropdownMenuItem onClick={() => handleEditAccount(account)}>
+                              <Edit className="h-4 w-4 mr-2" />
+                              Editar
+                            </DropdownMenuItem>
+                          </Can>
                           
-                          {account.status === AccountStatus.PENDING && (
+                          {account.status === AccountStatus.PENDING && canEdit && (
                             <DropdownMenuItem onClick={() => handleMarkAsPaid(account)}>
                               <Check className="h-4 w-4 mr-2" />
                               Marcar como Pago
                             </DropdownMenuItem>
                           )}
                           
-                          {account.status === AccountStatus.PENDING && (
+                          {account.status === AccountStatus.PENDING && canEdit && (
                             <DropdownMenuItem onClick={() => handleCancelAccount(account)}>
                               <X className="h-4 w-4 mr-2" />
                               Cancelar
                             </DropdownMenuItem>
                           )}
                           
-                          <DropdownMenuItem 
-                            onClick={() => handleDeleteAccount(account)}
-                            className="text-red-600"
-                          >
-                            <Trash2 className="h-4 w-4 mr-2" />
-                            Excluir
-                          </DropdownMenuItem>
+                          <Can action="delete" menuPath="/admin/finance/accounts-payable">
+                            <DropdownMenuItem 
+                              onClick={() => handleDeleteAccount(account)}
+                              className="text-red-600"
+                            >
+                              <Trash2 className="h-4 w-4 mr-2" />
+                              Excluir
+                            </DropdownMenuItem>
+                          </Can>
                         </DropdownMenuContent>
                       </DropdownMenu>
                     </TableCell>
@@ -12,6 +12,8 @@ import {
   TableRow,
 } from '../ui/table';
 import { Button } from '../ui/button';
+import { Can } from '../auth/Can';
+import { useCan } from '../../hooks/useCan';
 import { Input } from '../ui/input';
 import { Badge } from '../ui/badge';
 import {
@@ -62,6 +64,8 @@ export const AccountsReceivableTable: React.FC<AccountsReceivableTableProps> = (
   const [isLoading, setIsLoading] = useState(false);
   const [isFormOpen, setIsFormOpen] = useState(false);
   const [selectedAccount, setSelectedAccount] = useState<AccountReceivable | undefined>();
+  // Baixa e cancelamento alteram a conta: exigem `can_edit`
+  const canEdit = useCan('edit', '/admin/finance/accounts-receivable');
   const [filters, setFilters] = useState<AccountsFilter>({
     page: 1,
     limit: 10,
@@ -256,10 +260,12 @@ export const AccountsReceivableTable: React.FC<AccountsReceivableTableProps> = (
       <CardHeader>
         <div className="flex justify-between items-center">
           <CardTitle>Contas a Receber</CardTitle>
-          <Button onClick={handleNewAccount}>
-            <Plus className="h-4 w-4 mr-2" />
-            Nova Conta
-          </Button>
+          <Can action="create" menuPath="/admin/finance/accounts-receivable">
+            <Button onClick={handleNewAccount}>
+              <Plus className="h-4 w-4 mr-2" />
+              Nova Conta
+            </Button>
+          </Can>
         </div>
 
         {/* Filtros */}
@@ -340,32 +346,36 @@ export const AccountsReceivableTable: React.FC<AccountsReceivableTableProps> = (
                           </Button>
                         </DropdownMenuTrigger>
                         <DropdownMenuContent align="end">
-                          <DropdownMenuItem onClick={() => handleEditAccount(account)}>
-                            <Edit className="h-4 w-4 mr-2" />
-                            Editar
-                          </DropdownMenuItem>
+                          <Can action="edit" menuPath="/admin/finance/accounts-receivable">
+                            <DropdownMenuItem onClick={() => handleEditAccount(account)}>
+                              <Edit className="h-4 w-4 mr-2" />
+                              Editar
+                            </DropdownMenuItem>
+                          </Can>
                           
-                          {account.status === AccountStatus.PENDING && (
+                          {account.status === AccountStatus.PENDING && canEdit && (
                             <DropdownMenuItem onClick={() => handleMarkAsReceived(account)}>
                               <Check className="h-4 w-4 mr-2" />
                               Marcar como Recebido
                             </DropdownMenuItem>
                           )}
                           
-                          {account.status === AccountStatus.PENDING && (
+                          {account.status === AccountStatus.PENDING && canEdit && (
                             <DropdownMenuItem onClick={() => handleCancelAccount(account)}>
                               <X className="h-4 w-4 mr-2" />
                               Cancelar
                             </DropdownMenuItem>
                           )}
                           
-                          <DropdownMenuItem 
-                            onClick={() => handleDeleteAccount(account)}
-                            className="text-red-600"
-                          >
-                            <Trash2 className="h-4 w-4 mr-2" />
-                            Excluir
-                          </DropdownMenuItem>
+                          <Can action="delete" menuPath="/admin/finance/accounts-receivable">
+                            <DropdownMenuItem 
+                              onClick={() => handleDeleteAccount(account)}
+                              className="text-red-600"
+                            >
+                              <Trash2 className="h-4 w-4 mr-2" />
+                              Excluir
+                            </DropdownMenuItem>
+                          </Can>
                         </DropdownMenuContent>
                       </DropdownMenu>
                     </TableCell>
@@ -1,5 +1,6 @@
 import { SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
 import { AppSidebar } from "./AppSidebar";
+import { OfflineSyncBadge } from "./OfflineSyncBadge";
 import { Bell, Search, LogOut, Sun, Moon } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -14,7 +15,6 @@ import {
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { useAuth } from "@/contexts/AuthContext";
 import { useUserPrefs } from "@/contexts/UserPrefsContext";
-import { useTheme } from "@/contexts/ThemeContext";
 import { useNavigate } from "react-router-dom";
 import {
   CommandDialog,
@@ -39,7 +39,6 @@ interface AppLayoutProps {
 export function AppLayout({ children }: AppLayoutProps) {
   const { user, logout } = useAuth();
   const { prefs, setPref } = useUserPrefs();
-  const { applyThemeSettings } = useTheme();
   const navigate = useNavigate();
   const [cmdOpen, setCmdOpen] = React.useState(false);
 
@@ -57,18 +56,11 @@ export function AppLayout({ children }: AppLayoutProps) {
   };
 
   /**
-   * Alterna modo claro/escuro persistindo em localStorage e aplicando via ThemeProvider
+   * Alterna modo claro/escuro nas preferências do usuário (sincronizadas entre dispositivos);
+   * o UserPrefsProvider aplica via ThemeProvider
    */
   const toggleTheme = () => {
-    try {
-      const saved = localStorage.getItem("appearanceSettings");
-      const current = saved ? JSON.parse(saved) : { darkMode: false };
-      const next = { ...current, darkMode: !current.darkMode };
-      localStorage.setItem("appearanceSettings", JSON.stringify(next));
-      applyThemeSettings();
-    } catch (e) {
-      console.warn("Falha ao alternar tema:", e);
-    }
+    setPref('theme', document.documentElement.classList.contains('dark') ? 'light' : 'dark');
   };
 
   return (
@@ -104,6 +96,7 @@ export function AppLayout({ children }: AppLayoutProps) {
                 <Sun className="h-4 w-4 dark:hidden" />
                 <Moon className="h-4 w-4 hidden dark:block" />
               </Button>
+              <OfflineSyncBadge />
               <Button variant="ghost" size="icon">
                 <Bell className="h-4 w-4" />
               </Button>
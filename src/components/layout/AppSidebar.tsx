@@ -2,6 +2,7 @@ import { ChevronUp, ChevronDown, User, Wrench } from "lucide-react";
 import * as React from "react";
 import { NavLink, useLocation, Link } from "react-router-dom";
 import { useAuth } from "@/contexts/AuthContext";
+import { useTheme } from "@/contexts/ThemeContext";
 
 import {
   Sidebar,
@@ -40,6 +41,7 @@ import { buildMenuFromDTO, filterMenuByViewAccess, defaultMenu } from "@/lib/men
 export function AppSidebar() {
   const { state } = useSidebar();
   const { menu: apiMenu, logout } = useAuth();
+  const { branding } = useTheme();
   const location = useLocation();
   const currentPath = location.pathname;
   const collapsed = state === "collapsed";
@@ -145,14 +147,14 @@ export function AppSidebar() {
       <SidebarHeader className="border-b border-border print:hidden">
         <Link to="/admin/aero-dashboard" className="flex items-center gap-2 px-4 py-3">
           <img
-            src="/aeroclube-logo.svg"
+            src={branding.logoUrl || "/placeholder.svg"}
             onError={(e) => { (e.currentTarget as HTMLImageElement).src = "/placeholder.svg"; }}
             alt="Logo"
             className="h-6 w-auto"
           />
           {!collapsed && (
-            <div className="flex flex-col">
-              <span className="text-sm font-semibold">CRM</span>
+            <div className="flex flex-col min-w-0">
+              <span className="text-sm font-semibold truncate">{branding.appName || "CRM"}</span>
               <span className="text-xs text-muted-foreground">Painel & Operações</span>
             </div>
           )}
@@ -0,0 +1,213 @@
+import { useState } from 'react';
+import { AlertTriangle, CloudOff, Loader2, RefreshCw, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useOfflineQueue } from '@/hooks/useOfflineQueue';
+import type { OfflineMutation } from '@/services/offlineQueue';
+
+const STATUS_LABEL: Record<OfflineMutation['status'], string> = {
+  pending: 'Aguardando envio',
+  conflict: 'Conflito',
+  failed: 'Falhou',
+};
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * diffFields
+ * pt-BR: Campos enviados pelo usuário cujo valor difere da versão atual no servidor.
+ * en-US: Fields sent by the user whose value differs from the current server version.
+ */
+function diffFields(local: unknown, server: unknown): Array<{ field: string; mine: string; theirs: string }> {
+  if (!local || typeof local !== 'object') return [];
+  const serverRecord = server && typeof server === 'object' ? (server as Record<string, unknown>) : {};
+  return Object.entries(local as Record<string, unknown>)
+    .map(([field, value]) => ({ field, mine: formatValue(value), theirs: formatValue(serverRecord[field]) }))
+    .filter((row) => row.mine !== row.theirs);
+}
+
+/**
+ * OfflineSyncBadge
+ * pt-BR: Indicador no cabeçalho com as alterações feitas sem conexão. Mostra o que aguarda
+ *        envio e permite resolver conflitos: manter a versão do usuário ou descartá-la.
+ * en-US: Header indicator for changes made without connectivity. Shows what is waiting to be
+ *        sent and lets the user resolve conflicts: keep their version or discard it.
+ */
+export function OfflineSyncBadge() {
+  const { entries, counts, isOnline, isSyncing, syncNow, retry, discard } = useOfflineQueue();
+  const [conflict, setConflict] = useState<OfflineMutation | null>(null);
+  const [isResolving, setIsResolving] = useState(false);
+
+  if (isOnline && entries.length === 0) return null;
+
+  const needsAttention = counts.conflict + counts.failed > 0;
+  const total = entries.length;
+
+  const handleKeepMine = async () => {
+    if (conflict?.id === undefined) return;
+    setIsResolving(true);
+    try {
+      const result = await retry(conflict.id, { force: true });
+      if (result === 'done') {
+        toast.success('Sua versão foi enviada.');
+        setConflict(null);
+      } else if (result === 'offline') {
+        toast.info('Ainda sem conexão. Tente novamente quando a conexão voltar.');
+      } else {
+        toast.error('O servidor recusou a alteração novamente.');
+      }
+    } finally {
+      setIsResolving(false);
+    }
+  };
+
+  const handleDiscard = async (entry: OfflineMutation) => {
+    if (entry.id === undefined) return;
+    await discard(entry.id);
+    if (conflict?.id === entry.id) setConflict(null);
+    toast.success('Alteração descartada.');
+  };
+
+  const differences = conflict ? diffFields(conflict.data, conflict.serverVersion) : [];
+
+  return (
+    <>
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="gap-2"
+            title={isOnline ? 'Alterações aguardando sincronização' : 'Sem conexão'}
+          >
+            {needsAttention ? (
+              <AlertTriangle className="h-4 w-4 text-destructive" />
+            ) : (
+              <CloudOff className="h-4 w-4" />
+            )}
+            {total > 0 && (
+              <Badge variant={needsAttention ? 'destructive' : 'secondary'} className="px-1.5">
+                {total}
+              </Badge>
+            )}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="end" className="w-80 p-0">
+          <div className="flex items-center justify-between border-b p-3">
+            <div>
+              <p className="text-sm font-medium">{isOnline ? 'Sincronização pendente' : 'Sem conexão'}</p>
+              <p className="text-xs text-muted-foreground">
+                {total === 0
+                  ? 'As alterações feitas agora serão enviadas quando a conexão voltar.'
+                  : `${counts.pending} aguardando, ${counts.conflict} em conflito, ${counts.failed} com falha`}
+              </p>
+            </div>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => syncNow()}
+              disabled={!isOnline || isSyncing || total === 0}
+              title="Sincronizar agora"
+            >
+              {isSyncing ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+            </Button>
+          </div>
+          {total > 0 && (
+            <ul className="max-h-72 divide-y overflow-y-auto">
+              {entries.map((entry) => (
+                <li key={entry.id} className="space-y-1 p-3 text-sm">
+                  <div className="flex items-start justify-between gap-2">
+                    <span className="font-medium">{entry.label}</span>
+                    <Badge variant={entry.status === 'pending' ? 'outline' : 'destructive'} className="shrink-0">
+                      {STATUS_LABEL[entry.status]}
+                    </Badge>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {new Date(entry.createdAt).toLocaleString('pt-BR')}
+                    {entry.error ? ` · ${entry.error}` : ''}
+                  </p>
+                  {entry.status !== 'pending' && (
+                    <div className="flex gap-2 pt-1">
+                      {entry.status === 'conflict' ? (
+                        <Button size="sm" variant="outline" onClick={() => setConflict(entry)}>
+                          Resolver
+                        </Button>
+                      ) : (
+                        <Button size="sm" variant="outline" onClick={() => entry.id !== undefined && retry(entry.id)}>
+                          Tentar novamente
+                        </Button>
+                      )}
+                      <Button size="sm" variant="ghost" onClick={() => handleDiscard(entry)}>
+                        <Trash2 className="mr-1 h-3 w-3" /> Descartar
+                      </Button>
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </PopoverContent>
+      </Popover>
+
+      <Dialog open={!!conflict} onOpenChange={(open) => !open && setConflict(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Conflito em "{conflict?.label}"</DialogTitle>
+            <DialogDescription>
+              {conflict?.error || 'O registro foi alterado por outra pessoa enquanto você estava sem conexão.'}
+            </DialogDescription>
+          </DialogHeader>
+          {conflict?.serverVersion === null ? (
+            <p className="text-sm text-muted-foreground">O registro não existe mais no servidor.</p>
+          ) : differences.length > 0 ? (
+            <div className="max-h-72 overflow-y-auto rounded border text-sm">
+              <table className="w-full">
+                <thead className="bg-muted text-left text-xs">
+                  <tr>
+                    <th className="p-2">Campo</th>
+                    <th className="p-2">Sua versão</th>
+                    <th className="p-2">No servidor</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {differences.map((row) => (
+                    <tr key={row.field} className="border-t align-top">
+                      <td className="p-2 font-medium">{row.field}</td>
+                      <td className="break-all p-2">{row.mine}</td>
+                      <td className="break-all p-2">{row.theirs}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">Nenhuma diferença nos campos que você alterou.</p>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => conflict && handleDiscard(conflict)} disabled={isResolving}>
+              Descartar minha versão
+            </Button>
+            <Button onClick={handleKeepMine} disabled={isResolving || conflict?.serverVersion === null}>
+              {isResolving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Manter minha versão
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -4,6 +4,7 @@ import { Input } from "@/components/ui/input";
 import { InputMask, format } from "@react-input/mask";
 import { useEffect, useState } from "react";
 import { CheckCircle, AlertCircle } from 'lucide-react';
+import { isValidCNPJ, isValidCPF } from '@/lib/documents';
 
 type SmartDocumentInputProps = {
   name: string;
@@ -55,78 +56,6 @@ export function SmartDocumentInput({
     }
   }, [tipoPessoa, placeholder, label]);
 
-  /**
-   * Função para validar CPF
-   * @param cpf CPF para validação
-   * @returns true se o CPF é válido
-   */
-  const isValidCPF = (cpf: string): boolean => {
-    const cleanCpf = cpf.replace(/\D/g, '');
-    if (cleanCpf.length !== 11) return false;
-    
-    // Verifica se todos os dígitos são iguais
-    if (/^(\d)\1{10}$/.test(cleanCpf)) return false;
-    
-    // Validação do primeiro dígito verificador
-    let sum = 0;
-    for (let i = 0; i < 9; i++) {
-      sum += parseInt(cleanCpf.charAt(i)) * (10 - i);
-    }
-    let remainder = 11 - (sum % 11);
-    if (remainder === 10 || remainder === 11) remainder = 0;
-    if (remainder !== parseInt(cleanCpf.charAt(9))) return false;
-    
-    // Validação do segundo dígito verificador
-    sum = 0;
-    for (let i = 0; i < 10; i++) {
-      sum += parseInt(cleanCpf.charAt(i)) * (11 - i);
-    }
-    remainder = 11 - (sum % 11);
-    if (remainder === 10 || remainder === 11) remainder = 0;
-    if (remainder !== parseInt(cleanCpf.charAt(10))) return false;
-    
-    return true;
-  };
-
-  /**
-   * Função para validar CNPJ
-   * @param cnpj CNPJ para validação
-   * @returns true se o CNPJ é válido
-   */
-  const isValidCNPJ = (cnpj: string): boolean => {
-    const cleanCnpj = cnpj.replace(/\D/g, '');
-    if (cleanCnpj.length !== 14) return false;
-    
-    // Verifica se todos os dígitos são iguais
-    if (/^(\d)\1{13}$/.test(cleanCnpj)) return false;
-    
-    // Validação do primeiro dígito verificador
-    let sum = 0;
-    let weight = 2;
-    for (let i = 11; i >= 0; i--) {
-      sum += parseInt(cleanCnpj.charAt(i)) * weight;
-      weight++;
-      if (weight === 10) weight = 2;
-    }
-    let remainder = sum % 11;
-    const digit1 = remainder < 2 ? 0 : 11 - remainder;
-    if (digit1 !== parseInt(cleanCnpj.charAt(12))) return false;
-    
-    // Validação do segundo dígito verificador
-    sum = 0;
-    weight = 2;
-    for (let i = 12; i >= 0; i--) {
-      sum += parseInt(cleanCnpj.charAt(i)) * weight;
-      weight++;
-      if (weight === 10) weight = 2;
-    }
-    remainder = sum % 11;
-    const digit2 = remainder < 2 ? 0 : 11 - remainder;
-    if (digit2 !== parseInt(cleanCnpj.charAt(13))) return false;
-    
-    return true;
-  };
-
   /**
    * Função para validar o documento baseado no tipo
    * @param value Valor do documento
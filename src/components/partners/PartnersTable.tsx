@@ -3,6 +3,7 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { MoreHorizontal, Pencil, Trash2, Eye } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
+import { Can } from "@/components/auth/Can";
 import { PartnerRecord } from '@/types/partners';
 import { Mail, Phone } from 'lucide-react';
 
@@ -72,12 +73,16 @@ export function PartnersTable({ partners, onEdit, onDelete, onView, isLoading }:
                       <Eye className="mr-2 h-4 w-4" /> Visualizar
                     </DropdownMenuItem>
                   )}
-                  <DropdownMenuItem onClick={() => onEdit(partner)}>
-                    <Pencil className="mr-2 h-4 w-4" /> Editar
-                  </DropdownMenuItem>
-                  <DropdownMenuItem onClick={() => onDelete(partner)}>
-                    <Trash2 className="mr-2 h-4 w-4" /> Excluir
-                  </DropdownMenuItem>
+                  <Can action="edit" menuPath="/admin/partners">
+                    <DropdownMenuItem onClick={() => onEdit(partner)}>
+                      <Pencil className="mr-2 h-4 w-4" /> Editar
+                    </DropdownMenuItem>
+                  </Can>
+                  <Can action="delete" menuPath="/admin/partners">
+                    <DropdownMenuItem onClick={() => onDelete(partner)}>
+                      <Trash2 className="mr-2 h-4 w-4" /> Excluir
+                    </DropdownMenuItem>
+                  </Can>
                 </DropdownMenuContent>
               </DropdownMenu>
             </TableCell>
@@ -0,0 +1,96 @@
+import { ArrowRight, Check, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { ACCESS_FLAG_LABELS } from '@/lib/menuPermissions';
+import { PermissionDiffEntry } from '@/types/permissions';
+
+interface PermissionChangesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Nome do grupo que será salvo / Name of the group being saved */
+  groupName?: string;
+  changes: PermissionDiffEntry[];
+  onConfirm: () => void;
+  isSaving?: boolean;
+}
+
+function FlagValue({ value }: { value: boolean }) {
+  return value
+    ? <Check className="h-3.5 w-3.5 text-green-600" aria-label="permitido" />
+    : <X className="h-3.5 w-3.5 text-destructive" aria-label="negado" />;
+}
+
+/**
+ * PermissionChangesDialog
+ * pt-BR: Prévia por item de menu (antes → depois) das flags que serão gravadas; só salva após confirmar.
+ * en-US: Per-menu preview (before → after) of the flags about to be written; only saves after confirming.
+ */
+export function PermissionChangesDialog({
+  open,
+  onOpenChange,
+  groupName,
+  changes,
+  onConfirm,
+  isSaving = false,
+}: PermissionChangesDialogProps) {
+  const totalChanges = changes.reduce((sum, entry) => sum + entry.changes.length, 0);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Revisar alterações{groupName ? ` — ${groupName}` : ''}</DialogTitle>
+          <DialogDescription>
+            {changes.length === 0
+              ? 'Nenhuma permissão foi alterada.'
+              : `${totalChanges} alteração(ões) em ${changes.length} item(ns) de menu.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {changes.length > 0 && (
+          <ScrollArea className="max-h-[50vh] pr-3">
+            <ul className="space-y-2">
+              {changes.map(entry => (
+                <li key={entry.key} className="rounded-md border p-3">
+                  <div className="mb-2 text-sm font-medium">{entry.path}</div>
+                  <div className="flex flex-wrap gap-2">
+                    {entry.changes.map(change => (
+                      <Badge
+                        key={change.flag}
+                        variant="outline"
+                        className={change.after ? 'border-green-600/40 bg-green-50 dark:bg-green-950' : 'border-destructive/40 bg-red-50 dark:bg-red-950'}
+                      >
+                        <span className="mr-2">{ACCESS_FLAG_LABELS[change.flag]}</span>
+                        <FlagValue value={change.before} />
+                        <ArrowRight className="mx-1 h-3 w-3 text-muted-foreground" />
+                        <FlagValue value={change.after} />
+                      </Badge>
+                    ))}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </ScrollArea>
+        )}
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Cancelar
+          </Button>
+          <Button type="button" onClick={onConfirm} disabled={isSaving || changes.length === 0}>
+            {isSaving ? 'Salvando...' : 'Confirmar e salvar'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,144 @@
+import { useMemo, useState } from 'react';
+import { Check, Minus } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useMenuPermissions } from '@/hooks/permissions';
+import { ACCESS_FLAG_KEYS, ACCESS_FLAG_LABELS, accessFlagsFromRows, diffAccessFlags } from '@/lib/menuPermissions';
+import { MenuItemDTO } from '@/types/menu';
+import { PermissionRecord, PermissionTreeNode } from '@/types/permissions';
+
+interface PermissionCompareCardProps {
+  permissions: PermissionRecord[];
+  menuItems: MenuItemDTO[];
+  tree: PermissionTreeNode[];
+}
+
+function FlagCell({ value }: { value: boolean }) {
+  return value
+    ? <Check className="mx-auto h-4 w-4 text-green-600" aria-label="permitido" />
+    : <Minus className="mx-auto h-4 w-4 text-muted-foreground" aria-label="negado" />;
+}
+
+/**
+ * PermissionCompareCard
+ * pt-BR: Compara dois grupos lado a lado por item de menu, destacando as flags diferentes.
+ * en-US: Compares two groups side by side per menu item, highlighting the differing flags.
+ */
+export function PermissionCompareCard({ permissions, menuItems, tree }: PermissionCompareCardProps) {
+  const [leftId, setLeftId] = useState('');
+  const [rightId, setRightId] = useState('');
+  const [onlyDifferences, setOnlyDifferences] = useState(true);
+
+  const { data: leftRows, isLoading: isLeftLoading } = useMenuPermissions(leftId);
+  const { data: rightRows, isLoading: isRightLoading } = useMenuPermissions(rightId);
+
+  const leftFlags = useMemo(() => accessFlagsFromRows(menuItems, tree, leftRows), [menuItems, tree, leftRows]);
+  const rightFlags = useMemo(() => accessFlagsFromRows(menuItems, tree, rightRows), [menuItems, tree, rightRows]);
+  const differences = useMemo(() => diffAccessFlags(tree, leftFlags, rightFlags), [tree, leftFlags, rightFlags]);
+  const changedKeys = useMemo(() => new Set(differences.map(entry => entry.key)), [differences]);
+
+  const leafNodes = tree.filter(node => !node.hasChildren);
+  const rows = onlyDifferences ? leafNodes.filter(node => changedKeys.has(node.key)) : leafNodes;
+  const nameOf = (id: string) => permissions.find(permission => String(permission.id) === id)?.name ?? '';
+  const ready = leftId && rightId && !isLeftLoading && !isRightLoading;
+
+  const renderSelect = (id: string, value: string, onChange: (value: string) => void, label: string) => (
+    <div className="flex items-center space-x-2">
+      <label htmlFor={id} className="text-sm font-medium">{label}</label>
+      <select
+        id={id}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="px-3 py-2 border rounded-md bg-background"
+      >
+        <option value="">Escolha uma permissão...</option>
+        {permissions.map(permission => (
+          <option key={permission.id} value={permission.id}>
+            {permission.name}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Comparar Grupos</CardTitle>
+        <CardDescription>
+          Veja lado a lado os acessos de dois grupos de permissão
+        </CardDescription>
+        <div className="flex flex-wrap items-center gap-4">
+          {renderSelect('compare-left', leftId, setLeftId, 'Grupo A:')}
+          {renderSelect('compare-right', rightId, setRightId, 'Grupo B:')}
+          <label className="flex items-center space-x-2 text-sm">
+            <Checkbox checked={onlyDifferences} onCheckedChange={(checked) => setOnlyDifferences(!!checked)} />
+            <span>Mostrar apenas diferenças</span>
+          </label>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {!leftId || !rightId ? (
+          <div className="text-center py-8 text-muted-foreground">
+            Selecione dois grupos para comparar
+          </div>
+        ) : !ready ? (
+          <div className="text-center py-8 text-muted-foreground">Carregando permissões...</div>
+        ) : (
+          <div className="space-y-3">
+            <Badge variant={differences.length ? 'secondary' : 'outline'}>
+              {differences.length
+                ? `${differences.length} item(ns) de menu com diferenças`
+                : 'Os grupos têm os mesmos acessos'}
+            </Badge>
+            {rows.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead rowSpan={2}>Módulo / Funcionalidade</TableHead>
+                    {ACCESS_FLAG_KEYS.map(flag => (
+                      <TableHead key={flag} colSpan={2} className="text-center">
+                        {ACCESS_FLAG_LABELS[flag]}
+                      </TableHead>
+                    ))}
+                  </TableRow>
+                  <TableRow>
+                    {ACCESS_FLAG_KEYS.map(flag => [
+                      <TableHead key={`${flag}-a`} className="text-center text-xs" title={nameOf(leftId)}>A</TableHead>,
+                      <TableHead key={`${flag}-b`} className="text-center text-xs" title={nameOf(rightId)}>B</TableHead>,
+                    ])}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map(node => (
+                    <TableRow key={node.key} className={changedKeys.has(node.key) ? 'bg-amber-50 dark:bg-amber-950/40' : undefined}>
+                      <TableCell className="font-medium">{node.title}</TableCell>
+                      {ACCESS_FLAG_KEYS.map(flag => {
+                        const left = !!leftFlags[node.key]?.[flag];
+                        const right = !!rightFlags[node.key]?.[flag];
+                        const highlight = left !== right ? 'bg-amber-200/60 dark:bg-amber-800/40' : undefined;
+                        return [
+                          <TableCell key={`${flag}-a`} className={highlight}><FlagCell value={left} /></TableCell>,
+                          <TableCell key={`${flag}-b`} className={highlight}><FlagCell value={right} /></TableCell>,
+                        ];
+                      })}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -33,7 +33,8 @@ import {
 } from "lucide-react";
 import type { Product } from "@/types/products";
 import { useUpdateProduct } from "@/hooks/products";
-import { useAuth } from "@/contexts/AuthContext";
+import { useCan } from "@/hooks/useCan";
+import { Can } from "@/components/auth/Can";
 import { toast } from "@/hooks/use-toast";
 
 interface ProductsTableProps {
@@ -60,12 +61,11 @@ export default function ProductsTable({
   const link_admin = '/admin';
 
   const updateProductMutation = useUpdateProduct();
-  const { user } = useAuth();
   /**
    * Determina se o usuário pode editar o estoque.
-   * Rule: only users with permission_id <= 5.
+   * Rule: `can_edit` on the products menu item.
    */
-  const canEditStock = (user?.permission_id ?? Infinity) <= 5;
+  const canEditStock = useCan('edit', '/admin/products');
 
   /**
    * Estado para controlar edição inline do estoque na tabela.
@@ -207,14 +207,16 @@ export default function ProductsTable({
                         <p className="font-medium">Nenhum produto cadastrado</p>
                         <p className="text-sm">Comece criando seu primeiro produto</p>
                       </div>
-                      <Button 
-                        onClick={onNewProduct}
-                        size="sm"
-                        className="mt-2"
-                      >
-                        <Plus className="h-4 w-4 mr-2" />
-                        Criar produto
-                      </Button>
+                      <Can action="create" menuPath="/admin/products">
+                        <Button 
+                          onClick={onNewProduct}
+                          size="sm"
+                          className="mt-2"
+                        >
+                          <Plus className="h-4 w-4 mr-2" />
+                          Criar produto
+                        </Button>
+                      </Can>
                     </div>
                   </TableCell>
                 </TableRow>
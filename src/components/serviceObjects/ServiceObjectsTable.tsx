@@ -2,6 +2,7 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { MoreHorizontal, Pencil, Trash2, Eye, Car, Plane } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
+import { Can } from "@/components/auth/Can";
 import type { ServiceObjectRecord } from '@/services/serviceObjectsService';
 
 interface ServiceObjectsTableProps {
@@ -85,12 +86,16 @@ export function ServiceObjectsTable({
                       <Eye className="mr-2 h-4 w-4" /> Visualizar
                     </DropdownMenuItem>
                   )}
-                  <DropdownMenuItem onClick={() => onEdit(serviceObject)}>
-                    <Pencil className="mr-2 h-4 w-4" /> Editar
-                  </DropdownMenuItem>
-                  <DropdownMenuItem onClick={() => onDelete(serviceObject)}>
-                    <Trash2 className="mr-2 h-4 w-4" /> Excluir
-                  </DropdownMenuItem>
+                  <Can action="edit" menuPath="/admin/service-objects">
+                    <DropdownMenuItem onClick={() => onEdit(serviceObject)}>
+                      <Pencil className="mr-2 h-4 w-4" /> Editar
+                    </DropdownMenuItem>
+                  </Can>
+                  <Can action="delete" menuPath="/admin/service-objects">
+                    <DropdownMenuItem onClick={() => onDelete(serviceObject)}>
+                      <Trash2 className="mr-2 h-4 w-4" /> Excluir
+                    </DropdownMenuItem>
+                  </Can>
                 </DropdownMenuContent>
               </DropdownMenu>
             </TableCell>
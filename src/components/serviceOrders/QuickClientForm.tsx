@@ -16,6 +16,8 @@ import { Textarea } from "@/components/ui/textarea";
 import { Loader2, User, Mail, Phone, MapPin } from "lucide-react";
 import { toast } from "sonner";
 import { clientsService } from "@/services/clientsService";
+import { ClientDuplicatesDialog } from "@/components/clients/ClientDuplicatesDialog";
+import type { ClientDuplicateCandidate, ClientRecord } from "@/types/clients";
 
 /**
  * Schema de validação para cadastro rápido de cliente
@@ -54,6 +56,8 @@ interface QuickClientFormProps {
  */
 export default function QuickClientForm({ onClientCreated, onCancel }: QuickClientFormProps) {
   const [isLoading, setIsLoading] = useState(false);
+  const [duplicates, setDuplicates] = useState<ClientDuplicateCandidate[]>([]);
+  const [pendingData, setPendingData] = useState<QuickClientFormData | null>(null);
 
   const form = useForm<QuickClientFormData>({
     resolver: zodResolver(quickClientSchema),
@@ -67,9 +71,56 @@ export default function QuickClientForm({ onClientCreated, onCancel }: QuickClie
   });
 
   /**
-   * Submete o formulário e cria o cliente
+   * Submete o formulário; antes de criar, procura clientes parecidos (o mesmo lead costuma
+   * chegar também pelo formulário público)
    */
   const onSubmit = async (data: QuickClientFormData) => {
+    try {
+      setIsLoading(true);
+      const found = await clientsService.checkDuplicates({
+        name: data.name,
+        email: data.email || undefined,
+        phones: data.phone ? [data.phone] : [],
+      });
+      if (found.length > 0) {
+        setPendingData(data);
+        setDuplicates(found);
+        return;
+      }
+    } catch (error) {
+      // A checagem não impede o cadastro
+      console.warn("Falha ao verificar clientes duplicados:", error);
+    } finally {
+      setIsLoading(false);
+    }
+    await createClient(data);
+  };
+
+  /**
+   * Usa o cliente já cadastrado em vez de criar outro
+   */
+  const handleUseExisting = (client: ClientRecord) => {
+    setDuplicates([]);
+    setPendingData(null);
+    onClientCreated({
+      id: client.id,
+      name: client.name,
+      email: client.email,
+      phone: client.config?.celular ?? undefined,
+    });
+  };
+
+  const handleCreateAnyway = async () => {
+    const data = pendingData;
+    setDuplicates([]);
+    setPendingData(null);
+    if (data) await createClient(data);
+  };
+
+  /**
+   * Cria o cliente
+   */
+  const createClient = async (data: QuickClientFormData) => {
     try {
       setIsLoading(true);
 
@@ -258,6 +309,19 @@ export default function QuickClientForm({ onClientCreated, onCancel }: QuickClie
         </form>
       </Form>
 
+      <ClientDuplicatesDialog
+        candidates={duplicates}
+        onOpenChange={(open) => {
+          if (!open) {
+            setDuplicates([]);
+            setPendingData(null);
+          }
+        }}
+        onCreateAnyway={handleCreateAnyway}
+        onUseExisting={handleUseExisting}
+        isCreating={isLoading}
+      />
+
       {/* Nota informativa */}
       <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
         <p className="text-sm text-blue-800">
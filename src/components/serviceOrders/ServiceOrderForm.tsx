@@ -45,6 +45,8 @@ import {
 import { QuickCreateAircraftModal } from "./QuickCreateAircraftModal";
 import { QuickCreateProductModal } from "./QuickCreateProductModal";
 import { QuickCreateServiceModal } from "./QuickCreateServiceModal";
+import { FormDraftBanner } from "@/components/common/FormDraftBanner";
+import { useFormDraft } from "@/hooks/useFormDraft";
 
 
 
@@ -125,6 +127,9 @@ interface ServiceOrderFormProps {
   // Permite substituir os botões internos por um componente customizado
   // English: Allows overriding internal action buttons with a custom component
   renderActions?: React.ReactNode;
+  // Chave do rascunho preservado se a sessão expirar (ex.: "service-order:new")
+  // English: Draft key kept if the session expires (e.g. "service-order:new")
+  draftKey?: string;
 }
 
 /**
@@ -164,7 +169,8 @@ export default function ServiceOrderForm({
   onServiceCreated,
   onProductCreated
   ,
-  renderActions
+  renderActions,
+  draftKey
 }: ServiceOrderFormProps) {
   /**
    * handleSubmit
@@ -182,6 +188,19 @@ export default function ServiceOrderForm({
   const [productsTotal, setProductsTotal] = useState(0);
   const [totalAmount, setTotalAmount] = useState(0);
   const [selectedAircraft, setSelectedAircraft] = useState<Aircraft | null>(null);
+
+  // Rascunho em caso de sessão expirada, incluindo serviços e produtos selecionados
+  // English: Draft on session expiry, including selected services and products
+  const draft = useFormDraft({
+    key: draftKey || "",
+    form,
+    enabled: !!draftKey,
+    getExtra: () => ({ services: selectedServices, products: selectedProducts }),
+    onRestoreExtra: (extra) => {
+      setSelectedServices(extra.services || []);
+      setSelectedProducts(extra.products || []);
+    },
+  });
   
   // Sincroniza selectedAircraft com o aircraft_id do formulário quando carregado
   useEffect(() => {
@@ -367,6 +386,9 @@ export default function ServiceOrderForm({
   return (
     <Form {...form}>
       <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-6">
+        {draft.hasDraft && (
+          <FormDraftBanner savedAt={draft.draftSavedAt} onRestore={draft.restoreDraft} onDiscard={draft.discardDraft} />
+        )}
         {/* Informações Básicas */}
         <Card>
           <CardHeader>
@@ -2,6 +2,7 @@ import { useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Can } from "@/components/auth/Can";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import {
@@ -175,14 +176,16 @@ export default function ServicesTable({
                         <p className="font-medium">Nenhum serviço cadastrado</p>
                         <p className="text-sm">Comece criando seu primeiro serviço</p>
                       </div>
-                      <Button 
-                        onClick={onNewService}
-                        size="sm"
-                        className="mt-2"
-                      >
-                        <Plus className="h-4 w-4 mr-2" />
-                        Criar serviço
-                      </Button>
+                      <Can action="create" menuPath="/admin/services">
+                        <Button 
+                          onClick={onNewService}
+                          size="sm"
+                          className="mt-2"
+                        >
+                          <Plus className="h-4 w-4 mr-2" />
+                          Criar serviço
+                        </Button>
+                      </Can>
                     </div>
                   </TableCell>
                 </TableRow>
@@ -254,18 +257,22 @@ export default function ServicesTable({
                             <Eye className="mr-2 h-4 w-4" />
                             Visualizar
                           </DropdownMenuItem>
-                          <DropdownMenuItem onClick={() => onEditService(service)}>
-                            <Edit className="mr-2 h-4 w-4" />
-                            Editar
-                          </DropdownMenuItem>
+                          <Can action="edit" menuPath="/admin/services">
+                            <DropdownMenuItem onClick={() => onEditService(service)}>
+                              <Edit className="mr-2 h-4 w-4" />
+                              Editar
+                            </DropdownMenuItem>
+                          </Can>
                           <DropdownMenuSeparator />
-                          <DropdownMenuItem 
-                            className="text-destructive"
-                            onClick={() => onDeleteService(service)}
-                          >
-                            <Trash2 className="mr-2 h-4 w-4" />
-                            Excluir
-                          </DropdownMenuItem>
+                          <Can action="delete" menuPath="/admin/services">
+                            <DropdownMenuItem 
+                              className="text-destructive"
+                              onClick={() => onDeleteService(service)}
+                            >
+                              <Trash2 className="mr-2 h-4 w-4" />
+                              Excluir
+                            </DropdownMenuItem>
+                          </Can>
                         </DropdownMenuContent>
                       </DropdownMenu>
                     </TableCell>
@@ -0,0 +1,184 @@
+import { useEffect, useState } from 'react';
+import { Loader2, Palette, RotateCcw, Save } from 'lucide-react';
+import { toast } from 'sonner';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { useTheme } from '@/contexts/ThemeContext';
+import { brandingService } from '@/services/brandingService';
+import { isHexColor } from '@/lib/branding';
+import type { TenantBranding } from '@/types/branding';
+
+type TextField = 'appName' | 'tagline' | 'storeName' | 'logoUrl' | 'storeLogoUrl' | 'faviconUrl' | 'fontFamily' | 'fontUrl';
+type ColorField = 'primaryColor' | 'secondaryColor' | 'accentColor';
+
+const TEXT_FIELDS: Array<{ field: TextField; label: string; placeholder: string }> = [
+  { field: 'appName', label: 'Nome da instituição', placeholder: 'Aeroclube de Juiz de Fora' },
+  { field: 'tagline', label: 'Slogan', placeholder: 'Escola de aviação' },
+  { field: 'storeName', label: 'Nome da loja de pontos', placeholder: 'Clube de Pontos' },
+  { field: 'logoUrl', label: 'URL do logo', placeholder: '/logo.png' },
+  { field: 'storeLogoUrl', label: 'URL do logo da loja (opcional)', placeholder: 'Usa o logo principal' },
+  { field: 'faviconUrl', label: 'URL do favicon', placeholder: '/favicon.svg' },
+  { field: 'fontFamily', label: 'Fonte', placeholder: '"Inter", sans-serif' },
+  { field: 'fontUrl', label: 'URL da folha de estilos da fonte', placeholder: 'https://fonts.googleapis.com/css2?family=Inter&display=swap' },
+];
+
+const COLOR_FIELDS: Array<{ field: ColorField; label: string }> = [
+  { field: 'primaryColor', label: 'Cor Primária' },
+  { field: 'secondaryColor', label: 'Cor Secundária' },
+  { field: 'accentColor', label: 'Cor de Destaque' },
+];
+
+/**
+ * toPreview
+ * pt-BR: Só envia para a prévia cores hex válidas; o restante segue como digitado.
+ * en-US: Only valid hex colors go to the preview; everything else goes as typed.
+ */
+function toPreview(draft: TenantBranding): TenantBranding {
+  const next = { ...draft };
+  COLOR_FIELDS.forEach(({ field }) => {
+    if (!isHexColor(next[field])) next[field] = null;
+  });
+  next.fontFamily = next.fontFamily?.trim() || null;
+  next.fontUrl = next.fontUrl?.trim() || null;
+  return next;
+}
+
+/**
+ * BrandingSettingsCard
+ * pt-BR: Edita a identidade visual do tenant (logo, favicon, cores, fonte e nomes) com prévia
+ *        ao vivo em todo o app. Nada é salvo até "Salvar Identidade Visual"; sair da tela
+ *        descarta a prévia.
+ * en-US: Edits the tenant visual identity (logo, favicon, colors, font and names) with a live
+ *        preview across the app. Nothing is saved until "Salvar Identidade Visual"; leaving the
+ *        page discards the preview.
+ */
+export function BrandingSettingsCard() {
+  const { branding, isBrandingLoading, previewBranding, refreshBranding } = useTheme();
+  const [draft, setDraft] = useState<TenantBranding>(branding);
+  const [isDirty, setIsDirty] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Acompanha o branding carregado enquanto o usuário não editou nada
+  useEffect(() => {
+    if (!isDirty) setDraft(branding);
+  }, [branding, isDirty]);
+
+  useEffect(() => () => previewBranding(null), [previewBranding]);
+
+  const handleChange = (field: TextField | ColorField, value: string) => {
+    const next = { ...draft, [field]: value };
+    setDraft(next);
+    setIsDirty(true);
+    previewBranding(toPreview(next));
+  };
+
+  const handleDiscard = () => {
+    previewBranding(null);
+    setIsDirty(false);
+  };
+
+  const handleSave = async () => {
+    const invalid = COLOR_FIELDS.filter(({ field }) => draft[field] && !isHexColor(draft[field]));
+    if (invalid.length > 0) {
+      toast.error(`Cor inválida: ${invalid.map(({ label }) => label).join(', ')}. Use o formato #RRGGBB.`);
+      return;
+    }
+    setIsSaving(true);
+    try {
+      await brandingService.saveBranding(toPreview(draft));
+      await refreshBranding();
+      previewBranding(null);
+      setIsDirty(false);
+      toast.success('Identidade visual salva!');
+    } catch (error) {
+      console.error('Erro ao salvar identidade visual:', error);
+      toast.error('Erro ao salvar identidade visual');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Palette className="h-5 w-5" />
+          <span>Identidade Visual</span>
+        </CardTitle>
+        <CardDescription>
+          Logo, cores, fonte e nomes exibidos para este tenant no painel, na página inicial e na loja.
+          As alterações aparecem na hora como prévia e só valem para todos depois de salvas.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex items-center gap-4 rounded-md border p-4">
+          <img
+            src={draft.logoUrl || '/placeholder.svg'}
+            onError={(e) => { (e.currentTarget as HTMLImageElement).src = '/placeholder.svg'; }}
+            alt="Logo"
+            className="h-12 w-auto"
+          />
+          <div>
+            <p className="font-semibold">{draft.appName || 'Sem nome'}</p>
+            <p className="text-sm text-muted-foreground">{draft.tagline}</p>
+          </div>
+          <div className="ml-auto flex gap-2">
+            <Button size="sm">Primária</Button>
+            <Button size="sm" variant="secondary">Secundária</Button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {COLOR_FIELDS.map(({ field, label }) => (
+            <div key={field} className="space-y-2">
+              <Label htmlFor={`branding-${field}`}>{label}</Label>
+              <div className="flex items-center space-x-2">
+                <Input
+                  id={`branding-${field}`}
+                  type="color"
+                  value={isHexColor(draft[field]) ? draft[field]! : '#000000'}
+                  onChange={(e) => handleChange(field, e.target.value)}
+                  className="w-16 h-10 p-1 border rounded"
+                />
+                <Input
+                  type="text"
+                  value={draft[field] ?? ''}
+                  onChange={(e) => handleChange(field, e.target.value)}
+                  placeholder="Padrão do tema"
+                  className="flex-1"
+                />
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {TEXT_FIELDS.map(({ field, label, placeholder }) => (
+            <div key={field} className="space-y-2">
+              <Label htmlFor={`branding-${field}`}>{label}</Label>
+              <Input
+                id={`branding-${field}`}
+                value={draft[field] ?? ''}
+                onChange={(e) => handleChange(field, e.target.value)}
+                placeholder={placeholder}
+              />
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-end gap-2 pt-4 border-t">
+          <Button variant="outline" onClick={handleDiscard} disabled={!isDirty || isSaving}>
+            <RotateCcw className="h-4 w-4 mr-2" />
+            Descartar prévia
+          </Button>
+          <Button onClick={handleSave} disabled={!isDirty || isSaving || isBrandingLoading} className="flex items-center space-x-2">
+            {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+            <span>Salvar Identidade Visual</span>
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,134 @@
+import { useEffect, useState } from 'react';
+import { KeyRound, Loader2, Save } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Button } from '@/components/ui/button';
+import { Separator } from '@/components/ui/separator';
+import { useSaveSecurityPolicy, useSecurityPolicy } from '@/hooks/security';
+import { DEFAULT_SECURITY_POLICY } from '@/lib/passwordPolicy';
+import type { LoginProtectionPolicy, PasswordPolicy, SecurityPolicy } from '@/types/security';
+
+const PASSWORD_SWITCHES: { key: keyof PasswordPolicy; label: string }[] = [
+  { key: 'require_uppercase', label: 'Exigir letra maiúscula' },
+  { key: 'require_lowercase', label: 'Exigir letra minúscula' },
+  { key: 'require_number', label: 'Exigir número' },
+  { key: 'require_symbol', label: 'Exigir símbolo' },
+  { key: 'block_breached', label: 'Recusar senhas vazadas conhecidas' },
+];
+
+const NUMBER_FIELDS: { group: 'password' | 'login'; key: string; label: string; min: number }[] = [
+  { group: 'password', key: 'min_length', label: 'Tamanho mínimo da senha', min: 6 },
+  { group: 'password', key: 'history_size', label: 'Senhas anteriores que não podem ser reutilizadas', min: 0 },
+  { group: 'login', key: 'captcha_after', label: 'Falhas até pedir verificação humana', min: 1 },
+  { group: 'login', key: 'lockout_after', label: 'Falhas até bloquear a conta', min: 2 },
+  { group: 'login', key: 'lockout_minutes', label: 'Duração do bloqueio (minutos)', min: 1 },
+];
+
+/**
+ * SecurityPolicyCard
+ * pt-BR: Política de senhas (tamanho, tipos de caractere, histórico, senhas vazadas) e proteção
+ *        do login (verificação humana e bloqueio após falhas seguidas).
+ * en-US: Password policy (length, character classes, history, breached passwords) and login
+ *        protection (human verification and lock after consecutive failures).
+ */
+export function SecurityPolicyCard() {
+  const { data, isLoading } = useSecurityPolicy();
+  const saveMutation = useSaveSecurityPolicy();
+  const [policy, setPolicy] = useState<SecurityPolicy>(DEFAULT_SECURITY_POLICY);
+
+  useEffect(() => {
+    if (data) setPolicy(data);
+  }, [data]);
+
+  const setPassword = (changes: Partial<PasswordPolicy>) => {
+    setPolicy((prev) => ({ ...prev, password: { ...prev.password, ...changes } }));
+  };
+
+  const setLogin = (changes: Partial<LoginProtectionPolicy>) => {
+    setPolicy((prev) => ({ ...prev, login: { ...prev.login, ...changes } }));
+  };
+
+  const setNumber = (group: 'password' | 'login', key: string, value: string, min: number) => {
+    const number = Math.max(min, Math.floor(Number(value) || 0));
+    setPolicy((prev) => ({ ...prev, [group]: { ...prev[group], [key]: number } }));
+  };
+
+  const numberValue = (group: 'password' | 'login', key: string) =>
+    group === 'password' ? policy.password[key as keyof PasswordPolicy] : policy.login[key as keyof LoginProtectionPolicy];
+
+  const lockoutTooEarly = policy.login.lockout_after <= policy.login.captcha_after;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <KeyRound className="h-5 w-5" />
+          Política de Senhas e Login
+        </CardTitle>
+        <CardDescription>
+          Regras para novas senhas e a proteção contra tentativas repetidas de login
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+        ) : (
+          <>
+            <div className="grid gap-3 sm:grid-cols-2">
+              {PASSWORD_SWITCHES.map(({ key, label }) => (
+                <div key={key} className="flex items-center justify-between gap-2">
+                  <Label htmlFor={`password-policy-${key}`} className="font-normal">{label}</Label>
+                  <Switch
+                    id={`password-policy-${key}`}
+                    checked={!!policy.password[key]}
+                    onCheckedChange={(checked) => setPassword({ [key]: checked })}
+                  />
+                </div>
+              ))}
+            </div>
+            <Separator />
+            <div className="grid gap-4 sm:grid-cols-2">
+              {NUMBER_FIELDS.map(({ group, key, label, min }) => (
+                <div key={`${group}-${key}`} className="space-y-2">
+                  <Label htmlFor={`security-policy-${key}`}>{label}</Label>
+                  <Input
+                    id={`security-policy-${key}`}
+                    type="number"
+                    min={min}
+                    value={String(numberValue(group, key))}
+                    onChange={(e) => setNumber(group, key, e.target.value, min)}
+                  />
+                </div>
+              ))}
+            </div>
+            <Separator />
+            <div className="flex items-center justify-between gap-2">
+              <div className="space-y-0.5">
+                <Label htmlFor="security-policy-passwordless">Login sem senha para clientes da loja</Label>
+                <p className="text-sm text-muted-foreground">
+                  Clientes entram com e-mail ou CPF e um código ou link enviado por e-mail
+                </p>
+              </div>
+              <Switch
+                id="security-policy-passwordless"
+                checked={policy.login.passwordless_enabled}
+                onCheckedChange={(checked) => setLogin({ passwordless_enabled: checked })}
+              />
+            </div>
+            {lockoutTooEarly && (
+              <p className="text-sm text-destructive">
+                O bloqueio deve acontecer depois da verificação humana.
+              </p>
+            )}
+          </>
+        )}
+        <Button onClick={() => saveMutation.mutate(policy)} disabled={isLoading || saveMutation.isPending || lockoutTooEarly}>
+          {saveMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+          Salvar Política
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,96 @@
+import { useEffect, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Loader2, Save, ShieldCheck } from 'lucide-react';
+import { toast } from 'sonner';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { usePermissionsList } from '@/hooks/permissions';
+import { twoFactorService } from '@/services/twoFactorService';
+
+const POLICY_QUERY_KEY = ['system-settings', 'two-factor-groups'];
+
+/**
+ * TwoFactorPolicyCard
+ * pt-BR: Escolhe os grupos de permissão com verificação em duas etapas obrigatória. Usuários
+ *        desses grupos sem 2FA ativo são levados ao perfil para ativá-lo no próximo login.
+ * en-US: Picks the permission groups with mandatory two-step verification. Users of those
+ *        groups without 2FA are sent to their profile to enable it on the next login.
+ */
+export function TwoFactorPolicyCard() {
+  const queryClient = useQueryClient();
+  const { data: groups, isLoading: isLoadingGroups } = usePermissionsList({ per_page: 100 });
+  const { data: savedIds, isLoading: isLoadingPolicy } = useQuery({
+    queryKey: POLICY_QUERY_KEY,
+    queryFn: () => twoFactorService.getRequiredGroups(),
+  });
+  const [selected, setSelected] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (savedIds) setSelected(savedIds);
+  }, [savedIds]);
+
+  const toggle = (id: string, checked: boolean) => {
+    setSelected((prev) => (checked ? [...prev, id] : prev.filter((item) => item !== id)));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await twoFactorService.saveRequiredGroups(selected);
+      queryClient.invalidateQueries({ queryKey: POLICY_QUERY_KEY });
+      toast.success('Política de verificação em duas etapas salva');
+    } catch (error) {
+      toast.error('Erro ao salvar a política de 2FA', {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const isLoading = isLoadingGroups || isLoadingPolicy;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5" />
+          Verificação em Duas Etapas
+        </CardTitle>
+        <CardDescription>
+          Torna o código do app autenticador obrigatório no login para os grupos marcados
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+        ) : (
+          <div className="grid gap-3 sm:grid-cols-2">
+            {(groups?.data ?? []).map((group) => {
+              const id = String(group.id);
+              return (
+                <div key={id} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`two-factor-group-${id}`}
+                    checked={selected.includes(id)}
+                    onCheckedChange={(checked) => toggle(id, !!checked)}
+                  />
+                  <Label htmlFor={`two-factor-group-${id}`} className="font-normal">
+                    {group.name}
+                  </Label>
+                </div>
+              );
+            })}
+          </div>
+        )}
+        <Button onClick={handleSave} disabled={isSaving || isLoading}>
+          {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+          Salvar Política
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
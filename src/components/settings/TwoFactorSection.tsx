@@ -0,0 +1,323 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Copy, Download, Loader2, ShieldAlert, ShieldCheck } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { OTP_CODE_LENGTH, OtpCodeInput } from '@/components/auth/OtpCodeInput';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from '@/hooks/use-toast';
+import { twoFactorService } from '@/services/twoFactorService';
+import type { TwoFactorSetup } from '@/types/twoFactor';
+
+type Flow = 'enroll' | 'regenerate' | 'disable' | null;
+
+const STATUS_QUERY_KEY = ['user', 'two-factor'];
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'Erro desconhecido';
+}
+
+/**
+ * RecoveryCodesList
+ * pt-BR: Mostra os códigos de recuperação uma única vez, com opções de copiar e baixar.
+ * en-US: Shows the recovery codes only once, with copy and download options.
+ */
+function RecoveryCodesList({ codes }: { codes: string[] }) {
+  const text = codes.join('\n');
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(text);
+    toast({ title: 'Códigos copiados' });
+  };
+
+  const handleDownload = () => {
+    const url = URL.createObjectURL(new Blob([text], { type: 'text/plain' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'codigos-recuperacao.txt';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-3">
+      <Alert>
+        <ShieldAlert className="h-4 w-4" />
+        <AlertDescription>
+          Guarde estes códigos em local seguro. Cada um funciona uma única vez caso você perca o
+          acesso ao app autenticador, e eles não serão exibidos novamente.
+        </AlertDescription>
+      </Alert>
+      <div className="grid grid-cols-2 gap-2 rounded-md bg-muted p-3 font-mono text-sm">
+        {codes.map((code) => <span key={code}>{code}</span>)}
+      </div>
+      <div className="flex gap-2">
+        <Button type="button" variant="outline" size="sm" onClick={handleCopy}>
+          <Copy className="mr-2 h-4 w-4" /> Copiar
+        </Button>
+        <Button type="button" variant="outline" size="sm" onClick={handleDownload}>
+          <Download className="mr-2 h-4 w-4" /> Baixar .txt
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * TwoFactorSection
+ * pt-BR: Bloco de 2FA (TOTP) do card de Segurança do perfil: ativação com QR code e
+ *        confirmação por código, novos códigos de recuperação e desativação (bloqueada
+ *        quando o grupo de permissão exige 2FA).
+ * en-US: 2FA (TOTP) block of the profile Security card: enrollment with QR code and code
+ *        confirmation, new recovery codes and disabling (blocked when the permission
+ *        group requires 2FA).
+ */
+export function TwoFactorSection() {
+  const queryClient = useQueryClient();
+  const { twoFactorSetupRequired, completeTwoFactorSetup } = useAuth();
+  const [flow, setFlow] = useState<Flow>(null);
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const { data: status, isLoading } = useQuery({
+    queryKey: STATUS_QUERY_KEY,
+    queryFn: () => twoFactorService.getStatus(),
+    retry: false,
+  });
+
+  const closeFlow = () => {
+    setFlow(null);
+    setSetup(null);
+    setCode('');
+    setPassword('');
+    setRecoveryCodes(null);
+  };
+
+  const onError = (title: string) => (error: unknown) => {
+    toast({ title, description: errorMessage(error), variant: 'destructive' });
+    setCode('');
+  };
+
+  const enableMutation = useMutation({
+    mutationFn: () => twoFactorService.enable(),
+    onSuccess: (data) => {
+      setSetup(data);
+      setFlow('enroll');
+    },
+    onError: onError('Erro ao iniciar a ativação'),
+  });
+
+  const confirmMutation = useMutation({
+    mutationFn: (value: string) => twoFactorService.confirm(value),
+    onSuccess: (data) => {
+      setRecoveryCodes(data.recovery_codes);
+      completeTwoFactorSetup();
+      queryClient.invalidateQueries({ queryKey: STATUS_QUERY_KEY });
+      toast({ title: 'Verificação em duas etapas ativada' });
+    },
+    onError: onError('Código inválido'),
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: (value: string) => twoFactorService.regenerateRecoveryCodes(value),
+    onSuccess: (data) => {
+      setRecoveryCodes(data.recovery_codes);
+      queryClient.invalidateQueries({ queryKey: STATUS_QUERY_KEY });
+    },
+    onError: onError('Código inválido'),
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: (value: string) => twoFactorService.disable(value),
+    onSuccess: () => {
+      closeFlow();
+      queryClient.invalidateQueries({ queryKey: STATUS_QUERY_KEY });
+      toast({ title: 'Verificação em duas etapas desativada' });
+    },
+    onError: (error) => toast({ title: 'Erro ao desativar', description: errorMessage(error), variant: 'destructive' }),
+  });
+
+  const isRequired = !!status?.required || twoFactorSetupRequired;
+  const qrSrc = setup?.qr_code_svg ? `data:image/svg+xml;charset=utf-8,${encodeURIComponent(setup.qr_code_svg)}` : null;
+
+  return (
+    <>
+      <div className="space-y-3 p-4 border rounded-lg">
+        {isRequired && !status?.enabled && (
+          <Alert variant="destructive">
+            <ShieldAlert className="h-4 w-4" />
+            <AlertDescription>
+              Seu grupo de permissão exige a verificação em duas etapas. Ative-a para continuar
+              usando o painel.
+            </AlertDescription>
+          </Alert>
+        )}
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <h4 className="font-medium flex items-center gap-2">
+              Verificação em duas etapas
+              {status?.enabled ? (
+                <Badge variant="default"><ShieldCheck className="mr-1 h-3 w-3" /> Ativa</Badge>
+              ) : (
+                <Badge variant="secondary">Inativa</Badge>
+              )}
+            </h4>
+            <p className="text-sm text-muted-foreground">
+              {status?.enabled
+                ? `Código do app autenticador exigido no login. Códigos de recuperação restantes: ${status.recovery_codes_remaining ?? '—'}.`
+                : 'Proteja sua conta pedindo um código do app autenticador (Google Authenticator, Authy, 1Password) no login.'}
+            </p>
+          </div>
+          <div className="flex shrink-0 flex-col gap-2 sm:flex-row">
+            {isLoading ? (
+              <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+            ) : status?.enabled ? (
+              <>
+                <Button variant="outline" onClick={() => setFlow('regenerate')}>
+                  Novos códigos
+                </Button>
+                {!status.required && (
+                  <Button variant="outline" onClick={() => setFlow('disable')}>
+                    Desativar
+                  </Button>
+                )}
+              </>
+            ) : (
+              <Button onClick={() => enableMutation.mutate()} disabled={enableMutation.isPending}>
+                {enableMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Ativar
+              </Button>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Ativação: QR code → código → códigos de recuperação */}
+      <Dialog open={flow === 'enroll'} onOpenChange={(open) => { if (!open) closeFlow(); }}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Ativar verificação em duas etapas</DialogTitle>
+            <DialogDescription>
+              {recoveryCodes
+                ? 'Pronto! Salve seus códigos de recuperação.'
+                : 'Escaneie o QR code no app autenticador e digite o código gerado.'}
+            </DialogDescription>
+          </DialogHeader>
+          {recoveryCodes ? (
+            <RecoveryCodesList codes={recoveryCodes} />
+          ) : (
+            <div className="space-y-4">
+              {qrSrc && <img src={qrSrc} alt="QR code para o app autenticador" className="mx-auto h-48 w-48 rounded bg-white p-2" />}
+              <div className="space-y-1 text-center">
+                <p className="text-xs text-muted-foreground">Ou digite a chave manualmente:</p>
+                <code className="break-all rounded bg-muted px-2 py-1 text-sm">{setup?.secret}</code>
+              </div>
+              <OtpCodeInput
+                value={code}
+                onChange={setCode}
+                onComplete={(value) => confirmMutation.mutate(value)}
+                disabled={confirmMutation.isPending}
+                autoFocus
+              />
+            </div>
+          )}
+          <DialogFooter>
+            {recoveryCodes ? (
+              <Button onClick={closeFlow}>Concluir</Button>
+            ) : (
+              <Button
+                onClick={() => confirmMutation.mutate(code)}
+                disabled={confirmMutation.isPending || code.length !== OTP_CODE_LENGTH}
+              >
+                {confirmMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Confirmar
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Novos códigos de recuperação */}
+      <Dialog open={flow === 'regenerate'} onOpenChange={(open) => { if (!open) closeFlow(); }}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Novos códigos de recuperação</DialogTitle>
+            <DialogDescription>
+              {recoveryCodes
+                ? 'Os códigos anteriores deixaram de valer.'
+                : 'Confirme com o código atual do app autenticador. Os códigos anteriores deixarão de valer.'}
+            </DialogDescription>
+          </DialogHeader>
+          {recoveryCodes ? (
+            <RecoveryCodesList codes={recoveryCodes} />
+          ) : (
+            <OtpCodeInput
+              value={code}
+              onChange={setCode}
+              onComplete={(value) => regenerateMutation.mutate(value)}
+              disabled={regenerateMutation.isPending}
+              autoFocus
+            />
+          )}
+          <DialogFooter>
+            {recoveryCodes ? (
+              <Button onClick={closeFlow}>Concluir</Button>
+            ) : (
+              <Button
+                onClick={() => regenerateMutation.mutate(code)}
+                disabled={regenerateMutation.isPending || code.length !== OTP_CODE_LENGTH}
+              >
+                {regenerateMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Gerar códigos
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Desativação */}
+      <Dialog open={flow === 'disable'} onOpenChange={(open) => { if (!open) closeFlow(); }}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Desativar verificação em duas etapas</DialogTitle>
+            <DialogDescription>Confirme sua senha para desativar.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="two-factor-disable-password">Senha atual</Label>
+            <Input
+              id="two-factor-disable-password"
+              type="password"
+              autoComplete="current-password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={closeFlow}>Cancelar</Button>
+            <Button
+              variant="destructive"
+              onClick={() => disableMutation.mutate(password)}
+              disabled={disableMutation.isPending || !password}
+            >
+              {disableMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Desativar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
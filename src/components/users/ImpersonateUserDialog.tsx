@@ -0,0 +1,82 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Eye, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useAuth } from '@/contexts/AuthContext';
+import { hasAdminAccess } from '@/lib/menu';
+import { UserRecord } from '@/types/users';
+
+interface ImpersonateUserDialogProps {
+  user: UserRecord | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * ImpersonateUserDialog
+ * pt-BR: Confirma o modo "ver como" para o usuário escolhido, com motivo opcional para a
+ *        auditoria, e leva à tela inicial que ele veria (painel ou área do cliente).
+ * en-US: Confirms "view as" mode for the chosen user, with an optional reason for the audit
+ *        trail, and goes to the home screen they would see (admin or client area).
+ */
+export function ImpersonateUserDialog({ user, onOpenChange }: ImpersonateUserDialogProps) {
+  const { startImpersonation } = useAuth();
+  const navigate = useNavigate();
+  const [reason, setReason] = useState('');
+  const [isStarting, setIsStarting] = useState(false);
+
+  useEffect(() => {
+    if (user) setReason('');
+  }, [user]);
+
+  const handleConfirm = async () => {
+    if (!user) return;
+    setIsStarting(true);
+    const session = await startImpersonation(String(user.id), reason.trim());
+    setIsStarting(false);
+    if (!session) return;
+    onOpenChange(false);
+    navigate(hasAdminAccess(session.menu, session.user.permission_id) ? '/admin' : '/');
+  };
+
+  return (
+    <Dialog open={!!user} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Ver como {user?.name}</DialogTitle>
+          <DialogDescription>
+            Você verá o menu, as permissões e o saldo de pontos deste usuário, sem poder alterar
+            nada. O início e o fim ficam registrados na auditoria.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor="impersonation-reason">Motivo (opcional)</Label>
+          <Textarea
+            id="impersonation-reason"
+            placeholder="Ex.: chamado de suporte #123"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+          />
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isStarting}>
+            Cancelar
+          </Button>
+          <Button onClick={handleConfirm} disabled={isStarting}>
+            {isStarting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Eye className="mr-2 h-4 w-4" />}
+            Ver como
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
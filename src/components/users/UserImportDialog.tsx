@@ -0,0 +1,259 @@
+import { ChangeEvent, useState } from 'react';
+import { AlertCircle, CheckCircle2, Download, FileUp, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useImportUsers } from '@/hooks/users';
+import { parseCsvRecords } from '@/lib/csv';
+import { USER_IMPORT_TEMPLATE, mapHeaders, validateUserImport } from '@/lib/userImport';
+import { usersService } from '@/services/usersService';
+import type { PermissionRecord } from '@/types/permissions';
+import type { UserBulkResult, UserImportRow } from '@/types/users';
+
+interface UserImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  permissions: PermissionRecord[];
+}
+
+type Step = 'upload' | 'review' | 'done';
+
+const EMAILS_PAGE_SIZE = 100;
+
+/**
+ * fetchExistingEmails
+ * pt-BR: Percorre todas as páginas de `/users` para conferir e-mails já cadastrados.
+ * en-US: Walks every `/users` page to check already registered emails.
+ */
+async function fetchExistingEmails(): Promise<Set<string>> {
+  const emails = new Set<string>();
+  let page = 1;
+  let lastPage = 1;
+  do {
+    const response = await usersService.listUsers({ page, per_page: EMAILS_PAGE_SIZE });
+    response.data.forEach((user) => emails.add(String(user.email).toLowerCase()));
+    lastPage = response.last_page || 1;
+    page += 1;
+  } while (page <= lastPage);
+  return emails;
+}
+
+function downloadTemplate() {
+  const url = URL.createObjectURL(new Blob([`\uFEFF${USER_IMPORT_TEMPLATE}`], { type: 'text/csv;charset=utf-8' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = 'modelo-importacao-usuarios.csv';
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * UserImportDialog
+ * pt-BR: Importação de usuários por CSV em três passos: envio do arquivo, relatório por linha
+ *        (nada é criado enquanto houver só a prévia) e resultado da criação.
+ * en-US: CSV user import in three steps: file upload, per-row report (nothing is created
+ *        while only previewing) and the creation result.
+ */
+export function UserImportDialog({ open, onOpenChange, permissions }: UserImportDialogProps) {
+  const [step, setStep] = useState<Step>('upload');
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [isReading, setIsReading] = useState(false);
+  const [rows, setRows] = useState<UserImportRow[]>([]);
+  const [progress, setProgress] = useState(0);
+  const [result, setResult] = useState<UserBulkResult | null>(null);
+  const importMutation = useImportUsers(setProgress);
+
+  const validRows = rows.filter((row) => row.payload);
+  const invalidRows = rows.filter((row) => !row.payload);
+
+  const reset = () => {
+    setStep('upload');
+    setFileError(null);
+    setRows([]);
+    setProgress(0);
+    setResult(null);
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (importMutation.isPending) return;
+    if (!next) reset();
+    onOpenChange(next);
+  };
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setFileError(null);
+    setIsReading(true);
+    try {
+      const { headers, records } = parseCsvRecords(await file.text());
+      const { missing } = mapHeaders(headers);
+      if (missing.length > 0) {
+        setFileError(`Colunas obrigatórias ausentes: ${missing.join(', ')}.`);
+        return;
+      }
+      if (records.length === 0) {
+        setFileError('O arquivo não tem linhas de dados.');
+        return;
+      }
+      const existingEmails = await fetchExistingEmails();
+      setRows(validateUserImport(headers, records, { permissions, existingEmails }));
+      setStep('review');
+    } catch (error) {
+      setFileError(error instanceof Error ? error.message : 'Não foi possível ler o arquivo.');
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const handleImport = async () => {
+    setProgress(0);
+    setResult(await importMutation.mutateAsync(rows));
+    setStep('done');
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Importar usuários</DialogTitle>
+          <DialogDescription>
+            Arquivo CSV com as colunas nome, email e grupo (obrigatórias), cpf, celular, senha e ativo.
+            Sem senha, o usuário é criado com uma senha aleatória e recebe o e-mail para definir a própria.
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'upload' && (
+          <div className="space-y-4">
+            <Button type="button" variant="outline" size="sm" onClick={downloadTemplate}>
+              <Download className="mr-2 h-4 w-4" /> Baixar modelo
+            </Button>
+            <label className="flex cursor-pointer flex-col items-center gap-2 rounded-lg border-2 border-dashed p-8 text-center text-sm text-muted-foreground hover:bg-muted/50">
+              {isReading ? <Loader2 className="h-6 w-6 animate-spin" /> : <FileUp className="h-6 w-6" />}
+              {isReading ? 'Validando...' : 'Clique para escolher o arquivo .csv'}
+              <Input type="file" accept=".csv,text/csv" className="hidden" onChange={handleFile} disabled={isReading} />
+            </label>
+            {fileError && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>{fileError}</AlertDescription>
+              </Alert>
+            )}
+          </div>
+        )}
+
+        {step === 'review' && (
+          <div className="space-y-4">
+            <div className="flex gap-2">
+              <Badge className="bg-success text-success-foreground">{validRows.length} válida(s)</Badge>
+              {invalidRows.length > 0 && <Badge variant="destructive">{invalidRows.length} com erro</Badge>}
+            </div>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-16">Linha</TableHead>
+                  <TableHead>Nome</TableHead>
+                  <TableHead>E-mail</TableHead>
+                  <TableHead>Situação</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map((row) => (
+                  <TableRow key={row.line} className={row.payload ? undefined : 'bg-destructive/5'}>
+                    <TableCell>{row.line}</TableCell>
+                    <TableCell>{row.name || '—'}</TableCell>
+                    <TableCell>{row.email || '—'}</TableCell>
+                    <TableCell>
+                      {row.payload ? (
+                        <span className="flex items-center gap-1 text-sm text-success">
+                          <CheckCircle2 className="h-4 w-4" /> Pronta
+                        </span>
+                      ) : (
+                        <ul className="list-disc pl-4 text-sm text-destructive">
+                          {row.errors.map((error) => <li key={error}>{error}</li>)}
+                        </ul>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            {invalidRows.length > 0 && validRows.length > 0 && (
+              <p className="text-sm text-muted-foreground">
+                Só as linhas válidas serão criadas. Corrija as demais no arquivo e importe de novo.
+              </p>
+            )}
+          </div>
+        )}
+
+        {step === 'done' && result && (
+          <div className="space-y-4">
+            <Alert>
+              <CheckCircle2 className="h-4 w-4" />
+              <AlertDescription>
+                {result.succeeded.length} usuário(s) criado(s).
+                {result.failed.length > 0 && ` ${result.failed.length} linha(s) recusada(s) pela API.`}
+              </AlertDescription>
+            </Alert>
+            {result.failed.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-16">Linha</TableHead>
+                    <TableHead>E-mail</TableHead>
+                    <TableHead>Erro</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {result.failed.map((failure) => (
+                    <TableRow key={failure.id}>
+                      <TableCell>{failure.id}</TableCell>
+                      <TableCell>{failure.label}</TableCell>
+                      <TableCell className="text-destructive">{failure.message}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {step === 'review' && (
+            <>
+              <Button variant="outline" onClick={reset} disabled={importMutation.isPending}>
+                Escolher outro arquivo
+              </Button>
+              <Button onClick={handleImport} disabled={importMutation.isPending || validRows.length === 0}>
+                {importMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {importMutation.isPending
+                  ? `Importando ${progress}/${validRows.length}`
+                  : `Importar ${validRows.length} usuário(s)`}
+              </Button>
+            </>
+          )}
+          {step === 'done' && <Button onClick={() => handleOpenChange(false)}>Concluir</Button>}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,35 @@
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { ActiveSessionsList } from '@/components/auth/ActiveSessionsList';
+import { UserRecord } from '@/types/users';
+
+interface UserSessionsDialogProps {
+  user: UserRecord | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * UserSessionsDialog
+ * pt-BR: Sessões ativas de um usuário para o administrador, com encerramento individual ou total.
+ * en-US: A user's active sessions for administrators, ending one or all of them.
+ */
+export function UserSessionsDialog({ user, onOpenChange }: UserSessionsDialogProps) {
+  return (
+    <Dialog open={!!user} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Sessões ativas</DialogTitle>
+          <DialogDescription>
+            Dispositivos em que {user?.name} está conectado.
+          </DialogDescription>
+        </DialogHeader>
+        {user && <ActiveSessionsList userId={String(user.id)} />}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,151 @@
+import { useState } from 'react';
+import { KeyRound, Loader2, UserCheck, UserX, Users as UsersIcon, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useBulkUserAction } from '@/hooks/users';
+import type { PermissionRecord } from '@/types/permissions';
+import type { UserBulkAction, UserBulkFailure, UserRecord } from '@/types/users';
+
+interface UsersBulkActionsBarProps {
+  selectedUsers: UserRecord[];
+  permissions: PermissionRecord[];
+  /** Remove da seleção os usuários processados com sucesso / Removes successfully processed users from the selection */
+  onProcessed: (succeededIds: string[]) => void;
+  onClear: () => void;
+}
+
+function describeAction(action: UserBulkAction, permissions: PermissionRecord[]): string {
+  switch (action.type) {
+    case 'activate':
+      return 'ativar';
+    case 'deactivate':
+      return 'desativar';
+    case 'permission':
+      return `mover para o grupo "${permissions.find((p) => String(p.id) === action.permission_id)?.name ?? action.permission_id}"`;
+    case 'password_reset':
+      return 'enviar o e-mail de redefinição de senha para';
+  }
+}
+
+/**
+ * UsersBulkActionsBar
+ * pt-BR: Barra de ações para os usuários marcados na lista: ativar, desativar, trocar o grupo
+ *        de permissão e enviar a redefinição de senha, com confirmação e relatório de falhas.
+ * en-US: Action bar for the users checked in the list: activate, deactivate, change the
+ *        permission group and send the password reset, with confirmation and failure report.
+ */
+export function UsersBulkActionsBar({ selectedUsers, permissions, onProcessed, onClear }: UsersBulkActionsBarProps) {
+  const bulkMutation = useBulkUserAction();
+  const [pendingAction, setPendingAction] = useState<UserBulkAction | null>(null);
+  const [groupId, setGroupId] = useState('');
+  const [failures, setFailures] = useState<UserBulkFailure[]>([]);
+
+  const handleConfirm = async () => {
+    if (!pendingAction) return;
+    const action = pendingAction;
+    setPendingAction(null);
+    const result = await bulkMutation.mutateAsync({ users: selectedUsers, action });
+    onProcessed(result.succeeded);
+    setFailures(result.failed);
+    if (action.type === 'permission') setGroupId('');
+  };
+
+  const isBusy = bulkMutation.isPending;
+
+  return (
+    <>
+      <div className="flex flex-wrap items-center gap-2 rounded-lg border bg-muted/50 p-3">
+        <span className="text-sm font-medium mr-2">
+          {selectedUsers.length} selecionado(s)
+        </span>
+        <Button size="sm" variant="outline" disabled={isBusy} onClick={() => setPendingAction({ type: 'activate' })}>
+          <UserCheck className="mr-2 h-4 w-4" /> Ativar
+        </Button>
+        <Button size="sm" variant="outline" disabled={isBusy} onClick={() => setPendingAction({ type: 'deactivate' })}>
+          <UserX className="mr-2 h-4 w-4" /> Desativar
+        </Button>
+        <div className="flex items-center gap-1">
+          <Select value={groupId} onValueChange={setGroupId} disabled={isBusy}>
+            <SelectTrigger className="h-9 w-[200px]">
+              <SelectValue placeholder="Alterar grupo..." />
+            </SelectTrigger>
+            <SelectContent>
+              {permissions.map((permission) => (
+                <SelectItem key={permission.id} value={String(permission.id)}>
+                  {permission.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={isBusy || !groupId}
+            onClick={() => setPendingAction({ type: 'permission', permission_id: groupId })}
+          >
+            <UsersIcon className="mr-2 h-4 w-4" /> Aplicar
+          </Button>
+        </div>
+        <Button size="sm" variant="outline" disabled={isBusy} onClick={() => setPendingAction({ type: 'password_reset' })}>
+          <KeyRound className="mr-2 h-4 w-4" /> Redefinir senha
+        </Button>
+        {isBusy && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+        <Button size="sm" variant="ghost" className="ml-auto" disabled={isBusy} onClick={onClear}>
+          <X className="mr-2 h-4 w-4" /> Limpar seleção
+        </Button>
+      </div>
+
+      <AlertDialog open={!!pendingAction} onOpenChange={(open) => { if (!open) setPendingAction(null); }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Confirmar ação em lote</AlertDialogTitle>
+            <AlertDialogDescription>
+              Deseja {pendingAction ? describeAction(pendingAction, permissions) : ''} {selectedUsers.length} usuário(s)?
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction onClick={handleConfirm}>Confirmar</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog open={failures.length > 0} onOpenChange={(open) => { if (!open) setFailures([]); }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Alguns usuários não foram processados</AlertDialogTitle>
+            <AlertDialogDescription>
+              Eles continuam selecionados para uma nova tentativa.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <ul className="max-h-60 space-y-1 overflow-y-auto text-sm">
+            {failures.map((failure) => (
+              <li key={failure.id}>
+                <span className="font-medium">{failure.label}</span>: {failure.message}
+              </li>
+            ))}
+          </ul>
+          <AlertDialogFooter>
+            <AlertDialogAction onClick={() => setFailures([])}>Fechar</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -1,12 +1,26 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { User, AuthState, LoginCredentials, RegisterData } from '@/types/auth';
+import React, { createContext, useContext, useState, useEffect, useCallback, useRef, ReactNode } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { User, AuthState, AuthResponse, LoginCredentials, RegisterData, PasswordlessVerifyInput } from '@/types/auth';
 import { MenuItemDTO } from '@/types/menu';
-import { authService } from '@/services/authService';
+import type { ImpersonationSession } from '@/types/impersonation';
+import type { LoginThrottle } from '@/types/security';
+import { authService, isTwoFactorChallenge, loginThrottleFromError } from '@/services/authService';
+import { impersonationService } from '@/services/impersonationService';
+import { clearImpersonation, readImpersonation } from '@/lib/impersonation';
+import { broadcastSession, subscribeSession } from '@/services/sessionSync';
 import type { UserPointsBalance } from '@/services/userPointsService';
 import { toast } from '@/hooks/use-toast';
 
+// Login parado no segundo fator / Login paused at the second factor
+interface PendingTwoFactor {
+  email: string;
+  challenge_token: string;
+}
+
 interface AuthContextType extends AuthState {
   login: (credentials: LoginCredentials) => Promise<boolean>;
+  /** Login sem senha com o código ou o link recebido por e-mail / Passwordless login with the emailed code or link */
+  verifyPasswordless: (input: PasswordlessVerifyInput) => Promise<boolean>;
   register: (data: RegisterData) => Promise<boolean>;
   logout: () => Promise<void>;
   refreshUser: () => Promise<void>;
@@ -17,7 +31,31 @@ interface AuthContextType extends AuthState {
     new_password: string;
     new_password_confirmation: string;
   }) => Promise<boolean>;
+  refreshPermissions: () => Promise<void>;
+  /** Tela de bloqueio por inatividade ativa / Idle lock screen active */
+  isLocked: boolean;
+  lockSession: () => void;
+  unlockSession: (password: string, captchaToken?: string) => Promise<boolean>;
   userPointsBalance: UserPointsBalance | null;
+  /**
+   * Modo "ver como": `user`, `permissions`, `menu` e `userPointsBalance` passam a ser os do
+   * usuário visualizado e `impersonator` guarda o usuário real.
+   * / "View as" mode: `user`, `permissions`, `menu` and `userPointsBalance` become the viewed
+   * user's and `impersonator` holds the real user.
+   */
+  isImpersonating: boolean;
+  impersonator: User | null;
+  startImpersonation: (userId: string, reason?: string) => Promise<ImpersonationSession | null>;
+  stopImpersonation: () => Promise<void>;
+  /** Login aguardando o código do app autenticador / Login awaiting the authenticator app code */
+  twoFactorChallenge: PendingTwoFactor | null;
+  /** Proteção após falhas de login (espera, verificação humana, bloqueio) / Protection after failed logins (wait, human verification, lock) */
+  loginThrottle: LoginThrottle | null;
+  verifyTwoFactor: (code: string, options?: { recovery?: boolean; rememberDevice?: boolean }) => Promise<boolean>;
+  cancelTwoFactor: () => void;
+  /** 2FA obrigatório ainda não ativado / Mandatory 2FA not enrolled yet */
+  twoFactorSetupRequired: boolean;
+  completeTwoFactorSetup: () => void;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -37,6 +75,14 @@ export function AuthProvider({ children }: AuthProviderProps) {
   });
 
   const [userPointsBalance, setUserPointsBalance] = useState<UserPointsBalance | null>(null);
+  const [isLocked, setIsLocked] = useState<boolean>(() => authService.isSessionLocked());
+  const [impersonation, setImpersonation] = useState<ImpersonationSession | null>(
+    () => (authService.getStoredToken() ? readImpersonation() : null)
+  );
+  const queryClient = useQueryClient();
+  const [twoFactorChallenge, setTwoFactorChallenge] = useState<PendingTwoFactor | null>(null);
+  const [loginThrottle, setLoginThrottle] = useState<LoginThrottle | null>(null);
+  const [twoFactorSetupRequired, setTwoFactorSetupRequired] = useState<boolean>(() => authService.isTwoFactorSetupRequired());
 
   const updateAuthState = (
     user: User | null, 
@@ -54,28 +100,55 @@ export function AuthProvider({ children }: AuthProviderProps) {
     });
   };
 
+  /**
+   * completeLogin
+   * pt-BR: Aplica a sessão devolvida pelo login (direto ou após o 2FA) e avisa as outras abas.
+   * en-US: Applies the session returned by login (directly or after 2FA) and notifies other tabs.
+   */
+  const completeLogin = async (response: AuthResponse): Promise<void> => {
+    updateAuthState(
+      response.user, 
+      response.token, 
+      response.permissions || [], 
+      response.menu || []
+    );
+    setTwoFactorSetupRequired(!!response.two_factor_setup_required);
+    authService.setSessionLocked(false);
+    setIsLocked(false);
+    broadcastSession({ type: 'login' });
+    
+    // Sincronizar dados após login bem-sucedido
+    await syncUserData();
+    
+    toast({
+      title: "Login realizado com sucesso!",
+      description: `Bem-vindo, ${response.user.name}!`,
+    });
+  };
+
+  /**
+   * login
+   * pt-BR: Retorna `false` também quando a conta pede o 2FA; nesse caso `twoFactorChallenge`
+   *        fica preenchido e o login termina em `verifyTwoFactor`.
+   * en-US: Also returns `false` when the account asks for 2FA; in that case `twoFactorChallenge`
+   *        is set and the login finishes in `verifyTwoFactor`.
+   */
   const login = async (credentials: LoginCredentials): Promise<boolean> => {
     try {
       setState(prev => ({ ...prev, isLoading: true }));
       
       const response = await authService.login(credentials);
-      updateAuthState(
-        response.user, 
-        response.token, 
-        response.permissions || [], 
-        response.menu || []
-      );
-      
-      // Sincronizar dados após login bem-sucedido
-      await syncUserData();
-      
-      toast({
-        title: "Login realizado com sucesso!",
-        description: `Bem-vindo, ${response.user.name}!`,
-      });
+      setLoginThrottle(null);
+      if (isTwoFactorChallenge(response)) {
+        setTwoFactorChallenge({ email: credentials.email, challenge_token: response.challenge_token });
+        setState(prev => ({ ...prev, isLoading: false }));
+        return false;
+      }
+      await completeLogin(response);
       
       return true;
     } catch (error) {
+      setLoginThrottle(loginThrottleFromError(error, credentials.email));
       toast({
         title: "Erro no login",
         description: error instanceof Error ? error.message : "Erro desconhecido",
@@ -88,6 +161,77 @@ export function AuthProvider({ children }: AuthProviderProps) {
     }
   };
 
+  /**
+   * verifyPasswordless
+   * pt-BR: Conclui o login sem senha. Não usa o `isLoading` global (que desmonta as telas de
+   *        login) para a tela manter o código digitado em caso de erro.
+   * en-US: Completes the passwordless login. It does not use the global `isLoading` (which
+   *        unmounts the login screens) so the screen keeps the typed code on errors.
+   */
+  const verifyPasswordless = async (input: PasswordlessVerifyInput): Promise<boolean> => {
+    try {
+      const response = await authService.verifyPasswordlessLogin(input);
+      if (isTwoFactorChallenge(response)) {
+        setTwoFactorChallenge({ email: response.email ?? '', challenge_token: response.challenge_token });
+        return false;
+      }
+      await completeLogin(response);
+      return true;
+    } catch (error) {
+      toast({
+        title: input.token ? "Link de acesso inválido" : "Código inválido",
+        description: error instanceof Error ? error.message : "Não foi possível entrar",
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
+  /**
+   * verifyTwoFactor
+   * pt-BR: Conclui o login pendente com o código do app (ou de recuperação, com `recovery`).
+   * en-US: Completes the pending login with the app code (or a recovery code, with `recovery`).
+   */
+  const verifyTwoFactor = async (
+    code: string,
+    options: { recovery?: boolean; rememberDevice?: boolean } = {}
+  ): Promise<boolean> => {
+    if (!twoFactorChallenge) return false;
+    try {
+      setState(prev => ({ ...prev, isLoading: true }));
+      const response = await authService.verifyTwoFactor({
+        challenge_token: twoFactorChallenge.challenge_token,
+        ...(options.recovery ? { recovery_code: code.trim() } : { code }),
+        remember_device: !!options.rememberDevice,
+      }, twoFactorChallenge.email);
+      setTwoFactorChallenge(null);
+      await completeLogin(response);
+      return true;
+    } catch (error) {
+      setState(prev => ({ ...prev, isLoading: false }));
+      toast({
+        title: "Código inválido",
+        description: error instanceof Error ? error.message : "Não foi possível validar o código",
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
+  const cancelTwoFactor = () => {
+    setTwoFactorChallenge(null);
+  };
+
+  /**
+   * completeTwoFactorSetup
+   * pt-BR: Libera o painel depois que o usuário ativa o 2FA exigido pelo seu grupo.
+   * en-US: Unlocks the admin after the user enrolls in the 2FA required by their group.
+   */
+  const completeTwoFactorSetup = () => {
+    authService.setTwoFactorSetupRequired(false);
+    setTwoFactorSetupRequired(false);
+  };
+
   const register = async (data: RegisterData): Promise<boolean> => {
     try {
       setState(prev => ({ ...prev, isLoading: true }));
@@ -99,6 +243,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
         response.permissions || [], 
         response.menu || []
       );
+      broadcastSession({ type: 'login' });
       
       // Sincronizar dados após registro bem-sucedido
       await syncUserData();
@@ -122,14 +267,73 @@ export function AuthProvider({ children }: AuthProviderProps) {
     }
   };
 
+  /**
+   * resetSession
+   * pt-BR: Limpa o estado de autenticação em memória (sem chamar a API).
+   * en-US: Clears the in-memory auth state (without calling the API).
+   */
+  const resetSession = useCallback(() => {
+    setState({ user: null, token: null, permissions: [], menu: [], isLoading: false, isAuthenticated: false });
+    setUserPointsBalance(null);
+    setIsLocked(false);
+    clearImpersonation();
+    setImpersonation(null);
+    setTwoFactorChallenge(null);
+    setTwoFactorSetupRequired(false);
+  }, []);
+
+  /**
+   * startImpersonation
+   * pt-BR: Entra no modo "ver como" (somente leitura) e recarrega as consultas em cache com a
+   *        nova identidade. Retorna a sessão ou `null` se a API recusar.
+   * en-US: Enters "view as" mode (read-only) and reloads cached queries under the new identity.
+   *        Returns the session or `null` if the API refuses.
+   */
+  const startImpersonation = async (userId: string, reason?: string): Promise<ImpersonationSession | null> => {
+    try {
+      const session = await impersonationService.start(userId, reason);
+      setImpersonation(session);
+      queryClient.resetQueries();
+      toast({
+        title: `Vendo como ${session.user.name}`,
+        description: 'Modo somente leitura. Use o aviso no topo da tela para sair.',
+      });
+      return session;
+    } catch (error) {
+      toast({
+        title: 'Não foi possível ver como este usuário',
+        description: error instanceof Error ? error.message : 'Erro desconhecido',
+        variant: 'destructive',
+      });
+      return null;
+    }
+  };
+
+  /**
+   * stopImpersonation
+   * pt-BR: Sai do modo "ver como" e volta ao usuário real, registrando o fim na auditoria.
+   * en-US: Leaves "view as" mode and returns to the real user, recording the end in the audit trail.
+   */
+  const stopImpersonation = async (): Promise<void> => {
+    if (!impersonation) return;
+    try {
+      await impersonationService.stop(impersonation.user.id);
+    } catch (error) {
+      console.error('Erro ao encerrar o modo "ver como":', error);
+    }
+    setImpersonation(null);
+    queryClient.resetQueries();
+  };
+
   const logout = async (): Promise<void> => {
     try {
+      await stopImpersonation();
       await authService.logout();
     } catch (error) {
       console.error('Erro no logout:', error);
     } finally {
-      updateAuthState(null, null, [], []);
-      setUserPointsBalance(null);
+      resetSession();
+      broadcastSession({ type: 'logout' });
       toast({
         title: "Logout realizado",
         description: "Você foi desconectado com sucesso.",
@@ -137,10 +341,18 @@ export function AuthProvider({ children }: AuthProviderProps) {
     }
   };
 
+  /**
+   * pt-BR: Referência ao `logout` atual, para que os listeners globais encerrem a impersonação vigente.
+   * en-US: Reference to the current `logout`, so global listeners stop the active impersonation.
+   */
+  const logoutRef = useRef(logout);
+  logoutRef.current = logout;
+
   const refreshUser = async (): Promise<void> => {
     try {
       const user = await authService.getCurrentUser();
       setState((prev) => ({ ...prev, user }));
+      broadcastSession({ type: 'profile', user });
     } catch (error) {
       const status = (error as any)?.status;
       console.error('Erro ao atualizar dados do usuário:', error);
@@ -172,6 +384,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
     try {
       const updatedUser = await authService.updateProfile(data);
       setState((prev) => ({ ...prev, user: updatedUser }));
+      broadcastSession({ type: 'profile', user: updatedUser });
       
       toast({
         title: "Perfil atualizado",
@@ -190,6 +403,77 @@ export function AuthProvider({ children }: AuthProviderProps) {
     }
   };
 
+  /**
+   * refreshPermissions
+   * pt-BR: Recarrega permissões e menu do usuário (ex.: após editar um grupo de permissões)
+   *        e propaga a mudança para as outras abas.
+   * en-US: Reloads the user's permissions and menu (e.g. after editing a permission group)
+   *        and propagates the change to the other tabs.
+   */
+  const refreshPermissions = async (): Promise<void> => {
+    try {
+      const [permissions, menu] = await Promise.all([
+        authService.getUserPermissions(),
+        authService.getUserMenu(),
+      ]);
+      authService.storeAccess(permissions || [], menu || []);
+      setState((prev) => ({ ...prev, permissions: permissions || [], menu: menu || [] }));
+      broadcastSession({ type: 'permissions', permissions: permissions || [], menu: menu || [] });
+    } catch (error) {
+      console.error('Erro ao atualizar permissões:', error);
+    }
+  };
+
+  /**
+   * lockSession
+   * pt-BR: Bloqueia a tela (inatividade) em todas as abas, mantendo a página e o que
+   *        estiver sendo editado por baixo da tela de bloqueio.
+   * en-US: Locks the screen (idle) in every tab, keeping the page and any in-progress
+   *        edits underneath the lock screen.
+   */
+  const lockSession = () => {
+    if (!state.isAuthenticated) return;
+    authService.setSessionLocked(true);
+    setIsLocked(true);
+    broadcastSession({ type: 'lock' });
+  };
+
+  /**
+   * unlockSession
+   * pt-BR: Confirma a senha do usuário atual (novo login com o mesmo e-mail) e desbloqueia.
+   *        Se a conta pedir 2FA, preenche `twoFactorChallenge` e o desbloqueio termina em `verifyTwoFactor`.
+   * en-US: Confirms the current user's password (re-login with the same email) and unlocks.
+   *        If the account asks for 2FA, sets `twoFactorChallenge` and unlocking finishes in `verifyTwoFactor`.
+   */
+  const unlockSession = async (password: string, captchaToken?: string): Promise<boolean> => {
+    const email = state.user?.email;
+    if (!email) return false;
+    try {
+      const response = await authService.login({ email, password, captcha_token: captchaToken });
+      setLoginThrottle(null);
+      // Dispositivo não confiável com 2FA: a tela de bloqueio passa a pedir o código do app
+      if (isTwoFactorChallenge(response)) {
+        setTwoFactorChallenge({ email, challenge_token: response.challenge_token });
+        return false;
+      }
+      updateAuthState(
+        response.user || state.user,
+        response.token,
+        response.permissions || state.permissions,
+        response.menu || state.menu
+      );
+      authService.setSessionLocked(false);
+      setIsLocked(false);
+      broadcastSession({ type: 'token', token: response.token });
+      broadcastSession({ type: 'unlock' });
+      return true;
+    } catch (error) {
+      setLoginThrottle(loginThrottleFromError(error, email));
+      console.warn('Falha ao desbloquear sessão:', error);
+      return false;
+    }
+  };
+
   const changePassword = async (passwordData: {
     current_password: string;
     new_password: string;
@@ -208,9 +492,13 @@ export function AuthProvider({ children }: AuthProviderProps) {
       // Tratamento específico para erros da API
       let errorMessage = "Erro ao alterar senha";
       
-      if (error?.status === 422 && error?.body?.error) {
+      const fieldError = error?.body?.errors?.new_password?.[0] || error?.body?.errors?.password?.[0];
+      if (error?.status === 422 && fieldError) {
+        // Senha nova recusada pela política (histórico, senha vazada...)
+        errorMessage = fieldError;
+      } else if (error?.status === 422 && (error?.body?.error || error?.body?.message)) {
         // Erro de validação da API (ex: senha atual incorreta)
-        errorMessage = error.body.error;
+        errorMessage = error.body.error || error.body.message;
       } else if (error?.status) {
         // Outros erros HTTP
         errorMessage = "Erro na requisição";
@@ -236,7 +524,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
    */
   useEffect(() => {
     const handleInvalidToken = () => {
-      logout();
+      logoutRef.current();
     };
     window.addEventListener('auth:invalid_token', handleInvalidToken as EventListener);
     return () => {
@@ -244,6 +532,77 @@ export function AuthProvider({ children }: AuthProviderProps) {
     };
   }, []);
 
+  /**
+   * Listener de token renovado
+   * pt-BR: Escuta `auth:token_refreshed` (renovação silenciosa) e atualiza o token em memória,
+   *        mantendo o usuário na página e sem perder o que está sendo editado.
+   * en-US: Listens for `auth:token_refreshed` (silent refresh) and updates the in-memory token,
+   *        keeping the user on the page without losing in-progress edits.
+   */
+  useEffect(() => {
+    const handleTokenRefreshed = (event: Event) => {
+      const token = (event as CustomEvent<{ token: string }>).detail?.token;
+      if (!token) return;
+      setState((prev) => ({ ...prev, token, isAuthenticated: !!prev.user }));
+      broadcastSession({ type: 'token', token });
+    };
+    window.addEventListener('auth:token_refreshed', handleTokenRefreshed);
+    return () => {
+      window.removeEventListener('auth:token_refreshed', handleTokenRefreshed);
+    };
+  }, []);
+
+  /**
+   * Sincronização entre abas
+   * pt-BR: Aplica login, logout, perfil, permissões, token e bloqueio vindos de outra aba.
+   *        O logout remoto só limpa o estado: a outra aba já encerrou a sessão na API.
+   * en-US: Applies login, logout, profile, permissions, token and lock coming from another tab.
+   *        A remote logout only clears state: the other tab already ended the API session.
+   */
+  useEffect(() => {
+    return subscribeSession((message) => {
+      switch (message.type) {
+        case 'login': {
+          const storedToken = authService.getStoredToken();
+          const storedUser = authService.getStoredUser();
+          if (storedToken && storedUser) {
+            updateAuthState(
+              storedUser,
+              storedToken,
+              authService.getStoredPermissions() || [],
+              authService.getStoredMenu() || []
+            );
+            setIsLocked(authService.isSessionLocked());
+            setTwoFactorSetupRequired(authService.isTwoFactorSetupRequired());
+          }
+          break;
+        }
+        case 'logout':
+          resetSession();
+          toast({
+            title: "Sessão encerrada",
+            description: "Você saiu da conta em outra aba.",
+          });
+          break;
+        case 'profile':
+          setState((prev) => ({ ...prev, user: message.user }));
+          break;
+        case 'permissions':
+          setState((prev) => ({ ...prev, permissions: message.permissions, menu: message.menu }));
+          break;
+        case 'token':
+          setState((prev) => ({ ...prev, token: message.token, isAuthenticated: !!prev.user }));
+          break;
+        case 'lock':
+          setIsLocked(true);
+          break;
+        case 'unlock':
+          setIsLocked(false);
+          break;
+      }
+    });
+  }, [resetSession]);
+
   /**
    * Listener de usuário inativo
    * pt-BR: Escuta o evento global `auth:inactive_user` e executa logout.
@@ -251,7 +610,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
    */
   useEffect(() => {
     const handleInactiveUser = () => {
-      logout();
+      logoutRef.current();
     };
     window.addEventListener('auth:inactive_user', handleInactiveUser as EventListener);
     return () => {
@@ -283,6 +642,8 @@ export function AuthProvider({ children }: AuthProviderProps) {
           console.warn('Falha ao validar sessão ao iniciar:', error);
           if (status === 401 || status === 419) {
             authService.clearStorage();
+            clearImpersonation();
+            setImpersonation(null);
             updateAuthState(null, null, [], []);
             setUserPointsBalance(null);
           } else {
@@ -300,14 +661,34 @@ export function AuthProvider({ children }: AuthProviderProps) {
 
   const value: AuthContextType = {
     ...state,
+    ...(impersonation && {
+      user: impersonation.user,
+      permissions: impersonation.permissions,
+      menu: impersonation.menu,
+    }),
     login,
+    verifyPasswordless,
     register,
     logout,
     refreshUser,
     syncUserData,
     updateProfile,
     changePassword,
-    userPointsBalance,
+    refreshPermissions,
+    isLocked,
+    lockSession,
+    unlockSession,
+    userPointsBalance: impersonation ? impersonation.points_balance : userPointsBalance,
+    isImpersonating: !!impersonation,
+    impersonator: impersonation ? state.user : null,
+    startImpersonation,
+    stopImpersonation,
+    twoFactorChallenge,
+    loginThrottle,
+    verifyTwoFactor,
+    cancelTwoFactor,
+    twoFactorSetupRequired,
+    completeTwoFactorSetup,
   };
 
   return (
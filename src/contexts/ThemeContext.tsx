@@ -1,7 +1,21 @@
-import React, { createContext, useContext, useEffect, ReactNode } from 'react';
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState, ReactNode } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { brandingService } from '@/services/brandingService';
+import { DEFAULT_BRANDING, applyBranding, cacheBranding, readCachedBranding } from '@/lib/branding';
+import { getTenantId } from '@/lib/tenant';
+import type { TenantBranding } from '@/types/branding';
 
 interface ThemeContextType {
   applyThemeSettings: () => void;
+  /** Branding efetivo (API + prévia) / Effective branding (API + preview) */
+  branding: TenantBranding;
+  isBrandingLoading: boolean;
+  /**
+   * pt-BR: Aplica alterações sem salvar (prévia ao vivo); `null` descarta a prévia.
+   * en-US: Applies changes without saving (live preview); `null` discards the preview.
+   */
+  previewBranding: (changes: Partial<TenantBranding> | null) => void;
+  refreshBranding: () => Promise<void>;
 }
 
 const ThemeContext = createContext<ThemeContextType | undefined>(undefined);
@@ -18,49 +32,48 @@ interface ThemeProviderProps {
   children: ReactNode;
 }
 
+const isDarkModeSaved = (): boolean => {
+  try {
+    return Boolean(JSON.parse(localStorage.getItem('appearanceSettings') || '{}').darkMode);
+  } catch {
+    return false;
+  }
+};
+
 /**
  * Provider que aplica as configurações de aparência globalmente no sistema
  * Carrega as configurações do localStorage e aplica no documento
+ * pt-BR: Também carrega o branding do tenant na inicialização (logo, favicon, cores, fonte e
+ *        nome da loja) e o aplica como variáveis CSS; a última versão fica em cache local.
+ * en-US: Also loads the tenant branding at boot (logo, favicon, colors, font and store name)
+ *        and applies it as CSS variables; the last version is cached locally.
  */
 export const ThemeProvider: React.FC<ThemeProviderProps> = ({ children }) => {
-  
-  /**
-   * Converte cor hex para valores HSL
-   */
-  const hexToHsl = (hex: string): string => {
-    // Remove o # se presente
-    hex = hex.replace('#', '');
-    
-    // Converte hex para RGB
-    const r = parseInt(hex.substr(0, 2), 16) / 255;
-    const g = parseInt(hex.substr(2, 2), 16) / 255;
-    const b = parseInt(hex.substr(4, 2), 16) / 255;
-    
-    const max = Math.max(r, g, b);
-    const min = Math.min(r, g, b);
-    let h = 0;
-    let s = 0;
-    const l = (max + min) / 2;
-    
-    if (max !== min) {
-      const d = max - min;
-      s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
-      
-      switch (max) {
-        case r: h = (g - b) / d + (g < b ? 6 : 0); break;
-        case g: h = (b - r) / d + 2; break;
-        case b: h = (r - g) / d + 4; break;
-      }
-      h /= 6;
-    }
-    
-    // Converte para valores HSL em porcentagem/graus
-    const hDeg = Math.round(h * 360);
-    const sPercent = Math.round(s * 100);
-    const lPercent = Math.round(l * 100);
-    
-    return `${hDeg} ${sPercent}% ${lPercent}%`;
-  };
+  const [preview, setPreview] = useState<Partial<TenantBranding> | null>(null);
+  const brandingQuery = useQuery({
+    queryKey: ['tenant-branding', getTenantId()],
+    queryFn: () => brandingService.getBranding(),
+    placeholderData: () => readCachedBranding() ?? DEFAULT_BRANDING,
+    staleTime: 30 * 60 * 1000,
+    retry: false,
+    refetchOnWindowFocus: false,
+  });
+  const loadedBranding = brandingQuery.isPlaceholderData ? undefined : brandingQuery.data;
+
+  const branding = useMemo<TenantBranding>(
+    () => ({ ...(brandingQuery.data ?? DEFAULT_BRANDING), ...(preview ?? {}) }),
+    [brandingQuery.data, preview]
+  );
+  const brandingRef = useRef(branding);
+  brandingRef.current = branding;
+
+  useEffect(() => {
+    if (loadedBranding) cacheBranding(loadedBranding);
+  }, [loadedBranding]);
+
+  useEffect(() => {
+    applyBranding(branding, { darkMode: isDarkModeSaved() });
+  }, [branding]);
   
   /**
    * Aplica as configurações de aparência salvas no localStorage
@@ -80,28 +93,8 @@ export const ThemeProvider: React.FC<ThemeProviderProps> = ({ children }) => {
           document.documentElement.classList.remove('dark');
         }
         
-        // Aplica cor primária personalizada APENAS quando NÃO estiver no modo escuro
-        if (appearanceSettings.primaryColor && !isDarkMode) {
-          const hslColor = hexToHsl(appearanceSettings.primaryColor);
-          document.documentElement.style.setProperty('--primary', hslColor);
-          // console.log(`Cor primária aplicada (modo claro): ${hslColor}`);
-        } else if (isDarkMode) {
-          // Remove a cor primária personalizada no modo escuro para usar a padrão
-          document.documentElement.style.removeProperty('--primary');
-          // console.log('Cor primária personalizada removida (modo escuro ativo)');
-        }
-        
-        // Aplica cor secundária personalizada
-        if (appearanceSettings.secondaryColor) {
-          const hslSecondary = hexToHsl(appearanceSettings.secondaryColor);
-          document.documentElement.style.setProperty('--secondary', hslSecondary);
-        }
-        
-        // Aplica cor de destaque personalizada
-        if (appearanceSettings.accentColor) {
-          const hslAccent = hexToHsl(appearanceSettings.accentColor);
-          document.documentElement.style.setProperty('--accent', hslAccent);
-        }
+        // Cores vêm do branding do tenant; a cor primária depende do modo escuro
+        applyBranding(brandingRef.current, { darkMode: isDarkMode });
         
         // Aplica configurações de sidebar
         if (appearanceSettings.sidebarCollapsed !== undefined) {
@@ -154,8 +147,21 @@ export const ThemeProvider: React.FC<ThemeProviderProps> = ({ children }) => {
     };
   }, []);
   
+  const previewBranding = useCallback((changes: Partial<TenantBranding> | null) => {
+    setPreview(changes);
+  }, []);
+
+  const { refetch } = brandingQuery;
+  const refreshBranding = useCallback(async () => {
+    await refetch();
+  }, [refetch]);
+
   const value = {
-    applyThemeSettings
+    applyThemeSettings,
+    branding,
+    isBrandingLoading: brandingQuery.isLoading,
+    previewBranding,
+    refreshBranding,
   };
   
   return (
@@ -1,13 +1,36 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState, ReactNode } from 'react';
+import { useQuery } from '@tanstack/react-query';
 import { useAuth } from '@/contexts/AuthContext';
+import { useTheme } from '@/contexts/ThemeContext';
+import { userPreferencesService } from '@/services/userPreferencesService';
+import {
+  UserPreferencesCache,
+  mergePreferenceEntries,
+  preferencesCacheKey,
+  readPreferencesCache,
+  writePreferencesCache,
+} from '@/lib/userPreferences';
+import type { ThemePreference } from '@/types/userPreferences';
 
 interface UserPrefs {
   sidebarOpen: boolean;
+  /** Tema escolhido; sem valor, segue a configuração local / Chosen theme; unset follows the local setting */
+  theme?: ThemePreference;
+  /** Modo compacto (tabelas mais densas) / Dense mode (tighter tables) */
+  denseMode?: boolean;
 }
 
 interface UserPrefsContextType {
   prefs: UserPrefs;
   setPref: <K extends keyof UserPrefs>(key: K, value: UserPrefs[K]) => void;
+  /**
+   * Preferências por chave livre (ex.: `table:clients`, `filters:clients`, `funnel:atendimento`)
+   * / Free-key preferences (e.g. `table:clients`, `filters:clients`, `funnel:atendimento`)
+   */
+  getPreference: <T>(key: string, fallback: T) => T;
+  setPreference: (key: string, value: unknown) => void;
+  /** Alterações ainda não salvas na API / Changes not saved in the API yet */
+  hasPendingChanges: boolean;
 }
 
 const UserPrefsContext = createContext<UserPrefsContextType | undefined>(undefined);
@@ -20,75 +43,173 @@ const DEFAULT_PREFS: UserPrefs = {
   sidebarOpen: true,
 };
 
+// Agrupa alterações seguidas (ex.: várias colunas) em um único envio
+const SYNC_DELAY = 800;
+
+const EMPTY_CACHE: UserPreferencesCache = { entries: {}, pending: [] };
+
+/**
+ * readSidebarCookie
+ * pt-BR: Estado da sidebar salvo pelo componente de UI, usado quando ainda não há cache.
+ * en-US: Sidebar state saved by the UI component, used when there is no cache yet.
+ */
+function readSidebarCookie(): UserPreferencesCache {
+  const sidebarCookie = document.cookie
+    .split('; ')
+    .find(row => row.startsWith('sidebar:state='));
+  if (!sidebarCookie) return EMPTY_CACHE;
+  return {
+    entries: { sidebarOpen: { value: sidebarCookie.split('=')[1] === 'true', updated_at: new Date(0).toISOString() } },
+    pending: [],
+  };
+}
+
 /**
  * UserPrefsProvider
- * pt-BR: Gerencia preferências do usuário (ex.: estado da sidebar) e persiste em localStorage.
- * en-US: Manages user preferences (e.g., sidebar state) and persists to localStorage.
+ * pt-BR: Preferências do usuário (sidebar, tema, modo compacto, colunas e tamanho de página das
+ *        tabelas, funil escolhido, filtros salvos). Abre com o cache local, mescla com a API por
+ *        chave (vence a gravação mais recente) e envia as alterações em lote. No modo "ver como"
+ *        as alterações ficam só na memória.
+ * en-US: User preferences (sidebar, theme, dense mode, table columns and page size, chosen
+ *        funnel, saved filters). Starts from the local cache, merges with the API per key (the
+ *        most recent write wins) and sends changes in batches. In "view as" mode changes stay
+ *        in memory only.
  */
 export function UserPrefsProvider({ children }: UserPrefsProviderProps) {
-  const { user } = useAuth();
-  const [prefs, setPrefs] = useState<UserPrefs>(DEFAULT_PREFS);
+  const { user, isAuthenticated, isImpersonating } = useAuth();
+  const { applyThemeSettings } = useTheme();
+  const cacheKey = preferencesCacheKey(user?.id);
+  const canSync = isAuthenticated && !!user && !isImpersonating;
+  const [cache, setCache] = useState<UserPreferencesCache>(EMPTY_CACHE);
+  const cacheRef = useRef(cache);
+  const flushTimer = useRef<number>();
 
-  // Get storage key based on user ID or anonymous
-  const getStorageKey = () => {
-    return user?.id ? `prefs:${user.id}` : 'prefs:anon';
-  };
+  const commit = useCallback((next: UserPreferencesCache) => {
+    cacheRef.current = next;
+    setCache(next);
+    if (!isImpersonating) writePreferencesCache(cacheKey, next);
+  }, [cacheKey, isImpersonating]);
 
-  // Load preferences from localStorage
-  const loadPrefs = () => {
-    try {
-      const storageKey = getStorageKey();
-      const stored = localStorage.getItem(storageKey);
-      
-      if (stored) {
-        const parsedPrefs = JSON.parse(stored);
-        setPrefs({ ...DEFAULT_PREFS, ...parsedPrefs });
-      } else {
-        // Try to read from existing sidebar cookie as fallback
-        const sidebarCookie = document.cookie
-          .split('; ')
-          .find(row => row.startsWith('sidebar:state='));
-        
-        if (sidebarCookie) {
-          const cookieValue = sidebarCookie.split('=')[1];
-          const sidebarOpen = cookieValue === 'true';
-          setPrefs({ ...DEFAULT_PREFS, sidebarOpen });
-          // Save to localStorage for future use
-          localStorage.setItem(storageKey, JSON.stringify({ ...DEFAULT_PREFS, sidebarOpen }));
-        } else {
-          setPrefs(DEFAULT_PREFS);
-        }
+  // Carrega o cache quando o usuário muda / Loads the cache when the user changes
+  useEffect(() => {
+    const cached = readPreferencesCache(cacheKey) ?? readSidebarCookie();
+    cacheRef.current = cached;
+    setCache(cached);
+  }, [cacheKey]);
+
+  // Outras abas do mesmo navegador / Other tabs of the same browser
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key !== cacheKey) return;
+      const cached = readPreferencesCache(cacheKey);
+      if (cached) {
+        cacheRef.current = cached;
+        setCache(cached);
       }
-    } catch (error) {
-      console.warn('Failed to load user preferences:', error);
-      setPrefs(DEFAULT_PREFS);
-    }
-  };
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, [cacheKey]);
 
-  // Save preferences to localStorage
-  const savePrefs = (newPrefs: UserPrefs) => {
+  const flush = useCallback(async () => {
+    const { entries, pending } = cacheRef.current;
+    if (!canSync || pending.length === 0) return;
+    const changes = Object.fromEntries(pending.filter((key) => entries[key]).map((key) => [key, entries[key]]));
     try {
-      const storageKey = getStorageKey();
-      localStorage.setItem(storageKey, JSON.stringify(newPrefs));
+      const saved = await userPreferencesService.savePreferences(changes);
+      const current = cacheRef.current;
+      // Chaves alteradas durante o envio continuam pendentes / Keys changed while sending stay pending
+      commit({
+        entries: mergePreferenceEntries(current.entries, saved).entries,
+        pending: current.pending.filter((key) => current.entries[key]?.updated_at !== changes[key]?.updated_at),
+      });
     } catch (error) {
-      console.warn('Failed to save user preferences:', error);
+      // Fica pendente e sobe na próxima alteração ou carga / Stays pending and goes up on the next change or load
+      console.warn('Failed to sync user preferences:', error);
     }
-  };
+  }, [canSync, commit]);
 
-  // Set individual preference
-  const setPref = <K extends keyof UserPrefs>(key: K, value: UserPrefs[K]) => {
-    const newPrefs = { ...prefs, [key]: value };
-    setPrefs(newPrefs);
-    savePrefs(newPrefs);
-  };
+  const scheduleFlush = useCallback(() => {
+    window.clearTimeout(flushTimer.current);
+    flushTimer.current = window.setTimeout(flush, SYNC_DELAY);
+  }, [flush]);
+
+  useEffect(() => () => window.clearTimeout(flushTimer.current), []);
+
+  const { data: remoteEntries } = useQuery({
+    queryKey: ['user-preferences', user?.id],
+    queryFn: () => userPreferencesService.getPreferences(),
+    enabled: canSync,
+    staleTime: 5 * 60 * 1000,
+    retry: false,
+  });
 
-  // Load preferences when component mounts or user changes
   useEffect(() => {
-    loadPrefs();
-  }, [user?.id]);
+    if (!remoteEntries) return;
+    const current = cacheRef.current;
+    const { entries, localWins } = mergePreferenceEntries(current.entries, remoteEntries);
+    const pending = Array.from(new Set([...current.pending, ...localWins]));
+    commit({ entries, pending });
+    if (pending.length) scheduleFlush();
+  }, [remoteEntries, commit, scheduleFlush]);
+
+  const getPreference = useCallback(<T,>(key: string, fallback: T): T => {
+    const entry = cache.entries[key];
+    return entry === undefined ? fallback : (entry.value as T);
+  }, [cache]);
+
+  const setPreference = useCallback((key: string, value: unknown) => {
+    const current = cacheRef.current;
+    commit({
+      entries: { ...current.entries, [key]: { value, updated_at: new Date().toISOString() } },
+      pending: current.pending.includes(key) ? current.pending : [...current.pending, key],
+    });
+    scheduleFlush();
+  }, [commit, scheduleFlush]);
+
+  const setPref = useCallback(<K extends keyof UserPrefs>(key: K, value: UserPrefs[K]) => {
+    setPreference(key, value);
+  }, [setPreference]);
+
+  const prefs = useMemo<UserPrefs>(() => ({
+    sidebarOpen: getPreference('sidebarOpen', DEFAULT_PREFS.sidebarOpen),
+    theme: getPreference<ThemePreference | undefined>('theme', undefined),
+    denseMode: getPreference<boolean | undefined>('denseMode', undefined),
+  }), [getPreference]);
+
+  /**
+   * Tema e modo compacto
+   * pt-BR: Espelhados em `appearanceSettings`, que o ThemeProvider e as Configurações já leem.
+   * en-US: Mirrored into `appearanceSettings`, which ThemeProvider and Settings already read.
+   */
+  useEffect(() => {
+    if (prefs.theme === undefined && prefs.denseMode === undefined) return;
+    try {
+      const saved = JSON.parse(localStorage.getItem('appearanceSettings') || '{}');
+      localStorage.setItem('appearanceSettings', JSON.stringify({
+        ...saved,
+        ...(prefs.theme !== undefined && { darkMode: prefs.theme === 'dark' }),
+        ...(prefs.denseMode !== undefined && { compactMode: prefs.denseMode }),
+      }));
+    } catch (error) {
+      console.warn('Failed to apply user preferences:', error);
+    }
+    if (prefs.denseMode !== undefined) {
+      document.body.classList.toggle('compact-mode', prefs.denseMode);
+    }
+    applyThemeSettings();
+  }, [prefs.theme, prefs.denseMode, applyThemeSettings]);
+
+  const value = useMemo(() => ({
+    prefs,
+    setPref,
+    getPreference,
+    setPreference,
+    hasPendingChanges: cache.pending.length > 0,
+  }), [prefs, setPref, getPreference, setPreference, cache.pending.length]);
 
   return (
-    <UserPrefsContext.Provider value={{ prefs, setPref }}>
+    <UserPrefsContext.Provider value={value}>
       {children}
     </UserPrefsContext.Provider>
   );
@@ -100,4 +221,4 @@ export function useUserPrefs() {
     throw new Error('useUserPrefs must be used within a UserPrefsProvider');
   }
   return context;
-}
\ No newline at end of file
+}
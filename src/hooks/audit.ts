@@ -0,0 +1,33 @@
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import { auditService } from '@/services/auditService';
+import type { AuditLogParams } from '@/types/audit';
+
+const AUDIT_QUERY_KEY = 'audit-logs';
+
+/**
+ * useAuditLogs
+ * pt-BR: Listagem filtrável da auditoria (tela de Configurações › Auditoria).
+ * en-US: Filterable audit listing (Settings › Audit screen).
+ */
+export function useAuditLogs(params: AuditLogParams) {
+  return useQuery({
+    queryKey: [AUDIT_QUERY_KEY, 'list', params],
+    queryFn: () => auditService.list(params),
+    placeholderData: keepPreviousData,
+    refetchOnWindowFocus: false,
+  });
+}
+
+/**
+ * useRecordHistory
+ * pt-BR: Histórico de um registro; recarrega ao voltar para a tela para mostrar edições recentes.
+ * en-US: History of one record; refetches when returning to the screen to show recent edits.
+ */
+export function useRecordHistory(subjectType: string, subjectId?: string | number) {
+  return useQuery({
+    queryKey: [AUDIT_QUERY_KEY, 'record', subjectType, String(subjectId ?? '')],
+    queryFn: () => auditService.forRecord(subjectType, subjectId!),
+    enabled: !!subjectId,
+    staleTime: 0,
+  });
+}
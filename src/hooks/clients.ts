@@ -1,8 +1,17 @@
-import { ClientRecord, CreateClientInput, UpdateClientInput, ClientsListParams } from '@/types/clients';
+import { ClientRecord, CreateClientInput, UpdateClientInput, ClientsListParams, ClientDuplicateCheckInput, ClientMergeInput, ClientImportRow, ClientSegmentInput, ClientBulkAction } from '@/types/clients';
 import { clientsService } from '@/services/clientsService';
+import * as attendanceLogsService from '@/services/attendanceLogsService';
+import { clientSegmentsService } from '@/services/clientSegmentsService';
+import { funnelsService } from '@/services/funnelsService';
+import { coursesService } from '@/services/coursesService';
+import { usersService } from '@/services/usersService';
+import { getBrazilianStates } from '@/lib/qlib';
+import { CLIENT_STATUS_LABELS } from '@/lib/clientExport';
+import type { ClientSegmentOptions } from '@/lib/clientSegments';
 import { useGenericApi } from './useGenericApi';
-import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { toast } from 'sonner';
+import { settleInBatches } from '@/lib/batches';
 
 /**
  * Função para obter os hooks de clientes
@@ -75,4 +84,299 @@ export function useRestoreClient(mutationOptions?: any) {
     },
     ...mutationOptions,
   });
-}
\ No newline at end of file
+}
+
+/**
+ * useClientDuplicateCheck
+ * pt-BR: Busca clientes parecidos antes de criar um novo. Quem chama decide o que fazer se a
+ *        checagem falhar (normalmente, seguir com o cadastro).
+ * en-US: Looks up similar clients before creating a new one. The caller decides what to do if
+ *        the check fails (usually, go on with the creation).
+ */
+export function useClientDuplicateCheck() {
+  return useMutation({
+    mutationFn: (input: ClientDuplicateCheckInput) => clientsService.checkDuplicates(input),
+  });
+}
+
+/**
+ * useClientDuplicateGroups
+ * pt-BR: Fila de revisão com os grupos de clientes que parecem ser a mesma pessoa.
+ * en-US: Review queue with the groups of clients that look like the same person.
+ */
+export function useClientDuplicateGroups(queryOptions?: { enabled?: boolean }) {
+  return useQuery({
+    queryKey: ['clients', 'duplicates'],
+    queryFn: () => clientsService.listDuplicateGroups(),
+    staleTime: 60 * 1000,
+    ...queryOptions,
+  });
+}
+
+/**
+ * useMergeClients
+ * pt-BR: Mescla clientes duplicados e atualiza os caches dos vínculos movidos. O histórico de
+ *        atendimentos guardado no navegador também passa para o cliente mantido.
+ * en-US: Merges duplicate clients and refreshes the caches of the moved links. The attendance
+ *        history kept in the browser also moves to the kept client.
+ */
+export function useMergeClients() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: ClientMergeInput) => clientsService.mergeClients(input),
+    onSuccess: (result, input) => {
+      attendanceLogsService.reassignClient(input.source_ids, input.target_id);
+      ['clients', 'enrollments', 'aircraft', 'service-orders', 'points-extracts'].forEach((key) =>
+        queryClient.invalidateQueries({ queryKey: [key] })
+      );
+      toast.success(`${result.merged_ids.length + 1} cadastros mesclados em ${result.client.name}.`);
+    },
+    onError: (error: Error) => {
+      toast.error(`Erro ao mesclar clientes: ${error.message}`);
+    },
+  });
+}
+
+/**
+ * useImportClients
+ * pt-BR: Cria, via `clientsService.createClient`, as linhas aprovadas na prévia da importação,
+ *        em lotes; recusas da API voltam por linha sem desfazer as já criadas.
+ * en-US: Creates, through `clientsService.createClient`, the rows approved in the import dry
+ *        run, in batches; API refusals come back per line without undoing the created ones.
+ */
+export function useImportClients(onProgress?: (done: number) => void) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (rows: ClientImportRow[]) =>
+      settleInBatches(
+        rows.filter((row) => row.payload),
+        (row) => ({ id: String(row.line), label: row.email }),
+        (row) => clientsService.createClient(row.payload as CreateClientInput),
+        onProgress
+      ),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['clients'] });
+    },
+  });
+}
+
+// Página usada ao exportar (a API limita `per_page`) / Page size used when exporting (the API caps `per_page`)
+const EXPORT_PAGE_SIZE = 100;
+
+export interface ClientExportQuery {
+  params: Omit<ClientsListParams, 'page' | 'per_page'>;
+  /** Filtro de status aplicado no navegador, como na lista / Status filter applied in the browser, as in the list */
+  status?: ClientRecord['status'];
+  signal?: AbortSignal;
+}
+
+/**
+ * fetchAllClients
+ * pt-BR: Percorre todas as páginas de `/clients` com os filtros da lista (não só as linhas
+ *        carregadas na tela) e devolve os registros; `onProgress` recebe lidos/total e o
+ *        `signal` cancela entre uma página e outra.
+ * en-US: Walks every `/clients` page with the list filters (not only the rows loaded on
+ *        screen) and returns the records; `onProgress` receives loaded/total and `signal`
+ *        cancels between pages.
+ */
+async function fetchAllClients(
+  { params, status, signal }: ClientExportQuery,
+  onProgress?: (loaded: number, total: number) => void
+): Promise<ClientRecord[]> {
+  const clients: ClientRecord[] = [];
+  let page = 1;
+  let lastPage = 1;
+  do {
+    const response = await clientsService.listClients({ ...params, page, per_page: EXPORT_PAGE_SIZE }, { signal });
+    clients.push(...response.data);
+    lastPage = response.last_page || 1;
+    onProgress?.(clients.length, Math.max(response.total || 0, clients.length));
+    page += 1;
+  } while (page <= lastPage && !signal?.aborted);
+  if (signal?.aborted) throw new DOMException('Leitura cancelada.', 'AbortError');
+  return status ? clients.filter((client) => client.status === status) : clients;
+}
+
+/**
+ * useExportClients
+ * pt-BR: Carrega todos os clientes do filtro para a exportação (ver `fetchAllClients`).
+ * en-US: Loads every client in the filter for the export (see `fetchAllClients`).
+ */
+export function useExportClients(onProgress?: (loaded: number, total: number) => void) {
+  return useMutation({
+    mutationFn: (query: ClientExportQuery) => fetchAllClients(query, onProgress),
+  });
+}
+
+/**
+ * useSelectAllClients
+ * pt-BR: Carrega todos os clientes do filtro para selecioná-los nas ações em lote.
+ * en-US: Loads every client in the filter to select them for bulk actions.
+ */
+export function useSelectAllClients() {
+  return useMutation({
+    mutationFn: (query: ClientExportQuery) => fetchAllClients(query),
+  });
+}
+
+/**
+ * mergeClientTags
+ * pt-BR: Acrescenta e remove etiquetas sem diferenciar maiúsculas e acentos; as demais ficam.
+ * en-US: Adds and removes tags ignoring case and accents; the others are kept.
+ */
+function mergeClientTags(current: string[] | null | undefined, add: string[], remove: string[]): string[] {
+  const key = (tag: string) => tag.trim().toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+  const removed = new Set(remove.map(key));
+  const tags = (current ?? []).filter((tag) => !removed.has(key(tag)));
+  add.forEach((tag) => {
+    if (tag.trim() && !tags.some((existing) => key(existing) === key(tag))) tags.push(tag.trim());
+  });
+  return tags;
+}
+
+async function runClientBulkAction(client: ClientRecord, action: ClientBulkAction): Promise<unknown> {
+  switch (action.type) {
+    case 'status':
+      return clientsService.updateClient(client.id, { status: action.status });
+    case 'funnel': {
+      // O `config` é gravado inteiro: parte do registro atual, não da lista já carregada
+      // `config` is written as a whole: start from the current record, not the loaded list
+      const current = await clientsService.getClient(client.id);
+      return clientsService.updateClient(client.id, {
+        config: { ...current.config, funnelId: action.funnelId, stage_id: action.stage_id },
+      });
+    }
+    case 'autor':
+      return clientsService.updateClient(client.id, { autor: action.autor });
+    case 'tags': {
+      const current = await clientsService.getClient(client.id);
+      return clientsService.updateClient(client.id, { tags: mergeClientTags(current.tags, action.add, action.remove) });
+    }
+    case 'delete': {
+      const response = await clientsService.deleteClient(client.id);
+      if (response && response.exec === false) throw new Error(response.message || 'Não foi possível excluir o cliente.');
+      return response;
+    }
+    case 'restore':
+      return clientsService.restoreClient(client.id);
+  }
+}
+
+/**
+ * useBulkClientAction
+ * pt-BR: Troca status, funil/etapa, consultor ou etiquetas, exclui ou restaura vários clientes
+ *        em lotes; `onProgress` recebe quantos já foram processados e as falhas voltam por
+ *        cliente sem desfazer os demais.
+ * en-US: Changes status, funnel/stage, consultant or tags, deletes or restores several clients
+ *        in batches; `onProgress` receives how many were processed and failures come back per
+ *        client without undoing the others.
+ */
+export function useBulkClientAction(onProgress?: (done: number) => void) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ clients, action }: { clients: ClientRecord[]; action: ClientBulkAction }) =>
+      settleInBatches(
+        clients,
+        (client) => ({ id: client.id, label: client.name || client.email }),
+        (client) => runClientBulkAction(client, action),
+        onProgress
+      ),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['clients'] });
+    },
+  });
+}
+
+const CLIENT_SEGMENTS_QUERY_KEY = ['clients', 'segments'];
+
+/**
+ * useClientSegments
+ * pt-BR: Segmentos salvos, para a lista, a exportação e as ações em lote.
+ * en-US: Saved segments, for the list, the export and bulk actions.
+ */
+export function useClientSegments() {
+  return useQuery({
+    queryKey: CLIENT_SEGMENTS_QUERY_KEY,
+    queryFn: () => clientSegmentsService.listSegments(),
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+/**
+ * useSaveClientSegment
+ * pt-BR: Cria o segmento ou, com `id`, atualiza o existente.
+ * en-US: Creates the segment or, with `id`, updates the existing one.
+ */
+export function useSaveClientSegment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, ...input }: ClientSegmentInput & { id?: string }) =>
+      id ? clientSegmentsService.updateSegment(id, input) : clientSegmentsService.createSegment(input),
+    onSuccess: (segment) => {
+      queryClient.invalidateQueries({ queryKey: CLIENT_SEGMENTS_QUERY_KEY });
+      toast.success(`Segmento "${segment.name}" salvo.`);
+    },
+    onError: (error: Error) => {
+      toast.error(`Erro ao salvar segmento: ${error.message}`);
+    },
+  });
+}
+
+/**
+ * useDeleteClientSegment
+ * pt-BR: Exclui um segmento salvo.
+ * en-US: Deletes a saved segment.
+ */
+export function useDeleteClientSegment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => clientSegmentsService.deleteSegment(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: CLIENT_SEGMENTS_QUERY_KEY });
+      toast.success('Segmento excluído.');
+    },
+    onError: (error: Error) => {
+      toast.error(`Erro ao excluir segmento: ${error.message}`);
+    },
+  });
+}
+
+/**
+ * useClientSegmentOptions
+ * pt-BR: Opções dos campos de seleção do construtor de segmentos (UF, funis, etapas,
+ *        consultores, status e cursos), carregadas uma vez e reaproveitadas nas descrições.
+ * en-US: Options of the segment builder select fields (UF, funnels, stages, consultants,
+ *        status and courses), loaded once and reused in the descriptions.
+ */
+export function useClientSegmentOptions(enabled = true) {
+  return useQuery({
+    queryKey: ['clients', 'segment-options'],
+    enabled,
+    staleTime: 10 * 60 * 1000,
+    queryFn: async (): Promise<ClientSegmentOptions> => {
+      const [funnels, courses, consultants] = await Promise.all([
+        funnelsService.listFunnels({ per_page: 100 }),
+        coursesService.listCourses({ page: 1, per_page: 200 }),
+        usersService.listUsers({ consultores: true, per_page: 100, sort: 'name' }),
+      ]);
+      const stages = await Promise.all(funnels.data.map((funnel) => funnelsService.listStages(funnel.id, { per_page: 100 })));
+      const funnelName = new Map(funnels.data.map((funnel) => [String(funnel.id), funnel.name]));
+      return {
+        uf: getBrazilianStates().map((state) => ({ value: state.value, label: state.value })),
+        funnel: funnels.data.map((funnel) => ({ value: String(funnel.id), label: funnel.name })),
+        stage: stages.flatMap((page) => page.data).map((stage) => ({
+          value: String(stage.id),
+          label: `${funnelName.get(String(stage.funnel_id)) ?? 'Funil'} › ${stage.name}`,
+        })),
+        autor: consultants.data.map((user) => ({ value: String(user.id), label: user.name })),
+        status: Object.entries(CLIENT_STATUS_LABELS).map(([value, label]) => ({ value, label })),
+        course: courses.data.map((course) => ({ value: String(course.id), label: course.titulo || course.nome || `Curso #${course.id}` })),
+      };
+    },
+  });
+}
@@ -71,7 +71,7 @@ export function useStagesList(funnelId: string, params?: StageListParams, queryO
     enabled: !!funnelId,
     ...queryOptions,
   };
-  return useQuery({
+  return useQuery<PaginatedResponse<StageRecord>>({
     queryKey: ['funnels', funnelId, 'stages', params || {}],
     queryFn: () => funnelsService.listStages(funnelId, params),
     ...safeQueryOptions,
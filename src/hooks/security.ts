@@ -0,0 +1,73 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { securityPolicyService } from '@/services/securityPolicyService';
+import { DEFAULT_SECURITY_POLICY } from '@/lib/passwordPolicy';
+import { toast } from '@/hooks/use-toast';
+import type { PasswordPolicy, SecurityPolicy } from '@/types/security';
+
+const SECURITY_POLICY_QUERY_KEY = ['security-policy'];
+
+/**
+ * useSecurityPolicy
+ * pt-BR: Política de senhas e de login; muda raramente, então fica em cache por 10 minutos.
+ * en-US: Password and login policy; it rarely changes, so it stays cached for 10 minutes.
+ */
+export function useSecurityPolicy() {
+  return useQuery({
+    queryKey: SECURITY_POLICY_QUERY_KEY,
+    queryFn: () => securityPolicyService.getPolicy(),
+    staleTime: 10 * 60 * 1000,
+    retry: false,
+  });
+}
+
+/**
+ * usePasswordPolicy
+ * pt-BR: Só a política de senhas, com os valores padrão enquanto carrega ou se a API falhar.
+ * en-US: Password policy only, with the defaults while loading or if the API fails.
+ */
+export function usePasswordPolicy(): PasswordPolicy {
+  const { data } = useSecurityPolicy();
+  return data?.password ?? DEFAULT_SECURITY_POLICY.password;
+}
+
+export function useSaveSecurityPolicy() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (policy: SecurityPolicy) => securityPolicyService.savePolicy(policy),
+    onSuccess: (policy) => {
+      queryClient.setQueryData(SECURITY_POLICY_QUERY_KEY, policy);
+      toast({ title: 'Política de segurança salva' });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Erro ao salvar a política de segurança',
+        description: error.message || 'Erro desconhecido',
+        variant: 'destructive',
+      });
+    },
+  });
+}
+
+/**
+ * useRetryCountdown
+ * pt-BR: Segundos restantes até `retryAt` (ms), atualizados a cada segundo; 0 quando liberado.
+ * en-US: Seconds left until `retryAt` (ms), updated every second; 0 once allowed.
+ */
+export function useRetryCountdown(retryAt?: number): number {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    setNow(Date.now());
+    if (!retryAt || retryAt <= Date.now()) return;
+    const timer = window.setInterval(() => {
+      const current = Date.now();
+      setNow(current);
+      if (current >= retryAt) window.clearInterval(timer);
+    }, 1000);
+    return () => window.clearInterval(timer);
+  }, [retryAt]);
+
+  return retryAt ? Math.max(0, Math.ceil((retryAt - now) / 1000)) : 0;
+}
@@ -0,0 +1,65 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { sessionsService } from '@/services/sessionsService';
+import { toast } from '@/hooks/use-toast';
+
+const SESSIONS_QUERY_KEY = 'sessions';
+
+/**
+ * useUserSessions
+ * pt-BR: Sessões do usuário logado ou, com `userId`, de outro usuário (administração).
+ * en-US: Sessions of the logged-in user or, with `userId`, of another user (administration).
+ */
+export function useUserSessions(userId?: string, enabled = true) {
+  return useQuery({
+    queryKey: [SESSIONS_QUERY_KEY, userId ?? 'me'],
+    queryFn: () => (userId ? sessionsService.listForUser(userId) : sessionsService.listMine()),
+    enabled,
+    refetchOnWindowFocus: false,
+  });
+}
+
+function useSessionsMutation<TVariables>(
+  userId: string | undefined,
+  mutationFn: (variables: TVariables) => Promise<void>,
+  successTitle: string
+) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [SESSIONS_QUERY_KEY, userId ?? 'me'] });
+      toast({ title: successTitle });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Erro ao encerrar sessão',
+        description: error.message || 'Erro desconhecido',
+        variant: 'destructive',
+      });
+    },
+  });
+}
+
+export function useRevokeSession(userId?: string) {
+  return useSessionsMutation(
+    userId,
+    (sessionId: string) => (userId ? sessionsService.revokeForUser(userId, sessionId) : sessionsService.revoke(sessionId)),
+    'Sessão encerrada'
+  );
+}
+
+/**
+ * useRevokeOtherSessions
+ * pt-BR: Sem `userId`, encerra as demais sessões do usuário logado; com `userId`, todas as
+ *        sessões daquele usuário.
+ * en-US: Without `userId`, ends the logged-in user's other sessions; with `userId`, every
+ *        session of that user.
+ */
+export function useRevokeOtherSessions(userId?: string) {
+  return useSessionsMutation<void>(
+    userId,
+    () => (userId ? sessionsService.revokeAllForUser(userId) : sessionsService.revokeOthers()),
+    userId ? 'Todas as sessões foram encerradas' : 'As demais sessões foram encerradas'
+  );
+}
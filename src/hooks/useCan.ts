@@ -0,0 +1,41 @@
+import { useMemo } from 'react';
+import { useLocation } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { canPerform, resolveMenuAbilities } from '@/lib/menu';
+import { AccessFlags, PermissionAction } from '@/types/permissions';
+
+/**
+ * useAbilities
+ * pt-BR: Flags `can_*` do usuário logado para uma rota do menu (padrão: a rota atual).
+ *        Servem só para esconder/desabilitar a interface; a API continua sendo a autoridade final (403).
+ *        No modo "ver como" só `can_view` é mantido (somente leitura).
+ * en-US: Logged-in user's `can_*` flags for a menu route (default: the current route).
+ *        They only hide/disable the UI; the API remains the final authority (403).
+ *        In "view as" mode only `can_view` is kept (read-only).
+ */
+export function useAbilities(menuPath?: string): AccessFlags {
+  const { menu, isImpersonating } = useAuth();
+  const { pathname } = useLocation();
+  const path = menuPath ?? pathname;
+  return useMemo(() => {
+    const abilities = resolveMenuAbilities(menu, path);
+    if (!isImpersonating) return abilities;
+    return { can_view: abilities.can_view, can_create: false, can_edit: false, can_delete: false, can_upload: false };
+  }, [menu, path, isImpersonating]);
+}
+
+/**
+ * useCan
+ * pt-BR: Verifica uma ação (`view`, `create`, `edit`, `delete`, `upload`) em uma rota do menu.
+ * en-US: Checks one action (`view`, `create`, `edit`, `delete`, `upload`) on a menu route.
+ * @example const canDelete = useCan('delete', '/admin/clients');
+ */
+export function useCan(action: PermissionAction, menuPath?: string): boolean {
+  const { menu, isImpersonating } = useAuth();
+  const { pathname } = useLocation();
+  const path = menuPath ?? pathname;
+  return useMemo(
+    () => (action === 'view' || !isImpersonating) && canPerform(menu, action, path),
+    [menu, action, path, isImpersonating]
+  );
+}
@@ -1,5 +1,5 @@
-import { useQuery, useQueryClient } from '@tanstack/react-query';
-import { dashboardService, DashboardData, ClientActivity, ClientRegistrationData, PendingPreRegistration } from '@/services/dashboardService';
+import { useQuery, useQueryClient, UseQueryOptions } from '@tanstack/react-query';
+import { dashboardService, DashboardData, ClientActivity, ClientRegistrationData, PendingPreRegistration, AeroclubeDashboardData } from '@/services/dashboardService';
 
 /**
  * Hook para buscar atividades recentes de clientes
@@ -62,6 +62,19 @@ export function useDashboardData(queryOptions?: any) {
   });
 }
 
+/**
+ * Hook para buscar os indicadores do painel do Aeroclube
+ * @param queryOptions - Opções adicionais da query
+ */
+export function useAeroclubeDashboard(queryOptions?: Omit<UseQueryOptions<AeroclubeDashboardData>, 'queryKey' | 'queryFn'>) {
+  return useQuery<AeroclubeDashboardData>({
+    queryKey: ['dashboard', 'aeroclube'],
+    queryFn: () => dashboardService.getAeroclubeDashboard(),
+    staleTime: 10 * 60 * 1000, // 10 minutos
+    ...queryOptions,
+  });
+}
+
 /**
  * Hook para invalidar cache do dashboard
  * Útil para forçar atualização após operações CRUD
@@ -79,5 +92,6 @@ export type {
   DashboardData,
   ClientActivity,
   ClientRegistrationData,
-  PendingPreRegistration
+  PendingPreRegistration,
+  AeroclubeDashboardData
 } from '@/services/dashboardService';
\ No newline at end of file
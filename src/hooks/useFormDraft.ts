@@ -0,0 +1,95 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { FieldValues, UseFormReturn } from 'react-hook-form';
+
+const DRAFT_PREFIX = 'form_draft:';
+
+interface StoredDraft<TValues, TExtra> {
+  values: Partial<TValues>;
+  extra?: TExtra;
+  saved_at: string;
+}
+
+export interface UseFormDraftOptions<TValues extends FieldValues, TExtra = unknown> {
+  /** Chave única do formulário (ex.: `proposal:123`) / Unique form key (e.g. `proposal:123`) */
+  key: string;
+  form: UseFormReturn<TValues>;
+  /** Estado fora do react-hook-form a preservar / State outside react-hook-form to keep */
+  getExtra?: () => TExtra;
+  onRestoreExtra?: (extra: TExtra) => void;
+  enabled?: boolean;
+}
+
+/**
+ * useFormDraft
+ * pt-BR: Preserva o trabalho não salvo quando a sessão é perdida. Ao receber
+ *        `auth:invalid_token` (renovação do token falhou), grava os valores do formulário
+ *        no localStorage; ao voltar para a mesma tela, o rascunho pode ser restaurado.
+ * en-US: Keeps unsaved work when the session is lost. On `auth:invalid_token`
+ *        (token refresh failed), stores the form values in localStorage; when the user
+ *        returns to the same screen, the draft can be restored.
+ */
+export function useFormDraft<TValues extends FieldValues, TExtra = unknown>(
+  options: UseFormDraftOptions<TValues, TExtra>
+) {
+  const { key, form, getExtra, onRestoreExtra, enabled = true } = options;
+  const storageKey = `${DRAFT_PREFIX}${key}`;
+  const [draft, setDraft] = useState<StoredDraft<TValues, TExtra> | null>(null);
+
+  // Mantém as funções mais recentes sem reinscrever o listener a cada render
+  const latest = useRef({ form, getExtra, onRestoreExtra });
+  latest.current = { form, getExtra, onRestoreExtra };
+
+  useEffect(() => {
+    if (!enabled) return;
+    try {
+      const raw = localStorage.getItem(storageKey);
+      setDraft(raw ? JSON.parse(raw) : null);
+    } catch {
+      setDraft(null);
+    }
+  }, [storageKey, enabled]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    const handleSessionLost = () => {
+      const { form: currentForm, getExtra: currentGetExtra } = latest.current;
+      const values = currentForm.getValues();
+      // Só grava se houver algo diferente do que foi carregado / Only store real changes
+      if (JSON.stringify(values) === JSON.stringify(currentForm.formState.defaultValues ?? {})) return;
+      const stored: StoredDraft<TValues, TExtra> = {
+        values,
+        extra: currentGetExtra?.(),
+        saved_at: new Date().toISOString(),
+      };
+      try {
+        localStorage.setItem(storageKey, JSON.stringify(stored));
+      } catch {
+        // Sem espaço no localStorage: não bloqueia o logout
+      }
+    };
+    window.addEventListener('auth:invalid_token', handleSessionLost);
+    return () => {
+      window.removeEventListener('auth:invalid_token', handleSessionLost);
+    };
+  }, [storageKey, enabled]);
+
+  const discardDraft = useCallback(() => {
+    localStorage.removeItem(storageKey);
+    setDraft(null);
+  }, [storageKey]);
+
+  const restoreDraft = useCallback(() => {
+    if (!draft) return;
+    const { form: currentForm, onRestoreExtra: currentRestoreExtra } = latest.current;
+    currentForm.reset({ ...currentForm.getValues(), ...draft.values }, { keepDefaultValues: true });
+    if (draft.extra !== undefined) currentRestoreExtra?.(draft.extra);
+    discardDraft();
+  }, [draft, discardDraft]);
+
+  return {
+    hasDraft: !!draft,
+    draftSavedAt: draft?.saved_at ?? null,
+    restoreDraft,
+    discardDraft,
+  };
+}
@@ -1,14 +1,6 @@
 import { useState, useCallback } from 'react';
 import { toast } from 'sonner';
-import { getTenantApiUrl, getVersionApi } from '@/lib/qlib';
-
-/**
- * Interface para resposta do token
- */
-interface TokenResponse {
-  token: string;
-  expires_at?: string;
-}
+import { activeClientsService } from '@/services/activeClientsService';
 
 /**
  * Hook para gerenciar tokens de formulário público
@@ -27,20 +19,8 @@ export const useFormToken = () => {
     setError(null);
 
     try {
-      const apiBaseUrl = getTenantApiUrl() + getVersionApi();
-      const response = await fetch(`${apiBaseUrl}/public/form-token`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Accept': 'application/json'
-        }
-      });
-
-      if (!response.ok) {
-        throw new Error('Falha ao gerar token de segurança');
-      }
-
-      const data: TokenResponse = await response.json();
+      // Passa pelo httpClient (tenant, timeout/retry) / Goes through httpClient (tenant, timeout/retry)
+      const data = await activeClientsService.generateFormToken();
       setToken(data.token);
       return data.token;
     } catch (err) {
@@ -1,6 +1,8 @@
-import { useQuery, useMutation, useQueryClient, UseQueryOptions, UseMutationOptions } from '@tanstack/react-query';
+import { useQuery, useMutation, useQueryClient, QueryClient, QueryKey, UseQueryOptions, UseMutationOptions } from '@tanstack/react-query';
 import { toast } from 'sonner';
 import { PaginatedResponse } from '@/types/index';
+import { RequestOptions } from '@/services/requestPolicy';
+import { isApiError } from '@/services/ApiError';
 
 /**
  * GenericApiService interface
@@ -12,8 +14,12 @@ import { PaginatedResponse } from '@/types/index';
  *         from the base class and ensure the correct endpoint (`/<resource>/{id}`) is called.
  */
 export interface GenericApiService<T, CreateInput, UpdateInput, ListParams = any> {
-  list(params?: ListParams): Promise<PaginatedResponse<T>>;
-  getById(id: string): Promise<T>;
+  /**
+   * pt-BR: `options.signal` é repassado pelo React Query para cancelar buscas substituídas.
+   * en-US: `options.signal` is passed by React Query to cancel superseded searches.
+   */
+  list(params?: ListParams, options?: RequestOptions): Promise<PaginatedResponse<T>>;
+  getById(id: string, options?: RequestOptions): Promise<T>;
   create(data: CreateInput): Promise<T>;
   update(id: string, data: UpdateInput): Promise<T>;
   /**
@@ -38,6 +44,98 @@ export interface UseGenericApiOptions<T, CreateInput, UpdateInput, ListParams =
    * en-US: Suppresses internal hook toasts, letting the caller handle messages.
    */
   suppressToasts?: boolean;
+  /**
+   * optimistic
+   * pt-BR: Atualiza/remove o registro no cache antes da resposta da API (padrão: true).
+   * en-US: Updates/removes the record in the cache before the API responds (default: true).
+   */
+  optimistic?: boolean;
+  /**
+   * applyUpdate
+   * pt-BR: Como aplicar o payload de atualização ao registro em cache (padrão: merge raso).
+   * en-US: How to apply the update payload to the cached record (default: shallow merge).
+   */
+  applyUpdate?: (current: T, input: UpdateInput) => T;
+}
+
+/**
+ * pt-BR: Cópia do registro alterado em cada query onde aparece (`index` = posição na lista;
+ *        -1 no detalhe). O rollback restaura só ele, sem desfazer outras mutações em curso.
+ * en-US: Copy of the changed record in each query where it appears (`index` = position in
+ *        the list; -1 in the detail). Rollback restores only it, without undoing other
+ *        in-flight mutations.
+ */
+type EntitySnapshot = Array<{ key: QueryKey; item: unknown; index: number }>;
+
+interface OptimisticContext {
+  id: string;
+  snapshot: EntitySnapshot;
+}
+
+const entityId = (entity: unknown): string => {
+  const id = (entity as { id?: unknown } | null | undefined)?.id;
+  return id === undefined || id === null ? '' : String(id);
+};
+
+const isQueuedOffline = (error?: Error | null): boolean => isApiError(error) && error.isQueuedOffline;
+
+/** Mutação na fila offline é aviso, não erro / A mutation queued offline is a notice, not an error */
+const notifyError = (error: Error, message: string) => {
+  if (isQueuedOffline(error)) toast.info(error.message);
+  else if (isApiError(error) && error.isForbidden) toast.error('Você não tem permissão para esta ação.');
+  else toast.error(message);
+};
+
+/**
+ * updateCachedEntity
+ * pt-BR: Aplica `updater` ao registro `id` em todas as listas e no detalhe em cache do recurso.
+ *        Retornar `null` remove o registro das listas. Útil para alterações feitas por outros
+ *        endpoints (ex.: registrar atendimento que muda a etapa do cliente).
+ * en-US: Applies `updater` to record `id` in every cached list and detail of the resource.
+ *        Returning `null` removes the record from lists. Useful for changes made through other
+ *        endpoints (e.g. registering an attendance that moves the client's stage).
+ */
+export function updateCachedEntity<T>(
+  queryClient: QueryClient,
+  queryKey: string,
+  id: string,
+  updater: (current: T) => T | null
+): void {
+  const targetId = String(id);
+  queryClient.setQueriesData<PaginatedResponse<T>>({ queryKey: [queryKey, 'list'] }, (page) => {
+    if (!page || !Array.isArray(page.data)) return page;
+    let removed = 0;
+    const data = page.data.flatMap((item) => {
+      if (entityId(item) !== targetId) return [item];
+      const next = updater(item);
+      if (next === null) {
+        removed += 1;
+        return [];
+      }
+      return [next];
+    });
+    return removed ? { ...page, data, total: Math.max(0, (page.total || 0) - removed) } : { ...page, data };
+  });
+  queryClient.setQueryData<T>([queryKey, 'detail', targetId], (current) => {
+    if (current === undefined) return current;
+    return updater(current) ?? current;
+  });
+}
+
+/**
+ * insertCachedEntity
+ * pt-BR: Insere um registro recém-criado no topo das listas em cache e no detalhe.
+ * en-US: Inserts a newly created record at the top of cached lists and in the detail cache.
+ */
+export function insertCachedEntity<T>(queryClient: QueryClient, queryKey: string, entity: T): void {
+  const id = entityId(entity);
+  if (!id) return;
+  queryClient.setQueriesData<PaginatedResponse<T>>({ queryKey: [queryKey, 'list'] }, (page) => {
+    if (!page || !Array.isArray(page.data) || (page.current_page || 1) !== 1) return page;
+    if (page.data.some((item) => entityId(item) === id)) return page;
+    return { ...page, data: [entity, ...page.data], total: (page.total || 0) + 1 };
+  });
+  queryClient.setQueryData<T>([queryKey, 'detail', id], entity);
 }
 
 /**
@@ -47,9 +145,71 @@ export interface UseGenericApiOptions<T, CreateInput, UpdateInput, ListParams =
 export function useGenericApi<T, CreateInput, UpdateInput, ListParams = any>(
   options: UseGenericApiOptions<T, CreateInput, UpdateInput, ListParams>
 ) {
-  const { service, queryKey, entityName, suppressToasts = false } = options;
+  const {
+    service,
+    queryKey,
+    entityName,
+    suppressToasts = false,
+    optimistic = true,
+    applyUpdate = (current: T, input: UpdateInput) => ({ ...current, ...input }) as T,
+  } = options;
   const queryClient = useQueryClient();
 
+  /**
+   * Prepara a atualização otimista: cancela buscas em andamento (para não sobrescreverem
+   * o cache) e guarda uma cópia do registro `id` em cada lista e no detalhe para o rollback.
+   */
+  const prepareOptimisticUpdate = async (id: string): Promise<OptimisticContext> => {
+    await queryClient.cancelQueries({ queryKey: [queryKey] });
+    const targetId = String(id);
+    const snapshot: EntitySnapshot = [];
+    queryClient.getQueriesData<PaginatedResponse<T>>({ queryKey: [queryKey, 'list'] }).forEach(([key, page]) => {
+      const index = Array.isArray(page?.data) ? page.data.findIndex((item) => entityId(item) === targetId) : -1;
+      if (index >= 0) snapshot.push({ key, item: page!.data[index], index });
+    });
+    const detailKey = [queryKey, 'detail', targetId];
+    const detail = queryClient.getQueryData(detailKey);
+    if (detail !== undefined) snapshot.push({ key: detailKey, item: detail, index: -1 });
+    return { id: targetId, snapshot };
+  };
+
+  /**
+   * Desfaz a atualização otimista só do registro que falhou: substitui a versão em cache
+   * (ou a reinsere na posição original, após exclusão) e mantém as demais alterações.
+   */
+  const rollback = (context?: OptimisticContext): boolean => {
+    if (!context?.snapshot.length) return false;
+    context.snapshot.forEach(({ key, item, index }) => {
+      if (index < 0) {
+        queryClient.setQueryData(key, item);
+        return;
+      }
+      queryClient.setQueryData<PaginatedResponse<T>>(key, (page) => {
+        if (!page || !Array.isArray(page.data)) return page;
+        const position = page.data.findIndex((current) => entityId(current) === context.id);
+        if (position >= 0) {
+          return { ...page, data: page.data.map((current, i) => (i === position ? item as T : current)) };
+        }
+        const data = [...page.data];
+        data.splice(Math.min(index, data.length), 0, item as T);
+        return { ...page, data, total: (page.total || 0) + 1 };
+      });
+    });
+    return true;
+  };
+
+  /**
+   * Revalida o recurso em segundo plano quando esta é a última mutação pendente,
+   * evitando que uma busca antiga desfaça outra atualização otimista ainda em curso.
+   */
+  const revalidate = (error?: Error | null) => {
+    // Mutação na fila offline: mantém o estado otimista até o reenvio / Queued offline: keep the optimistic state until replay
+    if (isQueuedOffline(error)) return;
+    if (queryClient.isMutating({ mutationKey: [queryKey] }) <= 1) {
+      queryClient.invalidateQueries({ queryKey: [queryKey] });
+    }
+  };
+
   /**
    * Hook para listar entidades
    * @param params - Parâmetros de listagem
@@ -61,7 +221,7 @@ export function useGenericApi<T, CreateInput, UpdateInput, ListParams = any>(
   ) => {
     return useQuery({
       queryKey: [queryKey, 'list', params],
-      queryFn: () => service.list(params),
+      queryFn: ({ signal }) => service.list(params, { signal }),
       ...queryOptions,
     });
   };
@@ -77,7 +237,7 @@ export function useGenericApi<T, CreateInput, UpdateInput, ListParams = any>(
   ) => {
     return useQuery({
       queryKey: [queryKey, 'detail', id],
-      queryFn: () => service.getById(id),
+      queryFn: ({ signal }) => service.getById(id, { signal }),
       enabled: !!id,
       ...queryOptions,
     });
@@ -85,59 +245,92 @@ export function useGenericApi<T, CreateInput, UpdateInput, ListParams = any>(
 
   /**
    * Hook para criar entidade
+   * pt-BR: O registro retornado pela API entra direto no cache (listas e detalhe);
+   *        as listas são revalidadas em segundo plano, sem esvaziar a tela.
+   * en-US: The record returned by the API goes straight into the cache (lists and detail);
+   *        lists are revalidated in the background, without blanking the screen.
    * @param mutationOptions - Opções do useMutation
    */
   const useCreate = (
     mutationOptions?: UseMutationOptions<T, Error, CreateInput>
   ) => {
-    return useMutation({
+    return useMutation<T, Error, CreateInput>({
+      ...mutationOptions,
+      mutationKey: [queryKey, 'create'],
       mutationFn: (data: CreateInput) => service.create(data),
-      onSuccess: (data) => {
-        queryClient.invalidateQueries({ queryKey: [queryKey] });
-        if (!suppressToasts) toast.success(`${entityName} criado com sucesso!`);
-        mutationOptions?.onSuccess?.(data, data as any, undefined);
+      onSuccess: (data, variables) => {
+        insertCachedEntity<T>(queryClient, queryKey, data);
+        if (!suppressToasts && !mutationOptions?.onSuccess) toast.success(`${entityName} criado com sucesso!`);
+        mutationOptions?.onSuccess?.(data, variables, undefined);
       },
-      onError: (error) => {
-        if (!suppressToasts) toast.error(`Erro ao criar ${entityName.toLowerCase()}: ${error.message}`);
-        mutationOptions?.onError?.(error, error as any, undefined);
+      onError: (error, variables) => {
+        if (!suppressToasts && !mutationOptions?.onError) notifyError(error, `Erro ao criar ${entityName.toLowerCase()}: ${error.message}`);
+        mutationOptions?.onError?.(error, variables, undefined);
+      },
+      onSettled: (data, error, variables) => {
+        revalidate(error);
+        mutationOptions?.onSettled?.(data, error, variables, undefined);
       },
-      ...mutationOptions,
     });
   };
 
   /**
    * Hook para atualizar entidade
+   * pt-BR: Aplica a alteração no cache antes da resposta (otimista). Em erro, desfaz e avisa;
+   *        em sucesso, reconcilia com o registro retornado pela API.
+   * en-US: Applies the change to the cache before the response (optimistic). On error, rolls
+   *        back and warns; on success, reconciles with the record returned by the API.
    * @param mutationOptions - Opções do useMutation
    */
   const useUpdate = (
     mutationOptions?: UseMutationOptions<T, Error, { id: string; data: UpdateInput }>
   ) => {
-    return useMutation({
+    return useMutation<T, Error, { id: string; data: UpdateInput }, OptimisticContext>({
+      ...mutationOptions,
+      mutationKey: [queryKey, 'update'],
       mutationFn: ({ id, data }: { id: string; data: UpdateInput }) => service.update(id, data),
+      onMutate: async (variables) => {
+        if (!optimistic) return { id: String(variables.id), snapshot: [] };
+        const context = await prepareOptimisticUpdate(variables.id);
+        updateCachedEntity<T>(queryClient, queryKey, variables.id, (current) => applyUpdate(current, variables.data));
+        return context;
+      },
       onSuccess: (data, variables) => {
-        queryClient.invalidateQueries({ queryKey: [queryKey] });
-        queryClient.invalidateQueries({ queryKey: [queryKey, 'detail', variables.id] });
-        if (!suppressToasts) toast.success(`${entityName} atualizado com sucesso!`);
+        // Reconcilia apenas quando a API devolve o próprio registro / Only reconcile with the returned record
+        if (data && entityId(data) === String(variables.id)) {
+          updateCachedEntity<T>(queryClient, queryKey, variables.id, (current) => ({ ...current, ...data }));
+        }
+        if (!suppressToasts && !mutationOptions?.onSuccess) toast.success(`${entityName} atualizado com sucesso!`);
         mutationOptions?.onSuccess?.(data, variables, undefined);
       },
-      onError: (error) => {
-        if (!suppressToasts) toast.error(`Erro ao atualizar ${entityName.toLowerCase()}: ${error.message}`);
-        mutationOptions?.onError?.(error, error as any, undefined);
+      onError: (error, variables, context) => {
+        const rolledBack = !isQueuedOffline(error) && rollback(context);
+        if (!suppressToasts && !mutationOptions?.onError) {
+          notifyError(error, `Erro ao atualizar ${entityName.toLowerCase()}: ${error.message}${rolledBack ? '. A alteração foi desfeita.' : ''}`);
+        }
+        mutationOptions?.onError?.(error, variables, undefined);
+      },
+      onSettled: (data, error, variables) => {
+        revalidate(error);
+        mutationOptions?.onSettled?.(data, error, variables, undefined);
       },
-      ...mutationOptions,
     });
   };
 
   /**
    * Hook para deletar entidade
    * pt-BR: Usa `service.deleteById(id)` para evitar chamada ao método interno protegido `delete(endpoint)`.
+   *        Remove o registro das listas antes da resposta e o restaura se a API falhar.
    * en-US: Uses `service.deleteById(id)` to avoid calling the internal protected `delete(endpoint)` method.
+   *        Removes the record from lists before the response and restores it if the API fails.
    * @param mutationOptions - Opções do useMutation
    */
   const useDelete = (
     mutationOptions?: UseMutationOptions<void, Error, string>
   ) => {
-    return useMutation({
+    return useMutation<void, Error, string, OptimisticContext>({
+      ...mutationOptions,
+      mutationKey: [queryKey, 'delete'],
       /**
        * pt-BR: Usa `deleteById` se disponível; caso contrário, usa `delete`.
        * en-US: Uses `deleteById` if available; otherwise falls back to `delete`.
@@ -146,17 +339,28 @@ export function useGenericApi<T, CreateInput, UpdateInput, ListParams = any>(
         service.deleteById
           ? service.deleteById(id)
           : (service.delete ? service.delete(id) : Promise.reject(new Error('Método de deleção não disponível'))),
+      onMutate: async (id) => {
+        if (!optimistic) return { id: String(id), snapshot: [] };
+        const context = await prepareOptimisticUpdate(id);
+        updateCachedEntity<T>(queryClient, queryKey, id, () => null);
+        return context;
+      },
       onSuccess: (data, id) => {
-        queryClient.invalidateQueries({ queryKey: [queryKey] });
         queryClient.removeQueries({ queryKey: [queryKey, 'detail', id] });
-        if (!suppressToasts) toast.success(`${entityName} excluído com sucesso!`);
+        if (!suppressToasts && !mutationOptions?.onSuccess) toast.success(`${entityName} excluído com sucesso!`);
         mutationOptions?.onSuccess?.(data, id, undefined);
       },
-      onError: (error) => {
-        if (!suppressToasts) toast.error(`Erro ao excluir ${entityName.toLowerCase()}: ${error.message}`);
-        mutationOptions?.onError?.(error, error as any, undefined);
+      onError: (error, id, context) => {
+        const rolledBack = !isQueuedOffline(error) && rollback(context);
+        if (!suppressToasts && !mutationOptions?.onError) {
+          notifyError(error, `Erro ao excluir ${entityName.toLowerCase()}: ${error.message}${rolledBack ? '. O registro foi restaurado.' : ''}`);
+        }
+        mutationOptions?.onError?.(error, id, undefined);
+      },
+      onSettled: (data, error, id) => {
+        revalidate(error);
+        mutationOptions?.onSettled?.(data, error, id, undefined);
       },
-      ...mutationOptions,
     });
   };
 
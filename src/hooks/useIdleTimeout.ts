@@ -0,0 +1,61 @@
+import { useEffect, useRef } from 'react';
+
+const LAST_ACTIVITY_KEY = 'auth_last_activity';
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'scroll', 'touchstart', 'wheel'] as const;
+/** Intervalo mínimo entre gravações da última atividade / Min interval between activity writes */
+const ACTIVITY_THROTTLE_MS = 5_000;
+const CHECK_INTERVAL_MS = 15_000;
+
+function readLastActivity(): number {
+  const value = Number(localStorage.getItem(LAST_ACTIVITY_KEY));
+  return Number.isFinite(value) && value > 0 ? value : Date.now();
+}
+
+/**
+ * useIdleTimeout
+ * pt-BR: Chama `onIdle` após `timeoutMs` sem interação. A última atividade fica no
+ *        localStorage, então uso em qualquer aba mantém todas as abas ativas.
+ *        `timeoutMs` nulo ou zero desativa o controle.
+ * en-US: Calls `onIdle` after `timeoutMs` without interaction. The last activity is kept
+ *        in localStorage, so activity in any tab keeps every tab alive.
+ *        A null or zero `timeoutMs` disables the check.
+ */
+export function useIdleTimeout({
+  timeoutMs,
+  onIdle,
+  enabled = true,
+}: {
+  timeoutMs: number | null;
+  onIdle: () => void;
+  enabled?: boolean;
+}) {
+  const onIdleRef = useRef(onIdle);
+  onIdleRef.current = onIdle;
+
+  useEffect(() => {
+    if (!enabled || !timeoutMs || timeoutMs <= 0) return;
+
+    let lastWrite = 0;
+    const markActivity = () => {
+      const now = Date.now();
+      if (now - lastWrite < ACTIVITY_THROTTLE_MS) return;
+      lastWrite = now;
+      localStorage.setItem(LAST_ACTIVITY_KEY, String(now));
+    };
+
+    // Começa a contar a partir de agora / Start counting from now
+    markActivity();
+    ACTIVITY_EVENTS.forEach((name) => window.addEventListener(name, markActivity, { passive: true }));
+
+    const interval = window.setInterval(() => {
+      if (Date.now() - readLastActivity() >= timeoutMs) {
+        onIdleRef.current();
+      }
+    }, Math.min(CHECK_INTERVAL_MS, timeoutMs));
+
+    return () => {
+      ACTIVITY_EVENTS.forEach((name) => window.removeEventListener(name, markActivity));
+      window.clearInterval(interval);
+    };
+  }, [enabled, timeoutMs]);
+}
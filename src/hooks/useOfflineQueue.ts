@@ -0,0 +1,68 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import {
+  OFFLINE_QUEUE_CHANGED_EVENT,
+  OFFLINE_REPLAYED_EVENT,
+  OfflineMutation,
+  offlineQueue,
+} from '@/services/offlineQueue';
+
+/**
+ * useOfflineQueue
+ * pt-BR: Expõe a fila offline para a interface: pendências, conflitos, estado da conexão e
+ *        ações (sincronizar, reenviar, descartar). Após um reenvio bem-sucedido, revalida o
+ *        cache para trocar os dados otimistas pelos do servidor.
+ * en-US: Exposes the offline queue to the UI: pending entries, conflicts, connection state and
+ *        actions (sync, retry, discard). After a successful replay, revalidates the cache to
+ *        swap optimistic data for the server's.
+ */
+export function useOfflineQueue() {
+  const queryClient = useQueryClient();
+  const [entries, setEntries] = useState<OfflineMutation[]>([]);
+  const [isOnline, setIsOnline] = useState(() => (typeof navigator === 'undefined' ? true : navigator.onLine));
+  const [isSyncing, setIsSyncing] = useState(false);
+
+  const reload = useCallback(() => {
+    offlineQueue.list().then(setEntries).catch(() => setEntries([]));
+  }, []);
+
+  useEffect(() => {
+    offlineQueue.start();
+    reload();
+
+    const handleOnline = () => setIsOnline(true);
+    const handleOffline = () => setIsOnline(false);
+    const handleReplayed = () => queryClient.invalidateQueries();
+
+    window.addEventListener(OFFLINE_QUEUE_CHANGED_EVENT, reload);
+    window.addEventListener(OFFLINE_REPLAYED_EVENT, handleReplayed);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener(OFFLINE_QUEUE_CHANGED_EVENT, reload);
+      window.removeEventListener(OFFLINE_REPLAYED_EVENT, handleReplayed);
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [queryClient, reload]);
+
+  const counts = useMemo(() => ({
+    pending: entries.filter((entry) => entry.status === 'pending').length,
+    conflict: entries.filter((entry) => entry.status === 'conflict').length,
+    failed: entries.filter((entry) => entry.status === 'failed').length,
+  }), [entries]);
+
+  const syncNow = useCallback(async () => {
+    setIsSyncing(true);
+    try {
+      await offlineQueue.flush();
+    } finally {
+      setIsSyncing(false);
+    }
+  }, []);
+
+  const retry = useCallback((id: number, options?: { force?: boolean }) => offlineQueue.retry(id, options), []);
+  const discard = useCallback((id: number) => offlineQueue.discard(id), []);
+
+  return { entries, counts, isOnline, isSyncing, syncNow, retry, discard };
+}
@@ -0,0 +1,97 @@
+import { useCallback, useMemo } from 'react';
+import { useUserPrefs } from '@/contexts/UserPrefsContext';
+import { orderedColumns } from '@/lib/userPreferences';
+import type { SavedFilter, TablePreferences } from '@/types/userPreferences';
+
+const NO_TABLE_PREFERENCES: TablePreferences = {};
+const NO_SAVED_FILTERS: SavedFilter[] = [];
+
+export interface TableColumn {
+  id: string;
+  label: string;
+  /** Não pode ser ocultada (ex.: nome) / Cannot be hidden (e.g. name) */
+  required?: boolean;
+}
+
+/**
+ * useTablePreferences
+ * pt-BR: Colunas visíveis, ordem e tamanho de página de uma tabela, sincronizados com as
+ *        preferências do usuário na chave `table:<tableId>`.
+ * en-US: Visible columns, order and page size of a table, synced with the user preferences
+ *        under the `table:<tableId>` key.
+ */
+export function useTablePreferences(tableId: string, columns: TableColumn[], defaultPageSize: number) {
+  const { getPreference, setPreference } = useUserPrefs();
+  const key = `table:${tableId}`;
+  const preferences = getPreference(key, NO_TABLE_PREFERENCES);
+
+  const orderedIds = useMemo(
+    () => orderedColumns(columns.map((column) => column.id), preferences),
+    [columns, preferences]
+  );
+  const visibleColumns = useMemo(() => {
+    const hidden = preferences.hidden ?? [];
+    return orderedIds.filter((id) => !hidden.includes(id) || columns.find((column) => column.id === id)?.required);
+  }, [orderedIds, preferences.hidden, columns]);
+
+  const update = useCallback((changes: Partial<TablePreferences>) => {
+    setPreference(key, { ...preferences, ...changes });
+  }, [key, preferences, setPreference]);
+
+  const toggleColumn = useCallback((id: string, visible: boolean) => {
+    const hidden = (preferences.hidden ?? []).filter((hiddenId) => hiddenId !== id);
+    update({ hidden: visible ? hidden : [...hidden, id] });
+  }, [preferences.hidden, update]);
+
+  const moveColumn = useCallback((id: string, direction: -1 | 1) => {
+    const order = [...orderedIds];
+    const index = order.indexOf(id);
+    const target = index + direction;
+    if (index < 0 || target < 0 || target >= order.length) return;
+    [order[index], order[target]] = [order[target], order[index]];
+    update({ order });
+  }, [orderedIds, update]);
+
+  return {
+    /** Todas as colunas na ordem salva / Every column in the saved order */
+    columns: useMemo(
+      () => orderedIds.flatMap((id) => columns.filter((column) => column.id === id)),
+      [orderedIds, columns]
+    ),
+    visibleColumns,
+    pageSize: preferences.page_size ?? defaultPageSize,
+    setPageSize: (pageSize: number) => update({ page_size: pageSize }),
+    toggleColumn,
+    moveColumn,
+    reset: () => setPreference(key, {}),
+  };
+}
+
+/**
+ * useSavedFilters
+ * pt-BR: Filtros nomeados de uma listagem, na chave `filters:<scope>` das preferências.
+ * en-US: Named filters of a listing, under the preferences' `filters:<scope>` key.
+ */
+export function useSavedFilters<T extends Record<string, unknown>>(scope: string) {
+  const { getPreference, setPreference } = useUserPrefs();
+  const key = `filters:${scope}`;
+  const filters = getPreference(key, NO_SAVED_FILTERS as SavedFilter<T>[]);
+
+  const saveFilter = (name: string, values: T) => {
+    const others = filters.filter((filter) => filter.name.toLowerCase() !== name.trim().toLowerCase());
+    const filter: SavedFilter<T> = {
+      id: `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+      name: name.trim(),
+      values,
+      created_at: new Date().toISOString(),
+    };
+    setPreference(key, [...others, filter]);
+    return filter;
+  };
+
+  const removeFilter = (id: string) => {
+    setPreference(key, filters.filter((filter) => filter.id !== id));
+  };
+
+  return { filters, saveFilter, removeFilter };
+}
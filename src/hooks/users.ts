@@ -1,12 +1,16 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { usersService } from '@/services/usersService';
+import { authService } from '@/services/authService';
 import { 
   UserRecord, 
   CreateUserInput, 
   UpdateUserInput, 
-  UsersListParams 
+  UsersListParams,
+  UserBulkAction,
+  UserImportRow
 } from '@/types/users';
 import { toast } from '@/hooks/use-toast';
+import { settleInBatches } from '@/lib/batches';
 
 const USERS_QUERY_KEY = 'users';
 
@@ -114,4 +118,81 @@ export function useUsersPropertys() {
       return failureCount < 2;
     },
   });
-}
\ No newline at end of file
+}
+
+function runBulkAction(user: UserRecord, action: UserBulkAction): Promise<unknown> {
+  switch (action.type) {
+    case 'activate':
+      return usersService.updateUser(user.id, { ativo: 's' });
+    case 'deactivate':
+      return usersService.updateUser(user.id, { ativo: 'n' });
+    case 'permission':
+      return usersService.updateUser(user.id, { permission_id: action.permission_id });
+    case 'password_reset':
+      return authService.forgotPassword({ email: user.email });
+  }
+}
+
+/**
+ * useBulkUserAction
+ * pt-BR: Ativa, desativa, troca o grupo de permissão ou envia o e-mail de redefinição de
+ *        senha para vários usuários; falhas individuais não desfazem os demais.
+ * en-US: Activates, deactivates, changes the permission group or sends the password reset
+ *        email for several users; individual failures do not undo the others.
+ */
+export function useBulkUserAction() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ users, action }: { users: UserRecord[]; action: UserBulkAction }) =>
+      settleInBatches(users, (user) => ({ id: user.id, label: user.email }), (user) => runBulkAction(user, action)),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: [USERS_QUERY_KEY] });
+      toast({
+        title: result.failed.length ? 'Ação concluída com falhas' : 'Ação concluída',
+        description: `${result.succeeded.length} usuário(s) processado(s)${result.failed.length ? `, ${result.failed.length} com erro` : ''}.`,
+        variant: result.failed.length && !result.succeeded.length ? 'destructive' : 'default',
+      });
+    },
+  });
+}
+
+/**
+ * importUser
+ * pt-BR: Cria o usuário e, quando a senha foi gerada, envia o e-mail de redefinição para que
+ *        ele defina a própria.
+ * en-US: Creates the user and, when the password was generated, sends the reset email so
+ *        they set their own.
+ */
+async function importUser(row: UserImportRow): Promise<void> {
+  await usersService.createUser(row.payload as CreateUserInput);
+  if (!row.sendPasswordReset) return;
+  try {
+    await authService.forgotPassword({ email: row.email });
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : 'Erro desconhecido';
+    throw new Error(`Usuário criado, mas o e-mail de redefinição de senha falhou (${reason}). Use "Redefinir senha" na lista.`);
+  }
+}
+
+/**
+ * useImportUsers
+ * pt-BR: Cria, via `importUser`, as linhas válidas da importação por CSV.
+ * en-US: Creates, through `importUser`, the valid rows of the CSV import.
+ */
+export function useImportUsers(onProgress?: (done: number) => void) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (rows: UserImportRow[]) =>
+      settleInBatches(
+        rows.filter((row) => row.payload),
+        (row) => ({ id: String(row.line), label: row.email }),
+        importUser,
+        onProgress
+      ),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [USERS_QUERY_KEY] });
+    },
+  });
+}
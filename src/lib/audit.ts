@@ -0,0 +1,63 @@
+import type { AuditAction } from '@/types/audit';
+
+/**
+ * Apresentação da auditoria
+ * pt-BR: Rótulos das ações e dos recursos e formatação dos valores das mudanças.
+ * en-US: Action and resource labels and formatting of change values.
+ */
+
+export const AUDIT_ACTION_LABELS: Record<string, string> = {
+  created: 'Criação',
+  updated: 'Alteração',
+  deleted: 'Exclusão',
+  restored: 'Restauração',
+  'impersonation.started': 'Início do "ver como"',
+  'impersonation.stopped': 'Fim do "ver como"',
+};
+
+export const AUDIT_SUBJECT_LABELS: Record<string, string> = {
+  clients: 'Cliente',
+  'service-orders': 'Ordem de serviço',
+  matriculas: 'Proposta / Matrícula',
+  cursos: 'Curso',
+  turmas: 'Turma',
+  products: 'Produto',
+  users: 'Usuário',
+  user: 'Usuário',
+  funnels: 'Funil',
+  stages: 'Etapa',
+  permissions: 'Grupo de permissão',
+};
+
+// Campos técnicos que não aparecem nos diffs / Technical fields hidden from diffs
+const HIDDEN_FIELDS = new Set(['id', 'created_at', 'updated_at', 'password', 'token']);
+
+export function auditActionLabel(action: AuditAction): string {
+  return AUDIT_ACTION_LABELS[action] ?? action;
+}
+
+export function auditSubjectLabel(subjectType: string): string {
+  return AUDIT_SUBJECT_LABELS[subjectType] ?? subjectType;
+}
+
+export function isVisibleAuditField(field: string): boolean {
+  return !HIDDEN_FIELDS.has(field);
+}
+
+/**
+ * humanizeField
+ * pt-BR: Usa o rótulo informado pela tela ou transforma `stage_id` em "Stage id".
+ * en-US: Uses the label given by the screen or turns `stage_id` into "Stage id".
+ */
+export function humanizeField(field: string, labels?: Record<string, string>): string {
+  if (labels?.[field]) return labels[field];
+  const text = field.replace(/[._]/g, ' ').trim();
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+export function formatAuditValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Sim' : 'Não';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
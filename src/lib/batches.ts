@@ -0,0 +1,52 @@
+/**
+ * Processamento em lotes
+ * pt-BR: Ações em massa e importações disparam uma requisição por registro; aqui elas saem em
+ *        lotes pequenos e cada falha é registrada sem desfazer os sucessos.
+ * en-US: Bulk actions and imports send one request per record; here they go out in small
+ *        batches and each failure is recorded without undoing the successes.
+ */
+
+// Requisições simultâneas nas ações em lote / Concurrent requests in bulk actions
+export const BULK_CONCURRENCY = 5;
+
+export interface BatchFailure {
+  id: string;
+  label: string;
+  message: string;
+}
+
+export interface BatchResult {
+  succeeded: string[];
+  failed: BatchFailure[];
+}
+
+/**
+ * settleInBatches
+ * pt-BR: Executa `task` para cada item em lotes pequenos e separa sucessos de falhas,
+ *        sem interromper no primeiro erro.
+ * en-US: Runs `task` for each item in small batches and splits successes from failures,
+ *        without stopping at the first error.
+ */
+export async function settleInBatches<T>(
+  items: T[],
+  describe: (item: T) => { id: string; label: string },
+  task: (item: T) => Promise<unknown>,
+  onProgress?: (done: number) => void
+): Promise<BatchResult> {
+  const result: BatchResult = { succeeded: [], failed: [] };
+  for (let start = 0; start < items.length; start += BULK_CONCURRENCY) {
+    const batch = items.slice(start, start + BULK_CONCURRENCY);
+    const outcomes = await Promise.allSettled(batch.map(task));
+    outcomes.forEach((outcome, index) => {
+      const { id, label } = describe(batch[index]);
+      if (outcome.status === 'fulfilled') {
+        result.succeeded.push(id);
+      } else {
+        const reason = outcome.reason as Error | undefined;
+        result.failed.push({ id, label, message: reason?.message || 'Erro desconhecido' });
+      }
+    });
+    onProgress?.(Math.min(start + BULK_CONCURRENCY, items.length));
+  }
+  return result;
+}
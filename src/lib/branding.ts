@@ -0,0 +1,153 @@
+import type { TenantBranding } from '@/types/branding';
+import { getTenantId } from '@/lib/tenant';
+
+/**
+ * Aplicação do branding no documento
+ * pt-BR: Converte a identidade visual do tenant em variáveis CSS (`--primary`, `--secondary`,
+ *        `--accent`, `--font-sans`), favicon, título e folha de fonte. Guarda a última versão
+ *        no localStorage para aplicar antes da resposta da API e evitar o "piscar" do tema padrão.
+ * en-US: Turns the tenant's visual identity into CSS variables (`--primary`, `--secondary`,
+ *        `--accent`, `--font-sans`), favicon, title and font stylesheet. Keeps the last version
+ *        in localStorage to apply it before the API answers and avoid flashing the default theme.
+ */
+
+export const DEFAULT_BRANDING: TenantBranding = {
+  appName: 'Aeroclube de Juiz de Fora',
+  tagline: 'Escola de aviação',
+  storeName: 'Antena+ Oi TV',
+  logoUrl: '/logo.png',
+  storeLogoUrl: '',
+  faviconUrl: '/logo.png',
+  primaryColor: null,
+  secondaryColor: null,
+  accentColor: null,
+  fontFamily: null,
+  fontUrl: null,
+};
+
+const FONT_LINK_ID = 'tenant-branding-font';
+const HEX_PATTERN = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+export function isHexColor(value: unknown): value is string {
+  return typeof value === 'string' && HEX_PATTERN.test(value.trim());
+}
+
+/**
+ * hexToHsl
+ * pt-BR: Converte hex (`#0b217b` ou `#fff`) para o formato HSL das variáveis do tema (`228 84% 26%`).
+ * en-US: Converts hex (`#0b217b` or `#fff`) to the theme variables' HSL format (`228 84% 26%`).
+ */
+export function hexToHsl(hex: string): string {
+  let value = hex.trim().replace('#', '');
+  if (value.length === 3) value = value.split('').map((char) => char + char).join('');
+
+  const r = parseInt(value.slice(0, 2), 16) / 255;
+  const g = parseInt(value.slice(2, 4), 16) / 255;
+  const b = parseInt(value.slice(4, 6), 16) / 255;
+
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  let h = 0;
+  let s = 0;
+  const l = (max + min) / 2;
+
+  if (max !== min) {
+    const d = max - min;
+    s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
+    switch (max) {
+      case r: h = (g - b) / d + (g < b ? 6 : 0); break;
+      case g: h = (b - r) / d + 2; break;
+      case b: h = (r - g) / d + 4; break;
+    }
+    h /= 6;
+  }
+
+  return `${Math.round(h * 360)} ${Math.round(s * 100)}% ${Math.round(l * 100)}%`;
+}
+
+/**
+ * foregroundFor
+ * pt-BR: Texto claro ou escuro conforme a luminância da cor de fundo.
+ * en-US: Light or dark text depending on the background color luminance.
+ */
+function foregroundFor(hex: string): string {
+  const lightness = Number(hexToHsl(hex).split(' ')[2].replace('%', ''));
+  return lightness > 60 ? '222.2 47.4% 11.2%' : '210 40% 98%';
+}
+
+function setColor(name: string, hex: string | null, enabled: boolean): void {
+  const root = document.documentElement;
+  if (enabled && isHexColor(hex)) {
+    root.style.setProperty(`--${name}`, hexToHsl(hex));
+    root.style.setProperty(`--${name}-foreground`, foregroundFor(hex));
+  } else {
+    root.style.removeProperty(`--${name}`);
+    root.style.removeProperty(`--${name}-foreground`);
+  }
+}
+
+function setFavicon(url: string): void {
+  if (!url) return;
+  let link = document.querySelector<HTMLLinkElement>('link[rel~="icon"]');
+  if (!link) {
+    link = document.createElement('link');
+    link.rel = 'icon';
+    document.head.appendChild(link);
+  }
+  link.removeAttribute('type');
+  link.href = url;
+}
+
+function setFontStylesheet(url: string | null): void {
+  const current = document.getElementById(FONT_LINK_ID) as HTMLLinkElement | null;
+  if (!url) {
+    current?.remove();
+    return;
+  }
+  if (current?.href === url) return;
+  const link = current ?? document.createElement('link');
+  link.id = FONT_LINK_ID;
+  link.rel = 'stylesheet';
+  link.href = url;
+  if (!current) document.head.appendChild(link);
+}
+
+/**
+ * applyBranding
+ * pt-BR: Aplica o branding no documento. No modo escuro, a cor primária do tenant não é
+ *        aplicada para manter o contraste do tema escuro (mesma regra das preferências de aparência).
+ * en-US: Applies the branding to the document. In dark mode, the tenant primary color is not
+ *        applied to keep the dark theme contrast (same rule as the appearance preferences).
+ */
+export function applyBranding(branding: TenantBranding, options: { darkMode?: boolean } = {}): void {
+  setColor('primary', branding.primaryColor, !options.darkMode);
+  setColor('secondary', branding.secondaryColor, true);
+  setColor('accent', branding.accentColor, true);
+
+  const root = document.documentElement;
+  if (branding.fontFamily) root.style.setProperty('--font-sans', branding.fontFamily);
+  else root.style.removeProperty('--font-sans');
+  setFontStylesheet(branding.fontUrl);
+
+  setFavicon(branding.faviconUrl);
+  if (branding.appName) document.title = branding.appName;
+}
+
+/**
+ * Cache por tenant: vários tenants podem dividir a mesma origem (caminho ou `?tenant=`)
+ * Per-tenant cache: several tenants may share one origin (path or `?tenant=`)
+ */
+const cacheKey = () => `tenant_branding:${getTenantId()}`;
+
+export function readCachedBranding(): TenantBranding | null {
+  try {
+    const cached = JSON.parse(localStorage.getItem(cacheKey()) || 'null');
+    return cached ? { ...DEFAULT_BRANDING, ...cached } : null;
+  } catch {
+    return null;
+  }
+}
+
+export function cacheBranding(branding: TenantBranding): void {
+  localStorage.setItem(cacheKey(), JSON.stringify(branding));
+}
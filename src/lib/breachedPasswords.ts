@@ -0,0 +1,25 @@
+/**
+ * Senhas vazadas
+ * pt-BR: Lista local (sem consulta externa) das senhas mais encontradas em vazamentos públicos,
+ *        incluindo variações comuns em português. Comparação sem diferenciar maiúsculas.
+ * en-US: Local list (no external lookup) of the passwords most found in public breaches,
+ *        including common Portuguese variations. Case-insensitive comparison.
+ */
+const BREACHED_PASSWORDS = new Set([
+  '000000', '111111', '112233', '121212', '123123', '123321', '1234', '12345', '123456',
+  '1234567', '12345678', '123456789', '1234567890', '123456a', '123456abc', '123abc', '123qwe',
+  '1q2w3e', '1q2w3e4r', '1q2w3e4r5t', '1qaz2wsx', '222222', '555555', '654321', '666666',
+  '696969', '7777777', '888888', '987654321', 'a123456', 'aa123456', 'abc123', 'abc12345',
+  'abcd1234', 'access', 'admin', 'admin123', 'administrador', 'amor123', 'asdasd', 'asdf1234',
+  'asdfgh', 'azerty', 'bailey', 'baseball', 'batman', 'brasil', 'brasil123', 'charlie',
+  'cruzeiro', 'demo123', 'dragon', 'flamengo', 'football', 'freedom', 'iloveyou', 'jesus',
+  'jesus123', 'letmein', 'login', 'master', 'michael', 'monkey', 'mudar123', 'mudar@123',
+  'mustang', 'palmeiras', 'pass', 'passw0rd', 'password', 'password1', 'password123', 'princess',
+  'qazwsx', 'qwe123', 'qwerty', 'qwerty123', 'qwertyuiop', 'senha', 'senha123', 'senha@123',
+  'shadow', 'starwars', 'sunshine', 'superman', 'teste', 'teste123', 'trustno1', 'welcome',
+  'zaq12wsx',
+]);
+
+export function isBreachedPassword(password: string): boolean {
+  return BREACHED_PASSWORDS.has(password.trim().toLowerCase());
+}
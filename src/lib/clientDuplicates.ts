@@ -0,0 +1,246 @@
+import { onlyDigits } from '@/lib/documents';
+import type { ClientDuplicateReason } from '@/types/clients';
+
+/**
+ * Detecção de clientes duplicados
+ * pt-BR: O mesmo lead chega pelo formulário público, pelo cadastro rápido da OS e pelo cadastro
+ *        manual, cada vez com o e-mail ou o telefone em um formato. Aqui os dados são
+ *        normalizados (CPF/CNPJ, e-mail, dígitos do telefone, nome sem acentos) e comparados.
+ *        A API usa as mesmas regras; o backend mock importa este módulo.
+ * en-US: The same lead comes in through the public form, the service order quick form and the
+ *        manual form, each time with the email or phone in a different format. Data is
+ *        normalized here (CPF/CNPJ, email, phone digits, accent-free name) and compared. The API
+ *        follows the same rules; the mock backend imports this module.
+ */
+
+/** Campos lidos de um cliente (registro da API ou do mock) / Fields read from a client (API or mock record) */
+export interface DuplicateSubject {
+  id?: unknown;
+  name?: unknown;
+  email?: unknown;
+  cpf?: unknown;
+  cnpj?: unknown;
+  telefone?: unknown;
+  phone?: unknown;
+  phones?: unknown;
+  config?: unknown;
+}
+
+export interface DuplicateMatch {
+  score: number;
+  reasons: ClientDuplicateReason[];
+}
+
+export const DUPLICATE_REASON_LABELS: Record<ClientDuplicateReason, string> = {
+  document: 'CPF/CNPJ',
+  email: 'E-mail',
+  phone: 'Telefone',
+  name: 'Nome parecido',
+};
+
+const REASON_WEIGHTS: Record<ClientDuplicateReason, number> = {
+  document: 100,
+  email: 90,
+  phone: 60,
+  name: 40,
+};
+
+// Nome parecido soma pontos; sozinho só conta quando quase idêntico
+const NAME_SIMILARITY = 0.85;
+const NAME_ONLY_SIMILARITY = 0.95;
+
+/** Pontuação mínima para agrupar cadastros já existentes / Minimum score to group existing records */
+export const DUPLICATE_GROUP_MIN_SCORE = 60;
+
+const NAME_PARTICLES = new Set(['da', 'das', 'de', 'do', 'dos', 'e']);
+
+export function normalizeEmail(value: unknown): string {
+  const email = String(value ?? '').trim().toLowerCase();
+  const [local, domain] = email.split('@');
+  if (!domain) return email;
+  return `${local.split('+')[0]}@${domain}`;
+}
+
+/**
+ * normalizeDocument
+ * pt-BR: Só os dígitos de um CPF (11) ou CNPJ (14); vazio para valores incompletos ou repetidos.
+ * en-US: Digits of a CPF (11) or CNPJ (14) only; empty for incomplete or repeated values.
+ */
+export function normalizeDocument(value: unknown): string {
+  const digits = onlyDigits(String(value ?? ''));
+  if (digits.length !== 11 && digits.length !== 14) return '';
+  return /^(\d)\1+$/.test(digits) ? '' : digits;
+}
+
+/**
+ * normalizePhone
+ * pt-BR: Dígitos do telefone sem DDI 55 nem zero de operadora (DDD + número).
+ * en-US: Phone digits without the 55 country code or carrier zero (area code + number).
+ */
+export function normalizePhone(value: unknown): string {
+  let digits = onlyDigits(String(value ?? ''));
+  if (digits.length >= 12 && digits.startsWith('55')) digits = digits.slice(2);
+  if (digits.length > 11 && digits.startsWith('0')) digits = digits.replace(/^0+/, '');
+  return digits.length >= 8 ? digits : '';
+}
+
+/**
+ * samePhone
+ * pt-BR: Mesmos 8 últimos dígitos (ignora o nono dígito) e mesmo DDD quando os dois têm DDD.
+ * en-US: Same last 8 digits (ignores the ninth digit) and same area code when both have one.
+ */
+export function samePhone(a: string, b: string): boolean {
+  if (!a || !b || a.slice(-8) !== b.slice(-8)) return false;
+  return a.length < 10 || b.length < 10 || a.slice(0, 2) === b.slice(0, 2);
+}
+
+export function normalizeName(value: unknown): string {
+  return String(value ?? '')
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z\s]/g, ' ')
+    .split(/\s+/)
+    .filter((part) => part && !NAME_PARTICLES.has(part))
+    .join(' ');
+}
+
+function bigrams(text: string): string[] {
+  const result: string[] = [];
+  for (let i = 0; i < text.length - 1; i++) result.push(text.slice(i, i + 2));
+  return result;
+}
+
+/**
+ * nameSimilarity
+ * pt-BR: Coeficiente de Dice (0 a 1) entre os nomes normalizados, com as palavras ordenadas
+ *        para que "Silva, Bruno" e "Bruno Silva" coincidam.
+ * en-US: Dice coefficient (0 to 1) between the normalized names, with sorted words so that
+ *        "Silva, Bruno" and "Bruno Silva" match.
+ */
+export function nameSimilarity(a: unknown, b: unknown): number {
+  const left = normalizeName(a).split(' ').sort().join(' ');
+  const right = normalizeName(b).split(' ').sort().join(' ');
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+  const leftPairs = bigrams(left);
+  const rightPairs = bigrams(right);
+  const total = leftPairs.length + rightPairs.length;
+  if (!leftPairs.length || !rightPairs.length) return 0;
+  let shared = 0;
+  leftPairs.forEach((pair) => {
+    const index = rightPairs.indexOf(pair);
+    if (index >= 0) {
+      shared += 1;
+      rightPairs.splice(index, 1);
+    }
+  });
+  return (2 * shared) / total;
+}
+
+/**
+ * subjectPhones
+ * pt-BR: Telefones de um cliente: `phones` da checagem, `telefone`/`phone` do cadastro rápido e
+ *        celular/residencial do `config`.
+ * en-US: A client's phones: `phones` from the check, `telefone`/`phone` from the quick form and
+ *        mobile/home from `config`.
+ */
+export function subjectPhones(subject: DuplicateSubject): string[] {
+  const config = (subject.config ?? {}) as Record<string, unknown>;
+  const values = [
+    ...(Array.isArray(subject.phones) ? subject.phones : []),
+    subject.telefone,
+    subject.phone,
+    config.celular,
+    config.telefone_residencial,
+  ];
+  return Array.from(new Set(values.map(normalizePhone).filter(Boolean)));
+}
+
+/**
+ * matchClients
+ * pt-BR: Compara dois clientes. A pontuação parte do motivo mais forte e ganha 10 por motivo
+ *        extra; devolve `null` quando não há indício suficiente.
+ * en-US: Compares two clients. The score starts from the strongest reason and gains 10 per
+ *        extra reason; returns `null` when there is not enough evidence.
+ */
+export function matchClients(a: DuplicateSubject, b: DuplicateSubject): DuplicateMatch | null {
+  const reasons: ClientDuplicateReason[] = [];
+
+  const documentsA = [normalizeDocument(a.cpf), normalizeDocument(a.cnpj)].filter(Boolean);
+  const documentsB = [normalizeDocument(b.cpf), normalizeDocument(b.cnpj)].filter(Boolean);
+  if (documentsA.some((document) => documentsB.includes(document))) reasons.push('document');
+
+  const emailA = normalizeEmail(a.email);
+  if (emailA && emailA === normalizeEmail(b.email)) reasons.push('email');
+
+  const phonesB = subjectPhones(b);
+  if (subjectPhones(a).some((phone) => phonesB.some((other) => samePhone(phone, other)))) reasons.push('phone');
+
+  const similarity = nameSimilarity(a.name, b.name);
+  if (similarity >= NAME_SIMILARITY) reasons.push('name');
+
+  if (reasons.length === 0) return null;
+  if (reasons.length === 1 && reasons[0] === 'name' && similarity < NAME_ONLY_SIMILARITY) return null;
+
+  const strongest = Math.max(...reasons.map((reason) => REASON_WEIGHTS[reason]));
+  return { score: Math.min(100, strongest + (reasons.length - 1) * 10), reasons };
+}
+
+/**
+ * findDuplicateCandidates
+ * pt-BR: Clientes parecidos com `subject`, do mais provável para o menos provável.
+ * en-US: Clients similar to `subject`, from most to least likely.
+ */
+export function findDuplicateCandidates<T extends DuplicateSubject>(
+  subject: DuplicateSubject,
+  clients: T[],
+  limit = 5
+): Array<DuplicateMatch & { client: T }> {
+  return clients
+    .filter((client) => subject.id === undefined || String(client.id) !== String(subject.id))
+    .map((client) => ({ client, match: matchClients(subject, client) }))
+    .filter((item): item is { client: T; match: DuplicateMatch } => item.match !== null)
+    .map(({ client, match }) => ({ client, ...match }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+/**
+ * groupDuplicates
+ * pt-BR: Agrupa os clientes ligados por pares acima de `DUPLICATE_GROUP_MIN_SCORE` (se A parece
+ *        B e B parece C, os três ficam juntos). Grupos ordenados pela pontuação.
+ * en-US: Groups clients linked by pairs above `DUPLICATE_GROUP_MIN_SCORE` (if A looks like B
+ *        and B looks like C, all three end up together). Groups sorted by score.
+ */
+export function groupDuplicates<T extends DuplicateSubject>(clients: T[]): Array<DuplicateMatch & { clients: T[] }> {
+  const parent = clients.map((_, index) => index);
+  const root = (index: number): number => (parent[index] === index ? index : (parent[index] = root(parent[index])));
+  const matches = new Map<number, DuplicateMatch>();
+
+  for (let i = 0; i < clients.length; i++) {
+    for (let j = i + 1; j < clients.length; j++) {
+      const match = matchClients(clients[i], clients[j]);
+      if (!match || match.score < DUPLICATE_GROUP_MIN_SCORE) continue;
+      parent[root(j)] = root(i);
+      [i, j].forEach((index) => {
+        const current = matches.get(index);
+        matches.set(index, {
+          score: Math.max(current?.score ?? 0, match.score),
+          reasons: Array.from(new Set([...(current?.reasons ?? []), ...match.reasons])),
+        });
+      });
+    }
+  }
+
+  const groups = new Map<number, number[]>();
+  matches.forEach((_, index) => groups.set(root(index), [...(groups.get(root(index)) ?? []), index]));
+
+  return Array.from(groups.values())
+    .map((indexes) => ({
+      clients: indexes.map((index) => clients[index]),
+      score: Math.max(...indexes.map((index) => matches.get(index)!.score)),
+      reasons: Array.from(new Set(indexes.flatMap((index) => matches.get(index)!.reasons))),
+    }))
+    .sort((a, b) => b.score - a.score);
+}
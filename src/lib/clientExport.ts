@@ -0,0 +1,221 @@
+import { onlyDigits } from '@/lib/documents';
+import { cpfApplyMask } from '@/lib/masks/cpf-apply-mask';
+import { cnpjApplyMask } from '@/lib/masks/cnpj-apply-mask';
+import { phoneApplyMask } from '@/lib/masks/phone-apply-mask';
+import type { ClientConfig, ClientRecord } from '@/types/clients';
+
+/**
+ * Exportação de clientes
+ * pt-BR: Campos disponíveis para exportação e a montagem das linhas (CSV/XLSX) ou objetos
+ *        (JSON), com opções de máscara para CPF/CNPJ e telefones.
+ * en-US: Fields available for export and building of rows (CSV/XLSX) or objects (JSON), with
+ *        masking options for CPF/CNPJ and phones.
+ */
+
+export type ClientExportFormat = 'csv' | 'xlsx' | 'json';
+
+/**
+ * pt-BR: `formatted` aplica a máscara, `digits` deixa só os números e `partial` oculta parte
+ *        dos dígitos (listas enviadas a terceiros).
+ * en-US: `formatted` applies the mask, `digits` keeps only the numbers and `partial` hides
+ *        part of the digits (lists sent to third parties).
+ */
+export type ClientExportMasking = 'formatted' | 'digits' | 'partial';
+
+type ConfigExportField = keyof Pick<ClientConfig,
+  'nome_fantasia' | 'celular' | 'telefone_residencial' | 'rg' | 'nascimento' | 'escolaridade' | 'profissao' |
+  'cep' | 'endereco' | 'numero' | 'complemento' | 'bairro' | 'cidade' | 'uf' | 'observacoes' | 'funnelId' | 'stage_id'>;
+
+type ClientExportFieldKey =
+  | 'id' | 'name' | 'email' | 'tipo_pessoa' | 'cpf' | 'cnpj' | 'razao' | 'genero' | 'status' | 'points'
+  | 'permission_id' | 'autor_name' | 'tags' | 'created_at' | 'updated_at' | 'excluido'
+  | `config.${ConfigExportField}`;
+
+export interface ClientExportField {
+  key: ClientExportFieldKey;
+  label: string;
+  group: 'cadastro' | 'contato' | 'funil';
+  /** Marcado na primeira exportação / Checked on the first export */
+  default?: boolean;
+}
+
+export const CLIENT_EXPORT_FIELDS: ClientExportField[] = [
+  { key: 'id', label: 'ID', group: 'cadastro', default: true },
+  { key: 'name', label: 'Nome', group: 'cadastro', default: true },
+  { key: 'email', label: 'E-mail', group: 'cadastro', default: true },
+  { key: 'tipo_pessoa', label: 'Tipo de pessoa', group: 'cadastro' },
+  { key: 'cpf', label: 'CPF', group: 'cadastro', default: true },
+  { key: 'cnpj', label: 'CNPJ', group: 'cadastro' },
+  { key: 'razao', label: 'Razão social', group: 'cadastro' },
+  { key: 'config.nome_fantasia', label: 'Nome fantasia', group: 'cadastro' },
+  { key: 'config.rg', label: 'RG', group: 'cadastro' },
+  { key: 'genero', label: 'Gênero', group: 'cadastro' },
+  { key: 'config.nascimento', label: 'Nascimento', group: 'cadastro' },
+  { key: 'config.escolaridade', label: 'Escolaridade', group: 'cadastro' },
+  { key: 'config.profissao', label: 'Profissão', group: 'cadastro' },
+  { key: 'status', label: 'Status', group: 'cadastro', default: true },
+  { key: 'points', label: 'Pontos', group: 'cadastro' },
+  { key: 'permission_id', label: 'Grupo (permissão)', group: 'cadastro' },
+  { key: 'autor_name', label: 'Cadastrado por', group: 'cadastro' },
+  { key: 'tags', label: 'Etiquetas', group: 'cadastro' },
+  { key: 'created_at', label: 'Cadastrado em', group: 'cadastro', default: true },
+  { key: 'updated_at', label: 'Atualizado em', group: 'cadastro' },
+  { key: 'excluido', label: 'Na lixeira', group: 'cadastro' },
+  { key: 'config.celular', label: 'Celular', group: 'contato', default: true },
+  { key: 'config.telefone_residencial', label: 'Telefone residencial', group: 'contato' },
+  { key: 'config.cep', label: 'CEP', group: 'contato' },
+  { key: 'config.endereco', label: 'Endereço', group: 'contato' },
+  { key: 'config.numero', label: 'Número', group: 'contato' },
+  { key: 'config.complemento', label: 'Complemento', group: 'contato' },
+  { key: 'config.bairro', label: 'Bairro', group: 'contato' },
+  { key: 'config.cidade', label: 'Cidade', group: 'contato', default: true },
+  { key: 'config.uf', label: 'UF', group: 'contato', default: true },
+  { key: 'config.observacoes', label: 'Observações', group: 'contato' },
+  { key: 'config.funnelId', label: 'Funil (ID)', group: 'funil' },
+  { key: 'config.stage_id', label: 'Etapa (ID)', group: 'funil' },
+];
+
+export const CLIENT_EXPORT_GROUP_LABELS: Record<ClientExportField['group'], string> = {
+  cadastro: 'Cadastro',
+  contato: 'Contato e endereço',
+  funil: 'Funil de atendimento',
+};
+
+export const DEFAULT_CLIENT_EXPORT_FIELDS = CLIENT_EXPORT_FIELDS.filter((field) => field.default).map((field) => field.key as string);
+
+export interface ClientExportOptions {
+  format: ClientExportFormat;
+  /** Chaves de `CLIENT_EXPORT_FIELDS`, na ordem da lista / `CLIENT_EXPORT_FIELDS` keys, in list order */
+  fields: string[];
+  documentMasking: ClientExportMasking;
+  phoneMasking: ClientExportMasking;
+}
+
+export const CLIENT_STATUS_LABELS: Record<ClientRecord['status'], string> = {
+  actived: 'Ativo',
+  inactived: 'Inativo',
+  pre_registred: 'Pré-cadastro',
+};
+
+const GENERO_LABELS: Record<ClientRecord['genero'], string> = { m: 'Masculino', f: 'Feminino', ni: 'Não informado' };
+
+/**
+ * maskDocument
+ * pt-BR: No modo `partial`, mantém só os dígitos do meio (ex.: ***.456.789-**), como no
+ *        padrão de divulgação de CPF.
+ * en-US: In `partial` mode, keeps only the middle digits (e.g. ***.456.789-**), as in the CPF
+ *        disclosure pattern.
+ */
+function maskDocument(value: string | null | undefined, masking: ClientExportMasking): string {
+  const digits = onlyDigits(value ?? '');
+  if (!digits) return '';
+  if (masking === 'digits') return digits;
+  const formatted = digits.length === 14 ? cnpjApplyMask(digits) : digits.length === 11 ? cpfApplyMask(digits) : String(value);
+  if (masking === 'formatted') return formatted;
+  const keepFrom = digits.length === 14 ? 2 : 3;
+  const keepTo = digits.length === 14 ? 8 : 9;
+  let position = 0;
+  return formatted.replace(/\d/g, (digit) => {
+    const kept = position >= keepFrom && position < keepTo;
+    position += 1;
+    return kept ? digit : '*';
+  });
+}
+
+/** `partial`: mantém DDD e os 4 últimos dígitos / keeps the area code and the last 4 digits */
+function maskPhone(value: string | null | undefined, masking: ClientExportMasking): string {
+  const digits = onlyDigits(value ?? '');
+  if (!digits) return '';
+  if (masking === 'digits') return digits;
+  const formatted = phoneApplyMask(digits);
+  if (masking === 'formatted') return formatted;
+  return formatted.replace(/\) (\d+)-/, (_match, middle: string) => `) ${'*'.repeat(middle.length)}-`);
+}
+
+function formatDateTime(value: string | null | undefined): string {
+  if (!value) return '';
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? value : date.toLocaleString('pt-BR');
+}
+
+/**
+ * exportValue
+ * pt-BR: Valor de um campo pronto para a planilha (rótulos em português, datas locais e máscaras).
+ * en-US: Field value ready for the spreadsheet (Portuguese labels, local dates and masks).
+ */
+function exportValue(client: ClientRecord, key: string, options: ClientExportOptions): string | number {
+  const config = client.config ?? {};
+  switch (key) {
+    case 'cpf':
+    case 'cnpj':
+      return maskDocument(client[key], options.documentMasking);
+    case 'config.celular':
+    case 'config.telefone_residencial':
+      return maskPhone(config[key === 'config.celular' ? 'celular' : 'telefone_residencial'], options.phoneMasking);
+    case 'tipo_pessoa':
+      return client.tipo_pessoa === 'pj' ? 'Jurídica' : 'Física';
+    case 'genero':
+      return GENERO_LABELS[client.genero] ?? '';
+    case 'status':
+      return CLIENT_STATUS_LABELS[client.status] ?? client.status ?? '';
+    case 'points':
+      return Number(client.points ?? 0);
+    case 'excluido':
+      return client.excluido === 's' ? 'Sim' : 'Não';
+    case 'tags':
+      return (client.tags ?? []).join(', ');
+    case 'created_at':
+    case 'updated_at':
+      return formatDateTime(client[key]);
+    default: {
+      const value = key.startsWith('config.')
+        ? config[key.slice('config.'.length) as ConfigExportField]
+        : client[key as keyof ClientRecord];
+      return value == null ? '' : String(value);
+    }
+  }
+}
+
+function selectedFields(options: ClientExportOptions): ClientExportField[] {
+  return CLIENT_EXPORT_FIELDS.filter((field) => options.fields.includes(field.key));
+}
+
+/**
+ * clientExportRows
+ * pt-BR: Cabeçalho + uma linha por cliente, para CSV e XLSX.
+ * en-US: Header + one row per client, for CSV and XLSX.
+ */
+export function clientExportRows(clients: ClientRecord[], options: ClientExportOptions): Array<Array<string | number>> {
+  const fields = selectedFields(options);
+  return [
+    fields.map((field) => field.label),
+    ...clients.map((client) => fields.map((field) => exportValue(client, field.key, options))),
+  ];
+}
+
+/**
+ * clientExportJson
+ * pt-BR: Objetos com as chaves técnicas e o `config` aninhado, como a API devolve; só as
+ *        máscaras são aplicadas.
+ * en-US: Objects with the technical keys and nested `config`, as the API returns them; only
+ *        the masks are applied.
+ */
+export function clientExportJson(clients: ClientRecord[], options: ClientExportOptions): string {
+  const fields = selectedFields(options);
+  const masked = new Set(['cpf', 'cnpj', 'config.celular', 'config.telefone_residencial']);
+  const data = clients.map((client) => {
+    const item: Record<string, unknown> = {};
+    const config: Record<string, unknown> = {};
+    fields.forEach(({ key }) => {
+      const raw = key.startsWith('config.')
+        ? client.config?.[key.slice('config.'.length) as ConfigExportField]
+        : client[key as keyof ClientRecord];
+      const value = masked.has(key) && raw ? exportValue(client, key, options) : raw ?? null;
+      if (key.startsWith('config.')) config[key.slice('config.'.length)] = value;
+      else item[key] = value;
+    });
+    if (Object.keys(config).length > 0) item.config = config;
+    return item;
+  });
+  return JSON.stringify(data, null, 2);
+}
@@ -0,0 +1,345 @@
+import { z } from 'zod';
+import { isValidCNPJ, isValidCPF, onlyDigits } from '@/lib/documents';
+import { cpfApplyMask } from '@/lib/masks/cpf-apply-mask';
+import { cnpjApplyMask } from '@/lib/masks/cnpj-apply-mask';
+import { cepApplyMask } from '@/lib/masks/cep-apply-mask';
+import { phoneApplyMask } from '@/lib/masks/phone-apply-mask';
+import { DUPLICATE_REASON_LABELS, findDuplicateCandidates, normalizeEmail, normalizePhone } from '@/lib/clientDuplicates';
+import type { ClientConfig, ClientImportRow, ClientRecord, CreateClientInput } from '@/types/clients';
+import type { FunnelRecord, StageRecord } from '@/types/pipelines';
+
+/**
+ * Importação de clientes por CSV/XLSX
+ * pt-BR: Cada campo do `CreateClientInput` (e do `config`) é ligado a uma coluna da planilha,
+ *        sugerida pelo cabeçalho. A validação roda inteira no navegador (prévia): documentos,
+ *        e-mail, telefones, CEP, datas, funil/etapa e duplicados contra a base e a própria
+ *        planilha. Nada é enviado à API aqui.
+ * en-US: Each `CreateClientInput` field (and `config` field) is linked to a spreadsheet column,
+ *        suggested by the header. Validation runs entirely in the browser (dry run): documents,
+ *        email, phones, CEP, dates, funnel/stage and duplicates against the database and the
+ *        sheet itself. Nothing is sent to the API here.
+ */
+
+type ConfigImportField = keyof Pick<ClientConfig,
+  'nome_fantasia' | 'celular' | 'telefone_residencial' | 'rg' | 'nascimento' | 'escolaridade' | 'profissao' |
+  'cep' | 'endereco' | 'numero' | 'complemento' | 'bairro' | 'cidade' | 'uf' | 'observacoes' | 'funnelId' | 'stage_id'>;
+
+export type ClientImportField =
+  | 'name' | 'email' | 'tipo_pessoa' | 'cpf' | 'cnpj' | 'razao' | 'genero' | 'status'
+  | `config.${ConfigImportField}`;
+
+/** Campo → cabeçalho da planilha / Field → spreadsheet header */
+export type ClientImportMapping = Partial<Record<ClientImportField, string>>;
+
+export interface ClientImportFieldDefinition {
+  key: ClientImportField;
+  label: string;
+  required?: boolean;
+  aliases: string[];
+}
+
+export const CLIENT_IMPORT_FIELDS: ClientImportFieldDefinition[] = [
+  { key: 'name', label: 'Nome', required: true, aliases: ['nome', 'name', 'nome_completo', 'cliente'] },
+  { key: 'email', label: 'E-mail', required: true, aliases: ['email', 'e-mail', 'e_mail'] },
+  { key: 'tipo_pessoa', label: 'Tipo de pessoa', aliases: ['tipo_pessoa', 'tipo', 'pessoa'] },
+  { key: 'cpf', label: 'CPF', aliases: ['cpf'] },
+  { key: 'cnpj', label: 'CNPJ', aliases: ['cnpj'] },
+  { key: 'razao', label: 'Razão social', aliases: ['razao', 'razao_social'] },
+  { key: 'genero', label: 'Gênero', aliases: ['genero', 'sexo'] },
+  { key: 'status', label: 'Status', aliases: ['status', 'situacao'] },
+  { key: 'config.nome_fantasia', label: 'Nome fantasia', aliases: ['nome_fantasia', 'fantasia'] },
+  { key: 'config.celular', label: 'Celular', aliases: ['celular', 'whatsapp', 'telefone', 'phone'] },
+  { key: 'config.telefone_residencial', label: 'Telefone residencial', aliases: ['telefone_residencial', 'telefone_fixo', 'fone'] },
+  { key: 'config.rg', label: 'RG', aliases: ['rg'] },
+  { key: 'config.nascimento', label: 'Nascimento', aliases: ['nascimento', 'data_nascimento', 'data_de_nascimento'] },
+  { key: 'config.escolaridade', label: 'Escolaridade', aliases: ['escolaridade'] },
+  { key: 'config.profissao', label: 'Profissão', aliases: ['profissao', 'ocupacao'] },
+  { key: 'config.cep', label: 'CEP', aliases: ['cep'] },
+  { key: 'config.endereco', label: 'Endereço', aliases: ['endereco', 'logradouro', 'rua'] },
+  { key: 'config.numero', label: 'Número', aliases: ['numero', 'nro'] },
+  { key: 'config.complemento', label: 'Complemento', aliases: ['complemento'] },
+  { key: 'config.bairro', label: 'Bairro', aliases: ['bairro'] },
+  { key: 'config.cidade', label: 'Cidade', aliases: ['cidade', 'municipio'] },
+  { key: 'config.uf', label: 'UF', aliases: ['uf', 'estado'] },
+  { key: 'config.observacoes', label: 'Observações', aliases: ['observacoes', 'observacao', 'obs'] },
+  { key: 'config.funnelId', label: 'Funil', aliases: ['funil', 'funnel', 'funnel_id'] },
+  { key: 'config.stage_id', label: 'Etapa', aliases: ['etapa', 'stage', 'stage_id'] },
+];
+
+export const CLIENT_IMPORT_TEMPLATE = [
+  'nome;email;cpf;celular;cep;cidade;uf;funil;etapa',
+  'Maria Souza;maria.souza@exemplo.com;529.982.247-25;(32) 99999-0000;36010-000;Juiz de Fora;MG;Atendimento;Novo lead',
+].join('\n');
+
+const TIPO_PESSOA_VALUES: Record<string, 'pf' | 'pj'> = {
+  pf: 'pf', fisica: 'pf', pessoa_fisica: 'pf', pj: 'pj', juridica: 'pj', pessoa_juridica: 'pj',
+};
+
+const GENERO_VALUES: Record<string, 'm' | 'f' | 'ni'> = {
+  m: 'm', masculino: 'm', f: 'f', feminino: 'f', ni: 'ni', nao_informado: 'ni', outro: 'ni',
+};
+
+const STATUS_VALUES: Record<string, CreateClientInput['status']> = {
+  actived: 'actived', ativo: 'actived', inactived: 'inactived', inativo: 'inactived',
+  pre_registred: 'pre_registred', pre_cadastro: 'pre_registred', lead: 'pre_registred',
+};
+
+const BRAZILIAN_STATES = new Set([
+  'AC', 'AL', 'AP', 'AM', 'BA', 'CE', 'DF', 'ES', 'GO', 'MA', 'MT', 'MS', 'MG', 'PA', 'PB',
+  'PR', 'PE', 'PI', 'RJ', 'RN', 'RS', 'RO', 'RR', 'SC', 'SP', 'SE', 'TO',
+]);
+
+const emailSchema = z.string().email();
+
+function normalize(value: string): string {
+  return value.trim().toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[\s-]+/g, '_');
+}
+
+/**
+ * suggestClientMapping
+ * pt-BR: Liga cada campo ao primeiro cabeçalho que bate com um de seus sinônimos.
+ * en-US: Links each field to the first header matching one of its aliases.
+ */
+export function suggestClientMapping(headers: string[]): ClientImportMapping {
+  const mapping: ClientImportMapping = {};
+  const used = new Set<string>();
+  CLIENT_IMPORT_FIELDS.forEach((field) => {
+    const header = headers.find((candidate) => !used.has(candidate) && field.aliases.includes(normalize(candidate)));
+    if (header) {
+      mapping[field.key] = header;
+      used.add(header);
+    }
+  });
+  return mapping;
+}
+
+export function missingRequiredFields(mapping: ClientImportMapping): string[] {
+  return CLIENT_IMPORT_FIELDS.filter((field) => field.required && !mapping[field.key]).map((field) => field.label);
+}
+
+/**
+ * digitsWithZeros
+ * pt-BR: Planilhas guardam CPF/CNPJ/CEP como número e perdem os zeros à esquerda; repõe quando
+ *        a célula só tem dígitos.
+ * en-US: Spreadsheets store CPF/CNPJ/CEP as numbers and drop leading zeros; puts them back when
+ *        the cell holds digits only.
+ */
+function digitsWithZeros(value: string, length: number): string {
+  const digits = onlyDigits(value);
+  return /^\d+$/.test(value) && digits.length < length && digits.length >= length - 3 ? digits.padStart(length, '0') : digits;
+}
+
+/**
+ * parseBirthDate
+ * pt-BR: Aceita dd/mm/aaaa, aaaa-mm-dd ou a data serial do Excel; devolve aaaa-mm-dd.
+ * en-US: Accepts dd/mm/yyyy, yyyy-mm-dd or the Excel serial date; returns yyyy-mm-dd.
+ */
+function parseBirthDate(value: string): string | null {
+  let date: Date | null = null;
+  const br = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (br) date = new Date(Date.UTC(Number(br[3]), Number(br[2]) - 1, Number(br[1])));
+  else if (/^\d{4}-\d{2}-\d{2}/.test(value)) date = new Date(`${value.slice(0, 10)}T00:00:00Z`);
+  else if (/^\d{4,5}$/.test(value)) date = new Date(Date.UTC(1899, 11, 30) + Number(value) * 86_400_000);
+  if (!date || Number.isNaN(date.getTime())) return null;
+  const iso = date.toISOString().slice(0, 10);
+  if (br && iso !== `${br[3]}-${br[2].padStart(2, '0')}-${br[1].padStart(2, '0')}`) return null;
+  const year = date.getUTCFullYear();
+  const now = new Date().getUTCFullYear();
+  return year > now - 120 && year <= now ? iso : null;
+}
+
+function findByIdOrName<T extends { id: string; name: string }>(items: T[], value: string): T | undefined {
+  return items.find((item) => String(item.id) === value) ?? items.find((item) => normalize(item.name) === normalize(value));
+}
+
+export interface ClientImportDefaults {
+  status: CreateClientInput['status'];
+  funnelId?: string;
+  stage_id?: string;
+}
+
+interface ValidateOptions {
+  existingClients: ClientRecord[];
+  funnels: FunnelRecord[];
+  stages: StageRecord[];
+  defaults: ClientImportDefaults;
+  autor?: string;
+}
+
+/**
+ * validateClientImport
+ * pt-BR: Prévia da importação: valida e normaliza cada linha (máscaras de CPF, CNPJ, CEP e
+ *        telefone), resolve funil/etapa por ID ou nome e procura duplicados. E-mail ou
+ *        documento já cadastrado é erro; semelhança mais fraca vira aviso.
+ * en-US: Import dry run: validates and normalizes each row (CPF, CNPJ, CEP and phone masks),
+ *        resolves funnel/stage by ID or name and looks for duplicates. An email or document
+ *        already registered is an error; weaker similarity becomes a warning.
+ */
+export function validateClientImport(
+  records: Record<string, string>[],
+  mapping: ClientImportMapping,
+  { existingClients, funnels, stages, defaults, autor }: ValidateOptions
+): ClientImportRow[] {
+  const existingEmails = new Map(existingClients.map((client) => [normalizeEmail(client.email), client]));
+  const seenEmails = new Map<string, number>();
+  const seenDocuments = new Map<string, number>();
+  const seenPhones = new Map<string, number>();
+
+  return records.map((record, index) => {
+    const line = index + 2;
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    const read = (field: ClientImportField) => (mapping[field] ? record[mapping[field]!] ?? '' : '').trim();
+
+    const name = read('name').replace(/\s+/g, ' ');
+    const email = read('email').toLowerCase();
+    if (!name) errors.push('Nome é obrigatório');
+
+    const emailKey = normalizeEmail(email);
+    if (!email) {
+      errors.push('E-mail é obrigatório');
+    } else if (!emailSchema.safeParse(email).success) {
+      errors.push('E-mail inválido');
+    } else if (existingEmails.has(emailKey)) {
+      errors.push(`E-mail já cadastrado (cliente #${existingEmails.get(emailKey)!.id})`);
+    } else if (seenEmails.has(emailKey)) {
+      errors.push(`E-mail repetido (linha ${seenEmails.get(emailKey)})`);
+    }
+    if (email && !seenEmails.has(emailKey)) seenEmails.set(emailKey, line);
+
+    // Documentos / Documents
+    const cpf = digitsWithZeros(read('cpf'), 11);
+    const cnpj = digitsWithZeros(read('cnpj'), 14);
+    const tipoValue = normalize(read('tipo_pessoa'));
+    const tipoPessoa = tipoValue ? TIPO_PESSOA_VALUES[tipoValue] : cnpj && !cpf ? 'pj' : 'pf';
+    if (!tipoPessoa) errors.push('Tipo de pessoa deve ser "pf" ou "pj"');
+    if (cpf && !isValidCPF(cpf)) errors.push('CPF inválido');
+    if (cnpj && !isValidCNPJ(cnpj)) errors.push('CNPJ inválido');
+    const razao = read('razao');
+    if (tipoPessoa === 'pj' && (!cnpj || !razao)) errors.push('CNPJ e razão social são obrigatórios para pessoa jurídica');
+    const document = tipoPessoa === 'pj' ? cnpj : cpf;
+    if (document && seenDocuments.has(document)) {
+      errors.push(`${tipoPessoa === 'pj' ? 'CNPJ' : 'CPF'} repetido (linha ${seenDocuments.get(document)})`);
+    } else if (document) {
+      seenDocuments.set(document, line);
+    }
+
+    const generoValue = normalize(read('genero'));
+    const genero = generoValue ? GENERO_VALUES[generoValue] : 'ni';
+    if (!genero) errors.push('Gênero deve ser "m", "f" ou "ni"');
+    const statusValue = normalize(read('status'));
+    const status = statusValue ? STATUS_VALUES[statusValue] : defaults.status;
+    if (!status) errors.push('Status deve ser ativo, inativo ou pré-cadastro');
+
+    // Contato e endereço / Contact and address
+    const phones: Partial<Record<'celular' | 'telefone_residencial', string>> = {};
+    (['celular', 'telefone_residencial'] as const).forEach((field) => {
+      const value = read(`config.${field}`);
+      if (!value) return;
+      const digits = onlyDigits(value);
+      if (digits.length < 10 || digits.length > 15) {
+        errors.push(`${field === 'celular' ? 'Celular' : 'Telefone residencial'} inválido`);
+        return;
+      }
+      phones[field] = phoneApplyMask(value);
+      const key = normalizePhone(value).slice(-8);
+      if (seenPhones.has(key)) warnings.push(`Mesmo telefone da linha ${seenPhones.get(key)}`);
+      else seenPhones.set(key, line);
+    });
+
+    const cep = digitsWithZeros(read('config.cep'), 8);
+    if (cep && cep.length !== 8) errors.push('CEP deve ter 8 dígitos');
+    const nascimentoValue = read('config.nascimento');
+    const nascimento = nascimentoValue ? parseBirthDate(nascimentoValue) : '';
+    if (nascimento === null) errors.push('Data de nascimento inválida');
+    const uf = read('config.uf').toUpperCase();
+    if (uf && !BRAZILIAN_STATES.has(uf)) errors.push('UF inválida');
+
+    // Funil e etapa / Funnel and stage
+    const funnelValue = read('config.funnelId') || defaults.funnelId || '';
+    const stageValue = read('config.stage_id') || defaults.stage_id || '';
+    let funnel = funnelValue ? findByIdOrName(funnels, funnelValue) : undefined;
+    if (funnelValue && !funnel) errors.push(`Funil "${funnelValue}" não existe`);
+    const stageOptions = funnel ? stages.filter((stage) => String(stage.funnel_id) === String(funnel!.id)) : stages;
+    const stage = stageValue ? findByIdOrName(stageOptions, stageValue) : undefined;
+    if (stageValue && !stage) errors.push(`Etapa "${stageValue}" não existe${funnel ? ` no funil ${funnel.name}` : ''}`);
+    if (stage && !funnel) funnel = funnels.find((item) => String(item.id) === String(stage.funnel_id));
+
+    const config: ClientConfig = {
+      nome_fantasia: read('config.nome_fantasia') || null,
+      ...phones,
+      rg: read('config.rg') || null,
+      nascimento: nascimento || null,
+      escolaridade: read('config.escolaridade') || null,
+      profissao: read('config.profissao') || null,
+      cep: cep ? cepApplyMask(cep) : null,
+      endereco: read('config.endereco') || null,
+      numero: read('config.numero') || null,
+      complemento: read('config.complemento') || null,
+      bairro: read('config.bairro') || null,
+      cidade: read('config.cidade') || null,
+      uf: uf || null,
+      observacoes: read('config.observacoes') || null,
+      funnelId: funnel ? String(funnel.id) : null,
+      stage_id: stage ? String(stage.id) : null,
+    };
+
+    // Duplicados na base (e-mail já tratado acima) / Duplicates in the database (email handled above)
+    if (errors.length === 0) {
+      const [candidate] = findDuplicateCandidates({ name, cpf, cnpj, config }, existingClients, 1);
+      if (candidate?.reasons.includes('document')) {
+        errors.push(`${tipoPessoa === 'pj' ? 'CNPJ' : 'CPF'} já cadastrado (cliente #${candidate.client.id} ${candidate.client.name})`);
+      } else if (candidate) {
+        const reasons = candidate.reasons.map((reason) => DUPLICATE_REASON_LABELS[reason].toLowerCase()).join(', ');
+        warnings.push(`Possível duplicado de #${candidate.client.id} ${candidate.client.name} (${reasons})`);
+      }
+    }
+
+    const payload: CreateClientInput | null = errors.length > 0 ? null : {
+      tipo_pessoa: tipoPessoa!,
+      name,
+      email,
+      cpf: tipoPessoa === 'pf' && cpf ? cpfApplyMask(cpf) : undefined,
+      cnpj: tipoPessoa === 'pj' ? cnpjApplyMask(cnpj) : undefined,
+      razao: tipoPessoa === 'pj' ? razao : undefined,
+      genero: genero!,
+      status: status!,
+      autor,
+      config,
+    };
+
+    return {
+      line,
+      name,
+      email,
+      status: errors.length ? 'error' : warnings.length ? 'warning' : 'ready',
+      errors,
+      warnings,
+      payload,
+    };
+  });
+}
+
+/**
+ * clientImportReport
+ * pt-BR: Linhas do relatório para download: situação da prévia e, depois da importação, as
+ *        recusas da API (`apiErrors` por linha).
+ * en-US: Report rows for download: dry run outcome and, after the import, the API refusals
+ *        (`apiErrors` by line).
+ */
+export function clientImportReport(rows: ClientImportRow[], apiErrors: Record<string, string> = {}): string[][] {
+  const labels: Record<ClientImportRow['status'], string> = { ready: 'Pronta', warning: 'Aviso', error: 'Erro' };
+  return [
+    ['linha', 'nome', 'email', 'situacao', 'mensagens'],
+    ...rows.map((row) => {
+      const apiError = apiErrors[String(row.line)];
+      return [
+        String(row.line),
+        row.name,
+        row.email,
+        apiError ? 'Recusada pela API' : labels[row.status],
+        [...row.errors, ...row.warnings, ...(apiError ? [apiError] : [])].join(' | '),
+      ];
+    }),
+  ];
+}
@@ -0,0 +1,343 @@
+import type {
+  ClientSegment,
+  ClientSegmentCondition,
+  ClientSegmentDefinition,
+  ClientSegmentField,
+  ClientSegmentGroup,
+  ClientSegmentOperator,
+} from '@/types/clients';
+
+/**
+ * Segmentos de clientes
+ * pt-BR: Campos e operadores do construtor de filtros e a avaliação de uma definição contra um
+ *        cliente. A API aplica as mesmas regras; o backend mock importa este módulo.
+ * en-US: Fields and operators of the filter builder and the evaluation of a definition against
+ *        a client. The API follows the same rules; the mock backend imports this module.
+ */
+
+export type ClientSegmentValueKind = 'text' | 'option' | 'number' | 'date';
+
+export interface ClientSegmentFieldDefinition {
+  key: ClientSegmentField;
+  label: string;
+  kind: ClientSegmentValueKind;
+  operators: ClientSegmentOperator[];
+  /** Unidade exibida ao lado do valor / Unit shown next to the value */
+  unit?: string;
+}
+
+/** Opção dos campos do tipo `option` / Option of `option` kind fields */
+export interface ClientSegmentOption {
+  value: string;
+  label: string;
+}
+
+export type ClientSegmentOptions = Partial<Record<ClientSegmentField, ClientSegmentOption[]>>;
+
+export const CLIENT_SEGMENT_FIELDS: ClientSegmentFieldDefinition[] = [
+  { key: 'cidade', label: 'Cidade', kind: 'text', operators: ['eq', 'neq', 'contains', 'empty', 'not_empty'] },
+  { key: 'uf', label: 'UF', kind: 'option', operators: ['eq', 'neq', 'empty'] },
+  { key: 'funnel', label: 'Funil', kind: 'option', operators: ['eq', 'neq', 'empty', 'not_empty'] },
+  { key: 'stage', label: 'Etapa', kind: 'option', operators: ['eq', 'neq'] },
+  { key: 'autor', label: 'Consultor', kind: 'option', operators: ['eq', 'neq', 'empty'] },
+  { key: 'status', label: 'Status', kind: 'option', operators: ['eq', 'neq'] },
+  { key: 'points', label: 'Saldo de pontos', kind: 'number', operators: ['gte', 'lte', 'between'] },
+  { key: 'age', label: 'Idade', kind: 'number', operators: ['gte', 'lte', 'between', 'empty'], unit: 'anos' },
+  { key: 'created_at', label: 'Cadastro', kind: 'date', operators: ['last_days', 'gte', 'lte', 'between'] },
+  { key: 'course', label: 'Curso', kind: 'option', operators: ['has', 'not_has'] },
+  { key: 'tag', label: 'Etiqueta', kind: 'text', operators: ['has', 'not_has'] },
+];
+
+const OPERATOR_LABELS: Record<ClientSegmentOperator, string> = {
+  eq: 'é',
+  neq: 'não é',
+  contains: 'contém',
+  gte: 'no mínimo',
+  lte: 'no máximo',
+  between: 'entre',
+  last_days: 'nos últimos',
+  empty: 'não informado',
+  not_empty: 'informado',
+  has: 'tem matrícula em',
+  not_has: 'não tem matrícula em',
+};
+
+const DATE_OPERATOR_LABELS: Partial<Record<ClientSegmentOperator, string>> = { gte: 'a partir de', lte: 'até' };
+
+const TAG_OPERATOR_LABELS: Partial<Record<ClientSegmentOperator, string>> = { has: 'tem', not_has: 'não tem' };
+
+export function segmentOperatorLabel(field: ClientSegmentFieldDefinition, operator: ClientSegmentOperator): string {
+  return (field.kind === 'date' && DATE_OPERATOR_LABELS[operator])
+    || (field.key === 'tag' && TAG_OPERATOR_LABELS[operator])
+    || OPERATOR_LABELS[operator];
+}
+
+export function segmentField(key: ClientSegmentField): ClientSegmentFieldDefinition {
+  return CLIENT_SEGMENT_FIELDS.find((field) => field.key === key) ?? CLIENT_SEGMENT_FIELDS[0];
+}
+
+export function operatorNeedsValue(operator: ClientSegmentOperator): boolean {
+  return operator !== 'empty' && operator !== 'not_empty';
+}
+
+/** Condição com os valores que o operador pede / Condition with the values its operator needs */
+export function isConditionComplete(condition: ClientSegmentCondition): boolean {
+  if (!operatorNeedsValue(condition.operator)) return true;
+  if (!String(condition.value ?? '').trim()) return false;
+  return condition.operator !== 'between' || !!String(condition.value_to ?? '').trim();
+}
+
+const newId = () => `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+export function newSegmentCondition(field: ClientSegmentField = 'cidade'): ClientSegmentCondition {
+  return { id: newId(), field, operator: segmentField(field).operators[0], value: '' };
+}
+
+export function newSegmentGroup(): ClientSegmentGroup {
+  return { id: newId(), match: 'all', conditions: [newSegmentCondition()] };
+}
+
+export function emptyClientSegment(): ClientSegmentDefinition {
+  return { match: 'all', groups: [newSegmentGroup()] };
+}
+
+/**
+ * compactSegment
+ * pt-BR: Só as condições completas e os grupos que sobraram; `null` se não sobrar nada.
+ * en-US: Only the complete conditions and the remaining groups; `null` if nothing is left.
+ */
+export function compactSegment(definition: ClientSegmentDefinition | null | undefined): ClientSegmentDefinition | null {
+  const groups = (definition?.groups ?? [])
+    .map((group) => ({ ...group, conditions: group.conditions.filter(isConditionComplete) }))
+    .filter((group) => group.conditions.length > 0);
+  return groups.length > 0 ? { match: definition?.match ?? 'all', groups } : null;
+}
+
+export function countSegmentConditions(definition: ClientSegmentDefinition | null | undefined): number {
+  return compactSegment(definition)?.groups.reduce((total, group) => total + group.conditions.length, 0) ?? 0;
+}
+
+/** Parâmetro `segment` da listagem / `segment` list param */
+export function segmentParam(definition: ClientSegmentDefinition | null | undefined): string | undefined {
+  const compact = compactSegment(definition);
+  return compact ? JSON.stringify(compact) : undefined;
+}
+
+/**
+ * ActiveClientSegment
+ * pt-BR: Segmento aplicado na lista: a definição em uso e, se veio de um segmento salvo, qual.
+ * en-US: Segment applied to the list: the definition in use and, if it came from a saved
+ *        segment, which one.
+ */
+export interface ActiveClientSegment {
+  definition: ClientSegmentDefinition;
+  saved?: ClientSegment | null;
+}
+
+/**
+ * segmentListParams
+ * pt-BR: `segment_id` quando o segmento salvo está aplicado sem mudanças; senão, a definição
+ *        em `segment`.
+ * en-US: `segment_id` when the saved segment is applied unchanged; otherwise the definition in
+ *        `segment`.
+ */
+export function segmentListParams(active: ActiveClientSegment | null | undefined): { segment?: string; segment_id?: string } {
+  if (!active) return {};
+  const segment = segmentParam(active.definition);
+  if (active.saved && segment === segmentParam(active.saved.definition)) return { segment_id: String(active.saved.id) };
+  return segment ? { segment } : {};
+}
+
+/**
+ * parseSegmentParam
+ * pt-BR: Lê o parâmetro `segment`; JSON inválido ou fora do formato vira `null`.
+ * en-US: Reads the `segment` param; invalid or malformed JSON becomes `null`.
+ */
+export function parseSegmentParam(text: string | null | undefined): ClientSegmentDefinition | null {
+  if (!text) return null;
+  try {
+    const parsed = JSON.parse(text) as ClientSegmentDefinition;
+    if (!parsed || !Array.isArray(parsed.groups)) return null;
+    const fields = new Set(CLIENT_SEGMENT_FIELDS.map((field) => field.key));
+    const groups = parsed.groups.map((group) => ({
+      id: String(group?.id ?? newId()),
+      match: group?.match === 'any' ? 'any' as const : 'all' as const,
+      conditions: (Array.isArray(group?.conditions) ? group.conditions : [])
+        .filter((condition) => fields.has(condition?.field) && segmentField(condition.field).operators.includes(condition.operator)),
+    }));
+    return compactSegment({ match: parsed.match === 'any' ? 'any' : 'all', groups });
+  } catch {
+    return null;
+  }
+}
+
+/** Campos do cliente lidos pelos segmentos / Client fields read by segments */
+export interface SegmentSubject {
+  id: string | number;
+  status?: unknown;
+  autor?: unknown;
+  points?: unknown;
+  created_at?: unknown;
+  tags?: unknown;
+  config?: {
+    cidade?: unknown;
+    uf?: unknown;
+    funnelId?: unknown;
+    stage_id?: unknown;
+    nascimento?: unknown;
+  } | null;
+}
+
+export interface ClientSegmentContext {
+  /** Cursos com matrícula por ID de cliente / Enrolled courses by client ID */
+  coursesByClient?: Map<string, Set<string>>;
+  now?: Date;
+}
+
+function normalize(value: unknown): string {
+  return String(value ?? '').trim().toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+}
+
+/**
+ * clientAge
+ * pt-BR: Idade em anos completos pela data de nascimento (aaaa-mm-dd ou dd/mm/aaaa).
+ * en-US: Age in full years from the birth date (yyyy-mm-dd or dd/mm/yyyy).
+ */
+export function clientAge(birthDate: unknown, now = new Date()): number | null {
+  const text = String(birthDate ?? '');
+  const match = text.match(/^(\d{4})-(\d{2})-(\d{2})/) ?? text.match(/^(\d{2})\/(\d{2})\/(\d{4})$/);
+  if (!match) return null;
+  const [year, month, day] = text.includes('/')
+    ? [Number(match[3]), Number(match[2]), Number(match[1])]
+    : [Number(match[1]), Number(match[2]), Number(match[3])];
+  let age = now.getFullYear() - year;
+  if (now.getMonth() + 1 < month || (now.getMonth() + 1 === month && now.getDate() < day)) age -= 1;
+  return age >= 0 && age < 150 ? age : null;
+}
+
+function subjectValue(client: SegmentSubject, field: ClientSegmentField, now: Date): string | number | null {
+  const config = client.config ?? {};
+  switch (field) {
+    case 'cidade': return normalize(config.cidade) || null;
+    case 'uf': return normalize(config.uf) || null;
+    case 'funnel': return config.funnelId ? String(config.funnelId) : null;
+    case 'stage': return config.stage_id ? String(config.stage_id) : null;
+    case 'autor': return client.autor ? String(client.autor) : null;
+    case 'status': return client.status ? String(client.status) : null;
+    case 'points': return Number(client.points ?? 0) || 0;
+    case 'age': return clientAge(config.nascimento, now);
+    case 'created_at': return client.created_at ? String(client.created_at).slice(0, 10) : null;
+    default: return null;
+  }
+}
+
+function matchesCondition(client: SegmentSubject, condition: ClientSegmentCondition, context: ClientSegmentContext): boolean {
+  const now = context.now ?? new Date();
+  const { field, operator } = condition;
+
+  if (field === 'course') {
+    const enrolled = context.coursesByClient?.get(String(client.id))?.has(String(condition.value)) ?? false;
+    return operator === 'has' ? enrolled : !enrolled;
+  }
+
+  if (field === 'tag') {
+    const tagged = Array.isArray(client.tags) && client.tags.some((tag) => normalize(tag) === normalize(condition.value));
+    return operator === 'has' ? tagged : !tagged;
+  }
+
+  const actual = subjectValue(client, field, now);
+  if (operator === 'empty') return actual === null;
+  if (operator === 'not_empty') return actual !== null;
+
+  const kind = segmentField(field).kind;
+  if (kind === 'number') {
+    if (actual === null) return false;
+    const value = Number(condition.value);
+    const upper = Number(condition.value_to);
+    if (operator === 'gte') return Number(actual) >= value;
+    if (operator === 'lte') return Number(actual) <= value;
+    if (operator === 'between') return Number(actual) >= Math.min(value, upper) && Number(actual) <= Math.max(value, upper);
+    return false;
+  }
+
+  if (kind === 'date') {
+    if (actual === null) return false;
+    const day = String(actual);
+    if (operator === 'last_days') {
+      const since = new Date(now.getTime() - Number(condition.value) * 86_400_000).toISOString().slice(0, 10);
+      return day >= since;
+    }
+    if (operator === 'gte') return day >= String(condition.value);
+    if (operator === 'lte') return day <= String(condition.value);
+    if (operator === 'between') return day >= String(condition.value) && day <= String(condition.value_to);
+    return false;
+  }
+
+  const text = actual === null ? '' : String(actual);
+  const expected = kind === 'text' || field === 'uf' ? normalize(condition.value) : String(condition.value);
+  if (operator === 'eq') return text === expected;
+  if (operator === 'neq') return text !== expected;
+  if (operator === 'contains') return text.includes(expected);
+  return false;
+}
+
+/**
+ * matchesClientSegment
+ * pt-BR: Diz se o cliente entra no segmento. Condições incompletas são ignoradas; sem nenhuma
+ *        condição completa, todos entram.
+ * en-US: Tells whether the client belongs to the segment. Incomplete conditions are ignored;
+ *        without any complete condition, everyone belongs.
+ */
+export function matchesClientSegment(
+  client: SegmentSubject,
+  definition: ClientSegmentDefinition | null | undefined,
+  context: ClientSegmentContext = {}
+): boolean {
+  const compact = compactSegment(definition);
+  if (!compact) return true;
+  const groupMatches = (group: ClientSegmentGroup) =>
+    group.match === 'any'
+      ? group.conditions.some((condition) => matchesCondition(client, condition, context))
+      : group.conditions.every((condition) => matchesCondition(client, condition, context));
+  return compact.match === 'any' ? compact.groups.some(groupMatches) : compact.groups.every(groupMatches);
+}
+
+/**
+ * segmentOptionLabeler
+ * pt-BR: Troca o ID de uma opção pelo nome, para `describeClientSegment`.
+ * en-US: Swaps an option ID for its name, for `describeClientSegment`.
+ */
+export function segmentOptionLabeler(options: ClientSegmentOptions | undefined) {
+  return (field: ClientSegmentField, value: string) =>
+    options?.[field]?.find((option) => option.value === value)?.label ?? value;
+}
+
+/**
+ * describeClientSegment
+ * pt-BR: Texto curto da definição (ex.: "Cidade contém juiz E Pontos no mínimo 100"); `label`
+ *        troca IDs de opções pelos nomes.
+ * en-US: Short text of the definition (e.g. "Cidade contém juiz E Pontos no mínimo 100");
+ *        `label` swaps option IDs for names.
+ */
+export function describeClientSegment(
+  definition: ClientSegmentDefinition | null | undefined,
+  label: (field: ClientSegmentField, value: string) => string = (_field, value) => value
+): string {
+  const compact = compactSegment(definition);
+  if (!compact) return 'Todos os clientes';
+  const joiner = (match: 'all' | 'any') => (match === 'any' ? ' OU ' : ' E ');
+  const groups = compact.groups.map((group) => {
+    const parts = group.conditions.map((condition) => {
+      const field = segmentField(condition.field);
+      const operator = segmentOperatorLabel(field, condition.operator);
+      if (!operatorNeedsValue(condition.operator)) return `${field.label} ${operator}`;
+      const value = field.kind === 'option' ? label(condition.field, String(condition.value)) : String(condition.value);
+      const suffix = condition.operator === 'last_days' ? ' dias' : field.unit ? ` ${field.unit}` : '';
+      const range = condition.operator === 'between' ? `${value} e ${condition.value_to}` : value;
+      return `${field.label} ${operator} ${range}${suffix}`;
+    });
+    const text = parts.join(joiner(group.match));
+    return compact.groups.length > 1 && parts.length > 1 ? `(${text})` : text;
+  });
+  return groups.join(joiner(compact.match));
+}
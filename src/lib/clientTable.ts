@@ -0,0 +1,14 @@
+import type { TableColumn } from '@/hooks/userPreferences';
+
+/**
+ * Colunas da tabela de clientes (ids usados nas preferências `table:clients`)
+ * Client table columns (ids used in the `table:clients` preferences)
+ */
+export const CLIENT_TABLE_COLUMNS: TableColumn[] = [
+  { id: 'name', label: 'Nome', required: true },
+  { id: 'document', label: 'CPF' },
+  { id: 'email', label: 'Email' },
+  { id: 'owner', label: 'Proprietário' },
+  { id: 'status', label: 'Status' },
+  { id: 'tags', label: 'Etiquetas' },
+];
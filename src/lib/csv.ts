@@ -0,0 +1,114 @@
+import { downloadBlob } from '@/lib/download';
+
+/**
+ * CSV
+ * pt-BR: Leitura de CSV com aspas, quebras de linha dentro de campos e detecção do
+ *        separador (`;` do Excel em pt-BR ou `,`).
+ * en-US: CSV parsing with quotes, line breaks inside fields and separator detection
+ *        (`;` from pt-BR Excel or `,`).
+ */
+
+export type CsvDelimiter = ';' | ',';
+
+export function detectDelimiter(text: string): CsvDelimiter {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? '';
+  const count = (char: string) => firstLine.split(char).length - 1;
+  return count(';') >= count(',') && count(';') > 0 ? ';' : ',';
+}
+
+/**
+ * parseCsv
+ * pt-BR: Devolve as linhas como listas de células, sem linhas vazias e sem o BOM do UTF-8.
+ * en-US: Returns the rows as cell lists, without empty lines and without the UTF-8 BOM.
+ */
+export function parseCsv(text: string, delimiter: CsvDelimiter = detectDelimiter(text)): string[][] {
+  const source = text.replace(/^\uFEFF/, '');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  row.push(cell);
+  rows.push(row);
+
+  return rows
+    .map((cells) => cells.map((value) => value.trim()))
+    .filter((cells) => cells.some((value) => value !== ''));
+}
+
+/**
+ * parseCsvRecords
+ * pt-BR: Usa a primeira linha como cabeçalho e devolve um objeto por linha.
+ * en-US: Uses the first row as header and returns one object per row.
+ */
+export function parseCsvRecords(text: string): { headers: string[]; records: Record<string, string>[] } {
+  return rowsToRecords(parseCsv(text));
+}
+
+/**
+ * rowsToRecords
+ * pt-BR: Primeira linha como cabeçalho (CSV ou XLSX); um objeto por linha seguinte.
+ * en-US: First row as header (CSV or XLSX); one object per following row.
+ */
+export function rowsToRecords(rows: string[][]): { headers: string[]; records: Record<string, string>[] } {
+  const [headers = [], ...data] = rows;
+  const records = data.map((cells) =>
+    Object.fromEntries(headers.map((header, index) => [header, cells[index] ?? '']))
+  );
+  return { headers, records };
+}
+
+// Início de célula que o Excel/LibreOffice interpretam como fórmula / Cell start spreadsheets read as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * toCsv
+ * pt-BR: Monta o CSV com aspas onde precisa; `;` por padrão, que o Excel em pt-BR abre direto.
+ *        Textos que começam como fórmula ganham um `'` na frente (injeção de fórmulas).
+ * en-US: Builds the CSV quoting where needed; `;` by default, which pt-BR Excel opens directly.
+ *        Text that starts like a formula gets a leading `'` (formula injection).
+ */
+export function toCsv(rows: Array<Array<string | number | null | undefined>>, delimiter: CsvDelimiter = ';'): string {
+  return rows
+    .map((cells) => cells.map((value) => {
+      const raw = value == null ? '' : String(value);
+      const text = typeof value === 'string' && FORMULA_PREFIX.test(raw) ? `'${raw}` : raw;
+      return /["\n\r;,]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    }).join(delimiter))
+    .join('\r\n');
+}
+
+/**
+ * downloadCsv
+ * pt-BR: Baixa o CSV com BOM para o Excel reconhecer o UTF-8.
+ * en-US: Downloads the CSV with a BOM so Excel recognizes UTF-8.
+ */
+export function downloadCsv(filename: string, content: string): void {
+  downloadBlob(filename, new Blob([`\uFEFF${content}`], { type: 'text/csv;charset=utf-8' }));
+}
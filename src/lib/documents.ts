@@ -0,0 +1,45 @@
+/**
+ * Documentos brasileiros
+ * pt-BR: Validação de CPF e CNPJ por dígitos verificadores, compartilhada pelos formulários
+ *        de cliente, pelo `SmartDocumentInput` e pelas importações em lote.
+ * en-US: CPF and CNPJ validation through check digits, shared by the client forms,
+ *        `SmartDocumentInput` and bulk imports.
+ */
+
+export function onlyDigits(value: string): string {
+  return value.replace(/\D/g, '');
+}
+
+export function isValidCPF(cpf: string): boolean {
+  const digits = onlyDigits(cpf);
+  if (digits.length !== 11 || /^(\d)\1{10}$/.test(digits)) return false;
+
+  const checkDigit = (length: number) => {
+    let sum = 0;
+    for (let i = 0; i < length; i++) {
+      sum += Number(digits.charAt(i)) * (length + 1 - i);
+    }
+    const remainder = (sum * 10) % 11;
+    return remainder === 10 ? 0 : remainder;
+  };
+
+  return checkDigit(9) === Number(digits.charAt(9)) && checkDigit(10) === Number(digits.charAt(10));
+}
+
+export function isValidCNPJ(cnpj: string): boolean {
+  const digits = onlyDigits(cnpj);
+  if (digits.length !== 14 || /^(\d)\1{13}$/.test(digits)) return false;
+
+  const checkDigit = (length: number) => {
+    let sum = 0;
+    let weight = 2;
+    for (let i = length - 1; i >= 0; i--) {
+      sum += Number(digits.charAt(i)) * weight;
+      weight = weight === 9 ? 2 : weight + 1;
+    }
+    const remainder = sum % 11;
+    return remainder < 2 ? 0 : 11 - remainder;
+  };
+
+  return checkDigit(12) === Number(digits.charAt(12)) && checkDigit(13) === Number(digits.charAt(13));
+}
@@ -0,0 +1,13 @@
+/**
+ * downloadBlob
+ * pt-BR: Baixa um conteúdo gerado no navegador com o nome informado.
+ * en-US: Downloads browser-generated content under the given name.
+ */
+export function downloadBlob(filename: string, blob: Blob): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
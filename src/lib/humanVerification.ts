@@ -0,0 +1,34 @@
+import type { ComponentType } from 'react';
+
+/**
+ * Provedores de verificação humana
+ * pt-BR: Registro dos provedores do passo "não sou um robô", indexados pelo id que a API envia
+ *        em `captcha_provider`. O provedor `local` fica no próprio `HumanVerification`.
+ * en-US: Registry of the "I'm not a robot" step providers, keyed by the id the API sends in
+ *        `captcha_provider`. The `local` provider lives in `HumanVerification` itself.
+ */
+
+export interface HumanVerificationWidgetProps {
+  onVerify: (token: string) => void;
+  onExpire: () => void;
+}
+
+export interface HumanVerificationProvider {
+  id: string;
+  Widget: ComponentType<HumanVerificationWidgetProps>;
+}
+
+const providers = new Map<string, HumanVerificationProvider>();
+
+/**
+ * registerHumanVerificationProvider
+ * pt-BR: Registra outro provedor (ex.: reCAPTCHA, hCaptcha, Turnstile) com o id que a API envia.
+ * en-US: Registers another provider (e.g. reCAPTCHA, hCaptcha, Turnstile) under the id the API sends.
+ */
+export function registerHumanVerificationProvider(provider: HumanVerificationProvider): void {
+  providers.set(provider.id, provider);
+}
+
+export function getHumanVerificationProvider(id: string | undefined): HumanVerificationProvider | undefined {
+  return id ? providers.get(id) : undefined;
+}
@@ -0,0 +1,32 @@
+import type { ImpersonationSession } from '@/types/impersonation';
+
+/**
+ * Sessão do modo "ver como"
+ * pt-BR: Guardada no `sessionStorage`: vale só para a aba atual e some ao fechá-la, sem
+ *        afetar o login do administrador nas outras abas.
+ * en-US: Kept in `sessionStorage`: it only applies to the current tab and is gone once the
+ *        tab closes, without affecting the administrator's login in other tabs.
+ */
+export const IMPERSONATION_STORAGE_KEY = 'auth_impersonation';
+
+export function readImpersonation(): ImpersonationSession | null {
+  try {
+    const raw = sessionStorage.getItem(IMPERSONATION_STORAGE_KEY);
+    const parsed = raw ? (JSON.parse(raw) as ImpersonationSession) : null;
+    return parsed?.user?.id ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+export function storeImpersonation(session: ImpersonationSession): void {
+  sessionStorage.setItem(IMPERSONATION_STORAGE_KEY, JSON.stringify(session));
+}
+
+export function clearImpersonation(): void {
+  sessionStorage.removeItem(IMPERSONATION_STORAGE_KEY);
+}
+
+export function isImpersonationActive(): boolean {
+  return readImpersonation() !== null;
+}
@@ -10,7 +10,8 @@ import {
   Settings,
   LucideIcon,
 } from "lucide-react";
-import { MenuItemDTO, MenuItemResolved } from "@/types/menu";
+import { MenuAccessFlag, MenuItemDTO, MenuItemResolved } from "@/types/menu";
+import { AccessFlags, PermissionAction } from "@/types/permissions";
 
 // Icon map for resolving string icon names to components
 export const iconMap: Record<string, LucideIcon> = {
@@ -25,15 +26,20 @@ export const iconMap: Record<string, LucideIcon> = {
   Settings,
 };
 
-// Helper to check if can_view is truthy (considers 1, '1', true as truthy)
-export function isCanViewTruthy(canView?: boolean | number | '0' | '1'): boolean {
-  if (canView === undefined || canView === null) return false;
-  if (typeof canView === 'boolean') return canView;
-  if (typeof canView === 'number') return canView === 1;
-  if (typeof canView === 'string') return canView === '1';
+// Helper to check if an access flag is truthy (considers 1, '1', true as truthy)
+export function isAccessFlagTruthy(flag?: MenuAccessFlag): boolean {
+  if (flag === undefined || flag === null) return false;
+  if (typeof flag === 'boolean') return flag;
+  if (typeof flag === 'number') return flag === 1;
+  if (typeof flag === 'string') return flag === '1';
   return false;
 }
 
+// Helper to check if can_view is truthy (considers 1, '1', true as truthy)
+export function isCanViewTruthy(canView?: MenuAccessFlag): boolean {
+  return isAccessFlagTruthy(canView);
+}
+
 // Resolve menu DTOs to menu items with actual icon components
 export function buildMenuFromDTO(menuDTO: MenuItemDTO[]): MenuItemResolved[] {
   return menuDTO.map((item) => ({
@@ -60,6 +66,75 @@ export function findMenuItemByUrl(menu: MenuItemDTO[], url: string): MenuItemDTO
   return undefined;
 }
 
+/**
+ * findMenuItemForPath
+ * pt-BR: Encontra o item de menu que cobre uma rota: URL exata ou, se não houver, o item com a
+ *        maior URL que seja prefixo da rota (`/admin/clients/12/edit` → `/admin/clients`).
+ * en-US: Finds the menu item covering a route: exact URL or, failing that, the item with the
+ *        longest URL that prefixes the route (`/admin/clients/12/edit` → `/admin/clients`).
+ */
+export function findMenuItemForPath(menu: MenuItemDTO[], path: string): MenuItemDTO | undefined {
+  const exact = findMenuItemByUrl(menu, path);
+  if (exact) return exact;
+
+  let best: MenuItemDTO | undefined;
+  const visit = (items: MenuItemDTO[]) => {
+    items.forEach((item) => {
+      if (item.url && item.url !== '#' && path.startsWith(`${item.url.replace(/\/$/, '')}/`)) {
+        if (!best || (best.url?.length ?? 0) < item.url.length) best = item;
+      }
+      if (item.items) visit(item.items);
+    });
+  };
+  visit(menu);
+  return best;
+}
+
+/**
+ * resolveMenuAbilities
+ * pt-BR: Flags de ação do usuário para uma rota. Regras:
+ *        - menu vazio ou rota fora do menu: tudo liberado (a API continua respondendo 403);
+ *        - flag de ação ausente no item (APIs que só enviam `can_view`): herda `can_view`.
+ * en-US: User action flags for a route. Rules:
+ *        - empty menu or route outside the menu: everything allowed (the API still answers 403);
+ *        - action flag missing on the item (APIs that only send `can_view`): inherits `can_view`.
+ */
+export function resolveMenuAbilities(menu: MenuItemDTO[] | undefined, path: string): AccessFlags {
+  const item = menu && menu.length > 0 ? findMenuItemForPath(menu, path) : undefined;
+  if (!item) {
+    return { can_view: true, can_create: true, can_edit: true, can_delete: true, can_upload: true };
+  }
+  const canView = isAccessFlagTruthy(item.can_view);
+  const flag = (value?: MenuAccessFlag) => (value === undefined || value === null ? canView : isAccessFlagTruthy(value));
+  return {
+    can_view: canView,
+    can_create: flag(item.can_create),
+    can_edit: flag(item.can_edit),
+    can_delete: flag(item.can_delete),
+    can_upload: flag(item.can_upload),
+  };
+}
+
+export function canPerform(menu: MenuItemDTO[] | undefined, action: PermissionAction, path: string): boolean {
+  return resolveMenuAbilities(menu, path)[`can_${action}`];
+}
+
+/**
+ * hasAdminAccess
+ * pt-BR: O usuário entra no painel quando o menu da API tem ao menos um item visível. Sem menu
+ *        (APIs antigas), mantém a regra anterior por nível: `permission_id` até 5.
+ * en-US: The user may enter the admin panel when the API menu has at least one visible item.
+ *        Without a menu (older APIs), keeps the former level rule: `permission_id` up to 5.
+ */
+export function hasAdminAccess(menu: MenuItemDTO[] | undefined, permissionId?: string | number | null): boolean {
+  if (menu && menu.length > 0) {
+    const anyVisible = (items: MenuItemDTO[]): boolean =>
+      items.some((item) => isCanViewTruthy(item.can_view) || anyVisible(item.items ?? []));
+    return anyVisible(menu);
+  }
+  return permissionId === undefined || permissionId === null || permissionId === '' || Number(permissionId) <= 5;
+}
+
 // Default menu structure when no menu is provided by API
 export const defaultMenu: MenuItemDTO[] = [
   {
@@ -275,6 +350,12 @@ export const defaultMenu: MenuItemDTO[] = [
         url: "/admin/settings/system",
         permission: "settings.system.view",
         can_view: true
+      },
+      {
+        title: "Auditoria",
+        url: "/admin/settings/audit-log",
+        permission: "settings.audit-log.view",
+        can_view: true
       }
     ]
   }
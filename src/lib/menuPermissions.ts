@@ -1,5 +1,22 @@
 import { MenuItemDTO } from '@/types/menu';
-import { PermissionTreeNode } from '@/types/permissions';
+import {
+  AccessFlagKey,
+  AccessFlags,
+  AccessFlagsMap,
+  MenuPermissionRow,
+  PermissionDiffEntry,
+  PermissionTreeNode,
+} from '@/types/permissions';
+
+export const ACCESS_FLAG_KEYS: AccessFlagKey[] = ['can_view', 'can_create', 'can_edit', 'can_delete', 'can_upload'];
+
+export const ACCESS_FLAG_LABELS: Record<AccessFlagKey, string> = {
+  can_view: 'Visualizar',
+  can_create: 'Criar',
+  can_edit: 'Editar',
+  can_delete: 'Excluir',
+  can_upload: 'Upload',
+};
 
 /**
  * Converts menu items into a flat array of permission tree nodes
@@ -16,6 +33,7 @@ export function buildPermissionTree(menuItems: MenuItemDTO[]): PermissionTreeNod
       id: item.id!,
       parent_id: item.parent_id ?? null,
       title: item.title,
+      url: item.url,
       level,
       hasChildren: !!(item.items && item.items.length > 0),
       parent: parentKey,
@@ -76,4 +94,90 @@ export function createInitialAccessFlags(menuItems: MenuItemDTO[]): Record<strin
   });
 
   return flags;
-}
\ No newline at end of file
+}
+
+/**
+ * accessFlagsFromRows
+ * pt-BR: Monta o mapa de flags da árvore a partir das linhas salvas de um grupo (ausentes = false).
+ * en-US: Builds the tree flags map from a group's saved rows (missing = false).
+ */
+export function accessFlagsFromRows(
+  menuItems: MenuItemDTO[],
+  tree: PermissionTreeNode[],
+  rows: MenuPermissionRow[] | undefined
+): AccessFlagsMap {
+  const flags: AccessFlagsMap = createInitialAccessFlags(menuItems);
+  const keyByMenuId = new Map(tree.map(node => [String(node.id), node.key]));
+
+  (rows ?? []).forEach(row => {
+    const key = keyByMenuId.get(String(row.menu_id));
+    if (!key || !flags[key]) return;
+    flags[key] = {
+      can_view: !!row.can_view,
+      can_create: !!row.can_create,
+      can_edit: !!row.can_edit,
+      can_delete: !!row.can_delete,
+      can_upload: !!row.can_upload,
+    };
+  });
+
+  return flags;
+}
+
+/**
+ * accessFlagsToRows
+ * pt-BR: Converte o mapa de flags nas linhas enviadas à API; só folhas, como a API espera.
+ * en-US: Converts the flags map into the rows sent to the API; leaves only, as the API expects.
+ */
+export function accessFlagsToRows(
+  tree: PermissionTreeNode[],
+  flags: Record<string, Partial<AccessFlags> | undefined>,
+  permissionId: string
+): MenuPermissionRow[] {
+  return tree
+    .filter(node => !node.hasChildren && flags[node.key])
+    .map(node => {
+      const nodeFlags = flags[node.key]!;
+      return {
+        permission_id: permissionId,
+        menu_id: node.id ?? node.key,
+        parent_id: node.parent_id ?? null,
+        can_view: !!nodeFlags.can_view,
+        can_create: !!nodeFlags.can_create,
+        can_edit: !!nodeFlags.can_edit,
+        can_delete: !!nodeFlags.can_delete,
+        can_upload: !!nodeFlags.can_upload,
+      };
+    });
+}
+
+/**
+ * diffAccessFlags
+ * pt-BR: Lista, por item de menu (folhas), as flags que diferem entre `before` e `after`.
+ * en-US: Lists, per menu item (leaves), the flags that differ between `before` and `after`.
+ */
+export function diffAccessFlags(
+  tree: PermissionTreeNode[],
+  before: Record<string, Partial<AccessFlags> | undefined>,
+  after: Record<string, Partial<AccessFlags> | undefined>
+): PermissionDiffEntry[] {
+  const titleByKey = new Map(tree.map(node => [node.key, node.title]));
+  const pathOf = (node: PermissionTreeNode): string =>
+    node.parent && titleByKey.has(node.parent) ? `${titleByKey.get(node.parent)} › ${node.title}` : node.title;
+
+  return tree
+    .filter(node => !node.hasChildren)
+    .map(node => ({
+      key: node.key,
+      title: node.title,
+      path: pathOf(node),
+      changes: ACCESS_FLAG_KEYS
+        .map(flag => ({
+          flag,
+          before: !!before[node.key]?.[flag],
+          after: !!after[node.key]?.[flag],
+        }))
+        .filter(change => change.before !== change.after),
+    }))
+    .filter(entry => entry.changes.length > 0);
+}
@@ -0,0 +1,93 @@
+import { z } from 'zod';
+import type { PasswordPolicy, SecurityPolicy } from '@/types/security';
+import { isBreachedPassword } from './breachedPasswords';
+
+/**
+ * Política de senhas
+ * pt-BR: Regras da política, força da senha e o schema zod usado pelos formulários.
+ * en-US: Policy rules, password strength and the zod schema used by the forms.
+ */
+
+export const DEFAULT_SECURITY_POLICY: SecurityPolicy = {
+  password: {
+    min_length: 8,
+    require_uppercase: true,
+    require_lowercase: true,
+    require_number: true,
+    require_symbol: false,
+    history_size: 3,
+    block_breached: true,
+  },
+  login: {
+    captcha_after: 3,
+    lockout_after: 6,
+    lockout_minutes: 15,
+    passwordless_enabled: false,
+  },
+};
+
+export interface PasswordRule {
+  id: string;
+  label: string;
+  test: (password: string) => boolean;
+}
+
+/**
+ * passwordRules
+ * pt-BR: Regras verificáveis no navegador; o histórico fica só na API.
+ * en-US: Rules checkable in the browser; the history stays in the API only.
+ */
+export function passwordRules(policy: PasswordPolicy): PasswordRule[] {
+  const rules: PasswordRule[] = [
+    { id: 'length', label: `Pelo menos ${policy.min_length} caracteres`, test: (password) => password.length >= policy.min_length },
+  ];
+  if (policy.require_uppercase) rules.push({ id: 'uppercase', label: 'Uma letra maiúscula', test: (password) => /[A-Z]/.test(password) });
+  if (policy.require_lowercase) rules.push({ id: 'lowercase', label: 'Uma letra minúscula', test: (password) => /[a-z]/.test(password) });
+  if (policy.require_number) rules.push({ id: 'number', label: 'Um número', test: (password) => /\d/.test(password) });
+  if (policy.require_symbol) rules.push({ id: 'symbol', label: 'Um símbolo (ex.: ! @ # $)', test: (password) => /[^A-Za-z0-9]/.test(password) });
+  if (policy.block_breached) rules.push({ id: 'breached', label: 'Não estar na lista de senhas vazadas', test: (password) => !!password && !isBreachedPassword(password) });
+  return rules;
+}
+
+export function passwordPolicyErrors(password: string, policy: PasswordPolicy): string[] {
+  return passwordRules(policy).filter((rule) => !rule.test(password)).map((rule) => rule.label);
+}
+
+export interface PasswordStrength {
+  /** 0 (muito fraca) a 4 (forte) / 0 (very weak) to 4 (strong) */
+  score: 0 | 1 | 2 | 3 | 4;
+  label: string;
+}
+
+const STRENGTH_LABELS = ['Muito fraca', 'Fraca', 'Razoável', 'Boa', 'Forte'];
+
+/**
+ * passwordStrength
+ * pt-BR: Estimativa simples por tamanho e variedade de caracteres; senha vazada é sempre 0.
+ * en-US: Simple estimate from length and character variety; a breached password is always 0.
+ */
+export function passwordStrength(password: string): PasswordStrength {
+  if (!password || isBreachedPassword(password)) return { score: 0, label: STRENGTH_LABELS[0] };
+  const classes = [/[a-z]/, /[A-Z]/, /\d/, /[^A-Za-z0-9]/].filter((pattern) => pattern.test(password)).length;
+  let points = classes - 1;
+  if (password.length >= 8) points += 1;
+  if (password.length >= 12) points += 1;
+  if (password.length >= 16) points += 1;
+  if (/(.)\1{2,}/.test(password)) points -= 1;
+  const score = Math.max(0, Math.min(4, points)) as PasswordStrength['score'];
+  return { score, label: STRENGTH_LABELS[score] };
+}
+
+/**
+ * passwordSchema
+ * pt-BR: Campo de senha nova que aplica a política (uma mensagem por regra não atendida).
+ * en-US: New-password field enforcing the policy (one message per unmet rule).
+ */
+export function passwordSchema(policy: PasswordPolicy) {
+  return z.string().superRefine((password, ctx) => {
+    const errors = passwordPolicyErrors(password, policy);
+    if (errors.length) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `A senha precisa ter: ${errors.join(', ').toLowerCase()}` });
+    }
+  });
+}
@@ -0,0 +1,123 @@
+import { AccessFlagKey, AccessFlagsMap, PermissionTemplate, PermissionTreeNode } from '@/types/permissions';
+import { ACCESS_FLAG_KEYS } from '@/lib/menuPermissions';
+
+const VIEW: AccessFlagKey[] = ['can_view'];
+const WRITE: AccessFlagKey[] = ['can_view', 'can_create', 'can_edit', 'can_upload'];
+const ALL: AccessFlagKey[] = ACCESS_FLAG_KEYS;
+
+const DASHBOARDS = [
+  { match: '/admin/aero-dashboard', flags: VIEW },
+  { match: '/admin/metrics-dashboard', flags: VIEW },
+];
+
+/**
+ * Modelos de grupo de permissão
+ * pt-BR: Perfis prontos para criar um grupo sem marcar a árvore item a item. As regras usam
+ *        prefixos de URL do menu, então valem também para itens novos dentro de cada módulo.
+ * en-US: Ready-made profiles to create a group without ticking the tree item by item. Rules use
+ *        menu URL prefixes, so they also cover new items inside each module.
+ */
+export const PERMISSION_TEMPLATES: PermissionTemplate[] = [
+  {
+    id: 'admin',
+    name: 'Admin',
+    description: 'Acesso total a todos os módulos',
+    rules: [{ match: '*', flags: ALL }],
+  },
+  {
+    id: 'consultor',
+    name: 'Consultor',
+    description: 'Clientes, vendas e orçamentos; catálogo e cursos apenas para consulta',
+    rules: [
+      ...DASHBOARDS,
+      { match: '/admin/clients', flags: WRITE },
+      { match: '/admin/sales', flags: WRITE },
+      { match: '/admin/budgets', flags: WRITE },
+      { match: '/admin/partners', flags: VIEW },
+      { match: '/admin/products', flags: VIEW },
+      { match: '/admin/services', flags: VIEW },
+      { match: '/admin/school', flags: VIEW },
+    ],
+  },
+  {
+    id: 'instrutor',
+    name: 'Instrutor',
+    description: 'Cursos e turmas; clientes e aeronaves apenas para consulta',
+    rules: [
+      ...DASHBOARDS,
+      { match: '/admin/school', flags: WRITE },
+      { match: '/admin/clients', flags: VIEW },
+      { match: '/admin/aircrafts', flags: VIEW },
+    ],
+  },
+  {
+    id: 'mecanico',
+    name: 'Mecânico',
+    description: 'Ordens de serviço e objetos de serviço; aeronaves e catálogo para consulta',
+    rules: [
+      ...DASHBOARDS,
+      { match: '/admin/service-orders', flags: WRITE },
+      { match: '/admin/service-objects', flags: WRITE },
+      { match: '/admin/aircrafts', flags: VIEW },
+      { match: '/admin/products', flags: VIEW },
+      { match: '/admin/services', flags: VIEW },
+    ],
+  },
+  {
+    id: 'financeiro',
+    name: 'Financeiro',
+    description: 'Módulo financeiro completo e relatórios; clientes e vendas para consulta',
+    rules: [
+      ...DASHBOARDS,
+      { match: '/admin/finance', flags: ALL },
+      { match: '/admin/financial', flags: ALL },
+      { match: '/admin/reports', flags: VIEW },
+      { match: '/admin/clients', flags: VIEW },
+      { match: '/admin/sales', flags: VIEW },
+    ],
+  },
+  {
+    id: 'cliente',
+    name: 'Cliente',
+    description: 'Sem acesso ao painel administrativo (apenas área do cliente e loja)',
+    rules: [],
+  },
+];
+
+export function findPermissionTemplate(id: string): PermissionTemplate | undefined {
+  return PERMISSION_TEMPLATES.find(template => template.id === id);
+}
+
+function matchesRule(url: string | undefined, match: string): boolean {
+  if (match === '*') return true;
+  if (!url) return false;
+  return url === match || url.startsWith(`${match}/`);
+}
+
+/**
+ * applyPermissionTemplate
+ * pt-BR: Gera as flags da árvore para um modelo. Cada item usa a regra de prefixo mais longo;
+ *        itens sem regra ficam sem acesso. Só as folhas são salvas; a tela deriva os grupos delas.
+ * en-US: Builds the tree flags for a template. Each item uses the longest-prefix rule;
+ *        items without a rule get no access. Only leaves are saved; the page derives groups from them.
+ */
+export function applyPermissionTemplate(tree: PermissionTreeNode[], template: PermissionTemplate): AccessFlagsMap {
+  const flags: AccessFlagsMap = {};
+
+  tree.forEach(node => {
+    const rule = template.rules
+      .filter(candidate => matchesRule(node.url, candidate.match))
+      .sort((a, b) => b.match.length - a.match.length)[0];
+    const granted = new Set(rule?.flags ?? []);
+
+    flags[node.key] = {
+      can_view: granted.has('can_view'),
+      can_create: granted.has('can_create'),
+      can_edit: granted.has('can_edit'),
+      can_delete: granted.has('can_delete'),
+      can_upload: granted.has('can_upload'),
+    };
+  });
+
+  return flags;
+}
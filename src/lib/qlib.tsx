@@ -1,12 +1,14 @@
+import { getTenantId, getTenantIdFromHostname } from '@/lib/tenant';
+
 /**
  * getTenantIdFromSubdomain
- * pt-BR: Obtém o tenant_id a partir do subdomínio atual.
- * en-US: Gets the tenant_id from the current subdomain.
+ * pt-BR: Obtém o tenant_id a partir do subdomínio atual (só a estratégia de subdomínio).
+ *        Para o tenant efetivo, use `getTenantId()` de `@/lib/tenant`.
+ * en-US: Gets the tenant_id from the current subdomain (subdomain strategy only).
+ *        For the effective tenant, use `getTenantId()` from `@/lib/tenant`.
  */
 export function getTenantIdFromSubdomain(): string | null {
-  const host = window.location.hostname;
-  const parts = host.split('.');
-  return parts.length > 1 ? parts[0] : null;
+  return getTenantIdFromHostname(window.location.hostname);
 }
 
 /**
@@ -21,7 +23,7 @@ export function getTenantApiUrl(): string {
     (import.meta.env as any).VITE_API_URL ||
     'http://{tenant_id}.localhost:8000/api';
 
-  const tenant_id = getTenantIdFromSubdomain() || 'default';
+  const tenant_id = getTenantId();
   const replaced = raw.includes('{tenant_id}') ? raw.replace('{tenant_id}', tenant_id) : raw;
 
   // Normalize: remove trailing slashes to avoid double slashes when concatenating version
@@ -0,0 +1,201 @@
+/**
+ * Resolução de tenant
+ * pt-BR: Descobre o tenant atual percorrendo uma lista explícita de estratégias; a primeira
+ *        que encontrar um valor vence. Ordem padrão: override (suporte) → domínio próprio →
+ *        prefixo de caminho → subdomínio → padrão do env. Configurável via `VITE_TENANT_STRATEGIES`.
+ * en-US: Finds the current tenant by walking an explicit strategy list; the first one that
+ *        yields a value wins. Default order: override (support) → custom domain → path prefix →
+ *        subdomain → env default. Configurable through `VITE_TENANT_STRATEGIES`.
+ */
+
+export type TenantStrategy = 'override' | 'domain' | 'path' | 'subdomain' | 'default';
+
+export interface TenantResolution {
+  id: string;
+  source: TenantStrategy;
+}
+
+const DEFAULT_STRATEGIES: TenantStrategy[] = ['override', 'domain', 'path', 'subdomain', 'default'];
+const DEFAULT_IGNORED_SUBDOMAINS = ['www', 'app', 'api', 'admin'];
+const OVERRIDE_PARAM = 'tenant';
+const OVERRIDE_STORAGE_KEY = 'tenant_override';
+const TENANT_PATTERN = /^[a-z0-9][a-z0-9_-]*$/i;
+const IPV4_PATTERN = /^\d{1,3}(\.\d{1,3}){3}$/;
+
+function listFromEnv(value: string | undefined): string[] {
+  return String(value || '')
+    .split(',')
+    .map((item) => item.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+function isValidTenant(value: string | null | undefined): value is string {
+  return !!value && TENANT_PATTERN.test(value);
+}
+
+/**
+ * getTenantStrategies
+ * pt-BR: Estratégias ativas, na ordem de `VITE_TENANT_STRATEGIES` (nomes desconhecidos são ignorados).
+ * en-US: Active strategies, in `VITE_TENANT_STRATEGIES` order (unknown names are ignored).
+ */
+export function getTenantStrategies(): TenantStrategy[] {
+  const configured = listFromEnv(import.meta.env.VITE_TENANT_STRATEGIES)
+    .filter((name): name is TenantStrategy => (DEFAULT_STRATEGIES as string[]).includes(name));
+  return configured.length ? configured : DEFAULT_STRATEGIES;
+}
+
+/**
+ * getTenantDomainMap
+ * pt-BR: Mapa de domínios próprios → tenant, de `VITE_TENANT_DOMAINS`. Aceita JSON
+ *        (`{"crm.cliente.com.br":"cliente"}`) ou pares `dominio=tenant` separados por vírgula.
+ * en-US: Custom domain → tenant map, from `VITE_TENANT_DOMAINS`. Accepts JSON
+ *        (`{"crm.client.com":"client"}`) or comma-separated `domain=tenant` pairs.
+ */
+export function getTenantDomainMap(): Record<string, string> {
+  const raw = String(import.meta.env.VITE_TENANT_DOMAINS || '').trim();
+  if (!raw) return {};
+  if (raw.startsWith('{')) {
+    try {
+      const parsed = JSON.parse(raw) as Record<string, unknown>;
+      return Object.fromEntries(Object.entries(parsed).map(([domain, tenant]) => [domain.toLowerCase(), String(tenant)]));
+    } catch {
+      console.warn('VITE_TENANT_DOMAINS inválido; esperado JSON ou "dominio=tenant".');
+      return {};
+    }
+  }
+  return Object.fromEntries(
+    raw.split(',')
+      .map((pair) => pair.split('=').map((part) => part.trim()))
+      .filter(([domain, tenant]) => domain && tenant)
+      .map(([domain, tenant]) => [domain.toLowerCase(), tenant])
+  );
+}
+
+/**
+ * isOverrideAllowed
+ * pt-BR: O override só vale em dev/mock ou para tenants de `VITE_TENANT_OVERRIDE_ALLOWLIST`;
+ *        assim um link montado não troca o tenant (headers e branding) de quem o abre.
+ * en-US: The override only applies in dev/mock or for tenants in `VITE_TENANT_OVERRIDE_ALLOWLIST`,
+ *        so a crafted link cannot switch the tenant (headers and branding) of whoever opens it.
+ */
+function isOverrideAllowed(tenant: string): boolean {
+  if (import.meta.env.DEV || import.meta.env.VITE_API_MOCK === 'true') return true;
+  return listFromEnv(import.meta.env.VITE_TENANT_OVERRIDE_ALLOWLIST).includes(tenant.toLowerCase());
+}
+
+let overrideFromUrl: string | null | undefined;
+
+/**
+ * fromOverride
+ * pt-BR: `?tenant=<id>` para a equipe de suporte. Lido uma vez por carregamento da página e
+ *        mantido só em memória: a navegação interna preserva o tenant, um novo carregamento
+ *        sem o parâmetro volta às demais estratégias.
+ * en-US: `?tenant=<id>` for support staff. Read once per page load and kept in memory only:
+ *        in-app navigation keeps the tenant, a new load without the param goes back to the
+ *        other strategies.
+ */
+function fromOverride(): string | null {
+  if (overrideFromUrl === undefined) {
+    const value = new URLSearchParams(window.location.search).get(OVERRIDE_PARAM)?.trim() || '';
+    overrideFromUrl = isValidTenant(value) && isOverrideAllowed(value) ? value : null;
+    // Versões anteriores guardavam o override na sessão da aba / Earlier versions kept it in the tab session
+    sessionStorage.removeItem(OVERRIDE_STORAGE_KEY);
+  }
+  return overrideFromUrl;
+}
+
+function fromDomain(): string | null {
+  const tenant = getTenantDomainMap()[window.location.hostname.toLowerCase()];
+  return isValidTenant(tenant) ? tenant : null;
+}
+
+/**
+ * fromPath
+ * pt-BR: Com `VITE_TENANT_PATH_PREFIX=t`, `/t/<tenant>/...` identifica o tenant.
+ * en-US: With `VITE_TENANT_PATH_PREFIX=t`, `/t/<tenant>/...` identifies the tenant.
+ */
+function fromPath(): string | null {
+  const prefix = String(import.meta.env.VITE_TENANT_PATH_PREFIX || '').replace(/^\/+|\/+$/g, '');
+  if (!prefix) return null;
+  const [first, second] = window.location.pathname.split('/').filter(Boolean);
+  return first === prefix && isValidTenant(second) ? second : null;
+}
+
+/**
+ * getTenantIdFromHostname
+ * pt-BR: Primeiro rótulo do host quando ele é de fato um subdomínio: ignora IPs, hosts sem
+ *        subdomínio e os nomes de `VITE_TENANT_IGNORED_SUBDOMAINS` (padrão: www, app, api, admin).
+ *        Com `VITE_API_DOMAIN`, só considera hosts abaixo desse domínio.
+ * en-US: First host label when it really is a subdomain: ignores IPs, hosts without a
+ *        subdomain and the names in `VITE_TENANT_IGNORED_SUBDOMAINS` (default: www, app, api, admin).
+ *        With `VITE_API_DOMAIN`, only hosts under that domain are considered.
+ */
+export function getTenantIdFromHostname(hostname: string): string | null {
+  const host = hostname.toLowerCase();
+  if (!host || IPV4_PATTERN.test(host) || host.includes(':')) return null;
+
+  const ignored = listFromEnv(import.meta.env.VITE_TENANT_IGNORED_SUBDOMAINS);
+  const ignoreList = ignored.length ? ignored : DEFAULT_IGNORED_SUBDOMAINS;
+  const baseDomain = String(import.meta.env.VITE_API_DOMAIN || '').toLowerCase().replace(/^\.+/, '');
+
+  let candidate: string | undefined;
+  if (baseDomain) {
+    if (!host.endsWith(`.${baseDomain}`)) return null;
+    candidate = host.slice(0, -(baseDomain.length + 1)).split('.').pop();
+  } else {
+    const labels = host.split('.');
+    // `acme.localhost` tem subdomínio com dois rótulos; domínios públicos precisam de três
+    const minLabels = labels[labels.length - 1] === 'localhost' ? 2 : 3;
+    if (labels.length < minLabels) return null;
+    candidate = labels[0];
+  }
+
+  return isValidTenant(candidate) && !ignoreList.includes(candidate) ? candidate : null;
+}
+
+function fromDefault(): string {
+  const configured = String(import.meta.env.VITE_TENANT_DEFAULT || '').trim();
+  return isValidTenant(configured) ? configured : 'default';
+}
+
+const resolvers: Record<TenantStrategy, () => string | null> = {
+  override: fromOverride,
+  domain: fromDomain,
+  path: fromPath,
+  subdomain: () => getTenantIdFromHostname(window.location.hostname),
+  default: fromDefault,
+};
+
+/**
+ * resolveTenant
+ * pt-BR: Tenant atual e a estratégia que o definiu. Sem nenhuma correspondência, usa o padrão do env.
+ * en-US: Current tenant and the strategy that defined it. With no match, uses the env default.
+ */
+export function resolveTenant(): TenantResolution {
+  for (const strategy of getTenantStrategies()) {
+    const id = resolvers[strategy]();
+    if (id) return { id, source: strategy };
+  }
+  return { id: fromDefault(), source: 'default' };
+}
+
+/**
+ * getTenantId
+ * pt-BR: Atalho para `resolveTenant().id`.
+ * en-US: Shortcut for `resolveTenant().id`.
+ */
+export function getTenantId(): string {
+  return resolveTenant().id;
+}
+
+/**
+ * getTenantBasename
+ * pt-BR: `basename` do roteador quando a URL usa o prefixo de tenant (ex.: `/t/acme`).
+ * en-US: Router `basename` when the URL uses the tenant prefix (e.g. `/t/acme`).
+ */
+export function getTenantBasename(): string | undefined {
+  const tenant = fromPath();
+  if (!tenant) return undefined;
+  const prefix = String(import.meta.env.VITE_TENANT_PATH_PREFIX || '').replace(/^\/+|\/+$/g, '');
+  return `/${prefix}/${tenant}`;
+}
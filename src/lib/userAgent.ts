@@ -0,0 +1,42 @@
+/**
+ * Descrição de dispositivos
+ * pt-BR: Converte o user agent em "Navegador · Sistema" para a lista de sessões ativas.
+ *        Só reconhece os casos comuns; o restante aparece como "Navegador desconhecido".
+ * en-US: Turns the user agent into "Browser · OS" for the active sessions list.
+ *        Only recognizes the common cases; anything else shows as "Unknown browser".
+ */
+
+export type DeviceKind = 'mobile' | 'tablet' | 'desktop';
+
+export interface DeviceDescription {
+  browser: string;
+  os: string;
+  kind: DeviceKind;
+}
+
+// A ordem importa: Edge e Opera também dizem "Chrome", e o Chrome também diz "Safari"
+const BROWSERS: Array<[RegExp, string]> = [
+  [/Edg\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/SamsungBrowser/, 'Samsung Internet'],
+  [/Firefox\/|FxiOS/, 'Firefox'],
+  [/Chrome\/|CriOS/, 'Chrome'],
+  [/Safari\//, 'Safari'],
+];
+
+const SYSTEMS: Array<[RegExp, string]> = [
+  [/Windows/, 'Windows'],
+  [/iPhone|iPad|iPod/, 'iOS'],
+  [/Android/, 'Android'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/CrOS/, 'ChromeOS'],
+  [/Linux/, 'Linux'],
+];
+
+export function describeUserAgent(userAgent?: string | null): DeviceDescription {
+  const ua = userAgent ?? '';
+  const browser = BROWSERS.find(([pattern]) => pattern.test(ua))?.[1] ?? 'Navegador desconhecido';
+  const os = SYSTEMS.find(([pattern]) => pattern.test(ua))?.[1] ?? 'Sistema desconhecido';
+  const kind: DeviceKind = /iPad|Tablet/.test(ua) ? 'tablet' : /Mobi|iPhone|Android/.test(ua) ? 'mobile' : 'desktop';
+  return { browser, os, kind };
+}
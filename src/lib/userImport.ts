@@ -0,0 +1,180 @@
+import { z } from 'zod';
+import { isValidCPF, onlyDigits } from '@/lib/documents';
+import { cpfApplyMask } from '@/lib/masks/cpf-apply-mask';
+import type { PermissionRecord } from '@/types/permissions';
+import type { CreateUserInput, UserConfig, UserImportRow } from '@/types/users';
+
+/**
+ * Importação de usuários por CSV
+ * pt-BR: Lê as colunas pelo cabeçalho (com sinônimos em português e inglês), valida cada
+ *        linha e monta o `CreateUserInput`. Nada é enviado à API aqui.
+ * en-US: Reads columns by header (with Portuguese and English synonyms), validates each row
+ *        and builds the `CreateUserInput`. Nothing is sent to the API here.
+ */
+
+type ImportField = 'name' | 'email' | 'cpf' | 'group' | 'phone' | 'password' | 'active';
+
+const FIELD_ALIASES: Record<ImportField, string[]> = {
+  name: ['nome', 'name', 'nome_completo'],
+  email: ['email', 'e-mail', 'e_mail'],
+  cpf: ['cpf'],
+  group: ['grupo', 'permissao', 'grupo_de_permissao', 'permission', 'permission_id'],
+  phone: ['celular', 'telefone', 'phone'],
+  password: ['senha', 'password'],
+  active: ['ativo', 'active'],
+};
+
+const REQUIRED_FIELDS: ImportField[] = ['name', 'email', 'group'];
+
+const PASSWORD_GROUPS = ['ABCDEFGHJKLMNPQRSTUVWXYZ', 'abcdefghijkmnopqrstuvwxyz', '23456789', '!@#$%&*?'];
+const PASSWORD_LENGTH = 20;
+
+export const USER_IMPORT_TEMPLATE = [
+  'nome;email;cpf;grupo;celular;senha;ativo',
+  'Maria Souza;maria.souza@exemplo.com;529.982.247-25;Instrutor;(32) 99999-0000;;s',
+].join('\n');
+
+const ACTIVE_VALUES: Record<string, 's' | 'n'> = {
+  s: 's', sim: 's', '1': 's', true: 's', ativo: 's',
+  n: 'n', nao: 'n', '0': 'n', false: 'n', inativo: 'n',
+};
+
+const emailSchema = z.string().email();
+
+function normalize(value: string): string {
+  return value.trim().toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/\s+/g, '_');
+}
+
+function randomIndex(size: number): number {
+  return crypto.getRandomValues(new Uint32Array(1))[0] % size;
+}
+
+/**
+ * generateImportPassword
+ * pt-BR: Senha aleatória para linhas sem senha, com letras maiúsculas, minúsculas, números e
+ *        símbolos (atende a qualquer combinação da política). Ninguém a conhece: o usuário
+ *        define a própria pelo e-mail de redefinição.
+ * en-US: Random password for rows without one, with uppercase and lowercase letters, digits
+ *        and symbols (meets any policy combination). Nobody knows it: the user sets their
+ *        own through the reset email.
+ */
+export function generateImportPassword(): string {
+  const all = PASSWORD_GROUPS.join('');
+  const chars = PASSWORD_GROUPS.map((group) => group[randomIndex(group.length)]);
+  while (chars.length < PASSWORD_LENGTH) chars.push(all[randomIndex(all.length)]);
+  for (let index = chars.length - 1; index > 0; index -= 1) {
+    const swap = randomIndex(index + 1);
+    [chars[index], chars[swap]] = [chars[swap], chars[index]];
+  }
+  return chars.join('');
+}
+
+function emptyConfig(): UserConfig {
+  return {
+    nome_fantasia: '', celular: '', telefone_residencial: '', telefone_comercial: '', rg: '',
+    nascimento: '', escolaridade: '', profissao: '', tipo_pj: '', cep: '', endereco: '',
+    numero: '', complemento: '', bairro: '', cidade: '', uf: '',
+  };
+}
+
+/**
+ * mapHeaders
+ * pt-BR: Associa cada campo ao cabeçalho da planilha e aponta as colunas obrigatórias ausentes.
+ * en-US: Maps each field to the spreadsheet header and reports missing required columns.
+ */
+export function mapHeaders(headers: string[]): { columns: Partial<Record<ImportField, string>>; missing: string[] } {
+  const columns: Partial<Record<ImportField, string>> = {};
+  (Object.keys(FIELD_ALIASES) as ImportField[]).forEach((field) => {
+    const header = headers.find((candidate) => FIELD_ALIASES[field].includes(normalize(candidate)));
+    if (header) columns[field] = header;
+  });
+  const missing = REQUIRED_FIELDS.filter((field) => !columns[field]).map((field) => FIELD_ALIASES[field][0]);
+  return { columns, missing };
+}
+
+interface ValidateOptions {
+  permissions: PermissionRecord[];
+  /** E-mails já cadastrados / Emails already registered */
+  existingEmails: Set<string>;
+}
+
+/**
+ * validateUserImport
+ * pt-BR: Valida nome, e-mail (formato e unicidade na planilha e no sistema), CPF, grupo de
+ *        permissão (por ID ou nome), senha e ativo.
+ * en-US: Validates name, email (format and uniqueness in the sheet and in the system), CPF,
+ *        permission group (by ID or name), password and active flag.
+ */
+export function validateUserImport(
+  headers: string[],
+  records: Record<string, string>[],
+  { permissions, existingEmails }: ValidateOptions
+): UserImportRow[] {
+  const { columns } = mapHeaders(headers);
+  const read = (record: Record<string, string>, field: ImportField) => (columns[field] ? record[columns[field]!] ?? '' : '').trim();
+  const seenEmails = new Map<string, number>();
+  const seenCpfs = new Map<string, number>();
+
+  return records.map((record, index) => {
+    const line = index + 2;
+    const errors: string[] = [];
+    const name = read(record, 'name');
+    const email = read(record, 'email').toLowerCase();
+    const cpf = onlyDigits(read(record, 'cpf'));
+    const groupValue = read(record, 'group');
+    const password = read(record, 'password');
+    const activeValue = normalize(read(record, 'active'));
+
+    if (!name) errors.push('Nome é obrigatório');
+
+    if (!email) {
+      errors.push('E-mail é obrigatório');
+    } else if (!emailSchema.safeParse(email).success) {
+      errors.push('E-mail inválido');
+    } else if (existingEmails.has(email)) {
+      errors.push('E-mail já cadastrado no sistema');
+    } else if (seenEmails.has(email)) {
+      errors.push(`E-mail repetido (linha ${seenEmails.get(email)})`);
+    }
+    if (email && !seenEmails.has(email)) seenEmails.set(email, line);
+
+    if (cpf) {
+      if (!isValidCPF(cpf)) {
+        errors.push('CPF inválido');
+      } else if (seenCpfs.has(cpf)) {
+        errors.push(`CPF repetido (linha ${seenCpfs.get(cpf)})`);
+      } else {
+        seenCpfs.set(cpf, line);
+      }
+    }
+
+    const group = permissions.find((permission) =>
+      String(permission.id) === groupValue || normalize(permission.name) === normalize(groupValue)
+    );
+    if (!groupValue) {
+      errors.push('Grupo de permissão é obrigatório');
+    } else if (!group) {
+      errors.push(`Grupo de permissão "${groupValue}" não existe`);
+    }
+
+    if (password && password.length < 6) errors.push('Senha deve ter pelo menos 6 caracteres');
+
+    const active = activeValue ? ACTIVE_VALUES[activeValue] : 's';
+    if (!active) errors.push('Ativo deve ser "s" ou "n"');
+
+    const payload: CreateUserInput | null = errors.length > 0 ? null : {
+      tipo_pessoa: 'pf',
+      token: '',
+      permission_id: String(group!.id),
+      email,
+      password: password || generateImportPassword(),
+      name,
+      cpf: cpf ? cpfApplyMask(cpf) : '',
+      config: { ...emptyConfig(), celular: read(record, 'phone') },
+      genero: 'ni',
+      ativo: active,
+    };
+
+    return { line, name, email, errors, payload, sendPasswordReset: !password };
+  });
+}
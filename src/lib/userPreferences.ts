@@ -0,0 +1,86 @@
+import type { TablePreferences, UserPreferenceEntries } from '@/types/userPreferences';
+
+/**
+ * Preferências do usuário: cache local e mesclagem
+ * pt-BR: O cache (`prefs:<id do usuário>`) guarda as entradas e as chaves ainda não enviadas
+ *        à API, para abrir a tela sem esperar a rede e não perder alterações feitas offline.
+ * en-US: The cache (`prefs:<user id>`) keeps the entries and the keys not yet sent to the API,
+ *        so screens open without waiting for the network and offline changes are not lost.
+ */
+
+export interface UserPreferencesCache {
+  entries: UserPreferenceEntries;
+  /** Chaves alteradas localmente e ainda não salvas na API / Keys changed locally, not saved in the API yet */
+  pending: string[];
+}
+
+// Valores do formato antigo (só `localStorage`) perdem para qualquer gravação da API
+const LEGACY_UPDATED_AT = new Date(0).toISOString();
+
+export function preferencesCacheKey(userId?: string | null): string {
+  return userId ? `prefs:${userId}` : 'prefs:anon';
+}
+
+/**
+ * readPreferencesCache
+ * pt-BR: Lê o cache; o formato antigo (`{ sidebarOpen }`) vira entradas com data zero.
+ * en-US: Reads the cache; the former format (`{ sidebarOpen }`) becomes zero-dated entries.
+ */
+export function readPreferencesCache(key: string): UserPreferencesCache | null {
+  try {
+    const raw = localStorage.getItem(key);
+    if (!raw) return null;
+    const parsed = JSON.parse(raw);
+    if (parsed && typeof parsed === 'object' && parsed.entries && typeof parsed.entries === 'object') {
+      return { entries: parsed.entries, pending: Array.isArray(parsed.pending) ? parsed.pending : [] };
+    }
+    const entries: UserPreferenceEntries = {};
+    Object.entries(parsed ?? {}).forEach(([name, value]) => {
+      entries[name] = { value, updated_at: LEGACY_UPDATED_AT };
+    });
+    return { entries, pending: [] };
+  } catch {
+    return null;
+  }
+}
+
+export function writePreferencesCache(key: string, cache: UserPreferencesCache): void {
+  try {
+    localStorage.setItem(key, JSON.stringify(cache));
+  } catch (error) {
+    console.warn('Failed to save user preferences:', error);
+  }
+}
+
+/**
+ * mergePreferenceEntries
+ * pt-BR: Mescla por chave, vencendo a gravação mais recente (empate fica com a API).
+ *        `localWins` lista as chaves em que o local é mais novo e precisa subir para a API.
+ * en-US: Merges per key, the most recent write wins (ties go to the API). `localWins`
+ *        lists the keys where the local side is newer and must be sent to the API.
+ */
+export function mergePreferenceEntries(
+  local: UserPreferenceEntries,
+  remote: UserPreferenceEntries
+): { entries: UserPreferenceEntries; localWins: string[] } {
+  const entries: UserPreferenceEntries = { ...remote };
+  const localWins: string[] = [];
+  Object.entries(local).forEach(([key, entry]) => {
+    const theirs = remote[key];
+    if (!theirs || Date.parse(entry.updated_at) > Date.parse(theirs.updated_at)) {
+      entries[key] = entry;
+      localWins.push(key);
+    }
+  });
+  return { entries, localWins };
+}
+
+/**
+ * orderedColumns
+ * pt-BR: Colunas na ordem salva (as novas, ainda fora da ordem salva, vão para o fim).
+ * en-US: Columns in the saved order (new ones, missing from the saved order, go last).
+ */
+export function orderedColumns(columnIds: string[], preferences?: TablePreferences): string[] {
+  const saved = (preferences?.order ?? []).filter((id) => columnIds.includes(id));
+  return [...saved, ...columnIds.filter((id) => !saved.includes(id))];
+}
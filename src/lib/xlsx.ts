@@ -0,0 +1,283 @@
+/**
+ * XLSX
+ * pt-BR: Leitura da primeira planilha de um arquivo .xlsx com as APIs do navegador: o arquivo é
+ *        um ZIP de XMLs, descompactado com `DecompressionStream` e lido com `DOMParser`. Só os
+ *        valores das células são lidos (sem fórmulas, estilos ou datas formatadas). A escrita
+ *        gera uma planilha simples, de uma aba, num ZIP sem compressão.
+ * en-US: Reads the first sheet of an .xlsx file with browser APIs: the file is a ZIP of XMLs,
+ *        unpacked with `DecompressionStream` and read with `DOMParser`. Only cell values are
+ *        read (no formulas, styles or formatted dates). Writing produces a plain single-sheet
+ *        workbook in an uncompressed ZIP.
+ */
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+
+interface ZipEntry {
+  method: number;
+  compressedSize: number;
+  localOffset: number;
+}
+
+/**
+ * readZipEntries
+ * pt-BR: Lê o diretório central do ZIP (nome → posição e compressão de cada arquivo).
+ * en-US: Reads the ZIP central directory (name → position and compression of each file).
+ */
+function readZipEntries(view: DataView): Map<string, ZipEntry> {
+  let eocd = -1;
+  for (let offset = view.byteLength - 22; offset >= Math.max(0, view.byteLength - 65_557); offset--) {
+    if (view.getUint32(offset, true) === EOCD_SIGNATURE) {
+      eocd = offset;
+      break;
+    }
+  }
+  if (eocd < 0) throw new Error('Arquivo .xlsx inválido ou corrompido.');
+
+  const entries = new Map<string, ZipEntry>();
+  const total = view.getUint16(eocd + 10, true);
+  const decoder = new TextDecoder();
+  let offset = view.getUint32(eocd + 16, true);
+  for (let i = 0; i < total && view.getUint32(offset, true) === CENTRAL_SIGNATURE; i++) {
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const name = decoder.decode(new Uint8Array(view.buffer, view.byteOffset + offset + 46, nameLength));
+    entries.set(name, {
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localOffset: view.getUint32(offset + 42, true),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+async function readZipText(view: DataView, entries: Map<string, ZipEntry>, name: string): Promise<string | null> {
+  const entry = entries.get(name);
+  if (!entry) return null;
+  const local = entry.localOffset;
+  if (view.getUint32(local, true) !== LOCAL_SIGNATURE) throw new Error('Arquivo .xlsx inválido ou corrompido.');
+  const start = local + 30 + view.getUint16(local + 26, true) + view.getUint16(local + 28, true);
+  const data = new Uint8Array(view.buffer, view.byteOffset + start, entry.compressedSize);
+
+  if (entry.method === 0) return new TextDecoder().decode(data);
+  if (entry.method !== 8) throw new Error('Compressão do .xlsx não suportada.');
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Response(stream).text();
+}
+
+function parseXml(text: string): Document {
+  return new DOMParser().parseFromString(text, 'application/xml');
+}
+
+/** Elementos pelo nome local, ignorando prefixos de namespace / Elements by local name, ignoring namespace prefixes */
+function elements(parent: Document | Element, localName: string): Element[] {
+  return Array.from(parent.getElementsByTagNameNS('*', localName));
+}
+
+/** "C12" → 2 / "AA3" → 26 */
+function columnIndex(reference: string): number {
+  const letters = reference.replace(/\d+$/, '').toUpperCase();
+  return letters.split('').reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+/**
+ * firstSheetPath
+ * pt-BR: Caminho da primeira aba do livro, pela relação do `workbook.xml`.
+ * en-US: Path of the workbook's first sheet, through the `workbook.xml` relationship.
+ */
+async function firstSheetPath(view: DataView, entries: Map<string, ZipEntry>): Promise<string> {
+  const fallback = 'xl/worksheets/sheet1.xml';
+  const workbook = await readZipText(view, entries, 'xl/workbook.xml');
+  const rels = await readZipText(view, entries, 'xl/_rels/workbook.xml.rels');
+  if (!workbook || !rels) return fallback;
+  const sheet = elements(parseXml(workbook), 'sheet')[0];
+  const relationId = sheet && Array.from(sheet.attributes).find((attribute) => attribute.localName === 'id')?.value;
+  const target = elements(parseXml(rels), 'Relationship').find((rel) => rel.getAttribute('Id') === relationId)?.getAttribute('Target');
+  if (!target) return fallback;
+  return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+}
+
+/**
+ * readXlsxRows
+ * pt-BR: Linhas da primeira aba como listas de células (texto), sem linhas vazias.
+ * en-US: Rows of the first sheet as cell lists (text), without empty lines.
+ */
+export async function readXlsxRows(buffer: ArrayBuffer): Promise<string[][]> {
+  const view = new DataView(buffer);
+  const entries = readZipEntries(view);
+
+  const sharedXml = await readZipText(view, entries, 'xl/sharedStrings.xml');
+  const shared = sharedXml
+    ? elements(parseXml(sharedXml), 'si').map((item) => elements(item, 't').map((t) => t.textContent ?? '').join(''))
+    : [];
+
+  const sheetXml = await readZipText(view, entries, await firstSheetPath(view, entries));
+  if (!sheetXml) throw new Error('A planilha não tem abas.');
+
+  return elements(parseXml(sheetXml), 'row')
+    .map((row) => {
+      const cells: string[] = [];
+      elements(row, 'c').forEach((cell, position) => {
+        const reference = cell.getAttribute('r');
+        const index = reference ? columnIndex(reference) : position;
+        const type = cell.getAttribute('t');
+        const value = elements(cell, 'v')[0]?.textContent ?? '';
+        let text: string;
+        if (type === 's') text = shared[Number(value)] ?? '';
+        else if (type === 'inlineStr') text = elements(cell, 't').map((t) => t.textContent ?? '').join('');
+        else if (type === 'b') text = value === '1' ? 'true' : 'false';
+        else text = value;
+        while (cells.length < index) cells.push('');
+        cells[index] = text.trim();
+      });
+      return cells;
+    })
+    .filter((cells) => cells.some((value) => value !== ''));
+}
+
+const XLSX_MIME = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * buildZip
+ * pt-BR: Monta um ZIP com os arquivos guardados sem compressão (método 0).
+ * en-US: Builds a ZIP with the files stored uncompressed (method 0).
+ */
+function buildZip(files: Array<{ name: string; content: string }>): Blob {
+  const encoder = new TextEncoder();
+  const parts: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  files.forEach((file) => {
+    const name = encoder.encode(file.name);
+    const data = encoder.encode(file.content);
+    const crc = crc32(data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, LOCAL_SIGNATURE, true);
+    local.setUint16(4, 20, true);
+    local.setUint16(6, 0x0800, true); // nomes em UTF-8 / UTF-8 names
+    local.setUint16(12, 0x0021, true); // 01/01/1980
+    local.setUint32(14, crc, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, name.length, true);
+    parts.push(new Uint8Array(local.buffer), name, data);
+
+    const entry = new DataView(new ArrayBuffer(46));
+    entry.setUint32(0, CENTRAL_SIGNATURE, true);
+    entry.setUint16(4, 20, true);
+    entry.setUint16(6, 20, true);
+    entry.setUint16(8, 0x0800, true);
+    entry.setUint16(14, 0x0021, true);
+    entry.setUint32(16, crc, true);
+    entry.setUint32(20, data.length, true);
+    entry.setUint32(24, data.length, true);
+    entry.setUint16(28, name.length, true);
+    entry.setUint32(42, offset, true);
+    central.push(new Uint8Array(entry.buffer), name);
+
+    offset += 30 + name.length + data.length;
+  });
+
+  const centralSize = central.reduce((size, part) => size + part.length, 0);
+  const eocd = new DataView(new ArrayBuffer(22));
+  eocd.setUint32(0, EOCD_SIGNATURE, true);
+  eocd.setUint16(8, files.length, true);
+  eocd.setUint16(10, files.length, true);
+  eocd.setUint32(12, centralSize, true);
+  eocd.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...central, new Uint8Array(eocd.buffer)], { type: XLSX_MIME });
+}
+
+function escapeXml(value: string): string {
+  return value
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/** 0 → "A" / 27 → "AB" */
+function columnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  return name;
+}
+
+/**
+ * buildXlsx
+ * pt-BR: Planilha de uma aba com os valores dados. Números viram células numéricas; o resto é
+ *        texto (CPF, CEP e telefone mantêm os zeros à esquerda).
+ * en-US: Single-sheet workbook with the given values. Numbers become numeric cells; everything
+ *        else is text (CPF, CEP and phone keep their leading zeros).
+ */
+export function buildXlsx(rows: Array<Array<string | number | null | undefined>>, sheetName = 'Planilha1'): Blob {
+  const sheetRows = rows.map((cells, rowIndex) => {
+    const xmlCells = cells.map((value, columnIndex) => {
+      const reference = `${columnName(columnIndex)}${rowIndex + 1}`;
+      if (typeof value === 'number' && Number.isFinite(value)) return `<c r="${reference}"><v>${value}</v></c>`;
+      if (value == null || value === '') return '';
+      return `<c r="${reference}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(value))}</t></is></c>`;
+    });
+    return `<row r="${rowIndex + 1}">${xmlCells.join('')}</row>`;
+  });
+
+  const header = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+  const mainNs = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+  const relNs = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+  const packageRelNs = 'http://schemas.openxmlformats.org/package/2006/relationships';
+
+  return buildZip([
+    {
+      name: '[Content_Types].xml',
+      content: `${header}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+        '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+        '</Types>',
+    },
+    {
+      name: '_rels/.rels',
+      content: `${header}<Relationships xmlns="${packageRelNs}">` +
+        `<Relationship Id="rId1" Type="${relNs}/officeDocument" Target="xl/workbook.xml"/></Relationships>`,
+    },
+    {
+      name: 'xl/workbook.xml',
+      content: `${header}<workbook xmlns="${mainNs}" xmlns:r="${relNs}">` +
+        `<sheets><sheet name="${escapeXml(sheetName.slice(0, 31))}" sheetId="1" r:id="rId1"/></sheets></workbook>`,
+    },
+    {
+      name: 'xl/_rels/workbook.xml.rels',
+      content: `${header}<Relationships xmlns="${packageRelNs}">` +
+        `<Relationship Id="rId1" Type="${relNs}/worksheet" Target="worksheets/sheet1.xml"/></Relationships>`,
+    },
+    {
+      name: 'xl/worksheets/sheet1.xml',
+      content: `${header}<worksheet xmlns="${mainNs}"><sheetData>${sheetRows.join('')}</sheetData></worksheet>`,
+    },
+  ]);
+}
@@ -2,4 +2,22 @@ import { createRoot } from 'react-dom/client'
 import App from './App.tsx'
 import './index.css'
 
-createRoot(document.getElementById("root")!).render(<App />);
+/**
+ * bootstrap
+ * pt-BR: Com `VITE_API_MOCK=true`, liga o backend mock antes do primeiro render. O import
+ *        dinâmico mantém os fixtures fora do bundle quando a flag está desligada.
+ * en-US: With `VITE_API_MOCK=true`, turns the mock backend on before the first render. The
+ *        dynamic import keeps fixtures out of the bundle when the flag is off.
+ */
+async function bootstrap() {
+  if (import.meta.env.VITE_API_MOCK === 'true') {
+    const [{ enableMockBackend }, { httpClient }] = await Promise.all([
+      import('./mocks/mockBackend'),
+      import('./services/httpClient'),
+    ]);
+    enableMockBackend(httpClient);
+  }
+  createRoot(document.getElementById("root")!).render(<App />);
+}
+
+bootstrap();
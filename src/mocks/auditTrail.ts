@@ -0,0 +1,152 @@
+import type { HttpMethod } from '@/services/requestPolicy';
+import type { AuditFieldChange, AuditRecordAction } from '@/types/audit';
+import type { MockDatabase, MockRecord } from './mockDatabase';
+
+/**
+ * Trilha de auditoria do backend mock
+ * pt-BR: Reproduz o que a API faz no servidor: toda criação, edição, exclusão e restauração
+ *        bem-sucedida em uma coleção vira um registro em `audit_logs`, com autor, data e as
+ *        mudanças campo a campo. O transporte tira um retrato antes do handler e compara depois.
+ * en-US: Mirrors what the API does server-side: every successful create, update, delete and
+ *        restore on a collection becomes an `audit_logs` entry, with actor, date and the
+ *        field-level changes. The transport snapshots before the handler and compares after.
+ */
+
+// Coleções técnicas que não são auditadas / Technical collections that are not audited
+const INTERNAL_COLLECTIONS = new Set(['audit_logs', 'sessions', 'two_factor_challenges', 'trusted_devices', 'options']);
+
+// Campos que mudam a cada gravação ou são sensíveis / Fields that change on every write or are sensitive
+const IGNORED_FIELDS = new Set([
+  'id',
+  'created_at',
+  'updated_at',
+  'password',
+  'password_history',
+  'two_factor_secret',
+  'two_factor_pending_secret',
+  'two_factor_recovery_codes',
+]);
+
+const DESCRIPTIONS: Record<AuditRecordAction, string> = {
+  created: 'Registro criado',
+  updated: 'Registro alterado',
+  deleted: 'Registro excluído',
+  restored: 'Registro restaurado',
+};
+
+export interface AuditSnapshot {
+  collection: string;
+  action: AuditRecordAction;
+  id?: string;
+  before?: MockRecord;
+  size: number;
+}
+
+function actionFor(method: HttpMethod, rest: string[]): AuditRecordAction | null {
+  if (rest.length === 0) return method === 'POST' ? 'created' : null;
+  if (rest.length === 1) {
+    if (method === 'PUT' || method === 'PATCH') return 'updated';
+    if (method === 'DELETE') return 'deleted';
+    return null;
+  }
+  if (rest.length === 2 && rest[1] === 'restore' && method !== 'GET' && method !== 'DELETE') return 'restored';
+  return null;
+}
+
+function clone(record: MockRecord | undefined): MockRecord | undefined {
+  return record ? JSON.parse(JSON.stringify(record)) : undefined;
+}
+
+function subjectName(record: MockRecord | undefined): string | null {
+  const name = record?.name ?? record?.title ?? record?.nome ?? record?.titulo;
+  return name ? String(name) : null;
+}
+
+function diff(before: MockRecord | undefined, after: MockRecord | undefined): AuditFieldChange[] {
+  const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+  return Array.from(fields)
+    .filter((field) => !IGNORED_FIELDS.has(field))
+    .filter((field) => JSON.stringify(before?.[field] ?? null) !== JSON.stringify(after?.[field] ?? null))
+    .map((field) => ({ field, old: before?.[field] ?? null, new: after?.[field] ?? null }));
+}
+
+/**
+ * snapshotForAudit
+ * pt-BR: Identifica coleção, ação e ID pelo caminho (o prefixo mais longo que for coleção)
+ *        e guarda o registro como estava antes da requisição.
+ * en-US: Resolves collection, action and ID from the path (the longest prefix that is a
+ *        collection) and keeps the record as it was before the request.
+ */
+export function snapshotForAudit(db: MockDatabase, method: HttpMethod, path: string): AuditSnapshot | null {
+  if (method === 'GET') return null;
+  const segments = path.split('/').filter(Boolean);
+  for (let size = segments.length; size >= 1; size -= 1) {
+    const collection = segments.slice(0, size).join('/');
+    const action = actionFor(method, segments.slice(size));
+    if (!action || (action !== 'created' && !db.has(collection))) continue;
+    if (INTERNAL_COLLECTIONS.has(collection)) return null;
+    const id = segments[size];
+    return {
+      collection,
+      action,
+      id,
+      before: id ? clone(db.find(collection, id)) : undefined,
+      size: db.has(collection) ? db.all(collection).length : 0,
+    };
+  }
+  return null;
+}
+
+/**
+ * recordAudit
+ * pt-BR: Após uma resposta 2xx de um usuário autenticado, grava o registro em `audit_logs`.
+ * en-US: After a 2xx response from an authenticated user, writes the `audit_logs` entry.
+ */
+export function recordAudit(db: MockDatabase, snapshot: AuditSnapshot, actor: MockRecord | null, status: number): void {
+  if (!actor || status < 200 || status >= 300 || !db.has(snapshot.collection)) return;
+
+  let after: MockRecord | undefined;
+  if (snapshot.action === 'created') {
+    const records = db.all(snapshot.collection);
+    if (records.length <= snapshot.size) return;
+    after = records[0];
+  } else {
+    if (!snapshot.before) return;
+    after = db.find(snapshot.collection, snapshot.before.id);
+  }
+
+  writeAuditLog(db, actor, snapshot.collection, snapshot.action, snapshot.before, after, { subjectId: snapshot.id });
+}
+
+/**
+ * writeAuditLog
+ * pt-BR: Grava uma entrada em `audit_logs` comparando o antes e o depois. Usado pelo transporte e
+ *        por rotas que alteram vários registros de uma vez (ex.: mesclagem de clientes).
+ * en-US: Writes an `audit_logs` entry comparing before and after. Used by the transport and by
+ *        routes that change several records at once (e.g. client merge).
+ */
+export function writeAuditLog(
+  db: MockDatabase,
+  actor: MockRecord,
+  collection: string,
+  action: AuditRecordAction,
+  before: MockRecord | undefined,
+  after: MockRecord | undefined,
+  options: { subjectId?: string; reason?: string } = {}
+): void {
+  const changes = diff(before, after);
+  if (action === 'updated' && changes.length === 0) return;
+
+  const subject = after ?? before;
+  db.insert('audit_logs', {
+    action,
+    description: action === 'updated' ? `${changes.length} campo(s) alterado(s)` : DESCRIPTIONS[action],
+    reason: options.reason ?? null,
+    user_id: String(actor.id),
+    user_name: actor.name,
+    subject_type: collection,
+    subject_id: String(subject?.id ?? options.subjectId ?? ''),
+    subject_name: subjectName(subject),
+    changes,
+  });
+}
@@ -0,0 +1,444 @@
+import type { MockCollections, MockRecord } from './mockDatabase';
+import { onlyDigits } from '@/lib/documents';
+
+/**
+ * Dados semeados do backend mock
+ * pt-BR: Registros de exemplo coerentes entre si (clientes nas etapas dos funis, matrículas
+ *        ligadas a clientes/cursos/turmas, OS com clientes). Datas relativas ao momento da
+ *        semeadura para que filtros de "últimos dias" tenham conteúdo.
+ * en-US: Sample records consistent with each other (clients in funnel stages, enrollments
+ *        linked to clients/courses/classes, service orders with clients). Dates are relative
+ *        to seeding time so "last days" filters have content.
+ */
+
+/** Senha de todos os usuários de demonstração / Password for every demo user */
+export const MOCK_PASSWORD = 'demo123';
+
+/** Código TOTP aceito para qualquer usuário com 2FA / TOTP code accepted for every 2FA user */
+export const MOCK_TOTP_CODE = '123456';
+
+/** Código do login sem senha enviado a qualquer cliente da loja / Passwordless login code sent to every store client */
+export const MOCK_LOGIN_CODE = '246810';
+
+const DAY = 86_400_000;
+
+function daysAgo(days: number, base = Date.now()): string {
+  return new Date(base - days * DAY).toISOString();
+}
+
+function dateOnly(days: number): string {
+  return daysAgo(days).slice(0, 10);
+}
+
+const CLIENT_NAMES = [
+  'Ana Paula Ribeiro', 'Bruno Silva', 'Carla Souza', 'Diego Santos', 'Eduarda Lima',
+  'Felipe Alves', 'Gabriela Rocha', 'Henrique Costa', 'Isabela Mendes', 'João Pedro Nunes',
+  'Karen Oliveira', 'Lucas Martins', 'Mariana Pires', 'Nicolas Ribeiro', 'Olívia Azevedo',
+  'Paulo Henrique Dias', 'Rafaela Teixeira', 'Sérgio Moraes',
+];
+
+const CITIES: Array<[string, string]> = [
+  ['Juiz de Fora', 'MG'], ['São Paulo', 'SP'], ['Rio de Janeiro', 'RJ'], ['Belo Horizonte', 'MG'], ['Campinas', 'SP'],
+];
+
+function users(): MockRecord[] {
+  return [
+    { id: '1', name: 'Administrador Demo', email: 'admin@demo.local', password: MOCK_PASSWORD, permission_id: '1', role: 'Administrador', ativo: 's', status: 'actived', created_at: daysAgo(400), updated_at: daysAgo(10) },
+    { id: '2', name: 'Consultora Demo', email: 'consultor@demo.local', password: MOCK_PASSWORD, permission_id: '3', role: 'Consultor', ativo: 's', status: 'actived', created_at: daysAgo(200), updated_at: daysAgo(20) },
+    { id: '3', name: 'Instrutor Demo', email: 'instrutor@demo.local', password: MOCK_PASSWORD, permission_id: '4', role: 'Instrutor', ativo: 's', status: 'actived', created_at: daysAgo(150), updated_at: daysAgo(30) },
+    { id: '4', name: 'Cliente Loja Demo', email: 'cliente@demo.local', password: MOCK_PASSWORD, cpf: '529.982.247-25', permission_id: '7', role: 'Cliente', ativo: 's', status: 'actived', points: 1250, created_at: daysAgo(90), updated_at: daysAgo(5) },
+  ];
+}
+
+// Logins abertos em outros dispositivos, para a lista de sessões ativas
+function sessions(): MockRecord[] {
+  return [
+    { id: '1', user_id: '1', user_agent: 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_5 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.5 Mobile/15E148 Safari/604.1', ip_address: '177.32.10.45', last_active_at: daysAgo(1), created_at: daysAgo(12), updated_at: daysAgo(1) },
+    { id: '2', user_id: '1', user_agent: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Safari/537.36', ip_address: '189.6.22.101', last_active_at: daysAgo(3), created_at: daysAgo(30), updated_at: daysAgo(3) },
+    { id: '3', user_id: '4', user_agent: 'Mozilla/5.0 (Linux; Android 14; SM-S911B) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Mobile Safari/537.36', ip_address: '200.150.8.77', last_active_at: daysAgo(2), created_at: daysAgo(20), updated_at: daysAgo(2) },
+  ];
+}
+
+function funnels(): MockRecord[] {
+  return [
+    { id: '1', name: 'Atendimento', description: 'Primeiro contato e qualificação de leads', color: '#3b82f6', isActive: true, active: true, order: 1, settings: { place: 'atendimento', notificationEnabled: true }, created_at: daysAgo(300), updated_at: daysAgo(30) },
+    { id: '2', name: 'Interessados', description: 'Propostas em negociação', color: '#f59e0b', isActive: true, active: true, order: 2, settings: { place: 'vendas' }, created_at: daysAgo(300), updated_at: daysAgo(30) },
+    { id: '3', name: 'Matriculados', description: 'Alunos com matrícula ativa', color: '#22c55e', isActive: true, active: true, order: 3, settings: { place: 'vendas' }, created_at: daysAgo(300), updated_at: daysAgo(30) },
+  ];
+}
+
+function stages(): MockRecord[] {
+  const definitions: Array<[string, string, string[]]> = [
+    ['1', '#3b82f6', ['Novo lead', 'Em contato', 'Qualificado', 'Encaminhado para vendas']],
+    ['2', '#f59e0b', ['Proposta enviada', 'Negociação', 'Aguardando pagamento']],
+    ['3', '#22c55e', ['Matrícula confirmada', 'Em formação', 'Concluído']],
+  ];
+  let id = 0;
+  return definitions.flatMap(([funnelId, color, names]) =>
+    names.map((name, index) => ({
+      id: String(++id),
+      funnel_id: funnelId,
+      name,
+      order: index + 1,
+      probability: Math.round(((index + 1) / names.length) * 100),
+      color,
+      active: true,
+      created_at: daysAgo(300),
+      updated_at: daysAgo(30),
+    }))
+  );
+}
+
+function clients(): MockRecord[] {
+  const statuses = ['actived', 'actived', 'pre_registred', 'inactived'];
+  const attendanceStages = ['1', '2', '3', '4'];
+  const list: MockRecord[] = CLIENT_NAMES.map((name, index) => {
+    const [cidade, uf] = CITIES[index % CITIES.length];
+    const first = name.split(' ')[0].toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+    const stageId = attendanceStages[index % attendanceStages.length];
+    return {
+      id: String(index + 1),
+      tipo_pessoa: 'pf',
+      name,
+      email: `${first}.${index + 1}@exemplo.com.br`,
+      cpf: `${String(100 + index).padStart(3, '0')}.456.789-${String(10 + index).slice(-2)}`,
+      cnpj: null,
+      razao: null,
+      genero: index % 2 === 0 ? 'f' : 'm',
+      status: statuses[index % statuses.length],
+      autor: '2',
+      autor_name: 'Consultora Demo',
+      points: (index * 137) % 1500,
+      verificado: 'n',
+      ativo: 's',
+      excluido: 'n',
+      deletado: 'n',
+      reg_excluido: null,
+      reg_deletado: null,
+      config: {
+        celular: `(32) 9${String(8800 + index * 7).padStart(4, '0')}-${String(1000 + index * 13).slice(-4)}`,
+        cidade,
+        uf,
+        funnelId: '1',
+        stage_id: stageId,
+      },
+      preferencias: { pipeline: { stage_id: stageId } },
+      created_at: daysAgo(index * 2 + 1),
+      updated_at: daysAgo(index),
+    };
+  });
+  return [...list, ...duplicateLeads(list)];
+}
+
+/**
+ * duplicateLeads
+ * pt-BR: Leads repetidos, como chegam do formulário público: telefone com DDI e sem o nono
+ *        dígito, e-mail em maiúsculas, CPF sem máscara. Alimentam a tela de duplicados.
+ * en-US: Repeated leads, as they come from the public form: phone with country code and no
+ *        ninth digit, uppercase email, unmasked CPF. They feed the duplicates screen.
+ */
+function duplicateLeads(clientList: MockRecord[]): MockRecord[] {
+  const base = {
+    tipo_pessoa: 'pf', cnpj: null, razao: null, genero: 'ni', status: 'pre_registred', autor: null, autor_name: null,
+    points: 0, verificado: 'n', ativo: 's', excluido: 'n', deletado: 'n', reg_excluido: null, reg_deletado: null,
+    preferencias: { pipeline: { stage_id: '1' } }, created_at: daysAgo(0), updated_at: daysAgo(0),
+  };
+  const [ana, bruno] = clientList;
+  return [
+    {
+      ...base,
+      id: String(clientList.length + 1),
+      name: ana.name,
+      email: 'anapaula.ribeiro@gmail.com',
+      cpf: null,
+      config: { celular: '+55 32 8800-1000', funnelId: '1', stage_id: '1' },
+    },
+    {
+      ...base,
+      id: String(clientList.length + 2),
+      name: 'Bruno da Silva',
+      email: String(bruno.email).toUpperCase(),
+      cpf: onlyDigits(String(bruno.cpf)),
+      config: { funnelId: '1', stage_id: '1' },
+    },
+  ];
+}
+
+function clientSegments(): MockRecord[] {
+  return [
+    {
+      id: '1',
+      name: 'Pré-cadastros recentes',
+      description: 'Leads dos últimos 30 dias ainda sem cadastro completo',
+      definition: {
+        match: 'all',
+        groups: [{
+          id: 'g1',
+          match: 'all',
+          conditions: [
+            { id: 'c1', field: 'status', operator: 'eq', value: 'pre_registred' },
+            { id: 'c2', field: 'created_at', operator: 'last_days', value: '30' },
+          ],
+        }],
+      },
+      autor: '1',
+      created_at: daysAgo(12),
+      updated_at: daysAgo(12),
+    },
+  ];
+}
+
+function courses(): MockRecord[] {
+  const base = { ativo: 's', destaque: 'n', publicar: 's', unidade_duracao: 'Hrs', parcelas: '1', aeronaves: [], modulos: [] };
+  return [
+    { ...base, id: '1', nome: 'PP', titulo: 'Piloto Privado', tipo: '2', categoria: 'cursos_presenciais', duracao: '40', inscricao: '500,00', valor: '28.000,00', valor_parcela: '28.000,00', destaque: 's', created_at: daysAgo(500), updated_at: daysAgo(60) },
+    { ...base, id: '2', nome: 'PC', titulo: 'Piloto Comercial', tipo: '2', categoria: 'cursos_presenciais', duracao: '110', inscricao: '800,00', valor: '72.000,00', valor_parcela: '72.000,00', created_at: daysAgo(500), updated_at: daysAgo(60) },
+    { ...base, id: '3', nome: 'TEO-PP', titulo: 'Teórico de Piloto Privado', tipo: '1', categoria: 'cursos_online', duracao: '45', inscricao: '0,00', valor: '1.200,00', valor_parcela: '1.200,00', created_at: daysAgo(500), updated_at: daysAgo(60) },
+  ];
+}
+
+function turmas(): MockRecord[] {
+  const base = { professor: 3, unidade_duracao: 'Hrs', TemHorario: 's', Quadro: '', autor: 1, ativo: 's', excluido: 'n', deletado: 'n', max_alunos: 12, min_alunos: 4, dia1: 'n', dia2: 's', dia3: 'n', dia4: 's', dia5: 'n', dia6: 's', dia7: 'n' };
+  return [
+    { ...base, id: 1, token: 'turma-pp-01', id_curso: 1, nome: 'PP Turma 01', inicio: dateOnly(-15), fim: dateOnly(-120), hora_inicio: '08:00:00', hora_fim: '12:00:00', ordenar: 1, data: daysAgo(60), atualiza: daysAgo(10) },
+    { ...base, id: 2, token: 'turma-pc-01', id_curso: 2, nome: 'PC Turma 01', inicio: dateOnly(-30), fim: dateOnly(-240), hora_inicio: '13:00:00', hora_fim: '17:00:00', ordenar: 2, data: daysAgo(60), atualiza: daysAgo(10) },
+    { ...base, id: 3, token: 'turma-teo-01', id_curso: 3, nome: 'Teórico PP Noturno', inicio: dateOnly(5), fim: dateOnly(-60), hora_inicio: '19:00:00', hora_fim: '22:00:00', ordenar: 3, data: daysAgo(60), atualiza: daysAgo(10) },
+  ];
+}
+
+function enrollmentSituations(): MockRecord[] {
+  return [
+    { id: '1', name: 'Interessado', label: 'int', ativo: 's' },
+    { id: '2', name: 'Matriculado', label: 'mat', ativo: 's' },
+    { id: '3', name: 'Cancelado', label: 'can', ativo: 's' },
+  ];
+}
+
+function enrollments(clientList: MockRecord[], courseList: MockRecord[], turmaList: MockRecord[]): MockRecord[] {
+  const plan: Array<[number, number, 'int' | 'mat', string]> = [
+    [0, 0, 'int', '5'], [2, 1, 'int', '6'], [4, 0, 'int', '7'], [6, 2, 'int', '5'],
+    [1, 0, 'mat', '8'], [3, 1, 'mat', '9'], [5, 2, 'mat', '10'], [7, 0, 'mat', '8'],
+  ];
+  return plan.map(([clientIndex, courseIndex, situacao, stageId], index) => {
+    const client = clientList[clientIndex];
+    const course = courseList[courseIndex];
+    const turma = turmaList.find((t) => String(t.id_curso) === String(course.id));
+    return {
+      id: String(index + 1),
+      id_cliente: String(client.id),
+      student_name: client.name,
+      name: client.name,
+      id_curso: String(course.id),
+      course_name: course.titulo,
+      curso_nome: course.titulo,
+      id_turma: turma ? String(turma.id) : null,
+      turma_nome: turma?.nome ?? null,
+      consultor: '2',
+      consultor_nome: 'Consultora Demo',
+      situacao,
+      status: situacao,
+      funnel_id: situacao === 'int' ? '2' : '3',
+      stage_id: stageId,
+      amount_brl: Number(String(course.valor).replace(/\./g, '').replace(',', '.')),
+      config: { funnelId: situacao === 'int' ? '2' : '3', stage_id: stageId },
+      data: daysAgo(index * 3 + 2),
+      created_at: daysAgo(index * 3 + 2),
+      updated_at: daysAgo(index),
+    };
+  });
+}
+
+function serviceOrders(clientList: MockRecord[]): MockRecord[] {
+  const statuses = ['pending', 'in_progress', 'completed', 'pending'];
+  const titles = ['Inspeção de 100 horas', 'Troca de pneus do trem principal', 'Revisão do motor', 'Calibração de instrumentos'];
+  return titles.map((title, index) => {
+    const servicesTotal = 1200 + index * 850;
+    const productsTotal = 300 + index * 120;
+    return {
+      id: String(index + 1),
+      order_number: `OS-${new Date().getFullYear()}-${String(index + 1).padStart(4, '0')}`,
+      doc_type: 'os',
+      title,
+      description: `${title} na aeronave PR-DEM${index}`,
+      client_id: String(clientList[index].id),
+      client_name: clientList[index].name,
+      status: statuses[index],
+      priority: index === 1 ? 'high' : 'medium',
+      estimated_start_date: dateOnly(-index),
+      estimated_end_date: dateOnly(-index - 5),
+      services: [],
+      products: [],
+      services_total: servicesTotal,
+      products_total: productsTotal,
+      total_amount: servicesTotal + productsTotal,
+      assigned_to: '3',
+      created_by: '1',
+      created_at: daysAgo(index * 4 + 1),
+      updated_at: daysAgo(index),
+    };
+  });
+}
+
+function products(): MockRecord[] {
+  const items: Array<[string, string, number, string, 'available' | 'limited' | 'unavailable', number]> = [
+    ['Boné Aeroclube', 'vestuario', 300, 'Boné bordado com o logo do aeroclube', 'available', 40],
+    ['Camiseta Piloto', 'vestuario', 450, 'Camiseta de algodão com estampa de aeronave', 'available', 25],
+    ['Kneeboard', 'acessorios', 800, 'Prancheta de perna para navegação', 'limited', 5],
+    ['Headset de treinamento', 'acessorios', 4500, 'Headset com cancelamento passivo de ruído', 'limited', 2],
+    ['Voo panorâmico', 'experiencias', 2500, 'Voo panorâmico de 20 minutos sobre a cidade', 'available', 10],
+    ['Hora de simulador', 'experiencias', 1200, 'Uma hora no simulador de voo homologado', 'unavailable', 0],
+  ];
+  return items.map(([name, category, points, description, availability, stock], index) => ({
+    id: String(index + 1),
+    name,
+    slug: name.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/\s+/g, '-'),
+    description,
+    category,
+    points,
+    image: '/placeholder.svg',
+    rating: 4 + (index % 2) * 0.5,
+    reviews: 3 + index * 2,
+    availability,
+    terms: ['Resgate sujeito à disponibilidade de estoque'],
+    stock,
+    salePrice: points / 10,
+    costPrice: points / 20,
+    unit: 'un',
+    active: availability !== 'unavailable',
+    created_at: daysAgo(120),
+    updated_at: daysAgo(15),
+  }));
+}
+
+function redemptions(productList: MockRecord[]): MockRecord[] {
+  const statuses = ['pending', 'processing', 'shipped', 'delivered'];
+  return statuses.map((status, index) => {
+    const product = productList[index];
+    const createdAt = daysAgo(index * 5 + 1);
+    return {
+      id: String(index + 1),
+      userId: '4',
+      userName: 'Cliente Loja Demo',
+      userEmail: 'cliente@demo.local',
+      productId: String(product.id),
+      productName: product.name,
+      productImage: product.image,
+      productCategory: product.category,
+      pointsUsed: product.points,
+      redemptionDate: createdAt,
+      status,
+      priority: 'medium',
+      statusHistory: [{ status: 'pending', date: createdAt, notes: 'Resgate solicitado' }],
+      createdAt,
+      updatedAt: daysAgo(index),
+    };
+  });
+}
+
+function financialCategories(): MockRecord[] {
+  const now = daysAgo(90);
+  return [
+    { id: '1', name: 'Horas de voo', type: 'income', color: '#22c55e', isActive: true, createdAt: now, updatedAt: now },
+    { id: '2', name: 'Matrículas', type: 'income', color: '#3b82f6', isActive: true, createdAt: now, updatedAt: now },
+    { id: '3', name: 'Combustível', type: 'expense', color: '#ef4444', isActive: true, createdAt: now, updatedAt: now },
+    { id: '4', name: 'Manutenção', type: 'expense', color: '#f59e0b', isActive: true, createdAt: now, updatedAt: now },
+  ];
+}
+
+function accountsPayable(): MockRecord[] {
+  return [
+    { id: '1', description: 'Abastecimento AVGAS', amount: 6800, dueDate: dateOnly(-7), status: 'pending', category: '3', supplierName: 'BR Aviation', createdAt: daysAgo(10), updatedAt: daysAgo(10), createdBy: '1' },
+    { id: '2', description: 'Peças do motor', amount: 12400, dueDate: dateOnly(3), status: 'overdue', category: '4', supplierName: 'Aero Peças Ltda', createdAt: daysAgo(30), updatedAt: daysAgo(3), createdBy: '1' },
+    { id: '3', description: 'Seguro da frota', amount: 4200, dueDate: dateOnly(20), status: 'paid', category: '4', supplierName: 'Seguradora Céu Azul', paymentDate: dateOnly(20), createdAt: daysAgo(40), updatedAt: daysAgo(20), createdBy: '1' },
+  ];
+}
+
+function accountsReceivable(clientList: MockRecord[]): MockRecord[] {
+  return [
+    { id: '1', description: 'Matrícula PP - Bruno Silva', amount: 28000, dueDate: dateOnly(-10), status: 'pending', category: '2', customerId: String(clientList[1].id), customerName: clientList[1].name, createdAt: daysAgo(15), updatedAt: daysAgo(15), createdBy: '2' },
+    { id: '2', description: 'Pacote 10 horas de voo', amount: 9500, dueDate: dateOnly(2), status: 'overdue', category: '1', customerId: String(clientList[3].id), customerName: clientList[3].name, createdAt: daysAgo(20), updatedAt: daysAgo(2), createdBy: '2' },
+    { id: '3', description: 'Matrícula PC - Eduarda Lima', amount: 72000, dueDate: dateOnly(12), status: 'paid', category: '2', customerId: String(clientList[4].id), customerName: clientList[4].name, receivedDate: dateOnly(12), createdAt: daysAgo(25), updatedAt: daysAgo(12), createdBy: '2' },
+  ];
+}
+
+function cashFlow(): MockRecord[] {
+  const entries: Array<[number, string, 'income' | 'expense', number, string, string]> = [
+    [1, 'Recebimento pacote de horas', 'income', 9500, '1', 'pix'],
+    [3, 'Abastecimento', 'expense', 3200, '3', 'bank_transfer'],
+    [6, 'Matrícula PC', 'income', 72000, '2', 'boleto'],
+    [9, 'Troca de óleo', 'expense', 1100, '4', 'credit_card'],
+    [14, 'Matrícula PP', 'income', 28000, '2', 'pix'],
+  ];
+  let balance = 50000;
+  return entries.reverse().map(([days, description, type, amount, category, paymentMethod], index) => {
+    balance += type === 'income' ? amount : -amount;
+    return { id: String(index + 1), date: dateOnly(days), description, type, amount, category, paymentMethod, balance, createdAt: daysAgo(days), createdBy: '1' };
+  }).reverse();
+}
+
+/**
+ * createSeed
+ * pt-BR: Monta todas as coleções do zero. Chaves são os caminhos da API sem a barra inicial.
+ * en-US: Builds every collection from scratch. Keys are API paths without the leading slash.
+ */
+export function createSeed(): MockCollections {
+  const clientList = clients();
+  const courseList = courses();
+  const turmaList = turmas();
+  const productList = products();
+  return {
+    users: users(),
+    sessions: sessions(),
+    clients: clientList,
+    'client-segments': clientSegments(),
+    funnels: funnels(),
+    stages: stages(),
+    cursos: courseList,
+    turmas: turmaList,
+    matriculas: enrollments(clientList, courseList, turmaList),
+    'situacoes-matricula': enrollmentSituations(),
+    'service-orders': serviceOrders(clientList),
+    products: productList,
+    redemptions: redemptions(productList),
+    'financial/categories': financialCategories(),
+    'financial/accounts-payable': accountsPayable(),
+    'financial/accounts-receivable': accountsReceivable(clientList),
+    'financial/cash-flow': cashFlow(),
+    attendances: [],
+  };
+}
+
+/**
+ * aeroclubeOverview
+ * pt-BR: Indicadores do painel do Aeroclube (vendas/horas por mês, histórico e acessos).
+ * en-US: Aeroclube dashboard indicators (monthly sales/hours, history and access log).
+ */
+export function aeroclubeOverview(userList: MockRecord[]) {
+  const months = ['JAN', 'FEV', 'MAR', 'ABR', 'MAI', 'JUN', 'JUL', 'AGO', 'SET', 'OUT', 'NOV', 'DEZ'];
+  const seasonal = [1.05, 0.78, 0.88, 0.95, 0.82, 0.74, 0.7, 1.2, 0.92, 1.0, 0.97, 1.12];
+  const yearSeries = (meta: number, growth: number) =>
+    months.map((month, index) => ({
+      month,
+      value: Math.round(meta * seasonal[index] * growth),
+      hours: Math.round(80 * seasonal[index] * growth),
+      meta,
+    }));
+  const years = [2020, 2021, 2022, 2023, 2024, 2025];
+  return {
+    monthly: { '2024': yearSeries(12000, 1.05), '2025': yearSeries(14000, 1.0) },
+    hoursHistory: months.map((label, index) => ({
+      label,
+      ...Object.fromEntries(years.map((year, y) => [`y${year}`, Math.round(60 * seasonal[index] * (1 + y * 0.06))])),
+    })),
+    accessLog: userList.slice(0, 8).map((user, index) => {
+      const when = new Date(Date.now() - index * 3_600_000 * 5);
+      return {
+        id: 23031 - index,
+        date: when.toLocaleDateString('pt-BR'),
+        time: when.toLocaleTimeString('pt-BR'),
+        name: String(user.name),
+        ip: `172.70.${(index * 37) % 255}.${(index * 91) % 255}`,
+      };
+    }),
+  };
+}
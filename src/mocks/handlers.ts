@@ -0,0 +1,1302 @@
+import { defaultMenu } from '@/lib/menu';
+import type { HttpMethod } from '@/services/requestPolicy';
+import type { MenuItemDTO } from '@/types/menu';
+import type { SecurityPolicy } from '@/types/security';
+import type { ClientSegmentDefinition } from '@/types/clients';
+import { DEFAULT_SECURITY_POLICY, passwordPolicyErrors } from '@/lib/passwordPolicy';
+import { onlyDigits } from '@/lib/documents';
+import { findDuplicateCandidates, groupDuplicates } from '@/lib/clientDuplicates';
+import { type SegmentSubject, compactSegment, matchesClientSegment, parseSegmentParam } from '@/lib/clientSegments';
+import { MockBody, MockRouter, MockRequest, MockResponse, authenticate, created, fail, noContent, ok, tokenFor } from './router';
+import type { MockDatabase, MockRecord } from './mockDatabase';
+import { writeAuditLog } from './auditTrail';
+import { MOCK_LOGIN_CODE, MOCK_PASSWORD, MOCK_TOTP_CODE, aeroclubeOverview } from './fixtures';
+
+/**
+ * Rotas do backend mock
+ * pt-BR: Cada rota reproduz o formato de resposta que o serviço correspondente espera
+ *        (registro puro, `{ data }` ou paginação do Laravel). Caminhos sem rota específica
+ *        caem no recurso genérico, que trata o último segmento numérico como ID.
+ * en-US: Each route mirrors the response shape its service expects (plain record, `{ data }`
+ *        or Laravel pagination). Paths without a specific route fall back to the generic
+ *        resource, which treats the last numeric segment as the ID.
+ */
+
+type Envelope = 'raw' | 'data';
+
+interface ResourceOptions {
+  /** Formato dos detalhes / Shape of single-record responses */
+  envelope: Envelope;
+  /** Campos usados pelo parâmetro `search` / Fields matched by the `search` param */
+  searchFields?: string[];
+  /** Exclusão lógica via `excluido = 's'` / Soft delete through `excluido = 's'` */
+  softDelete?: boolean;
+  /** Remove campos sensíveis antes de responder / Strips sensitive fields before responding */
+  present?: (record: MockRecord) => MockRecord;  /** Recorte extra da listagem antes dos filtros comuns / Extra list narrowing before the common filters */
+  narrow?: (records: MockRecord[], request: MockRequest) => MockRecord[];
+}
+
+const RESERVED_QUERY_KEYS = new Set(['page', 'per_page', 'limit', 'search', 'sort', 'order', 'excluido', 'segment', 'segment_id']);
+
+const withoutPassword = ({
+  password: _password,
+  two_factor_secret: _secret,
+  two_factor_pending_secret: _pendingSecret,
+  two_factor_recovery_codes: _recoveryCodes,
+  password_history: _passwordHistory,
+  ...user
+}: MockRecord): MockRecord => user as MockRecord;
+
+function wrap(envelope: Envelope, record: unknown): unknown {
+  return envelope === 'data' ? { data: record } : record;
+}
+
+function normalize(text: unknown): string {
+  return String(text ?? '').toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+}
+
+/**
+ * filterRecords
+ * pt-BR: Aplica busca textual, filtros de igualdade (só em campos existentes no registro)
+ *        e ordenação `sort`/`order`.
+ * en-US: Applies text search, equality filters (only on fields present in the record)
+ *        and `sort`/`order` ordering.
+ */
+function filterRecords(records: MockRecord[], query: URLSearchParams, searchFields: string[] = ['name']): MockRecord[] {
+  let result = records;
+  const search = normalize(query.get('search')).trim();
+  if (search) {
+    result = result.filter((record) => searchFields.some((field) => normalize(record[field]).includes(search)));
+  }
+  query.forEach((value, key) => {
+    if (RESERVED_QUERY_KEYS.has(key) || value === '') return;
+    result = result.filter((record) => !(key in record) || String(record[key]) === value);
+  });
+  const sort = query.get('sort');
+  if (sort) {
+    const direction = sort.startsWith('-') || query.get('order') === 'desc' ? -1 : 1;
+    const field = sort.replace(/^-/, '');
+    result = [...result].sort((a, b) => String(a[field] ?? '').localeCompare(String(b[field] ?? ''), 'pt-BR', { numeric: true }) * direction);
+  }
+  return result;
+}
+
+/**
+ * resource
+ * pt-BR: Registra listagem, detalhe, criação, edição e exclusão para uma coleção.
+ * en-US: Registers list, detail, create, update and delete for a collection.
+ */
+function resource(router: MockRouter, path: string, collection: string, options: ResourceOptions): void {
+  const present = options.present ?? ((record: MockRecord) => record);
+
+  router.on('GET', path, (request) => {
+    const { db, query } = request;
+    let records = db.all(collection);
+    if (options.softDelete) {
+      const trash = query.get('excluido') === 's';
+      records = records.filter((record) => (record.excluido === 's') === trash);
+    }
+    if (options.narrow) records = options.narrow(records, request);
+    const page = db.paginate(filterRecords(records, query, options.searchFields), query);
+    return ok({ ...page, data: page.data.map(present) });
+  });
+
+  router.on('GET', `${path}/:id`, ({ db, params }) => {
+    const record = db.find(collection, params.id);
+    return record ? ok(wrap(options.envelope, present(record))) : fail(404, 'Registro não encontrado.');
+  });
+
+  router.on('POST', path, ({ db, body }) => created({ data: present(db.insert(collection, body ?? {})), message: 'Registro criado com sucesso.', status: 201 }));
+
+  const update: (request: MockRequest) => MockResponse = ({ db, params, body }) => {
+    const record = db.update(collection, params.id, body ?? {});
+    return record ? ok(wrap(options.envelope, present(record))) : fail(404, 'Registro não encontrado.');
+  };
+  router.on('PUT', `${path}/:id`, update);
+  router.on('PATCH', `${path}/:id`, update);
+
+  router.on('DELETE', `${path}/:id`, ({ db, params }) => {
+    if (options.softDelete) {
+      const record = db.update(collection, params.id, { excluido: 's', reg_excluido: { data: new Date().toISOString() } });
+      return record ? noContent() : fail(404, 'Registro não encontrado.');
+    }
+    return db.remove(collection, params.id) ? noContent() : fail(404, 'Registro não encontrado.');
+  });
+}
+
+function collectPermissions(items: MenuItemDTO[]): string[] {
+  return items.flatMap((item) => {
+    const own = item.permission;
+    return [...(own ? [own] : []), ...collectPermissions(item.items ?? [])];
+  });
+}
+
+/**
+ * permissionsFor
+ * pt-BR: Administradores recebem tudo; equipe não vê configurações nem financeiro;
+ *        clientes da loja (permission_id > 5) não recebem permissões administrativas.
+ * en-US: Administrators get everything; staff do not see settings or financial;
+ *        store clients (permission_id > 5) get no administrative permissions.
+ */
+function permissionsFor(user: MockRecord): string[] {
+  const level = Number(user.permission_id);
+  const all = Array.from(new Set(collectPermissions(defaultMenu)));
+  if (level <= 2) return all;
+  if (level <= 5) return all.filter((permission) => !/^(settings|financial)\./.test(permission));
+  return [];
+}
+
+/**
+ * menuFor
+ * pt-BR: Menu com flags de ação: administradores podem tudo; a equipe cria, edita e envia
+ *        arquivos, mas não exclui; clientes da loja não recebem menu administrativo.
+ * en-US: Menu with action flags: administrators may do everything; staff create, edit and
+ *        upload, but do not delete; store clients get no administrative menu.
+ */
+function menuFor(user: MockRecord): MenuItemDTO[] {
+  const level = Number(user.permission_id);
+  if (level > 5) return [];
+  const withFlags = (items: MenuItemDTO[]): MenuItemDTO[] => items.map((item) => ({
+    ...item,
+    can_create: true,
+    can_edit: true,
+    can_delete: level <= 2,
+    can_upload: true,
+    items: item.items ? withFlags(item.items) : undefined,
+  }));
+  return withFlags(defaultMenu);
+}
+
+/**
+ * session
+ * pt-BR: Resposta de login; sem `sessionId` abre uma nova sessão na coleção `sessions`.
+ * en-US: Login response; without `sessionId` it opens a new session in the `sessions` collection.
+ */
+function session(db: MockDatabase, user: MockRecord, sessionId?: string) {
+  const id = sessionId ?? String(db.insert('sessions', {
+    user_id: String(user.id),
+    user_agent: navigator.userAgent,
+    ip_address: '127.0.0.1',
+    last_active_at: new Date().toISOString(),
+  }).id);
+  return {
+    user: withoutPassword(user),
+    token: tokenFor(user, id),
+    refresh_token: `mock-refresh-${user.id}.${id}`,
+    expires_in: 3600,
+    permissions: permissionsFor(user),
+    menu: menuFor(user),
+    two_factor_setup_required: twoFactorRequired(db, user) && !user.two_factor_enabled,
+    message: 'Login realizado com sucesso.',
+  };
+}
+
+const TWO_FACTOR_CHALLENGE_TTL = 5 * 60_000;
+const TRUSTED_DEVICE_TTL = 30 * 86_400_000;
+
+function randomToken(length = 32): string {
+  let token = '';
+  while (token.length < length) token += Math.random().toString(36).slice(2);
+  return token.slice(0, length);
+}
+
+function recoveryCodesFor(): string[] {
+  return Array.from({ length: 8 }, () => `${randomToken(5)}-${randomToken(5)}`);
+}
+
+// Segundo passo pendente: o login termina em `/login/two-factor`
+function twoFactorChallengeFor(db: MockDatabase, user: MockRecord, message: string) {
+  const challenge = db.insert('two_factor_challenges', {
+    token: randomToken(),
+    user_id: String(user.id),
+    expires_at: new Date(Date.now() + TWO_FACTOR_CHALLENGE_TTL).toISOString(),
+  });
+  return { two_factor_required: true, challenge_token: challenge.token, message };
+}
+
+/**
+ * twoFactorRequired
+ * pt-BR: O grupo do usuário está na opção `two_factor_required_groups`.
+ * en-US: The user's group is listed in the `two_factor_required_groups` option.
+ */
+function twoFactorRequired(db: MockDatabase, user: MockRecord): boolean {
+  const option = db.all('options').find((record) => record.name === 'two_factor_required_groups');
+  return String(option?.value ?? '').split(',').map((id) => id.trim()).includes(String(user.permission_id));
+}
+
+/**
+ * qrPlaceholderSvg
+ * pt-BR: Grade determinística a partir do segredo, só para ilustrar o QR code que a API gera.
+ * en-US: Deterministic grid from the secret, only to illustrate the QR code the API renders.
+ */
+function qrPlaceholderSvg(secret: string): string {
+  const size = 21;
+  const cells: string[] = [];
+  for (let y = 0; y < size; y += 1) {
+    for (let x = 0; x < size; x += 1) {
+      const finder = ((x < 7 || x >= size - 7) && y < 7) || (x < 7 && y >= size - 7);
+      const on = finder
+        ? Math.max(Math.abs((x % (size - 7)) - 3), Math.abs((y % (size - 7)) - 3)) !== 2
+        : (secret.charCodeAt((x * size + y) % secret.length) + x * y) % 3 === 0;
+      if (on) cells.push(`<rect x="${x}" y="${y}" width="1" height="1"/>`);
+    }
+  }
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${size} ${size}" shape-rendering="crispEdges">${cells.join('')}</svg>`;
+}
+
+/**
+ * securityPolicy
+ * pt-BR: Política salva na opção `security_policy` (JSON), completada com os valores padrão.
+ * en-US: Policy saved in the `security_policy` option (JSON), filled in with the defaults.
+ */
+function securityPolicy(db: MockDatabase): SecurityPolicy {
+  const option = db.all('options').find((record) => record.name === 'security_policy');
+  let saved: Partial<SecurityPolicy> = {};
+  try {
+    saved = option?.value ? JSON.parse(String(option.value)) : {};
+  } catch {
+    saved = {};
+  }
+  return {
+    password: { ...DEFAULT_SECURITY_POLICY.password, ...saved.password },
+    login: { ...DEFAULT_SECURITY_POLICY.login, ...saved.login },
+  };
+}
+
+function previousPasswords(user: MockRecord): unknown[] {
+  return [user.password, ...(Array.isArray(user.password_history) ? user.password_history : [])];
+}
+
+/**
+ * passwordRejection
+ * pt-BR: Motivo para recusar a nova senha (regras da política ou uma das últimas N senhas
+ *        do usuário, contando a atual), ou `null` quando ela é aceita.
+ * en-US: Reason to reject the new password (policy rules or one of the user's last N
+ *        passwords, counting the current one), or `null` when it is accepted.
+ */
+function passwordRejection(db: MockDatabase, password: unknown, user?: MockRecord): string | null {
+  const policy = securityPolicy(db).password;
+  const text = String(password ?? '');
+  const errors = passwordPolicyErrors(text, policy);
+  if (errors.length) return `A senha precisa ter: ${errors.join(', ').toLowerCase()}.`;
+  if (user && policy.history_size > 0 && previousPasswords(user).slice(0, policy.history_size).includes(text)) {
+    return `A senha não pode repetir nenhuma das últimas ${policy.history_size} senhas.`;
+  }
+  return null;
+}
+
+function changeUserPassword(db: MockDatabase, user: MockRecord, password: string): void {
+  db.update('users', user.id, { password, password_history: previousPasswords(user).filter(Boolean).slice(0, 10) });
+}
+
+// Token do provedor `local` de verificação humana: `local:a:b:a+b`
+function isValidCaptcha(token: unknown): boolean {
+  const match = /^local:(\d+):(\d+):(\d+)$/.exec(String(token ?? ''));
+  return !!match && Number(match[1]) + Number(match[2]) === Number(match[3]);
+}
+
+// Espera progressiva a partir da terceira falha: 2, 4, 8... segundos, até 30
+function retryDelaySeconds(failures: number): number {
+  return failures < 3 ? 0 : Math.min(30, 2 ** (failures - 2));
+}
+
+/**
+ * registerSecurity
+ * pt-BR: Política de senhas e de login: leitura pública, gravação só por administradores.
+ * en-US: Password and login policy: public reads, writes by administrators only.
+ */
+function registerSecurity(router: MockRouter): void {
+  router.on('GET', '/security/policy', ({ db }) => ok({ data: securityPolicy(db) }), { public: true });
+
+  router.on('PUT', '/security/policy', ({ db, user, body }) => {
+    if (!user || Number(user.permission_id) > 2) return fail(403, 'Apenas administradores podem alterar a política de segurança.');
+    const current = securityPolicy(db);
+    const policy = { password: { ...current.password, ...(body?.password as object) }, login: { ...current.login, ...(body?.login as object) } };
+    if (policy.login.lockout_after <= policy.login.captcha_after) {
+      return fail(422, 'O bloqueio deve acontecer depois da verificação humana.', { lockout_after: ['Deve ser maior que o número de falhas até a verificação humana.'] });
+    }
+    const existing = db.all('options').find((option) => option.name === 'security_policy');
+    if (existing) db.update('options', existing.id, { value: JSON.stringify(policy) });
+    else db.insert('options', { name: 'security_policy', value: JSON.stringify(policy), url: 'security_policy', tags: '', ativo: 's' });
+    return ok({ data: policy, message: 'Política de segurança salva.' });
+  });
+}
+
+/**
+ * registerTwoFactor
+ * pt-BR: 2FA (TOTP) do backend mock: qualquer usuário com 2FA ativo aceita `MOCK_TOTP_CODE`
+ *        ou um dos seus códigos de recuperação; desafios e dispositivos confiáveis ficam nas
+ *        coleções `two_factor_challenges` e `trusted_devices`.
+ * en-US: Mock backend 2FA (TOTP): every user with 2FA accepts `MOCK_TOTP_CODE` or one of
+ *        their recovery codes; challenges and trusted devices live in the
+ *        `two_factor_challenges` and `trusted_devices` collections.
+ */
+function registerTwoFactor(router: MockRouter): void {
+  const isValidCode = (code: unknown) => String(code ?? '').trim() === MOCK_TOTP_CODE;
+
+  router.on('POST', '/login/two-factor', ({ db, body }) => {
+    const challenge = db.all('two_factor_challenges').find((record) => record.token === body?.challenge_token);
+    if (!challenge || Date.parse(String(challenge.expires_at)) < Date.now()) {
+      return fail(422, 'A verificação expirou. Entre novamente com e-mail e senha.');
+    }
+    const user = db.find('users', challenge.user_id as string);
+    if (!user) return fail(422, 'A verificação expirou. Entre novamente com e-mail e senha.');
+
+    const recoveryCodes = (user.two_factor_recovery_codes as string[] | undefined) ?? [];
+    const recoveryCode = String(body?.recovery_code ?? '').trim();
+    if (recoveryCode) {
+      if (!recoveryCodes.includes(recoveryCode)) return fail(422, 'Código de recuperação inválido.', { recovery_code: ['Código de recuperação inválido.'] });
+      db.update('users', user.id, { two_factor_recovery_codes: recoveryCodes.filter((code) => code !== recoveryCode) });
+    } else if (!isValidCode(body?.code)) {
+      return fail(422, 'Código inválido.', { code: ['Código inválido.'] });
+    }
+
+    db.remove('two_factor_challenges', challenge.id);
+    const response: Record<string, unknown> = session(db, user);
+    if (body?.remember_device) {
+      const device = db.insert('trusted_devices', {
+        token: randomToken(),
+        user_id: String(user.id),
+        expires_at: new Date(Date.now() + TRUSTED_DEVICE_TTL).toISOString(),
+      });
+      response.device_token = device.token;
+    }
+    return ok(response);
+  }, { public: true });
+
+  router.on('GET', '/user/two-factor', ({ db, user }) => ok({
+    enabled: !!user!.two_factor_enabled,
+    confirmed_at: user!.two_factor_confirmed_at ?? null,
+    recovery_codes_remaining: ((user!.two_factor_recovery_codes as string[] | undefined) ?? []).length,
+    required: twoFactorRequired(db, user!),
+  }));
+
+  router.on('POST', '/user/two-factor', ({ db, user }) => {
+    if (user!.two_factor_enabled) return fail(422, 'A verificação em duas etapas já está ativa.');
+    const secret = randomToken(16).toUpperCase();
+    db.update('users', user!.id, { two_factor_pending_secret: secret });
+    const label = encodeURIComponent(`CRM:${user!.email}`);
+    return ok({
+      secret,
+      otpauth_url: `otpauth://totp/${label}?secret=${secret}&issuer=CRM`,
+      qr_code_svg: qrPlaceholderSvg(secret),
+    });
+  });
+
+  router.on('POST', '/user/two-factor/confirm', ({ db, user, body }) => {
+    if (!user!.two_factor_pending_secret) return fail(422, 'Inicie a ativação novamente.');
+    if (!isValidCode(body?.code)) return fail(422, 'Código inválido.', { code: ['Código inválido.'] });
+    const recovery_codes = recoveryCodesFor();
+    db.update('users', user!.id, {
+      two_factor_enabled: true,
+      two_factor_secret: user!.two_factor_pending_secret,
+      two_factor_pending_secret: null,
+      two_factor_recovery_codes: recovery_codes,
+      two_factor_confirmed_at: new Date().toISOString(),
+    });
+    return ok({ recovery_codes });
+  });
+
+  router.on('POST', '/user/two-factor/recovery-codes', ({ db, user, body }) => {
+    if (!user!.two_factor_enabled) return fail(422, 'A verificação em duas etapas não está ativa.');
+    if (!isValidCode(body?.code)) return fail(422, 'Código inválido.', { code: ['Código inválido.'] });
+    const recovery_codes = recoveryCodesFor();
+    db.update('users', user!.id, { two_factor_recovery_codes: recovery_codes });
+    return ok({ recovery_codes });
+  });
+
+  router.on('POST', '/user/two-factor/disable', ({ db, user, body }) => {
+    if (twoFactorRequired(db, user!)) return fail(403, 'Seu grupo de permissão exige a verificação em duas etapas.');
+    if (body?.password !== user!.password) return fail(422, 'Senha incorreta.', { password: ['Senha incorreta.'] });
+    db.update('users', user!.id, {
+      two_factor_enabled: false,
+      two_factor_secret: null,
+      two_factor_recovery_codes: [],
+      two_factor_confirmed_at: null,
+    });
+    db.all('trusted_devices')
+      .filter((device) => String(device.user_id) === String(user!.id))
+      .forEach((device) => db.remove('trusted_devices', device.id));
+    return noContent();
+  });
+}
+
+/**
+ * pointsBalanceFor
+ * pt-BR: Saldo no formato de `UserPointsBalance`, derivado do campo `points` do usuário.
+ * en-US: Balance in the `UserPointsBalance` shape, derived from the user's `points` field.
+ */
+function pointsBalanceFor(user: MockRecord) {
+  const points = String(Number(user.points) || 0);
+  return { total_points: points, total_earned: points, total_spent: '0', total_transactions: 0, active_points: points, expired_points: 0 };
+}
+
+/**
+ * registerImpersonation
+ * pt-BR: Modo "ver como": só administradores (permission_id <= 2); início e fim vão para
+ *        a coleção `audit_logs`.
+ * en-US: "View as" mode: administrators only (permission_id <= 2); start and stop go to
+ *        the `audit_logs` collection.
+ */
+function registerImpersonation(router: MockRouter): void {
+  const audit = (db: MockDatabase, actor: MockRecord, target: MockRecord, action: string, description: string, reason?: unknown) => {
+    db.insert('audit_logs', {
+      action,
+      description,
+      reason: reason || null,
+      user_id: String(actor.id),
+      user_name: actor.name,
+      subject_type: 'user',
+      subject_id: String(target.id),
+      subject_name: target.name,
+    });
+  };
+
+  router.on('POST', '/users/:id/impersonate', ({ db, user, params, body }) => {
+    if (Number(user!.permission_id) > 2) return fail(403, 'Apenas administradores podem ver como outro usuário.');
+    const target = db.find('users', params.id);
+    if (!target) return fail(404, 'Usuário não encontrado.');
+    if (String(target.id) === String(user!.id)) return fail(422, 'Não é possível ver como você mesmo.');
+    audit(db, user!, target, 'impersonation.started', `${user!.name} começou a ver como ${target.name}`, body?.reason);
+    return ok({
+      user: withoutPassword(target),
+      permissions: permissionsFor(target),
+      menu: menuFor(target),
+      points_balance: pointsBalanceFor(target),
+    });
+  });
+
+  router.on('POST', '/users/:id/impersonate/stop', ({ db, user, params }) => {
+    const target = db.find('users', params.id);
+    if (target) audit(db, user!, target, 'impersonation.stopped', `${user!.name} deixou de ver como ${target.name}`);
+    return noContent();
+  });
+}
+
+/**
+ * registerAudit
+ * pt-BR: Leitura da coleção `audit_logs` (gravada pelo transporte, ver `auditTrail.ts`),
+ *        da mais recente para a mais antiga; clientes da loja não têm acesso.
+ * en-US: Reads the `audit_logs` collection (written by the transport, see `auditTrail.ts`),
+ *        newest first; store clients have no access.
+ */
+function registerAudit(router: MockRouter): void {
+  router.on('GET', '/audit-logs', ({ db, user, query }) => {
+    if (Number(user!.permission_id) > 5) return fail(403, 'Acesso negado.');
+    const search = normalize(query.get('search')).trim();
+    const dateFrom = query.get('date_from');
+    const dateTo = query.get('date_to');
+    const entries = db.all('audit_logs')
+      .filter((entry) => ['subject_type', 'subject_id', 'action', 'user_id'].every((key) => !query.get(key) || String(entry[key]) === query.get(key)))
+      .filter((entry) => !search || ['description', 'subject_name', 'user_name'].some((field) => normalize(entry[field]).includes(search)))
+      .filter((entry) => !dateFrom || String(entry.created_at).slice(0, 10) >= dateFrom)
+      .filter((entry) => !dateTo || String(entry.created_at).slice(0, 10) <= dateTo)
+      .sort((a, b) => String(b.created_at).localeCompare(String(a.created_at)));
+    return ok(db.paginate(entries, query));
+  });
+}
+
+/**
+ * registerSessions
+ * pt-BR: Sessões ativas (coleção `sessions`): o usuário encerra as próprias; administradores
+ *        (permission_id <= 2) veem e encerram as de qualquer usuário.
+ * en-US: Active sessions (`sessions` collection): users end their own; administrators
+ *        (permission_id <= 2) view and end anyone's.
+ */
+function registerSessions(router: MockRouter): void {
+  const sessionsOf = (db: MockDatabase, userId: unknown, currentId: string | null) => db.all('sessions')
+    .filter((record) => String(record.user_id) === String(userId))
+    .sort((a, b) => String(b.last_active_at).localeCompare(String(a.last_active_at)))
+    .map((record) => ({ ...record, is_current: String(record.id) === currentId }));
+
+  const removeWhere = (db: MockDatabase, predicate: (record: MockRecord) => boolean) => {
+    db.all('sessions').filter(predicate).forEach((record) => db.remove('sessions', record.id));
+  };
+
+  router.on('GET', '/user/sessions', ({ db, user, sessionId }) => ok({ data: sessionsOf(db, user!.id, sessionId) }));
+
+  router.on('DELETE', '/user/sessions/others', ({ db, user, sessionId }) => {
+    removeWhere(db, (record) => String(record.user_id) === String(user!.id) && String(record.id) !== sessionId);
+    return noContent();
+  });
+
+  router.on('DELETE', '/user/sessions/:id', ({ db, user, params }) => {
+    const record = db.find('sessions', params.id);
+    if (!record || String(record.user_id) !== String(user!.id)) return fail(404, 'Sessão não encontrada.');
+    db.remove('sessions', record.id);
+    return noContent();
+  });
+
+  router.on('GET', '/users/:id/sessions', ({ db, user, params }) => {
+    if (Number(user!.permission_id) > 2) return fail(403, 'Apenas administradores podem ver as sessões de outros usuários.');
+    return ok({ data: sessionsOf(db, params.id, null) });
+  });
+
+  router.on('DELETE', '/users/:id/sessions', ({ db, user, params }) => {
+    if (Number(user!.permission_id) > 2) return fail(403, 'Apenas administradores podem encerrar sessões de outros usuários.');
+    removeWhere(db, (record) => String(record.user_id) === params.id);
+    return noContent();
+  });
+
+  router.on('DELETE', '/users/:id/sessions/:sessionId', ({ db, user, params }) => {
+    if (Number(user!.permission_id) > 2) return fail(403, 'Apenas administradores podem encerrar sessões de outros usuários.');
+    const record = db.find('sessions', params.sessionId);
+    if (!record || String(record.user_id) !== params.id) return fail(404, 'Sessão não encontrada.');
+    db.remove('sessions', record.id);
+    return noContent();
+  });
+}
+
+function registerAuth(router: MockRouter): void {
+  router.on('POST', '/login', ({ db, body }) => {
+    const email = normalize(body?.email);
+    const policy = securityPolicy(db).login;
+    const attempt = db.all('login_attempts').find((record) => record.email === email);
+    const failures = Number(attempt?.failures) || 0;
+    const protection = (total: number) => ({
+      attempts_remaining: Math.max(0, policy.lockout_after - total),
+      captcha_required: total >= policy.captcha_after,
+      captcha_provider: 'local',
+    });
+    const saveAttempt = (changes: Record<string, unknown>) => {
+      if (attempt) db.update('login_attempts', attempt.id, changes);
+      else db.insert('login_attempts', { email, ...changes });
+    };
+
+    if (attempt?.locked_until && Date.parse(String(attempt.locked_until)) > Date.now()) {
+      return fail(423, 'Conta bloqueada temporariamente por excesso de tentativas.', undefined, { code: 'account_locked', locked_until: attempt.locked_until });
+    }
+    const retryAt = Date.parse(String(attempt?.retry_at ?? ''));
+    if (retryAt > Date.now()) {
+      return fail(429, 'Muitas tentativas. Aguarde para tentar novamente.', undefined, {
+        code: 'too_many_attempts',
+        retry_after: Math.ceil((retryAt - Date.now()) / 1000),
+        ...protection(failures),
+      });
+    }
+    if (failures >= policy.captcha_after && !isValidCaptcha(body?.captcha_token)) {
+      return fail(422, 'Confirme que você não é um robô.', undefined, { code: 'captcha_required', ...protection(failures) });
+    }
+
+    const user = db.all('users').find((record) => normalize(record.email) === email);
+    if (!user || body?.password !== user.password) {
+      const total = failures + 1;
+      if (total >= policy.lockout_after) {
+        const lockedUntil = new Date(Date.now() + policy.lockout_minutes * 60_000).toISOString();
+        saveAttempt({ failures: 0, retry_at: null, locked_until: lockedUntil });
+        return fail(423, `Conta bloqueada por ${policy.lockout_minutes} minutos após ${total} tentativas sem sucesso.`, undefined, { code: 'account_locked', locked_until: lockedUntil });
+      }
+      const delay = retryDelaySeconds(total);
+      saveAttempt({ failures: total, retry_at: delay ? new Date(Date.now() + delay * 1000).toISOString() : null, locked_until: null });
+      return fail(422, 'E-mail ou senha inválidos.', { email: ['E-mail ou senha inválidos.'] }, { ...protection(total), retry_after: delay || undefined });
+    }
+    if (attempt) db.remove('login_attempts', attempt.id);
+    if (user.two_factor_enabled) {
+      const trusted = db.all('trusted_devices').some((device) => device.token === body?.device_token
+        && String(device.user_id) === String(user.id)
+        && Date.parse(String(device.expires_at)) > Date.now());
+      if (!trusted) return ok(twoFactorChallengeFor(db, user, 'Informe o código do app autenticador.'));
+    }
+    return ok(session(db, user));
+  }, { public: true });
+
+  router.on('POST', '/register', ({ db, body }) => {
+    if (db.all('users').some((record) => normalize(record.email) === normalize(body?.email))) {
+      return fail(422, 'E-mail já cadastrado.', { email: ['Este e-mail já está em uso.'] });
+    }
+    const rejection = body?.password ? passwordRejection(db, body.password) : null;
+    if (rejection) return fail(422, rejection, { password: [rejection] });
+    const user = db.insert('users', { name: body?.name, email: body?.email, password: body?.password || MOCK_PASSWORD, permission_id: '7', ativo: 's', status: 'actived', points: 0 });
+    return created(session(db, user));
+  }, { public: true });
+
+  router.on('POST', '/refresh-token', ({ db, body }) => {
+    const [id, sessionId] = String(body?.refresh_token ?? '').replace(/^mock-refresh-/, '').split('.');
+    const user = db.find('users', id);
+    if (!user || (sessionId && !db.find('sessions', sessionId))) return fail(401, 'Refresh token inválido.');
+    return ok(session(db, user, sessionId));
+  }, { public: true });
+
+  router.on('POST', '/forgot-password', () => ok({ message: 'Se o e-mail existir, enviaremos as instruções de recuperação.' }), { public: true });
+  router.on('POST', '/public/form-token', () => ok({
+    token: `mock-form-${Date.now().toString(36)}`,
+    expires_at: new Date(Date.now() + 30 * 60_000).toISOString(),
+  }), { public: true });
+  router.on('POST', '/reset-password', ({ db, body }) => {
+    const user = db.all('users').find((record) => normalize(record.email) === normalize(body?.email));
+    if (!user || !body?.token) return fail(422, 'Link de recuperação inválido ou expirado.');
+    const rejection = passwordRejection(db, body.password, user);
+    if (rejection) return fail(422, rejection, { password: [rejection] });
+    changeUserPassword(db, user, String(body.password));
+    db.all('login_attempts').filter((record) => record.email === normalize(user.email)).forEach((record) => db.remove('login_attempts', record.id));
+    return ok({ message: 'Senha redefinida com sucesso.' });
+  }, { public: true });
+  router.on('GET', '/user/validate-token/:token', ({ db, params }) => ok({ valid: !!authenticate(db, params.token).user }), { public: true });
+
+  router.on('POST', '/logout', ({ db, sessionId }) => {
+    if (sessionId) db.remove('sessions', sessionId);
+    return ok({ message: 'Logout realizado com sucesso.' });
+  });
+  router.on('GET', '/user', ({ user }) => ok(withoutPassword(user!)));
+  router.on('GET', '/user/profile', ({ user }) => ok({ data: withoutPassword(user!) }));
+  router.on('PUT', '/user/profile', ({ db, user, body }) => {
+    const { password: _password, permission_id: _permission, ...changes } = body ?? {};
+    return ok(withoutPassword(db.update('users', user!.id, changes)!));
+  });
+  router.on('PUT', '/user/change-password', ({ db, user, body }) => {
+    if (body?.current_password !== undefined && body.current_password !== user!.password) {
+      return fail(422, 'Senha atual incorreta.', { current_password: ['Senha atual incorreta.'] });
+    }
+    const password = body?.password ?? body?.new_password;
+    const rejection = passwordRejection(db, password, user!);
+    if (rejection) return fail(422, rejection, { new_password: [rejection] });
+    changeUserPassword(db, user!, String(password));
+    return noContent();
+  });
+  router.on('GET', '/user/permissions', ({ user }) => ok({ permissions: permissionsFor(user!) }));
+  router.on('GET', '/user/menu', ({ user }) => ok({ menu: menuFor(user!) }));
+  router.on('GET', '/user/can', ({ user, query }) => {
+    const permission = query.get('permission');
+    return ok({ allowed: !permission || permissionsFor(user!).includes(permission) });
+  });
+}
+
+const PASSWORDLESS_TTL = 10 * 60_000;
+const PASSWORDLESS_RESEND_SECONDS = 60;
+const PASSWORDLESS_MAX_ATTEMPTS = 5;
+
+function maskEmail(email: string): string {
+  const [name, domain] = email.split('@');
+  return `${name.slice(0, 1)}***@${domain}`;
+}
+
+/**
+ * registerPasswordless
+ * pt-BR: Login sem senha dos clientes da loja (grupos acima de 5). O "e-mail" é um `console.info`
+ *        com o código (`MOCK_LOGIN_CODE`) e o link; cadastros inexistentes recebem a mesma
+ *        resposta com um desafio que nunca valida. Desafios ficam em `passwordless_challenges`.
+ * en-US: Store clients' passwordless login (groups above 5). The "email" is a `console.info`
+ *        with the code (`MOCK_LOGIN_CODE`) and the link; unknown accounts get the same response
+ *        with a challenge that never validates. Challenges live in `passwordless_challenges`.
+ */
+function registerPasswordless(router: MockRouter): void {
+  router.on('POST', '/login/passwordless', ({ db, body }) => {
+    if (!securityPolicy(db).login.passwordless_enabled) return fail(403, 'O login sem senha não está habilitado.');
+    const identifier = normalize(body?.identifier);
+    const isEmail = identifier.includes('@');
+    const recent = db.all('passwordless_challenges').find((record) => record.identifier === identifier
+      && Date.parse(String(record.resend_at)) > Date.now());
+    if (recent) {
+      const retryAfter = Math.ceil((Date.parse(String(recent.resend_at)) - Date.now()) / 1000);
+      return fail(429, `Aguarde ${retryAfter}s para pedir um novo código.`, undefined, { code: 'too_many_attempts', retry_after: retryAfter });
+    }
+
+    const user = db.all('users').find((record) => (isEmail
+      ? normalize(record.email) === identifier
+      : onlyDigits(identifier).length === 11 && onlyDigits(String(record.cpf ?? '')) === onlyDigits(identifier)));
+    const storeClient = user && Number(user.permission_id) > 5 && user.ativo !== 'n' ? user : undefined;
+    const challenge = db.insert('passwordless_challenges', {
+      token: randomToken(),
+      link_token: randomToken(48),
+      identifier,
+      user_id: storeClient ? String(storeClient.id) : null,
+      attempts: 0,
+      expires_at: new Date(Date.now() + PASSWORDLESS_TTL).toISOString(),
+      resend_at: new Date(Date.now() + PASSWORDLESS_RESEND_SECONDS * 1000).toISOString(),
+    });
+    if (storeClient) {
+      const redirect = typeof body?.redirect === 'string' && body.redirect.startsWith('/') ? `&redirect=${encodeURIComponent(body.redirect)}` : '';
+      console.info(`[mock] Login sem senha de ${storeClient.email}: código ${MOCK_LOGIN_CODE} ou link /magic-link?token=${challenge.link_token}${redirect}`);
+    }
+    return ok({
+      challenge_token: challenge.token,
+      destination: isEmail ? maskEmail(identifier) : undefined,
+      expires_in: PASSWORDLESS_TTL / 1000,
+      resend_after: PASSWORDLESS_RESEND_SECONDS,
+      message: 'Se o cadastro existir, enviamos um código de acesso.',
+    });
+  }, { public: true });
+
+  router.on('POST', '/login/passwordless/verify', ({ db, body }) => {
+    const byLink = !!body?.token;
+    const challenge = db.all('passwordless_challenges').find((record) => (byLink
+      ? record.link_token === body?.token
+      : record.token === body?.challenge_token));
+    if (!challenge || Date.parse(String(challenge.expires_at)) < Date.now()) {
+      return fail(422, byLink ? 'Link de acesso inválido ou expirado.' : 'Código expirado. Peça um novo código.', undefined, { code: 'passwordless_expired' });
+    }
+    const user = challenge.user_id ? db.find('users', challenge.user_id as string) : undefined;
+    if (byLink && !user) return fail(422, 'Link de acesso inválido ou expirado.', undefined, { code: 'passwordless_expired' });
+    if (!byLink && (!user || String(body?.code ?? '').trim() !== MOCK_LOGIN_CODE)) {
+      const attempts = Number(challenge.attempts) + 1;
+      if (attempts >= PASSWORDLESS_MAX_ATTEMPTS) {
+        db.remove('passwordless_challenges', challenge.id);
+        return fail(422, 'Código incorreto. Peça um novo código.', { code: ['Código incorreto.'] }, { code: 'passwordless_expired' });
+      }
+      db.update('passwordless_challenges', challenge.id, { attempts });
+      return fail(422, 'Código incorreto.', { code: ['Código incorreto.'] }, { attempts_remaining: PASSWORDLESS_MAX_ATTEMPTS - attempts });
+    }
+
+    db.remove('passwordless_challenges', challenge.id);
+    db.all('login_attempts').filter((record) => record.email === normalize(user!.email)).forEach((record) => db.remove('login_attempts', record.id));
+    if (user!.two_factor_enabled) {
+      return ok({ ...twoFactorChallengeFor(db, user!, 'Informe o código do app autenticador.'), email: user!.email });
+    }
+    return ok(session(db, user!));
+  }, { public: true });
+}
+
+/**
+ * registerPreferences
+ * pt-BR: Preferências por usuário na coleção `user_preferences`; o `PATCH` mescla por chave e
+ *        mantém a gravação mais recente (`updated_at` de cada entrada).
+ * en-US: Per-user preferences in the `user_preferences` collection; `PATCH` merges per key and
+ *        keeps the most recent write (each entry's `updated_at`).
+ */
+function registerPreferences(router: MockRouter): void {
+  type Entries = Record<string, { value: unknown; updated_at: string }>;
+  const recordOf = (db: MockDatabase, user: MockRecord) =>
+    db.all('user_preferences').find((record) => String(record.user_id) === String(user.id));
+
+  router.on('GET', '/user/preferences', ({ db, user }) => ok({ data: (recordOf(db, user!)?.entries as Entries | undefined) ?? {} }));
+
+  router.on('PATCH', '/user/preferences', ({ db, user, body }) => {
+    const record = recordOf(db, user!);
+    const entries: Entries = { ...((record?.entries as Entries | undefined) ?? {}) };
+    Object.entries((body?.entries as Entries | undefined) ?? {}).forEach(([key, entry]) => {
+      if (!entry || typeof entry.updated_at !== 'string') return;
+      const current = entries[key];
+      if (!current || Date.parse(entry.updated_at) > Date.parse(current.updated_at)) entries[key] = entry;
+    });
+    if (record) db.update('user_preferences', record.id, { entries });
+    else db.insert('user_preferences', { user_id: String(user!.id), entries });
+    return ok({ data: entries });
+  });
+}
+
+function registerDashboard(router: MockRouter): void {
+  router.on('GET', '/dashboard', ({ db }) => {
+    const clients = db.all('clients').filter((client) => client.excluido !== 's');
+    const countBy = (status: string, list = clients) => list.filter((client) => client.status === status).length;
+    const registrationData = Array.from({ length: 14 }, (_, index) => {
+      const date = new Date(Date.now() - (13 - index) * 86_400_000).toISOString().slice(0, 10);
+      const sameDay = clients.filter((client) => String(client.created_at).slice(0, 10) === date);
+      return { date, actived: countBy('actived', sameDay), inactived: countBy('inactived', sameDay), pre_registred: countBy('pre_registred', sameDay) };
+    });
+    const byDate = [...clients].sort((a, b) => String(b.created_at).localeCompare(String(a.created_at)));
+    return ok({
+      success: true,
+      data: {
+        recent_activities: byDate.slice(0, 6).map((client) => ({
+          id: String(client.id),
+          name: client.name,
+          email: client.email ?? null,
+          status: client.status,
+          type: 'client',
+          title: 'Cliente cadastrado',
+          created_at: client.created_at,
+        })),
+        registration_data: registrationData,
+        pending_pre_registrations: byDate.filter((client) => client.status === 'pre_registred').map((client) => ({
+          id: String(client.id),
+          name: client.name,
+          email: client.email,
+          phone: (client.config as Record<string, unknown> | undefined)?.celular ?? '',
+          date: client.created_at,
+          type: 'pf',
+        })),
+        totals: { actived: countBy('actived'), inactived: countBy('inactived'), pre_registred: countBy('pre_registred'), variation_percentage: 12.5 },
+      },
+    });
+  });
+
+  router.on('GET', '/dashboard/aeroclube', ({ db }) => ok({ data: aeroclubeOverview(db.all('users')) }));
+
+  router.on('GET', '/options', ({ db }) => ok({ data: Object.fromEntries(db.all('options').map((option) => [option.name, option.value])) }));
+  router.on('GET', '/options/all', ({ db }) => {
+    const options = db.all('options');
+    return ok({ data: { data: options, current_page: 1, total: options.length } });
+  });
+  router.on('GET', '/options/branding', ({ db }) => ok({
+    data: Object.fromEntries(
+      db.all('options').filter((option) => String(option.name).startsWith('branding_')).map((option) => [option.name, option.value])
+    ),
+  }), { public: true });
+  router.on('POST', '/options/all', ({ db, body }) => {
+    Object.entries(body ?? {}).forEach(([name, value]) => {
+      const existing = db.all('options').find((option) => option.name === name);
+      if (existing) db.update('options', existing.id, { value });
+      else db.insert('options', { name, value, url: name, tags: '', ativo: 's' });
+    });
+    return ok({ data: null, message: 'Configurações salvas.' });
+  });
+  router.on('PUT', '/options/:id', ({ db, params, body }) => {
+    const option = db.update('options', params.id, { value: body?.value });
+    return option ? ok({ data: option }) : fail(404, 'Opção não encontrada.');
+  });
+}
+
+function registerFunnels(router: MockRouter): void {
+  const reorder = (db: MockDatabase, collection: string, ids: unknown) => {
+    (Array.isArray(ids) ? ids : []).forEach((id, index) => db.update(collection, String(id), { order: index + 1 }));
+    return noContent();
+  };
+
+  router.on('PUT', '/funnels/reorder', ({ db, body }) => reorder(db, 'funnels', body?.ids));
+  router.on('GET', '/funnels/:id/stages', ({ db, params, query }) => {
+    const stages = db.all('stages')
+      .filter((stage) => String(stage.funnel_id) === params.id)
+      .sort((a, b) => Number(a.order) - Number(b.order));
+    return ok(db.paginate(stages, query));
+  });
+  router.on('PUT', '/funnels/:id/stages/reorder', ({ db, body }) => reorder(db, 'stages', body?.ids));
+
+  router.on('POST', '/stages', ({ db, body }) => {
+    const order = db.all('stages').filter((stage) => String(stage.funnel_id) === String(body?.funnel_id)).length + 1;
+    return created({ data: db.insert('stages', { order, active: true, ...body }) });
+  });
+  router.on('PATCH', '/stages/:id', ({ db, params, body }) => {
+    const stage = db.update('stages', params.id, body ?? {});
+    return stage ? ok({ data: stage }) : fail(404, 'Etapa não encontrada.');
+  });
+  router.on('DELETE', '/stages/:id', ({ db, params }) => (db.remove('stages', params.id) ? noContent() : fail(404, 'Etapa não encontrada.')));
+}
+
+function registerClients(router: MockRouter): void {
+  router.on('GET', '/clients/list', ({ db }) => ok({
+    data: db.all('clients').filter((client) => client.excluido !== 's').map((client) => ({ id: String(client.id), name: client.name })),
+  }));
+
+  router.on('POST', '/clients', ({ db, body }) => {
+    const errors: Record<string, string[]> = {};
+    if (!String(body?.name ?? '').trim()) errors.name = ['O nome é obrigatório.'];
+    if (body?.email && db.all('clients').some((client) => normalize(client.email) === normalize(body.email))) {
+      errors.email = ['Este e-mail já está cadastrado.'];
+    }
+    if (Object.keys(errors).length) return fail(422, 'Dados inválidos.', errors);
+    const client = db.insert('clients', { status: 'actived', points: 0, ativo: 's', excluido: 'n', deletado: 'n', config: {}, ...body });
+    return created({ data: client, message: 'Cliente criado com sucesso.', status: 201 });
+  });
+
+  const activeClients = (db: MockDatabase) => db.all('clients').filter((client) => client.excluido !== 's');
+
+  router.on('POST', '/clients/duplicates/check', ({ db, body }) => ok({
+    data: findDuplicateCandidates({ ...body, id: body?.ignore_id }, activeClients(db)).map(({ client, score, reasons }) => ({ client, score, reasons })),
+  }));
+
+  router.on('GET', '/clients/duplicates', ({ db }) => ok({
+    data: groupDuplicates(activeClients(db)).map((group) => ({ id: group.clients.map((client) => client.id).join('-'), ...group })),
+  }));
+
+  /**
+   * Mesclagem
+   * pt-BR: Aplica os valores escolhidos no cadastro mantido, soma os pontos, move os vínculos
+   *        (matrícula/proposta por `id_cliente`, demais por `client_id`) e manda os outros para
+   *        a lixeira com `merged_into`. Cada registro alterado vai para a auditoria.
+   * en-US: Applies the picked values to the kept record, adds up the points, moves the links
+   *        (enrollment/proposal through `id_cliente`, the rest through `client_id`) and sends the
+   *        others to the trash with `merged_into`. Every changed record goes to the audit trail.
+   */
+  router.on('POST', '/clients/merge', ({ db, body, user }) => {
+    const target = db.find('clients', String(body?.target_id ?? ''));
+    if (!target || target.excluido === 's') return fail(404, 'Cliente mantido não encontrado.');
+    const sourceIds = (Array.isArray(body?.source_ids) ? body.source_ids : []).map(String).filter((id) => id !== String(target.id));
+    const sources = sourceIds.map((id) => db.find('clients', id)).filter((client): client is MockRecord => !!client && client.excluido !== 's');
+    if (sources.length === 0 || sources.length !== sourceIds.length) {
+      return fail(422, 'Dados inválidos.', { source_ids: ['Informe cadastros ativos para mesclar.'] });
+    }
+    const values = (body?.values ?? {}) as Record<string, unknown>;
+    const mergedIds = new Set([String(target.id), ...sourceIds]);
+    if (values.email && activeClients(db).some((client) => !mergedIds.has(String(client.id)) && normalize(client.email) === normalize(values.email))) {
+      return fail(422, 'Dados inválidos.', { email: ['Este e-mail já está cadastrado em outro cliente.'] });
+    }
+
+    const repoint = (collection: string, field: string, extra: Record<string, unknown> = {}, only?: (record: MockRecord) => boolean) => {
+      const records = db.has(collection) ? db.all(collection) : [];
+      const linked = records.filter((record) => sourceIds.includes(String(record[field])) && (!only || only(record)));
+      linked.forEach((record) => {
+        const before = { ...record };
+        writeAuditLog(db, user!, collection, 'updated', before, db.update(collection, record.id, { [field]: String(target.id), ...extra }), { reason: `Mesclagem de clientes em #${target.id}` });
+      });
+      return linked.length;
+    };
+    // Matrículas primeiro; o que sobra em `matriculas` são propostas
+    const moved = {
+      enrollments: repoint('matriculas', 'id_cliente', { student_name: values.name ?? target.name }, (record) => record.situacao === 'mat'),
+      proposals: repoint('matriculas', 'id_cliente', { student_name: values.name ?? target.name }),
+      aircraft: repoint('aeronaves', 'client_id'),
+      service_orders: repoint('service-orders', 'client_id', { client_name: values.name ?? target.name }),
+      points_extracts: repoint('admin/points-extracts', 'client_id'),
+      attendances: repoint('attendances', 'client_id'),
+    };
+
+    const reason = `Mesclado no cliente #${target.id}`;
+    const now = new Date().toISOString();
+    sources.forEach((source) => {
+      const before = { ...source };
+      writeAuditLog(db, user!, 'clients', 'deleted', before, db.update('clients', source.id, { excluido: 's', reg_excluido: { data: now, motivo: reason }, merged_into: String(target.id) }), { reason });
+    });
+
+    const before = { ...target };
+    const points = sources.reduce((sum, source) => sum + (Number(source.points) || 0), Number(target.points) || 0);
+    const merged = db.update('clients', target.id, { ...values, points, merged_ids: [...((target.merged_ids as string[]) ?? []), ...sourceIds] })!;
+    writeAuditLog(db, user!, 'clients', 'updated', before, merged, { reason: `Mesclagem de ${sourceIds.map((id) => `#${id}`).join(', ')}` });
+
+    return ok({ data: { client: merged, merged_ids: sourceIds, moved }, message: 'Clientes mesclados com sucesso.' });
+  });
+
+  /**
+   * Segmentos
+   * pt-BR: `segment` traz a definição em JSON e `segment_id` aponta para um segmento salvo; o
+   *        filtro "tem matrícula em" considera só matrículas (`situacao = 'mat'`).
+   * en-US: `segment` carries the definition as JSON and `segment_id` points to a saved segment;
+   *        the "has enrollment in" filter only considers enrollments (`situacao = 'mat'`).
+   */
+  const validateSegment = (db: MockDatabase, body: MockBody | undefined, id?: string): MockResponse | null => {
+    const errors: Record<string, string[]> = {};
+    const name = String(body?.name ?? '').trim();
+    if (!name) errors.name = ['O nome é obrigatório.'];
+    else if (db.all('client-segments').some((segment) => normalize(segment.name) === normalize(name) && String(segment.id) !== id)) {
+      errors.name = ['Já existe um segmento com este nome.'];
+    }
+    if (body?.definition !== undefined && !compactSegment(body.definition as ClientSegmentDefinition)) {
+      errors.definition = ['Inclua ao menos uma condição completa.'];
+    }
+    return Object.keys(errors).length ? fail(422, 'Dados inválidos.', errors) : null;
+  };
+
+  router.on('POST', '/client-segments', ({ db, body, user }) => {
+    if (body?.definition === undefined) return fail(422, 'Dados inválidos.', { definition: ['Inclua ao menos uma condição completa.'] });
+    const invalid = validateSegment(db, body);
+    if (invalid) return invalid;
+    const segment = db.insert('client-segments', {
+      name: String(body!.name).trim(),
+      description: body!.description ?? null,
+      definition: compactSegment(body!.definition as ClientSegmentDefinition),
+      autor: user ? String(user.id) : null,
+    });
+    return created({ data: segment, message: 'Segmento salvo.', status: 201 });
+  });
+
+  router.on('PUT', '/client-segments/:id', ({ db, params, body }) => {
+    if (!db.find('client-segments', params.id)) return fail(404, 'Segmento não encontrado.');
+    const invalid = validateSegment(db, body, params.id);
+    if (invalid) return invalid;
+    const changes = { ...body, ...(body?.definition ? { definition: compactSegment(body.definition as ClientSegmentDefinition) } : {}) };
+    return ok({ data: db.update('client-segments', params.id, changes) });
+  });
+
+  router.on('PATCH', '/clients/:id/restore', ({ db, params }) => {
+    const client = db.update('clients', params.id, { excluido: 'n', reg_excluido: null });
+    return client ? ok(client) : fail(404, 'Cliente não encontrado.');
+  });
+
+  router.on('POST', '/clients/:id/attendances', ({ db, params, body, user }) => {
+    const client = db.find('clients', params.id);
+    if (!client) return fail(404, 'Cliente não encontrado.');
+    const attendance = db.insert('attendances', { client_id: String(client.id), attended_by: String(user!.id), ...body });
+    if (body?.stage_id) {
+      const stage = db.find('stages', String(body.stage_id));
+      const config = { ...(client.config as Record<string, unknown> | undefined), stage_id: String(body.stage_id), ...(stage ? { funnelId: String(stage.funnel_id) } : {}) };
+      db.update('clients', client.id, { config, preferencias: { pipeline: { stage_id: String(body.stage_id) } } });
+    }
+    return created({ data: attendance, message: 'Atendimento registrado.' });
+  });
+}
+
+/**
+ * narrowClientsBySegment
+ * pt-BR: Aplica `segment` (JSON) ou `segment_id` à listagem de clientes; segmento salvo
+ *        inexistente não devolve ninguém.
+ * en-US: Applies `segment` (JSON) or `segment_id` to the clients list; a missing saved
+ *        segment returns nobody.
+ */
+function narrowClientsBySegment(records: MockRecord[], { db, query }: MockRequest): MockRecord[] {
+  const segmentId = query.get('segment_id');
+  let definition = parseSegmentParam(query.get('segment'));
+  if (segmentId) {
+    const saved = db.find('client-segments', segmentId);
+    if (!saved) return [];
+    definition = compactSegment(saved.definition as ClientSegmentDefinition);
+  }
+  if (!definition) return records;
+
+  const coursesByClient = new Map<string, Set<string>>();
+  db.all('matriculas')
+    .filter((record) => record.situacao === 'mat')
+    .forEach((record) => {
+      const clientId = String(record.id_cliente);
+      if (!coursesByClient.has(clientId)) coursesByClient.set(clientId, new Set());
+      coursesByClient.get(clientId)!.add(String(record.id_curso));
+    });
+  return records.filter((client) => matchesClientSegment(client as SegmentSubject, definition, { coursesByClient }));
+}
+
+function registerServiceOrders(router: MockRouter): void {
+  router.on('GET', '/service-orders/stats', ({ db }) => {
+    const orders = db.all('service-orders');
+    const count = (status: string) => orders.filter((order) => order.status === status).length;
+    return ok({
+      data: {
+        total: orders.length,
+        pending: count('pending'),
+        in_progress: count('in_progress'),
+        completed: count('completed'),
+        cancelled: count('cancelled'),
+        total_value: orders.reduce((sum, order) => sum + Number(order.total_amount || 0), 0),
+      },
+    });
+  });
+
+  router.on('GET', '/service-orders/generate-number', ({ db }) => ok({
+    data: { order_number: `OS-${new Date().getFullYear()}-${String(db.all('service-orders').length + 1).padStart(4, '0')}` },
+  }));
+
+  router.on('POST', '/service-orders/:id/duplicate', ({ db, params }) => {
+    const original = db.find('service-orders', params.id);
+    if (!original) return fail(404, 'Ordem de serviço não encontrada.');
+    const { id: _id, ...copy } = original;
+    return created({ data: db.insert('service-orders', { ...copy, title: `${original.title} (cópia)`, status: 'pending' }) });
+  });
+
+  router.on('PUT', '/service-orders/:id/status', ({ db, params, body }) => {
+    const order = db.update('service-orders', params.id, { status: body?.status });
+    return order ? ok({ data: order }) : fail(404, 'Ordem de serviço não encontrada.');
+  });
+}
+
+function registerStore(router: MockRouter): void {
+  router.on('GET', '/point-store/products', ({ db, query }) => {
+    const products = filterRecords(db.all('products').filter((product) => product.active !== false), query, ['name', 'description']);
+    return ok(db.paginate(products, query));
+  }, { public: true });
+
+  router.on('GET', '/product-categories', ({ db }) => ok({
+    data: Array.from(new Set(db.all('products').map((product) => String(product.category)))).map((category) => ({ id: category, name: category })),
+  }));
+  router.on('GET', '/product-units', () => ok({ data: [{ value: 'un', label: 'Unidade' }, { value: 'kit', label: 'Kit' }, { value: 'h', label: 'Hora' }] }));
+  router.on('GET', '/products/available', ({ db }) => ok({ data: db.all('products').filter((product) => product.availability !== 'unavailable') }));
+
+  router.on('POST', '/products/redeem', ({ db, body, user }) => {
+    const product = db.find('products', String(body?.productId ?? body?.product_id));
+    if (!product) return fail(404, 'Produto não encontrado.');
+    const quantity = Number(body?.quantity) || 1;
+    const cost = Number(product.points) * quantity;
+    const balance = Number(user!.points) || 0;
+    if (cost > balance) return fail(422, 'Pontos insuficientes para este resgate.');
+    db.update('users', user!.id, { points: balance - cost });
+    const now = new Date().toISOString();
+    const redemption = db.insert('redemptions', {
+      userId: String(user!.id),
+      userName: user!.name,
+      userEmail: user!.email,
+      productId: String(product.id),
+      productName: product.name,
+      productImage: product.image,
+      productCategory: product.category,
+      quantity,
+      pointsUsed: cost,
+      redemptionDate: now,
+      status: 'pending',
+      statusHistory: [{ status: 'pending', date: now, notes: 'Resgate solicitado' }],
+      createdAt: now,
+      updatedAt: now,
+    });
+    return created({ data: { redemption, remainingPoints: balance - cost } });
+  });
+
+  router.on('GET', '/products/:slug', ({ db, params }) => {
+    const product = db.find('products', params.slug) ?? db.all('products').find((record) => record.slug === params.slug);
+    return product ? ok({ data: product }) : fail(404, 'Produto não encontrado.');
+  });
+
+  router.on('GET', '/point-store/redemptions', ({ db, user, query }) => {
+    const mine = db.all('redemptions').filter((redemption) => String(redemption.userId) === String(user!.id));
+    return ok(db.paginate(filterRecords(mine, query, ['productName']), query));
+  });
+  router.on('GET', '/point-store/redemptions/:id', ({ db, params }) => {
+    const redemption = db.find('redemptions', params.id);
+    return redemption ? ok({ data: redemption }) : fail(404, 'Resgate não encontrado.');
+  });
+
+  router.on('GET', '/admin/redemptions', ({ db, query }) => ok({ data: db.paginate(filterRecords(db.all('redemptions'), query, ['productName', 'userName']), query) }));
+
+  const changeStatus = (db: MockDatabase, id: string, status: string, notes?: string, extra: Record<string, unknown> = {}) => {
+    const redemption = db.find('redemptions', id);
+    if (!redemption) return fail(404, 'Resgate não encontrado.');
+    const now = new Date().toISOString();
+    const history = [...((redemption.statusHistory as unknown[]) ?? []), { status, date: now, notes }];
+    return ok({ data: db.update('redemptions', id, { ...extra, status, statusHistory: history, updatedAt: now }) });
+  };
+  router.on('PATCH', '/admin/redemptions/:id/status', ({ db, params, body }) =>
+    changeStatus(db, params.id, String(body?.status), body?.notes as string | undefined, body?.trackingCode ? { trackingCode: body.trackingCode } : {}));
+  router.on('PATCH', '/admin/redemptions/:id/refund', ({ db, params, body }) => {
+    const redemption = db.find('redemptions', params.id);
+    const owner = redemption ? db.find('users', String(redemption.userId)) : undefined;
+    if (owner && redemption?.status !== 'refunded') {
+      db.update('users', owner.id, { points: (Number(owner.points) || 0) + Number(redemption?.pointsUsed || 0) });
+    }
+    return changeStatus(db, params.id, 'refunded', body?.notes as string | undefined);
+  });
+  router.on('DELETE', '/admin/redemptions/:id', ({ db, params }) => (db.remove('redemptions', params.id) ? noContent() : fail(404, 'Resgate não encontrado.')));
+}
+
+/**
+ * financialPage
+ * pt-BR: O módulo financeiro usa `{ data, total, page, limit, totalPages }`.
+ * en-US: The financial module uses `{ data, total, page, limit, totalPages }`.
+ */
+function financialPage(db: MockDatabase, records: MockRecord[], query: URLSearchParams) {
+  const page = db.paginate(records, query);
+  return { ...page, page: page.current_page, limit: page.per_page, totalPages: page.last_page };
+}
+
+function registerFinancial(router: MockRouter): void {
+  const sum = (records: MockRecord[]) => records.reduce((total, record) => total + Number(record.amount || 0), 0);
+
+  const summaryOf = (db: MockDatabase) => {
+    const cashFlow = db.all('financial/cash-flow');
+    const payable = db.all('financial/accounts-payable');
+    const receivable = db.all('financial/accounts-receivable');
+    const totalIncome = sum(cashFlow.filter((entry) => entry.type === 'income'));
+    const totalExpenses = sum(cashFlow.filter((entry) => entry.type === 'expense'));
+    return {
+      totalIncome,
+      totalExpenses,
+      netProfit: totalIncome - totalExpenses,
+      pendingReceivables: sum(receivable.filter((account) => account.status === 'pending')),
+      pendingPayables: sum(payable.filter((account) => account.status === 'pending')),
+      overdueReceivables: sum(receivable.filter((account) => account.status === 'overdue')),
+      overduePayables: sum(payable.filter((account) => account.status === 'overdue')),
+      cashBalance: Number(cashFlow[0]?.balance ?? 0),
+    };
+  };
+
+  router.on('GET', '/financial/cash-flow/balance', ({ db }) => ok({
+    data: { balance: Number(db.all('financial/cash-flow')[0]?.balance ?? 0), lastUpdate: new Date().toISOString() },
+  }));
+  router.on('GET', '/financial/summary', ({ db }) => ok({ data: summaryOf(db) }));
+  router.on('GET', '/financial/dashboard', ({ db }) => {
+    const cashFlow = db.all('financial/cash-flow');
+    const categories = db.all('financial/categories');
+    return ok({
+      data: {
+        summary: summaryOf(db),
+        recentTransactions: cashFlow.slice(0, 5),
+        upcomingPayables: db.all('financial/accounts-payable').filter((account) => account.status !== 'paid'),
+        upcomingReceivables: db.all('financial/accounts-receivable').filter((account) => account.status !== 'paid'),
+        monthlyTrend: [{
+          month: new Date().toISOString().slice(0, 7),
+          income: sum(cashFlow.filter((entry) => entry.type === 'income')),
+          expenses: sum(cashFlow.filter((entry) => entry.type === 'expense')),
+        }],
+        categoryBreakdown: categories.map((category) => ({
+          category: category.name,
+          amount: sum(cashFlow.filter((entry) => String(entry.category) === String(category.id))),
+          type: category.type,
+        })),
+      },
+    });
+  });
+
+  const accountAction = (collection: string, changes: (body: MockBody) => Record<string, unknown>) =>
+    ({ db, params, body }: MockRequest) => {
+      const account = db.update(collection, params.id, changes(body));
+      return account ? ok({ data: account }) : fail(404, 'Conta não encontrada.');
+    };
+  router.on('PATCH', '/financial/accounts-payable/:id/pay', accountAction('financial/accounts-payable', (body) => ({ status: 'paid', paymentDate: body?.paymentDate ?? new Date().toISOString().slice(0, 10) })));
+  router.on('PATCH', '/financial/accounts-payable/:id/cancel', accountAction('financial/accounts-payable', () => ({ status: 'cancelled' })));
+  router.on('PATCH', '/financial/accounts-receivable/:id/receive', accountAction('financial/accounts-receivable', (body) => ({ status: 'paid', receivedDate: body?.receivedDate ?? new Date().toISOString().slice(0, 10) })));
+  router.on('PATCH', '/financial/accounts-receivable/:id/cancel', accountAction('financial/accounts-receivable', () => ({ status: 'cancelled' })));
+
+  router.on('GET', '/financial/categories', ({ db, query }) => {
+    const categories = filterRecords(db.all('financial/categories'), query);
+    return ok({ data: categories, total: categories.length, page: 1, limit: categories.length, totalPages: 1 });
+  });
+
+  ['financial/accounts-payable', 'financial/accounts-receivable', 'financial/cash-flow'].forEach((collection) => {
+    router.on('GET', `/${collection}`, ({ db, query }) => ok({ data: financialPage(db, filterRecords(db.all(collection), query, ['description']), query) }));
+  });
+  ['financial/categories', 'financial/accounts-payable', 'financial/accounts-receivable', 'financial/cash-flow'].forEach((collection) => {
+    resource(router, `/${collection}`, collection, { envelope: 'data', searchFields: ['name', 'description'] });
+  });
+}
+
+/**
+ * registerFallback
+ * pt-BR: Qualquer outro caminho vira uma coleção `{ data }` com o próprio caminho como nome,
+ *        para que telas ainda não cobertas funcionem (vazias) em vez de falhar.
+ * en-US: Any other path becomes a `{ data }` collection named after the path itself, so
+ *        screens not covered yet work (empty) instead of failing.
+ */
+function registerFallback(router: MockRouter): void {
+  const ID_SEGMENT = /^(\d+|[0-9a-f]{8}-[0-9a-f-]{27})$/i;
+  const methods: HttpMethod[] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+  const fallback = new MockRouter();
+  const resolved = new Set<string>();
+
+  for (let depth = 1; depth <= 4; depth += 1) {
+    const pattern = Array.from({ length: depth }, (_, index) => `/:p${index}`).join('');
+    methods.forEach((method) => {
+      router.on(method, pattern, (request) => {
+        const segments = request.path.split('/').filter(Boolean);
+        const hasId = segments.length > 1 && ID_SEGMENT.test(segments[segments.length - 1]);
+        const collection = (hasId ? segments.slice(0, -1) : segments).join('/');
+        if (!resolved.has(collection)) {
+          resource(fallback, `/${collection}`, collection, { envelope: 'data' });
+          resolved.add(collection);
+        }
+        const matched = fallback.match(method, request.path);
+        return matched ? matched.route.handler({ ...request, params: matched.params }) : fail(404, 'Rota não encontrada no backend mock.');
+      });
+    });
+  }
+}
+
+/**
+ * registerHandlers
+ * pt-BR: Registra todas as rotas; as específicas antes dos recursos genéricos.
+ * en-US: Registers every route; specific ones before the generic resources.
+ */
+export function registerHandlers(router: MockRouter): MockRouter {
+  registerAuth(router);
+  registerPasswordless(router);
+  registerSecurity(router);
+  registerImpersonation(router);
+  registerAudit(router);
+  registerTwoFactor(router);
+  registerSessions(router);
+  registerPreferences(router);
+  registerDashboard(router);
+  registerFunnels(router);
+  registerClients(router);
+  registerServiceOrders(router);
+  registerStore(router);
+  registerFinancial(router);
+
+  resource(router, '/clients', 'clients', {
+    envelope: 'raw',
+    softDelete: true,
+    searchFields: ['name', 'email', 'cpf', 'cnpj'],
+    narrow: narrowClientsBySegment,
+  });
+  resource(router, '/client-segments', 'client-segments', { envelope: 'data' });
+  resource(router, '/matriculas', 'matriculas', { envelope: 'raw', searchFields: ['student_name', 'course_name'] });
+  router.on('GET', '/users/list', ({ db }) => ok({ data: db.all('users').map((user) => ({ id: String(user.id), name: user.name })) }));
+  router.on('POST', '/users', ({ db, body }) => {
+    if (db.all('users').some((record) => normalize(record.email) === normalize(body?.email))) {
+      return fail(422, 'E-mail já cadastrado.', { email: ['Este e-mail já está em uso.'] });
+    }
+    return created({ data: withoutPassword(db.insert('users', body ?? {})), message: 'Registro criado com sucesso.', status: 201 });
+  });
+  resource(router, '/users', 'users', { envelope: 'raw', searchFields: ['name', 'email'], present: withoutPassword });
+  resource(router, '/funnels', 'funnels', { envelope: 'data' });
+  resource(router, '/cursos', 'cursos', { envelope: 'data', searchFields: ['nome', 'titulo'] });
+  resource(router, '/turmas', 'turmas', { envelope: 'data', searchFields: ['nome'] });
+  resource(router, '/situacoes-matricula', 'situacoes-matricula', { envelope: 'data' });
+  resource(router, '/service-orders', 'service-orders', { envelope: 'data', searchFields: ['title', 'order_number', 'client_name'] });
+  resource(router, '/products', 'products', { envelope: 'data', searchFields: ['name', 'description'] });
+
+  registerFallback(router);
+  return router;
+}
@@ -0,0 +1,123 @@
+import type { HttpClient } from '@/services/httpClient';
+import type { HttpMethod } from '@/services/requestPolicy';
+import { MockDatabase } from './mockDatabase';
+import { registerHandlers } from './handlers';
+import { recordAudit, snapshotForAudit } from './auditTrail';
+import { MockBody, MockResponse, MockRouter, authenticate, fail } from './router';
+
+/**
+ * Backend mock no navegador
+ * pt-BR: Substitui o transporte do `httpClient` quando `VITE_API_MOCK=true`. As requisições
+ *        continuam passando por interceptadores, retry e fila offline; só o envio é trocado
+ *        por um roteador que responde com dados semeados e mantém estado (`MockDatabase`).
+ * en-US: Replaces the `httpClient` transport when `VITE_API_MOCK=true`. Requests still go
+ *        through interceptors, retry and the offline queue; only the sending step is swapped
+ *        for a router that answers with seeded data and keeps state (`MockDatabase`).
+ */
+
+function readBody(body: BodyInit | null | undefined): MockBody {
+  if (body === undefined || body === null) return undefined;
+  if (typeof body === 'string') {
+    try {
+      return JSON.parse(body);
+    } catch {
+      return undefined;
+    }
+  }
+  if (body instanceof FormData || body instanceof URLSearchParams) {
+    const data: Record<string, unknown> = {};
+    body.forEach((value, key) => {
+      data[key] = typeof value === 'string' ? value : value.name;
+    });
+    return data;
+  }
+  return undefined;
+}
+
+function readHeader(headers: HeadersInit | undefined, name: string): string | null {
+  if (!headers) return null;
+  return new Headers(headers).get(name);
+}
+
+function waitFor(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const abort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Requisição cancelada', 'AbortError'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', abort);
+      resolve();
+    }, ms);
+    if (signal?.aborted) abort();
+    else signal?.addEventListener('abort', abort, { once: true });
+  });
+}
+
+/**
+ * createMockTransport
+ * pt-BR: Cria o transporte que resolve as requisições no `MockRouter`, com latência simulada.
+ * en-US: Creates the transport that resolves requests through the `MockRouter`, with simulated latency.
+ */
+export function createMockTransport(client: HttpClient, db: MockDatabase, router: MockRouter, delayMs: number) {
+  const basePath = new URL(client.baseURL, window.location.origin).pathname.replace(/\/+$/, '');
+
+  return async (url: string, init: RequestInit): Promise<Response> => {
+    await waitFor(delayMs, init.signal);
+
+    const target = new URL(url, window.location.origin);
+    const path = basePath && target.pathname.startsWith(basePath) ? target.pathname.slice(basePath.length) || '/' : target.pathname;
+    const method = String(init.method || 'GET').toUpperCase() as HttpMethod;
+    const matched = router.match(method, path);
+
+    let result: MockResponse;
+    if (!matched) {
+      result = fail(404, `Rota não encontrada no backend mock: ${method} ${path}`);
+    } else {
+      const token = readHeader(init.headers, 'Authorization')?.replace(/^Bearer\s+/i, '') || '';
+      const { user, sessionId } = authenticate(db, token);
+      if (!matched.route.public && !user) {
+        result = fail(401, 'Não autenticado.');
+      } else {
+        try {
+          const snapshot = snapshotForAudit(db, method, path);
+          result = matched.route.handler({ method, path, params: matched.params, query: target.searchParams, body: readBody(init.body), user, sessionId, db });
+          if (snapshot) recordAudit(db, snapshot, user, result.status);
+        } catch (error) {
+          console.error('[mock] erro no handler', method, path, error);
+          result = fail(500, error instanceof Error ? error.message : 'Erro interno do backend mock');
+        }
+      }
+    }
+
+    const hasBody = result.status !== 204 && result.body !== undefined;
+    return new Response(hasBody ? JSON.stringify(result.body) : null, {
+      status: result.status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  };
+}
+
+let database: MockDatabase | null = null;
+
+/**
+ * enableMockBackend
+ * pt-BR: Liga o backend mock no cliente informado. Latência em `VITE_API_MOCK_DELAY` (ms).
+ * en-US: Turns the mock backend on for the given client. Latency from `VITE_API_MOCK_DELAY` (ms).
+ */
+export function enableMockBackend(client: HttpClient): void {
+  database = new MockDatabase();
+  const router = registerHandlers(new MockRouter());
+  const delay = Number(import.meta.env.VITE_API_MOCK_DELAY ?? 250);
+  client.transport = createMockTransport(client, database, router, Number.isFinite(delay) && delay >= 0 ? delay : 250);
+  console.info('[mock] Backend mock ativo. Usuário: admin@demo.local / senha: demo123');
+}
+
+/**
+ * resetMockBackend
+ * pt-BR: Descarta as alterações feitas e volta aos dados semeados.
+ * en-US: Discards the changes made and goes back to the seeded data.
+ */
+export function resetMockBackend(): void {
+  database?.reset();
+}
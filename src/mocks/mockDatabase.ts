@@ -0,0 +1,126 @@
+import { createSeed } from './fixtures';
+
+/**
+ * Banco de dados do backend mock
+ * pt-BR: Coleções em memória, persistidas no localStorage para que criações e edições
+ *        sobrevivam ao recarregar a página. `reset()` volta aos dados semeados.
+ * en-US: In-memory collections, persisted to localStorage so creations and edits
+ *        survive a page reload. `reset()` goes back to the seeded data.
+ */
+
+export type MockRecord = Record<string, unknown> & { id: string | number };
+
+export type MockCollections = Record<string, MockRecord[]>;
+
+const STORAGE_KEY = 'crm_mock_db';
+/** Incrementar ao mudar os fixtures / Bump when fixtures change */
+const SCHEMA_VERSION = 4;
+
+export interface MockPage<T> {
+  data: T[];
+  current_page: number;
+  last_page: number;
+  per_page: number;
+  total: number;
+}
+
+export class MockDatabase {
+  private collections: MockCollections;
+
+  constructor() {
+    this.collections = this.load() ?? createSeed();
+  }
+
+  /**
+   * all
+   * pt-BR: Registros da coleção (coleções desconhecidas começam vazias).
+   * en-US: Collection records (unknown collections start empty).
+   */
+  all(name: string): MockRecord[] {
+    if (!this.collections[name]) this.collections[name] = [];
+    return this.collections[name];
+  }
+
+  /**
+   * has
+   * pt-BR: Indica se a coleção já existe, sem criá-la.
+   * en-US: Tells whether the collection exists, without creating it.
+   */
+  has(name: string): boolean {
+    return Array.isArray(this.collections[name]);
+  }
+
+  find(name: string, id: string | number): MockRecord | undefined {
+    return this.all(name).find((record) => String(record.id) === String(id));
+  }
+
+  insert(name: string, data: Record<string, unknown>): MockRecord {
+    const now = new Date().toISOString();
+    const record: MockRecord = { ...data, id: this.nextId(name), created_at: now, updated_at: now };
+    this.all(name).unshift(record);
+    this.save();
+    return record;
+  }
+
+  update(name: string, id: string | number, changes: Record<string, unknown>): MockRecord | undefined {
+    const record = this.find(name, id);
+    if (!record) return undefined;
+    Object.assign(record, changes, { id: record.id, updated_at: new Date().toISOString() });
+    this.save();
+    return record;
+  }
+
+  remove(name: string, id: string | number): boolean {
+    const list = this.all(name);
+    const index = list.findIndex((record) => String(record.id) === String(id));
+    if (index < 0) return false;
+    list.splice(index, 1);
+    this.save();
+    return true;
+  }
+
+  /**
+   * paginate
+   * pt-BR: Pagina no formato do Laravel (`data`, `current_page`, `last_page`, `per_page`, `total`).
+   * en-US: Paginates in Laravel's shape (`data`, `current_page`, `last_page`, `per_page`, `total`).
+   */
+  paginate<T>(items: T[], query: URLSearchParams): MockPage<T> {
+    const perPage = Math.max(1, Number(query.get('per_page') || query.get('limit')) || 15);
+    const lastPage = Math.max(1, Math.ceil(items.length / perPage));
+    const page = Math.min(Math.max(1, Number(query.get('page')) || 1), lastPage);
+    return {
+      data: items.slice((page - 1) * perPage, page * perPage),
+      current_page: page,
+      last_page: lastPage,
+      per_page: perPage,
+      total: items.length,
+    };
+  }
+
+  save(): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify({ version: SCHEMA_VERSION, collections: this.collections }));
+    } catch {
+      // Sem espaço no storage: segue só em memória / Storage full: keep in memory only
+    }
+  }
+
+  reset(): void {
+    this.collections = createSeed();
+    this.save();
+  }
+
+  private nextId(name: string): string {
+    const numericIds = this.all(name).map((record) => Number(record.id)).filter(Number.isFinite);
+    return String((numericIds.length ? Math.max(...numericIds) : 0) + 1);
+  }
+
+  private load(): MockCollections | null {
+    try {
+      const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+      return stored?.version === SCHEMA_VERSION ? stored.collections : null;
+    } catch {
+      return null;
+    }
+  }
+}
@@ -0,0 +1,118 @@
+import type { HttpMethod } from '@/services/requestPolicy';
+import type { MockDatabase, MockRecord } from './mockDatabase';
+
+/**
+ * Roteador do backend mock
+ * pt-BR: Tipos de requisição/resposta, atalhos de resposta e o casamento de rotas.
+ * en-US: Request/response types, response shortcuts and route matching.
+ */
+
+/** Corpo JSON ou FormData já convertido / JSON or FormData body, already parsed */
+export type MockBody = Record<string, unknown> | undefined;
+
+export interface MockRequest {
+  method: HttpMethod;
+  path: string;
+  params: Record<string, string>;
+  query: URLSearchParams;
+  body: MockBody;
+  /** Usuário do token `Authorization`, quando houver / User from the `Authorization` token, if any */
+  user: MockRecord | null;
+  /** Sessão (coleção `sessions`) do token / Token's session (`sessions` collection) */
+  sessionId: string | null;
+  db: MockDatabase;
+}
+
+export interface MockResponse {
+  status: number;
+  body?: unknown;
+}
+
+export type MockHandler = (request: MockRequest) => MockResponse;
+
+export const ok = (body: unknown): MockResponse => ({ status: 200, body });
+export const created = (body: unknown): MockResponse => ({ status: 201, body });
+export const noContent = (): MockResponse => ({ status: 204 });
+export const fail = (status: number, message: string, errors?: Record<string, string[]>, extra?: Record<string, unknown>): MockResponse => ({
+  status,
+  body: { message, ...(errors && { errors }), ...extra },
+});
+
+interface MockRoute {
+  method: HttpMethod;
+  segments: string[];
+  handler: MockHandler;
+  public: boolean;
+}
+
+/**
+ * MockRouter
+ * pt-BR: Rotas no formato `/clients/:id`. A primeira rota registrada que casar vence,
+ *        então rotas específicas devem vir antes dos recursos genéricos.
+ * en-US: Routes shaped like `/clients/:id`. The first registered match wins,
+ *        so specific routes must come before generic resources.
+ */
+export class MockRouter {
+  private routes: MockRoute[] = [];
+
+  on(method: HttpMethod, pattern: string, handler: MockHandler, options: { public?: boolean } = {}): this {
+    this.routes.push({ method, segments: splitPath(pattern), handler, public: Boolean(options.public) });
+    return this;
+  }
+
+  match(method: HttpMethod, path: string): { route: MockRoute; params: Record<string, string> } | null {
+    const segments = splitPath(path);
+    for (const route of this.routes) {
+      if (route.method !== method || route.segments.length !== segments.length) continue;
+      const params: Record<string, string> = {};
+      const matches = route.segments.every((segment, index) => {
+        if (segment.startsWith(':')) {
+          params[segment.slice(1)] = decodeURIComponent(segments[index]);
+          return true;
+        }
+        return segment === segments[index];
+      });
+      if (matches) return { route, params };
+    }
+    return null;
+  }
+}
+
+function splitPath(path: string): string[] {
+  return path.split('/').filter(Boolean);
+}
+
+export const TOKEN_PREFIX = 'mock-token-';
+
+// Intervalo mínimo entre gravações de `last_active_at` / Minimum interval between `last_active_at` writes
+const ACTIVITY_THROTTLE_MS = 60_000;
+
+/**
+ * Tokens do backend mock
+ * pt-BR: `mock-token-{usuário}.{sessão}`; tokens antigos, sem sessão, continuam aceitos.
+ * en-US: `mock-token-{user}.{session}`; older tokens without a session are still accepted.
+ */
+export function tokenFor(user: MockRecord, sessionId?: string | number): string {
+  return `${TOKEN_PREFIX}${user.id}${sessionId ? `.${sessionId}` : ''}`;
+}
+
+/**
+ * authenticate
+ * pt-BR: Resolve o usuário e a sessão do token. Sessão encerrada invalida o token, e cada
+ *        uso atualiza `last_active_at` (no máximo uma vez por minuto).
+ * en-US: Resolves the token's user and session. An ended session invalidates the token,
+ *        and each use refreshes `last_active_at` (at most once a minute).
+ */
+export function authenticate(db: MockDatabase, token: string): { user: MockRecord | null; sessionId: string | null } {
+  if (!token.startsWith(TOKEN_PREFIX)) return { user: null, sessionId: null };
+  const [userId, sessionId = null] = token.slice(TOKEN_PREFIX.length).split('.');
+  const user = db.find('users', userId) ?? null;
+  if (!user || !sessionId) return { user, sessionId: null };
+
+  const session = db.find('sessions', sessionId);
+  if (!session || String(session.user_id) !== String(user.id)) return { user: null, sessionId: null };
+  if (Date.now() - Date.parse(String(session.last_active_at)) > ACTIVITY_THROTTLE_MS) {
+    db.update('sessions', sessionId, { last_active_at: new Date().toISOString() });
+  }
+  return { user, sessionId };
+}
@@ -19,14 +19,15 @@ import {
   Tooltip,
   Legend,
 } from "recharts";
+import { useAeroclubeDashboard } from "@/hooks/useDashboard";
 
 /**
  * AeroclubeDashboard
- * pt-BR: Dashboard com dados mockados inspirados na imagem fornecida.
+ * pt-BR: Dashboard do Aeroclube com dados de `/dashboard/aeroclube`.
  * Exibe gráficos de vendas/horas por mês, proporções (pizza),
  * evolução de metas e um registro de acessos.
  *
- * en-US: Dashboard using mocked data inspired by the provided screenshot.
+ * en-US: Aeroclube dashboard with data from `/dashboard/aeroclube`.
  * Shows monthly sales/hours, pie proportions, goal trends and an access log.
  */
 export default function AeroclubeDashboard() {
@@ -35,84 +36,13 @@ export default function AeroclubeDashboard() {
    */
   const [selectedYear, setSelectedYear] = useState<"2024" | "2025">("2025");
   /**
-   * Mock: meses com valores de vendas, horas vendidas e meta do mês
+   * Indicadores vindos de `/dashboard/aeroclube`: vendas/horas por mês, histórico de horas e acessos
    */
-  const monthly2024 = useMemo(
-    () => [
-      { month: "JAN", value: 13500, hours: 85, meta: 12000 },
-      { month: "FEV", value: 9800, hours: 72, meta: 12000 },
-      { month: "MAR", value: 11200, hours: 76, meta: 12000 },
-      { month: "ABR", value: 12550, hours: 81, meta: 12000 },
-      { month: "MAI", value: 10120, hours: 70, meta: 12000 },
-      { month: "JUN", value: 9400, hours: 66, meta: 12000 },
-      { month: "JUL", value: 8900, hours: 64, meta: 12000 },
-      { month: "AGO", value: 15400, hours: 102, meta: 12000 },
-      { month: "SET", value: 11800, hours: 78, meta: 12000 },
-      { month: "OUT", value: 13200, hours: 84, meta: 12000 },
-      { month: "NOV", value: 12700, hours: 82, meta: 12000 },
-      { month: "DEZ", value: 14500, hours: 96, meta: 12000 },
-    ],
-    []
-  );
-
-  /**
-   * Mock para 2025 – valores ligeiramente diferentes para comparação
-   */
-  const monthly2025 = useMemo(
-    () => [
-      { month: "JAN", value: 14200, hours: 90, meta: 14000 },
-      { month: "FEV", value: 10500, hours: 74, meta: 14000 },
-      { month: "MAR", value: 12100, hours: 80, meta: 14000 },
-      { month: "ABR", value: 12950, hours: 83, meta: 14000 },
-      { month: "MAI", value: 11320, hours: 76, meta: 14000 },
-      { month: "JUN", value: 9900, hours: 68, meta: 14000 },
-      { month: "JUL", value: 9400, hours: 66, meta: 14000 },
-      { month: "AGO", value: 16000, hours: 104, meta: 14000 },
-      { month: "SET", value: 12050, hours: 80, meta: 14000 },
-      { month: "OUT", value: 13800, hours: 86, meta: 14000 },
-      { month: "NOV", value: 13000, hours: 84, meta: 14000 },
-      { month: "DEZ", value: 15200, hours: 98, meta: 14000 },
-    ],
-    []
-  );
-
-  /**
-   * Mock: série histórica de horas voadas por ano (valores genéricos)
-   */
-  const hoursHistory = useMemo(
-    () => [
-      { label: "JAN", y2020: 60, y2021: 72, y2022: 80, y2023: 75, y2024: 85, y2025: 90 },
-      { label: "FEV", y2020: 58, y2021: 68, y2022: 78, y2023: 70, y2024: 72, y2025: 74 },
-      { label: "MAR", y2020: 64, y2021: 70, y2022: 82, y2023: 73, y2024: 76, y2025: 80 },
-      { label: "ABR", y2020: 66, y2021: 71, y2022: 84, y2023: 76, y2024: 81, y2025: 83 },
-      { label: "MAI", y2020: 63, y2021: 69, y2022: 79, y2023: 71, y2024: 70, y2025: 76 },
-      { label: "JUN", y2020: 57, y2021: 66, y2022: 75, y2023: 68, y2024: 66, y2025: 68 },
-      { label: "JUL", y2020: 55, y2021: 64, y2022: 74, y2023: 66, y2024: 64, y2025: 66 },
-      { label: "AGO", y2020: 70, y2021: 85, y2022: 95, y2023: 90, y2024: 102, y2025: 104 },
-      { label: "SET", y2020: 60, y2021: 72, y2022: 80, y2023: 75, y2024: 78, y2025: 80 },
-      { label: "OUT", y2020: 62, y2021: 74, y2022: 82, y2023: 78, y2024: 84, y2025: 86 },
-      { label: "NOV", y2020: 61, y2021: 73, y2022: 81, y2023: 77, y2024: 82, y2025: 84 },
-      { label: "DEZ", y2020: 68, y2021: 80, y2022: 90, y2023: 85, y2024: 96, y2025: 98 },
-    ],
-    []
-  );
-
-  /**
-   * Mock: registro de acessos similar à tabela da imagem
-   */
-  const accessLog = useMemo(
-    () => [
-      { id: 23031, date: "13/11/2025", time: "13:11:16", name: "Usuário demo", ip: "172.78.18.66" },
-      { id: 23030, date: "13/11/2025", time: "12:41:08", name: "Gabriela Fernandes", ip: "172.70.29.93" },
-      { id: 23029, date: "13/11/2025", time: "11:55:42", name: "Monique Ribeiro", ip: "172.70.142.70" },
-      { id: 23028, date: "13/11/2025", time: "11:41:05", name: "Usuario demo", ip: "172.70.114.45" },
-      { id: 23027, date: "12/11/2025", time: "14:13:54", name: "Maria Luíza da Silva Sanches", ip: "172.70.114.45" },
-      { id: 23026, date: "12/11/2025", time: "13:41:18", name: "Jessia Fakhri", ip: "172.70.140.130" },
-      { id: 23025, date: "12/11/2025", time: "12:31:52", name: "Leandro Lopardi", ip: "172.70.143.80" },
-      { id: 23024, date: "12/11/2025", time: "11:41:22", name: "Leandro Lopardi", ip: "172.70.143.80" },
-    ],
-    []
-  );
+  const { data: overview } = useAeroclubeDashboard();
+  const monthly2024 = useMemo(() => overview?.monthly?.["2024"] ?? [], [overview]);
+  const monthly2025 = useMemo(() => overview?.monthly?.["2025"] ?? [], [overview]);
+  const hoursHistory = overview?.hoursHistory ?? [];
+  const accessLog = overview?.accessLog ?? [];
 
   /**
    * Helpers para somatórios usados nas pizzas
@@ -151,12 +81,11 @@ export default function AeroclubeDashboard() {
             />
             <div>
               <h1 className="text-2xl md:text-3xl font-bold">Painel do Aeroclube</h1>
-              <p className="text-sm md:text-base/relaxed opacity-90">Visão moderna com dados mockados — integração futura com sua API</p>
+              <p className="text-sm md:text-base/relaxed opacity-90">Vendas, horas voadas e acessos do aeroclube</p>
             </div>
           </div>
           <div className="mt-4 flex items-center gap-2">
             <Badge className="bg-white/20 text-white hover:bg-white/30">Preview</Badge>
-            <Badge className="bg-black/20 text-white hover:bg-black/30">Mock Data</Badge>
           </div>
         </div>
       </Card>
@@ -5,6 +5,7 @@ import { z } from 'zod';
 import { toast } from 'sonner';
 import { useNavigate, useLocation } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
+import { Can } from '@/components/auth/Can';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Filter, Plus, X } from 'lucide-react';
@@ -356,10 +357,12 @@ export default function Aircraft() {
                   </div>
                 </SheetContent>
               </Sheet>
-              <Button onClick={handleCreate}>
-                <Plus className="mr-2 h-4 w-4" />
-                Nova Aeronave
-              </Button>
+              <Can action="create" menuPath="/admin/aircrafts">
+                <Button onClick={handleCreate}>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Nova Aeronave
+                </Button>
+              </Can>
             </div>
           </div>
         </CardHeader>
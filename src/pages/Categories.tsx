@@ -56,6 +56,7 @@ import {
 import { Input } from "../components/ui/input";
 import { Textarea } from "../components/ui/textarea";
 import { Button } from "../components/ui/button";
+import { Can } from "../components/auth/Can";
 import { Badge } from "../components/ui/badge";
 import { Switch } from "../components/ui/switch";
 import { useToast } from "../hooks/use-toast";
@@ -269,10 +270,12 @@ export default function Categories() {
             Gerencie as categorias dos seus produtos
           </p>
         </div>
-        <Button onClick={handleNewCategory}>
-          <Plus className="mr-2 h-4 w-4" />
-          Nova Categoria
-        </Button>
+        <Can action="create" menuPath="/admin/categories">
+          <Button onClick={handleNewCategory}>
+            <Plus className="mr-2 h-4 w-4" />
+            Nova Categoria
+          </Button>
+        </Can>
       </div>
 
       {/* Estatísticas */}
@@ -422,18 +425,22 @@ export default function Categories() {
                             <Eye className="mr-2 h-4 w-4" />
                             Visualizar
                           </DropdownMenuItem>
-                          <DropdownMenuItem onClick={() => handleEditCategory(category)}>
-                            <Edit className="mr-2 h-4 w-4" />
-                            Editar
-                          </DropdownMenuItem>
+                          <Can action="edit" menuPath="/admin/categories">
+                            <DropdownMenuItem onClick={() => handleEditCategory(category)}>
+                              <Edit className="mr-2 h-4 w-4" />
+                              Editar
+                            </DropdownMenuItem>
+                          </Can>
                           <DropdownMenuSeparator />
-                          <DropdownMenuItem 
-                            className="text-destructive"
-                            onClick={() => handleDeleteCategory(category)}
-                          >
-                            <Trash2 className="mr-2 h-4 w-4" />
-                            Excluir
-                          </DropdownMenuItem>
+                          <Can action="delete" menuPath="/admin/categories">
+                            <DropdownMenuItem 
+                              className="text-destructive"
+                              onClick={() => handleDeleteCategory(category)}
+                            >
+                              <Trash2 className="mr-2 h-4 w-4" />
+                              Excluir
+                            </DropdownMenuItem>
+                          </Can>
                         </DropdownMenuContent>
                       </DropdownMenu>
                     </TableCell>
@@ -8,58 +8,13 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { useToast } from "@/hooks/use-toast";
 import * as z from "zod";
 import { Form } from "@/components/ui/form";
-import { useCreateClient } from '@/hooks/clients';
-import { CreateClientInput } from '@/types/clients';
+import { useClientDuplicateCheck, useCreateClient } from '@/hooks/clients';
+import { ClientDuplicateCandidate, CreateClientInput } from '@/types/clients';
 import { ClientForm } from '@/components/clients/ClientForm';
+import { ClientDuplicatesDialog } from '@/components/clients/ClientDuplicatesDialog';
 import { useAuth } from '@/contexts/AuthContext';
 import { FormActionBar } from '@/components/common/FormActionBar';
-
-// Utility functions for validation
-const isValidCPF = (cpf: string): boolean => {
-  const cleanCPF = cpf.replace(/\D/g, '');
-  if (cleanCPF.length !== 11 || /^(\d)\1{10}$/.test(cleanCPF)) return false;
-  
-  let sum = 0;
-  for (let i = 0; i < 9; i++) {
-    sum += parseInt(cleanCPF.charAt(i)) * (10 - i);
-  }
-  let remainder = (sum * 10) % 11;
-  if (remainder === 10 || remainder === 11) remainder = 0;
-  if (remainder !== parseInt(cleanCPF.charAt(9))) return false;
-  
-  sum = 0;
-  for (let i = 0; i < 10; i++) {
-    sum += parseInt(cleanCPF.charAt(i)) * (11 - i);
-  }
-  remainder = (sum * 10) % 11;
-  if (remainder === 10 || remainder === 11) remainder = 0;
-  return remainder === parseInt(cleanCPF.charAt(10));
-};
-
-const isValidCNPJ = (cnpj: string): boolean => {
-  const cleanCNPJ = cnpj.replace(/\D/g, '');
-  if (cleanCNPJ.length !== 14 || /^(\d)\1{13}$/.test(cleanCNPJ)) return false;
-  
-  let sum = 0;
-  let weight = 2;
-  for (let i = 11; i >= 0; i--) {
-    sum += parseInt(cleanCNPJ.charAt(i)) * weight;
-    weight = weight === 9 ? 2 : weight + 1;
-  }
-  let remainder = sum % 11;
-  const digit1 = remainder < 2 ? 0 : 11 - remainder;
-  if (digit1 !== parseInt(cleanCNPJ.charAt(12))) return false;
-  
-  sum = 0;
-  weight = 2;
-  for (let i = 12; i >= 0; i--) {
-    sum += parseInt(cleanCNPJ.charAt(i)) * weight;
-    weight = weight === 9 ? 2 : weight + 1;
-  }
-  remainder = sum % 11;
-  const digit2 = remainder < 2 ? 0 : 11 - remainder;
-  return digit2 === parseInt(cleanCNPJ.charAt(13));
-};
+import { isValidCNPJ, isValidCPF } from '@/lib/documents';
 
 /**
  * isValidPhone
@@ -168,6 +123,12 @@ const clientSchema = z.object({
 
 type ClientFormData = z.infer<typeof clientSchema>;
 
+interface SubmitOptions {
+  redirectAfterSave?: boolean;
+  /** Já confirmado no aviso de duplicados / Already confirmed in the duplicates warning */
+  skipDuplicateCheck?: boolean;
+}
+
 /**
  * Página para criação de novos clientes
  * Permite cadastrar um novo cliente com todas as informações necessárias
@@ -182,6 +143,9 @@ export default function ClientCreate() {
   const { toast } = useToast();
   const { user } = useAuth();
   const createClientMutation = useCreateClient();
+  const duplicateCheck = useClientDuplicateCheck();
+  const [duplicates, setDuplicates] = useState<ClientDuplicateCandidate[]>([]);
+  const [pendingSubmit, setPendingSubmit] = useState<{ data: ClientFormData; options?: SubmitOptions } | null>(null);
 
   // Form setup with zod validation
   const form = useForm<ClientFormData>({
@@ -251,12 +215,34 @@ export default function ClientCreate() {
    */
   /**
    * onSubmit
-   * pt-BR: Submete os dados do formulário e, opcionalmente, redireciona após salvar.
-   * en-US: Submits form data and optionally redirects after save.
+   * pt-BR: Submete os dados do formulário e, opcionalmente, redireciona após salvar. Antes,
+   *        procura clientes parecidos e, se houver, pede confirmação.
+   * en-US: Submits form data and optionally redirects after save. First, it looks up similar
+   *        clients and, if any, asks for confirmation.
    * @param data - Dados do formulário validados.
    * @param options - Opções para controlar pós-salvamento.
    */
-  const onSubmit = (data: ClientFormData, options?: { redirectAfterSave?: boolean }) => {
+  const onSubmit = async (data: ClientFormData, options?: SubmitOptions) => {
+    if (!options?.skipDuplicateCheck) {
+      try {
+        const found = await duplicateCheck.mutateAsync({
+          name: data.name,
+          email: data.email,
+          cpf: data.tipo_pessoa === 'pf' ? data.cpf : undefined,
+          cnpj: data.tipo_pessoa === 'pj' ? data.cnpj : undefined,
+          phones: [data.config.celular, data.config.telefone_residencial].filter((phone): phone is string => !!phone),
+        });
+        if (found.length > 0) {
+          setPendingSubmit({ data, options });
+          setDuplicates(found);
+          return;
+        }
+      } catch (error) {
+        // A checagem não impede o cadastro / The check does not block the creation
+        console.warn('Failed to check client duplicates:', error);
+      }
+    }
+
     const clientData = {
       tipo_pessoa: data.tipo_pessoa,
       email: data.email,
@@ -380,6 +366,17 @@ export default function ClientCreate() {
     );
   };
 
+  /**
+   * handleCreateAnyway
+   * pt-BR: Cria o cliente mesmo com cadastros parecidos.
+   * en-US: Creates the client even with similar records.
+   */
+  const handleCreateAnyway = () => {
+    setDuplicates([]);
+    if (pendingSubmit) onSubmit(pendingSubmit.data, { ...pendingSubmit.options, skipDuplicateCheck: true });
+    setPendingSubmit(null);
+  };
+
   /**
    * Manipula o cancelamento da criação
    * Navega de volta para a lista de clientes
@@ -457,6 +454,17 @@ export default function ClientCreate() {
         onSaveContinue={handleSaveAndStay}
         onSaveExit={handleSaveAndExit}
       />
+
+      <ClientDuplicatesDialog
+        candidates={duplicates}
+        onOpenChange={(open) => {
+          if (!open) {
+            setDuplicates([]);
+            setPendingSubmit(null);
+          }
+        }}
+        onCreateAnyway={handleCreateAnyway}
+      />
     </div>
   );
 }
\ No newline at end of file
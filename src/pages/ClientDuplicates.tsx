@@ -0,0 +1,139 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, CheckCircle2, Loader2, Users } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { ClientMergePanel } from '@/components/clients/ClientMergePanel';
+import { useClientDuplicateGroups } from '@/hooks/clients';
+import { DUPLICATE_REASON_LABELS } from '@/lib/clientDuplicates';
+import { cn } from '@/lib/utils';
+import type { ClientMergeRelation, ClientMergeResult } from '@/types/clients';
+
+const RELATION_LABELS: Record<ClientMergeRelation, string> = {
+  enrollments: 'matrícula(s)',
+  proposals: 'proposta(s)',
+  aircraft: 'aeronave(s)',
+  service_orders: 'OS',
+  points_extracts: 'lançamento(s) de pontos',
+  attendances: 'atendimento(s)',
+};
+
+/**
+ * ClientDuplicates
+ * pt-BR: Fila de cadastros de clientes que parecem ser a mesma pessoa (mesmo CPF/CNPJ, e-mail,
+ *        telefone ou nome muito parecido) e mesclagem de cada grupo.
+ * en-US: Queue of client records that look like the same person (same CPF/CNPJ, email, phone
+ *        or a very similar name) and merging of each group.
+ */
+export default function ClientDuplicates() {
+  const navigate = useNavigate();
+  const { data: groups = [], isLoading } = useClientDuplicateGroups();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [lastResult, setLastResult] = useState<ClientMergeResult | null>(null);
+
+  const selected = groups.find((group) => group.id === selectedId) ?? null;
+
+  // Seleciona o primeiro grupo ao abrir e depois de cada mesclagem
+  useEffect(() => {
+    if (!selected && groups.length > 0) setSelectedId(groups[0].id);
+  }, [groups, selected]);
+
+  const movedSummary = (result: ClientMergeResult) => {
+    const parts = (Object.keys(RELATION_LABELS) as ClientMergeRelation[])
+      .filter((relation) => result.moved[relation] > 0)
+      .map((relation) => `${result.moved[relation]} ${RELATION_LABELS[relation]}`);
+    return parts.length ? `Movidos: ${parts.join(', ')}.` : 'Nenhum vínculo precisou ser movido.';
+  };
+
+  return (
+    <div className="container mx-auto py-6 space-y-6">
+      <div className="flex items-center gap-4">
+        <Button variant="outline" size="sm" onClick={() => navigate('/admin/clients')} className="flex items-center gap-2">
+          <ArrowLeft className="h-4 w-4" />
+          Voltar
+        </Button>
+        <div>
+          <h1 className="text-3xl font-bold">Clientes duplicados</h1>
+          <p className="text-muted-foreground">
+            Cadastros que parecem ser da mesma pessoa. Escolha o que fica e mescle os demais.
+          </p>
+        </div>
+      </div>
+
+      {lastResult && (
+        <Alert>
+          <CheckCircle2 className="h-4 w-4" />
+          <AlertTitle>Cadastros mesclados em {lastResult.client.name}</AlertTitle>
+          <AlertDescription>{movedSummary(lastResult)}</AlertDescription>
+        </Alert>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : groups.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center text-muted-foreground">
+            <Users className="mx-auto mb-2 h-8 w-8" />
+            Nenhum cadastro duplicado encontrado.
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid gap-6 lg:grid-cols-3">
+          <div className="space-y-2">
+            <p className="text-sm text-muted-foreground">{groups.length} grupo(s) para revisar</p>
+            {groups.map((group) => (
+              <button
+                key={group.id}
+                type="button"
+                onClick={() => setSelectedId(group.id)}
+                className={cn(
+                  'w-full rounded-md border p-3 text-left space-y-2 transition-colors',
+                  group.id === selected?.id ? 'border-primary bg-primary/5' : 'hover:bg-muted'
+                )}
+              >
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0 text-sm">
+                    {group.clients.map((client) => (
+                      <p key={client.id} className="truncate">{client.name}</p>
+                    ))}
+                  </div>
+                  <Badge variant={group.score >= 90 ? 'destructive' : 'secondary'}>{group.score}%</Badge>
+                </div>
+                <div className="flex flex-wrap gap-1">
+                  {group.reasons.map((reason) => (
+                    <Badge key={reason} variant="outline" className="text-xs">{DUPLICATE_REASON_LABELS[reason]}</Badge>
+                  ))}
+                </div>
+              </button>
+            ))}
+          </div>
+
+          {selected && (
+            <Card className="lg:col-span-2">
+              <CardHeader>
+                <CardTitle>Mesclar {selected.clients.length} cadastros</CardTitle>
+                <CardDescription>
+                  Clique no cabeçalho para escolher o cadastro mantido e em cada valor para decidir qual fica.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ClientMergePanel
+                  key={selected.id}
+                  clients={selected.clients}
+                  onMerged={(result) => {
+                    setLastResult(result);
+                    setSelectedId(null);
+                  }}
+                />
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
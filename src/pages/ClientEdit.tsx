@@ -16,65 +16,7 @@ import { ClientRecord, UpdateClientInput } from '@/types/clients';
 import { ClientForm } from "@/components/clients/ClientForm";
 import { useAuth } from '@/contexts/AuthContext';
 import { FormActionBar } from '@/components/common/FormActionBar';
-
-/**
- * Validação de CPF
- * @param cpf CPF a ser validado
- * @returns true se o CPF for válido
- */
-const isValidCPF = (cpf: string): boolean => {
-  if (!cpf) return true; // CPF é opcional em alguns casos
-  const cleanCpf = cpf.replace(/\D/g, '');
-  if (cleanCpf.length !== 11) return false;
-  if (/^(\d)\1{10}$/.test(cleanCpf)) return false;
-  
-  let sum = 0;
-  for (let i = 0; i < 9; i++) {
-    sum += parseInt(cleanCpf.charAt(i)) * (10 - i);
-  }
-  let remainder = (sum * 10) % 11;
-  if (remainder === 10 || remainder === 11) remainder = 0;
-  if (remainder !== parseInt(cleanCpf.charAt(9))) return false;
-  
-  sum = 0;
-  for (let i = 0; i < 10; i++) {
-    sum += parseInt(cleanCpf.charAt(i)) * (11 - i);
-  }
-  remainder = (sum * 10) % 11;
-  if (remainder === 10 || remainder === 11) remainder = 0;
-  return remainder === parseInt(cleanCpf.charAt(10));
-};
-
-/**
- * Validação de CNPJ
- * @param cnpj CNPJ a ser validado
- * @returns true se o CNPJ for válido
- */
-const isValidCNPJ = (cnpj: string): boolean => {
-  if (!cnpj) return true; // CNPJ é opcional em alguns casos
-  const cleanCnpj = cnpj.replace(/\D/g, '');
-  if (cleanCnpj.length !== 14) return false;
-  if (/^(\d)\1{13}$/.test(cleanCnpj)) return false;
-  
-  const weights1 = [5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2];
-  const weights2 = [6, 5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2];
-  
-  let sum = 0;
-  for (let i = 0; i < 12; i++) {
-    sum += parseInt(cleanCnpj.charAt(i)) * weights1[i];
-  }
-  let remainder = sum % 11;
-  const digit1 = remainder < 2 ? 0 : 11 - remainder;
-  if (digit1 !== parseInt(cleanCnpj.charAt(12))) return false;
-  
-  sum = 0;
-  for (let i = 0; i < 13; i++) {
-    sum += parseInt(cleanCnpj.charAt(i)) * weights2[i];
-  }
-  remainder = sum % 11;
-  const digit2 = remainder < 2 ? 0 : 11 - remainder;
-  return digit2 === parseInt(cleanCnpj.charAt(13));
-};
+import { isValidCNPJ, isValidCPF } from '@/lib/documents';
 
 /**
  * Validação de telefone
@@ -134,7 +76,7 @@ const clientSchema = z.object({
     return isValidCPF(val);
   }, "CPF inválido"),
   cnpj: z.string().optional().refine((val) => {
-    return isValidCNPJ(val || "");
+    return !val || isValidCNPJ(val);
   }, "CNPJ inválido"),
   razao: z.string().optional(),
   genero: z.enum(["m", "f", "ni"], {
@@ -5,12 +5,13 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { useClientById } from '@/hooks/clients';
-import { getMockClientById } from '@/mocks/clients';
 import { ClientRecord } from '@/types/clients';
 import { useFunnel, useStagesList } from '@/hooks/funnels';
 import { phoneApplyMask } from '@/lib/masks/phone-apply-mask';
 import { useEnrollmentsList, useDeleteEnrollment } from '@/hooks/enrollments';
 import { Table, TableHeader, TableRow, TableHead, TableBody, TableCell } from '@/components/ui/table';
+import { Can } from '@/components/auth/Can';
+import { RecordHistory } from '@/components/audit/RecordHistory';
 
 
 
@@ -24,9 +25,6 @@ export default function ClientView() {
   const navigate = useNavigate();
   const [searchParams] = useSearchParams();
   const location = useLocation();
-  // pt-BR: Flag para ativar uso de dados mockados
-  // en-US: Flag to enable mocked data usage
-  const useMock = import.meta.env.VITE_USE_MOCK_CLIENTS === 'true';
   // Hooks para buscar e atualizar cliente
   const { data: clientResponse, isLoading: isLoadingClient, error, isError, isSuccess } = useClientById(id!);
   /**
@@ -34,19 +32,17 @@ export default function ClientView() {
    * pt-BR: A API pode retornar o cliente direto ou dentro de `data`.
    * en-US: API may return the client directly or wrapped under `data`.
    */
-  const client: ClientRecord | null = useMock
-    ? getMockClientById(id!)
-    : (() => {
-        const raw: any = clientResponse as any;
-        if (!raw) return null;
-        if (raw && typeof raw === 'object' && 'data' in raw && raw.data && !Array.isArray(raw.data)) {
-          return raw.data as ClientRecord;
-        }
-        if (raw && typeof raw === 'object' && !Array.isArray(raw)) {
-          return raw as ClientRecord;
-        }
-        return null;
-      })();
+  const client: ClientRecord | null = (() => {
+    const raw: any = clientResponse as any;
+    if (!raw) return null;
+    if (raw && typeof raw === 'object' && 'data' in raw && raw.data && !Array.isArray(raw.data)) {
+      return raw.data as ClientRecord;
+    }
+    if (raw && typeof raw === 'object' && !Array.isArray(raw)) {
+      return raw as ClientRecord;
+    }
+    return null;
+  })();
   const link_admin:string = 'admin';
   // Log para debug em desenvolvimento
   if (process.env.NODE_ENV === 'development') {
@@ -55,26 +51,24 @@ export default function ClientView() {
 
   /**
    * Busca dados do Funil e Etapa para exibição no card "Atendimento".
-   * - Evita chamadas quando em modo mock.
    * - Faz lookup da etapa pelo `stage_id` no resultado paginado.
    */
   const funnelId = client?.config?.funnelId || '';
   const stageId = client?.config?.stage_id || '';
   const funnelQuery = useFunnel(funnelId, {
-    enabled: !!funnelId && !useMock,
+    enabled: !!funnelId,
     staleTime: 5 * 60 * 1000,
     refetchOnWindowFocus: false,
     refetchOnReconnect: false,
   });
   const stagesQuery = useStagesList(funnelId, { per_page: 100 }, {
-    enabled: !!funnelId && !useMock,
+    enabled: !!funnelId,
     staleTime: 5 * 60 * 1000,
     refetchOnWindowFocus: false,
     refetchOnReconnect: false,
   });
-  const funnelName = (useMock ? 'Funil de Leads (mock)' : (funnelQuery.data?.name || funnelId || 'Não informado'));
+  const funnelName = funnelQuery.data?.name || funnelId || 'Não informado';
   const stageName = (() => {
-    if (useMock) return stageId ? `Etapa ${stageId}` : 'Não informado';
     const list = stagesQuery.data?.data || [];
     const found = list.find((s) => s.id === stageId);
     return found?.name || (stageId || 'Não informado');
@@ -360,7 +354,7 @@ export default function ClientView() {
       id_cliente: clientIdForEnrollment || undefined,
       situacao: 'mat',
     },
-    { enabled: !!clientIdForEnrollment && !useMock, staleTime: 5 * 60 * 1000, refetchOnWindowFocus: false, refetchOnReconnect: false }
+    { enabled: !!clientIdForEnrollment, staleTime: 5 * 60 * 1000, refetchOnWindowFocus: false, refetchOnReconnect: false }
   );
   const { data: enrollmentsPropResp, isLoading: isLoadingProp } = useEnrollmentsList(
     {
@@ -373,7 +367,7 @@ export default function ClientView() {
       // en-US: For proposals, backend expects 'int' (interested) code.
       situacao: 'int',
     },
-    { enabled: !!clientIdForEnrollment && !useMock, staleTime: 5 * 60 * 1000, refetchOnWindowFocus: false, refetchOnReconnect: false }
+    { enabled: !!clientIdForEnrollment, staleTime: 5 * 60 * 1000, refetchOnWindowFocus: false, refetchOnReconnect: false }
   );
 
   /**
@@ -416,7 +410,7 @@ export default function ClientView() {
     navigate(`/${link_admin}/sales/proposals/view/${encodeURIComponent(String(id))}${q}`, { state: { from: location } });
   };
 
-  if (!useMock && isLoadingClient) {
+  if (isLoadingClient) {
     return (
       <div className="flex justify-center items-center min-h-[400px]">
         <div className="text-center">
@@ -429,9 +423,6 @@ export default function ClientView() {
 
   // Função para determinar o tipo de erro e mensagem apropriada
   const getErrorInfo = () => {
-    // pt-BR: Ao usar mocks, não exibir telas de erro originadas da API
-    // en-US: When using mocks, suppress API-originated error screens
-    if (useMock) return null;
     if (!error && !client && !isLoadingClient) {
       return {
         title: 'Cliente não encontrado',
@@ -619,10 +610,12 @@ export default function ClientView() {
           </div>
         </div>
         <div className="flex items-center space-x-3">
-          <Button onClick={handleEdit} variant="default" size="sm">
-            <Edit className="mr-2 h-4 w-4" />
-            Editar
-          </Button>
+          <Can action="edit" menuPath="/admin/clients">
+            <Button onClick={handleEdit} variant="default" size="sm">
+              <Edit className="mr-2 h-4 w-4" />
+              Editar
+            </Button>
+          </Can>
           <Badge variant={
             client.status === 'actived' ? 'default' : 
             client.status === 'inactived' ? 'destructive' : 
@@ -994,57 +987,59 @@ export default function ClientView() {
             <FileText className="mr-2 h-5 w-5" />
             Matrículas e Propostas
           </CardTitle>
-          <Button size="sm" onClick={goToProposalCreate}>Nova proposta</Button>
+          <Can action="create" menuPath="/admin/sales/proposals">
+            <Button size="sm" onClick={goToProposalCreate}>Nova proposta</Button>
+          </Can>
         </CardHeader>
         <CardContent className="space-y-6">
           {/* Matrículas */}
           <div>
             <div className="text-sm font-medium text-muted-foreground mb-2">Matrículas</div>
-            {useMock ? (
-              <p className="text-sm text-muted-foreground">Modo demonstração: dados de matrículas indisponíveis.</p>
-            ) : (
-              <div className="overflow-x-auto">
-                <Table>
-                  <TableHeader>
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Id</TableHead>
+                    <TableHead>Data Cad</TableHead>
+                    <TableHead>Curso</TableHead>
+                    <TableHead>Turma</TableHead>
+                    <TableHead>Consultor</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Ação</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {isLoadingMat && (
                     <TableRow>
-                      <TableHead>Id</TableHead>
-                      <TableHead>Data Cad</TableHead>
-                      <TableHead>Curso</TableHead>
-                      <TableHead>Turma</TableHead>
-                      <TableHead>Consultor</TableHead>
-                      <TableHead>Status</TableHead>
-                      <TableHead className="text-right">Ação</TableHead>
+                      <TableCell colSpan={7} className="text-muted-foreground">Carregando matrículas...</TableCell>
                     </TableRow>
-                  </TableHeader>
-                  <TableBody>
-                    {isLoadingMat && (
-                      <TableRow>
-                        <TableCell colSpan={7} className="text-muted-foreground">Carregando matrículas...</TableCell>
-                      </TableRow>
-                    )}
-
-                    {!isLoadingMat && ((enrollmentsMatResp?.data || enrollmentsMatResp?.items || []).length === 0) && (
-                      <TableRow>
-                        <TableCell colSpan={7} className="text-muted-foreground">Nenhuma matrícula encontrada para este cliente.</TableCell>
-                      </TableRow>
-                    )}
-
-                    {((enrollmentsMatResp?.data || enrollmentsMatResp?.items || []) as any[]).map((e) => (
-                      <TableRow key={resolveEnrollmentId(e)}>
-                        <TableCell className="font-mono text-xs">{resolveEnrollmentId(e)}</TableCell>
-                        <TableCell>{resolveCreatedAt(e)}</TableCell>
-                        <TableCell>{resolveCourseName(e)}</TableCell>
-                        <TableCell>{resolveClassName(e)}</TableCell>
-                        <TableCell>{resolveConsultantName(e)}</TableCell>
-                        <TableCell>{resolveStatusLabel(e)}</TableCell>
-                        <TableCell className="text-right">
-                          <div className="flex justify-end gap-2">
-                            <Button size="icon" variant="ghost" title="Ver" onClick={() => goToProposalView(e.id)}>
-                              <Eye className="h-4 w-4" />
-                            </Button>
+                  )}
+
+                  {!isLoadingMat && ((enrollmentsMatResp?.data ?? []).length === 0) && (
+                    <TableRow>
+                      <TableCell colSpan={7} className="text-muted-foreground">Nenhuma matrícula encontrada para este cliente.</TableCell>
+                    </TableRow>
+                  )}
+
+                  {((enrollmentsMatResp?.data ?? []) as any[]).map((e) => (
+                    <TableRow key={resolveEnrollmentId(e)}>
+                      <TableCell className="font-mono text-xs">{resolveEnrollmentId(e)}</TableCell>
+                      <TableCell>{resolveCreatedAt(e)}</TableCell>
+                      <TableCell>{resolveCourseName(e)}</TableCell>
+                      <TableCell>{resolveClassName(e)}</TableCell>
+                      <TableCell>{resolveConsultantName(e)}</TableCell>
+                      <TableCell>{resolveStatusLabel(e)}</TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-2">
+                          <Button size="icon" variant="ghost" title="Ver" onClick={() => goToProposalView(e.id)}>
+                            <Eye className="h-4 w-4" />
+                          </Button>
+                          <Can action="edit" menuPath="/admin/sales/proposals">
                             <Button size="icon" variant="outline" title="Editar" onClick={() => navigate(`/${link_admin}/sales/proposals/edit/${encodeURIComponent(String(e.id))}`, { state: { from: location } })}>
                               <Edit className="h-4 w-4" />
                             </Button>
+                          </Can>
+                          <Can action="delete" menuPath="/admin/school/enroll">
                             <Button
                               size="icon"
                               variant="destructive"
@@ -1058,64 +1053,64 @@ export default function ClientView() {
                             >
                               <Trash2 className="h-4 w-4" />
                             </Button>
-                          </div>
-                        </TableCell>
-                      </TableRow>
-                    ))}
-                  </TableBody>
-                </Table>
-              </div>
-            )}
+                          </Can>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
           </div>
 
           {/* Propostas */}
           <div>
             <div className="text-sm font-medium text-muted-foreground mb-2">Propostas</div>
-            {useMock ? (
-              <p className="text-sm text-muted-foreground">Modo demonstração: histórico de propostas indisponível.</p>
-            ) : (
-              <div className="overflow-x-auto">
-                <Table>
-                  <TableHeader>
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Id</TableHead>
+                    <TableHead>Data Cad</TableHead>
+                    <TableHead>Curso</TableHead>
+                    <TableHead>Turma</TableHead>
+                    <TableHead>Consultor</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Ação</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {isLoadingProp && (
                     <TableRow>
-                      <TableHead>Id</TableHead>
-                      <TableHead>Data Cad</TableHead>
-                      <TableHead>Curso</TableHead>
-                      <TableHead>Turma</TableHead>
-                      <TableHead>Consultor</TableHead>
-                      <TableHead>Status</TableHead>
-                      <TableHead className="text-right">Ação</TableHead>
+                      <TableCell colSpan={7} className="text-muted-foreground">Carregando propostas...</TableCell>
                     </TableRow>
-                  </TableHeader>
-                  <TableBody>
-                    {isLoadingProp && (
-                      <TableRow>
-                        <TableCell colSpan={7} className="text-muted-foreground">Carregando propostas...</TableCell>
-                      </TableRow>
-                    )}
-
-                    {!isLoadingProp && ((enrollmentsPropResp?.data || enrollmentsPropResp?.items || []).length === 0) && (
-                      <TableRow>
-                        <TableCell colSpan={7} className="text-muted-foreground">Nenhuma proposta encontrada para este cliente.</TableCell>
-                      </TableRow>
-                    )}
-
-                    {((enrollmentsPropResp?.data || enrollmentsPropResp?.items || []) as any[]).map((e) => (
-                      <TableRow key={resolveEnrollmentId(e)}>
-                        <TableCell className="font-mono text-xs">{resolveEnrollmentId(e)}</TableCell>
-                        <TableCell>{resolveCreatedAt(e)}</TableCell>
-                        <TableCell>{resolveCourseName(e)}</TableCell>
-                        <TableCell>{resolveClassName(e)}</TableCell>
-                        <TableCell>{resolveConsultantName(e)}</TableCell>
-                        <TableCell>{resolveStatusLabel(e)}</TableCell>
-                        <TableCell className="text-right">
-                          <div className="flex justify-end gap-2">
-                            <Button size="icon" variant="ghost" title="Ver" onClick={() => goToProposalView(e.id)}>
-                              <Eye className="h-4 w-4" />
-                            </Button>
+                  )}
+
+                  {!isLoadingProp && ((enrollmentsPropResp?.data ?? []).length === 0) && (
+                    <TableRow>
+                      <TableCell colSpan={7} className="text-muted-foreground">Nenhuma proposta encontrada para este cliente.</TableCell>
+                    </TableRow>
+                  )}
+
+                  {((enrollmentsPropResp?.data ?? []) as any[]).map((e) => (
+                    <TableRow key={resolveEnrollmentId(e)}>
+                      <TableCell className="font-mono text-xs">{resolveEnrollmentId(e)}</TableCell>
+                      <TableCell>{resolveCreatedAt(e)}</TableCell>
+                      <TableCell>{resolveCourseName(e)}</TableCell>
+                      <TableCell>{resolveClassName(e)}</TableCell>
+                      <TableCell>{resolveConsultantName(e)}</TableCell>
+                      <TableCell>{resolveStatusLabel(e)}</TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-2">
+                          <Button size="icon" variant="ghost" title="Ver" onClick={() => goToProposalView(e.id)}>
+                            <Eye className="h-4 w-4" />
+                          </Button>
+                          <Can action="edit" menuPath="/admin/sales/proposals">
                             <Button size="icon" variant="outline" title="Editar" onClick={() => navigate(`/${link_admin}/sales/proposals/edit/${encodeURIComponent(String(e.id))}`, { state: { from: location } })}>
                               <Edit className="h-4 w-4" />
                             </Button>
+                          </Can>
+                          <Can action="delete" menuPath="/admin/sales/proposals">
                             <Button
                               size="icon"
                               variant="destructive"
@@ -1129,14 +1124,14 @@ export default function ClientView() {
                             >
                               <Trash2 className="h-4 w-4" />
                             </Button>
-                          </div>
-                        </TableCell>
-                      </TableRow>
-                    ))}
-                  </TableBody>
-                </Table>
-              </div>
-            )}
+                          </Can>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
           </div>
         </CardContent>
       </Card>
@@ -1170,6 +1165,8 @@ export default function ClientView() {
           </div>
         </CardContent>
       </Card>
+
+      <RecordHistory subjectType="clients" subjectId={client.id} />
     </div>
   );
 }
\ No newline at end of file
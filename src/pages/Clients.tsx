@@ -41,74 +41,53 @@ import { useNavigate } from "react-router-dom";
 import { useToast } from "@/hooks/use-toast";
 import * as z from "zod";
 import { 
+  Download,
+  Filter,
   Plus, 
-  Search
+  Search,
+  Upload,
+  Users,
+  X
 } from "lucide-react";
 import { getBrazilianStates } from '@/lib/qlib';
 import { 
   useClientsList, 
   useCreateClient, 
   useUpdateClient,
-  useDeleteClient
+  useDeleteClient,
+  useClientSegmentOptions,
+  useSelectAllClients
 } from '@/hooks/clients';
-import { generateMockClients } from '@/mocks/clients';
 import { useQueryClient } from '@tanstack/react-query';
 import { ClientRecord, CreateClientInput } from '@/types/clients';
 import { ClientForm } from '@/components/clients/ClientForm';
+import { ClientImportDialog } from '@/components/clients/ClientImportDialog';
+import { ClientExportDialog } from '@/components/clients/ClientExportDialog';
+import { ClientSegmentDialog } from '@/components/clients/ClientSegmentDialog';
+import { ClientsBulkActionsBar } from '@/components/clients/ClientsBulkActionsBar';
+import {
+  type ActiveClientSegment,
+  countSegmentConditions,
+  describeClientSegment,
+  segmentListParams,
+  segmentOptionLabeler,
+} from '@/lib/clientSegments';
+import { Badge } from '@/components/ui/badge';
 import { ClientsTable } from '@/components/clients/ClientsTable';
+import { CLIENT_TABLE_COLUMNS } from '@/lib/clientTable';
+import { TableColumnsMenu } from '@/components/common/TableColumnsMenu';
+import { SavedFiltersMenu } from '@/components/common/SavedFiltersMenu';
+import { useSavedFilters, useTablePreferences } from '@/hooks/userPreferences';
 import { useDebounce } from '@/hooks/useDebounce';
 import { Switch } from "@/components/ui/switch";
+import { Can } from '@/components/auth/Can';
+import { useAbilities } from '@/hooks/useCan';
+import { isValidCNPJ, isValidCPF } from '@/lib/documents';
 interface ApiDeleteResponse {
   exec: boolean;
   message: string;
   status: number;
 }
-// Utility functions for validation
-const isValidCPF = (cpf: string): boolean => {
-  const cleanCPF = cpf.replace(/\D/g, '');
-  if (cleanCPF.length !== 11 || /^(\d)\1{10}$/.test(cleanCPF)) return false;
-  
-  let sum = 0;
-  for (let i = 0; i < 9; i++) {
-    sum += parseInt(cleanCPF.charAt(i)) * (10 - i);
-  }
-  let remainder = (sum * 10) % 11;
-  if (remainder === 10 || remainder === 11) remainder = 0;
-  if (remainder !== parseInt(cleanCPF.charAt(9))) return false;
-  
-  sum = 0;
-  for (let i = 0; i < 10; i++) {
-    sum += parseInt(cleanCPF.charAt(i)) * (11 - i);
-  }
-  remainder = (sum * 10) % 11;
-  if (remainder === 10 || remainder === 11) remainder = 0;
-  return remainder === parseInt(cleanCPF.charAt(10));
-};
-
-const isValidCNPJ = (cnpj: string): boolean => {
-  const cleanCNPJ = cnpj.replace(/\D/g, '');
-  if (cleanCNPJ.length !== 14 || /^(\d)\1{13}$/.test(cleanCNPJ)) return false;
-  
-  let sum = 0;
-  let weight = 2;
-  for (let i = 11; i >= 0; i--) {
-    sum += parseInt(cleanCNPJ.charAt(i)) * weight;
-    weight = weight === 9 ? 2 : weight + 1;
-  }
-  let remainder = sum % 11;
-  const digit1 = remainder < 2 ? 0 : 11 - remainder;
-  if (digit1 !== parseInt(cleanCNPJ.charAt(12))) return false;
-  
-  sum = 0;
-  weight = 2;
-  for (let i = 12; i >= 0; i--) {
-    sum += parseInt(cleanCNPJ.charAt(i)) * weight;
-    weight = weight === 9 ? 2 : weight + 1;
-  }
-  remainder = sum % 11;
-  const digit2 = remainder < 2 ? 0 : 11 - remainder;
-  return digit2 === parseInt(cleanCNPJ.charAt(13));
-};
 
 /**
  * isValidPhone
@@ -230,17 +209,30 @@ export default function Clients() {
   const [searchTerm, setSearchTerm] = useState("");
   const [statusFilter, setStatusFilter] = useState<string>("all");
   const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  // Filtro avançado (segmento) aplicado na lista / Advanced filter (segment) applied to the list
+  const [activeSegment, setActiveSegment] = useState<ActiveClientSegment | null>(null);
+  const [isSegmentOpen, setIsSegmentOpen] = useState(false);
+  // Seleção por ID, mantida entre páginas / Selection by ID, kept across pages
+  const [selectedClients, setSelectedClients] = useState<Record<string, ClientRecord>>({});
+  const { can_edit: canEditClients } = useAbilities('/admin/clients');
   const [openDeleteDialog, setOpenDeleteDialog] = useState(false);
   const [editingClient, setEditingClient] = useState<ClientRecord | null>(null);
   const [clientToDelete, setClientToDelete] = useState<ClientRecord | null>(null);
   const [currentPage, setCurrentPage] = useState(1);
-  const [pageSize] = useState(100);
+  // Colunas, itens por página e filtros salvos seguem o usuário / Columns, page size and saved filters follow the user
+  const tablePrefs = useTablePreferences('clients', CLIENT_TABLE_COLUMNS, 100);
+  const pageSize = tablePrefs.pageSize;
+  const savedFilters = useSavedFilters<{ search: string; status: string; trash: boolean }>('clients');
   // Filtro de lixeira (excluido=s)
   const [showTrash, setShowTrash] = useState(false);
   const { toast } = useToast();
   const navigate = useNavigate();
   const queryClient = useQueryClient();
   const debouncedSearchTerm = useDebounce(searchTerm, 400);
+  const segmentParams = useMemo(() => segmentListParams(activeSegment), [activeSegment]);
+  const { data: segmentOptions } = useClientSegmentOptions(!!activeSegment);
   // React Query: fetch clients with pagination and debounced search
   /**
    * Força refetch ao alternar lixeira e evita dados frescos impedirem nova chamada.
@@ -254,6 +246,7 @@ export default function Clients() {
       per_page: pageSize,
       search: debouncedSearchTerm,
       excluido: showTrash ? 's' : undefined,
+      ...segmentParams,
     },
     {
       staleTime: 0,
@@ -261,17 +254,7 @@ export default function Clients() {
       keepPreviousData: true,
     }
   );
-  /**
-   * Fonte de dados efetiva
-   * pt-BR: Quando `VITE_USE_MOCK_CLIENTS` é 'true', usa dados mockados para facilitar o design.
-   * en-US: When `VITE_USE_MOCK_CLIENTS` is 'true', uses mocked data to ease UI design.
-   */
-  const useMock = import.meta.env.VITE_USE_MOCK_CLIENTS === 'true';
-  const mockClients = useMemo(() => {
-    if (!useMock) return [] as ClientRecord[];
-    return generateMockClients({ funnelId: 'default', stageIds: ['stage-a', 'stage-b', 'stage-c'], total: 24 });
-  }, [useMock]);
-  const effectiveClients: ClientRecord[] = useMock ? mockClients : (clientsQuery.data?.data || []);
+  const effectiveClients = useMemo<ClientRecord[]>(() => clientsQuery.data?.data || [], [clientsQuery.data]);
   
   /**
    * Refaz a busca quando 'showTrash' muda para garantir que a API seja chamada.
@@ -280,14 +263,17 @@ export default function Clients() {
     clientsQuery.refetch();
   }, [showTrash]);
   // console.log('clientsQuery:', clientsQuery);
-  // Compute total pages from API response (or mocks)
-  const totalPages = useMock
-    ? Math.max(1, Math.ceil(effectiveClients.length / pageSize))
-    : (clientsQuery?.data?.last_page || 1);
+  // Compute total pages from API response
+  const totalPages = clientsQuery?.data?.last_page || 1;
   // Reset to first page when search or status filter changes
   useEffect(() => {
     setCurrentPage(1);
-  }, [debouncedSearchTerm, statusFilter, showTrash]);
+  }, [debouncedSearchTerm, statusFilter, showTrash, pageSize, segmentParams]);
+  // Lixeira e lista ativa têm ações diferentes / Trash and active list have different actions
+  useEffect(() => {
+    setSelectedClients({});
+  }, [showTrash]);
+  const selectAllMutation = useSelectAllClients();
   const createClientMutation = useCreateClient();
   const updateClientMutation = useUpdateClient();
   const deleteClientMutation = useDeleteClient();
@@ -663,14 +649,73 @@ export default function Clients() {
     });
   }, [effectiveClients, searchTerm, statusFilter]);
 
+  const toggleClient = (client: ClientRecord, checked: boolean) => {
+    setSelectedClients((prev) => {
+      const next = { ...prev };
+      if (checked) next[client.id] = client;
+      else delete next[client.id];
+      return next;
+    });
+  };
+
+  const toggleAllClients = (checked: boolean) => {
+    setSelectedClients((prev) => {
+      const next = { ...prev };
+      filteredClients.forEach((client) => {
+        if (checked) next[client.id] = client;
+        else delete next[client.id];
+      });
+      return next;
+    });
+  };
+
+  /**
+   * Seleciona todos os clientes do filtro (todas as páginas, com o segmento aplicado).
+   * Selects every client in the filter (all pages, with the applied segment).
+   */
+  const selectAllMatching = () => {
+    selectAllMutation.mutate(
+      {
+        params: { search: debouncedSearchTerm, excluido: showTrash ? 's' : undefined, ...segmentParams },
+        status: statusFilter === 'all' ? undefined : (statusFilter as ClientRecord['status']),
+      },
+      { onSuccess: (clients) => setSelectedClients(Object.fromEntries(clients.map((client) => [client.id, client]))) }
+    );
+  };
+
+  const handleBulkProcessed = (succeededIds: string[]) => {
+    setSelectedClients((prev) => {
+      const next = { ...prev };
+      succeededIds.forEach((id) => delete next[id]);
+      return next;
+    });
+  };
+
   return (
     <div className="container mx-auto py-6 space-y-6">
       {/* Header */}
       <div className="flex justify-between items-center">
         <h1 className="text-3xl font-bold">Clientes</h1>
-        <Button onClick={handleNewClient}>
-          <Plus className="mr-2 h-4 w-4" /> Novo Cliente
-        </Button>
+        <div className="flex gap-2">
+          <Can action="edit" menuPath="/admin/clients">
+            <Button variant="outline" onClick={() => navigate('/admin/clients/duplicates')}>
+              <Users className="mr-2 h-4 w-4" /> Duplicados
+            </Button>
+          </Can>
+          <Button variant="outline" onClick={() => setIsExportOpen(true)}>
+            <Download className="mr-2 h-4 w-4" /> Exportar
+          </Button>
+          <Can action="create" menuPath="/admin/clients">
+            <Button variant="outline" onClick={() => setIsImportOpen(true)}>
+              <Upload className="mr-2 h-4 w-4" /> Importar
+            </Button>
+          </Can>
+          <Can action="create" menuPath="/admin/clients">
+            <Button onClick={handleNewClient}>
+              <Plus className="mr-2 h-4 w-4" /> Novo Cliente
+            </Button>
+          </Can>
+        </div>
       </div>
 
       {/* Stats Cards */}
@@ -681,7 +726,7 @@ export default function Clients() {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">
-              {useMock ? effectiveClients.length : (clientsQuery.data?.total || 0)}
+              {clientsQuery.data?.total || 0}
             </div>
             <p className="text-xs text-muted-foreground mt-1">
               Clientes cadastrados no sistema
@@ -768,14 +813,54 @@ export default function Clients() {
               />
               <span className="text-sm">Lixeira</span>
             </div>
+            <div className="flex items-center gap-2">
+              <Button variant="outline" size="sm" onClick={() => setIsSegmentOpen(true)}>
+                <Filter className="mr-2 h-4 w-4" />
+                Filtro avançado
+                {activeSegment && (
+                  <Badge variant="secondary" className="ml-2">{countSegmentConditions(activeSegment.definition)}</Badge>
+                )}
+              </Button>
+              <SavedFiltersMenu
+                filters={savedFilters.filters}
+                onApply={({ values }) => {
+                  setSearchTerm(values.search);
+                  setStatusFilter(values.status);
+                  setShowTrash(values.trash);
+                }}
+                onSave={(name) => savedFilters.saveFilter(name, { search: searchTerm, status: statusFilter, trash: showTrash })}
+                onRemove={savedFilters.removeFilter}
+              />
+              <TableColumnsMenu
+                columns={tablePrefs.columns}
+                visibleColumns={tablePrefs.visibleColumns}
+                onToggle={tablePrefs.toggleColumn}
+                onMove={tablePrefs.moveColumn}
+                onReset={tablePrefs.reset}
+                pageSize={pageSize}
+                onPageSizeChange={tablePrefs.setPageSize}
+              />
+            </div>
           </div>
+          {activeSegment && (
+            <div className="flex items-start gap-2 rounded-md bg-muted px-3 py-2 text-sm">
+              <Filter className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />
+              <span className="flex-1">
+                {activeSegment.saved && <span className="font-medium">{activeSegment.saved.name}: </span>}
+                {describeClientSegment(activeSegment.definition, segmentOptionLabeler(segmentOptions))}
+              </span>
+              <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => setActiveSegment(null)} aria-label="Limpar filtro avançado">
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          )}
         </CardHeader>
         <CardContent>
-          {(useMock ? false : clientsQuery.isLoading) ? (
+          {clientsQuery.isLoading ? (
             <div className="flex justify-center items-center py-8">
               <p>Carregando clientes...</p>
             </div>
-          ) : (!useMock && clientsQuery.isError) ? (
+          ) : clientsQuery.isError ? (
             <div className="flex flex-col items-center justify-center py-12 space-y-4">
               <div className="w-16 h-16 bg-red-100 rounded-full flex items-center justify-center">
                 <svg className="w-8 h-8 text-red-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -816,16 +901,35 @@ export default function Clients() {
               <p>Nenhum cliente encontrado.</p>
             </div>
           ) : (
-            <ClientsTable 
-              clients={filteredClients}
-              onEdit={handleEditClient}
-              onDelete={handleDeleteClient}
-              isLoading={useMock ? false : clientsQuery.isLoading}
-              trashEnabled={showTrash}
-            />
+            <div className="space-y-4">
+              {Object.keys(selectedClients).length > 0 && (
+                <Can action="edit" menuPath="/admin/clients">
+                  <ClientsBulkActionsBar
+                    selectedClients={Object.values(selectedClients)}
+                    trash={showTrash}
+                    totalMatching={statusFilter === 'all' ? clientsQuery.data?.total : undefined}
+                    onSelectAll={selectAllMatching}
+                    isSelectingAll={selectAllMutation.isPending}
+                    onProcessed={handleBulkProcessed}
+                    onClear={() => setSelectedClients({})}
+                  />
+                </Can>
+              )}
+              <ClientsTable 
+                clients={filteredClients}
+                onEdit={handleEditClient}
+                onDelete={handleDeleteClient}
+                isLoading={clientsQuery.isLoading}
+                trashEnabled={showTrash}
+                columns={tablePrefs.visibleColumns}
+                selected={selectedClients}
+                onToggle={canEditClients ? toggleClient : undefined}
+                onToggleAll={toggleAllClients}
+              />
+            </div>
           )}
           {/* Pagination */}
-          {((useMock ? effectiveClients.length > 0 : (clientsQuery.data && clientsQuery.data.total > 0)) && totalPages > 1) && (
+          {(clientsQuery.data && clientsQuery.data.total > 0 && totalPages > 1) && (
             <div className="flex items-center justify-between mt-4">
               <p className="text-sm text-muted-foreground">Página {currentPage} de {totalPages}</p>
               <div className="flex gap-2">
@@ -866,6 +970,20 @@ export default function Clients() {
         </DialogContent>
       </Dialog>
 
+      <ClientImportDialog open={isImportOpen} onOpenChange={setIsImportOpen} />
+      <ClientExportDialog
+        open={isExportOpen}
+        onOpenChange={setIsExportOpen}
+        filters={{ search: debouncedSearchTerm, status: statusFilter, trash: showTrash, ...segmentParams }}
+        segmentName={activeSegment ? activeSegment.saved?.name ?? 'filtro avançado' : undefined}
+      />
+      <ClientSegmentDialog
+        open={isSegmentOpen}
+        onOpenChange={setIsSegmentOpen}
+        value={activeSegment}
+        onApply={setActiveSegment}
+      />
+
       {/* Delete Confirmation Dialog */}
       <AlertDialog open={openDeleteDialog} onOpenChange={setOpenDeleteDialog}>
         <AlertDialogContent>
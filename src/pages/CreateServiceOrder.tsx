@@ -11,6 +11,7 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { toast } from "sonner";
+import { isApiError } from "@/services/ApiError";
 import { ArrowLeft, Save } from "lucide-react";
 import ServiceOrderForm from "@/components/serviceOrders/ServiceOrderForm";
 import { serviceOrderSchema, type ServiceOrderFormData } from "@/components/serviceOrders/serviceOrderSchema";
@@ -169,6 +170,11 @@ export default function CreateServiceOrder() {
       // Redireciona para a página de visualização da ordem criada
       navigate(`/service-orders/show/${result.id}`);
     } catch (error) {
+      // Sem conexão: a ordem ficou na fila offline e será enviada depois
+      if (isApiError(error) && error.isQueuedOffline) {
+        navigate('/service-orders');
+        return;
+      }
       // console.log('error:',error);
       let arr: Array<any> = [];
       let message:string = '';
@@ -263,6 +269,7 @@ export default function CreateServiceOrder() {
         <CardContent>
           <ServiceOrderForm
             form={form}
+            draftKey="service-order:new"
             onSubmit={handleSubmit}
             isSubmitting={createServiceOrderMutation.isPending}
             clients={clients}
@@ -4,6 +4,7 @@ import { useNavigate, useSearchParams, useLocation } from 'react-router-dom';
 import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
+import { Can } from '@/components/auth/Can';
 import { Select, SelectTrigger, SelectContent, SelectItem, SelectValue } from '@/components/ui/select';
 import { Combobox, useComboboxOptions } from '@/components/ui/combobox';
 import { Switch } from '@/components/ui/switch';
@@ -12,13 +13,16 @@ import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigge
 import { useFunnelsList, useStagesList } from '@/hooks/funnels';
 import { useUsersList } from '@/hooks/users';
 import { useAuth } from '@/contexts/AuthContext';
+import { useUserPrefs } from '@/contexts/UserPrefsContext';
 import { FunnelRecord, StageRecord } from '@/types/pipelines';
-import { useClientsList, useUpdateClient } from '@/hooks/clients';
+import { useQueryClient } from '@tanstack/react-query';
+import { useClientsList, useCreateClient, useUpdateClient } from '@/hooks/clients';
 import { useEnrollmentsList, useUpdateEnrollment } from '@/hooks/enrollments';
 import { ClientRecord } from '@/types/clients';
 import { EnrollmentRecord } from '@/types/enrollments';
-import { getMockClientsForStages } from '@/mocks/clients';
 import { clientsService } from '@/services/clientsService';
+import { isApiError } from '@/services/ApiError';
+import { updateCachedEntity } from '@/hooks/useGenericApi';
 import { CreateClientAttendanceInput } from '@/types/attendance';
 import { useToast } from '@/hooks/use-toast';
 import { phoneApplyMask, phoneRemoveMask } from '@/lib/masks/phone-apply-mask';
@@ -197,6 +201,17 @@ export default function CustomersLeads({ place = 'atendimento' }: { place?: 'ven
   const [searchParams, setSearchParams] = useSearchParams();
   const initialFunnelFromUrl = useMemo(() => searchParams.get('funnel') || null, [searchParams]);
   const [selectedFunnelId, setSelectedFunnelId] = useState<string | null>(initialFunnelFromUrl);
+  /**
+   * savedFunnelId
+   * pt-BR: Último funil escolhido nesta área, salvo nas preferências do usuário.
+   * en-US: Last funnel chosen in this area, saved in the user preferences.
+   */
+  const { getPreference, setPreference } = useUserPrefs();
+  const savedFunnelId = getPreference<string | null>(`funnel:${place}`, null);
+  const handleFunnelChange = (funnelId: string) => {
+    setSelectedFunnelId(funnelId);
+    setPreference(`funnel:${place}`, funnelId);
+  };
   /**
    * firstFilteredId
    * pt-BR: Obtém o primeiro funil da área selecionada e normaliza o ID para string
@@ -205,9 +220,10 @@ export default function CustomersLeads({ place = 'atendimento' }: { place?: 'ven
    *        to avoid type mismatch with the Select component.
    */
   const firstFilteredId = useMemo(() => {
+    if (savedFunnelId && filteredFunnels.some((f) => String(f.id) === savedFunnelId)) return savedFunnelId;
     const id = filteredFunnels[0]?.id;
     return id !== undefined && id !== null ? String(id) : null;
-  }, [filteredFunnels]);
+  }, [filteredFunnels, savedFunnelId]);
   useEffect(() => {
     /**
      * pt-BR: Define um funil padrão caso nenhum esteja selecionado ou na URL.
@@ -271,9 +287,10 @@ export default function CustomersLeads({ place = 'atendimento' }: { place?: 'ven
    *        If metadata indicates stage (e.g., preferencias.pipeline.stage_id),
    *        clients are grouped by column; otherwise, empty lists.
    */
-  const USE_MOCK = (import.meta.env.VITE_USE_MOCK_CLIENTS as string | undefined) === 'true';
   const { data: clientsData } = useClientsList({ page: 1, per_page: 100 });
   const updateClientMutation = useUpdateClient();
+  const createClientMutation = useCreateClient();
+  const queryClient = useQueryClient();
   // console.log('clientsData', clientsData);
   /**
    * densityMode
@@ -290,45 +307,16 @@ export default function CustomersLeads({ place = 'atendimento' }: { place?: 'ven
   
 
   /**
-   * buildMockClientsForUI
-   * pt-BR: Gera clientes mockados distribuídos nas etapas do funil selecionado.
-   *        Centraliza a criação de mocks para manter consistência e facilitar ajustes.
-   * en-US: Generates mocked clients distributed across the selected funnel stages.
-   *        Centralizes mock creation to keep consistency and simplify future tweaks.
-   */
-  const buildMockClientsForUI = (
-    funnelId: string,
-    stageIds: string[],
-    count: number = 18
-  ): ClientRecord[] => {
-    console.log('buildMockClientsForUI', funnelId, stageIds, count);
-    if (!funnelId || stageIds.length === 0) return [];
-    return getMockClientsForStages(funnelId, stageIds, count);
-  };
-  /**
-   * allClients
-   * pt-BR: Quando a flag VITE_USE_MOCK_CLIENTS=true, usa clientes mockados
-   *        distribuídos pelas etapas carregadas; caso contrário, usa dados da API.
-   * en-US: When VITE_USE_MOCK_CLIENTS=true, uses mocked clients distributed
-   *        across loaded stages; otherwise, uses API data.
-   */
-  const allClients = useMemo<ClientRecord[]>(() => {
-    if (USE_MOCK && selectedFunnelId && stages.length > 0) {
-      const stageIds = stages.map((s) => s.id);
-      return buildMockClientsForUI(selectedFunnelId, stageIds, 18);
-    }
-    return Array.isArray(clientsData?.data) ? clientsData!.data : [];
-  }, [USE_MOCK, selectedFunnelId, stages, clientsData?.data]);
-  // console.log('allClients', allClients);
-  /**
-   * localClients
-   * pt-BR: Estado local dos clientes exibidos, permitindo atualização otimista ao arrastar/soltar.
-   * en-US: Local state of displayed clients, enabling optimistic update on drag-and-drop.
+   * boardClients
+   * pt-BR: Clientes exibidos no quadro, lidos do cache do React Query, que já recebe
+   *        a atualização otimista de `useUpdateClient`.
+   * en-US: Clients shown on the board, read from the React Query cache, which already
+   *        receives the optimistic update from `useUpdateClient`.
    */
-  const [localClients, setLocalClients] = useState<ClientRecord[]>([]);
-  useEffect(() => {
-    setLocalClients(allClients);
-  }, [allClients]);
+  const boardClients = useMemo<ClientRecord[]>(
+    () => (Array.isArray(clientsData?.data) ? clientsData!.data : []),
+    [clientsData]
+  );
 
   /**
    * situacaoForFunnel
@@ -370,10 +358,7 @@ export default function CustomersLeads({ place = 'atendimento' }: { place?: 'ven
   const allEnrollments = useMemo<EnrollmentRecord[]>(() => (
     Array.isArray(enrollmentsData?.data) ? (enrollmentsData!.data as EnrollmentRecord[]) : []
   ), [enrollmentsData?.data]);
-  const [localEnrollments, setLocalEnrollments] = useState<EnrollmentRecord[]>([]);
-  useEffect(() => {
-    if (place === 'vendas') setLocalEnrollments(allEnrollments);
-  }, [place, allEnrollments]);
+  const boardEnrollments = useMemo<EnrollmentRecord[]>(() => (place === 'vendas' ? allEnrollments : []), [place, allEnrollments]);
 
   /**
    * loadLastAttendanceFromStorage
@@ -399,7 +384,7 @@ export default function CustomersLeads({ place = 'atendimento' }: { place?: 'ven
         }
       }
       const next: Record<string, { timestamp: string; observation?: string }> = {};
-      for (const c of localClients) {
+      for (const c of boardClients) {
         const cid = String(c.id);
         if (latestByClient[cid]) next[cid] = latestByClient[cid];
       }
@@ -415,8 +400,8 @@ export default function CustomersLeads({ place = 'atendimento' }: { place?: 'ven
    */
   useEffect(() => {
     loadLastAttendanceFromStorage();
-  }, [localClients]);
-  // console.log('localClients', localClients);
+  }, [boardClients]);
+  // console.log('boardClients', boardClients);
   /**
    * extractFunnelId
    * pt-BR: Tenta detectar o funil (funnelId) do cliente a partir de `config`
@@ -522,7 +507,7 @@ export default function CustomersLeads({ place = 'atendimento' }: { place?: 'ven
     }
     return null;
   };
-  // console.log('extractStageId', allClients.map(extractStageId));
+  // console.log('extractStageId', boardClients.map(extractStageId));
   
   /**
    * clientsByStage
@@ -545,7 +530,7 @@ export default function CustomersLeads({ place = 'atendimento' }: { place?: 'ven
      */
     const allowedStageIds = new Set(stages.map((s) => String(s.id)));
     const map = new Map<string, ClientRecord[]>();
-    for (const client of localClients) {
+    for (const client of boardClients) {
       const fid = String(extractFunnelId(client) || '');
       if (selectedFunnelId) {
         // Ignora clientes de outro funil ou sem funil definido
@@ -561,7 +546,7 @@ export default function CustomersLeads({ place = 'atendimento' }: { place?: 'ven
       map.get(sid)!.push(client);
     }
     return map;
-  }, [localClients, stages, selectedFunnelId]);
+  }, [boardClients, stages, selectedFunnelId]);
 
   /**
    * enrollmentsByStage
@@ -571,7 +556,7 @@ export default function CustomersLeads({ place = 'atendimento' }: { place?: 'ven
   const enrollmentsByStage = useMemo(() => {
     const allowedStageIds = new Set(stages.map((s) => String(s.id)));
     const map = new Map<string, EnrollmentRecord[]>();
-    for (const enroll of localEnrollments) {
+    for (const enroll of boardEnrollments) {
       const fid = String(extractEnrollmentFunnelId(enroll) || '');
       if (selectedFunnelId) {
         if (!fid || fid !== String(selectedFunnelId)) continue;
@@ -583,7 +568,7 @@ export default function CustomersLeads({ place = 'atendimento' }: { place?: 'ven
       map.get(sid)!.push(enroll);
     }
     return map;
-  }, [localEnrollments, stages, selectedFunnelId]);
+  }, [boardEnrollments, stages, selectedFunnelId]);
 
   /**
    * summary
@@ -594,7 +579,7 @@ export default function CustomersLeads({ place = 'atendimento' }: { place?: 'ven
    */
   const summary = useMemo(() => {
     const stageIds = stages.map((s) => String(s.id));
-    const total = place === 'vendas' ? localEnrollments.length : localClients.length;
+    const total = place === 'vendas' ? boardEnrollments.length : boardClients.length;
     const visibleMap = place === 'vendas' ? enrollmentsByStage : clientsByStage;
     const visibleTotal = visibleMap instanceof Map
       ? Array.from(visibleMap.values()).reduce((acc, arr) => acc + (arr?.length || 0), 0)
@@ -605,7 +590,7 @@ export default function CustomersLeads({ place = 'atendimento' }: { place?: 'ven
       totalClients: total,
       visibleTotal,
     };
-  }, [stages, localClients, localEnrollments, clientsByStage, enrollmentsByStage, selectedFunnelId, place]);
+  }, [stages, boardClients, boardEnrollments, clientsByStage, enrollmentsByStage, selectedFunnelId, place]);
 
   /**
    * stageTotals
@@ -639,7 +624,7 @@ export default function CustomersLeads({ place = 'atendimento' }: { place?: 'ven
     let outOfFunnel = 0;
     let invalidStage = 0;
     let emptyStage = 0;
-    for (const client of localClients) {
+    for (const client of boardClients) {
       const fid = String(extractFunnelId(client) || '');
       const sid = String(extractStageId(client) || '');
       if (selectedFunnelId) {
@@ -648,8 +633,8 @@ export default function CustomersLeads({ place = 'atendimento' }: { place?: 'ven
         else if (!allowedStageIds.has(sid)) invalidStage++;
       }
     }
-    return { outOfFunnel, invalidStage, emptyStage, total: localClients.length };
-  }, [localClients, stages, selectedFunnelId]);
+    return { outOfFunnel, invalidStage, emptyStage, total: boardClients.length };
+  }, [boardClients, stages, selectedFunnelId]);
 
   /**
    * diagnosticsDetails
@@ -665,7 +650,7 @@ export default function CustomersLeads({ place = 'atendimento' }: { place?: 'ven
       stageId: string;
       reason: 'fora_do_funil' | 'etapa_invalida' | 'stage_vazio';
     }>;
-    for (const client of localClients) {
+    for (const client of boardClients) {
       const fid = String(extractFunnelId(client) || '');
       const sid = String(extractStageId(client) || '');
       let reason: 'fora_do_funil' | 'etapa_invalida' | 'stage_vazio' | undefined;
@@ -680,7 +665,7 @@ export default function CustomersLeads({ place = 'atendimento' }: { place?: 'ven
       }
     }
     return rows;
-  }, [localClients, stages, selectedFunnelId]);
+  }, [boardClients, stages, selectedFunnelId]);
   // console.log('clientsByStage', clientsByStage); 
   /**
    * Drag state and handlers
@@ -838,44 +823,23 @@ export default function CustomersLeads({ place = 'atendimento' }: { place?: 'ven
    */
   const onDropEnrollmentOnStage = (toStageId: string) => {
     if (!draggingEnrollment.enrollmentId) return;
-    const idx = localEnrollments.findIndex((e) => String(e.id) === String(draggingEnrollment.enrollmentId));
+    const idx = boardEnrollments.findIndex((e) => String(e.id) === String(draggingEnrollment.enrollmentId));
     if (idx < 0) return;
-    const base = localEnrollments[idx];
+    const base = boardEnrollments[idx];
     const currentStageId = String(extractEnrollmentStageId(base) || '');
     if (currentStageId === String(toStageId)) {
       onEnrollmentDragEnd();
       return;
     }
 
-    const next: EnrollmentRecord = {
-      ...base,
-      // Atualiza campos de conveniência no topo e dentro de config, mantendo funil
-      funnel_id: selectedFunnelId || (base as any)?.funnel_id || (base as any)?.funnelId || null as any,
-      stage_id: toStageId as any,
-      config: {
-        ...(base as any).config,
-        funnelId: selectedFunnelId || (base as any)?.config?.funnelId || null,
-        stage_id: toStageId as any,
-      } as any,
-    };
-    setLocalEnrollments((prev) => {
-      const copy = [...prev];
-      copy[idx] = next;
-      return copy;
-    });
     setRecentlyMovedEnrollmentId(String(base.id));
 
-    // Persistência via API; em caso de erro, reverte estado local
+    // Persistência via API; o hook move o card no cache na hora e, em erro, desfaz e avisa
     updateEnrollmentMutation.mutate({ id: String(base.id), data: { funnel_id: selectedFunnelId, stage_id: toStageId } as any }, {
       onSuccess: () => {
         setTimeout(() => setRecentlyMovedEnrollmentId(null), 400);
       },
       onError: () => {
-        setLocalEnrollments((prev) => {
-          const copy = [...prev];
-          copy[idx] = base;
-          return copy;
-        });
         setRecentlyMovedEnrollmentId(null);
       },
     });
@@ -885,14 +849,14 @@ export default function CustomersLeads({ place = 'atendimento' }: { place?: 'ven
 
   /**
    * onDropOnStage
-   * pt-BR: Solta o card em uma coluna de etapa, move otimisticamente e persiste se não for mock.
-   * en-US: Drops the card on a stage column, moves optimistically and persists if not mock.
+   * pt-BR: Solta o card em uma coluna de etapa, move otimisticamente e persiste na API.
+   * en-US: Drops the card on a stage column, moves optimistically and persists to the API.
    */
   const onDropOnStage = (toStageId: string) => {
     if (!dragging.clientId) return;
-    const clientIdx = localClients.findIndex((c) => c.id === dragging.clientId);
+    const clientIdx = boardClients.findIndex((c) => c.id === dragging.clientId);
     if (clientIdx < 0) return;
-    const client = localClients[clientIdx];
+    const client = boardClients[clientIdx];
     const currentStageId = extractStageId(client);
     if (currentStageId === toStageId) {
       onCardDragEnd();
@@ -908,42 +872,20 @@ export default function CustomersLeads({ place = 'atendimento' }: { place?: 'ven
         stage_id: toStageId,
       },
     };
-    setLocalClients((prev) => {
-      const copy = [...prev];
-      copy[clientIdx] = nextClient;
-      return copy;
-    });
     setRecentlyMovedId(client.id);
 
-    // Persistência quando não for mock
-    if (!USE_MOCK) {
-      updateClientMutation.mutate({
-        id: client.id,
-        data: {
-          config: {
-            ...client.config,
-            funnelId: selectedFunnelId || client.config?.funnelId || null,
-            stage_id: toStageId,
-          },
-        },
-      }, {
-        onSuccess: () => {
-          setTimeout(() => setRecentlyMovedId(null), 400);
-        },
-        onError: () => {
-          // Reverte em caso de erro
-          setLocalClients((prev) => {
-            const copy = [...prev];
-            copy[clientIdx] = client;
-            return copy;
-          });
-          setRecentlyMovedId(null);
-        },
-      });
-    } else {
-      // Mock: apenas animação
-      setTimeout(() => setRecentlyMovedId(null), 400);
-    }
+    // O hook move o card no cache e, em erro, desfaz e avisa
+    updateClientMutation.mutate({
+      id: client.id,
+      data: { config: nextClient.config },
+    }, {
+      onSuccess: () => {
+        setTimeout(() => setRecentlyMovedId(null), 400);
+      },
+      onError: () => {
+        setRecentlyMovedId(null);
+      },
+    });
 
     onCardDragEnd();
   };
@@ -997,25 +939,17 @@ export default function CustomersLeads({ place = 'atendimento' }: { place?: 'ven
       const currentStageId = String(extractStageId(attendanceForClient) || '');
       const targetStageId = String(attendanceTargetStageId || '');
       if (targetStageId && targetStageId !== currentStageId) {
-        const idx = localClients.findIndex((c) => String(c.id) === clientId);
-        if (idx >= 0) {
-          const base = localClients[idx];
-          const updated: ClientRecord = {
-            ...base,
-            config: {
-              ...base.config,
-              funnelId: selectedFunnelId || base.config?.funnelId || null,
-              stage_id: targetStageId,
-            },
-          };
-          setLocalClients((prev) => {
-            const copy = [...prev];
-            copy[idx] = updated;
-            return copy;
-          });
-          setRecentlyMovedId(clientId);
-          setTimeout(() => setRecentlyMovedId(null), 400);
-        }
+        const moveToStage = (base: ClientRecord): ClientRecord => ({
+          ...base,
+          config: {
+            ...base.config,
+            funnelId: selectedFunnelId || base.config?.funnelId || null,
+            stage_id: targetStageId,
+          },
+        });
+        updateCachedEntity<ClientRecord>(queryClient, 'clients', clientId, moveToStage);
+        setRecentlyMovedId(clientId);
+        setTimeout(() => setRecentlyMovedId(null), 400);
       }
 
       const ts = new Date().toISOString();
@@ -1039,6 +973,15 @@ export default function CustomersLeads({ place = 'atendimento' }: { place?: 'ven
       setAttendanceObservation('');
       toast({ title: 'Atendimento registrado', description: payload.observation ? 'Observação salva.' : 'Registrado sem observação.' });
     } catch (e: any) {
+      if (isApiError(e) && e.isQueuedOffline) {
+        // pt-BR: Sem conexão, o atendimento fica na fila offline; fecha o diálogo normalmente.
+        // en-US: Without connectivity, the attendance stays in the offline queue; close the dialog as usual.
+        setAttendanceDialogOpen(false);
+        setAttendanceForClient(null);
+        setAttendanceObservation('');
+        toast({ title: 'Atendimento salvo no dispositivo', description: e.message });
+        return;
+      }
       toast({ title: 'Erro ao registrar atendimento', description: String(e?.message || 'Verifique a conexão com a API'), variant: 'destructive' });
     }
   };
@@ -1060,7 +1003,7 @@ export default function CustomersLeads({ place = 'atendimento' }: { place?: 'ven
           <div className="flex items-center gap-3 mb-4 w-full max-w-xs">
             <div className="w-full max-w-xs">
               <label className="text-xs text-muted-foreground">{place === 'vendas' ? 'Funil de Vendas' : 'Funil de Atendimento'}</label>
-              <Select value={selectedFunnelId ?? undefined} onValueChange={setSelectedFunnelId}>
+              <Select value={selectedFunnelId ?? undefined} onValueChange={handleFunnelChange}>
                 <SelectTrigger>
                   <SelectValue placeholder="Selecione um funil" />
                 </SelectTrigger>
@@ -1416,9 +1359,8 @@ export default function CustomersLeads({ place = 'atendimento' }: { place?: 'ven
                          status: 'actived',
                          tipo_pessoa: 'pf',
                        };
-                      const created = await clientsService.createClient(payload);
-                      // Insere no estado local e fecha modal
-                      setLocalClients((prev) => [created, ...prev]);
+                      // O hook insere o novo cliente no cache da listagem
+                      const created = await createClientMutation.mutateAsync(payload);
                       setAddLeadDialogOpen(false);
                       setAddLeadName(''); setAddLeadEmail(''); setAddLeadPhone(''); setAddLeadConsultantId('');
                       toast({ title: 'Lead criado', description: `Cliente ${created.name} adicionado em ${addLeadStageId}.` });
@@ -1548,9 +1490,11 @@ function StageColumn({
                  * pt-BR: Ação de adicionar lead na etapa atual.
                  * en-US: Action to add a lead in the current stage.
                  */}
-                <DropdownMenuItem onClick={handleAddLead}>
-                  <Plus className="h-4 w-4 mr-2" /> Adicionar lead
-                </DropdownMenuItem>
+                <Can action="create" menuPath="/admin/clients">
+                  <DropdownMenuItem onClick={handleAddLead}>
+                    <Plus className="h-4 w-4 mr-2" /> Adicionar lead
+                  </DropdownMenuItem>
+                </Can>
                 {/* Itens futuros (placeholders) */}
                 <DropdownMenuItem disabled>
                   <NotebookPen className="h-4 w-4 mr-2" /> Editar etapa
@@ -1892,9 +1836,11 @@ function StageColumnSales({
                 </Button>
               </DropdownMenuTrigger>
               <DropdownMenuContent align="end" className="w-40">
-                <DropdownMenuItem onClick={handleAddProposal}>
-                  <Plus className="h-4 w-4 mr-2" /> Adicionar propostas
-                </DropdownMenuItem>
+                <Can action="create" menuPath="/admin/sales/proposals">
+                  <DropdownMenuItem onClick={handleAddProposal}>
+                    <Plus className="h-4 w-4 mr-2" /> Adicionar propostas
+                  </DropdownMenuItem>
+                </Can>
               </DropdownMenuContent>
             </DropdownMenu>
           </div>
@@ -109,7 +109,7 @@ export default function Dashboard() {
     usersCount: usersData?.total || 0,
   };
 
-  // Dados dinâmicos ou fallback para dados mock
+  // Dados dinâmicos (listas vazias enquanto carregam)
   const recentClientActivities = recentActivities || [];
   const clientRegistrationData = registrationData || [];
   const pendingPreRegistrationsData = pendingPreRegistrations || [];
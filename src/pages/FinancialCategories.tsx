@@ -22,6 +22,7 @@ import {
 } from "lucide-react";
 
 import { Button } from "../components/ui/button";
+import { Can } from "../components/auth/Can";
 import { Input } from "../components/ui/input";
 import {
   Card,
@@ -242,10 +243,12 @@ export default function FinancialCategories() {
             Gerencie as categorias de receitas e despesas
           </p>
         </div>
-        <Button onClick={handleNewCategory}>
-          <Plus className="mr-2 h-4 w-4" />
-          Nova Categoria
-        </Button>
+        <Can action="create" menuPath="/admin/financial/categories">
+          <Button onClick={handleNewCategory}>
+            <Plus className="mr-2 h-4 w-4" />
+            Nova Categoria
+          </Button>
+        </Can>
       </div>
 
       {/* Estatísticas */}
@@ -403,20 +406,24 @@ export default function FinancialCategories() {
                     </TableCell>
                     <TableCell className="text-right">
                       <div className="flex items-center justify-end gap-2">
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => handleEditCategory(category)}
-                        >
-                          <Edit className="h-4 w-4" />
-                        </Button>
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => setDeletingCategory(category)}
-                        >
-                          <Trash2 className="h-4 w-4" />
-                        </Button>
+                        <Can action="edit" menuPath="/admin/financial/categories">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleEditCategory(category)}
+                          >
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                        </Can>
+                        <Can action="delete" menuPath="/admin/financial/categories">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setDeletingCategory(category)}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </Can>
                       </div>
                     </TableCell>
                   </TableRow>
@@ -12,6 +12,8 @@ import {
 import { Plane, BookOpen, Wrench, Compass, ArrowRight, User, LogOut, Settings, ChevronDown, Monitor, ExternalLink } from "lucide-react";
 import { Link } from "react-router-dom";
 import { useAuth } from "@/contexts/AuthContext";
+import { useTheme } from "@/contexts/ThemeContext";
+import { hasAdminAccess } from "@/lib/menu";
 
 /**
  * LandingPage
@@ -19,9 +21,11 @@ import { useAuth } from "@/contexts/AuthContext";
  *        Atualiza paleta de cores para tons de azul, conteúdo e chamadas.
  * en-US: Home page aligned to Aeroclube de Juiz de Fora theme.
  *        Updates palette to blue tones, content and CTAs.
+ * Logo, nome e slogan vêm do branding do tenant (ThemeContext).
  */
 const LandingPage = () => {
-  const { user, isAuthenticated, logout } = useAuth();
+  const { user, menu, isAuthenticated, logout } = useAuth();
+  const { branding } = useTheme();
   const [isLoggingOut, setIsLoggingOut] = useState(false);
 
   /**
@@ -40,18 +44,16 @@ const LandingPage = () => {
     }
   };
 
-  const permission_id: any = user?.permission_id;
-
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 to-sky-50">
       {/* Header */}
       <header className="bg-white/80 backdrop-blur-md border-b border-blue-200 sticky top-0 z-50">
         <div className="container mx-auto px-4 py-4 flex items-center justify-between">
           <div className="flex items-center space-x-3">
-            <img src="/logo.png" alt="Aeroclube JF" className="h-12" />
+            <img src={branding.logoUrl} alt={branding.appName} className="h-12" />
             <div>
-              <h1 className="text-2xl font-bold text-blue-800">Aeroclube de Juiz de Fora</h1>
-              <p className="text-sm text-blue-600">Escola de aviação</p>
+              <h1 className="text-2xl font-bold text-blue-800">{branding.appName}</h1>
+              <p className="text-sm text-blue-600">{branding.tagline}</p>
             </div>
           </div>
           <div className="flex space-x-4">
@@ -65,7 +67,7 @@ const LandingPage = () => {
                   </Button>
                 </DropdownMenuTrigger>
                 <DropdownMenuContent align="end" className="w-56">
-                  {permission_id <= 5 && (
+                  {hasAdminAccess(menu, user.permission_id) && (
                     <>
                       <DropdownMenuLabel>Painel Administrativo</DropdownMenuLabel>
                       <DropdownMenuSeparator />
@@ -225,10 +227,10 @@ const LandingPage = () => {
           <div className="grid md:grid-cols-3 gap-8">
             <div>
               <div className="flex items-center space-x-3 mb-4">
-                <img src="/logo.png" alt="ACJF" className="h-8" />
+                <img src={branding.logoUrl} alt={branding.appName} className="h-8" />
                 <div>
-                  <h3 className="font-bold">Aeroclube de Juiz de Fora</h3>
-                  <p className="text-sm text-blue-200">Escola de aviação</p>
+                  <h3 className="font-bold">{branding.appName}</h3>
+                  <p className="text-sm text-blue-200">{branding.tagline}</p>
                 </div>
               </div>
               <p className="text-blue-200 text-sm">
@@ -250,7 +252,7 @@ const LandingPage = () => {
             </div>
           </div>
           <div className="border-t border-blue-800 mt-8 pt-8 text-center text-sm text-blue-200">
-            <p>&copy; {new Date().getFullYear()} Aeroclube de Juiz de Fora. Todos os direitos reservados.</p>
+            <p>&copy; {new Date().getFullYear()} {branding.appName}. Todos os direitos reservados.</p>
           </div>
         </div>
       </footer>
@@ -1,6 +1,7 @@
 import { useParams, useNavigate } from 'react-router-dom';
 import { ArrowLeft, Mail, Phone, MapPin, User, Building, Calendar, GraduationCap, Briefcase, FileText } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { Can } from '@/components/auth/Can';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
@@ -132,9 +133,11 @@ export default function PartnerView() {
           <Badge variant={partner.ativo === 's' ? 'default' : 'destructive'}>
             {partner.ativo === 's' ? 'Ativo' : 'Inativo'}
           </Badge>
-          <Button onClick={handleEdit} size="sm">
-            Editar
-          </Button>
+          <Can action="edit" menuPath="/admin/partners">
+            <Button onClick={handleEdit} size="sm">
+              Editar
+            </Button>
+          </Can>
         </div>
       </div>
 
@@ -1,6 +1,7 @@
 import { useState, useMemo } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Can } from "@/components/auth/Can";
 import { Input } from "@/components/ui/input";
 import {
   Dialog,
@@ -353,9 +354,11 @@ export default function Partners() {
       {/* Header */}
       <div className="flex justify-between items-center">
         <h1 className="text-3xl font-bold">Parceiros</h1>
-        <Button onClick={handleNewPartner}>
-          <Plus className="mr-2 h-4 w-4" /> Novo Parceiro
-        </Button>
+        <Can action="create" menuPath="/admin/partners">
+          <Button onClick={handleNewPartner}>
+            <Plus className="mr-2 h-4 w-4" /> Novo Parceiro
+          </Button>
+        </Can>
       </div>
 
       {/* Cards de Estatísticas */}
@@ -9,6 +9,7 @@ import { useProduct, useUpdateProduct } from '@/hooks/products';
 import { useState, useEffect } from 'react';
 import { Input } from '@/components/ui/input';
 import { toast } from '@/hooks/use-toast';
+import { RecordHistory } from '@/components/audit/RecordHistory';
 
 /**
  * Página de visualização detalhada de um produto específico
@@ -429,6 +430,8 @@ export default function ProductView() {
             )}
           </CardContent>
         </Card>
+
+        <RecordHistory subjectType="products" subjectId={product.id} />
       </div>
     </div>
   );
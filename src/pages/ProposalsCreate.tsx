@@ -184,7 +184,7 @@ export default function ProposalsCreate() {
     staleTime: 5 * 60 * 1000,
   });
 
-  const clientsList = useMemo(() => (clientsData?.data || clientsData?.items || []), [clientsData]);
+  const clientsList = useMemo(() => (clientsData?.data ?? []), [clientsData]);
   // Mapeia clientes para opções do Combobox, incluindo descrição (email • telefone)
   const clientOptions = useComboboxOptions<any>(
     clientsList,
@@ -197,7 +197,7 @@ export default function ProposalsCreate() {
       return [email, phone].filter(Boolean).join(' • ');
     }
   );
-  const consultantsList = useMemo(() => (consultantsData?.data || consultantsData?.items || []), [consultantsData]);
+  const consultantsList = useMemo(() => (consultantsData?.data ?? []), [consultantsData]);
   const consultantOptions = useComboboxOptions<any>(
     consultantsList,
     'id',
@@ -211,7 +211,7 @@ export default function ProposalsCreate() {
   );
   // Opções de responsáveis a partir de clientes com permission_id=8
   // Responsible options from clients with permission_id=8
-  const responsiblesList = useMemo(() => (responsiblesData?.data || responsiblesData?.items || []), [responsiblesData]);
+  const responsiblesList = useMemo(() => (responsiblesData?.data ?? []), [responsiblesData]);
   const responsibleOptions = useComboboxOptions<any>(
     responsiblesList,
     'id',
@@ -224,8 +224,8 @@ export default function ProposalsCreate() {
     }
   );
   // Removido: listas de funis e etapas
-  const coursesList = useMemo(() => (courses?.data || courses?.items || []), [courses]);
-  const classesList = useMemo(() => (classes?.data || classes?.items || []), [classes]);
+  const coursesList = useMemo(() => (courses?.data ?? []), [courses]);
+  const classesList = useMemo(() => (classes?.data ?? []), [classes]);
   const courseOptions = useComboboxOptions<any>(
     coursesList,
     'id',
@@ -254,7 +254,7 @@ export default function ProposalsCreate() {
    * pt-BR: Opções do Combobox para tabelas de parcelamento do curso.
    * en-US: Combobox options for the course's installment tables.
    */
-  const installmentsList = useMemo(() => (installmentsByCourse?.data || installmentsByCourse?.items || []), [installmentsByCourse]);
+  const installmentsList = useMemo(() => (installmentsByCourse?.data ?? []), [installmentsByCourse]);
   const installmentOptions = useComboboxOptions<any>(
     installmentsList,
     'id',
@@ -266,16 +266,6 @@ export default function ProposalsCreate() {
     }
   );
 
-  /**
-   * normalizeSituationsList
-   * pt-BR: Normaliza a resposta do hook de situações de matrícula em uma lista simples.
-   * en-US: Normalizes the enrollment situations hook response into a plain list.
-   */
-  function normalizeSituationsList(source: any): any[] {
-    const list = source?.data || source?.items || source || [];
-    return Array.isArray(list) ? list : [];
-  }
-
   /**
    * useEnrollmentSituationsList
    * pt-BR: Busca a lista de situações de matrícula usando paginação fixa
@@ -285,7 +275,7 @@ export default function ProposalsCreate() {
    */
   const { data: enrollmentSituationsData, isLoading: isLoadingEnrollmentSituations } =
     useEnrollmentSituationsList({ page: 1, per_page: 1 });
-  const enrollmentSituations = useMemo(() => normalizeSituationsList(enrollmentSituationsData), [enrollmentSituationsData]);
+  const enrollmentSituations = useMemo(() => enrollmentSituationsData?.data ?? [], [enrollmentSituationsData]);
 
   /**
    * selectedCourse
@@ -25,6 +25,8 @@ import { RichTextEditor } from '@/components/ui/RichTextEditor';
 import SelectGeraValor from '@/components/school/SelectGeraValor';
 import { currencyApplyMask, currencyRemoveMaskToNumber, currencyRemoveMaskToString } from '@/lib/masks/currency';
 import BudgetPreview from '@/components/school/BudgetPreview';
+import { FormDraftBanner } from '@/components/common/FormDraftBanner';
+import { useFormDraft } from '@/hooks/useFormDraft';
 
 /**
  * ProposalEditSchema
@@ -152,6 +154,13 @@ export default function ProposalsEdit() {
     queryFn: async () => coursesService.listCourses({ page: 1, per_page: 200, search: courseSearch || undefined } as any),
     staleTime: 5 * 60 * 1000,
   });
+  /**
+   * draft
+   * pt-BR: Preserva as alterações se a sessão expirar durante a edição.
+   * en-US: Keeps edits if the session expires while editing.
+   */
+  const draft = useFormDraft({ key: `proposal:${id}`, form, enabled: !!id });
+
   const selectedCourseId = form.watch('id_curso');
   const selectedClientId = form.watch('id_cliente');
   const { data: classes, isLoading: isLoadingClasses } = useQuery({
@@ -294,7 +303,7 @@ export default function ProposalsEdit() {
    */
   const { data: situationsData, isLoading: isLoadingSituations } = useEnrollmentSituationsList({ page: 1, per_page: 200 });
 
-  const clientsList = useMemo(() => (clientsData?.data || clientsData?.items || []), [clientsData]);
+  const clientsList = useMemo(() => (clientsData?.data ?? []), [clientsData]);
   const clientOptions = useComboboxOptions<any>(
     clientsList,
     'id',
@@ -311,7 +320,7 @@ export default function ProposalsEdit() {
    * pt-BR: Lista de consultores vinda da API (paginada).
    * en-US: Consultants list from API (paginated).
    */
-  const consultantsList = useMemo(() => (consultantsData?.data || consultantsData?.items || []), [consultantsData]);
+  const consultantsList = useMemo(() => (consultantsData?.data ?? []), [consultantsData]);
   /**
    * consultantOptions
    * pt-BR: Opções do combobox geradas a partir da lista de consultores.
@@ -359,7 +368,7 @@ export default function ProposalsEdit() {
       ...consultantOptions,
     ];
   }, [consultantOptions, selectedConsultantDetail, selectedConsultantId]);
-  const responsiblesList = useMemo(() => (responsiblesData?.data || responsiblesData?.items || []), [responsiblesData]);
+  const responsiblesList = useMemo(() => (responsiblesData?.data ?? []), [responsiblesData]);
   const responsibleOptions = useComboboxOptions<any>(
     responsiblesList,
     'id',
@@ -371,8 +380,8 @@ export default function ProposalsEdit() {
       return [email, phone].filter(Boolean).join(' • ');
     }
   );
-  const coursesList = useMemo(() => (courses?.data || courses?.items || []), [courses]);
-  const classesList = useMemo(() => (classes?.data || classes?.items || []), [classes]);
+  const coursesList = useMemo(() => (courses?.data ?? []), [courses]);
+  const classesList = useMemo(() => (classes?.data ?? []), [classes]);
   const courseOptions = useComboboxOptions<any>(
     coursesList,
     'id',
@@ -401,7 +410,7 @@ export default function ProposalsEdit() {
    * pt-BR: Opções do Combobox para tabelas de parcelamento do curso.
    * en-US: Combobox options for the course's installment tables.
    */
-  const installmentsList = useMemo(() => (installmentsByCourse?.data || installmentsByCourse?.items || []), [installmentsByCourse]);
+  const installmentsList = useMemo(() => (installmentsByCourse?.data ?? []), [installmentsByCourse]);
   const installmentOptions = useComboboxOptions<any>(
     installmentsList,
     'id',
@@ -999,6 +1008,9 @@ export default function ProposalsEdit() {
           </div>
         </CardHeader>
         <CardContent>
+          {draft.hasDraft && (
+            <FormDraftBanner savedAt={draft.draftSavedAt} onRestore={draft.restoreDraft} onDiscard={draft.discardDraft} />
+          )}
           <Form {...form}>
             <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
               <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
@@ -1070,15 +1082,11 @@ export default function ProposalsEdit() {
                           <SelectValue placeholder="Selecione a situação" />
                         </SelectTrigger>
                         <SelectContent>
-                          {Array.isArray((situationsData as any)?.data || (situationsData as any)?.items)
-                            ? (((situationsData as any).data || (situationsData as any).items).map((s: any) => (
-                                <SelectItem key={String(s.id)} value={String(s.id)}>
-                                  {String(s.name || s.nome || `Situação ${s.id}`)}
-                                </SelectItem>
-                              )))
-                            : (
-                              <></>
-                            )}
+                          {(situationsData?.data ?? []).map((s) => (
+                            <SelectItem key={String(s.id)} value={String(s.id)}>
+                              {String(s.name || s.nome || `Situação ${s.id}`)}
+                            </SelectItem>
+                          ))}
                         </SelectContent>
                       </Select>
                       <FormMessage />
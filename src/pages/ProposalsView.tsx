@@ -1,8 +1,10 @@
 import React from 'react';
 import { useParams, useNavigate, useLocation } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
+import { Can } from '@/components/auth/Can';
 import { ArrowLeft, Pencil } from 'lucide-react';
 import ProposalViewContent from '@/components/school/ProposalViewContent';
+import { RecordHistory } from '@/components/audit/RecordHistory';
 
 /**
  * ProposalsView
@@ -47,11 +49,14 @@ export default function ProposalsView() {
         <Button variant="ghost" size="sm" onClick={handleBack}>
           <ArrowLeft className="h-4 w-4 mr-2" /> Voltar ao funil
         </Button>
-        <Button variant="outline" size="sm" onClick={handleEdit}>
-          <Pencil className="h-4 w-4 mr-2" /> Editar Proposta
-        </Button>
+        <Can action="edit" menuPath="/admin/sales/proposals">
+          <Button variant="outline" size="sm" onClick={handleEdit}>
+            <Pencil className="h-4 w-4 mr-2" /> Editar Proposta
+          </Button>
+        </Can>
       </div>
       {id ? <ProposalViewContent id={String(id)} /> : null}
+      <RecordHistory subjectType="matriculas" subjectId={id} />
     </div>
   );
 }
\ No newline at end of file
@@ -2,6 +2,7 @@ import { useState, useCallback, useMemo } from "react";
 import { useNavigate } from "react-router-dom";
 import { useDebounce } from "@/hooks/useDebounce";
 import { Button } from "@/components/ui/button";
+import { Can } from "@/components/auth/Can";
 import {
   Card,
   CardContent,
@@ -202,10 +203,12 @@ export default function ServiceOrders() {
                 <RefreshCw className="h-4 w-4 mr-2" />
                 Tentar Novamente
               </Button>
-              <Button onClick={handleCreate}>
-                <Plus className="h-4 w-4 mr-2" />
-                Nova Ordem
-              </Button>
+              <Can action="create" menuPath="/admin/service-orders">
+                <Button onClick={handleCreate}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Nova Ordem
+                </Button>
+              </Can>
             </div>
           </CardContent>
         </Card>
@@ -237,20 +240,22 @@ export default function ServiceOrders() {
             <span className="hidden sm:inline">Atualizar</span>
             <span className="sm:hidden">Atualizar</span>
           </Button>
-          <Button
-            variant="outline"
-            onClick={() => navigate("/admin/service-orders/quick-create")}
-            className="bg-gradient-to-r from-blue-500 to-purple-600 text-white border-0 hover:from-blue-600 hover:to-purple-700 w-full sm:w-auto text-xs sm:text-sm"
-          >
-            <Zap className="h-3 w-3 sm:h-4 sm:w-4 mr-1 sm:mr-2" />
-            <span className="hidden sm:inline">Cadastro Rápido</span>
-            <span className="sm:hidden">Rápido</span>
-          </Button>
-          <Button onClick={handleCreate} className="w-full sm:w-auto text-xs sm:text-sm">
-            <Plus className="h-3 w-3 sm:h-4 sm:w-4 mr-1 sm:mr-2" />
-            <span className="hidden sm:inline">Nova Ordem</span>
-            <span className="sm:hidden">Nova</span>
-          </Button>
+          <Can action="create" menuPath="/admin/service-orders">
+            <Button
+              variant="outline"
+              onClick={() => navigate("/admin/service-orders/quick-create")}
+              className="bg-gradient-to-r from-blue-500 to-purple-600 text-white border-0 hover:from-blue-600 hover:to-purple-700 w-full sm:w-auto text-xs sm:text-sm"
+            >
+              <Zap className="h-3 w-3 sm:h-4 sm:w-4 mr-1 sm:mr-2" />
+              <span className="hidden sm:inline">Cadastro Rápido</span>
+              <span className="sm:hidden">Rápido</span>
+            </Button>
+            <Button onClick={handleCreate} className="w-full sm:w-auto text-xs sm:text-sm">
+              <Plus className="h-3 w-3 sm:h-4 sm:w-4 mr-1 sm:mr-2" />
+              <span className="hidden sm:inline">Nova Ordem</span>
+              <span className="sm:hidden">Nova</span>
+            </Button>
+          </Can>
         </div>
       </div>
 
@@ -348,10 +353,12 @@ export default function ServiceOrders() {
                   Comece criando sua primeira ordem de serviço para organizar e gerenciar os trabalhos.
                 </p>
               </div>
-              <Button onClick={handleCreate} size="lg">
-                <Plus className="h-4 w-4 mr-2" />
-                Criar Primeira Ordem
-              </Button>
+              <Can action="create" menuPath="/admin/service-orders">
+                <Button onClick={handleCreate} size="lg">
+                  <Plus className="h-4 w-4 mr-2" />
+                  Criar Primeira Ordem
+                </Button>
+              </Can>
             </div>
           </CardContent>
         </Card>
@@ -1,5 +1,6 @@
 import { useState } from "react";
 import { Button } from "@/components/ui/button";
+import { Can } from "@/components/auth/Can";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { toast } from "sonner";
@@ -177,10 +178,12 @@ export default function Services() {
             Gerencie todos os serviços oferecidos
           </p>
         </div>
-        <Button onClick={handleNewService}>
-          <Plus className="mr-2 h-4 w-4" />
-          Novo Serviço
-        </Button>
+        <Can action="create" menuPath="/admin/services">
+          <Button onClick={handleNewService}>
+            <Plus className="mr-2 h-4 w-4" />
+            Novo Serviço
+          </Button>
+        </Can>
       </div>
 
       {/* Stats Cards */}
@@ -1,6 +1,7 @@
 import { useNavigate, useParams } from "react-router-dom";
 import { useState } from "react";
 import { Button } from "@/components/ui/button";
+import { Can } from "@/components/auth/Can";
 import {
   Card,
   CardContent,
@@ -54,6 +55,7 @@ import {
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
 import ServiceOrderDetails from "@/components/serviceOrders/ServiceOrderDetails";
+import { RecordHistory } from "@/components/audit/RecordHistory";
 import {
   useServiceOrder,
   useDeleteServiceOrder
@@ -314,54 +316,58 @@ export default function ShowServiceOrder() {
             Download
           </Button>
           
-          <Button
-            size="sm"
-            onClick={handleEdit}
-          >
-            <Edit className="h-4 w-4 mr-2" />
-            Editar
-          </Button>
+          <Can action="edit" menuPath="/admin/service-orders">
+            <Button
+              size="sm"
+              onClick={handleEdit}
+            >
+              <Edit className="h-4 w-4 mr-2" />
+              Editar
+            </Button>
+          </Can>
           
-          <AlertDialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
-            <AlertDialogTrigger asChild>
-              <Button
-                variant="destructive"
-                size="sm"
-              >
-                <Trash2 className="h-4 w-4 mr-2" />
-                Excluir
-              </Button>
-            </AlertDialogTrigger>
-            <AlertDialogContent>
-              <AlertDialogHeader>
-                <AlertDialogTitle>Confirmar Exclusão</AlertDialogTitle>
-                <AlertDialogDescription>
-                  Tem certeza que deseja excluir esta ordem de serviço? 
-                  Esta ação não pode ser desfeita e todos os dados relacionados serão perdidos.
-                </AlertDialogDescription>
-              </AlertDialogHeader>
-              <AlertDialogFooter>
-                <AlertDialogCancel>Cancelar</AlertDialogCancel>
-                <AlertDialogAction
-                  onClick={handleDelete}
-                  className="bg-red-600 hover:bg-red-700"
-                  disabled={deleteServiceOrderMutation.isPending}
+          <Can action="delete" menuPath="/admin/service-orders">
+            <AlertDialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
+              <AlertDialogTrigger asChild>
+                <Button
+                  variant="destructive"
+                  size="sm"
                 >
-                  {deleteServiceOrderMutation.isPending ? (
-                    <>
-                      <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
-                      Excluindo...
-                    </>
-                  ) : (
-                    <>
-                      <Trash2 className="h-4 w-4 mr-2" />
-                      Excluir
-                    </>
-                  )}
-                </AlertDialogAction>
-              </AlertDialogFooter>
-            </AlertDialogContent>
-          </AlertDialog>
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Excluir
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Confirmar Exclusão</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    Tem certeza que deseja excluir esta ordem de serviço? 
+                    Esta ação não pode ser desfeita e todos os dados relacionados serão perdidos.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                  <AlertDialogAction
+                    onClick={handleDelete}
+                    className="bg-red-600 hover:bg-red-700"
+                    disabled={deleteServiceOrderMutation.isPending}
+                  >
+                    {deleteServiceOrderMutation.isPending ? (
+                      <>
+                        <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+                        Excluindo...
+                      </>
+                    ) : (
+                      <>
+                        <Trash2 className="h-4 w-4 mr-2" />
+                        Excluir
+                      </>
+                    )}
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </Can>
         </div>
       </div>
 
@@ -397,29 +403,33 @@ export default function ShowServiceOrder() {
         </CardHeader>
         <CardContent>
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-            <Button
-              variant="outline"
-              className="h-auto p-4 flex flex-col items-center gap-2"
-              onClick={handleEdit}
-            >
-              <Edit className="h-6 w-6" />
-              <div className="text-center">
-                <p className="font-medium">Editar Ordem</p>
-                <p className="text-sm text-gray-600">Modificar informações</p>
-              </div>
-            </Button>
+            <Can action="edit" menuPath="/admin/service-orders" mode="disable">
+              <Button
+                variant="outline"
+                className="h-auto p-4 flex flex-col items-center gap-2"
+                onClick={handleEdit}
+              >
+                <Edit className="h-6 w-6" />
+                <div className="text-center">
+                  <p className="font-medium">Editar Ordem</p>
+                  <p className="text-sm text-gray-600">Modificar informações</p>
+                </div>
+              </Button>
+            </Can>
             
-            <Button
-              variant="outline"
-              className="h-auto p-4 flex flex-col items-center gap-2"
-              onClick={handleDuplicate}
-            >
-              <Copy className="h-6 w-6" />
-              <div className="text-center">
-                <p className="font-medium">Duplicar Ordem</p>
-                <p className="text-sm text-gray-600">Criar ordem similar</p>
-              </div>
-            </Button>
+            <Can action="create" menuPath="/admin/service-orders" mode="disable">
+              <Button
+                variant="outline"
+                className="h-auto p-4 flex flex-col items-center gap-2"
+                onClick={handleDuplicate}
+              >
+                <Copy className="h-6 w-6" />
+                <div className="text-center">
+                  <p className="font-medium">Duplicar Ordem</p>
+                  <p className="text-sm text-gray-600">Criar ordem similar</p>
+                </div>
+              </Button>
+            </Can>
             
             <Button
               variant="outline"
@@ -436,20 +446,13 @@ export default function ShowServiceOrder() {
         </CardContent>
       </Card>
 
-      {/* Histórico (placeholder para futura implementação) */}
-      <Card className="no-print history-card">
-        <CardHeader>
-          <CardTitle>Histórico de Alterações</CardTitle>
-          <CardDescription>
-            Registro de todas as modificações realizadas nesta ordem
-          </CardDescription>
-        </CardHeader>
-        <CardContent>
-          <div className="text-center py-8 text-gray-500">
-            <p>Histórico de alterações será implementado em uma versão futura.</p>
-          </div>
-        </CardContent>
-      </Card>
+      {/* Histórico */}
+      <RecordHistory
+        subjectType="service-orders"
+        subjectId={id}
+        description="Registro de todas as modificações realizadas nesta ordem"
+        className="no-print history-card"
+      />
     </div>
   );
 }
@@ -2,6 +2,7 @@ import { useEffect, useMemo, useState, useCallback } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { Can } from '@/components/auth/Can';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { RichTextEditor } from '@/components/ui/RichTextEditor';
@@ -725,26 +726,32 @@ export default function SiteComponentsForm() {
                           </div>
                         )}
                         {/* Dropzone simples com preview local e suporte a múltiplos arquivos */}
-                        <div
-                          className={`border-2 border-dashed rounded-lg p-6 text-center cursor-pointer transition-colors ${isUploading ? 'opacity-60 cursor-wait' : 'hover:border-gray-400'}`}
-                          onDragOver={(e) => { e.preventDefault(); }}
-                          onDrop={(e) => { e.preventDefault(); handleFilesDrop(e.dataTransfer.files); }}
-                          onClick={() => {
-                            const input = document.getElementById('gallery-file-input') as HTMLInputElement | null;
-                            input?.click();
-                          }}
+                        <Can
+                          action="upload"
+                          menuPath="/admin/site/conteudo-site"
+                          fallback={<p className="text-sm text-muted-foreground">Você não tem permissão para enviar arquivos.</p>}
                         >
-                          <p className="text-sm text-muted-foreground">Clique ou arraste arquivos aqui</p>
-                          <p className="text-xs text-muted-foreground">Apenas imagens. Suporta múltiplos envios.</p>
-                          <input
-                            id="gallery-file-input"
-                            type="file"
-                            accept="image/*"
-                            multiple
-                            className="hidden"
-                            onChange={(e) => e.target.files && handleFilesDrop(e.target.files)}
-                          />
-                        </div>
+                          <div
+                            className={`border-2 border-dashed rounded-lg p-6 text-center cursor-pointer transition-colors ${isUploading ? 'opacity-60 cursor-wait' : 'hover:border-gray-400'}`}
+                            onDragOver={(e) => { e.preventDefault(); }}
+                            onDrop={(e) => { e.preventDefault(); handleFilesDrop(e.dataTransfer.files); }}
+                            onClick={() => {
+                              const input = document.getElementById('gallery-file-input') as HTMLInputElement | null;
+                              input?.click();
+                            }}
+                          >
+                            <p className="text-sm text-muted-foreground">Clique ou arraste arquivos aqui</p>
+                            <p className="text-xs text-muted-foreground">Apenas imagens. Suporta múltiplos envios.</p>
+                            <input
+                              id="gallery-file-input"
+                              type="file"
+                              accept="image/*"
+                              multiple
+                              className="hidden"
+                              onChange={(e) => e.target.files && handleFilesDrop(e.target.files)}
+                            />
+                          </div>
+                        </Can>
 
                         {/* Previews locais em envio */}
                         {localPreviews.length > 0 && (
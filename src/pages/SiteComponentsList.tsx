@@ -3,6 +3,7 @@ import { useNavigate, useLocation } from 'react-router-dom';
 import { Card } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
+import { Can } from '@/components/auth/Can';
 import { Table, TableHeader, TableRow, TableHead, TableCell, TableBody } from '@/components/ui/table';
 import { Select, SelectTrigger, SelectValue, SelectContent, SelectItem } from '@/components/ui/select';
 import { Combobox, useComboboxOptions } from '@/components/ui/combobox';
@@ -118,9 +119,11 @@ export default function SiteComponentsList() {
           <h1 className="text-3xl font-bold tracking-tight">Componentes (CMS)</h1>
           <p className="text-muted-foreground">Gerencie componentes de conteúdo</p>
         </div>
-        <Button onClick={goToCreate}>
-          <Plus className="h-4 w-4 mr-2" /> Novo cadastro
-        </Button>
+        <Can action="create" menuPath="/admin/site/conteudo-site">
+          <Button onClick={goToCreate}>
+            <Plus className="h-4 w-4 mr-2" /> Novo cadastro
+          </Button>
+        </Can>
       </div>
 
       {/* Toolbar de filtros */}
@@ -223,8 +226,12 @@ export default function SiteComponentsList() {
                     <DropdownMenuContent align="end">
                       <DropdownMenuLabel>Ações</DropdownMenuLabel>
                       <DropdownMenuSeparator />
-                      <DropdownMenuItem onClick={() => goToEdit(String(item.id))}>Editar</DropdownMenuItem>
-                      <DropdownMenuItem className="text-red-600" onClick={() => deleteMutation.mutate(String(item.id))}>Excluir</DropdownMenuItem>
+                      <Can action="edit" menuPath="/admin/site/conteudo-site">
+                        <DropdownMenuItem onClick={() => goToEdit(String(item.id))}>Editar</DropdownMenuItem>
+                      </Can>
+                      <Can action="delete" menuPath="/admin/site/conteudo-site">
+                        <DropdownMenuItem className="text-red-600" onClick={() => deleteMutation.mutate(String(item.id))}>Excluir</DropdownMenuItem>
+                      </Can>
                     </DropdownMenuContent>
                   </DropdownMenu>
                 </TableCell>
@@ -11,6 +11,7 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { toast } from "sonner";
+import { isApiError } from "@/services/ApiError";
 import { ArrowLeft, Save, Loader2 } from "lucide-react";
 import ServiceOrderForm from "@/components/serviceOrders/ServiceOrderForm";
 import { serviceOrderSchema, type ServiceOrderFormData } from "@/components/serviceOrders/serviceOrderSchema";
@@ -160,6 +161,11 @@ export default function UpdateServiceOrder() {
       // navigate(`/service-orders/show/${id}`);
       navigate(`/service-orders`);
     } catch (error) {
+      // Sem conexão: a alteração ficou na fila offline e será enviada depois
+      if (isApiError(error) && error.isQueuedOffline) {
+        navigate(`/service-orders`);
+        return;
+      }
       console.error("Erro ao atualizar ordem de serviço:", error);
       toast.error("Erro ao atualizar ordem de serviço. Verifique os dados e tente novamente.");
     }
@@ -318,6 +324,7 @@ export default function UpdateServiceOrder() {
         <CardContent>
           <ServiceOrderForm
             form={form}
+            draftKey={`service-order:${id}`}
             onSubmit={handleSubmit}
             isSubmitting={updateServiceOrderMutation.isPending}
             clients={clients}
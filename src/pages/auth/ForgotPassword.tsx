@@ -17,6 +17,7 @@ import {
 } from '@/components/ui/form';
 import { authService } from '@/services/authService';
 import { toast } from '@/hooks/use-toast';
+import { useSecurityPolicy } from '@/hooks/security';
 
 const forgotPasswordSchema = z.object({
   email: z.string().email('Email inválido'),
@@ -34,6 +35,7 @@ export default function ForgotPassword() {
    */
   const [isLoading, setIsLoading] = useState(false);
   const [emailSent, setEmailSent] = useState(false);
+  const { data: securityPolicy } = useSecurityPolicy();
 
   const form = useForm<ForgotPasswordFormData>({
     resolver: zodResolver(forgotPasswordSchema),
@@ -142,6 +144,15 @@ export default function ForgotPassword() {
         </form>
       </Form>
 
+      {securityPolicy?.login.passwordless_enabled && (
+        <p className="mt-4 text-center text-sm text-muted-foreground">
+          Cliente da loja?{' '}
+          <Link to="/passwordless-login" className="text-blue-700 hover:underline">
+            Entre sem senha com um código por e-mail
+          </Link>
+        </p>
+      )}
+
       <div className="text-center text-sm">
         <Link to="/login" className="text-blue-700 hover:underline">
           Voltar ao Login
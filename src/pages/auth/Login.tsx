@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { Link } from 'react-router-dom';
+import { Link, useLocation } from 'react-router-dom';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
@@ -10,6 +10,10 @@ import { useRedirect } from '@/hooks/useRedirect';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Checkbox } from '@/components/ui/checkbox';
+import { TwoFactorChallengeForm } from '@/components/auth/TwoFactorChallengeForm';
+import { LoginThrottleNotice } from '@/components/auth/LoginThrottleNotice';
+import { useRetryCountdown, useSecurityPolicy } from '@/hooks/security';
+import { isLoginLocked } from '@/services/authService';
 import {
   Form,
   FormControl,
@@ -37,8 +41,10 @@ type LoginFormData = z.infer<typeof loginSchema>;
 export default function Login() {
   const [showPassword, setShowPassword] = useState(false);
   const [loginSuccess, setLoginSuccess] = useState(false);
-  const { login, isLoading, user, isAuthenticated } = useAuth();
+  const { login, isLoading, user, isAuthenticated, twoFactorChallenge, loginThrottle } = useAuth();
   const { redirectAfterAuth } = useRedirect();
+  const location = useLocation();
+  const { data: securityPolicy } = useSecurityPolicy();
 
   // Efeito para redirecionar após login bem-sucedido
   useEffect(() => {
@@ -56,13 +62,25 @@ export default function Login() {
       remember: false,
     },
   });
+  // Proteção do login vale para o e-mail que falhou / Login protection applies to the email that failed
+  const [captchaToken, setCaptchaToken] = useState<string | null>(null);
+  const [captchaKey, setCaptchaKey] = useState(0);
+  const email = form.watch('email');
+  const throttle = loginThrottle && loginThrottle.email.toLowerCase() === email.trim().toLowerCase() ? loginThrottle : null;
+  const secondsLeft = useRetryCountdown(throttle?.retry_at);
+  const isBlocked = isLoginLocked(throttle) || secondsLeft > 0 || (!!throttle?.captcha_required && !captchaToken);
+
   // console.log('redirectAfterAuth', redirectAfterAuth);
   const onSubmit = async (data: LoginFormData) => {
     const success = await login({
       email: data.email,
       password: data.password,
       remember: data.remember,
+      captcha_token: captchaToken ?? undefined,
     });
+    // O token da verificação humana vale para uma tentativa só
+    setCaptchaToken(null);
+    setCaptchaKey((key) => key + 1);
     if (success) {
       setLoginSuccess(true);
     }
@@ -115,27 +133,30 @@ export default function Login() {
             </div>
 
             <p className="text-blue-600 text-sm mb-6 text-center">
-              Entre em sua conta para continuar
+              {twoFactorChallenge ? 'Verificação em duas etapas' : 'Entre em sua conta para continuar'}
             </p>
 
-            <Form {...form}>
-              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-                <FormField
-                  control={form.control}
-                  name="email"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel className="text-blue-700 font-medium">Email</FormLabel>
-                      <FormControl>
-                        <Input
-                          type="email"
-                          placeholder="seu@email.com"
-                          className="border-blue-200 focus:border-blue-500 focus:ring-blue-500"
-                          {...field}
-                        />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
+            {twoFactorChallenge ? (
+              <TwoFactorChallengeForm onSuccess={() => setLoginSuccess(true)} />
+            ) : (
+              <Form {...form}>
+                <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                  <FormField
+                    control={form.control}
+                    name="email"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="text-blue-700 font-medium">Email</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="email"
+                            placeholder="seu@email.com"
+                            className="border-blue-200 focus:border-blue-500 focus:ring-blue-500"
+                            {...field}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
                   )}
                 />
 
@@ -199,15 +220,32 @@ export default function Login() {
                   </Link>
                 </div>
 
+                <LoginThrottleNotice
+                  key={captchaKey}
+                  throttle={throttle}
+                  secondsLeft={secondsLeft}
+                  onCaptchaChange={setCaptchaToken}
+                />
+
                 <Button 
                   type="submit" 
                   className="w-full bg-blue-700 hover:bg-blue-800 text-white font-medium" 
-                  disabled={isLoading}
+                  disabled={isLoading || isBlocked}
                 >
                   {isLoading ? 'Entrando...' : 'Entrar'}
                 </Button>
+
+                {/* Login sem senha mantém o redirect (ex.: produto da loja) / Passwordless login keeps the redirect (e.g. store product) */}
+                {securityPolicy?.login.passwordless_enabled && (
+                  <Button variant="outline" className="w-full border-blue-300 text-blue-700 hover:bg-blue-50" asChild>
+                    <Link to={{ pathname: '/passwordless-login', search: location.search }} state={location.state}>
+                      Entrar sem senha (código por e-mail)
+                    </Link>
+                  </Button>
+                )}
               </form>
             </Form>
+            )}
 
             <div className="text-center text-sm mt-4">
               <span className="text-blue-100">Não tem uma conta? </span>
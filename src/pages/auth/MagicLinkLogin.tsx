@@ -0,0 +1,68 @@
+import { useEffect, useRef, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { Loader2 } from 'lucide-react';
+
+import { AuthLayout } from '@/components/auth/AuthLayout';
+import { TwoFactorChallengeForm } from '@/components/auth/TwoFactorChallengeForm';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/contexts/AuthContext';
+
+/**
+ * MagicLinkLogin
+ * pt-BR: Destino do link de acesso enviado no login sem senha (`/magic-link?token=...&redirect=...`).
+ *        Troca o token por uma sessão uma única vez; o AuthRedirect da rota segue para o `redirect`.
+ * en-US: Target of the access link sent by the passwordless login (`/magic-link?token=...&redirect=...`).
+ *        Exchanges the token for a session once; the route's AuthRedirect follows the `redirect`.
+ */
+export default function MagicLinkLogin() {
+  const [searchParams] = useSearchParams();
+  const { verifyPasswordless, twoFactorChallenge } = useAuth();
+  const [failed, setFailed] = useState(false);
+  const token = searchParams.get('token');
+  // O token é de uso único: evita a segunda chamada do StrictMode / Single-use token: avoids StrictMode's second call
+  const attempted = useRef(false);
+
+  useEffect(() => {
+    if (attempted.current) return;
+    attempted.current = true;
+    if (!token) {
+      setFailed(true);
+      return;
+    }
+    verifyPasswordless({ token }).then((ok) => {
+      if (!ok) setFailed(true);
+    });
+  }, [token, verifyPasswordless]);
+
+  const redirect = searchParams.get('redirect');
+  const retryUrl = `/passwordless-login${redirect ? `?redirect=${encodeURIComponent(redirect)}` : ''}`;
+
+  if (twoFactorChallenge) {
+    return (
+      <AuthLayout title="Verificação em duas etapas" subtitle="Confirme o acesso com o app autenticador">
+        <TwoFactorChallengeForm />
+      </AuthLayout>
+    );
+  }
+
+  if (failed) {
+    return (
+      <AuthLayout title="Link inválido ou expirado" subtitle="Os links de acesso valem para um único login">
+        <div className="text-center space-y-4">
+          <p className="text-muted-foreground">Peça um novo código de acesso para entrar.</p>
+          <Button asChild className="w-full bg-blue-700 hover:bg-blue-800">
+            <Link to={retryUrl}>Receber novo código</Link>
+          </Button>
+        </div>
+      </AuthLayout>
+    );
+  }
+
+  return (
+    <AuthLayout title="Entrando..." subtitle="Validando seu link de acesso">
+      <div className="flex justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-blue-700" />
+      </div>
+    </AuthLayout>
+  );
+}
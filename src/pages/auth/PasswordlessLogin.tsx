@@ -0,0 +1,211 @@
+import { useState } from 'react';
+import { Link, useLocation } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Loader2, MailCheck } from 'lucide-react';
+
+import { AuthLayout } from '@/components/auth/AuthLayout';
+import { OTP_CODE_LENGTH, OtpCodeInput } from '@/components/auth/OtpCodeInput';
+import { TwoFactorChallengeForm } from '@/components/auth/TwoFactorChallengeForm';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { useAuth } from '@/contexts/AuthContext';
+import { useRedirect } from '@/hooks/useRedirect';
+import { useRetryCountdown, useSecurityPolicy } from '@/hooks/security';
+import { toast } from '@/hooks/use-toast';
+import { isValidCPF } from '@/lib/documents';
+import { authService, loginThrottleFromError } from '@/services/authService';
+import type { PasswordlessChallenge } from '@/types/auth';
+
+const identifierSchema = z.object({
+  identifier: z.string().trim().refine(
+    (value) => z.string().email().safeParse(value).success || isValidCPF(value),
+    'Informe um e-mail ou CPF válido'
+  ),
+});
+
+type IdentifierFormData = z.infer<typeof identifierSchema>;
+
+/**
+ * PasswordlessLogin
+ * pt-BR: Login sem senha dos clientes da loja: e-mail ou CPF, depois o código de 6 dígitos
+ *        enviado por e-mail (o link do mesmo e-mail abre `/magic-link`). Preserva o `redirect`
+ *        da tela de login, então o cliente volta ao produto que queria resgatar.
+ * en-US: Store clients' passwordless login: email or CPF, then the 6-digit code sent by email
+ *        (the link in the same email opens `/magic-link`). Keeps the login screen's `redirect`,
+ *        so the client returns to the product they wanted to redeem.
+ */
+export default function PasswordlessLogin() {
+  const location = useLocation();
+  const { getRedirectUrl } = useRedirect();
+  const { verifyPasswordless, twoFactorChallenge } = useAuth();
+  const { data: policy, isLoading: isLoadingPolicy } = useSecurityPolicy();
+  const [challenge, setChallenge] = useState<PasswordlessChallenge | null>(null);
+  const [resendAt, setResendAt] = useState<number>();
+  const [code, setCode] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [isVerifying, setIsVerifying] = useState(false);
+  const resendSeconds = useRetryCountdown(resendAt);
+
+  const form = useForm<IdentifierFormData>({
+    resolver: zodResolver(identifierSchema),
+    defaultValues: { identifier: '' },
+  });
+
+  const requestCode = async ({ identifier }: IdentifierFormData) => {
+    try {
+      setIsSending(true);
+      const redirect = getRedirectUrl();
+      const response = await authService.requestPasswordlessLogin({
+        identifier: identifier.trim(),
+        redirect: redirect !== '/' ? redirect : undefined,
+      });
+      setChallenge(response);
+      setCode('');
+      setResendAt(response.resend_after ? Date.now() + response.resend_after * 1000 : undefined);
+    } catch (error) {
+      const retryAt = loginThrottleFromError(error, identifier)?.retry_at;
+      if (retryAt) setResendAt(retryAt);
+      toast({
+        title: "Não foi possível enviar o código",
+        description: error instanceof Error ? error.message : "Erro desconhecido",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const submitCode = async (value: string) => {
+    if (!challenge || isVerifying) return;
+    setIsVerifying(true);
+    const ok = await verifyPasswordless({ challenge_token: challenge.challenge_token, code: value });
+    setIsVerifying(false);
+    // Com sucesso, o AuthRedirect da rota leva ao destino / On success, the route's AuthRedirect navigates away
+    if (!ok) setCode('');
+  };
+
+  if (twoFactorChallenge) {
+    return (
+      <AuthLayout title="Verificação em duas etapas" subtitle="Confirme o acesso com o app autenticador">
+        <TwoFactorChallengeForm />
+      </AuthLayout>
+    );
+  }
+
+  if (!isLoadingPolicy && !policy?.login.passwordless_enabled) {
+    return (
+      <AuthLayout title="Entrar sem senha" subtitle="Recurso indisponível">
+        <div className="text-center space-y-4">
+          <p className="text-muted-foreground">
+            O login sem senha não está habilitado. Entre com seu e-mail e senha.
+          </p>
+          <Button asChild className="w-full bg-blue-700 hover:bg-blue-800">
+            <Link to={{ pathname: '/login', search: location.search }} state={location.state}>Voltar ao Login</Link>
+          </Button>
+        </div>
+      </AuthLayout>
+    );
+  }
+
+  return (
+    <AuthLayout
+      title="Entrar sem senha"
+      subtitle={challenge ? 'Digite o código recebido por e-mail' : 'Receba um código de acesso por e-mail'}
+    >
+      {challenge ? (
+        <form
+          onSubmit={(event) => { event.preventDefault(); if (code.length === OTP_CODE_LENGTH) submitCode(code); }}
+          className="space-y-4"
+        >
+          <div className="space-y-2 text-center">
+            <MailCheck className="mx-auto h-8 w-8 text-blue-700" />
+            <p className="text-sm text-muted-foreground">
+              {challenge.message || 'Se o cadastro existir, enviamos um código de acesso.'}{' '}
+              Confira {challenge.destination ? <strong>{challenge.destination}</strong> : 'o e-mail cadastrado'}:
+              digite o código ou abra o link da mensagem.
+            </p>
+          </div>
+
+          <OtpCodeInput
+            value={code}
+            onChange={setCode}
+            onComplete={submitCode}
+            disabled={isVerifying}
+            autoFocus
+          />
+
+          <Button
+            type="submit"
+            className="w-full bg-blue-700 hover:bg-blue-800"
+            disabled={isVerifying || code.length !== OTP_CODE_LENGTH}
+          >
+            {isVerifying && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Entrar
+          </Button>
+
+          <div className="flex items-center justify-between text-sm">
+            <button
+              type="button"
+              className="text-blue-700 underline disabled:no-underline disabled:text-muted-foreground"
+              onClick={() => requestCode(form.getValues())}
+              disabled={isSending || resendSeconds > 0}
+            >
+              {resendSeconds > 0 ? `Reenviar código em ${resendSeconds}s` : 'Reenviar código'}
+            </button>
+            <button
+              type="button"
+              className="text-muted-foreground underline"
+              onClick={() => { setChallenge(null); setCode(''); }}
+            >
+              Usar outro e-mail ou CPF
+            </button>
+          </div>
+        </form>
+      ) : (
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(requestCode)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="identifier"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>E-mail ou CPF</FormLabel>
+                  <FormControl>
+                    <Input placeholder="seu@email.com ou 000.000.000-00" autoComplete="username" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <Button
+              type="submit"
+              className="w-full bg-blue-700 hover:bg-blue-800"
+              disabled={isSending || isLoadingPolicy || resendSeconds > 0}
+            >
+              {isSending
+                ? 'Enviando...'
+                : resendSeconds > 0 ? `Aguarde ${resendSeconds}s` : 'Enviar código de acesso'}
+            </Button>
+          </form>
+        </Form>
+      )}
+
+      <div className="mt-4 text-center text-sm">
+        <Link to={{ pathname: '/login', search: location.search }} state={location.state} className="text-blue-700 hover:underline">
+          Entrar com senha
+        </Link>
+      </div>
+    </AuthLayout>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
@@ -8,6 +8,10 @@ import { Eye, EyeOff } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
 import { useRedirect } from '@/hooks/useRedirect';
 import { AuthLayout } from '@/components/auth/AuthLayout';
+import { PasswordStrengthMeter } from '@/components/auth/PasswordStrengthMeter';
+import { usePasswordPolicy } from '@/hooks/security';
+import { passwordSchema } from '@/lib/passwordPolicy';
+import type { PasswordPolicy } from '@/types/security';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import {
@@ -19,17 +23,17 @@ import {
   FormMessage,
 } from '@/components/ui/form';
 
-const registerSchema = z.object({
+const buildRegisterSchema = (policy: PasswordPolicy) => z.object({
   name: z.string().min(2, 'Nome deve ter pelo menos 2 caracteres'),
   email: z.string().email('Email inválido'),
-  password: z.string().min(6, 'Senha deve ter pelo menos 6 caracteres'),
+  password: passwordSchema(policy),
   password_confirmation: z.string(),
 }).refine((data) => data.password === data.password_confirmation, {
   message: "Senhas não coincidem",
   path: ["password_confirmation"],
 });
 
-type RegisterFormData = z.infer<typeof registerSchema>;
+type RegisterFormData = z.infer<ReturnType<typeof buildRegisterSchema>>;
 
 export default function Register() {
   const [showPassword, setShowPassword] = useState(false);
@@ -46,6 +50,9 @@ export default function Register() {
     }
   }, [registerSuccess, isAuthenticated, user, redirectAfterAuth]);
 
+  const passwordPolicy = usePasswordPolicy();
+  const registerSchema = useMemo(() => buildRegisterSchema(passwordPolicy), [passwordPolicy]);
+
   const form = useForm<RegisterFormData>({
     resolver: zodResolver(registerSchema),
     defaultValues: {
@@ -139,6 +146,7 @@ export default function Register() {
                   </div>
                 </FormControl>
                 <FormMessage />
+                <PasswordStrengthMeter password={field.value} policy={passwordPolicy} />
               </FormItem>
             )}
           />
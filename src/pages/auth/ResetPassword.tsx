@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import { Link, useNavigate, useSearchParams, useParams } from 'react-router-dom';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
@@ -16,18 +16,23 @@ import {
   FormLabel,
   FormMessage,
 } from '@/components/ui/form';
+import { PasswordStrengthMeter } from '@/components/auth/PasswordStrengthMeter';
 import { authService } from '@/services/authService';
+import { isApiError } from '@/services/ApiError';
 import { toast } from '@/hooks/use-toast';
+import { usePasswordPolicy } from '@/hooks/security';
+import { passwordSchema } from '@/lib/passwordPolicy';
+import type { PasswordPolicy } from '@/types/security';
 
-const resetPasswordSchema = z.object({
-  password: z.string().min(6, 'Senha deve ter pelo menos 6 caracteres'),
+const buildResetPasswordSchema = (policy: PasswordPolicy) => z.object({
+  password: passwordSchema(policy),
   password_confirmation: z.string(),
 }).refine((data) => data.password === data.password_confirmation, {
   message: "Senhas não coincidem",
   path: ["password_confirmation"],
 });
 
-type ResetPasswordFormData = z.infer<typeof resetPasswordSchema>;
+type ResetPasswordFormData = z.infer<ReturnType<typeof buildResetPasswordSchema>>;
 
 export default function ResetPassword() {
   /**
@@ -48,6 +53,9 @@ export default function ResetPassword() {
   // Suporta token por query (?token=) e por segmento de rota (/reset-password/:token)
   const token = searchParams.get('token') || tokenFromParams || '';
 
+  const passwordPolicy = usePasswordPolicy();
+  const resetPasswordSchema = useMemo(() => buildResetPasswordSchema(passwordPolicy), [passwordPolicy]);
+
   const form = useForm<ResetPasswordFormData>({
     resolver: zodResolver(resetPasswordSchema),
     defaultValues: {
@@ -82,6 +90,12 @@ export default function ResetPassword() {
       
       navigate('/login');
     } catch (error) {
+      // Recusa da política no servidor (ex.: senha já usada) aparece no próprio campo
+      const passwordError = isApiError(error) ? (error.body as { errors?: Record<string, string[]> } | null)?.errors?.password?.[0] : undefined;
+      if (passwordError) {
+        form.setError('password', { message: passwordError });
+        return;
+      }
       toast({
         title: "Erro",
         description: error instanceof Error ? error.message : "Erro desconhecido",
@@ -165,6 +179,7 @@ export default function ResetPassword() {
                   </div>
                 </FormControl>
                 <FormMessage />
+                <PasswordStrengthMeter password={field.value} policy={passwordPolicy} />
               </FormItem>
             )}
           />
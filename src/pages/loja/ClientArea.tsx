@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate, useSearchParams } from 'react-router-dom';
-import { ArrowLeft, User, History, Settings, Gift, Mail, Phone, MapPin, Calendar, Lock, Eye, EyeOff } from 'lucide-react';
+import { ArrowLeft, User, History, Settings, Gift, Mail, Phone, MapPin, Calendar, Lock, Eye, EyeOff, MonitorSmartphone } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
@@ -16,6 +16,10 @@ import { cepApplyMask, cepRemoveMask } from '@/lib/masks/cep-apply-mask';
 import { cpfApplyMask } from '@/lib/masks/cpf-apply-mask';
 import { phoneApplyMask, phoneRemoveMask } from '@/lib/masks/phone-apply-mask';
 import MyRedemptionsContent from '@/components/loja/MyRedemptionsContent';
+import { ActiveSessionsList } from '@/components/auth/ActiveSessionsList';
+import { PasswordStrengthMeter } from '@/components/auth/PasswordStrengthMeter';
+import { usePasswordPolicy } from '@/hooks/security';
+import { passwordPolicyErrors } from '@/lib/passwordPolicy';
 import { PointsStoreProps } from '@/types/products';
 import { formatPoints } from '@/lib/utils';
 
@@ -25,6 +29,7 @@ import { formatPoints } from '@/lib/utils';
 const ClientArea: React.FC<PointsStoreProps> = ({ linkLoja }) => {
   const navigate = useNavigate();
   const { user, updateProfile, changePassword } = useAuth();
+  const passwordPolicy = usePasswordPolicy();
   
   // Estados para controle das abas e edição
   const [searchParams] = useSearchParams();
@@ -157,10 +162,11 @@ const ClientArea: React.FC<PointsStoreProps> = ({ linkLoja }) => {
       return;
     }
 
-    if (passwordData.newPassword.length < 6) {
+    const policyErrors = passwordPolicyErrors(passwordData.newPassword, passwordPolicy);
+    if (policyErrors.length > 0) {
       toast({
-        title: 'Erro',
-        description: 'A nova senha deve ter pelo menos 6 caracteres.',
+        title: 'Senha fora da política',
+        description: `A nova senha precisa ter: ${policyErrors.join(', ').toLowerCase()}.`,
         variant: 'destructive'
       });
       return;
@@ -707,6 +713,7 @@ const ClientArea: React.FC<PointsStoreProps> = ({ linkLoja }) => {
                       )}
                     </Button>
                   </div>
+                  <PasswordStrengthMeter password={passwordData.newPassword} policy={passwordPolicy} />
                 </div>
                 
                 <div className="space-y-2">
@@ -745,6 +752,18 @@ const ClientArea: React.FC<PointsStoreProps> = ({ linkLoja }) => {
                 </Button>
               </CardContent>
             </Card>
+
+            <Card className="bg-white rounded-2xl shadow-xl border-2 border-purple-100">
+              <CardHeader className="bg-gradient-to-r from-orange-50 to-red-50 border-b-2 border-purple-100 rounded-t-2xl">
+                <CardTitle className="flex items-center space-x-2 text-purple-800">
+                  <MonitorSmartphone className="w-5 h-5 text-orange-600" />
+                  <span>Sessões Ativas</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="p-6">
+                <ActiveSessionsList />
+              </CardContent>
+            </Card>
           </TabsContent>
         </Tabs>
       </div>
@@ -17,6 +17,7 @@ import { toast } from '@/hooks/use-toast';
 import { useStoreProductsList } from '@/hooks/products';
 import { useCategoriesList } from '@/hooks/categories';
 import { useAuth } from '@/contexts/AuthContext';
+import { useTheme } from '@/contexts/ThemeContext';
 import { Product, PointsStoreProps } from '@/types/products';
 import { Category } from '@/types/categories';
 import { formatPoints } from '@/lib/utils';
@@ -48,8 +49,9 @@ interface Product{
 
 
 /**
- * Componente da loja virtual de clube de pontos Yellow
+ * Componente da loja virtual de clube de pontos
  * Interface pública para resgate de produtos com pontos
+ * Logo, nome e cores da loja vêm do branding do tenant (ThemeContext)
  */
 const PointsStore: React.FC<PointsStoreProps> = ({ linkLoja }) => {
   const navigate = useNavigate();
@@ -73,6 +75,8 @@ const PointsStore: React.FC<PointsStoreProps> = ({ linkLoja }) => {
 
   // Obter dados do usuário autenticado
   const { user: authUser, logout, refreshUser } = useAuth();
+  const { branding } = useTheme();
+  const storeLogoUrl = branding.storeLogoUrl || branding.logoUrl;
   
   // Mapear dados do usuário autenticado para a interface da loja
   // console.log('authUser:', authUser);
@@ -172,16 +176,16 @@ const PointsStore: React.FC<PointsStoreProps> = ({ linkLoja }) => {
   return (
     <div className="min-h-screen bg-gradient-to-br from-yellow-50 via-orange-50 to-pink-50">
       {/* Header */}
-      <header className="bg-gradient-to-r from-green-500 to-teal-600 shadow-lg sticky top-0 z-50">
+      <header className="bg-gradient-to-r from-primary to-secondary shadow-lg sticky top-0 z-50">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
           <div className="flex justify-between items-center h-16">
             {/* Logo */}
             <div className="flex items-center space-x-3">
               <img 
-                src="/antena-logo-white.png" 
-                alt="antena+ logo" 
+                src={storeLogoUrl} 
+                alt={branding.storeName} 
                 className="h-16"
-              /> <span className="text-lg font-bold text-white">Oi TV</span>
+              /> <span className="text-lg font-bold text-primary-foreground">{branding.storeName}</span>
             </div>
 
             {/* Desktop Navigation */}
@@ -194,10 +198,10 @@ const PointsStore: React.FC<PointsStoreProps> = ({ linkLoja }) => {
 
             {/* User Info & Cart */}
             <div className="flex items-center space-x-4">
-              <div className="hidden sm:flex items-center space-x-2 bg-yellow-400 px-4 py-2 rounded-lg shadow-md">
-                <Gift className="w-4 h-4 text-purple-800" />
-                <span className="text-purple-800 text-sm font-medium">Seus pontos: </span>
-                <span className="text-purple-900 font-bold">{formatPoints(user.points)}</span>
+              <div className="hidden sm:flex items-center space-x-2 bg-accent px-4 py-2 rounded-lg shadow-md">
+                <Gift className="w-4 h-4 text-accent-foreground" />
+                <span className="text-accent-foreground text-sm font-medium">Seus pontos: </span>
+                <span className="text-accent-foreground font-bold">{formatPoints(user.points)}</span>
               </div>
               
               <div className="hidden sm:flex items-center space-x-2">
@@ -325,13 +329,13 @@ const PointsStore: React.FC<PointsStoreProps> = ({ linkLoja }) => {
       </header>
 
       {/* Hero Section */}
-      <section id="home" className="py-10 px-4 sm:px-6 lg:px-8 bg-gradient-to-r from-purple-600 via-pink-500 to-orange-400">
+      <section id="home" className="py-10 px-4 sm:px-6 lg:px-8 bg-gradient-to-r from-primary via-secondary to-accent">
         <div className="max-w-7xl mx-auto text-center">
           <h1 className="text-4xl font-bold text-white mb-4 drop-shadow-lg">
             Troque seus pontos por prêmios!
           </h1>
           <p className="text-xl text-yellow-200 mb-2 drop-shadow">
-            Com o Antena+, cada venda realizada, cada cliente mantido na base ou indicação de novo credenciado geram pontos, que podem ser trocados por PIX, prêmios exclusivos, kits técnico, produtos Antena+ Oi TV e muito mais!
+            Com o Antena+, cada venda realizada, cada cliente mantido na base ou indicação de novo credenciado geram pontos, que podem ser trocados por PIX, prêmios exclusivos, kits técnico, produtos {branding.storeName} e muito mais!
           </p>
           {/* <p className="text-lg text-white mb-8 drop-shadow">
             Você tem <span className="font-bold text-yellow-300 bg-purple-800 px-3 py-1 rounded-full">{user.points.toLocaleString()}</span> pontos disponíveis
@@ -473,7 +477,7 @@ const PointsStore: React.FC<PointsStoreProps> = ({ linkLoja }) => {
       </section>
 
       {/* Footer */}
-      <footer className="bg-gradient-to-r from-purple-800 via-purple-900 to-teal-800 text-white py-12 px-4">
+      <footer className="bg-primary text-primary-foreground py-12 px-4">
         <div className="max-w-7xl mx-auto">
           <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
             <div>
@@ -484,7 +488,7 @@ const PointsStore: React.FC<PointsStoreProps> = ({ linkLoja }) => {
                     className="h-16"
                   /> */}
                   <span className="text-2xl font-bold">
-                  Antena+ Oi TV
+                  {branding.storeName}
                   </span>
               </div>
               <p className="text-purple-200">
@@ -539,7 +543,7 @@ const PointsStore: React.FC<PointsStoreProps> = ({ linkLoja }) => {
           </div>
           
           <div className="border-t border-purple-600 mt-8 pt-8 text-center text-purple-200">
-            <p>&copy; {new Date().getFullYear()} Oi TV Loja do antenista Clube de Pontos. Todos os direitos reservados.</p> 
+            <p>&copy; {new Date().getFullYear()} {branding.storeName} Clube de Pontos. Todos os direitos reservados.</p> 
             <p>Desenvolvido por <a href="https://mastertechbr.com/" target="_blank">Mastertech</a></p>
           </div>
         </div>
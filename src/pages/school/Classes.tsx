@@ -4,6 +4,7 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { Card } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
+import { Can } from '@/components/auth/Can';
 import { Table, TableHeader, TableRow, TableHead, TableCell, TableBody } from '@/components/ui/table';
 import { Select, SelectTrigger, SelectValue, SelectContent, SelectItem } from '@/components/ui/select';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
@@ -113,9 +114,11 @@ export default function Classes() {
           <h1 className="text-3xl font-bold tracking-tight">Turmas</h1>
           <p className="text-muted-foreground">Gerencie turmas da escola (criar, editar, excluir)</p>
         </div>
-        <Button onClick={goToCreate}>
-          <Plus className="h-4 w-4 mr-2" /> Novo cadastro
-        </Button>
+        <Can action="create" menuPath="/admin/school/classes">
+          <Button onClick={goToCreate}>
+            <Plus className="h-4 w-4 mr-2" /> Novo cadastro
+          </Button>
+        </Can>
       </div>
 
       {/* Toolbar de listagem */}
@@ -176,8 +179,12 @@ export default function Classes() {
                     <DropdownMenuContent align="end">
                       <DropdownMenuLabel>Ações</DropdownMenuLabel>
                       <DropdownMenuSeparator />
-                      <DropdownMenuItem onClick={() => goToEdit(t.id)}>Editar</DropdownMenuItem>
-                      <DropdownMenuItem className="text-red-600" onClick={() => deleteMutation.mutate(t.id)}>Excluir</DropdownMenuItem>
+                      <Can action="edit" menuPath="/admin/school/classes">
+                        <DropdownMenuItem onClick={() => goToEdit(t.id)}>Editar</DropdownMenuItem>
+                      </Can>
+                      <Can action="delete" menuPath="/admin/school/classes">
+                        <DropdownMenuItem className="text-red-600" onClick={() => deleteMutation.mutate(t.id)}>Excluir</DropdownMenuItem>
+                      </Can>
                     </DropdownMenuContent>
                   </DropdownMenu>
                 </TableCell>
@@ -3,6 +3,7 @@ import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { CourseForm } from '@/components/school/CourseForm';
+import { RecordHistory } from '@/components/audit/RecordHistory';
 import { coursesService } from '@/services/coursesService';
 import { CoursePayload, CourseRecord } from '@/types/courses';
 
@@ -71,6 +72,7 @@ export default function CourseEdit() {
           )}
         </CardContent>
       </Card>
+      <RecordHistory subjectType="cursos" subjectId={id} />
     </div>
   );
 }
\ No newline at end of file
@@ -8,6 +8,7 @@ import { useDebounce } from '@/hooks/useDebounce';
 import { Card } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
+import { Can } from '@/components/auth/Can';
 import { Label } from '@/components/ui/label';
 import { Table, TableHeader, TableRow, TableHead, TableCell, TableBody } from '@/components/ui/table';
 import { useToast } from '@/components/ui/use-toast';
@@ -135,9 +136,11 @@ export default function Courses() {
           <h1 className="text-3xl font-bold tracking-tight">Cursos</h1>
           <p className="text-muted-foreground">Gerencie cursos da escola (criar, editar, excluir)</p>
         </div>
-        <Button onClick={goToCreate}>
-          <Plus className="h-4 w-4 mr-2" /> Novo cadastro
-        </Button>
+        <Can action="create" menuPath="/admin/school/courses">
+          <Button onClick={goToCreate}>
+            <Plus className="h-4 w-4 mr-2" /> Novo cadastro
+          </Button>
+        </Can>
       </div>
 
       {/* Toolbar de listagem */}
@@ -194,8 +197,12 @@ export default function Courses() {
                     <DropdownMenuContent align="end">
                       <DropdownMenuLabel>Ações</DropdownMenuLabel>
                       <DropdownMenuSeparator />
-                      <DropdownMenuItem onClick={() => goToEdit(c.id)}>Editar</DropdownMenuItem>
-                      <DropdownMenuItem className="text-red-600" onClick={() => deleteMutation.mutate(c.id)}>Excluir</DropdownMenuItem>
+                      <Can action="edit" menuPath="/admin/school/courses">
+                        <DropdownMenuItem onClick={() => goToEdit(c.id)}>Editar</DropdownMenuItem>
+                      </Can>
+                      <Can action="delete" menuPath="/admin/school/courses">
+                        <DropdownMenuItem className="text-red-600" onClick={() => deleteMutation.mutate(c.id)}>Excluir</DropdownMenuItem>
+                      </Can>
                     </DropdownMenuContent>
                   </DropdownMenu>
                 </TableCell>
@@ -104,7 +104,7 @@ export default function Enroll() {
    *        code expected by the list (e.g., 'mat', 'int').
    */
   const situationOptions = useMemo(() => {
-    const arr = (situationsData?.data || situationsData?.items || []) as any[];
+    const arr = (situationsData?.data ?? []) as any[];
     const computeValue = (s: any) => String(
       // Prioriza ID para uso em `situacao_id`
       s?.id ?? s?.value ?? s?.sigla ?? s?.code ?? s?.codigo ?? s?.abbr
@@ -276,7 +276,7 @@ export default function Enroll() {
     refetchOnWindowFocus: false,
     refetchOnReconnect: false,
   });
-  const courseItems = (coursesQuery.data?.data || coursesQuery.data?.items || []) as any[];
+  const courseItems = (coursesQuery.data?.data ?? []) as any[];
   const courseOptions = useComboboxOptions(courseItems, 'id', 'nome', undefined, (c: any) => String(c?.titulo || ''));
 
   /**
@@ -289,10 +289,10 @@ export default function Enroll() {
     refetchOnWindowFocus: false,
     refetchOnReconnect: false,
   });
-  const classItems = (classesQuery.data?.data || classesQuery.data?.items || []) as any[];
+  const classItems = (classesQuery.data?.data ?? []) as any[];
   const classOptions = useComboboxOptions(classItems, 'id', 'nome', undefined, (t: any) => String(t?.token || ''));
 
-  const enrollments = useMemo(() => enrollmentsResp?.data || enrollmentsResp?.items || [], [enrollmentsResp]);
+  const enrollments = useMemo(() => enrollmentsResp?.data ?? [], [enrollmentsResp]);
   const currentPage = enrollmentsResp?.current_page ?? 1;
   const lastPage = enrollmentsResp?.last_page ?? 1;
   const total = enrollmentsResp?.total ?? enrollments.length;
@@ -3,6 +3,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Table, TableHeader, TableRow, TableHead, TableBody, TableCell } from '@/components/ui/table';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
+import { Can } from '@/components/auth/Can';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
@@ -124,9 +125,11 @@ export default function EnrollmentSituationPage() {
       <div className="flex items-center justify-between">
         <h1 className="text-2xl font-bold">Situações de Matrícula</h1>
         <div className="flex gap-2">
-          <Button onClick={() => setCreateOpen(true)}>
-            <Plus className="mr-2 h-4 w-4" /> Nova Situação
-          </Button>
+          <Can action="create" menuPath="/admin/school/enrollment-situation">
+            <Button onClick={() => setCreateOpen(true)}>
+              <Plus className="mr-2 h-4 w-4" /> Nova Situação
+            </Button>
+          </Can>
         </div>
       </div>
 
@@ -189,8 +192,12 @@ export default function EnrollmentSituationPage() {
                       <DropdownMenuContent align="end">
                         <DropdownMenuLabel>Ações</DropdownMenuLabel>
                         <DropdownMenuSeparator />
-                        <DropdownMenuItem onClick={() => { setSelected(s); setEditOpen(true); }}>Editar</DropdownMenuItem>
-                        <DropdownMenuItem className="text-red-600" onClick={() => { setSelected(s); setDeleteOpen(true); }}>Excluir</DropdownMenuItem>
+                        <Can action="edit" menuPath="/admin/school/enrollment-situation">
+                          <DropdownMenuItem onClick={() => { setSelected(s); setEditOpen(true); }}>Editar</DropdownMenuItem>
+                        </Can>
+                        <Can action="delete" menuPath="/admin/school/enrollment-situation">
+                          <DropdownMenuItem className="text-red-600" onClick={() => { setSelected(s); setDeleteOpen(true); }}>Excluir</DropdownMenuItem>
+                        </Can>
                       </DropdownMenuContent>
                     </DropdownMenu>
                   </TableCell>
@@ -12,6 +12,7 @@ import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Switch } from '@/components/ui/switch';
 import { Button } from '@/components/ui/button';
+import { Can } from '@/components/auth/Can';
 import { Label } from '@/components/ui/label';
 import { Table, TableHeader, TableRow, TableHead, TableCell, TableBody } from '@/components/ui/table';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogTrigger } from '@/components/ui/dialog';
@@ -378,9 +379,11 @@ const AircraftsSettings = () => {
           <p className="text-sm text-muted-foreground">Cadastro e configurações de aeronaves</p>
         </div>
         <Dialog open={open} onOpenChange={setOpen}>
-          <DialogTrigger asChild>
-            <Button onClick={() => setOpen(true)}>Novo cadastro</Button>
-          </DialogTrigger>
+          <Can action="create" menuPath="/admin/settings/aircrafts">
+            <DialogTrigger asChild>
+              <Button onClick={() => setOpen(true)}>Novo cadastro</Button>
+            </DialogTrigger>
+          </Can>
           <DialogContent className="max-w-3xl">
             <DialogHeader>
               <DialogTitle>Nova aeronave</DialogTitle>
@@ -672,8 +675,12 @@ const AircraftsSettings = () => {
                     </DropdownMenuTrigger>
                     <DropdownMenuContent className="w-40">
                       <DropdownMenuItem onClick={() => handleView(a)}>Ver</DropdownMenuItem>
-                      <DropdownMenuItem onClick={() => handleEdit(a)}>Editar</DropdownMenuItem>
-                      <DropdownMenuItem className="text-destructive" onClick={() => handleDelete(a)}>Excluir</DropdownMenuItem>
+                      <Can action="edit" menuPath="/admin/settings/aircrafts">
+                        <DropdownMenuItem onClick={() => handleEdit(a)}>Editar</DropdownMenuItem>
+                      </Can>
+                      <Can action="delete" menuPath="/admin/settings/aircrafts">
+                        <DropdownMenuItem className="text-destructive" onClick={() => handleDelete(a)}>Excluir</DropdownMenuItem>
+                      </Can>
                     </DropdownMenuContent>
                   </DropdownMenu>
                 </TableCell>
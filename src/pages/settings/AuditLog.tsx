@@ -0,0 +1,246 @@
+import { Fragment, useState } from 'react';
+import { format } from 'date-fns';
+import { ChevronDown, ChevronRight, Search } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { AuditChangesList } from '@/components/audit/AuditChangesList';
+import { useAuditLogs } from '@/hooks/audit';
+import { useUsersList } from '@/hooks/users';
+import { useDebounce } from '@/hooks/useDebounce';
+import { AUDIT_ACTION_LABELS, AUDIT_SUBJECT_LABELS, auditActionLabel, auditSubjectLabel } from '@/lib/audit';
+import type { AuditLogParams } from '@/types/audit';
+
+const ALL = 'all';
+const PER_PAGE = 20;
+
+/**
+ * AuditLog
+ * pt-BR: Tela global da auditoria: filtros por texto, ação, recurso, usuário e período, com
+ *        as mudanças campo a campo de cada registro.
+ * en-US: Global audit screen: filters by text, action, resource, user and period, with the
+ *        field-level changes of each entry.
+ */
+export default function AuditLog() {
+  const [page, setPage] = useState(1);
+  const [search, setSearch] = useState('');
+  const [action, setAction] = useState(ALL);
+  const [subjectType, setSubjectType] = useState(ALL);
+  const [userId, setUserId] = useState(ALL);
+  const [dateFrom, setDateFrom] = useState('');
+  const [dateTo, setDateTo] = useState('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const debouncedSearch = useDebounce(search, 400);
+
+  const params: AuditLogParams = {
+    page,
+    per_page: PER_PAGE,
+    search: debouncedSearch || undefined,
+    action: action === ALL ? undefined : action,
+    subject_type: subjectType === ALL ? undefined : subjectType,
+    user_id: userId === ALL ? undefined : userId,
+    date_from: dateFrom || undefined,
+    date_to: dateTo || undefined,
+  };
+
+  const { data, isLoading, isFetching, error } = useAuditLogs(params);
+  const { data: usersData } = useUsersList({ per_page: 100 });
+  const entries = data?.data ?? [];
+  const totalPages = data?.last_page || 1;
+
+  // Qualquer filtro volta para a primeira página
+  const withReset = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    setPage(1);
+  };
+
+  const clearFilters = () => {
+    setSearch('');
+    setAction(ALL);
+    setSubjectType(ALL);
+    setUserId(ALL);
+    setDateFrom('');
+    setDateTo('');
+    setPage(1);
+  };
+
+  return (
+    <div className="container mx-auto py-6 space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Auditoria</h1>
+        <p className="text-muted-foreground">
+          Quem criou, alterou, excluiu ou restaurou cada registro do sistema
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Registros de auditoria</CardTitle>
+          <CardDescription>
+            {data?.total !== undefined ? `${data.total} registro(s) encontrado(s)` : 'Carregando registros'}
+          </CardDescription>
+          <div className="grid gap-2 pt-2 md:grid-cols-3 lg:grid-cols-6">
+            <div className="relative md:col-span-3 lg:col-span-2">
+              <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+              <Input
+                placeholder="Buscar por registro, usuário ou descrição..."
+                value={search}
+                onChange={(e) => withReset(setSearch)(e.target.value)}
+                className="pl-10"
+              />
+            </div>
+            <Select value={action} onValueChange={withReset(setAction)}>
+              <SelectTrigger><SelectValue placeholder="Ação" /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Todas as ações</SelectItem>
+                {Object.entries(AUDIT_ACTION_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={subjectType} onValueChange={withReset(setSubjectType)}>
+              <SelectTrigger><SelectValue placeholder="Recurso" /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Todos os recursos</SelectItem>
+                {Object.entries(AUDIT_SUBJECT_LABELS)
+                  .filter(([value]) => value !== 'user')
+                  .map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+            <Select value={userId} onValueChange={withReset(setUserId)}>
+              <SelectTrigger><SelectValue placeholder="Usuário" /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Todos os usuários</SelectItem>
+                {(usersData?.data ?? []).map((user) => (
+                  <SelectItem key={user.id} value={String(user.id)}>{user.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="flex gap-2 md:col-span-2 lg:col-span-1">
+              <Input type="date" aria-label="De" value={dateFrom} onChange={(e) => withReset(setDateFrom)(e.target.value)} />
+              <Input type="date" aria-label="Até" value={dateTo} onChange={(e) => withReset(setDateTo)(e.target.value)} />
+            </div>
+          </div>
+          <div>
+            <Button variant="ghost" size="sm" onClick={clearFilters}>Limpar filtros</Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-10">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            </div>
+          ) : error ? (
+            <p className="py-6 text-center text-destructive">
+              Erro ao carregar a auditoria: {(error as Error).message}
+            </p>
+          ) : entries.length === 0 ? (
+            <p className="py-6 text-center text-muted-foreground">Nenhum registro encontrado.</p>
+          ) : (
+            <>
+              <Table className={isFetching ? 'opacity-60' : undefined}>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-8" />
+                    <TableHead>Data</TableHead>
+                    <TableHead>Usuário</TableHead>
+                    <TableHead>Ação</TableHead>
+                    <TableHead>Registro</TableHead>
+                    <TableHead>Descrição</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {entries.map((entry) => {
+                    const isExpanded = expandedId === entry.id;
+                    const hasDetails = (entry.changes?.length ?? 0) > 0 || !!entry.reason;
+                    return (
+                      <Fragment key={entry.id}>
+                        <TableRow
+                          className={hasDetails ? 'cursor-pointer' : undefined}
+                          onClick={() => hasDetails && setExpandedId(isExpanded ? null : entry.id)}
+                        >
+                          <TableCell>
+                            {hasDetails && (isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />)}
+                          </TableCell>
+                          <TableCell className="whitespace-nowrap">
+                            {format(new Date(entry.created_at), 'dd/MM/yyyy HH:mm')}
+                          </TableCell>
+                          <TableCell>{entry.user_name || 'Sistema'}</TableCell>
+                          <TableCell>
+                            <Badge variant={entry.action === 'deleted' ? 'destructive' : 'secondary'}>
+                              {auditActionLabel(entry.action)}
+                            </Badge>
+                          </TableCell>
+                          <TableCell>
+                            <span className="text-muted-foreground">{auditSubjectLabel(entry.subject_type)}</span>{' '}
+                            {entry.subject_name || `#${entry.subject_id}`}
+                          </TableCell>
+                          <TableCell className="max-w-xs truncate" title={entry.description ?? undefined}>
+                            {entry.description || '—'}
+                          </TableCell>
+                        </TableRow>
+                        {isExpanded && (
+                          <TableRow>
+                            <TableCell />
+                            <TableCell colSpan={5}>
+                              {entry.reason && <p className="text-sm">Motivo: {entry.reason}</p>}
+                              <AuditChangesList changes={entry.changes} />
+                            </TableCell>
+                          </TableRow>
+                        )}
+                      </Fragment>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+
+              {totalPages > 1 && (
+                <div className="flex items-center justify-between mt-4">
+                  <p className="text-sm text-muted-foreground">
+                    Página {page} de {totalPages}
+                  </p>
+                  <div className="flex space-x-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setPage(Math.max(1, page - 1))}
+                      disabled={page === 1}
+                    >
+                      Anterior
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setPage(Math.min(totalPages, page + 1))}
+                      disabled={page === totalPages}
+                    >
+                      Próxima
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
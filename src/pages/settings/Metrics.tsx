@@ -5,6 +5,7 @@ import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
 import { dataParaBR,getApiUrl } from '@/lib/qlib';
 import { Button } from '@/components/ui/button';
+import { Can } from '@/components/auth/Can';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { PeriodSelector } from '@/components/metrics/PeriodSelector';
@@ -294,18 +295,22 @@ export default function Metrics() {
           </p>
         </div>
         <div className="flex gap-2 w-full sm:w-auto">
-          <Button onClick={() => handleOpenModal()} className="flex-1 sm:flex-none">
-            <Plus className="mr-2 h-4 w-4" />
-            <span className="hidden sm:inline">Nova {title}</span>
-            <span className="sm:hidden">Nova {title}</span>
-          </Button>
+          <Can action="create" menuPath="/admin/settings/metrics">
+            <Button onClick={() => handleOpenModal()} className="flex-1 sm:flex-none">
+              <Plus className="mr-2 h-4 w-4" />
+              <span className="hidden sm:inline">Nova {title}</span>
+              <span className="sm:hidden">Nova {title}</span>
+            </Button>
+          </Can>
           
-          <ImportButton 
-            onImport={handleImport}
-            inicio={inicio}
-            fim={fim}
-            isLoading={isLoading}
-          />
+          <Can action="upload" menuPath="/admin/settings/metrics">
+            <ImportButton 
+              onImport={handleImport}
+              inicio={inicio}
+              fim={fim}
+              isLoading={isLoading}
+            />
+          </Can>
         </div>
       </div>
 
@@ -336,14 +341,16 @@ export default function Metrics() {
           {metrics.length === 0 ? (
             <div className="text-center py-6">
               <p className="text-muted-foreground">Nenhuma {title} encontrada.</p>
-              <Button 
-                onClick={() => handleOpenModal()} 
-                className="mt-4"
-                variant="outline"
-              >
-                <Plus className="mr-2 h-4 w-4" />
-                Criar primeira {title}
-              </Button>
+              <Can action="create" menuPath="/admin/settings/metrics">
+                <Button 
+                  onClick={() => handleOpenModal()} 
+                  className="mt-4"
+                  variant="outline"
+                >
+                  <Plus className="mr-2 h-4 w-4" />
+                  Criar primeira {title}
+                </Button>
+              </Can>
             </div>
           ) : (
             <>
@@ -373,12 +380,16 @@ export default function Metrics() {
                         <TableCell className="font-semibold text-blue-600 text-xs sm:text-sm">{metric.closed_deals}</TableCell>
                         <TableCell className="text-right">
                           <div className="flex justify-end space-x-1">
-                            <Button variant="ghost" size="sm" onClick={() => handleOpenModal(metric)}>
-                              <Pencil className="h-3 w-3 sm:h-4 sm:w-4" />
-                            </Button>
-                            <Button variant="ghost" size="sm" onClick={() => setDeletingMetric(metric)}>
-                              <Trash2 className="h-3 w-3 sm:h-4 sm:w-4" />
-                            </Button>
+                            <Can action="edit" menuPath="/admin/settings/metrics">
+                              <Button variant="ghost" size="sm" onClick={() => handleOpenModal(metric)}>
+                                <Pencil className="h-3 w-3 sm:h-4 sm:w-4" />
+                              </Button>
+                            </Can>
+                            <Can action="delete" menuPath="/admin/settings/metrics">
+                              <Button variant="ghost" size="sm" onClick={() => setDeletingMetric(metric)}>
+                                <Trash2 className="h-3 w-3 sm:h-4 sm:w-4" />
+                              </Button>
+                            </Can>
                           </div>
                         </TableCell>
                       </TableRow>
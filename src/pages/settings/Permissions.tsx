@@ -1,10 +1,12 @@
 import { useState, useEffect, useMemo } from 'react';
-import { Plus, Search, Pencil, Trash2, Check, X } from 'lucide-react';
+import { Plus, Search, Pencil, Trash2, Check, X, Copy } from 'lucide-react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
+import { useQueryClient } from '@tanstack/react-query';
 
 import { Button } from '@/components/ui/button';
+import { Can } from '@/components/auth/Can';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
@@ -54,17 +56,38 @@ import {
   useMenuPermissions,
   useUpdateMenuPermissions
 } from '@/hooks/permissions';
-import { PermissionRecord, CreatePermissionInput, MenuPermissionRow, AccessFlagKey } from '@/types/permissions';
-import { buildPermissionTree, createInitialAccessFlags } from '@/lib/menuPermissions';
+import { PermissionRecord, CreatePermissionInput, AccessFlagKey, AccessFlags, AccessFlagsMap } from '@/types/permissions';
+import {
+  buildPermissionTree,
+  createInitialAccessFlags,
+  accessFlagsFromRows,
+  accessFlagsToRows,
+  diffAccessFlags,
+} from '@/lib/menuPermissions';
+import { PERMISSION_TEMPLATES, applyPermissionTemplate, findPermissionTemplate } from '@/lib/permissionTemplates';
+import { permissionsService } from '@/services/permissionsService';
+import { PermissionChangesDialog } from '@/components/permissions/PermissionChangesDialog';
+import { PermissionCompareCard } from '@/components/permissions/PermissionCompareCard';
 import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
 
 const permissionSchema = z.object({
   name: z.string().min(1, 'Nome é obrigatório'),
   description: z.string().optional(),
+  // Base do novo grupo: `template:<id>`, `group:<id>` ou vazio
+  base: z.string().optional(),
 });
 
 type PermissionFormData = z.infer<typeof permissionSchema>;
 
+// Gravação aguardando confirmação na prévia antes/depois
+interface PendingAccessSave {
+  permissionId: string;
+  name: string;
+  before: AccessFlagsMap;
+  after: Record<string, Partial<AccessFlags> | undefined>;
+}
+
 export default function Permissions() {
   const [search, setSearch] = useState('');
   const [page, setPage] = useState(1);
@@ -73,11 +96,14 @@ export default function Permissions() {
   const [deletingPermission, setDeletingPermission] = useState<PermissionRecord | null>(null);
   const [selectedPermissionId, setSelectedPermissionId] = useState<string>('');
   const [accessFlags, setAccessFlags] = useState<Record<string, any>>({});
+  const [pendingSave, setPendingSave] = useState<PendingAccessSave | null>(null);
 
-  const { menu: apiMenu } = useAuth();
+  const { menu: apiMenu, user, refreshPermissions } = useAuth();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
   
   // Get menu from auth context (which loads from localStorage)
-  const menuItems = apiMenu || [];
+  const menuItems = useMemo(() => apiMenu || [], [apiMenu]);
 
   const { data: permissionsData, isLoading, error } = usePermissionsList({ 
     page, 
@@ -96,6 +122,7 @@ export default function Permissions() {
     defaultValues: {
       name: '',
       description: '',
+      base: '',
     },
   });
 
@@ -112,7 +139,7 @@ export default function Permissions() {
       (permission.description && permission.description.toLowerCase().includes(searchLower))
     );
   }, [permissions, search]);
-  const permissionTree = buildPermissionTree(menuItems);
+  const permissionTree = useMemo(() => buildPermissionTree(menuItems), [menuItems]);
   
   // Create lookup maps for efficient access
   const nodesByKey = useMemo(
@@ -120,15 +147,6 @@ export default function Permissions() {
     [permissionTree]
   );
   
-  const keyByMenuId = useMemo(
-    () => {
-      const map: Record<string, string> = {};
-      permissionTree.forEach(n => { map[String(n.id)] = n.key; });
-      return map;
-    },
-    [permissionTree]
-  );
-
   // Create parent-child relationship maps
   const childrenByParentKey = useMemo(() => {
     const map: Record<string, string[]> = {};
@@ -157,45 +175,33 @@ export default function Permissions() {
     return allDescendants;
   };
 
-  // Initialize and hydrate accessFlags
+  // Flags as saved for the selected group; the "before" side of the save preview
+  const savedFlags = useMemo(
+    () => accessFlagsFromRows(menuItems, permissionTree, menuPermissions),
+    [menuItems, permissionTree, menuPermissions]
+  );
+
+  // Initialize and hydrate accessFlags (copied, since the handlers below mutate nested flags)
   useEffect(() => {
-    if (menuItems.length === 0) return;
-    
-    // Start with initial flags (all false)
-    const newAccessFlags = { ...createInitialAccessFlags(menuItems) };
-    
-    // Hydrate with actual permissions if available
-    if (menuPermissions && menuPermissions.length > 0) {
-      menuPermissions.forEach((menuPerm: MenuPermissionRow) => {
-        // Find the key by menu_id
-        const key = keyByMenuId[String(menuPerm.menu_id)];
-        if (key && newAccessFlags[key]) {
-          newAccessFlags[key] = {
-            can_view: !!menuPerm.can_view,
-            can_create: !!menuPerm.can_create,
-            can_edit: !!menuPerm.can_edit,
-            can_delete: !!menuPerm.can_delete,
-            can_upload: !!menuPerm.can_upload,
-          };
-        }
-      });
-    }
-    
-    setAccessFlags(newAccessFlags);
-  }, [menuItems, menuPermissions]); // Removed keyByMenuId to prevent infinite loop
+    if (permissionTree.length === 0) return;
+    setAccessFlags(Object.fromEntries(Object.entries(savedFlags).map(([key, flags]) => [key, { ...flags }])));
+  }, [permissionTree, savedFlags]);
 
-  const handleOpenModal = (permission?: PermissionRecord) => {
+  const handleOpenModal = (permission?: PermissionRecord, defaults?: Partial<PermissionFormData>) => {
     if (permission) {
       setEditingPermission(permission);
       form.reset({
         name: permission.name,
         description: permission.description || '',
+        base: '',
       });
     } else {
       setEditingPermission(null);
       form.reset({
         name: '',
         description: '',
+        base: '',
+        ...defaults,
       });
     }
     setIsModalOpen(true);
@@ -207,19 +213,62 @@ export default function Permissions() {
     form.reset();
   };
 
+  /**
+   * resolveBaseFlags
+   * pt-BR: Flags iniciais de um grupo novo a partir de um modelo ou de outro grupo (clonagem).
+   * en-US: Initial flags for a new group from a template or from another group (cloning).
+   */
+  const resolveBaseFlags = async (base: string): Promise<AccessFlagsMap | null> => {
+    const [kind, id] = base.split(':');
+    if (kind === 'template') {
+      const template = findPermissionTemplate(id);
+      return template ? applyPermissionTemplate(permissionTree, template) : null;
+    }
+    if (kind === 'group' && id) {
+      const rows = await queryClient.fetchQuery({
+        queryKey: ['permissions', 'menu', id],
+        queryFn: () => permissionsService.getMenuPermissions(id),
+      });
+      return accessFlagsFromRows(menuItems, permissionTree, rows);
+    }
+    return null;
+  };
+
   const onSubmit = async (data: PermissionFormData) => {
+    const { base, ...payload } = data;
+    let created: PermissionRecord | undefined;
     try {
       if (editingPermission) {
         await updateMutation.mutateAsync({ 
           id: editingPermission.id, 
-          data: data as CreatePermissionInput 
+          data: payload as CreatePermissionInput 
         });
       } else {
-        await createMutation.mutateAsync(data as CreatePermissionInput);
+        created = await createMutation.mutateAsync(payload as CreatePermissionInput);
       }
       handleCloseModal();
     } catch (error) {
       // Error is handled by the mutation hooks
+      return;
+    }
+
+    if (!created?.id || !base) return;
+    try {
+      const baseFlags = await resolveBaseFlags(base);
+      if (baseFlags) {
+        setPendingSave({
+          permissionId: String(created.id),
+          name: created.name,
+          before: createInitialAccessFlags(menuItems),
+          after: baseFlags,
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Erro",
+        description: `Grupo criado, mas não foi possível copiar os acessos: ${(error as Error).message}`,
+        variant: "destructive",
+      });
     }
   };
 
@@ -306,31 +355,44 @@ export default function Permissions() {
     setAccessFlags(newAccessFlags);
   };
 
-  const handleSaveAccessPermissions = async () => {
+  const handleApplyTemplate = (templateId: string) => {
+    const template = findPermissionTemplate(templateId);
+    if (template) setAccessFlags(applyPermissionTemplate(permissionTree, template));
+  };
+
+  // Opens the before/after preview; nothing is saved until it is confirmed
+  const handleSaveAccessPermissions = () => {
     if (!selectedPermissionId) return;
 
-    // Only save leaf nodes (nodes without children) as the API doesn't expect parent permissions
-    const menuPermissionRows: MenuPermissionRow[] = leafKeys
-      .filter(key => accessFlags[key]) // Only include keys that have flags set
-      .map(key => {
-        const node = nodesByKey[key];
-        const flags = accessFlags[key];
-        return {
-          permission_id: selectedPermissionId,
-          menu_id: node?.id ?? key,
-          parent_id: node?.parent_id ?? null,
-          can_view: flags.can_view,
-          can_create: flags.can_create,
-          can_edit: flags.can_edit,
-          can_delete: flags.can_delete,
-          can_upload: flags.can_upload,
-        };
+    setPendingSave({
+      permissionId: selectedPermissionId,
+      name: permissions.find(permission => String(permission.id) === selectedPermissionId)?.name ?? '',
+      before: savedFlags,
+      after: accessFlags,
+    });
+  };
+
+  const handleConfirmSave = async () => {
+    if (!pendingSave) return;
+    const { permissionId } = pendingSave;
+
+    try {
+      // Only leaf nodes are saved, as the API doesn't expect parent permissions
+      await updateMenuPermissionsMutation.mutateAsync({
+        permission_id: permissionId,
+        permissions: accessFlagsToRows(permissionTree, pendingSave.after, permissionId),
       });
+    } catch (error) {
+      // Error is handled by the mutation hook
+      return;
+    }
+    setPendingSave(null);
+    setSelectedPermissionId(permissionId);
 
-    await updateMenuPermissionsMutation.mutateAsync({
-      permission_id: selectedPermissionId,
-      permissions: menuPermissionRows,
-    });
+    // Se o grupo editado é o do próprio usuário, atualiza menu/permissões em todas as abas
+    if (String(user?.permission_id ?? '') === String(permissionId)) {
+      await refreshPermissions();
+    }
   };
 
   if (isLoading) {
@@ -384,16 +446,19 @@ export default function Permissions() {
             Gerencie as permissões do sistema
           </p>
         </div>
-        <Button onClick={() => handleOpenModal()}>
-          <Plus className="mr-2 h-4 w-4" />
-          Nova Permissão
-        </Button>
+        <Can action="create" menuPath="/admin/settings/permissions">
+          <Button onClick={() => handleOpenModal()}>
+            <Plus className="mr-2 h-4 w-4" />
+            Nova Permissão
+          </Button>
+        </Can>
       </div>
 
       <Tabs defaultValue="dados" className="w-full">
-        <TabsList className="grid w-full grid-cols-2">
+        <TabsList className="grid w-full grid-cols-3">
           <TabsTrigger value="dados">Dados</TabsTrigger>
           <TabsTrigger value="acessos">Acessos</TabsTrigger>
+          <TabsTrigger value="comparar">Comparar</TabsTrigger>
         </TabsList>
 
         <TabsContent value="dados" className="space-y-6">
@@ -427,14 +492,16 @@ export default function Permissions() {
                   ) : (
                     <>
                       <p className="text-muted-foreground">Nenhuma permissão encontrada.</p>
-                      <Button 
-                        onClick={() => handleOpenModal()} 
-                        className="mt-4"
-                        variant="outline"
-                      >
-                        <Plus className="mr-2 h-4 w-4" />
-                        Criar primeira permissão
-                      </Button>
+                      <Can action="create" menuPath="/admin/settings/permissions">
+                        <Button 
+                          onClick={() => handleOpenModal()} 
+                          className="mt-4"
+                          variant="outline"
+                        >
+                          <Plus className="mr-2 h-4 w-4" />
+                          Criar primeira permissão
+                        </Button>
+                      </Can>
                     </>
                   )}
                 </div>
@@ -461,20 +528,38 @@ export default function Permissions() {
                            </TableCell>
                           <TableCell className="text-right">
                             <div className="flex justify-end space-x-2">
-                              <Button
-                                variant="ghost"
-                                size="sm"
-                                onClick={() => handleOpenModal(permission)}
-                              >
-                                <Pencil className="h-4 w-4" />
-                              </Button>
-                              <Button
-                                variant="ghost"
-                                size="sm"
-                                onClick={() => setDeletingPermission(permission)}
-                              >
-                                <Trash2 className="h-4 w-4" />
-                              </Button>
+                              <Can action="edit" menuPath="/admin/settings/permissions">
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => handleOpenModal(permission)}
+                                >
+                                  <Pencil className="h-4 w-4" />
+                                </Button>
+                              </Can>
+                              <Can action="create" menuPath="/admin/settings/permissions">
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  title="Clonar grupo"
+                                  onClick={() => handleOpenModal(undefined, {
+                                    name: `${permission.name} (cópia)`,
+                                    description: permission.description || '',
+                                    base: `group:${permission.id}`,
+                                  })}
+                                >
+                                  <Copy className="h-4 w-4" />
+                                </Button>
+                              </Can>
+                              <Can action="delete" menuPath="/admin/settings/permissions">
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => setDeletingPermission(permission)}
+                                >
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              </Can>
                             </div>
                           </TableCell>
                         </TableRow>
@@ -538,14 +623,31 @@ export default function Permissions() {
                       </option>
                     ))}
                   </select>
+                  {selectedPermissionId && (
+                    <select
+                      aria-label="Aplicar modelo"
+                      value=""
+                      onChange={(e) => handleApplyTemplate(e.target.value)}
+                      className="px-3 py-2 border rounded-md bg-background"
+                    >
+                      <option value="">Aplicar modelo...</option>
+                      {PERMISSION_TEMPLATES.map(template => (
+                        <option key={template.id} value={template.id} title={template.description}>
+                          {template.name}
+                        </option>
+                      ))}
+                    </select>
+                  )}
                 </div>
                 {selectedPermissionId && (
-                  <Button 
-                    onClick={handleSaveAccessPermissions}
-                    disabled={updateMenuPermissionsMutation.isPending}
-                  >
-                    Salvar Permissões
-                  </Button>
+                  <Can action="edit" menuPath="/admin/settings/permissions" mode="disable">
+                    <Button 
+                      onClick={handleSaveAccessPermissions}
+                      disabled={updateMenuPermissionsMutation.isPending}
+                    >
+                      Salvar Permissões
+                    </Button>
+                  </Can>
                 )}
               </div>
             </CardHeader>
@@ -673,6 +775,10 @@ export default function Permissions() {
             )}
           </Card>
         </TabsContent>
+
+        <TabsContent value="comparar" className="space-y-6">
+          <PermissionCompareCard permissions={permissions} menuItems={menuItems} tree={permissionTree} />
+        </TabsContent>
       </Tabs>
 
       {/* Create/Edit Modal */}
@@ -719,6 +825,42 @@ export default function Permissions() {
                   </FormItem>
                 )}
               />
+              {!editingPermission && (
+                <FormField
+                  control={form.control}
+                  name="base"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Acessos iniciais (Opcional)</FormLabel>
+                      <FormControl>
+                        <select
+                          {...field}
+                          className="w-full px-3 py-2 border rounded-md bg-background text-sm"
+                        >
+                          <option value="">Nenhum (marcar manualmente)</option>
+                          <optgroup label="Modelos">
+                            {PERMISSION_TEMPLATES.map(template => (
+                              <option key={template.id} value={`template:${template.id}`}>
+                                {template.name} — {template.description}
+                              </option>
+                            ))}
+                          </optgroup>
+                          {permissions.length > 0 && (
+                            <optgroup label="Clonar grupo existente">
+                              {permissions.map(permission => (
+                                <option key={permission.id} value={`group:${permission.id}`}>
+                                  {permission.name}
+                                </option>
+                              ))}
+                            </optgroup>
+                          )}
+                        </select>
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
               <DialogFooter>
                 <Button type="button" variant="outline" onClick={handleCloseModal}>
                   Cancelar
@@ -735,6 +877,16 @@ export default function Permissions() {
         </DialogContent>
       </Dialog>
 
+      {/* Before/after preview of access changes */}
+      <PermissionChangesDialog
+        open={!!pendingSave}
+        onOpenChange={(open) => { if (!open) setPendingSave(null); }}
+        groupName={pendingSave?.name}
+        changes={pendingSave ? diffAccessFlags(permissionTree, pendingSave.before, pendingSave.after) : []}
+        onConfirm={handleConfirmSave}
+        isSaving={updateMenuPermissionsMutation.isPending}
+      />
+
       {/* Delete Confirmation */}
       <AlertDialog 
         open={!!deletingPermission} 
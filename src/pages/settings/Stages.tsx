@@ -6,6 +6,7 @@ import * as z from 'zod';
 
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { Can } from '@/components/auth/Can';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { Switch } from '@/components/ui/switch';
@@ -748,9 +749,11 @@ export default function Stages() {
               {renderFunnelAreaBadge(funnel)}
               <Badge variant="secondary" className="ml-2">{localStages.length} etapas</Badge>
             </button>
-            <Button size="sm" onClick={() => onAddStage(funnel)} className="flex items-center gap-2">
-              <Plus className="h-4 w-4" /> Adicionar Etapa
-            </Button>
+            <Can action="create" menuPath="/admin/settings/stages">
+              <Button size="sm" onClick={() => onAddStage(funnel)} className="flex items-center gap-2">
+                <Plus className="h-4 w-4" /> Adicionar Etapa
+              </Button>
+            </Can>
           </CardTitle>
           <CardDescription>
             {funnel.description || 'Etapas cadastradas para este funil.'}
@@ -807,12 +810,16 @@ export default function Stages() {
                     )}
                   </TableCell>
                   <TableCell className="text-right space-x-2">
-                    <Button variant="ghost" size="sm" onClick={() => onEditStage(funnel, stage)}>
-                      <Pencil className="h-4 w-4" />
-                    </Button>
-                    <Button variant="ghost" size="sm" onClick={() => onDeleteStage(funnel, stage)}>
-                      <Trash2 className="h-4 w-4" />
-                    </Button>
+                    <Can action="edit" menuPath="/admin/settings/stages">
+                      <Button variant="ghost" size="sm" onClick={() => onEditStage(funnel, stage)}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                    </Can>
+                    <Can action="delete" menuPath="/admin/settings/stages">
+                      <Button variant="ghost" size="sm" onClick={() => onDeleteStage(funnel, stage)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </Can>
                   </TableCell>
                 </TableRow>
               ))}
@@ -839,9 +846,11 @@ export default function Stages() {
               <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
               <Input value={search} onChange={(e) => setSearch(e.target.value)} placeholder="Buscar funis..." className="pl-8" />
             </div>
-            <Button onClick={() => openFunnelModal()} className="flex items-center gap-2">
-              <Plus className="h-4 w-4" /> Novo Funil
-            </Button>
+            <Can action="create" menuPath="/admin/settings/stages">
+              <Button onClick={() => openFunnelModal()} className="flex items-center gap-2">
+                <Plus className="h-4 w-4" /> Novo Funil
+              </Button>
+            </Can>
           </div>
 
           <Table>
@@ -883,15 +892,21 @@ export default function Stages() {
                     <Button variant="ghost" size="sm" onClick={() => setSelectedFunnel(funnel)} title="Ver etapas deste funil">
                       <ListOrdered className="h-4 w-4" />
                     </Button>
-                    <Button variant="ghost" size="sm" onClick={() => openStageForFunnel(funnel)} title="Adicionar etapa neste funil">
-                      <Plus className="h-4 w-4" />
-                    </Button>
-                    <Button variant="ghost" size="sm" onClick={() => openFunnelModal(funnel)} title="Editar funil">
-                      <Pencil className="h-4 w-4" />
-                    </Button>
-                    <Button variant="ghost" size="sm" onClick={() => setDeletingFunnel(funnel)} title="Excluir funil">
-                      <Trash2 className="h-4 w-4" />
-                    </Button>
+                    <Can action="create" menuPath="/admin/settings/stages">
+                      <Button variant="ghost" size="sm" onClick={() => openStageForFunnel(funnel)} title="Adicionar etapa neste funil">
+                        <Plus className="h-4 w-4" />
+                      </Button>
+                    </Can>
+                    <Can action="edit" menuPath="/admin/settings/stages">
+                      <Button variant="ghost" size="sm" onClick={() => openFunnelModal(funnel)} title="Editar funil">
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                    </Can>
+                    <Can action="delete" menuPath="/admin/settings/stages">
+                      <Button variant="ghost" size="sm" onClick={() => setDeletingFunnel(funnel)} title="Excluir funil">
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </Can>
                   </TableCell>
                 </TableRow>
               ))}
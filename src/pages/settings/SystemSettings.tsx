@@ -1,4 +1,5 @@
 import React, { useState, useEffect } from "react";
+import { useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Switch } from "@/components/ui/switch";
@@ -11,6 +12,10 @@ import { Settings, Save, Palette, Link } from "lucide-react";
 import { systemSettingsService, AdvancedSystemSettings } from "@/services/systemSettingsService";
 import { useApiOptions } from "@/hooks/useApiOptions";
 import { useFunnelsList, useStagesList } from "@/hooks/funnels";
+import { BrandingSettingsCard } from "@/components/settings/BrandingSettingsCard";
+import { TwoFactorPolicyCard } from "@/components/settings/TwoFactorPolicyCard";
+import { SecurityPolicyCard } from "@/components/settings/SecurityPolicyCard";
+import { useUserPrefs } from "@/contexts/UserPrefsContext";
 
 /**
  * Página de configurações do sistema
@@ -18,6 +23,9 @@ import { useFunnelsList, useStagesList } from "@/hooks/funnels";
  * Cada aba possui cards com diferentes tipos de configurações
  */
 export default function SystemSettings() {
+  const queryClient = useQueryClient();
+  const { setPref } = useUserPrefs();
+
   // Estado da aba ativa
   const [activeTab, setActiveTab] = useState("basic");
   
@@ -97,8 +105,6 @@ export default function SystemSettings() {
     const saved = localStorage.getItem('appearanceSettings');
     return saved ? JSON.parse(saved) : {
       darkMode: false,
-      primaryColor: "#0b217b",
-      secondaryColor: "#4b89cd",
       fontSize: "medium",
       theme: "default",
       compactMode: true,
@@ -164,6 +170,10 @@ export default function SystemSettings() {
     
     // Aplicar configurações de aparência em tempo real
     applyAppearanceSettings(newSettings);
+
+    // Tema e modo compacto acompanham o usuário em outros dispositivos
+    if (key === 'darkMode') setPref('theme', value ? 'dark' : 'light');
+    if (key === 'compactMode') setPref('denseMode', Boolean(value));
   };
 
   /**
@@ -208,10 +218,6 @@ export default function SystemSettings() {
       document.body.classList.remove('dark');
     }
     
-    // Aplicar cores personalizadas
-    root.style.setProperty('--primary-color', settings.primaryColor);
-    root.style.setProperty('--secondary-color', settings.secondaryColor);
-    
     // Aplicar tamanho da fonte
     const fontSizes = {
       small: '14px',
@@ -393,6 +399,8 @@ export default function SystemSettings() {
 
       // Envia as configurações avançadas para a API na rota /options
       await systemSettingsService.saveAdvancedSettings(advancedSettings);
+      // Recarrega o timeout de sessão usado pela tela de bloqueio
+      queryClient.invalidateQueries({ queryKey: ['system-settings', 'advanced'] });
       
       // Log das outras configurações (não enviadas para API ainda)
       // console.log('Configurações Básicas - Switch:', basicSwitchSettings);
@@ -490,6 +498,9 @@ export default function SystemSettings() {
 
         {/* Aba de Configurações Básicas */}
         <TabsContent value="basic" className="space-y-6">
+          {/* Identidade visual do tenant (cores, logo e fonte vêm da API) */}
+          <BrandingSettingsCard />
+
           {/* Card de Configurações de Aparência */}
           <Card>
             <CardHeader>
@@ -547,49 +558,6 @@ export default function SystemSettings() {
                 </div>
               </div>
 
-              {/* Configurações de Cores e Tema */}
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <div className="space-y-2">
-                  <Label htmlFor="primaryColor">Cor Primária</Label>
-                  <div className="flex items-center space-x-2">
-                    <Input
-                      id="primaryColor"
-                      type="color"
-                      value={appearanceSettings.primaryColor}
-                      onChange={(e) => handleAppearanceChange('primaryColor', e.target.value)}
-                      className="w-16 h-10 p-1 border rounded"
-                    />
-                    <Input
-                      type="text"
-                      value={appearanceSettings.primaryColor}
-                      onChange={(e) => handleAppearanceChange('primaryColor', e.target.value)}
-                      placeholder="#3b82f6"
-                      className="flex-1"
-                    />
-                  </div>
-                </div>
-
-                <div className="space-y-2">
-                  <Label htmlFor="secondaryColor">Cor Secundária</Label>
-                  <div className="flex items-center space-x-2">
-                    <Input
-                      id="secondaryColor"
-                      type="color"
-                      value={appearanceSettings.secondaryColor}
-                      onChange={(e) => handleAppearanceChange('secondaryColor', e.target.value)}
-                      className="w-16 h-10 p-1 border rounded"
-                    />
-                    <Input
-                      type="text"
-                      value={appearanceSettings.secondaryColor}
-                      onChange={(e) => handleAppearanceChange('secondaryColor', e.target.value)}
-                      placeholder="#64748b"
-                      className="flex-1"
-                    />
-                  </div>
-                </div>
-              </div>
-
               {/* Selects de Aparência */}
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <div className="space-y-2">
@@ -1039,6 +1007,12 @@ export default function SystemSettings() {
               
             </CardContent>
           </Card>
+
+          {/* Card 4 - Verificação em duas etapas por grupo */}
+          <TwoFactorPolicyCard />
+
+          {/* Card 5 - Política de senhas e proteção do login */}
+          <SecurityPolicyCard />
         </TabsContent>
 
         {/* Aba de Configurações de API */}
@@ -3,6 +3,7 @@ import { useLocation, useNavigate, useParams } from 'react-router-dom';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { Can } from '@/components/auth/Can';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
@@ -607,9 +608,11 @@ export default function TableInstallment() {
         {/* pt-BR: Exibe ação de adicionar apenas na listagem para manter paridade visual.
             en-US: Show add action only on listing to keep visual parity. */}
         {(!isCreateRoute && !isEditRoute) && (
-          <Button type="button" onClick={() => { navigate('/admin/settings/table-installment/create'); }}>
-            Adicionar parcelamento
-          </Button>
+          <Can action="create" menuPath="/admin/settings/table-installment">
+            <Button type="button" onClick={() => { navigate('/admin/settings/table-installment/create'); }}>
+              Adicionar parcelamento
+            </Button>
+          </Can>
         )}
       </div>
 
@@ -919,8 +922,12 @@ export default function TableInstallment() {
                     <td className="py-2 px-2">{renderAtivoBadge(it.ativo)}</td>
                     <td className="py-2 px-2 text-right">
                       <div className="inline-flex gap-2 justify-end">
-                        <Button variant="outline" size="sm" className="h-7 px-2" onClick={() => navigate(`/admin/settings/table-installment/${it.id}/edit`)}>Editar</Button>
-                        <Button variant="destructive" size="sm" className="h-7 px-2" onClick={() => handleDeleteClick(String(it.id))}>Excluir</Button>
+                        <Can action="edit" menuPath="/admin/settings/table-installment">
+                          <Button variant="outline" size="sm" className="h-7 px-2" onClick={() => navigate(`/admin/settings/table-installment/${it.id}/edit`)}>Editar</Button>
+                        </Can>
+                        <Can action="delete" menuPath="/admin/settings/table-installment">
+                          <Button variant="destructive" size="sm" className="h-7 px-2" onClick={() => handleDeleteClick(String(it.id))}>Excluir</Button>
+                        </Can>
                       </div>
                     </td>
                   </tr>
@@ -1,4 +1,4 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
@@ -10,6 +10,12 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../..
 import { Avatar, AvatarFallback, AvatarImage } from '../../components/ui/avatar';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '../../components/ui/dialog';
 import { toast } from '../../hooks/use-toast';
+import { TwoFactorSection } from '../../components/settings/TwoFactorSection';
+import { ActiveSessionsList } from '../../components/auth/ActiveSessionsList';
+import { PasswordStrengthMeter } from '../../components/auth/PasswordStrengthMeter';
+import { usePasswordPolicy } from '@/hooks/security';
+import { passwordSchema } from '@/lib/passwordPolicy';
+import type { PasswordPolicy } from '@/types/security';
 import { Edit, Save, X, Eye, EyeOff } from 'lucide-react';
 import { authService } from '@/services/authService';
 import { useCep } from '@/hooks/useCep';
@@ -71,10 +77,10 @@ const profileSchema = z.object({
   zip_code: z.string().optional(),
 });
 
-// Schema de validacao para alteracao de senha
-const changePasswordSchema = z.object({
+// Schema de validacao para alteracao de senha (nova senha segue a politica de senhas)
+const buildChangePasswordSchema = (policy: PasswordPolicy) => z.object({
   current_password: z.string().min(1, 'Senha atual e obrigatoria'),
-  new_password: z.string().min(6, 'Nova senha deve ter pelo menos 6 caracteres'),
+  new_password: passwordSchema(policy),
   new_password_confirmation: z.string().min(1, 'Confirmacao de senha e obrigatoria'),
 }).refine((data) => data.new_password === data.new_password_confirmation, {
   message: 'As senhas nao coincidem',
@@ -82,7 +88,7 @@ const changePasswordSchema = z.object({
 });
 
 type ProfileFormData = z.infer<typeof profileSchema>;
-type ChangePasswordFormData = z.infer<typeof changePasswordSchema>;
+type ChangePasswordFormData = z.infer<ReturnType<typeof buildChangePasswordSchema>>;
 
 /**
  * Componente para gerenciar o perfil do usuario
@@ -128,6 +134,8 @@ const UserProfiles: React.FC = () => {
   });
 
   // Form para alteracao de senha
+  const passwordPolicy = usePasswordPolicy();
+  const changePasswordSchema = useMemo(() => buildChangePasswordSchema(passwordPolicy), [passwordPolicy]);
   const passwordForm = useForm<ChangePasswordFormData>({
     resolver: zodResolver(changePasswordSchema),
     defaultValues: {
@@ -592,9 +600,21 @@ const UserProfiles: React.FC = () => {
                   Alterar Senha
                 </Button>
               </div>
+              <TwoFactorSection />
             </div>
           </CardContent>
         </Card>
+
+        {/* Card de Sessoes Ativas */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Sessoes ativas</CardTitle>
+            <CardDescription>Dispositivos conectados a sua conta. Encerre os que voce nao reconhece.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ActiveSessionsList />
+          </CardContent>
+        </Card>
       </div>
 
       {/* Modal de Alteracao de Senha */}
@@ -653,6 +673,7 @@ const UserProfiles: React.FC = () => {
                   {passwordForm.formState.errors.new_password.message}
                 </p>
               )}
+              <PasswordStrengthMeter password={passwordForm.watch('new_password')} policy={passwordPolicy} />
             </div>
 
             <div className="space-y-2">
@@ -1,16 +1,22 @@
 import { useState, useMemo, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { Plus, Search, Pencil, Trash2, CalendarIcon } from 'lucide-react';
+import { Plus, Search, Pencil, Trash2, CalendarIcon, Eye, MonitorSmartphone, FileUp } from 'lucide-react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
 import { format } from 'date-fns';
 import { MaskedInputField } from '@/components/lib/MaskedInputField';
 import { Button } from '@/components/ui/button';
+import { Can } from '@/components/auth/Can';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { AddressAccordion } from "@/components/lib/AddressAccordion";
 import { UserForm } from '@/components/users/UserForm';
+import { ImpersonateUserDialog } from '@/components/users/ImpersonateUserDialog';
+import { UserSessionsDialog } from '@/components/users/UserSessionsDialog';
+import { UsersBulkActionsBar } from '@/components/users/UsersBulkActionsBar';
+import { UserImportDialog } from '@/components/users/UserImportDialog';
+import { Checkbox } from '@/components/ui/checkbox';
 import { 
   Table, 
   TableBody, 
@@ -71,6 +77,7 @@ import {
 import { usePermissionsList } from '@/hooks/permissions';
 import { UserRecord, CreateUserInput } from '@/types/users';
 import { toast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
 
 const userSchema = z.object({
   tipo_pessoa: z.enum(["pf", "pj"]).optional(),
@@ -115,6 +122,12 @@ export default function Users() {
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingUser, setEditingUser] = useState<UserRecord | null>(null);
   const [deletingUser, setDeletingUser] = useState<UserRecord | null>(null);
+  const [impersonatingUser, setImpersonatingUser] = useState<UserRecord | null>(null);
+  const [sessionsUser, setSessionsUser] = useState<UserRecord | null>(null);
+  // Seleção por ID, mantida entre páginas / Selection by ID, kept across pages
+  const [selectedUsers, setSelectedUsers] = useState<Record<string, UserRecord>>({});
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const { user: currentUser } = useAuth();
 
   const { data: usersData, isLoading, error } = useUsersList({ 
     page, 
@@ -181,6 +194,39 @@ export default function Users() {
     );
   }, [users, search]);
 
+  // O próprio usuário fica fora das ações em lote (evita se desativar ou trocar de grupo)
+  const selectableUsers = filteredUsers.filter((user) => String(user.id) !== String(currentUser?.id));
+  const selectedList = Object.values(selectedUsers);
+  const allSelected = selectableUsers.length > 0 && selectableUsers.every((user) => selectedUsers[user.id]);
+
+  const toggleUser = (user: UserRecord, checked: boolean) => {
+    setSelectedUsers((prev) => {
+      const next = { ...prev };
+      if (checked) next[user.id] = user;
+      else delete next[user.id];
+      return next;
+    });
+  };
+
+  const toggleAll = (checked: boolean) => {
+    setSelectedUsers((prev) => {
+      const next = { ...prev };
+      selectableUsers.forEach((user) => {
+        if (checked) next[user.id] = user;
+        else delete next[user.id];
+      });
+      return next;
+    });
+  };
+
+  const handleBulkProcessed = (succeededIds: string[]) => {
+    setSelectedUsers((prev) => {
+      const next = { ...prev };
+      succeededIds.forEach((id) => delete next[id]);
+      return next;
+    });
+  };
+
   const handleOpenModal = (user?: UserRecord) => {
     if (user) {
       // console.log(user);
@@ -362,10 +408,18 @@ export default function Users() {
           </p>
         </div>
         {/* Navega para a página dedicada de criação de usuário */}
-        <Button onClick={() => navigate('/admin/settings/users/create')}>
-          <Plus className="mr-2 h-4 w-4" />
-          Novo Usuário
-        </Button>
+        <Can action="create" menuPath="/admin/settings/users">
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => setIsImportOpen(true)}>
+              <FileUp className="mr-2 h-4 w-4" />
+              Importar CSV
+            </Button>
+            <Button onClick={() => navigate('/admin/settings/users/create')}>
+              <Plus className="mr-2 h-4 w-4" />
+              Novo Usuário
+            </Button>
+          </div>
+        </Can>
       </div>
 
       <Card>
@@ -396,22 +450,45 @@ export default function Users() {
               ) : (
                 <>
                   <p className="text-muted-foreground">Nenhum usuário encontrado.</p>
-                  <Button 
-                    onClick={() => handleOpenModal()} 
-                    className="mt-4"
-                    variant="outline"
-                  >
-                    <Plus className="mr-2 h-4 w-4" />
-                    Criar primeiro usuário
-                  </Button>
+                  <Can action="create" menuPath="/admin/settings/users">
+                    <Button 
+                      onClick={() => handleOpenModal()} 
+                      className="mt-4"
+                      variant="outline"
+                    >
+                      <Plus className="mr-2 h-4 w-4" />
+                      Criar primeiro usuário
+                    </Button>
+                  </Can>
                 </>
               )}
             </div>
           ) : (
             <>
+              {selectedList.length > 0 && (
+                <Can action="edit" menuPath="/admin/settings/users">
+                  <div className="mb-4">
+                    <UsersBulkActionsBar
+                      selectedUsers={selectedList}
+                      permissions={permissions}
+                      onProcessed={handleBulkProcessed}
+                      onClear={() => setSelectedUsers({})}
+                    />
+                  </div>
+                </Can>
+              )}
               <Table>
                 <TableHeader>
                   <TableRow>
+                    <Can action="edit" menuPath="/admin/settings/users">
+                      <TableHead className="w-10">
+                        <Checkbox
+                          checked={allSelected}
+                          onCheckedChange={(checked) => toggleAll(!!checked)}
+                          aria-label="Selecionar todos"
+                        />
+                      </TableHead>
+                    </Can>
                     <TableHead>Nome</TableHead>
                     <TableHead>Email</TableHead>
                     <TableHead>Permissão</TableHead>
@@ -422,7 +499,17 @@ export default function Users() {
                 </TableHeader>
                 <TableBody>
                   {filteredUsers.map((user) => (
-                    <TableRow key={user.id}>
+                    <TableRow key={user.id} data-state={selectedUsers[user.id] ? 'selected' : undefined}>
+                      <Can action="edit" menuPath="/admin/settings/users">
+                        <TableCell>
+                          <Checkbox
+                            checked={!!selectedUsers[user.id]}
+                            onCheckedChange={(checked) => toggleUser(user, !!checked)}
+                            disabled={String(user.id) === String(currentUser?.id)}
+                            aria-label={`Selecionar ${user.name}`}
+                          />
+                        </TableCell>
+                      </Can>
                       <TableCell className="font-medium">
                         {user.name}
                       </TableCell>
@@ -440,20 +527,46 @@ export default function Users() {
                       </TableCell>
                       <TableCell className="text-right">
                         <div className="flex justify-end space-x-2">
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={() => handleOpenModal(user)}
-                          >
-                            <Pencil className="h-4 w-4" />
-                          </Button>
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={() => setDeletingUser(user)}
-                          >
-                            <Trash2 className="h-4 w-4" />
-                          </Button>
+                          {String(user.id) !== String(currentUser?.id) && (
+                            <Can action="edit" menuPath="/admin/settings/users">
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                title="Ver como este usuário"
+                                onClick={() => setImpersonatingUser(user)}
+                              >
+                                <Eye className="h-4 w-4" />
+                              </Button>
+                            </Can>
+                          )}
+                          <Can action="edit" menuPath="/admin/settings/users">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              title="Sessões ativas"
+                              onClick={() => setSessionsUser(user)}
+                            >
+                              <MonitorSmartphone className="h-4 w-4" />
+                            </Button>
+                          </Can>
+                          <Can action="edit" menuPath="/admin/settings/users">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleOpenModal(user)}
+                            >
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                          </Can>
+                          <Can action="delete" menuPath="/admin/settings/users">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setDeletingUser(user)}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </Can>
                         </div>
                       </TableCell>
                     </TableRow>
@@ -539,6 +652,22 @@ export default function Users() {
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
+
+      <ImpersonateUserDialog
+        user={impersonatingUser}
+        onOpenChange={(open) => { if (!open) setImpersonatingUser(null); }}
+      />
+
+      <UserSessionsDialog
+        user={sessionsUser}
+        onOpenChange={(open) => { if (!open) setSessionsUser(null); }}
+      />
+
+      <UserImportDialog
+        open={isImportOpen}
+        onOpenChange={setIsImportOpen}
+        permissions={permissions}
+      />
     </div>
   );
 }
\ No newline at end of file
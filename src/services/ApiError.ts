@@ -0,0 +1,89 @@
+/**
+ * ApiError
+ * pt-BR: Erro tipado para falhas de requisição à API. Substitui o antigo
+ *        `Error & { status, body }`, mantendo `status` e `body` para compatibilidade
+ *        com os pontos que já inspecionam `error.status` / `error.body`.
+ * en-US: Typed error for API request failures. Replaces the former
+ *        `Error & { status, body }`, keeping `status` and `body` for compatibility
+ *        with code that already inspects `error.status` / `error.body`.
+ */
+
+/**
+ * ApiErrorCode
+ * pt-BR: Códigos internos para falhas sem resposta HTTP (rede, timeout, cancelamento)
+ *        e para respostas fora do schema esperado (`schema_mismatch`). `queued_offline` indica
+ *        uma mutação guardada na fila offline para reenvio posterior. `impersonation_read_only`
+ *        indica uma mutação bloqueada no modo "ver como".
+ *        Para respostas HTTP, usa o `code` retornado pela API quando existir.
+ * en-US: Internal codes for failures without an HTTP response (network, timeout, abort)
+ *        and for responses that do not match the expected schema (`schema_mismatch`). `queued_offline`
+ *        marks a mutation stored in the offline queue to be replayed later. `impersonation_read_only`
+ *        marks a mutation blocked in "view as" mode.
+ *        For HTTP responses, uses the API-provided `code` when available.
+ */
+export type ApiErrorCode = 'network_error' | 'timeout' | 'aborted' | 'http_error' | 'schema_mismatch' | 'queued_offline' | 'impersonation_read_only' | (string & {});
+
+export class ApiError<TBody = unknown> extends Error {
+  readonly status: number;
+  readonly code: ApiErrorCode;
+  readonly body: TBody | null;
+  /** Número de tentativas realizadas até a falha / Attempts made before failing */
+  attempts: number;
+
+  constructor(message: string, options: { status?: number; code?: ApiErrorCode; body?: TBody | null; attempts?: number } = {}) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = options.status ?? 0;
+    this.code = options.code ?? 'http_error';
+    this.body = options.body ?? null;
+    this.attempts = options.attempts ?? 1;
+    Object.setPrototypeOf(this, ApiError.prototype);
+  }
+
+  /**
+   * fromResponse
+   * pt-BR: Cria um ApiError a partir de uma resposta HTTP não-ok já lida.
+   * en-US: Builds an ApiError from an already-read non-ok HTTP response.
+   */
+  static fromResponse<TBody = Record<string, unknown>>(response: Response, body: TBody | null): ApiError<TBody> {
+    const fields = (body && typeof body === 'object' ? body : {}) as Record<string, unknown>;
+    const message = String(fields.message || fields.error || 'Erro na requisição');
+    const code = typeof fields.code === 'string' && fields.code ? fields.code : 'http_error';
+    return new ApiError<TBody>(message, { status: response.status, code, body });
+  }
+
+  /** Falha sem resposta HTTP / Failure without an HTTP response */
+  get isNetworkError(): boolean {
+    return this.code === 'network_error';
+  }
+
+  get isTimeout(): boolean {
+    return this.code === 'timeout';
+  }
+
+  get isAborted(): boolean {
+    return this.code === 'aborted';
+  }
+
+  /**
+   * Ação negada pela API (403). A interface esconde o que o menu não permite, mas a API decide.
+   * Action denied by the API (403). The UI hides what the menu forbids, but the API decides.
+   */
+  get isForbidden(): boolean {
+    return this.status === 403;
+  }
+
+  /** Mutação guardada na fila offline / Mutation stored in the offline queue */
+  get isQueuedOffline(): boolean {
+    return this.code === 'queued_offline';
+  }
+}
+
+/**
+ * isApiError
+ * pt-BR: Type guard para ApiError.
+ * en-US: Type guard for ApiError.
+ */
+export function isApiError(error: unknown): error is ApiError {
+  return error instanceof ApiError;
+}
@@ -1,90 +1,42 @@
 import { PaginatedResponse } from '@/types/index';
-import { getTenantIdFromSubdomain, getTenantApiUrl, getVersionApi } from '@/lib/qlib';
-import { authService } from '@/services/authService';
-import { emitInvalidToken, emitInactiveUser } from '@/services/authEvents';
+import { getTenantApiUrl, getVersionApi } from '@/lib/qlib';
+import { getTenantId } from '@/lib/tenant';
+import { HttpCallOptions, HttpRequestConfig, httpClient } from '@/services/httpClient';
+import { RequestPolicy } from '@/services/requestPolicy';
+import { offlineQueue } from '@/services/offlineQueue';
 
 /**
  * Classe base para todos os serviços de API
- * Fornece funcionalidades comuns como headers, tratamento de erros e normalização de respostas
+ * Fornece funcionalidades comuns como requisições, tratamento de erros e normalização de respostas.
+ * pt-BR: As requisições passam pelo `httpClient` compartilhado, que aplica headers de auth/tenant,
+ *        política de retry e mapeamento de erros por meio de interceptadores.
+ * en-US: Requests go through the shared `httpClient`, which applies auth/tenant headers,
+ *        retry policy and error mapping through interceptors.
  */
 export abstract class BaseApiService {
   protected readonly API_BASE_URL: string;
   protected readonly tenant_id: string;
   protected readonly api_version: string;
+  protected readonly http = httpClient;
+  /**
+   * Política de requisição do serviço (timeout/retry)
+   * pt-BR: Sobrescreve a política do cliente; ajustável via `setRequestPolicy` ou por chamada.
+   * en-US: Overrides the client policy; tunable via `setRequestPolicy` or per call.
+   */
+  protected requestPolicy: Partial<RequestPolicy> = {};
 
   constructor() {
-    this.tenant_id = getTenantIdFromSubdomain() || 'default';
+    this.tenant_id = getTenantId();
     this.api_version = getVersionApi();
     this.API_BASE_URL = getTenantApiUrl() + this.api_version;
   }
 
   /**
-   * Obtém os headers padrão para requisições
+   * Ajusta a política de requisição deste serviço
+   * @param policy - Campos da política a sobrescrever
    */
-  protected getHeaders(): HeadersInit {
-    const headers: HeadersInit = {
-      'Content-Type': 'application/json',
-      'Accept': 'application/json',
-    };
-
-    const token = localStorage.getItem('auth_token');
-    if (token) {
-      headers['Authorization'] = `Bearer ${token}`;
-    }
-
-    return headers;
-  }
-
-  /**
-   * Trata a resposta da API e converte para JSON
-   * @param response - Resposta da requisição fetch
-   */
-  protected async handleResponse<T>(response: Response): Promise<T> {
-    if (!response.ok) {
-      let errorMessage = 'Erro na requisição';
-      let errorBody: any = null;
-      try {
-        errorBody = await response.json();
-        errorMessage = errorBody?.message || errorBody?.error || errorMessage;
-      } catch {
-        // ignore json parse errors
-      }
-      
-      // Detecta usuário inativo pelo conteúdo da mensagem/corpo
-      const lowerMsg = String(errorMessage || '').toLowerCase();
-      const bodyText = JSON.stringify(errorBody || {}).toLowerCase();
-      const inactiveRegex = /(usuario\s*inativo|usuário\s*inativo|inactive\s*user|user\s*inactive|inactive|inativo)/i;
-      const isInactive = inactiveRegex.test(lowerMsg) || inactiveRegex.test(bodyText) ||
-        ['inactive','user_inactive','usuario_inativo','usuario-inativo'].includes(String(errorBody?.code || '').toLowerCase());
-
-      // Criar erro com status code para verificação de acesso
-      const error = new Error(errorMessage) as Error & { status?: number; body?: any };
-      error.status = response.status;
-      error.body = errorBody;
-
-      // Logout imediato se usuário inativo
-      if (isInactive) {
-        emitInactiveUser();
-      }
-
-      // Validação de token em erros de permissão
-      // pt-BR: Se 403/401, valida token via GET; se inválido, dispara logout.
-      // en-US: On 403/401, validate token via GET; if invalid, trigger logout.
-      if (response.status === 403 || response.status === 401) {
-        try {
-          const token = localStorage.getItem('auth_token');
-          const isValid = await authService.validateToken(token || undefined);
-          if (!isValid) {
-            emitInvalidToken();
-          }
-        } catch {
-          // Em caso de erro inesperado na validação, não forçar logout
-        }
-      }
-      
-      throw error;
-    }
-    return response.json();
+  setRequestPolicy(policy: Partial<RequestPolicy>): void {
+    this.requestPolicy = { ...this.requestPolicy, ...policy };
   }
 
   /**
@@ -138,71 +90,71 @@ export abstract class BaseApiService {
     };
   }
 
+  /**
+   * Executa uma requisição pelo cliente HTTP aplicando a política do serviço
+   * pt-BR: Use para casos fora dos atalhos (FormData, urlencoded, Blob, headers extras).
+   * en-US: Use for cases beyond the shortcuts (FormData, urlencoded, Blob, extra headers).
+   * pt-BR: Envia o tenant do serviço em `X-Tenant`, sem depender só do templating da URL.
+   * en-US: Sends the service tenant in `X-Tenant`, not relying only on URL templating.
+   * @param config - Configuração da requisição (`url` relativa ao endpoint da API)
+   */
+  protected request<T>(config: HttpRequestConfig): Promise<T> {
+    return this.http.request<T>({
+      ...this.requestPolicy,
+      ...config,
+      headers: { 'X-Tenant': this.tenant_id, ...config.headers },
+    });
+  }
+
   /**
    * Executa requisição GET
    * @param endpoint - Endpoint da API
    * @param params - Parâmetros de query
+   * @param options - Timeout, retry, AbortSignal e headers da chamada
    */
-  protected async get<T>(endpoint: string, params?: Record<string, any>): Promise<T> {
-    const url = this.buildUrlWithParams(`${this.API_BASE_URL}${endpoint}`, params);
-    const response = await fetch(url, {
-      method: 'GET',
-      headers: this.getHeaders(),
-    });
-    return this.handleResponse<T>(response);
+  protected async get<T>(endpoint: string, params?: Record<string, any>, options?: HttpCallOptions): Promise<T> {
+    const data = await this.request<T>({ ...options, method: 'GET', url: endpoint, params });
+    // Guarda o `updated_at` lido para detectar conflitos ao reenviar a fila offline
+    offlineQueue.rememberVersion(endpoint, data);
+    return data;
   }
 
   /**
    * Executa requisição POST
    * @param endpoint - Endpoint da API
    * @param data - Dados para envio
+   * @param options - Timeout, retry, AbortSignal e headers da chamada
    */
-  protected async post<T>(endpoint: string, data?: any): Promise<T> {
-    const response = await fetch(`${this.API_BASE_URL}${endpoint}`, {
-      method: 'POST',
-      headers: this.getHeaders(),
-      body: data ? JSON.stringify(data) : undefined,
-    });
-    return this.handleResponse<T>(response);
+  protected async post<T>(endpoint: string, data?: any, options?: HttpCallOptions): Promise<T> {
+    return this.request<T>({ ...options, method: 'POST', url: endpoint, data });
   }
 
   /**
    * Executa requisição PUT
    * @param endpoint - Endpoint da API
    * @param data - Dados para envio
+   * @param options - Timeout, retry, AbortSignal e headers da chamada
    */
-  protected async put<T>(endpoint: string, data?: any): Promise<T> {
-    const response = await fetch(`${this.API_BASE_URL}${endpoint}`, {
-      method: 'PUT',
-      headers: this.getHeaders(),
-      body: data ? JSON.stringify(data) : undefined,
-    });
-    return this.handleResponse<T>(response);
+  protected async put<T>(endpoint: string, data?: any, options?: HttpCallOptions): Promise<T> {
+    return this.request<T>({ ...options, method: 'PUT', url: endpoint, data });
   }
 
   /**
    * Executa requisição PATCH
    * @param endpoint - Endpoint da API
    * @param data - Dados para enviar no corpo da requisição
+   * @param options - Timeout, retry, AbortSignal e headers da chamada
    */
-  protected async patch<T>(endpoint: string, data?: any): Promise<T> {
-    const response = await fetch(`${this.API_BASE_URL}${endpoint}`, {
-      method: 'PATCH',
-      headers: this.getHeaders(),
-      body: data ? JSON.stringify(data) : undefined,
-    });
-    return this.handleResponse<T>(response);
+  protected async patch<T>(endpoint: string, data?: any, options?: HttpCallOptions): Promise<T> {
+    return this.request<T>({ ...options, method: 'PATCH', url: endpoint, data });
   }
 
   /**
    * Executa requisição DELETE
    * @param endpoint - Endpoint da API
+   * @param options - Timeout, retry, AbortSignal e headers da chamada
    */
-  protected async delete<T>(endpoint: string): Promise<T> {
-    const response = await fetch(`${this.API_BASE_URL}${endpoint}`, {
-      method: 'DELETE',
-      headers: this.getHeaders(),
-    });
-    return this.handleResponse<T>(response);
+  protected async delete<T>(endpoint: string, options?: HttpCallOptions): Promise<T> {
+    return this.request<T>({ ...options, method: 'DELETE', url: endpoint });
   }
-}
\ No newline at end of file
+}
@@ -1,5 +1,16 @@
+import type { ZodTypeAny } from 'zod';
 import { BaseApiService } from './BaseApiService';
-import { ApiResponse, PaginatedResponse } from '@/types/index';
+import { PaginatedResponse } from '@/types/index';
+import type { AuditLogEntry, AuditLogParams } from '@/types/audit';
+import { RequestOptions } from './requestPolicy';
+import { auditService, auditSubjectFromEndpoint } from './auditService';
+import {
+  ResponseValidationMode,
+  paginatedEnvelopeSchema,
+  resolveValidationMode,
+  validateEntity,
+  validateList,
+} from './responseSchema';
 
 /**
  * Parâmetros para listagem genérica
@@ -13,48 +24,57 @@ export interface GenericListParams {
   [key: string]: any; // Permite parâmetros adicionais específicos
 }
 
+/**
+ * Opções do serviço genérico
+ * pt-BR: `schema` valida cada registro retornado (listas e detalhes); `validation`
+ *        sobrescreve o modo global (`VITE_API_SCHEMA_MODE`).
+ * en-US: `schema` validates each returned record (lists and details); `validation`
+ *        overrides the global mode (`VITE_API_SCHEMA_MODE`).
+ */
+export interface GenericServiceOptions {
+  schema?: ZodTypeAny;
+  validation?: ResponseValidationMode;
+}
+
 /**
  * Serviço genérico para operações CRUD
  * Permite usar qualquer endpoint passando-o como parâmetro
  */
 export class GenericApiService<T = any, CreateInput = any, UpdateInput = any> extends BaseApiService {
   private endpoint: string;
+  protected readonly schema?: ZodTypeAny;
+  protected readonly validationMode: ResponseValidationMode;
 
   /**
    * Construtor do serviço genérico
    * @param endpoint - Endpoint base para as operações (ex: '/users', '/products')
+   * @param options - Schema zod do recurso e modo de validação
    */
-  constructor(endpoint: string) {
+  constructor(endpoint: string, options: GenericServiceOptions = {}) {
     super();
     this.endpoint = endpoint;
+    this.schema = options.schema;
+    this.validationMode = options.validation ?? resolveValidationMode();
   }
 
   /**
    * Lista todos os registros com paginação e filtros
    * @param params - Parâmetros de filtro e paginação
+   * @param options - Timeout, retry e AbortSignal da chamada
    */
-  async list(params?: GenericListParams): Promise<PaginatedResponse<T>> {
-    const response = await this.get<any>(this.endpoint, params);
-    return this.normalizePaginatedResponse<T>(response);
+  async list(params?: GenericListParams, options?: RequestOptions): Promise<PaginatedResponse<T>> {
+    const response = await this.get<any>(this.endpoint, params, options);
+    return this.parseList(response, 'list');
   }
 
   /**
    * Obtém um registro por ID
    * @param id - ID do registro
+   * @param options - Timeout, retry e AbortSignal da chamada
    */
-  async getById(id: string | number): Promise<T> {
-    /**
-     * Fallback de normalização de resposta
-     * pt-BR: Alguns endpoints retornam o objeto diretamente (sem wrapper { data }).
-     *        Para evitar `undefined` no React Query, retornamos `response.data ?? response`.
-     * en-US: Some endpoints return the object directly (without { data } wrapper).
-     *        To avoid `undefined` in React Query, we return `response.data ?? response`.
-     */
-    const response = await this.get<any>(`${this.endpoint}/${id}`);
-    const normalized = (response && typeof response === 'object' && 'data' in response)
-      ? (response.data as T)
-      : (response as T);
-    return normalized;
+  async getById(id: string | number, options?: RequestOptions): Promise<T> {
+    const response = await this.get<unknown>(`${this.endpoint}/${id}`, undefined, options);
+    return this.parseEntity(response, 'getById');
   }
 
   /**
@@ -62,8 +82,8 @@ export class GenericApiService<T = any, CreateInput = any, UpdateInput = any> ex
    * @param data - Dados do registro
    */
   async create(data: CreateInput): Promise<T> {
-    const response = await this.post<ApiResponse<T>>(this.endpoint, data);
-    return response.data;
+    const response = await this.post<unknown>(this.endpoint, data);
+    return this.parseEntity(response, 'create');
   }
 
   /**
@@ -72,8 +92,8 @@ export class GenericApiService<T = any, CreateInput = any, UpdateInput = any> ex
    * @param data - Dados para atualização
    */
   async update(id: string | number, data: UpdateInput): Promise<T> {
-    const response = await this.put<ApiResponse<T>>(`${this.endpoint}/${id}`, data);
-    return response.data;
+    const response = await this.put<unknown>(`${this.endpoint}/${id}`, data);
+    return this.parseEntity(response, 'update');
   }
 
   /**
@@ -88,10 +108,11 @@ export class GenericApiService<T = any, CreateInput = any, UpdateInput = any> ex
    * Executa uma requisição GET personalizada
    * @param customEndpoint - Endpoint personalizado (será concatenado com o endpoint base)
    * @param params - Parâmetros de query
+   * @param options - Timeout, retry e AbortSignal da chamada
    */
-  async customGet<R = any>(customEndpoint: string = '', params?: Record<string, any>): Promise<R> {
+  async customGet<R = any>(customEndpoint: string = '', params?: Record<string, any>, options?: RequestOptions): Promise<R> {
     const fullEndpoint = customEndpoint ? `${this.endpoint}${customEndpoint}` : this.endpoint;
-    return this.get<R>(fullEndpoint, params);
+    return this.get<R>(fullEndpoint, params, options);
   }
 
   /**
@@ -127,10 +148,11 @@ export class GenericApiService<T = any, CreateInput = any, UpdateInput = any> ex
    * Busca registros por termo de pesquisa
    * @param search - Termo de pesquisa
    * @param params - Parâmetros adicionais
+   * @param options - Timeout, retry e AbortSignal da chamada
    */
-  async search(search: string, params?: GenericListParams): Promise<PaginatedResponse<T>> {
+  async search(search: string, params?: GenericListParams, options?: RequestOptions): Promise<PaginatedResponse<T>> {
     const searchParams = { ...params, search };
-    return this.list(searchParams);
+    return this.list(searchParams, options);
   }
 
   /**
@@ -138,7 +160,7 @@ export class GenericApiService<T = any, CreateInput = any, UpdateInput = any> ex
    * @param statsEndpoint - Endpoint específico para estatísticas (ex: '/stats')
    */
   async getStats<StatsType = any>(statsEndpoint: string = '/stats'): Promise<StatsType> {
-    const response = await this.get<ApiResponse<StatsType>>(`${this.endpoint}${statsEndpoint}`);
+    const response = await this.get<{ data: StatsType }>(`${this.endpoint}${statsEndpoint}`);
     return response.data;
   }
 
@@ -150,8 +172,8 @@ export class GenericApiService<T = any, CreateInput = any, UpdateInput = any> ex
    */
   async updateField(id: string | number, field: string, value: any): Promise<T> {
     const data = { [field]: value };
-    const response = await this.put<ApiResponse<T>>(`${this.endpoint}/${id}/${field}`, data);
-    return response.data;
+    const response = await this.put<unknown>(`${this.endpoint}/${id}/${field}`, data);
+    return this.parseEntity(response, 'updateField');
   }
 
   /**
@@ -159,8 +181,49 @@ export class GenericApiService<T = any, CreateInput = any, UpdateInput = any> ex
    * @param id - ID do registro a ser duplicado
    */
   async duplicate(id: string | number): Promise<T> {
-    const response = await this.post<ApiResponse<T>>(`${this.endpoint}/${id}/duplicate`);
-    return response.data;
+    const response = await this.post<unknown>(`${this.endpoint}/${id}/duplicate`);
+    return this.parseEntity(response, 'duplicate');
+  }
+
+  /**
+   * Histórico de alterações de um registro (trilha de auditoria gravada pela API)
+   * @param id - ID do registro
+   * @param params - Filtros e paginação da auditoria
+   */
+  async getHistory(id: string | number, params?: AuditLogParams): Promise<PaginatedResponse<AuditLogEntry>> {
+    return auditService.forRecord(auditSubjectFromEndpoint(this.endpoint), id, params);
+  }
+
+  /**
+   * Normaliza e valida uma listagem
+   * pt-BR: Único ponto que interpreta os formatos de listagem da API (`data`, `items`, array)
+   *        e confere cada item contra o schema do recurso.
+   * en-US: Single place that interprets the API listing shapes (`data`, `items`, array)
+   *        and checks each item against the resource schema.
+   * @param response - Resposta bruta da API
+   * @param operation - Nome da operação (usado nos avisos)
+   */
+  protected parseList(response: unknown, operation: string): PaginatedResponse<T> {
+    const context = { endpoint: this.endpoint, operation };
+    if (this.schema) validateEntity(paginatedEnvelopeSchema, response, context, this.validationMode);
+    const page = this.normalizePaginatedResponse<T>(response ?? {});
+    return { ...page, data: validateList<T>(this.schema, page.data, context, this.validationMode) };
+  }
+
+  /**
+   * Normaliza e valida um registro
+   * pt-BR: Alguns endpoints retornam o objeto diretamente (sem wrapper { data }).
+   *        Usa `response.data ?? response` e confere o resultado contra o schema.
+   * en-US: Some endpoints return the object directly (without { data } wrapper).
+   *        Uses `response.data ?? response` and checks the result against the schema.
+   * @param response - Resposta bruta da API
+   * @param operation - Nome da operação (usado nos avisos)
+   */
+  protected parseEntity(response: unknown, operation: string): T {
+    const entity = (response && typeof response === 'object' && 'data' in response)
+      ? (response as { data: unknown }).data
+      : response;
+    return validateEntity<T>(this.schema, entity, { endpoint: this.endpoint, operation }, this.validationMode);
   }
 
   /**
@@ -182,11 +245,13 @@ export class GenericApiService<T = any, CreateInput = any, UpdateInput = any> ex
 /**
  * Factory function para criar instâncias do serviço genérico
  * @param endpoint - Endpoint base
+ * @param options - Schema zod do recurso e modo de validação (opcional)
  */
 export function createGenericService<T = any, CreateInput = any, UpdateInput = any>(
-  endpoint: string
+  endpoint: string,
+  options?: GenericServiceOptions
 ): GenericApiService<T, CreateInput, UpdateInput> {
-  return new GenericApiService<T, CreateInput, UpdateInput>(endpoint);
+  return new GenericApiService<T, CreateInput, UpdateInput>(endpoint, options);
 }
 
 /**
@@ -205,6 +270,11 @@ export function createGenericService<T = any, CreateInput = any, UpdateInput = a
  * await usersService.update('123', { name: 'João Silva' });
  * await usersService.deleteById('123');
  * 
+ * // Com schema zod: respostas validadas e normalizadas no serviço
+ * const coursesService = createGenericService<CourseRecord>('/cursos', {
+ *   schema: z.object({ id: z.coerce.string(), titulo: z.string() }).passthrough(),
+ * });
+ * 
  * // Uso avançado
  * const stats = await usersService.getStats();
  * const searchResults = await usersService.search('joão');
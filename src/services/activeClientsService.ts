@@ -19,6 +19,11 @@ export interface ActiveClientCompleteData extends ActiveClientStep1Data {
   password: string;
 }
 
+export interface FormTokenResponse {
+  token: string;
+  expires_at?: string;
+}
+
 export interface ActiveClientResponse {
   id: string;
   name: string;
@@ -42,6 +47,17 @@ class ActiveClientsService extends GenericApiService<
     super('/clients/active');
   }
 
+  /**
+   * Gera o token de segurança do formulário público (POST `/public/form-token`, sem sessão)
+   */
+  async generateFormToken(): Promise<FormTokenResponse> {
+    const response = await this.post<FormTokenResponse & { data?: FormTokenResponse }>('/public/form-token', undefined, {
+      skipAuth: true,
+      skipAuthErrorHandling: true,
+    });
+    return response.data ?? response;
+  }
+
   /**
    * Primeira etapa: verificação e registro inicial
    * @param data - Dados do cliente
@@ -74,17 +90,7 @@ class ActiveClientsService extends GenericApiService<
    * @param token - Token de segurança
    */
   private async postWithToken<T>(endpoint: string, data?: any, token?: string): Promise<T> {
-    const headers = this.getHeaders();
-    if (token) {
-      headers['X-Form-Token'] = token;
-    }
-
-    const response = await fetch(`${this.API_BASE_URL}${endpoint}`, {
-      method: 'POST',
-      headers,
-      body: data ? JSON.stringify(data) : undefined,
-    });
-    return this.handleResponse<T>(response);
+    return this.post<T>(endpoint, data, { headers: this.formTokenHeaders(token) });
   }
 
   /**
@@ -94,17 +100,15 @@ class ActiveClientsService extends GenericApiService<
    * @param token - Token de segurança
    */
   private async putWithToken<T>(endpoint: string, data?: any, token?: string): Promise<T> {
-    const headers = this.getHeaders();
-    if (token) {
-      headers['X-Form-Token'] = token;
-    }
+    return this.put<T>(endpoint, data, { headers: this.formTokenHeaders(token) });
+  }
 
-    const response = await fetch(`${this.API_BASE_URL}${endpoint}`, {
-      method: 'PUT',
-      headers,
-      body: data ? JSON.stringify(data) : undefined,
-    });
-    return this.handleResponse<T>(response);
+  /**
+   * Header `X-Form-Token` do formulário público, quando informado
+   * @param token - Token de segurança
+   */
+  private formTokenHeaders(token?: string): Record<string, string> {
+    return token ? { 'X-Form-Token': token } : {};
   }
 
   // Implementação da interface GenericApiService
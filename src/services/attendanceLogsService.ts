@@ -65,4 +65,22 @@ export function getLastByClient(clientId: string): AttendanceLog | undefined {
   const logs = getByClient(clientId);
   if (logs.length === 0) return undefined;
   return logs.sort((a, b) => (a.timestamp > b.timestamp ? -1 : 1))[0];
-}
\ No newline at end of file
+}
+
+/**
+ * reassignClient
+ * pt-BR: Move os registros locais dos clientes mesclados para o cliente mantido.
+ * en-US: Moves the local logs of merged clients to the kept client.
+ * @returns Quantidade de registros movidos / Number of moved logs
+ */
+export function reassignClient(fromClientIds: string[], toClientId: string): number {
+  const logs = loadAll();
+  let moved = 0;
+  const next = logs.map((log) => {
+    if (!fromClientIds.includes(log.clientId)) return log;
+    moved += 1;
+    return { ...log, clientId: String(toClientId) };
+  });
+  if (moved) saveAll(next);
+  return moved;
+}
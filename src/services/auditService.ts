@@ -0,0 +1,40 @@
+import { BaseApiService } from './BaseApiService';
+import { PaginatedResponse } from '@/types/index';
+import type { AuditLogEntry, AuditLogParams } from '@/types/audit';
+
+/**
+ * Serviço da trilha de auditoria
+ * pt-BR: Leitura dos registros de `/audit-logs`, gravados pela API; o frontend não escreve
+ *        na auditoria. `subject_type` é o caminho do recurso sem a barra (ex.: `clients`).
+ * en-US: Reads the `/audit-logs` entries written by the API; the frontend never writes to
+ *        the audit trail. `subject_type` is the resource path without the slash (e.g. `clients`).
+ */
+class AuditService extends BaseApiService {
+  private readonly endpoint = '/audit-logs';
+
+  async list(params?: AuditLogParams): Promise<PaginatedResponse<AuditLogEntry>> {
+    const response = await this.get<unknown>(this.endpoint, { ...params });
+    return this.normalizePaginatedResponse<AuditLogEntry>(response ?? {});
+  }
+
+  /**
+   * Histórico de um registro, do mais recente para o mais antigo
+   * @param subjectType - Recurso (ex.: `clients`, `service-orders`, `matriculas`)
+   * @param subjectId - ID do registro
+   */
+  async forRecord(subjectType: string, subjectId: string | number, params?: AuditLogParams): Promise<PaginatedResponse<AuditLogEntry>> {
+    return this.list({ per_page: 50, ...params, subject_type: subjectType, subject_id: String(subjectId) });
+  }
+}
+
+/**
+ * auditSubjectFromEndpoint
+ * pt-BR: Converte o endpoint de um serviço (`/service-orders`) no `subject_type` da auditoria.
+ * en-US: Turns a service endpoint (`/service-orders`) into the audit `subject_type`.
+ */
+export function auditSubjectFromEndpoint(endpoint: string): string {
+  return endpoint.replace(/^\/+|\/+$/g, '');
+}
+
+// Instância singleton do serviço
+export const auditService = new AuditService();
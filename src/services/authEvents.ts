@@ -40,4 +40,15 @@ export function emitInactiveUser(): void {
     // @ts-expect-error Emissão simplificada
     window.dispatchEvent(evt);
   }
-}
\ No newline at end of file
+}
+
+/**
+ * emitTokenRefreshed
+ * pt-BR: Emite um evento global após a renovação silenciosa do token de acesso.
+ *        O AuthContext atualiza o token em memória sem interromper a sessão.
+ * en-US: Emits a global event after the access token is silently refreshed.
+ *        The AuthContext updates the in-memory token without interrupting the session.
+ */
+export function emitTokenRefreshed(token: string): void {
+  window.dispatchEvent(new CustomEvent('auth:token_refreshed', { detail: { token } }));
+}
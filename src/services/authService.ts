@@ -1,25 +1,72 @@
-import { LoginCredentials, RegisterData, ForgotPasswordData, ResetPasswordData, AuthResponse, User } from '@/types/auth';
+import {
+  LoginCredentials, RegisterData, ForgotPasswordData, ResetPasswordData, AuthResponse, User,
+  PasswordlessLoginRequest, PasswordlessChallenge, PasswordlessVerifyInput,
+} from '@/types/auth';
 import { MenuItemDTO } from '@/types/menu';
-import { getTenantIdFromSubdomain, getTenantApiUrl, getVersionApi } from '@/lib/qlib';
-const tenant_id = getTenantIdFromSubdomain() || 'default';
-const api_version = getVersionApi();
-const API_BASE_URL = getTenantApiUrl() + api_version;
-class AuthService {
-  private getHeaders(includeAuth = false): HeadersInit {
-    const headers: HeadersInit = {
-      'Content-Type': 'application/json',
-      'Accept': 'application/json',
-    };
-
-    if (includeAuth) {
-      const token = localStorage.getItem('auth_token');
-      if (token) {
-        headers['Authorization'] = `Bearer ${token}`;
-      }
-    }
+import type { TwoFactorChallenge, TwoFactorVerifyInput } from '@/types/twoFactor';
+import type { LoginThrottle } from '@/types/security';
+import { BaseApiService } from './BaseApiService';
+import { isApiError } from './ApiError';
+import { httpClient } from './httpClient';
+import { createSessionRecoveryInterceptor, SessionRecoveryResult } from './httpInterceptors';
+import { emitTokenRefreshed } from './authEvents';
+
+/**
+ * Opções das chamadas públicas de autenticação
+ * pt-BR: Login, cadastro e recuperação de senha não enviam token nem acionam a
+ *        revalidação em 401/403 (um 401 aqui significa credenciais inválidas).
+ * en-US: Login, registration and password recovery send no token and do not trigger
+ *        401/403 revalidation (a 401 here means invalid credentials).
+ */
+const PUBLIC_CALL = { skipAuth: true, skipAuthErrorHandling: true } as const;
+
+const TRUSTED_DEVICES_KEY = 'auth_trusted_devices';
+
+/**
+ * isTwoFactorChallenge
+ * pt-BR: Indica que o login parou no segundo fator e aguarda o código do app.
+ * en-US: Tells that the login stopped at the second factor and awaits the app code.
+ */
+export function isTwoFactorChallenge(data: unknown): data is TwoFactorChallenge {
+  return !!data && typeof data === 'object' && (data as TwoFactorChallenge).two_factor_required === true;
+}
 
-    return headers;
-  }
+/**
+ * loginThrottleFromError
+ * pt-BR: Lê do erro do login o estado de proteção devolvido pela API (`attempts_remaining`,
+ *        `retry_after` em segundos, `captcha_required`, `captcha_provider`, `locked_until`).
+ *        Retorna `null` quando o erro não traz nenhum desses campos.
+ * en-US: Reads the protection state returned by the API from a login error (`attempts_remaining`,
+ *        `retry_after` in seconds, `captcha_required`, `captcha_provider`, `locked_until`).
+ *        Returns `null` when the error carries none of those fields.
+ */
+export function loginThrottleFromError(error: unknown, email: string): LoginThrottle | null {
+  if (!isApiError(error) || !error.body || typeof error.body !== 'object') return null;
+  const body = error.body as Record<string, unknown>;
+  const retryAfter = Number(body.retry_after);
+  const throttle: LoginThrottle = {
+    email,
+    attempts_remaining: typeof body.attempts_remaining === 'number' ? body.attempts_remaining : undefined,
+    retry_at: Number.isFinite(retryAfter) && retryAfter > 0 ? Date.now() + retryAfter * 1000 : undefined,
+    captcha_required: body.captcha_required === true,
+    captcha_provider: typeof body.captcha_provider === 'string' ? body.captcha_provider : undefined,
+    locked_until: typeof body.locked_until === 'string' ? body.locked_until : undefined,
+  };
+  const hasState = throttle.attempts_remaining !== undefined || throttle.retry_at || throttle.captcha_required || throttle.locked_until;
+  return hasState ? throttle : null;
+}
+
+export function isLoginLocked(throttle: LoginThrottle | null): boolean {
+  return !!throttle?.locked_until && Date.parse(throttle.locked_until) > Date.now();
+}
+
+class AuthService extends BaseApiService {
+  /**
+   * Recuperação de sessão em andamento (single-flight)
+   * pt-BR: Todas as requisições que falham com 401/403 ao mesmo tempo aguardam a mesma promessa.
+   * en-US: Every request failing with 401/403 at the same time awaits the same promise.
+   */
+  private sessionRecovery: Promise<SessionRecoveryResult> | null = null;
 
   /**
    * validateToken
@@ -32,103 +79,197 @@ class AuthService {
     const tk = token || localStorage.getItem('auth_token');
     if (!tk) return false;
     try {
-      const response = await fetch(`${API_BASE_URL}/user/validate-token/${tk}`, {
-        method: 'GET',
-        headers: this.getHeaders(false),
-      });
-
-      if (!response.ok) {
-        // Considera inválido para 401/403/419; outros erros são propagados
-        if ([401, 403, 419].includes(response.status)) {
-          return false;
-        }
-        // Para outros status, tenta obter mensagem mas retorna false como padrão seguro
-        return false;
-      }
+      const data = await this.get<any>(`/user/validate-token/${tk}`, undefined, { ...PUBLIC_CALL, retries: 0 });
 
-      // Tenta interpretar resposta com campo `valid`
-      try {
-        const data = await response.json();
-        if (typeof data?.valid === 'boolean') {
-          return data.valid;
-        }
-      } catch {
-        // Se não conseguir parsear, assume válido para evitar logout indevido
-        return true;
+      // Tenta interpretar resposta com campo `valid`; sem o campo (ou corpo não-JSON), assume válido
+      if (typeof data?.valid === 'boolean') {
+        return data.valid;
       }
-
-      // Sem campo `valid`, assume válido
       return true;
     } catch (error) {
+      // Status HTTP (401/403/419 ou outros) contam como inválido, por segurança
+      if (isApiError(error) && error.status) {
+        return false;
+      }
       // Em erros de rede, não forçar logout automaticamente
       console.warn('Falha ao validar token:', error);
       return true;
     }
   }
 
-  private async handleResponse<T>(response: Response): Promise<T> {
-    if (!response.ok) {
-      let errorMessage = 'Erro na requisição';
-      let errorBody: any = null;
-      try {
-        errorBody = await response.json();
-        errorMessage = errorBody?.message || errorMessage;
-      } catch {
-        // ignore json parse errors
-      }
-      const error = new Error(errorMessage) as Error & { status?: number; body?: any };
-      error.status = response.status;
-      error.body = errorBody;
-      throw error;
+  /**
+   * login
+   * pt-BR: Envia o token de dispositivo confiável do e-mail, se houver. Contas com 2FA
+   *        devolvem um `TwoFactorChallenge`, concluído por `verifyTwoFactor`.
+   * en-US: Sends the email's trusted device token, if any. Accounts with 2FA return a
+   *        `TwoFactorChallenge`, completed through `verifyTwoFactor`.
+   */
+  async login(credentials: LoginCredentials): Promise<AuthResponse | TwoFactorChallenge> {
+    const deviceToken = this.getTrustedDeviceToken(credentials.email);
+    const data = await this.post<AuthResponse | TwoFactorChallenge>(
+      '/login',
+      { ...credentials, device_token: deviceToken || undefined },
+      PUBLIC_CALL
+    );
+
+    if (isTwoFactorChallenge(data)) {
+      return data;
+    }
+    if (data.token) {
+      this.persistSession(data);
+    }
+
+    return data;
+  }
+
+  /**
+   * verifyTwoFactor
+   * pt-BR: Segundo passo do login com o código do app ou de recuperação. Com
+   *        `remember_device`, guarda o token de dispositivo devolvido pela API para o e-mail.
+   * en-US: Second login step with the app or recovery code. With `remember_device`,
+   *        stores the device token returned by the API for the email.
+   */
+  async verifyTwoFactor(input: TwoFactorVerifyInput, email: string): Promise<AuthResponse> {
+    const data = await this.post<AuthResponse>('/login/two-factor', input, { ...PUBLIC_CALL, retries: 0 });
+    if (data.token) {
+      this.persistSession(data);
+    }
+    if (input.remember_device && data.device_token) {
+      this.storeTrustedDevice(email, data.device_token);
     }
-    return response.json();
+    return data;
   }
 
-  async login(credentials: LoginCredentials): Promise<AuthResponse> {
-    const response = await fetch(`${API_BASE_URL}/login`, {
-      method: 'POST',
-      headers: this.getHeaders(),
-      body: JSON.stringify(credentials),
-    });
+  /**
+   * requestPasswordlessLogin
+   * pt-BR: Pede o código e o link de acesso por e-mail. A resposta é a mesma para cadastros
+   *        inexistentes, para não revelar quem é cliente.
+   * en-US: Requests the access code and link by email. The response is the same for unknown
+   *        accounts, so it does not reveal who is a client.
+   */
+  async requestPasswordlessLogin(data: PasswordlessLoginRequest): Promise<PasswordlessChallenge> {
+    return this.post<PasswordlessChallenge>('/login/passwordless', data, PUBLIC_CALL);
+  }
 
-    const data = await this.handleResponse<AuthResponse>(response);
-    
+  /**
+   * verifyPasswordlessLogin
+   * pt-BR: Troca o código (com o `challenge_token`) ou o token do link por uma sessão. Contas
+   *        com 2FA devolvem um `TwoFactorChallenge`, como no login com senha.
+   * en-US: Exchanges the code (with the `challenge_token`) or the link token for a session.
+   *        Accounts with 2FA return a `TwoFactorChallenge`, as in the password login.
+   */
+  async verifyPasswordlessLogin(input: PasswordlessVerifyInput): Promise<AuthResponse | TwoFactorChallenge> {
+    const data = await this.post<AuthResponse | TwoFactorChallenge>('/login/passwordless/verify', input, { ...PUBLIC_CALL, retries: 0 });
+    if (!isTwoFactorChallenge(data) && data.token) {
+      this.persistSession(data);
+    }
+    return data;
+  }
+
+  /**
+   * Dispositivos confiáveis
+   * pt-BR: Tokens por e-mail que dispensam o 2FA neste navegador; sobrevivem ao logout.
+   * en-US: Per-email tokens that skip 2FA on this browser; they survive logout.
+   */
+  private readTrustedDevices(): Record<string, string> {
+    try {
+      return JSON.parse(localStorage.getItem(TRUSTED_DEVICES_KEY) || '{}');
+    } catch {
+      return {};
+    }
+  }
+
+  private getTrustedDeviceToken(email: string): string | null {
+    return this.readTrustedDevices()[email.trim().toLowerCase()] || null;
+  }
+
+  private storeTrustedDevice(email: string, token: string): void {
+    const devices = { ...this.readTrustedDevices(), [email.trim().toLowerCase()]: token };
+    localStorage.setItem(TRUSTED_DEVICES_KEY, JSON.stringify(devices));
+  }
+
+  /**
+   * persistSession
+   * pt-BR: Salva token, refresh token, usuário, permissões e menu retornados pela API.
+   * en-US: Stores token, refresh token, user, permissions and menu returned by the API.
+   */
+  private persistSession(data: Partial<AuthResponse>): void {
     if (data.token) {
       localStorage.setItem('auth_token', data.token);
+    }
+    if (data.refresh_token) {
+      localStorage.setItem('auth_refresh_token', data.refresh_token);
+    }
+    if (data.user) {
       localStorage.setItem('auth_user', JSON.stringify(data.user));
-      
-      // Store permissions and menu if provided
-      if (data.permissions) {
-        localStorage.setItem('auth_permissions', JSON.stringify(data.permissions));
-      }
-      if (data.menu) {
-        localStorage.setItem('auth_menu', JSON.stringify(data.menu));
-      }
     }
+    
+    // Store permissions and menu if provided
+    if (data.permissions) {
+      localStorage.setItem('auth_permissions', JSON.stringify(data.permissions));
+    }
+    if (data.menu) {
+      localStorage.setItem('auth_menu', JSON.stringify(data.menu));
+    }
+    if (data.two_factor_setup_required !== undefined) {
+      this.setTwoFactorSetupRequired(data.two_factor_setup_required);
+    }
+  }
 
-    return data;
+  /**
+   * refreshAccessToken
+   * pt-BR: Troca o refresh token salvo por um novo token de acesso via POST `/refresh-token`.
+   *        Retorna `false` quando não há refresh token ou a API o rejeita.
+   * en-US: Exchanges the stored refresh token for a new access token via POST `/refresh-token`.
+   *        Returns `false` when there is no refresh token or the API rejects it.
+   */
+  async refreshAccessToken(): Promise<boolean> {
+    const refreshToken = this.getStoredRefreshToken();
+    if (!refreshToken) return false;
+    try {
+      const data = await this.post<AuthResponse>('/refresh-token', { refresh_token: refreshToken }, { ...PUBLIC_CALL, retries: 0 });
+      if (!data?.token) return false;
+      this.persistSession(data);
+      emitTokenRefreshed(data.token);
+      return true;
+    } catch (error) {
+      console.warn('Falha ao renovar token:', error);
+      return false;
+    }
   }
 
-  async register(userData: RegisterData): Promise<AuthResponse> {
-    const response = await fetch(`${API_BASE_URL}/register`, {
-      method: 'POST',
-      headers: this.getHeaders(),
-      body: JSON.stringify(userData),
-    });
+  /**
+   * recoverSession
+   * pt-BR: Recupera a sessão após um 401/403 com uma única operação compartilhada entre
+   *        chamadas concorrentes. Em 403, valida o token antes (pode ser só falta de permissão).
+   *        Sem refresh token, mantém o comportamento anterior: apenas valida o token.
+   * en-US: Recovers the session after a 401/403 with a single operation shared across
+   *        concurrent calls. On 403, validates the token first (it may just be missing permission).
+   *        Without a refresh token, keeps the former behavior: only validates the token.
+   * @param status - Status HTTP que disparou a recuperação
+   */
+  recoverSession(status: number): Promise<SessionRecoveryResult> {
+    if (!this.sessionRecovery) {
+      this.sessionRecovery = this.runSessionRecovery(status).finally(() => {
+        this.sessionRecovery = null;
+      });
+    }
+    return this.sessionRecovery;
+  }
+
+  private async runSessionRecovery(status: number): Promise<SessionRecoveryResult> {
+    const token = this.getStoredToken() || undefined;
+    if (status === 403 || !this.getStoredRefreshToken()) {
+      if (await this.validateToken(token)) return 'valid';
+    }
+    return (await this.refreshAccessToken()) ? 'refreshed' : 'invalid';
+  }
 
-    const data = await this.handleResponse<AuthResponse>(response);
+  async register(userData: RegisterData): Promise<AuthResponse> {
+    const data = await this.post<AuthResponse>('/register', userData, PUBLIC_CALL);
     
     if (data.token) {
-      localStorage.setItem('auth_token', data.token);
-      localStorage.setItem('auth_user', JSON.stringify(data.user));
-      
-      // Store permissions and menu if provided
-      if (data.permissions) {
-        localStorage.setItem('auth_permissions', JSON.stringify(data.permissions));
-      }
-      if (data.menu) {
-        localStorage.setItem('auth_menu', JSON.stringify(data.menu));
-      }
+      this.persistSession(data);
     }
 
     return data;
@@ -136,10 +277,7 @@ class AuthService {
 
   async logout(): Promise<void> {
     try {
-      await fetch(`${API_BASE_URL}/logout`, {
-        method: 'POST',
-        headers: this.getHeaders(true),
-      });
+      await this.post<void>('/logout', undefined, { skipAuthErrorHandling: true, retries: 0 });
     } catch (error) {
       console.error('Erro ao fazer logout:', error);
     } finally {
@@ -148,12 +286,7 @@ class AuthService {
   }
 
   async getCurrentUser(): Promise<User> {
-    const response = await fetch(`${API_BASE_URL}/user`, {
-      method: 'GET',
-      headers: this.getHeaders(true),
-    });
-
-    return this.handleResponse<User>(response);
+    return this.get<User>('/user');
   }
 
   /**
@@ -164,43 +297,13 @@ class AuthService {
    * returns the `data` object including basic fields and `meta`.
    */
   async getProfile(): Promise<{ id: string; name: string; email: string; avatar: string | null; meta?: Record<string, any> }> {
-    const response = await fetch(`${API_BASE_URL}/user/profile`, {
-      method: 'GET',
-      headers: this.getHeaders(true),
-    });
-
-    const payload = await this.handleResponse<{ message?: string; data: { id: string; name: string; email: string; avatar: string | null; meta?: Record<string, any> } }>(response);
+    const payload = await this.get<{ message?: string; data: { id: string; name: string; email: string; avatar: string | null; meta?: Record<string, any> } }>('/user/profile');
     return payload.data;
   }
 
   async updateProfile(data: Partial<User> | FormData): Promise<User> {
-    const headers: HeadersInit = {
-      'Accept': 'application/json',
-    };
-
-    // Adiciona token de autorização
-    const token = localStorage.getItem('auth_token');
-    if (token) {
-      headers['Authorization'] = `Bearer ${token}`;
-    }
-
-    // Se for FormData, não adiciona Content-Type (deixa o browser definir)
-    // Se for objeto, adiciona Content-Type: application/json
-    let body: string | FormData;
-    if (data instanceof FormData) {
-      body = data;
-    } else {
-      headers['Content-Type'] = 'application/json';
-      body = JSON.stringify(data);
-    }
-
-    const response = await fetch(`${API_BASE_URL}/user/profile`, {
-      method: 'PUT',
-      headers,
-      body,
-    });
-
-    const updatedUser = await this.handleResponse<User>(response);
+    // FormData segue sem Content-Type (o browser define); objetos vão como JSON
+    const updatedUser = await this.put<User>('/user/profile', data);
     
     // Atualiza o usuário no localStorage
     localStorage.setItem('auth_user', JSON.stringify(updatedUser));
@@ -213,39 +316,25 @@ class AuthService {
     new_password: string;
     new_password_confirmation: string;
   }): Promise<void> {
-    const response = await fetch(`${API_BASE_URL}/user/change-password`, {
-      method: 'PUT',
-      headers: this.getHeaders(true),
-      body: JSON.stringify(passwordData),
-    });
-
-    await this.handleResponse<void>(response);
+    await this.put<void>('/user/change-password', passwordData);
   }
 
   async forgotPassword(data: ForgotPasswordData): Promise<{ message: string }> {
-    const response = await fetch(`${API_BASE_URL}/forgot-password`, {
-      method: 'POST',
-      headers: this.getHeaders(),
-      body: JSON.stringify(data),
-    });
-
-    return this.handleResponse<{ message: string }>(response);
+    return this.post<{ message: string }>('/forgot-password', data, PUBLIC_CALL);
   }
 
   async resetPassword(data: ResetPasswordData): Promise<{ message: string }> {
-    const response = await fetch(`${API_BASE_URL}/reset-password`, {
-      method: 'POST',
-      headers: this.getHeaders(),
-      body: JSON.stringify(data),
-    });
-
-    return this.handleResponse<{ message: string }>(response);
+    return this.post<{ message: string }>('/reset-password', data, PUBLIC_CALL);
   }
 
   getStoredToken(): string | null {
     return localStorage.getItem('auth_token');
   }
 
+  getStoredRefreshToken(): string | null {
+    return localStorage.getItem('auth_refresh_token');
+  }
+
   getStoredUser(): User | null {
     const userStr = localStorage.getItem('auth_user');
     if (userStr) {
@@ -283,42 +372,67 @@ class AuthService {
   }
 
   async getUserPermissions(): Promise<string[]> {
-    const response = await fetch(`${API_BASE_URL}/user/permissions`, {
-      method: 'GET',
-      headers: this.getHeaders(true),
-    });
-
-    const data = await this.handleResponse<{ permissions: string[] }>(response);
+    const data = await this.get<{ permissions: string[] }>('/user/permissions');
     return data.permissions;
   }
 
   async getUserMenu(): Promise<MenuItemDTO[]> {
-    const response = await fetch(`${API_BASE_URL}/user/menu`, {
-      method: 'GET',
-      headers: this.getHeaders(true),
-    });
-
-    const data = await this.handleResponse<{ menu: MenuItemDTO[] }>(response);
+    const data = await this.get<{ menu: MenuItemDTO[] }>('/user/menu');
     return data.menu;
   }
 
-  async checkAccess({ permission, path }: { permission?: string; path?: string }): Promise<{ allowed: boolean }> {
-    const params = new URLSearchParams();
-    if (permission) params.append('permission', permission);
-    if (path) params.append('path', path);
+  /**
+   * storeAccess
+   * pt-BR: Atualiza permissões e menu salvos (ex.: após alterar o grupo de permissões).
+   * en-US: Updates the stored permissions and menu (e.g. after a permission group change).
+   */
+  storeAccess(permissions: string[], menu: MenuItemDTO[]): void {
+    localStorage.setItem('auth_permissions', JSON.stringify(permissions));
+    localStorage.setItem('auth_menu', JSON.stringify(menu));
+  }
 
-    try {
-      const response = await fetch(`${API_BASE_URL}/user/can?${params.toString()}`, {
-        method: 'GET',
-        headers: this.getHeaders(true),
-      });
+  /**
+   * isSessionLocked / setSessionLocked
+   * pt-BR: Estado da tela de bloqueio por inatividade, persistido para sobreviver a recargas
+   *        e compartilhado entre abas.
+   * en-US: Idle lock screen state, persisted to survive reloads and shared across tabs.
+   */
+  isSessionLocked(): boolean {
+    return localStorage.getItem('auth_locked') === '1';
+  }
 
-      if (response.status === 403 || response.status === 401) {
-        return { allowed: false };
-      }
+  setSessionLocked(locked: boolean): void {
+    if (locked) {
+      localStorage.setItem('auth_locked', '1');
+    } else {
+      localStorage.removeItem('auth_locked');
+    }
+  }
+
+  /**
+   * isTwoFactorSetupRequired / setTwoFactorSetupRequired
+   * pt-BR: O grupo do usuário exige 2FA e ele ainda não ativou; o painel fica restrito ao perfil.
+   * en-US: The user's group requires 2FA and they have not enrolled yet; the admin is limited to the profile.
+   */
+  isTwoFactorSetupRequired(): boolean {
+    return localStorage.getItem('auth_2fa_setup_required') === '1';
+  }
+
+  setTwoFactorSetupRequired(required: boolean): void {
+    if (required) {
+      localStorage.setItem('auth_2fa_setup_required', '1');
+    } else {
+      localStorage.removeItem('auth_2fa_setup_required');
+    }
+  }
 
-      return this.handleResponse<{ allowed: boolean }>(response);
+  async checkAccess({ permission, path }: { permission?: string; path?: string }): Promise<{ allowed: boolean }> {
+    try {
+      return await this.get<{ allowed: boolean }>('/user/can', { permission, path }, { skipAuthErrorHandling: true });
     } catch (error) {
+      if (isApiError(error) && (error.status === 403 || error.status === 401)) {
+        return { allowed: false };
+      }
       // On API errors, assume not allowed for safety
       console.warn('Access check failed:', error);
       return { allowed: false };
@@ -327,10 +441,22 @@ class AuthService {
 
   clearStorage(): void {
     localStorage.removeItem('auth_token');
+    localStorage.removeItem('auth_refresh_token');
     localStorage.removeItem('auth_user');
     localStorage.removeItem('auth_permissions');
     localStorage.removeItem('auth_menu');
+    localStorage.removeItem('auth_locked');
+    localStorage.removeItem('auth_2fa_setup_required');
   }
 }
 
-export const authService = new AuthService();
\ No newline at end of file
+export const authService = new AuthService();
+
+/**
+ * Recuperação de sessão em 401/403 para todas as requisições do cliente HTTP
+ * pt-BR: Registrada aqui para manter as regras de sessão junto ao serviço de autenticação.
+ * en-US: Registered here to keep session rules next to the authentication service.
+ */
+httpClient.interceptors.response.use(
+  createSessionRecoveryInterceptor((status) => authService.recoverSession(status))
+);
\ No newline at end of file
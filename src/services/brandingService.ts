@@ -0,0 +1,76 @@
+import { BaseApiService } from './BaseApiService';
+import { ApiResponse } from '@/types/index';
+import type { BrandingOptionKey, TenantBranding } from '@/types/branding';
+import { DEFAULT_BRANDING, isHexColor } from '@/lib/branding';
+
+/**
+ * Mapa campo → opção da API
+ * pt-BR: O branding é salvo como opções comuns (`/options/all`), uma por campo.
+ * en-US: Branding is stored as regular options (`/options/all`), one per field.
+ */
+const OPTION_KEYS: Record<keyof TenantBranding, BrandingOptionKey> = {
+  appName: 'branding_app_name',
+  tagline: 'branding_tagline',
+  storeName: 'branding_store_name',
+  logoUrl: 'branding_logo_url',
+  storeLogoUrl: 'branding_store_logo_url',
+  faviconUrl: 'branding_favicon_url',
+  primaryColor: 'branding_primary_color',
+  secondaryColor: 'branding_secondary_color',
+  accentColor: 'branding_accent_color',
+  fontFamily: 'branding_font_family',
+  fontUrl: 'branding_font_url',
+};
+
+const COLOR_FIELDS: Array<keyof TenantBranding> = ['primaryColor', 'secondaryColor', 'accentColor'];
+
+/**
+ * Serviço de branding do tenant
+ * pt-BR: Lê a identidade visual em GET `/options/branding` (público, usado antes do login)
+ *        e salva pelo endpoint de opções em lote. Campos ausentes ou inválidos usam o padrão.
+ * en-US: Reads the visual identity from GET `/options/branding` (public, used before login)
+ *        and saves through the batch options endpoint. Missing or invalid fields use the default.
+ */
+class BrandingService extends BaseApiService {
+  /**
+   * Obtém o branding do tenant atual
+   */
+  async getBranding(): Promise<TenantBranding> {
+    const response = await this.get<ApiResponse<Record<string, unknown>>>('/options/branding', undefined, {
+      skipAuth: true,
+      skipAuthErrorHandling: true,
+      retries: 1,
+    });
+    return this.fromOptions(response?.data ?? (response as unknown as Record<string, unknown>));
+  }
+
+  /**
+   * Salva o branding como opções do sistema
+   * @param branding - Identidade visual completa
+   */
+  async saveBranding(branding: TenantBranding): Promise<void> {
+    const payload = Object.fromEntries(
+      (Object.keys(OPTION_KEYS) as Array<keyof TenantBranding>).map((field) => [OPTION_KEYS[field], branding[field] ?? ''])
+    );
+    await this.post<ApiResponse<void>>('/options/all', payload);
+  }
+
+  /**
+   * Converte opções (snake_case) ou campos já em camelCase para `TenantBranding`
+   */
+  private fromOptions(options: Record<string, unknown> | null | undefined): TenantBranding {
+    const source = options ?? {};
+    const branding = { ...DEFAULT_BRANDING };
+    (Object.keys(OPTION_KEYS) as Array<keyof TenantBranding>).forEach((field) => {
+      const raw = source[OPTION_KEYS[field]] ?? source[field];
+      if (raw === undefined || raw === null || String(raw).trim() === '') return;
+      const value = String(raw).trim();
+      if (COLOR_FIELDS.includes(field) && !isHexColor(value)) return;
+      (branding as Record<keyof TenantBranding, string | null>)[field] = value;
+    });
+    return branding;
+  }
+}
+
+// Instância singleton do serviço
+export const brandingService = new BrandingService();
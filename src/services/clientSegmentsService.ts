@@ -0,0 +1,54 @@
+import { GenericApiService } from './GenericApiService';
+import { PaginatedResponse } from '@/types/index';
+import type { ClientSegment, ClientSegmentInput } from '@/types/clients';
+
+/**
+ * ClientSegmentsService
+ * pt-BR: Segmentos de clientes salvos em '/client-segments'. A definição fica na API para que
+ *        lista, exportação, ações em lote e campanhas usem o mesmo recorte (`segment_id`).
+ * en-US: Client segments saved at '/client-segments'. The definition lives in the API so the
+ *        list, exports, bulk actions and campaigns share the same slice (`segment_id`).
+ */
+class ClientSegmentsService extends GenericApiService<ClientSegment, ClientSegmentInput, Partial<ClientSegmentInput>> {
+  constructor() {
+    super('/client-segments');
+  }
+
+  /**
+   * listSegments
+   * pt-BR: Todos os segmentos, por nome.
+   * en-US: All segments, by name.
+   */
+  async listSegments(): Promise<PaginatedResponse<ClientSegment>> {
+    return this.list({ per_page: 100, sort: 'name' });
+  }
+
+  /**
+   * createSegment
+   * pt-BR: Salva a definição atual com um nome.
+   * en-US: Saves the current definition under a name.
+   */
+  async createSegment(data: ClientSegmentInput): Promise<ClientSegment> {
+    return this.create(data);
+  }
+
+  /**
+   * updateSegment
+   * pt-BR: Renomeia ou troca a definição de um segmento.
+   * en-US: Renames a segment or replaces its definition.
+   */
+  async updateSegment(id: string, data: Partial<ClientSegmentInput>): Promise<ClientSegment> {
+    return this.update(id, data);
+  }
+
+  /**
+   * deleteSegment
+   * pt-BR: Exclui um segmento salvo.
+   * en-US: Deletes a saved segment.
+   */
+  async deleteSegment(id: string): Promise<void> {
+    return this.deleteById(id);
+  }
+}
+
+export const clientSegmentsService = new ClientSegmentsService();
@@ -3,10 +3,16 @@ import {
   CreateClientInput, 
   UpdateClientInput, 
   ClientsListParams,  
+  ClientDuplicateCandidate,
+  ClientDuplicateCheckInput,
+  ClientDuplicateGroup,
+  ClientMergeInput,
+  ClientMergeResult,
 } from '@/types/clients';
 import { PaginatedResponse, ApiDeleteResponse, ApiResponse } from '@/types/index';
 import { BaseApiService } from './BaseApiService';
 import { CreateClientAttendanceInput } from '@/types/attendance';
+import { RequestOptions } from './requestPolicy';
 
 /**
  * Serviço para gerenciamento de clientes
@@ -16,18 +22,20 @@ class ClientsService extends BaseApiService {
   /**
    * Lista clientes com parâmetros de filtro
    * @param params - Parâmetros de listagem
+   * @param options - Timeout, retry e AbortSignal da chamada
    */
-  async listClients(params?: ClientsListParams): Promise<PaginatedResponse<ClientRecord>> {
-    const response = await this.get<any>('/clients', params);
+  async listClients(params?: ClientsListParams, options?: RequestOptions): Promise<PaginatedResponse<ClientRecord>> {
+    const response = await this.get<any>('/clients', params, options);
     return this.normalizePaginatedResponse<ClientRecord>(response);
   }
 
   /**
    * Obtém cliente por ID
    * @param id - ID do cliente
+   * @param options - Timeout, retry e AbortSignal da chamada
    */
-  async getClient(id: string): Promise<ClientRecord> {
-    return this.get<ClientRecord>(`/clients/${id}`);
+  async getClient(id: string, options?: RequestOptions): Promise<ClientRecord> {
+    return this.get<ClientRecord>(`/clients/${id}`, undefined, options);
   }
 
   /**
@@ -76,12 +84,12 @@ class ClientsService extends BaseApiService {
   }
 
   // Métodos para compatibilidade com o hook genérico
-  async list(params?: ClientsListParams): Promise<PaginatedResponse<ClientRecord>> {
-    return this.listClients(params);
+  async list(params?: ClientsListParams, options?: RequestOptions): Promise<PaginatedResponse<ClientRecord>> {
+    return this.listClients(params, options);
   }
 
-  async getById(id: string): Promise<ClientRecord> {
-    return this.getClient(id);
+  async getById(id: string, options?: RequestOptions): Promise<ClientRecord> {
+    return this.getClient(id, options);
   }
 
   async create(data: CreateClientInput): Promise<ClientRecord> {
@@ -104,13 +112,51 @@ class ClientsService extends BaseApiService {
     return this.restoreClient(id);
   }
 
+  /**
+   * checkDuplicates
+   * pt-BR: Clientes parecidos com o cadastro em andamento (CPF/CNPJ, e-mail, telefone, nome),
+   *        do mais provável para o menos provável.
+   * en-US: Clients similar to the record being created (CPF/CNPJ, email, phone, name), from
+   *        most to least likely.
+   */
+  async checkDuplicates(input: ClientDuplicateCheckInput): Promise<ClientDuplicateCandidate[]> {
+    const response = await this.post<{ data?: ClientDuplicateCandidate[] }>('/clients/duplicates/check', input);
+    return response?.data ?? [];
+  }
+
+  /**
+   * listDuplicateGroups
+   * pt-BR: Grupos de clientes já cadastrados que parecem ser a mesma pessoa.
+   * en-US: Groups of existing clients that look like the same person.
+   */
+  async listDuplicateGroups(options?: RequestOptions): Promise<ClientDuplicateGroup[]> {
+    const response = await this.get<{ data?: ClientDuplicateGroup[] }>('/clients/duplicates', undefined, options);
+    return response?.data ?? [];
+  }
+
+  /**
+   * mergeClients
+   * pt-BR: Mescla os cadastros em `target_id`: aplica os valores escolhidos, move matrículas,
+   *        propostas, aeronaves, OS, extratos de pontos e atendimentos e exclui os demais.
+   * en-US: Merges the records into `target_id`: applies the picked values, moves enrollments,
+   *        proposals, aircraft, service orders, points extracts and attendances and deletes
+   *        the others.
+   */
+  async mergeClients(input: ClientMergeInput): Promise<ClientMergeResult> {
+    const response = await this.post<ApiResponse<ClientMergeResult>>('/clients/merge', input);
+    return response.data;
+  }
+
   /**
    * registerAttendance
-   * pt-BR: Registra um atendimento para o cliente via API.
-   * en-US: Registers an attendance for a client via API.
+   * pt-BR: Registra um atendimento para o cliente via API. Sem conexão, vai para a fila offline.
+   * en-US: Registers an attendance for a client via API. Without connectivity, it is queued offline.
    */
   async registerAttendance(clientId: string, payload: CreateClientAttendanceInput): Promise<any> {
-    return this.post<any>(`/clients/${clientId}/attendances`, payload);
+    return this.post<any>(`/clients/${clientId}/attendances`, payload, {
+      offline: true,
+      meta: { offlineLabel: `Atendimento do cliente #${clientId}` },
+    });
   }
 }
 
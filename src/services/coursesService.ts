@@ -1,7 +1,20 @@
+import { z } from 'zod';
 import { GenericApiService } from './GenericApiService';
 import { CourseRecord, CoursePayload, CoursesListParams } from '@/types/courses';
 import { PaginatedResponse } from '@/types/index';
 
+/**
+ * courseRecordSchema
+ * pt-BR: Campos de curso dos quais as telas dependem; demais campos passam sem validação.
+ * en-US: Course fields the screens rely on; other fields pass through unvalidated.
+ */
+export const courseRecordSchema = z.object({
+  id: z.union([z.string(), z.number()]),
+  titulo: z.string(),
+  nome: z.string().nullish(),
+  valor: z.union([z.string(), z.number()]).nullish(),
+}).passthrough();
+
 /**
  * CoursesService — serviço de CRUD para cursos
  * pt-BR: Encapsula operações no endpoint '/cursos'.
@@ -14,7 +27,7 @@ class CoursesService extends GenericApiService<CourseRecord, CoursePayload, Cour
    * en-US: Initializes with the base endpoint.
    */
   constructor() {
-    super('/cursos');
+    super('/cursos', { schema: courseRecordSchema });
   }
 
   /**
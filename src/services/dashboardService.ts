@@ -1,4 +1,5 @@
 import { BaseApiService } from './BaseApiService';
+import { isApiError } from './ApiError';
 
 /**
  * Interface para atividades recentes de clientes
@@ -42,14 +43,21 @@ export interface PendingPreRegistration {
 
 /**
  * Interface para resposta da API do dashboard
+ * pt-BR: A API envia as listas em snake_case; `recentClientActivities` e
+ *        `clientRegistrationData` são nomes antigos ainda aceitos.
+ * en-US: The API sends the lists in snake_case; `recentClientActivities` and
+ *        `clientRegistrationData` are legacy names still accepted.
  */
 export interface DashboardApiResponse {
   success: boolean;
   data: {
-    recentClientActivities: ClientActivity[];
-    registration_data: ClientRegistrationData[];
-    pendingPreRegistrations: PendingPreRegistration[];
-    totals: {
+    recent_activities?: ClientActivity[];
+    registration_data?: ClientRegistrationData[];
+    pending_pre_registrations?: PendingPreRegistration[];
+    recentClientActivities?: ClientActivity[];
+    clientRegistrationData?: ClientRegistrationData[];
+    pendingPreRegistrations?: PendingPreRegistration[];
+    totals?: {
       actived: number;
       inactived: number;
       pre_registred: number;
@@ -73,6 +81,34 @@ export interface DashboardData {
   };
 }
 
+/**
+ * Interface para o painel do Aeroclube (`/dashboard/aeroclube`)
+ * pt-BR: `monthly` traz, por ano, valor vendido, horas vendidas e meta de cada mês;
+ *        `hoursHistory` tem uma coluna `yAAAA` por ano.
+ * en-US: `monthly` holds, per year, sold value, sold hours and goal for each month;
+ *        `hoursHistory` has one `yYYYY` column per year.
+ */
+export interface AeroclubeMonthlyEntry {
+  month: string;
+  value: number;
+  hours: number;
+  meta: number;
+}
+
+export interface AeroclubeAccessLogEntry {
+  id: number | string;
+  date: string;
+  time: string;
+  name: string;
+  ip: string;
+}
+
+export interface AeroclubeDashboardData {
+  monthly: Record<string, AeroclubeMonthlyEntry[]>;
+  hoursHistory: Array<{ label: string } & Record<string, number | string>>;
+  accessLog: AeroclubeAccessLogEntry[];
+}
+
 /**
  * Serviço para dados do dashboard
  * Fornece endpoints para atividades recentes, dados de cadastro e pré-registros
@@ -85,21 +121,9 @@ class DashboardService extends BaseApiService {
    * @param limit - Número máximo de atividades a retornar
    */
   async getRecentActivities(limit: number = 10): Promise<ClientActivity[]> {
-    try {
-      const response = await this.get<DashboardApiResponse>(this.endpoint);
-      if (response.success && response.data.recent_activities) {
-        return this.transformActivities(response.data.recent_activities.slice(0, limit));
-      }
-      console.log('recentClientActivities:', response.data);
-      return this.getMockRecentActivities();
-    } catch (error) {
-      // Se for erro 403, propagar o erro para o componente
-      if ((error as any)?.status === 403) {
-        throw error;
-      }
-      console.warn('Erro ao buscar atividades recentes, usando dados mock:', error);
-      return this.getMockRecentActivities();
-    }
+    const data = await this.fetchDashboard('atividades recentes');
+    const activities = data?.recent_activities || data?.recentClientActivities || [];
+    return this.transformActivities(activities.slice(0, limit));
   }
 
   /**
@@ -108,21 +132,8 @@ class DashboardService extends BaseApiService {
    * @param endDate - Data de fim
    */
   async getRegistrationData(startDate?: string, endDate?: string): Promise<ClientRegistrationData[]> {
-    try {
-      const response = await this.get<DashboardApiResponse>(this.endpoint);
-      // console.log('clientRegistrationData.....:', response.data);
-      if (response.success && response.data.registration_data) {
-        return response.data.registration_data;
-      }
-      // return this.getMockRegistrationData();
-    } catch (error) {
-      // Se for erro 403, propagar o erro para o componente
-      if ((error as any)?.status === 403) {
-        throw error;
-      }
-      console.warn('Erro ao buscar dados de cadastro, usando dados mock:', error);
-      // return this.getMockRegistrationData();
-    }
+    const data = await this.fetchDashboard('dados de cadastro');
+    return data?.registration_data || data?.clientRegistrationData || [];
   }
 
   /**
@@ -130,41 +141,51 @@ class DashboardService extends BaseApiService {
    * @param limit - Número máximo de pré-registros a retornar
    */
   async getPendingPreRegistrations(limit: number = 10): Promise<PendingPreRegistration[]> {
-    try {
-      const response = await this.get<DashboardApiResponse>(this.endpoint);
-      console.log('pendingPreRegistrations:', response.data);
-      if (response.success && response.data?.pending_pre_registrations) {
-        return response.data.pending_pre_registrations.slice(0, limit);
-      }
-      return this.getMockPendingPreRegistrations();
-    } catch (error) {
-      // Se for erro 403, propagar o erro para o componente
-      if ((error as any)?.status === 403) {
-        throw error;
-      }
-      console.warn('Erro ao buscar pré-registros pendentes, usando dados mock:', error);
-      return this.getMockPendingPreRegistrations();
-    }
+    const data = await this.fetchDashboard('pré-registros pendentes');
+    return (data?.pending_pre_registrations || data?.pendingPreRegistrations || []).slice(0, limit);
   }
 
   /**
    * Obtém todos os dados do dashboard
    */
   async getDashboardData(): Promise<DashboardData> {
+    const data = await this.fetchDashboard('dados do dashboard');
+    return {
+      recentActivities: this.transformActivities(data?.recent_activities || data?.recentClientActivities || []),
+      registrationData: data?.registration_data || data?.clientRegistrationData || [],
+      pendingPreRegistrations: data?.pending_pre_registrations || data?.pendingPreRegistrations || [],
+      totals: data?.totals,
+    };
+  }
+
+  /**
+   * Obtém os indicadores do painel do Aeroclube
+   */
+  async getAeroclubeDashboard(): Promise<AeroclubeDashboardData> {
+    const response = await this.get<{ data?: Partial<AeroclubeDashboardData> } & Partial<AeroclubeDashboardData>>(`${this.endpoint}/aeroclube`);
+    const data = response?.data ?? response;
+    return {
+      monthly: data?.monthly || {},
+      hoursHistory: data?.hoursHistory || [],
+      accessLog: data?.accessLog || [],
+    };
+  }
+
+  /**
+   * Busca `/dashboard`. Erro 403 é propagado para o componente; outros erros resultam em
+   * painel vazio (dados de exemplo ficam no backend mock, `VITE_API_MOCK=true`).
+   */
+  private async fetchDashboard(section: string): Promise<DashboardApiResponse['data'] | null> {
     try {
       const response = await this.get<DashboardApiResponse>(this.endpoint);
-      if (response.success && response.data) {
-        return {
-          recentActivities: this.transformActivities(response.data.recentClientActivities || []),
-          registrationData: response.data.clientRegistrationData || [],
-          pendingPreRegistrations: response.data.pendingPreRegistrations || [],
-          totals: response.data.totals
-        };
-      }
-      return this.getMockDashboardData();
+      return response?.success ? response.data : null;
     } catch (error) {
-      console.warn('Erro ao buscar dados do dashboard, usando dados mock:', error);
-      return this.getMockDashboardData();
+      // Se for erro 403, propagar o erro para o componente
+      if (isApiError(error) && error.isForbidden) {
+        throw error;
+      }
+      console.warn(`Erro ao buscar ${section}:`, error);
+      return null;
     }
   }
 
@@ -224,115 +245,6 @@ class DashboardService extends BaseApiService {
     const cnpjMatch = name.match(/\d{2}\.\d{3}\.\d{3}\/\d{4}-\d{2}/);
     return cnpjMatch ? cnpjMatch[0] : undefined;
   }
-
-  /**
-   * Dados mock para atividades recentes
-   */
-  private getMockRecentActivities(): ClientActivity[] {
-    return [
-      {
-        id: 1,
-        type: "client_registered",
-        title: "Novo cliente cadastrado",
-        client: "João Silva",
-        status: "actived",
-        time: "2 horas atrás",
-        cpf: "123.456.789-00",
-      },
-      {
-        id: 2,
-        type: "client_pre_registered",
-        title: "Pré-cadastro realizado",
-        client: "Maria Santos",
-        status: "pre_registred",
-        time: "4 horas atrás",
-        cpf: "987.654.321-00",
-      },
-      {
-        id: 3,
-        type: "client_activated",
-        title: "Cliente ativado",
-        client: "Empresa ABC Ltda",
-        status: "actived",
-        time: "1 dia atrás",
-        cnpj: "12.345.678/0001-90",
-      },
-      {
-        id: 4,
-        type: "client_inactivated",
-        title: "Cliente inativado",
-        client: "Pedro Costa",
-        status: "inactived",
-        time: "2 dias atrás",
-        cpf: "456.789.123-00",
-      },
-    ];
-  }
-
-  /**
-   * Dados mock para cadastros por período
-   */
-  private getMockRegistrationData(): ClientRegistrationData[] {
-    return [
-      { date: "2025-09-16", actived: 1, inactived: 0, pre_registred: 0 },
-      { date: "2025-09-17", actived: 1, inactived: 0, pre_registred: 0 },
-      { date: "2025-09-18", actived: 0, inactived: 0, pre_registred: 0 },
-      { date: "2025-09-19", actived: 0, inactived: 1, pre_registred: 0 },
-      { date: "2025-09-20", actived: 0, inactived: 0, pre_registred: 0 },
-      { date: "2025-09-21", actived: 0, inactived: 0, pre_registred: 0 },
-      { date: "2025-09-22", actived: 0, inactived: 0, pre_registred: 0 },
-      { date: "2025-09-23", actived: 0, inactived: 0, pre_registred: 0 },
-      { date: "2025-09-24", actived: 0, inactived: 0, pre_registred: 0 },
-      { date: "2025-09-25", actived: 0, inactived: 0, pre_registred: 0 },
-      { date: "2025-09-26", actived: 0, inactived: 0, pre_registred: 0 },
-      { date: "2025-09-27", actived: 0, inactived: 0, pre_registred: 0 },
-      { date: "2025-09-28", actived: 0, inactived: 0, pre_registred: 0 },
-      { date: "2025-09-29", actived: 3, inactived: 0, pre_registred: 0 },
-    ];
-  }
-
-  /**
-   * Dados mock para pré-registros pendentes
-   */
-  private getMockPendingPreRegistrations(): PendingPreRegistration[] {
-    return [
-      {
-        id: 1,
-        name: "Maria Santos",
-        email: "maria.santos@email.com",
-        phone: "(11) 99999-9999",
-        date: "2024-01-21",
-        type: "Pessoa Física"
-      },
-      {
-        id: 2,
-        name: "Empresa Tech Solutions Ltda",
-        email: "contato@techsolutions.com",
-        phone: "(11) 3333-4444",
-        date: "2024-01-20",
-        type: "Pessoa Jurídica"
-      },
-      {
-        id: 3,
-        name: "João Silva",
-        email: "joao.silva@gmail.com",
-        phone: "(11) 88888-7777",
-        date: "2024-01-19",
-        type: "Pessoa Física"
-      },
-    ];
-  }
-
-  /**
-   * Dados mock completos do dashboard
-   */
-  private getMockDashboardData(): DashboardData {
-    return {
-      recentActivities: this.getMockRecentActivities(),
-      registrationData: this.getMockRegistrationData(),
-      pendingPreRegistrations: this.getMockPendingPreRegistrations()
-    };
-  }
 }
 
 export const dashboardService = new DashboardService();
\ No newline at end of file
@@ -1,3 +1,4 @@
+import { z } from 'zod';
 import { GenericApiService } from './GenericApiService';
 import { PaginatedResponse } from '@/types/index';
 import {
@@ -7,6 +8,17 @@ import {
   EnrollmentSituationListParams,
 } from '@/types/enrollmentSituation';
 
+/**
+ * enrollmentSituationSchema
+ * pt-BR: Campos de situação de matrícula usados nas telas; demais campos passam sem validação.
+ * en-US: Enrollment situation fields used by the screens; other fields pass through unvalidated.
+ */
+export const enrollmentSituationSchema = z.object({
+  id: z.union([z.string(), z.number()]),
+  name: z.string(),
+  ativo: z.enum(['s', 'n']).optional(),
+}).passthrough();
+
 /**
  * EnrollmentSituationsService — CRUD service for enrollment situations
  * pt-BR: Serviço de CRUD para Situações de Matrícula no endpoint '/situacoes-matricula'.
@@ -23,7 +35,7 @@ class EnrollmentSituationsService extends GenericApiService<
    * en-US: Initializes with the '/situacoes-matricula' endpoint.
    */
   constructor() {
-    super('/situacoes-matricula');
+    super('/situacoes-matricula', { schema: enrollmentSituationSchema });
   }
 
   /**
@@ -0,0 +1,346 @@
+import { getApiUrl } from '@/lib/qlib';
+import { ApiError, isApiError } from '@/services/ApiError';
+import {
+  DEFAULT_REQUEST_POLICY,
+  HttpMethod,
+  RequestOptions,
+  RequestPolicy,
+  backoffDelay,
+  createAttemptSignal,
+  parseRetryAfter,
+  resolvePolicy,
+  waitFor,
+} from '@/services/requestPolicy';
+import {
+  authHeaderInterceptor,
+  impersonationReadOnlyInterceptor,
+  inactiveUserInterceptor,
+  loggingRequestInterceptor,
+  loggingResponseInterceptor,
+  offlineQueueInterceptor,
+  tenantHeaderInterceptor,
+} from '@/services/httpInterceptors';
+import { offlineQueue } from '@/services/offlineQueue';
+
+/**
+ * Cliente HTTP único da aplicação
+ * pt-BR: Todos os serviços passam por este cliente. Ele aplica a política de requisição
+ *        (timeout/retry/cancelamento), executa interceptadores de requisição e resposta
+ *        e converte falhas em `ApiError`.
+ * en-US: Every service goes through this client. It applies the request policy
+ *        (timeout/retry/cancellation), runs request and response interceptors
+ *        and turns failures into `ApiError`.
+ */
+
+export type HttpResponseType = 'json' | 'blob' | 'text';
+
+/**
+ * HttpRequestConfig
+ * pt-BR: Configuração de uma requisição. `url` relativa é concatenada ao `baseURL`.
+ * en-US: Request configuration. A relative `url` is appended to `baseURL`.
+ */
+export interface HttpRequestConfig extends RequestOptions {
+  method: HttpMethod;
+  url: string;
+  params?: Record<string, unknown>;
+  /** Objeto (enviado como JSON), FormData, URLSearchParams, Blob ou string */
+  data?: unknown;
+  headers?: Record<string, string>;
+  responseType?: HttpResponseType;
+  /** Não envia o header Authorization / Do not send the Authorization header */
+  skipAuth?: boolean;
+  /** Não aciona o tratamento de 401/403 / Do not trigger 401/403 handling */
+  skipAuthErrorHandling?: boolean;
+  /**
+   * Em falha de conexão, guarda a mutação na fila offline e rejeita com `queued_offline`
+   * / On connectivity failure, stores the mutation in the offline queue and rejects with `queued_offline`
+   */
+  offline?: boolean;
+  /** Permite a mutação durante o modo "ver como" / Allows the mutation during "view as" mode */
+  allowDuringImpersonation?: boolean;
+  /** Dados livres para interceptadores (ex.: tempo de início) / Free-form interceptor data */
+  meta?: Record<string, unknown>;
+}
+
+/**
+ * HttpCallOptions
+ * pt-BR: Opções aceitas pelos atalhos `get/post/put/patch/delete`.
+ * en-US: Options accepted by the `get/post/put/patch/delete` shortcuts.
+ */
+export type HttpCallOptions = Omit<HttpRequestConfig, 'method' | 'url' | 'params' | 'data'>;
+
+/**
+ * HttpTransport
+ * pt-BR: Função que efetivamente envia a requisição. Padrão: `fetch`; o backend mock
+ *        (`VITE_API_MOCK=true`) a substitui para responder no próprio navegador.
+ * en-US: Function that actually sends the request. Default: `fetch`; the mock backend
+ *        (`VITE_API_MOCK=true`) replaces it to answer inside the browser.
+ */
+export type HttpTransport = (url: string, init: RequestInit) => Promise<Response>;
+
+type AttemptSignal = ReturnType<typeof createAttemptSignal>;
+
+export type RequestInterceptor = (config: HttpRequestConfig) => HttpRequestConfig | Promise<HttpRequestConfig>;
+
+/**
+ * HttpRecovered
+ * pt-BR: Marcador retornado por `onError` para resolver a requisição com `value`
+ *        (ex.: resultado de um replay após renovar o token).
+ * en-US: Marker returned by `onError` to resolve the request with `value`
+ *        (e.g. the result of a replay after refreshing the token).
+ */
+export interface HttpRecovered<T = unknown> {
+  readonly recovered: true;
+  readonly value: T;
+}
+
+export function recovered<T>(value: T): HttpRecovered<T> {
+  return { recovered: true, value };
+}
+
+/**
+ * ResponseInterceptor
+ * pt-BR: `onResponse` observa toda resposta recebida. `onError` recebe o `ApiError`:
+ *        se retornar `recovered(valor)`, a requisição é resolvida com o valor;
+ *        se lançar, o novo erro é propagado.
+ * en-US: `onResponse` observes every received response. `onError` receives the `ApiError`:
+ *        returning `recovered(value)` resolves the request with the value;
+ *        throwing propagates the new error.
+ */
+export interface ResponseInterceptor {
+  onResponse?: (response: Response, config: HttpRequestConfig) => void | Promise<void>;
+  onError?: (error: ApiError, config: HttpRequestConfig, client: HttpClient) => void | HttpRecovered | Promise<void | HttpRecovered>;
+}
+
+class InterceptorManager<H> {
+  private handlers: H[] = [];
+
+  /**
+   * Registra um interceptador e retorna a função para removê-lo
+   */
+  use(handler: H): () => void {
+    this.handlers.push(handler);
+    return () => {
+      this.handlers = this.handlers.filter((h) => h !== handler);
+    };
+  }
+
+  list(): H[] {
+    return [...this.handlers];
+  }
+}
+
+export class HttpClient {
+  readonly baseURL: string;
+  policy: RequestPolicy;
+  transport: HttpTransport = (url, init) => fetch(url, init);
+  readonly interceptors = {
+    request: new InterceptorManager<RequestInterceptor>(),
+    response: new InterceptorManager<ResponseInterceptor>(),
+  };
+
+  constructor(options: { baseURL: string; policy?: Partial<RequestPolicy> }) {
+    this.baseURL = options.baseURL.replace(/\/+$/, '');
+    this.policy = { ...DEFAULT_REQUEST_POLICY, ...options.policy };
+  }
+
+  /**
+   * Executa a requisição completa: interceptadores, política de retry e parse da resposta
+   * @param initialConfig - Configuração da requisição
+   */
+  async request<T>(initialConfig: HttpRequestConfig): Promise<T> {
+    let config: HttpRequestConfig = { ...initialConfig, headers: { ...initialConfig.headers }, meta: { ...initialConfig.meta } };
+    for (const interceptor of this.interceptors.request.list()) {
+      config = await interceptor(config);
+    }
+
+    try {
+      const { response, attempt } = await this.send(config);
+      // O timeout da tentativa vale até o corpo ser lido / The attempt timeout lasts until the body is read
+      try {
+        for (const interceptor of this.interceptors.response.list()) {
+          await interceptor.onResponse?.(response, config);
+        }
+        if (!response.ok) {
+          throw ApiError.fromResponse(response, await this.readErrorBody(response));
+        }
+        return (await this.parseBody(response, config.responseType)) as T;
+      } catch (cause) {
+        throw isApiError(cause) ? cause : this.toRequestError(cause, attempt.timedOut(), config.signal);
+      } finally {
+        attempt.dispose();
+      }
+    } catch (cause) {
+      const error = isApiError(cause) ? cause : new ApiError(String((cause as Error)?.message || cause), { code: 'network_error' });
+      if (config.meta?.attempts) error.attempts = Number(config.meta.attempts);
+      for (const interceptor of this.interceptors.response.list()) {
+        if (!interceptor.onError) continue;
+        const result = await interceptor.onError(error, config, this);
+        if (result && result.recovered) return result.value as T;
+      }
+      throw error;
+    }
+  }
+
+  get<T>(url: string, params?: Record<string, unknown>, options?: HttpCallOptions): Promise<T> {
+    return this.request<T>({ ...options, method: 'GET', url, params });
+  }
+
+  post<T>(url: string, data?: unknown, options?: HttpCallOptions): Promise<T> {
+    return this.request<T>({ ...options, method: 'POST', url, data });
+  }
+
+  put<T>(url: string, data?: unknown, options?: HttpCallOptions): Promise<T> {
+    return this.request<T>({ ...options, method: 'PUT', url, data });
+  }
+
+  patch<T>(url: string, data?: unknown, options?: HttpCallOptions): Promise<T> {
+    return this.request<T>({ ...options, method: 'PATCH', url, data });
+  }
+
+  delete<T>(url: string, options?: HttpCallOptions): Promise<T> {
+    return this.request<T>({ ...options, method: 'DELETE', url });
+  }
+
+  /**
+   * Monta a URL final com `baseURL` e query string
+   */
+  buildUrl(url: string, params?: Record<string, unknown>): string {
+    const base = /^https?:\/\//i.test(url) ? url : `${this.baseURL}${url}`;
+    if (!params) return base;
+
+    const searchParams = new URLSearchParams();
+    Object.entries(params).forEach(([key, value]) => {
+      if (value !== undefined && value !== null && value !== '') {
+        searchParams.append(key, String(value));
+      }
+    });
+
+    const queryString = searchParams.toString();
+    if (!queryString) return base;
+    return `${base}${base.includes('?') ? '&' : '?'}${queryString}`;
+  }
+
+  /**
+   * Envia a requisição com timeout por tentativa e retry para verbos idempotentes
+   * pt-BR: Repete em 5xx, 429 e erros de rede com backoff exponencial, respeitando
+   *        `Retry-After`. O `signal` do chamador cancela a requisição e as esperas.
+   * en-US: Retries on 5xx, 429 and network errors with exponential backoff, honoring
+   *        `Retry-After`. The caller's `signal` cancels the request and the waits.
+   *
+   * pt-BR: Devolve o sinal da tentativa aceita; quem chama o descarta depois de ler o corpo.
+   * en-US: Returns the accepted attempt's signal; the caller disposes it after reading the body.
+   */
+  private async send(config: HttpRequestConfig): Promise<{ response: Response; attempt: AttemptSignal }> {
+    const policy = resolvePolicy(this.policy, config);
+    const maxAttempts = policy.retryMethods.includes(config.method) ? policy.retries + 1 : 1;
+    const url = this.buildUrl(config.url, config.params);
+    const { body, headers } = this.serializeBody(config);
+
+    for (let attempt = 0; ; attempt++) {
+      config.meta = { ...config.meta, attempts: attempt + 1 };
+      const attemptSignal = createAttemptSignal(policy.timeout, config.signal);
+      let response: Response;
+      try {
+        response = await this.transport(url, { method: config.method, headers, body, signal: attemptSignal.signal });
+      } catch (cause) {
+        attemptSignal.dispose();
+        const error = this.toRequestError(cause, attemptSignal.timedOut(), config.signal);
+        const retryable = error.code === 'network_error' || error.code === 'timeout';
+        if (!retryable || attempt + 1 >= maxAttempts) throw error;
+        await this.waitBeforeRetry(backoffDelay(attempt, policy), config.signal);
+        continue;
+      }
+
+      if (!response.ok && attempt + 1 < maxAttempts && policy.retryOnStatus.includes(response.status)) {
+        attemptSignal.dispose();
+        const retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
+        const delay = retryAfter !== null ? Math.min(retryAfter, policy.retryMaxDelay) : backoffDelay(attempt, policy);
+        await this.waitBeforeRetry(delay, config.signal);
+        continue;
+      }
+      return { response, attempt: attemptSignal };
+    }
+  }
+
+  /**
+   * Serializa o corpo: objetos viram JSON; FormData/URLSearchParams/Blob seguem como estão
+   * (sem Content-Type manual, para o navegador definir o boundary/tipo).
+   */
+  private serializeBody(config: HttpRequestConfig): { body?: BodyInit; headers: Record<string, string> } {
+    const headers: Record<string, string> = { Accept: 'application/json', ...config.headers };
+    const data = config.data;
+    const isRaw = data instanceof FormData || data instanceof URLSearchParams || data instanceof Blob;
+
+    if (!isRaw && !Object.keys(headers).some((h) => h.toLowerCase() === 'content-type')) {
+      headers['Content-Type'] = 'application/json';
+    }
+    if (data === undefined || data === null) return { headers };
+    if (isRaw) return { body: data as BodyInit, headers };
+    if (typeof data === 'string') return { body: data, headers };
+    return { body: JSON.stringify(data), headers };
+  }
+
+  private async readErrorBody(response: Response): Promise<Record<string, unknown> | null> {
+    try {
+      return await response.json();
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Lê o corpo conforme `responseType`; respostas vazias (ex.: 204) retornam `undefined`
+   */
+  private async parseBody(response: Response, responseType: HttpResponseType = 'json'): Promise<unknown> {
+    if (responseType === 'blob') return response.blob();
+    const text = await response.text();
+    if (responseType === 'text') return text;
+    if (!text) return undefined;
+    try {
+      return JSON.parse(text);
+    } catch {
+      return text;
+    }
+  }
+
+  private toRequestError(cause: unknown, timedOut: boolean, signal?: AbortSignal): ApiError {
+    if (timedOut) {
+      return new ApiError('Tempo limite da requisição excedido', { code: 'timeout' });
+    }
+    if (signal?.aborted) {
+      return new ApiError('Requisição cancelada', { code: 'aborted' });
+    }
+    const message = cause instanceof Error && cause.message ? cause.message : 'Falha de conexão com o servidor';
+    return new ApiError(message, { code: 'network_error' });
+  }
+
+  private async waitBeforeRetry(ms: number, signal?: AbortSignal): Promise<void> {
+    try {
+      await waitFor(ms, signal);
+    } catch {
+      throw new ApiError('Requisição cancelada', { code: 'aborted' });
+    }
+  }
+}
+
+/**
+ * httpClient
+ * pt-BR: Instância compartilhada com os interceptadores padrão (tenant, auth, log,
+ *        usuário inativo e fila offline). A recuperação de sessão em 401/403 é registrada
+ *        pelo `authService`.
+ * en-US: Shared instance with the default interceptors (tenant, auth, logging,
+ *        inactive user and offline queue). 401/403 session recovery is registered
+ *        by `authService`.
+ */
+export const httpClient = new HttpClient({ baseURL: getApiUrl() });
+
+httpClient.interceptors.request.use(tenantHeaderInterceptor);
+httpClient.interceptors.request.use(authHeaderInterceptor);
+httpClient.interceptors.request.use(impersonationReadOnlyInterceptor);
+httpClient.interceptors.request.use(loggingRequestInterceptor);
+httpClient.interceptors.response.use(loggingResponseInterceptor);
+httpClient.interceptors.response.use(inactiveUserInterceptor);
+httpClient.interceptors.response.use(offlineQueueInterceptor);
+
+offlineQueue.attach(httpClient);
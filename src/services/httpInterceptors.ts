@@ -0,0 +1,193 @@
+import { getTenantId } from '@/lib/tenant';
+import { isImpersonationActive } from '@/lib/impersonation';
+import { ApiError } from '@/services/ApiError';
+import { emitInactiveUser, emitInvalidToken } from '@/services/authEvents';
+import { offlineQueue } from '@/services/offlineQueue';
+import type { HttpRecovered, HttpRequestConfig, RequestInterceptor, ResponseInterceptor } from '@/services/httpClient';
+
+/**
+ * Interceptadores padrão do cliente HTTP
+ * pt-BR: Cada interceptador cuida de uma única preocupação transversal
+ *        (auth, tenant, log, mapeamento de erros).
+ * en-US: Each interceptor handles a single cross-cutting concern
+ *        (auth, tenant, logging, error mapping).
+ */
+
+/**
+ * authHeaderInterceptor
+ * pt-BR: Adiciona `Authorization: Bearer <token>` quando há token salvo e guarda em
+ *        `meta.token` o token enviado (usado para detectar renovações concorrentes).
+ * en-US: Adds `Authorization: Bearer <token>` when a token is stored and keeps the sent
+ *        token in `meta.token` (used to detect concurrent refreshes).
+ */
+export const authHeaderInterceptor: RequestInterceptor = (config) => {
+  if (config.skipAuth) return config;
+  const token = localStorage.getItem('auth_token');
+  if (token && !config.headers?.Authorization) {
+    config.headers = { ...config.headers, Authorization: `Bearer ${token}` };
+    config.meta = { ...config.meta, token };
+  }
+  return config;
+};
+
+/**
+ * tenantHeaderInterceptor
+ * pt-BR: Envia o tenant atual em `X-Tenant`, além do templating da URL. Respeita um
+ *        `X-Tenant` já definido pela chamada (ex.: o do `BaseApiService`).
+ * en-US: Sends the current tenant in `X-Tenant`, on top of URL templating. Keeps an
+ *        `X-Tenant` already set by the call (e.g. the one from `BaseApiService`).
+ */
+export const tenantHeaderInterceptor: RequestInterceptor = (config) => {
+  if (config.headers?.['X-Tenant']) return config;
+  config.headers = { ...config.headers, 'X-Tenant': getTenantId() };
+  return config;
+};
+
+/**
+ * impersonationReadOnlyInterceptor
+ * pt-BR: No modo "ver como" a aba é somente leitura: qualquer mutação autenticada é rejeitada
+ *        antes de sair, com `impersonation_read_only`, salvo as marcadas com
+ *        `allowDuringImpersonation` (início/fim da própria visualização).
+ * en-US: In "view as" mode the tab is read-only: any authenticated mutation is rejected before
+ *        it is sent, with `impersonation_read_only`, except the ones flagged with
+ *        `allowDuringImpersonation` (starting/stopping the view itself).
+ */
+export const impersonationReadOnlyInterceptor: RequestInterceptor = (config) => {
+  if (config.method === 'GET' || config.skipAuth || config.allowDuringImpersonation) return config;
+  if (isImpersonationActive()) {
+    throw new ApiError('Modo "ver como" ativo: as alterações estão bloqueadas (somente leitura).', {
+      code: 'impersonation_read_only',
+    });
+  }
+  return config;
+};
+
+const isDebug = () => String(import.meta.env.VITE_DEBUG || '').toLowerCase() === 'true';
+
+/**
+ * loggingRequestInterceptor / loggingResponseInterceptor
+ * pt-BR: Registra método, URL, status e duração no console quando `VITE_DEBUG=true`.
+ * en-US: Logs method, URL, status and duration to the console when `VITE_DEBUG=true`.
+ */
+export const loggingRequestInterceptor: RequestInterceptor = (config) => {
+  if (isDebug()) {
+    config.meta = { ...config.meta, startedAt: Date.now() };
+  }
+  return config;
+};
+
+export const loggingResponseInterceptor: ResponseInterceptor = {
+  onResponse: (response, config) => {
+    if (!isDebug()) return;
+    const elapsed = Date.now() - Number(config.meta?.startedAt || Date.now());
+    console.debug(`[http] ${config.method} ${config.url} → ${response.status} (${elapsed}ms)`);
+  },
+  onError: (error, config) => {
+    if (!isDebug() || error.status) return undefined;
+    console.debug(`[http] ${config.method} ${config.url} ✕ ${error.code}: ${error.message}`);
+    return undefined;
+  },
+};
+
+const INACTIVE_REGEX = /(usuario\s*inativo|usuário\s*inativo|inactive\s*user|user\s*inactive|inactive|inativo)/i;
+const INACTIVE_CODES = ['inactive', 'user_inactive', 'usuario_inativo', 'usuario-inativo'];
+
+/**
+ * inactiveUserInterceptor
+ * pt-BR: Detecta usuário inativo pela mensagem/corpo/código do erro e emite o logout imediato.
+ * en-US: Detects an inactive user from the error message/body/code and emits immediate logout.
+ */
+export const inactiveUserInterceptor: ResponseInterceptor = {
+  onError: (error) => {
+    if (!error.status) return undefined;
+    const body = (error.body || {}) as Record<string, unknown>;
+    const isInactive = INACTIVE_REGEX.test(String(error.message || '')) ||
+      INACTIVE_REGEX.test(JSON.stringify(body)) ||
+      INACTIVE_CODES.includes(String(body.code || '').toLowerCase());
+    if (isInactive) {
+      emitInactiveUser();
+    }
+    return undefined;
+  },
+};
+
+/**
+ * offlineQueueInterceptor
+ * pt-BR: Para requisições com `offline: true`, uma mutação que falha por rede/timeout é
+ *        guardada na fila offline (IndexedDB) e rejeitada com `queued_offline`, para a tela
+ *        avisar que será sincronizada. Corpos binários (FormData/Blob) não entram na fila.
+ *        `POST` só entra com erro de rede: após um timeout o servidor pode já ter criado o
+ *        registro, e o reenvio o duplicaria.
+ * en-US: For requests with `offline: true`, a mutation failing on network/timeout is stored
+ *        in the offline queue (IndexedDB) and rejected with `queued_offline`, so the screen
+ *        can say it will be synced. Binary bodies (FormData/Blob) are not queued.
+ *        `POST` is only queued on a network error: after a timeout the server may already
+ *        have created the record, and the replay would duplicate it.
+ */
+export const offlineQueueInterceptor: ResponseInterceptor = {
+  onError: async (error, config) => {
+    if (!config.offline || config.method === 'GET' || config.meta?.offlineReplay) return undefined;
+    const isRetryableTimeout = error.isTimeout && config.method !== 'POST';
+    if (!error.isNetworkError && !isRetryableTimeout) return undefined;
+    const data = config.data;
+    if (data instanceof FormData || data instanceof Blob || data instanceof URLSearchParams) return undefined;
+
+    const queueId = await offlineQueue.enqueue(config);
+    throw new ApiError('Sem conexão: a alteração foi salva neste dispositivo e será enviada quando a conexão voltar.', {
+      code: 'queued_offline',
+      body: { queueId },
+    });
+  },
+};
+
+/**
+ * SessionRecoveryResult
+ * pt-BR: `refreshed` = token renovado (repetir a requisição); `valid` = token ainda válido
+ *        (erro legítimo, ex.: 403 de permissão); `invalid` = sessão perdida.
+ * en-US: `refreshed` = token renewed (replay the request); `valid` = token still valid
+ *        (legitimate error, e.g. a permission 403); `invalid` = session lost.
+ */
+export type SessionRecoveryResult = 'refreshed' | 'valid' | 'invalid';
+
+/**
+ * createSessionRecoveryInterceptor
+ * pt-BR: Em 401/403, recupera a sessão via `recover` (renovação única compartilhada por
+ *        todas as requisições concorrentes) e repete a requisição original uma única vez.
+ *        Só emite `auth:invalid_token` quando a própria renovação falha.
+ * en-US: On 401/403, recovers the session through `recover` (a single refresh shared by
+ *        all concurrent requests) and replays the original request once.
+ *        Only emits `auth:invalid_token` when the refresh itself fails.
+ * @param recover - Recuperação de sessão (ex.: `authService.recoverSession`)
+ */
+export function createSessionRecoveryInterceptor(recover: (status: number) => Promise<SessionRecoveryResult>): ResponseInterceptor {
+  return {
+    onError: async (error, config, client) => {
+      if (config.skipAuth || config.skipAuthErrorHandling || config.meta?.replayed) return undefined;
+      if (error.status !== 401 && error.status !== 403) return undefined;
+
+      const replay = async (): Promise<HttpRecovered> => {
+        const { Authorization: _staleToken, ...headers } = config.headers || {};
+        const retryConfig: HttpRequestConfig = { ...config, headers, meta: { ...config.meta, replayed: true } };
+        return { recovered: true, value: await client.request(retryConfig) };
+      };
+
+      // Outra requisição já renovou o token enquanto esta estava em andamento
+      const sentToken = config.meta?.token;
+      const currentToken = localStorage.getItem('auth_token');
+      if (error.status === 401 && sentToken && currentToken && sentToken !== currentToken) {
+        return replay();
+      }
+
+      let result: SessionRecoveryResult;
+      try {
+        result = await recover(error.status);
+      } catch {
+        // Em caso de erro inesperado na recuperação, não forçar logout
+        return undefined;
+      }
+      if (result === 'refreshed') return replay();
+      if (result === 'invalid') emitInvalidToken();
+      return undefined;
+    },
+  };
+}
@@ -0,0 +1,53 @@
+import { BaseApiService } from './BaseApiService';
+import { clearImpersonation, storeImpersonation } from '@/lib/impersonation';
+import type { ImpersonationSession, ImpersonationStartResponse } from '@/types/impersonation';
+
+/**
+ * Serviço do modo "ver como"
+ * pt-BR: Inicia e encerra a visualização como outro usuário. A API valida se quem pede é
+ *        administrador e registra início e fim na trilha de auditoria.
+ * en-US: Starts and stops viewing as another user. The API checks that the caller is an
+ *        administrator and records start and stop in the audit trail.
+ */
+class ImpersonationService extends BaseApiService {
+  /**
+   * start
+   * pt-BR: Carrega menu, permissões e saldo de pontos do usuário e guarda a sessão na aba.
+   * en-US: Loads the user's menu, permissions and points balance and stores the session in the tab.
+   * @param reason - Motivo informado pelo suporte, gravado na auditoria
+   */
+  async start(userId: string, reason?: string): Promise<ImpersonationSession> {
+    const data = await this.post<ImpersonationStartResponse>(
+      `/users/${userId}/impersonate`,
+      { reason: reason || undefined },
+      { allowDuringImpersonation: true, retries: 0 }
+    );
+    const session: ImpersonationSession = {
+      user: data.user,
+      permissions: data.permissions || [],
+      menu: data.menu || [],
+      points_balance: data.points_balance ?? null,
+      started_at: new Date().toISOString(),
+    };
+    storeImpersonation(session);
+    return session;
+  }
+
+  /**
+   * stop
+   * pt-BR: Registra o fim na API; a sessão local é removida mesmo se a chamada falhar.
+   * en-US: Records the end on the API; the local session is removed even if the call fails.
+   */
+  async stop(userId: string): Promise<void> {
+    try {
+      await this.post<void>(`/users/${userId}/impersonate/stop`, undefined, {
+        allowDuringImpersonation: true,
+        retries: 0,
+      });
+    } finally {
+      clearImpersonation();
+    }
+  }
+}
+
+export const impersonationService = new ImpersonationService();
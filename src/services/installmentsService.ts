@@ -40,15 +40,7 @@ class InstallmentsService extends BaseApiService {
    * en-US: Creates a record sending as application/x-www-form-urlencoded to support bracketed field names.
    */
   async createFormUrlEncoded(data: URLSearchParams): Promise<InstallmentRecord> {
-    const response = await fetch(`${this.API_BASE_URL}${this.endpoint}`, {
-      method: 'POST',
-      headers: {
-        ...this.getHeaders(),
-        'Content-Type': 'application/x-www-form-urlencoded',
-      },
-      body: data.toString(),
-    });
-    const json = await this.handleResponse<any>(response);
+    const json = await this.post<any>(this.endpoint, data);
     return (json?.data ?? json) as InstallmentRecord;
   }
 
@@ -58,15 +50,7 @@ class InstallmentsService extends BaseApiService {
    * en-US: Updates a record using urlencoded.
    */
   async updateFormUrlEncoded(id: string | number, data: URLSearchParams): Promise<InstallmentRecord> {
-    const response = await fetch(`${this.API_BASE_URL}${this.endpoint}/${id}`, {
-      method: 'PUT',
-      headers: {
-        ...this.getHeaders(),
-        'Content-Type': 'application/x-www-form-urlencoded',
-      },
-      body: data.toString(),
-    });
-    const json = await this.handleResponse<any>(response);
+    const json = await this.put<any>(`${this.endpoint}/${id}`, data);
     return (json?.data ?? json) as InstallmentRecord;
   }
 
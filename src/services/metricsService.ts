@@ -7,92 +7,26 @@ import {
   Paginated 
 } from '@/types/metrics';
 
-import { getTenantIdFromSubdomain, getTenantApiUrl, getVersionApi } from '@/lib/qlib';
-import { authService } from '@/services/authService';
-import { emitInvalidToken, emitInactiveUser } from '@/services/authEvents';
-
-const tenant_id = getTenantIdFromSubdomain() || 'default';
-const api_version = getVersionApi();
-const API_BASE_URL = getTenantApiUrl() + api_version;
-// console.log(`API_BASE_URL: ${API_BASE_URL}`);
-
-class MetricsService {
-  private async request<T>(url: string, options: RequestInit = {}): Promise<T> {
-    const headers: HeadersInit = {
-      'Content-Type': 'application/json',
-      'Accept': 'application/json',
-      ...options.headers,
-    };
-
-    const token = localStorage.getItem('auth_token');
-    if (token) {
-      headers['Authorization'] = `Bearer ${token}`;
-    }
-
-    const response = await fetch(url, {
-      ...options,
-      headers,
-    });
-
-    if (!response.ok) {
-      let errorMessage = 'Erro na requisição';
-      let errorBody: any = null;
-      try {
-        errorBody = await response.json();
-        errorMessage = errorBody?.message || errorMessage;
-      } catch {
-        // ignora erro no parse
-      }
-      const error = new Error(errorMessage) as Error & { status?: number; body?: any };
-      error.status = response.status;
-      error.body = errorBody;
-
-      // Logout imediato se usuário inativo
-      const lowerMsg = String(errorMessage || '').toLowerCase();
-      const bodyText = JSON.stringify(errorBody || {}).toLowerCase();
-      const inactiveRegex = /(usuario\s*inativo|usuário\s*inativo|inactive\s*user|user\s*inactive|inactive|inativo)/i;
-      const isInactive = inactiveRegex.test(lowerMsg) || inactiveRegex.test(bodyText) ||
-        ['inactive','user_inactive','usuario_inativo','usuario-inativo'].includes(String(errorBody?.code || '').toLowerCase());
-      if (isInactive) {
-        emitInactiveUser();
-      }
-
-      // Validação de token em erros de permissão usando /user/validate-token/{token}
-      if (response.status === 403 || response.status === 401) {
-        try {
-          const token = localStorage.getItem('auth_token');
-          const isValid = await authService.validateToken(token || undefined);
-          if (!isValid) {
-            emitInvalidToken();
-          }
-        } catch {
-          // Erros na validação não forçam logout automaticamente
-        }
-      }
-      throw error;
-    }
-
-    return response.json();
-  }
-
+import { BaseApiService } from './BaseApiService';
+
+/**
+ * Serviço de métricas
+ * pt-BR: Estende BaseApiService; usuário inativo e revalidação de token em 401/403
+ *        são tratados pelos interceptadores do cliente HTTP.
+ * en-US: Extends BaseApiService; inactive user and token revalidation on 401/403
+ *        are handled by the HTTP client interceptors.
+ */
+class MetricsService extends BaseApiService {
   async listMetrics(params?: MetricsListParams): Promise<Paginated<MetricRecord | MetricList>> {
-    const searchParams = new URLSearchParams();
-    
-    if (params?.year) searchParams.append('year', params.year.toString());
-    if (params?.month) searchParams.append('month', params.month.toString());
-    if (params?.week) searchParams.append('week', params.week.toString());
-    if (params?.start_date && params?.end_date) {
-      searchParams.append('data_inicio', params.start_date);
-      searchParams.append('data_fim', params.end_date);
-    }
-    if (params?.search) {
-      searchParams.append('search', params.search);
-    }
-
-    const url = `${API_BASE_URL}/metrics/filter${searchParams.toString() ? '?' + searchParams.toString() : ''}`;
-    // console.log('Requesting:', url);
-
-    const data = await this.request<any>(url, { method: 'GET' });
+    const hasPeriod = !!(params?.start_date && params?.end_date);
+    const data = await this.get<any>('/metrics/filter', {
+      year: params?.year || undefined,
+      month: params?.month || undefined,
+      week: params?.week || undefined,
+      data_inicio: hasPeriod ? params.start_date : undefined,
+      data_fim: hasPeriod ? params.end_date : undefined,
+      search: params?.search,
+    });
 
     // Normalização da resposta
     // const registros = data.registros || data.items || data.data || [];
@@ -120,29 +54,19 @@ class MetricsService {
   }
 
   async getMetric(id: string): Promise<MetricRecord> {
-    return this.request<MetricRecord>(`${API_BASE_URL}/metrics/${id}`, {
-      method: 'GET',
-    });
+    return this.get<MetricRecord>(`/metrics/${id}`);
   }
 
   async createMetric(payload: CreateMetricInput): Promise<MetricRecord> {
-    return this.request<MetricRecord>(`${API_BASE_URL}/metrics`, {
-      method: 'POST',
-      body: JSON.stringify(payload),
-    });
+    return this.post<MetricRecord>('/metrics', payload);
   }
 
   async updateMetric(id: string, payload: UpdateMetricInput): Promise<MetricRecord> {
-    return this.request<MetricRecord>(`${API_BASE_URL}/metrics/${id}`, {
-      method: 'PUT',
-      body: JSON.stringify(payload),
-    });
+    return this.put<MetricRecord>(`/metrics/${id}`, payload);
   }
 
   async deleteMetric(id: string): Promise<void> {
-    await this.request<void>(`${API_BASE_URL}/metrics/${id}`, {
-      method: 'DELETE',
-    });
+    await this.delete<void>(`/metrics/${id}`);
   }
 }
 
@@ -0,0 +1,332 @@
+import { getTenantId } from '@/lib/tenant';
+import { isApiError } from '@/services/ApiError';
+import type { HttpClient, HttpRequestConfig } from '@/services/httpClient';
+import type { HttpMethod } from '@/services/requestPolicy';
+
+/**
+ * Fila offline de mutações
+ * pt-BR: Guarda no IndexedDB as mutações que falharam por falta de conexão e as reenvia,
+ *        na ordem em que foram feitas, quando a conexão volta. Antes de reenviar uma
+ *        alteração, compara o `updated_at` do servidor com o que o usuário tinha em tela;
+ *        divergências (ou 409/412) ficam como conflito para o usuário decidir. Cada entrada
+ *        guarda o tenant em que foi feita e só é reenviada com esse tenant ativo.
+ * en-US: Stores mutations that failed for lack of connectivity in IndexedDB and replays them,
+ *        in the order they were made, when the connection comes back. Before replaying a
+ *        change, compares the server `updated_at` with what the user had on screen;
+ *        mismatches (or 409/412) are kept as conflicts for the user to resolve. Each entry
+ *        keeps the tenant it was made under and is only replayed while that tenant is active.
+ */
+
+export type OfflineMutationStatus = 'pending' | 'conflict' | 'failed';
+
+export interface OfflineMutation {
+  id?: number;
+  method: HttpMethod;
+  url: string;
+  params?: Record<string, unknown>;
+  data?: unknown;
+  /** Descrição exibida ao usuário / Description shown to the user */
+  label: string;
+  /** `updated_at` do registro quando a alteração foi feita / Record `updated_at` when the change was made */
+  baseUpdatedAt?: string | null;
+  userId?: string | null;
+  /** Tenant da requisição original (`X-Tenant`) / Tenant of the original request (`X-Tenant`) */
+  tenant?: string | null;
+  createdAt: string;
+  status: OfflineMutationStatus;
+  error?: string;
+  /** Versão atual no servidor, em caso de conflito / Current server version, on conflict */
+  serverVersion?: unknown;
+}
+
+type ReplayResult = 'done' | 'offline' | 'conflict' | 'failed';
+
+const DB_NAME = 'crm-offline';
+const STORE = 'mutations';
+const FLUSH_INTERVAL_MS = 30_000;
+const MAX_TRACKED_VERSIONS = 500;
+
+export const OFFLINE_QUEUE_CHANGED_EVENT = 'offline:queue_changed';
+export const OFFLINE_REPLAYED_EVENT = 'offline:replayed';
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE, { keyPath: 'id', autoIncrement: true });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function extractUpdatedAt(value: unknown): string | null {
+  if (!value || typeof value !== 'object') return null;
+  const record = value as Record<string, unknown>;
+  if (typeof record.updated_at === 'string') return record.updated_at;
+  const inner = record.data as Record<string, unknown> | undefined;
+  return inner && typeof inner === 'object' && typeof inner.updated_at === 'string' ? inner.updated_at : null;
+}
+
+function currentUserId(): string | null {
+  try {
+    const user = JSON.parse(localStorage.getItem('auth_user') || 'null');
+    return user?.id !== undefined && user?.id !== null ? String(user.id) : null;
+  } catch {
+    return null;
+  }
+}
+
+class OfflineQueue {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  /** Fallback em memória quando o IndexedDB não existe / In-memory fallback without IndexedDB */
+  private memory: OfflineMutation[] = [];
+  private memorySeq = 0;
+  private versions = new Map<string, string>();
+  private client: HttpClient | null = null;
+  private flushing: Promise<void> | null = null;
+  private started = false;
+
+  /**
+   * attach
+   * pt-BR: Define o cliente HTTP usado para reenviar a fila (evita import circular).
+   * en-US: Sets the HTTP client used to replay the queue (avoids a circular import).
+   */
+  attach(client: HttpClient): void {
+    this.client = client;
+  }
+
+  /**
+   * start
+   * pt-BR: Reenvia a fila ao voltar a conexão e periodicamente. Idempotente.
+   * en-US: Replays the queue when the connection returns and periodically. Idempotent.
+   */
+  start(): void {
+    if (this.started || typeof window === 'undefined') return;
+    this.started = true;
+    window.addEventListener('online', () => void this.flush());
+    window.setInterval(() => void this.flush(), FLUSH_INTERVAL_MS);
+    void this.flush();
+  }
+
+  /**
+   * rememberVersion
+   * pt-BR: Registra o `updated_at` mais recente lido de um endpoint, usado na detecção de conflitos.
+   * en-US: Records the latest `updated_at` read from an endpoint, used for conflict detection.
+   */
+  rememberVersion(url: string, body: unknown): void {
+    const updatedAt = extractUpdatedAt(body);
+    if (!updatedAt) return;
+    this.versions.delete(url);
+    this.versions.set(url, updatedAt);
+    if (this.versions.size > MAX_TRACKED_VERSIONS) {
+      const oldest = this.versions.keys().next().value;
+      if (oldest !== undefined) this.versions.delete(oldest);
+    }
+  }
+
+  /**
+   * enqueue
+   * pt-BR: Guarda a requisição que falhou por falta de conexão.
+   * en-US: Stores a request that failed for lack of connectivity.
+   */
+  async enqueue(config: HttpRequestConfig): Promise<number> {
+    const entry: OfflineMutation = {
+      method: config.method,
+      url: config.url,
+      params: config.params,
+      data: config.data,
+      label: String(config.meta?.offlineLabel || `${config.method} ${config.url}`),
+      baseUpdatedAt: config.method === 'POST' ? null : this.versions.get(config.url) ?? null,
+      userId: currentUserId(),
+      tenant: config.headers?.['X-Tenant'] || getTenantId(),
+      createdAt: new Date().toISOString(),
+      status: 'pending',
+    };
+    const id = await this.write((store) => store.add(entry), () => {
+      entry.id = ++this.memorySeq;
+      this.memory.push(entry);
+      return entry.id;
+    });
+    this.notify();
+    return Number(id);
+  }
+
+  /**
+   * list
+   * pt-BR: Mutações do usuário e do tenant atuais, em ordem de criação. As de outro tenant
+   *        ficam guardadas até ele voltar a ser o ativo.
+   * en-US: Current user's and tenant's mutations, in creation order. Those from another
+   *        tenant stay stored until it is the active one again.
+   */
+  async list(): Promise<OfflineMutation[]> {
+    const userId = currentUserId();
+    const tenant = getTenantId();
+    const all = await this.readAll();
+    return all
+      .filter((entry) => !entry.userId || entry.userId === userId)
+      .filter((entry) => !entry.tenant || entry.tenant === tenant)
+      .sort((a, b) => Number(a.id) - Number(b.id));
+  }
+
+  async discard(id: number): Promise<void> {
+    await this.write((store) => store.delete(id), () => {
+      this.memory = this.memory.filter((entry) => entry.id !== id);
+    });
+    this.notify();
+    void this.flush();
+  }
+
+  /**
+   * retry
+   * pt-BR: Reenvia uma mutação em conflito/falha. `force` ignora a checagem de `updated_at`
+   *        (mantém a versão do usuário).
+   * en-US: Replays a conflicting/failed mutation. `force` skips the `updated_at` check
+   *        (keeps the user's version).
+   */
+  async retry(id: number, options: { force?: boolean } = {}): Promise<ReplayResult> {
+    const entry = (await this.list()).find((item) => item.id === id);
+    if (!entry) return 'done';
+    const result = await this.replay(entry, options.force);
+    if (result === 'done') {
+      window.dispatchEvent(new CustomEvent(OFFLINE_REPLAYED_EVENT, { detail: { count: 1 } }));
+      void this.flush();
+    }
+    return result;
+  }
+
+  /**
+   * flush
+   * pt-BR: Reenvia as pendências em ordem. Para no primeiro conflito/falha, para não aplicar
+   *        alterações posteriores sobre um estado que o usuário ainda precisa decidir.
+   * en-US: Replays pending entries in order. Stops at the first conflict/failure so later
+   *        changes are not applied on top of a state the user still has to decide on.
+   */
+  flush(): Promise<void> {
+    if (!this.flushing) {
+      this.flushing = this.runFlush().finally(() => {
+        this.flushing = null;
+      });
+    }
+    return this.flushing;
+  }
+
+  private async runFlush(): Promise<void> {
+    if (!this.client || (typeof navigator !== 'undefined' && navigator.onLine === false)) return;
+    let replayed = 0;
+    for (;;) {
+      const [next] = await this.list();
+      if (!next || next.status !== 'pending') break;
+      const result = await this.replay(next);
+      if (result !== 'done') break;
+      replayed += 1;
+    }
+    if (replayed) {
+      window.dispatchEvent(new CustomEvent(OFFLINE_REPLAYED_EVENT, { detail: { count: replayed } }));
+    }
+  }
+
+  private async replay(entry: OfflineMutation, force = false): Promise<ReplayResult> {
+    const client = this.client;
+    if (!client || entry.id === undefined) return 'offline';
+    const meta = { offlineReplay: true };
+    // Reenvia com o tenant da entrada, não com o que o interceptador aplicaria agora
+    // Replays under the entry's tenant, not the one the interceptor would apply now
+    const headers = entry.tenant ? { 'X-Tenant': entry.tenant } : undefined;
+
+    if (!force && entry.baseUpdatedAt && entry.method !== 'POST') {
+      try {
+        const current = await client.request<unknown>({ method: 'GET', url: entry.url, headers, meta, retries: 0 });
+        const serverUpdatedAt = extractUpdatedAt(current);
+        if (serverUpdatedAt && serverUpdatedAt !== entry.baseUpdatedAt) {
+          const serverVersion = current && typeof current === 'object' && 'data' in current
+            ? (current as { data: unknown }).data
+            : current;
+          await this.mark(entry, { status: 'conflict', serverVersion, error: 'O registro foi alterado no servidor depois da sua edição.' });
+          return 'conflict';
+        }
+      } catch (error) {
+        if (!isApiError(error) || !error.status) return 'offline';
+        if (error.status === 404) {
+          await this.mark(entry, { status: 'conflict', serverVersion: null, error: 'O registro não existe mais no servidor.' });
+          return 'conflict';
+        }
+        // Outros erros na checagem não impedem o reenvio / Other check errors do not block the replay
+      }
+    }
+
+    try {
+      await client.request<unknown>({ method: entry.method, url: entry.url, params: entry.params, data: entry.data, headers, meta });
+      await this.write((store) => store.delete(entry.id!), () => {
+        this.memory = this.memory.filter((item) => item.id !== entry.id);
+      });
+      this.notify();
+      return 'done';
+    } catch (error) {
+      if (!isApiError(error) || !error.status) return 'offline';
+      if (error.status === 409 || error.status === 412) {
+        await this.mark(entry, { status: 'conflict', serverVersion: error.body, error: error.message });
+        return 'conflict';
+      }
+      await this.mark(entry, { status: 'failed', error: error.message });
+      return 'failed';
+    }
+  }
+
+  private async mark(entry: OfflineMutation, changes: Partial<OfflineMutation>): Promise<void> {
+    const updated = { ...entry, ...changes };
+    await this.write((store) => store.put(updated), () => {
+      this.memory = this.memory.map((item) => (item.id === entry.id ? updated : item));
+    });
+    this.notify();
+  }
+
+  private notify(): void {
+    window.dispatchEvent(new CustomEvent(OFFLINE_QUEUE_CHANGED_EVENT));
+  }
+
+  private getDatabase(): Promise<IDBDatabase> | null {
+    if (typeof indexedDB === 'undefined') return null;
+    if (!this.dbPromise) {
+      this.dbPromise = openDatabase().catch((error) => {
+        console.warn('IndexedDB indisponível; fila offline apenas em memória:', error);
+        this.dbPromise = null;
+        throw error;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async readAll(): Promise<OfflineMutation[]> {
+    const dbPromise = this.getDatabase();
+    if (!dbPromise) return [...this.memory];
+    try {
+      const db = await dbPromise;
+      return await new Promise<OfflineMutation[]>((resolve, reject) => {
+        const request = db.transaction(STORE, 'readonly').objectStore(STORE).getAll();
+        request.onsuccess = () => resolve(request.result as OfflineMutation[]);
+        request.onerror = () => reject(request.error);
+      });
+    } catch {
+      return [...this.memory];
+    }
+  }
+
+  private async write<R>(operation: (store: IDBObjectStore) => IDBRequest, fallback: () => R): Promise<unknown> {
+    const dbPromise = this.getDatabase();
+    if (!dbPromise) return fallback();
+    try {
+      const db = await dbPromise;
+      return await new Promise((resolve, reject) => {
+        const transaction = db.transaction(STORE, 'readwrite');
+        const request = operation(transaction.objectStore(STORE));
+        transaction.oncomplete = () => resolve(request.result);
+        transaction.onerror = () => reject(transaction.error);
+      });
+    } catch {
+      return fallback();
+    }
+  }
+}
+
+export const offlineQueue = new OfflineQueue();
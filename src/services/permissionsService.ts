@@ -8,65 +8,21 @@ import {
   MenuPermissionUpsert
 } from '@/types/permissions';
 
-import { getTenantIdFromSubdomain, getTenantApiUrl, getVersionApi } from '@/lib/qlib';
-const tenant_id = getTenantIdFromSubdomain() || 'default';
-const api_version = getVersionApi();
-const API_BASE_URL = getTenantApiUrl() + api_version;
-
-class PermissionsService {
-  private getHeaders(): HeadersInit {
-    const headers: HeadersInit = {
-      'Content-Type': 'application/json',
-      'Accept': 'application/json',
-    };
-
-    const token = localStorage.getItem('auth_token');
-    if (token) {
-      headers['Authorization'] = `Bearer ${token}`;
-    }
-
-    return headers;
-  }
-
-  private async handleResponse<T>(response: Response): Promise<T> {
-    if (!response.ok) {
-      let errorMessage = 'Erro na requisição';
-      let errorBody: any = null;
-      try {
-        errorBody = await response.json();
-        errorMessage = errorBody?.message || errorMessage;
-      } catch {
-        // ignore json parse errors
-      }
-      const error = new Error(errorMessage) as Error & { status?: number; body?: any };
-      error.status = response.status;
-      error.body = errorBody;
-      throw error;
-    }
-    return response.json();
-  }
-
+import { BaseApiService } from './BaseApiService';
+import { isApiError } from './ApiError';
+
+/**
+ * Serviço de grupos de permissão
+ * pt-BR: Estende BaseApiService para compartilhar auth, tenant e tratamento de erros.
+ * en-US: Extends BaseApiService to share auth, tenant and error handling.
+ */
+class PermissionsService extends BaseApiService {
   async listPermissions(params?: PermissionsListParams): Promise<Paginated<PermissionRecord>> {
-    const searchParams = new URLSearchParams();
-    
-    if (params?.search) {
-      searchParams.append('search', params.search);
-    }
-    if (params?.page) {
-      searchParams.append('page', params.page.toString());
-    }
-    if (params?.per_page) {
-      searchParams.append('per_page', params.per_page.toString());
-    }
-
-    const url = `${API_BASE_URL}/permissions${searchParams.toString() ? '?' + searchParams.toString() : ''}`;
-    
-    const response = await fetch(url, {
-      method: 'GET',
-      headers: this.getHeaders(),
+    const data = await this.get<any>('/permissions', {
+      search: params?.search,
+      page: params?.page,
+      per_page: params?.per_page,
     });
-
-    const data = await this.handleResponse<any>(response);
     
     // Handle both paginated and non-paginated responses
     if (Array.isArray(data)) {
@@ -94,48 +50,23 @@ class PermissionsService {
   }
 
   async getPermission(id: string): Promise<PermissionRecord> {
-    const response = await fetch(`${API_BASE_URL}/permissions/${id}`, {
-      method: 'GET',
-      headers: this.getHeaders(),
-    });
-
-    return this.handleResponse<PermissionRecord>(response);
+    return this.get<PermissionRecord>(`/permissions/${id}`);
   }
 
   async createPermission(payload: CreatePermissionInput): Promise<PermissionRecord> {
-    const response = await fetch(`${API_BASE_URL}/permissions`, {
-      method: 'POST',
-      headers: this.getHeaders(),
-      body: JSON.stringify(payload),
-    });
-
-    return this.handleResponse<PermissionRecord>(response);
+    return this.post<PermissionRecord>('/permissions', payload);
   }
 
   async updatePermission(id: string, payload: UpdatePermissionInput): Promise<PermissionRecord> {
-    const response = await fetch(`${API_BASE_URL}/permissions/${id}`, {
-      method: 'PUT',
-      headers: this.getHeaders(),
-      body: JSON.stringify(payload),
-    });
-
-    return this.handleResponse<PermissionRecord>(response);
+    return this.put<PermissionRecord>(`/permissions/${id}`, payload);
   }
 
   async deletePermission(id: string): Promise<void> {
     try {
-      const response = await fetch(`${API_BASE_URL}/permissions/${id}`, {
-        method: 'DELETE',
-        headers: this.getHeaders(),
-      });
-
-      if (response.status === 404) {
-        throw new Error('Permissão não encontrada');
-      }
-
-      await this.handleResponse(response);
+      await this.delete<void>(`/permissions/${id}`);
     } catch (error) {
-      throw new Error(`Erro ao excluir permissão: ${(error as Error).message}`);
+      const message = isApiError(error) && error.status === 404 ? 'Permissão não encontrada' : (error as Error).message;
+      throw new Error(`Erro ao excluir permissão: ${message}`);
     }
   }
 
@@ -144,12 +75,7 @@ class PermissionsService {
    */
   async getMenuPermissions(permissionId: string): Promise<MenuPermissionRow[]> {
     try {
-      const response = await fetch(`${API_BASE_URL}/permissions/${permissionId}/menu-permissions`, {
-        method: 'GET',
-        headers: this.getHeaders(),
-      });
-
-      const data = await this.handleResponse<any>(response);
+      const data = await this.get<any>(`/permissions/${permissionId}/menu-permissions`);
       
       // Flatten nested tree structure and normalize boolean values
       return this.flattenMenuPermissions(data);
@@ -198,13 +124,7 @@ class PermissionsService {
    */
   async updateMenuPermissions(data: MenuPermissionUpsert): Promise<void> {
     try {
-      const response = await fetch(`${API_BASE_URL}/permissions/${data.permission_id}/menu-permissions`, {
-        method: 'PUT',
-        headers: this.getHeaders(),
-        body: JSON.stringify(data),
-      });
-
-      await this.handleResponse(response);
+      await this.put<void>(`/permissions/${data.permission_id}/menu-permissions`, data);
     } catch (error) {
       throw new Error(`Erro ao salvar permissões de menu: ${(error as Error).message}`);
     }
@@ -151,20 +151,10 @@ class PointsExtractsService extends BaseApiService {
    * @param params - Parâmetros de filtro
    * @returns Blob com o arquivo exportado
    *
-   * Implementação manual de GET para retornar Blob:
-   * - Serializa `params` corretamente na URL
-   * - Usa `response.blob()` no lugar de `handleResponse(json)`
+   * Usa `responseType: 'blob'` para ler o arquivo em vez de JSON.
    */
   async exportPointsExtracts(params?: PointsExtractListParams): Promise<Blob> {
-    const url = this.buildUrlWithParams(`${this.API_BASE_URL}${this.endpoint}/export`, params);
-    const response = await fetch(url, {
-      method: 'GET',
-      headers: this.getHeaders(),
-    });
-    if (!response.ok) {
-      throw new Error(`Falha ao exportar extratos: ${response.status}`);
-    }
-    return await response.blob();
+    return this.get<Blob>(`${this.endpoint}/export`, params, { responseType: 'blob' });
   }
 
   /**
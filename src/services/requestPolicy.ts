@@ -0,0 +1,152 @@
+/**
+ * Política de requisição (timeout, retry e cancelamento)
+ * pt-BR: Configuração e utilitários usados pelo BaseApiService para aplicar timeout por
+ *        chamada, backoff exponencial em 5xx/429/erros de rede para verbos idempotentes,
+ *        suporte a `Retry-After` e repasse de `AbortSignal`.
+ * en-US: Configuration and helpers used by BaseApiService to apply per-call timeout,
+ *        exponential backoff on 5xx/429/network errors for idempotent verbs,
+ *        `Retry-After` support and `AbortSignal` passthrough.
+ */
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export interface RequestPolicy {
+  /** Timeout por tentativa em ms (0 desativa) / Per-attempt timeout in ms (0 disables) */
+  timeout: number;
+  /** Número máximo de novas tentativas / Maximum number of retries */
+  retries: number;
+  /** Atraso base do backoff em ms / Backoff base delay in ms */
+  retryBaseDelay: number;
+  /** Atraso máximo entre tentativas em ms / Maximum delay between attempts in ms */
+  retryMaxDelay: number;
+  /** Status HTTP que disparam nova tentativa / HTTP statuses that trigger a retry */
+  retryOnStatus: number[];
+  /** Verbos que podem ser repetidos com segurança / Verbs that are safe to retry */
+  retryMethods: HttpMethod[];
+}
+
+/**
+ * RequestOptions
+ * pt-BR: Opções por chamada. Sobrescrevem a política do serviço.
+ * en-US: Per-call options. They override the service policy.
+ */
+export interface RequestOptions extends Partial<RequestPolicy> {
+  signal?: AbortSignal;
+}
+
+function envNumber(value: unknown, fallback: number): number {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+/**
+ * DEFAULT_REQUEST_POLICY
+ * pt-BR: Valores padrão, ajustáveis por `VITE_API_TIMEOUT` e `VITE_API_RETRIES`.
+ * en-US: Default values, tunable through `VITE_API_TIMEOUT` and `VITE_API_RETRIES`.
+ */
+export const DEFAULT_REQUEST_POLICY: RequestPolicy = {
+  timeout: envNumber(import.meta.env.VITE_API_TIMEOUT, 30000),
+  retries: envNumber(import.meta.env.VITE_API_RETRIES, 2),
+  retryBaseDelay: 500,
+  retryMaxDelay: 10000,
+  retryOnStatus: [429, 500, 502, 503, 504],
+  retryMethods: ['GET', 'PUT', 'DELETE'],
+};
+
+/**
+ * resolvePolicy
+ * pt-BR: Combina a política do serviço com as opções da chamada.
+ * en-US: Merges the service policy with call options.
+ */
+export function resolvePolicy(base: RequestPolicy, options?: RequestOptions): RequestPolicy {
+  if (!options) return base;
+  const resolved = { ...base };
+  (Object.keys(base) as (keyof RequestPolicy)[]).forEach((key) => {
+    if (options[key] !== undefined) {
+      (resolved as Record<keyof RequestPolicy, unknown>)[key] = options[key];
+    }
+  });
+  return resolved;
+}
+
+/**
+ * parseRetryAfter
+ * pt-BR: Interpreta o header `Retry-After` (segundos ou data HTTP) e retorna ms.
+ * en-US: Parses the `Retry-After` header (seconds or HTTP date) and returns ms.
+ */
+export function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+  return null;
+}
+
+/**
+ * backoffDelay
+ * pt-BR: Backoff exponencial com jitter ("full jitter") limitado a `retryMaxDelay`.
+ * en-US: Exponential backoff with full jitter, capped at `retryMaxDelay`.
+ */
+export function backoffDelay(attempt: number, policy: RequestPolicy): number {
+  const exp = policy.retryBaseDelay * Math.pow(2, attempt);
+  return Math.round(Math.random() * Math.min(policy.retryMaxDelay, exp));
+}
+
+/**
+ * waitFor
+ * pt-BR: Aguarda `ms`, rejeitando imediatamente se o sinal for abortado.
+ * en-US: Waits `ms`, rejecting right away if the signal is aborted.
+ */
+export function waitFor(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * createAttemptSignal
+ * pt-BR: Cria um sinal para uma tentativa que aborta no timeout ou quando o sinal
+ *        do chamador é abortado. `timedOut()` indica se o motivo foi o timeout.
+ * en-US: Creates a per-attempt signal that aborts on timeout or when the caller's
+ *        signal aborts. `timedOut()` tells whether the timeout was the cause.
+ */
+export function createAttemptSignal(timeout: number, parent?: AbortSignal) {
+  const controller = new AbortController();
+  let didTimeout = false;
+  const onParentAbort = () => controller.abort(parent?.reason);
+
+  if (parent?.aborted) {
+    controller.abort(parent.reason);
+  } else {
+    parent?.addEventListener('abort', onParentAbort, { once: true });
+  }
+
+  const timer = timeout > 0
+    ? setTimeout(() => {
+        didTimeout = true;
+        controller.abort();
+      }, timeout)
+    : undefined;
+
+  return {
+    signal: controller.signal,
+    timedOut: () => didTimeout,
+    dispose: () => {
+      if (timer) clearTimeout(timer);
+      parent?.removeEventListener('abort', onParentAbort);
+    },
+  };
+}
@@ -0,0 +1,127 @@
+import { z, type ZodIssue, type ZodTypeAny } from 'zod';
+import { ApiError } from '@/services/ApiError';
+
+/**
+ * Validação de respostas da API
+ * pt-BR: Confere as respostas contra o schema zod do recurso. Em `warn`, divergências
+ *        viram avisos estruturados no console e o dado original segue adiante;
+ *        em `strict`, viram `ResponseValidationError`; em `off`, nada é validado.
+ * en-US: Checks responses against the resource's zod schema. In `warn`, mismatches
+ *        become structured console warnings and the original data passes through;
+ *        in `strict`, they become `ResponseValidationError`; in `off`, nothing is validated.
+ */
+
+export type ResponseValidationMode = 'off' | 'warn' | 'strict';
+
+/**
+ * paginatedEnvelopeSchema
+ * pt-BR: Formatos de listagem aceitos por `normalizePaginatedResponse`.
+ * en-US: Listing shapes accepted by `normalizePaginatedResponse`.
+ */
+export const paginatedEnvelopeSchema = z.union([
+  z.array(z.unknown()),
+  z.object({ data: z.array(z.unknown()) }).passthrough(),
+  z.object({ items: z.array(z.unknown()) }).passthrough(),
+]);
+
+/**
+ * resolveValidationMode
+ * pt-BR: Lê `VITE_API_SCHEMA_MODE`; sem valor, usa `warn` em desenvolvimento e `off` em produção.
+ * en-US: Reads `VITE_API_SCHEMA_MODE`; when unset, uses `warn` in development and `off` in production.
+ */
+export function resolveValidationMode(): ResponseValidationMode {
+  const mode = String(import.meta.env.VITE_API_SCHEMA_MODE || '').toLowerCase();
+  if (mode === 'off' || mode === 'warn' || mode === 'strict') return mode;
+  return import.meta.env.DEV ? 'warn' : 'off';
+}
+
+export interface ResponseSchemaIssue {
+  path: string;
+  code: string;
+  message: string;
+}
+
+export interface ResponseValidationContext {
+  /** Endpoint do recurso (ex.: `/cursos`) / Resource endpoint (e.g. `/cursos`) */
+  endpoint: string;
+  /** Operação do serviço (ex.: `list`, `getById`) / Service operation (e.g. `list`, `getById`) */
+  operation: string;
+}
+
+/**
+ * ResponseValidationError
+ * pt-BR: Resposta fora do schema em modo `strict`. `body.issues` traz os campos divergentes.
+ * en-US: Response outside the schema in `strict` mode. `body.issues` lists the mismatched fields.
+ */
+export class ResponseValidationError extends ApiError<{ endpoint: string; operation: string; issues: ResponseSchemaIssue[] }> {
+  constructor(context: ResponseValidationContext, issues: ResponseSchemaIssue[]) {
+    super(`Resposta inesperada da API em ${context.endpoint} (${context.operation})`, {
+      code: 'schema_mismatch',
+      body: { ...context, issues },
+    });
+    this.name = 'ResponseValidationError';
+    Object.setPrototypeOf(this, ResponseValidationError.prototype);
+  }
+}
+
+function toIssues(issues: ZodIssue[], basePath: string): ResponseSchemaIssue[] {
+  return issues.map((issue) => ({
+    path: [basePath, ...issue.path].filter((p) => p !== '').join('.'),
+    code: issue.code,
+    message: issue.message,
+  }));
+}
+
+// Evita repetir o mesmo aviso a cada refetch / Avoids repeating the same warning on every refetch
+const reportedWarnings = new Set<string>();
+
+function report(mode: ResponseValidationMode, context: ResponseValidationContext, issues: ResponseSchemaIssue[]): void {
+  if (mode === 'strict') {
+    throw new ResponseValidationError(context, issues);
+  }
+  const signature = `${context.endpoint}:${context.operation}:${issues.map((i) => `${i.path.replace(/^\d+\./, '*.')}:${i.code}`).join('|')}`;
+  if (reportedWarnings.has(signature)) return;
+  reportedWarnings.add(signature);
+  console.warn(`[schema] ${context.endpoint} (${context.operation}): ${issues.length} divergência(s)`, { ...context, issues });
+}
+
+/**
+ * validateEntity
+ * pt-BR: Valida um registro. Retorna o valor interpretado pelo schema quando válido.
+ * en-US: Validates a single record. Returns the schema-parsed value when valid.
+ */
+export function validateEntity<T>(
+  schema: ZodTypeAny | undefined,
+  value: unknown,
+  context: ResponseValidationContext,
+  mode: ResponseValidationMode
+): T {
+  if (!schema || mode === 'off') return value as T;
+  const result = schema.safeParse(value);
+  if (result.success) return result.data as T;
+  report(mode, context, toIssues(result.error.issues, ''));
+  return value as T;
+}
+
+/**
+ * validateList
+ * pt-BR: Valida cada item de uma lista; itens inválidos seguem como vieram (modo `warn`).
+ * en-US: Validates each list item; invalid items pass through unchanged (`warn` mode).
+ */
+export function validateList<T>(
+  schema: ZodTypeAny | undefined,
+  items: unknown[],
+  context: ResponseValidationContext,
+  mode: ResponseValidationMode
+): T[] {
+  if (!schema || mode === 'off') return items as T[];
+  const issues: ResponseSchemaIssue[] = [];
+  const parsed = items.map((item, index) => {
+    const result = schema.safeParse(item);
+    if (result.success) return result.data;
+    issues.push(...toIssues(result.error.issues, String(index)));
+    return item;
+  });
+  if (issues.length) report(mode, context, issues);
+  return parsed as T[];
+}
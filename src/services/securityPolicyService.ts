@@ -0,0 +1,38 @@
+import { BaseApiService } from './BaseApiService';
+import { DEFAULT_SECURITY_POLICY } from '@/lib/passwordPolicy';
+import type { SecurityPolicy } from '@/types/security';
+
+/**
+ * Serviço da política de segurança
+ * pt-BR: Política de senhas e de proteção do login em `/security/policy`. A leitura é pública
+ *        (cadastro e redefinição de senha acontecem sem sessão); só administradores salvam.
+ * en-US: Password and login protection policy at `/security/policy`. Reading is public
+ *        (registration and password reset happen without a session); only administrators save.
+ */
+class SecurityPolicyService extends BaseApiService {
+  private readonly endpoint = '/security/policy';
+
+  /**
+   * Campos ausentes na resposta ficam com os valores padrão
+   */
+  async getPolicy(): Promise<SecurityPolicy> {
+    const response = await this.get<{ data?: Partial<SecurityPolicy> } & Partial<SecurityPolicy>>(
+      this.endpoint,
+      undefined,
+      { skipAuth: true, skipAuthErrorHandling: true }
+    );
+    const policy = response?.data ?? response ?? {};
+    return {
+      password: { ...DEFAULT_SECURITY_POLICY.password, ...policy.password },
+      login: { ...DEFAULT_SECURITY_POLICY.login, ...policy.login },
+    };
+  }
+
+  async savePolicy(policy: SecurityPolicy): Promise<SecurityPolicy> {
+    await this.put<void>(this.endpoint, policy);
+    return policy;
+  }
+}
+
+// Instância singleton do serviço
+export const securityPolicyService = new SecurityPolicyService();
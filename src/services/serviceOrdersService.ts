@@ -45,20 +45,30 @@ class ServiceOrdersService extends BaseApiService {
 
   /**
    * Cria uma nova ordem de serviço
+   * pt-BR: Sem conexão, a criação vai para a fila offline (`queued_offline`).
+   * en-US: Without connectivity, the creation goes to the offline queue (`queued_offline`).
    * @param data - Dados da ordem de serviço
    */
   async createServiceOrder(data: CreateServiceOrderInput): Promise<ServiceOrder> {
-    const response = await this.post<ApiResponse<ServiceOrder>>(this.endpoint, data);
+    const response = await this.post<ApiResponse<ServiceOrder>>(this.endpoint, data, {
+      offline: true,
+      meta: { offlineLabel: `Nova ordem de serviço: ${data.title || 'sem título'}` },
+    });
     return response.data;
   }
 
   /**
    * Atualiza uma ordem de serviço existente
+   * pt-BR: Sem conexão, a alteração vai para a fila offline (`queued_offline`).
+   * en-US: Without connectivity, the change goes to the offline queue (`queued_offline`).
    * @param id - ID da ordem de serviço
    * @param data - Dados para atualização
    */
   async updateServiceOrder(id: string, data: UpdateServiceOrderInput): Promise<ServiceOrder> {
-    const response = await this.put<ApiResponse<ServiceOrder>>(`${this.endpoint}/${id}`, data);
+    const response = await this.put<ApiResponse<ServiceOrder>>(`${this.endpoint}/${id}`, data, {
+      offline: true,
+      meta: { offlineLabel: `Ordem de serviço #${id}` },
+    });
     return response.data;
   }
 
@@ -67,11 +77,7 @@ class ServiceOrdersService extends BaseApiService {
    * @param id - ID da ordem de serviço
    */
   async deleteServiceOrder(id: string): Promise<void> {
-    const response = await fetch(`${this.API_BASE_URL}${this.endpoint}/${id}`, {
-      method: 'DELETE',
-      headers: this.getHeaders(),
-    });
-    await this.handleResponse<void>(response);
+    await this.delete<void>(`${this.endpoint}/${id}`);
   }
 
   /**
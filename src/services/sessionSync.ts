@@ -0,0 +1,77 @@
+import type { User } from '@/types/auth';
+import type { MenuItemDTO } from '@/types/menu';
+
+/**
+ * Sincronização de sessão entre abas
+ * pt-BR: Propaga login, logout, perfil, permissões, token renovado e bloqueio de tela
+ *        para as outras abas abertas. Usa BroadcastChannel e, quando indisponível,
+ *        o evento `storage` do localStorage.
+ * en-US: Propagates login, logout, profile, permissions, refreshed token and screen lock
+ *        to the other open tabs. Uses BroadcastChannel and, when unavailable,
+ *        the localStorage `storage` event.
+ */
+
+export type SessionSyncMessage =
+  | { type: 'login' }
+  | { type: 'logout' }
+  | { type: 'profile'; user: User }
+  | { type: 'permissions'; permissions: string[]; menu: MenuItemDTO[] }
+  | { type: 'token'; token: string }
+  | { type: 'lock' }
+  | { type: 'unlock' };
+
+const CHANNEL_NAME = 'auth:session';
+const STORAGE_KEY = 'auth_session_sync';
+
+let channel: BroadcastChannel | null = null;
+
+function getChannel(): BroadcastChannel | null {
+  if (typeof BroadcastChannel === 'undefined') return null;
+  if (!channel) channel = new BroadcastChannel(CHANNEL_NAME);
+  return channel;
+}
+
+/**
+ * broadcastSession
+ * pt-BR: Envia a mensagem para as outras abas (a aba atual não a recebe).
+ * en-US: Sends the message to the other tabs (the current tab does not receive it).
+ */
+export function broadcastSession(message: SessionSyncMessage): void {
+  try {
+    const bc = getChannel();
+    if (bc) {
+      bc.postMessage(message);
+      return;
+    }
+    // Fallback: o evento `storage` só dispara nas outras abas
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...message, at: Date.now() }));
+    localStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // Sincronização é best-effort; nunca interrompe o fluxo de autenticação
+  }
+}
+
+/**
+ * subscribeSession
+ * pt-BR: Escuta mensagens de outras abas. Retorna a função para cancelar a inscrição.
+ * en-US: Listens for messages from other tabs. Returns the unsubscribe function.
+ */
+export function subscribeSession(handler: (message: SessionSyncMessage) => void): () => void {
+  const bc = getChannel();
+  if (bc) {
+    const onMessage = (event: MessageEvent<SessionSyncMessage>) => handler(event.data);
+    bc.addEventListener('message', onMessage);
+    return () => bc.removeEventListener('message', onMessage);
+  }
+
+  const onStorage = (event: StorageEvent) => {
+    if (event.key !== STORAGE_KEY || !event.newValue) return;
+    try {
+      handler(JSON.parse(event.newValue) as SessionSyncMessage);
+    } catch {
+      // ignora mensagens malformadas
+    }
+  };
+  window.addEventListener('storage', onStorage);
+  return () => window.removeEventListener('storage', onStorage);
+}
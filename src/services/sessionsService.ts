@@ -0,0 +1,50 @@
+import { BaseApiService } from './BaseApiService';
+import type { UserSession } from '@/types/sessions';
+
+type SessionsPayload = UserSession[] | { data?: UserSession[] };
+
+function unwrap(payload: SessionsPayload): UserSession[] {
+  return Array.isArray(payload) ? payload : payload?.data ?? [];
+}
+
+/**
+ * Serviço de sessões ativas
+ * pt-BR: Lista e revoga os logins abertos do usuário logado (`/user/sessions`) e, para
+ *        administradores, de qualquer usuário (`/users/{id}/sessions`).
+ * en-US: Lists and revokes the open logins of the logged-in user (`/user/sessions`) and,
+ *        for administrators, of any user (`/users/{id}/sessions`).
+ */
+class SessionsService extends BaseApiService {
+  async listMine(): Promise<UserSession[]> {
+    return unwrap(await this.get<SessionsPayload>('/user/sessions'));
+  }
+
+  async revoke(sessionId: string): Promise<void> {
+    await this.delete<void>(`/user/sessions/${sessionId}`);
+  }
+
+  /**
+   * Encerra todas as sessões, menos a atual
+   */
+  async revokeOthers(): Promise<void> {
+    await this.delete<void>('/user/sessions/others');
+  }
+
+  async listForUser(userId: string): Promise<UserSession[]> {
+    return unwrap(await this.get<SessionsPayload>(`/users/${userId}/sessions`));
+  }
+
+  async revokeForUser(userId: string, sessionId: string): Promise<void> {
+    await this.delete<void>(`/users/${userId}/sessions/${sessionId}`);
+  }
+
+  /**
+   * Encerra todas as sessões do usuário (ex.: token roubado)
+   */
+  async revokeAllForUser(userId: string): Promise<void> {
+    await this.delete<void>(`/users/${userId}/sessions`);
+  }
+}
+
+// Instância singleton do serviço
+export const sessionsService = new SessionsService();
@@ -1,7 +1,21 @@
+import { z } from 'zod';
 import { GenericApiService } from './GenericApiService';
 import { TurmaRecord, TurmaPayload, TurmasListParams } from '@/types/turmas';
 import { PaginatedResponse } from '@/types/index';
 
+/**
+ * turmaRecordSchema
+ * pt-BR: Campos de turma dos quais as telas dependem; demais campos passam sem validação.
+ * en-US: Class fields the screens rely on; other fields pass through unvalidated.
+ */
+export const turmaRecordSchema = z.object({
+  id: z.union([z.string(), z.number()]),
+  id_curso: z.union([z.string(), z.number()]),
+  nome: z.string().nullish(),
+  inicio: z.string().nullish(),
+  fim: z.string().nullish(),
+}).passthrough();
+
 /**
  * TurmasService — serviço de CRUD para turmas
  * pt-BR: Encapsula operações no endpoint '/turmas'.
@@ -14,7 +28,7 @@ class TurmasService extends GenericApiService<TurmaRecord, TurmaPayload, TurmaPa
    * en-US: Initializes with the base endpoint.
    */
   constructor() {
-    super('/turmas');
+    super('/turmas', { schema: turmaRecordSchema });
   }
 
   /**
@@ -0,0 +1,77 @@
+import { BaseApiService } from './BaseApiService';
+import { ApiResponse } from '@/types/index';
+import type { TwoFactorRecoveryCodes, TwoFactorSetup, TwoFactorStatus } from '@/types/twoFactor';
+
+/**
+ * Opção com os grupos que exigem 2FA
+ * pt-BR: Lista de IDs de grupos de permissão separados por vírgula.
+ * en-US: Comma-separated list of permission group IDs.
+ */
+export const TWO_FACTOR_REQUIRED_GROUPS_OPTION = 'two_factor_required_groups';
+
+/**
+ * Serviço de autenticação em dois fatores (TOTP)
+ * pt-BR: Ativação, confirmação, códigos de recuperação e desativação do 2FA do usuário logado,
+ *        além da política que torna o 2FA obrigatório por grupo de permissão.
+ * en-US: Enrollment, confirmation, recovery codes and disabling of the logged-in user's 2FA,
+ *        plus the policy that makes 2FA mandatory per permission group.
+ */
+class TwoFactorService extends BaseApiService {
+  private readonly endpoint = '/user/two-factor';
+
+  async getStatus(): Promise<TwoFactorStatus> {
+    return this.get<TwoFactorStatus>(this.endpoint);
+  }
+
+  /**
+   * Gera um novo segredo (ainda inativo) e o QR code para o app autenticador
+   */
+  async enable(): Promise<TwoFactorSetup> {
+    return this.post<TwoFactorSetup>(this.endpoint, undefined, { retries: 0 });
+  }
+
+  /**
+   * Ativa o 2FA após o primeiro código válido e devolve os códigos de recuperação
+   * @param code - Código de 6 dígitos do app
+   */
+  async confirm(code: string): Promise<TwoFactorRecoveryCodes> {
+    return this.post<TwoFactorRecoveryCodes>(`${this.endpoint}/confirm`, { code }, { retries: 0 });
+  }
+
+  /**
+   * Substitui os códigos de recuperação (os anteriores deixam de valer)
+   * @param code - Código atual do app, para confirmar a identidade
+   */
+  async regenerateRecoveryCodes(code: string): Promise<TwoFactorRecoveryCodes> {
+    return this.post<TwoFactorRecoveryCodes>(`${this.endpoint}/recovery-codes`, { code }, { retries: 0 });
+  }
+
+  /**
+   * Desativa o 2FA (a API recusa quando o grupo do usuário o exige)
+   * @param password - Senha atual do usuário
+   */
+  async disable(password: string): Promise<void> {
+    await this.post<void>(`${this.endpoint}/disable`, { password }, { retries: 0 });
+  }
+
+  /**
+   * Grupos de permissão com 2FA obrigatório
+   */
+  async getRequiredGroups(): Promise<string[]> {
+    const response = await this.get<ApiResponse<Record<string, unknown>>>('/options');
+    const raw = response?.data?.[TWO_FACTOR_REQUIRED_GROUPS_OPTION];
+    return String(raw ?? '')
+      .split(',')
+      .map((id) => id.trim())
+      .filter(Boolean);
+  }
+
+  async saveRequiredGroups(groupIds: string[]): Promise<void> {
+    await this.post<ApiResponse<void>>('/options/all', {
+      [TWO_FACTOR_REQUIRED_GROUPS_OPTION]: groupIds.join(','),
+    });
+  }
+}
+
+// Instância singleton do serviço
+export const twoFactorService = new TwoFactorService();
@@ -51,19 +51,8 @@ class UploadsService extends BaseApiService {
       }
     });
 
-    // Cabeçalhos: não definir Content-Type para permitir boundary automático do FormData
-    const headers: HeadersInit = {
-      Accept: 'application/json',
-    };
-    const token = localStorage.getItem('auth_token');
-    if (token) headers['Authorization'] = `Bearer ${token}`;
-
-    const response = await fetch(`${this.API_BASE_URL}/uploads`, {
-      method: 'POST',
-      headers,
-      body: formData,
-    });
-    return this.handleResponse<UploadResponse>(response);
+    // O cliente HTTP não define Content-Type para FormData, permitindo o boundary automático
+    return this.post<UploadResponse>('/uploads', formData);
   }
 }
 
@@ -0,0 +1,26 @@
+import { BaseApiService } from './BaseApiService';
+import type { UserPreferenceEntries } from '@/types/userPreferences';
+
+/**
+ * Serviço de preferências do usuário
+ * pt-BR: Preferências do usuário logado em `/user/preferences`. O `PATCH` envia só as chaves
+ *        alteradas (com a data de cada gravação) e a API devolve o conjunto completo já mesclado.
+ * en-US: Logged-in user's preferences at `/user/preferences`. `PATCH` sends only the changed
+ *        keys (with each write date) and the API returns the whole merged set.
+ */
+class UserPreferencesService extends BaseApiService {
+  private readonly endpoint = '/user/preferences';
+
+  async getPreferences(): Promise<UserPreferenceEntries> {
+    const response = await this.get<{ data?: UserPreferenceEntries }>(this.endpoint);
+    return response?.data ?? {};
+  }
+
+  async savePreferences(entries: UserPreferenceEntries): Promise<UserPreferenceEntries> {
+    const response = await this.patch<{ data?: UserPreferenceEntries }>(this.endpoint, { entries });
+    return response?.data ?? entries;
+  }
+}
+
+// Instância singleton do serviço
+export const userPreferencesService = new UserPreferencesService();
@@ -6,75 +6,27 @@ import {
   Paginated
 } from '@/types/users';
 
-import { getTenantIdFromSubdomain, getTenantApiUrl, getVersionApi } from '@/lib/qlib';
-const tenant_id = getTenantIdFromSubdomain() || 'default';
-const api_version = getVersionApi();
-const API_BASE_URL = getTenantApiUrl() + api_version;
-
-class UsersService {
-  private getHeaders(): HeadersInit {
-    const headers: HeadersInit = {
-      'Content-Type': 'application/json',
-      'Accept': 'application/json',
-    };
-
-    const token = localStorage.getItem('auth_token');
-    if (token) {
-      headers['Authorization'] = `Bearer ${token}`;
-    }
-
-    return headers;
-  }
-
-  private async handleResponse<T>(response: Response): Promise<T> {
-    if (!response.ok) {
-      let errorMessage = 'Erro na requisição';
-      let errorBody: any = null;
-      try {
-        errorBody = await response.json();
-        errorMessage = errorBody?.message || errorMessage;
-      } catch {
-        // ignore json parse errors
-      }
-      const error = new Error(errorMessage) as Error & { status?: number; body?: any };
-      error.status = response.status;
-      error.body = errorBody;
-      throw error;
-    }
-    return response.json();
-  }
-
+import { BaseApiService } from './BaseApiService';
+import { isApiError } from './ApiError';
+
+/**
+ * Serviço de usuários
+ * pt-BR: Estende BaseApiService para compartilhar auth, tenant e tratamento de erros.
+ * en-US: Extends BaseApiService to share auth, tenant and error handling.
+ */
+class UsersService extends BaseApiService {
   async listUsers(params?: UsersListParams): Promise<Paginated<UserRecord>> {
-    const searchParams = new URLSearchParams();
-    
-    if (params?.search) {
-      searchParams.append('search', params.search);
-    }
-    if (params?.page) {
-      searchParams.append('page', params.page.toString());
-    }
-    if (params?.per_page) {
-      searchParams.append('per_page', params.per_page.toString());
-    }
-    // pt-BR: Quando consultores=true, retorna apenas usuários consultores.
-    // en-US: When consultores=true, return only consultant users.
-    if (params?.consultores) {
-      searchParams.append('consultores', 'true');
-    }
-    // pt-BR: Adiciona parâmetro de ordenação quando informado.
-    // en-US: Adds sort parameter when provided.
-    if (params?.sort) {
-      searchParams.append('sort', params.sort);
-    }
-
-    const url = `${API_BASE_URL}/users${searchParams.toString() ? '?' + searchParams.toString() : ''}`;
-    
-    const response = await fetch(url, {
-      method: 'GET',
-      headers: this.getHeaders(),
+    const data = await this.get<any>('/users', {
+      search: params?.search,
+      page: params?.page,
+      per_page: params?.per_page,
+      // pt-BR: Quando consultores=true, retorna apenas usuários consultores.
+      // en-US: When consultores=true, return only consultant users.
+      consultores: params?.consultores ? 'true' : undefined,
+      // pt-BR: Adiciona parâmetro de ordenação quando informado.
+      // en-US: Adds sort parameter when provided.
+      sort: params?.sort,
     });
-
-    const data = await this.handleResponse<any>(response);
     
     // Handle both paginated and non-paginated responses
     if (Array.isArray(data)) {
@@ -102,48 +54,23 @@ class UsersService {
   }
 
   async getUser(id: string): Promise<UserRecord> {
-    const response = await fetch(`${API_BASE_URL}/users/${id}`, {
-      method: 'GET',
-      headers: this.getHeaders(),
-    });
-
-    return this.handleResponse<UserRecord>(response);
+    return this.get<UserRecord>(`/users/${id}`);
   }
 
   async createUser(payload: CreateUserInput): Promise<UserRecord> {
-    const response = await fetch(`${API_BASE_URL}/users`, {
-      method: 'POST',
-      headers: this.getHeaders(),
-      body: JSON.stringify(payload),
-    });
-
-    return this.handleResponse<UserRecord>(response);
+    return this.post<UserRecord>('/users', payload);
   }
 
   async updateUser(id: string, payload: UpdateUserInput): Promise<UserRecord> {
-    const response = await fetch(`${API_BASE_URL}/users/${id}`, {
-      method: 'PUT',
-      headers: this.getHeaders(),
-      body: JSON.stringify(payload),
-    });
-
-    return this.handleResponse<UserRecord>(response);
+    return this.put<UserRecord>(`/users/${id}`, payload);
   }
 
   async deleteUser(id: string): Promise<void> {
     try {
-      const response = await fetch(`${API_BASE_URL}/users/${id}`, {
-        method: 'DELETE',
-        headers: this.getHeaders(),
-      });
-
-      if (response.status === 404) {
-        throw new Error('Usuário não encontrado');
-      }
-
-      await this.handleResponse(response);
+      await this.delete<void>(`/users/${id}`);
     } catch (error) {
-      throw new Error(`Erro ao excluir usuário: ${(error as Error).message}`);
+      const message = isApiError(error) && error.status === 404 ? 'Usuário não encontrado' : (error as Error).message;
+      throw new Error(`Erro ao excluir usuário: ${message}`);
     }
   }
 
@@ -151,12 +78,7 @@ class UsersService {
    * Busca propriedades dos usuários
    */
   async getUsersPropertys(): Promise<UserRecord[]> {
-    const response = await fetch(`${API_BASE_URL}/users/propertys`, {
-      method: 'GET',
-      headers: this.getHeaders(),
-    });
-
-    return this.handleResponse<UserRecord[]>(response);
+    return this.get<UserRecord[]>('/users/propertys');
   }
 }
 
@@ -0,0 +1,48 @@
+/**
+ * Trilha de auditoria
+ * pt-BR: Registros gravados pela API a cada criação, alteração, exclusão ou restauração,
+ *        com o autor, a data e as mudanças campo a campo.
+ * en-US: Entries written by the API on every create, update, delete or restore, with the
+ *        actor, the date and the field-level changes.
+ */
+
+/** Ações de registro; outros eventos (ex.: `impersonation.started`) também aparecem */
+export type AuditRecordAction = 'created' | 'updated' | 'deleted' | 'restored';
+
+export type AuditAction = AuditRecordAction | (string & {});
+
+export interface AuditFieldChange {
+  field: string;
+  old: unknown;
+  new: unknown;
+}
+
+export interface AuditLogEntry {
+  id: string;
+  action: AuditAction;
+  description?: string | null;
+  reason?: string | null;
+  /** Autor / Actor */
+  user_id: string | null;
+  user_name?: string | null;
+  /** Recurso no formato do caminho da API (ex.: `clients`, `service-orders`) / Resource as the API path */
+  subject_type: string;
+  subject_id: string;
+  subject_name?: string | null;
+  changes?: AuditFieldChange[];
+  created_at: string;
+}
+
+export interface AuditLogParams {
+  page?: number;
+  per_page?: number;
+  search?: string;
+  action?: string;
+  subject_type?: string;
+  subject_id?: string;
+  user_id?: string;
+  /** Data inicial (YYYY-MM-DD) / Start date (YYYY-MM-DD) */
+  date_from?: string;
+  /** Data final (YYYY-MM-DD) / End date (YYYY-MM-DD) */
+  date_to?: string;
+}
@@ -37,6 +37,8 @@ export interface LoginCredentials {
   email: string;
   password: string;
   remember?: boolean;
+  /** Token da verificação humana, quando a API pede / Human verification token, when the API asks for it */
+  captcha_token?: string;
 }
 
 export interface RegisterData {
@@ -57,12 +59,52 @@ export interface ResetPasswordData {
   token: string;
 }
 
+/**
+ * Login sem senha (clientes da loja)
+ * pt-BR: O cliente informa e-mail ou CPF e recebe por e-mail um código de 6 dígitos e um link
+ *        de acesso; ambos valem para um único login.
+ * en-US: The client enters an email or CPF and gets a 6-digit code and an access link by
+ *        email; both are good for a single login.
+ */
+export interface PasswordlessLoginRequest {
+  /** E-mail ou CPF / Email or CPF */
+  identifier: string;
+  /** Rota para voltar após o login, incluída no link / Route to return to after login, included in the link */
+  redirect?: string;
+}
+
+export interface PasswordlessChallenge {
+  challenge_token: string;
+  /** E-mail de destino mascarado (ex.: `c***@demo.local`) / Masked destination email */
+  destination?: string;
+  /** Validade do código em segundos / Code lifetime in seconds */
+  expires_in: number;
+  /** Segundos até poder pedir outro código / Seconds until another code may be requested */
+  resend_after?: number;
+  message?: string;
+}
+
+export interface PasswordlessVerifyInput {
+  /** Código digitado, junto com o `challenge_token` / Typed code, along with the `challenge_token` */
+  challenge_token?: string;
+  code?: string;
+  /** Token do link de acesso / Access link token */
+  token?: string;
+}
+
 export interface AuthResponse {
   user: User;
   token: string;
+  /** Token de renovação, quando a API suporta refresh / Refresh token, when supported by the API */
+  refresh_token?: string;
+  expires_in?: number;
   permissions?: string[];
   menu?: MenuItemDTO[];
   message?: string;
+  /** O grupo exige 2FA e o usuário ainda não ativou / The group requires 2FA and the user has not enrolled yet */
+  two_factor_setup_required?: boolean;
+  /** Token de dispositivo confiável ("lembrar este dispositivo") / Trusted device token ("remember this device") */
+  device_token?: string;
 }
 
 export interface ApiError {
@@ -0,0 +1,36 @@
+/**
+ * Tipos da identidade visual do tenant (branding)
+ */
+
+// Identidade visual aplicada em todo o app (painel, landing page e loja)
+export interface TenantBranding {
+  appName: string;
+  tagline: string;
+  storeName: string;
+  logoUrl: string;
+  /** Logo da loja; vazio usa `logoUrl` / Store logo; empty falls back to `logoUrl` */
+  storeLogoUrl: string;
+  faviconUrl: string;
+  /** Cores em hex; `null` mantém a cor do tema / Hex colors; `null` keeps the stylesheet color */
+  primaryColor: string | null;
+  secondaryColor: string | null;
+  accentColor: string | null;
+  /** Família CSS, ex.: `"Inter", sans-serif` / CSS family, e.g. `"Inter", sans-serif` */
+  fontFamily: string | null;
+  /** Folha de estilos da fonte (ex.: Google Fonts) / Font stylesheet (e.g. Google Fonts) */
+  fontUrl: string | null;
+}
+
+// Nomes das opções no endpoint de options (`/options/all`)
+export type BrandingOptionKey =
+  | 'branding_app_name'
+  | 'branding_tagline'
+  | 'branding_store_name'
+  | 'branding_logo_url'
+  | 'branding_store_logo_url'
+  | 'branding_favicon_url'
+  | 'branding_primary_color'
+  | 'branding_secondary_color'
+  | 'branding_accent_color'
+  | 'branding_font_family'
+  | 'branding_font_url';
@@ -71,6 +71,8 @@ export interface ClientRecord {
   updated_at?: string;
   is_alloyal?: AlloyalIntegration | null;
   points?: number;
+  /** Etiquetas livres (ações em lote e segmentos) / Free-form tags (bulk actions and segments) */
+  tags?: string[] | null;
   email_verified_at?: string | null;
   verificado?: "s" | "n";
   permission_id?: number;
@@ -118,6 +120,7 @@ export interface UpdateClientInput {
   genero?: "m" | "f" | "ni";
   status?: "actived" | "inactived" | "pre_registred";
   autor?: string;
+  tags?: string[];
 }
 
 export interface ClientsListParams {
@@ -131,4 +134,171 @@ export interface ClientsListParams {
    * en-US: Optional filter by client's permission ID (e.g., 8).
    */
   permission_id?: number;
-}
\ No newline at end of file
+  /**
+   * pt-BR: Definição de segmento (`ClientSegmentDefinition`) em JSON, para filtros avançados.
+   * en-US: Segment definition (`ClientSegmentDefinition`) as JSON, for advanced filters.
+   */
+  segment?: string;
+  /**
+   * pt-BR: ID de um segmento salvo; a API aplica a definição guardada.
+   * en-US: ID of a saved segment; the API applies the stored definition.
+   */
+  segment_id?: string;
+}
+/**
+ * Duplicados de cliente
+ * pt-BR: Motivos pelos quais dois cadastros parecem ser a mesma pessoa.
+ * en-US: Reasons why two records look like the same person.
+ */
+export type ClientDuplicateReason = 'document' | 'email' | 'phone' | 'name';
+
+/**
+ * ClientDuplicateCheckInput
+ * pt-BR: Dados do cadastro em andamento comparados com os clientes existentes.
+ * en-US: Data of the record being created, compared with the existing clients.
+ */
+export interface ClientDuplicateCheckInput {
+  name?: string;
+  email?: string;
+  cpf?: string;
+  cnpj?: string;
+  phones?: string[];
+  /** Ignora o próprio cliente (edição) / Skips the client itself (editing) */
+  ignore_id?: string;
+}
+
+export interface ClientDuplicateCandidate {
+  client: ClientRecord;
+  /** 0 a 100 / 0 to 100 */
+  score: number;
+  reasons: ClientDuplicateReason[];
+}
+
+/**
+ * ClientDuplicateGroup
+ * pt-BR: Clientes já cadastrados que parecem ser a mesma pessoa (fila de revisão).
+ * en-US: Existing clients that look like the same person (review queue).
+ */
+export interface ClientDuplicateGroup {
+  id: string;
+  clients: ClientRecord[];
+  score: number;
+  reasons: ClientDuplicateReason[];
+}
+
+/** Vínculos movidos para o cliente mantido / Links moved to the kept client */
+export type ClientMergeRelation =
+  | 'enrollments'
+  | 'proposals'
+  | 'aircraft'
+  | 'service_orders'
+  | 'points_extracts'
+  | 'attendances';
+
+/**
+ * ClientMergeInput
+ * pt-BR: `target_id` é o cadastro mantido; os de `source_ids` são excluídos depois de terem os
+ *        vínculos movidos. `values` traz os campos escolhidos na tela de mesclagem.
+ * en-US: `target_id` is the kept record; `source_ids` records are deleted after their links are
+ *        moved. `values` carries the fields picked on the merge screen.
+ */
+export interface ClientMergeInput {
+  target_id: string;
+  source_ids: string[];
+  values: UpdateClientInput;
+}
+
+export interface ClientMergeResult {
+  client: ClientRecord;
+  merged_ids: string[];
+  moved: Record<ClientMergeRelation, number>;
+}
+
+/**
+ * Linha da importação de clientes (CSV/XLSX)
+ * pt-BR: `payload` só existe quando a linha passou nas validações. Avisos (ex.: possível
+ *        duplicado) não impedem a importação, salvo se o usuário optar por pular essas linhas.
+ * en-US: `payload` only exists when the row passed validation. Warnings (e.g. possible
+ *        duplicate) do not block the import, unless the user chooses to skip those rows.
+ */
+export interface ClientImportRow {
+  /** Linha na planilha (o cabeçalho é a linha 1) / Spreadsheet line (the header is line 1) */
+  line: number;
+  name: string;
+  email: string;
+  status: 'ready' | 'warning' | 'error';
+  errors: string[];
+  warnings: string[];
+  payload: CreateClientInput | null;
+}
+
+/**
+ * Segmentos de clientes
+ * pt-BR: Filtro avançado em grupos de condições. As condições de um grupo são combinadas por
+ *        `match` (todas = E, qualquer = OU) e os grupos entre si pelo `match` da definição.
+ * en-US: Advanced filter made of condition groups. A group's conditions are combined by
+ *        `match` (all = AND, any = OR) and the groups by the definition's `match`.
+ */
+export type ClientSegmentField =
+  | 'cidade' | 'uf' | 'funnel' | 'stage' | 'autor' | 'status' | 'points' | 'age' | 'created_at' | 'course' | 'tag';
+
+export type ClientSegmentOperator =
+  | 'eq' | 'neq' | 'contains' | 'gte' | 'lte' | 'between' | 'last_days' | 'empty' | 'not_empty' | 'has' | 'not_has';
+
+export type ClientSegmentMatch = 'all' | 'any';
+
+export interface ClientSegmentCondition {
+  id: string;
+  field: ClientSegmentField;
+  operator: ClientSegmentOperator;
+  value?: string;
+  /** Limite superior do `between` / Upper bound of `between` */
+  value_to?: string;
+}
+
+export interface ClientSegmentGroup {
+  id: string;
+  match: ClientSegmentMatch;
+  conditions: ClientSegmentCondition[];
+}
+
+export interface ClientSegmentDefinition {
+  match: ClientSegmentMatch;
+  groups: ClientSegmentGroup[];
+}
+
+/**
+ * ClientSegment
+ * pt-BR: Segmento salvo, reutilizado na lista, em exportações, ações em lote e campanhas.
+ * en-US: Saved segment, reused in the list, exports, bulk actions and campaigns.
+ */
+export interface ClientSegment {
+  id: string;
+  name: string;
+  description?: string | null;
+  definition: ClientSegmentDefinition;
+  autor?: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface ClientSegmentInput {
+  name: string;
+  description?: string | null;
+  definition: ClientSegmentDefinition;
+}
+
+/**
+ * Ações em lote de clientes
+ * pt-BR: Aplicadas cliente a cliente; `funnel` grava funil e etapa juntos e `tags` acrescenta
+ *        e remove etiquetas sem mexer nas demais.
+ * en-US: Applied client by client; `funnel` writes funnel and stage together and `tags` adds
+ *        and removes tags without touching the others.
+ */
+export type ClientBulkAction =
+  | { type: 'status'; status: ClientRecord['status'] }
+  | { type: 'funnel'; funnelId: string; stage_id: string | null }
+  | { type: 'autor'; autor: string }
+  | { type: 'tags'; add: string[]; remove: string[] }
+  | { type: 'delete' }
+  | { type: 'restore' };
@@ -3,11 +3,22 @@
 interface ImportMetaEnv {
   readonly VITE_API_URL?: string
   readonly VITE_API_DOMAIN?: string
+  readonly VITE_TENANT_API_URL?: string
+  readonly VITE_TENANT_STRATEGIES?: string
+  readonly VITE_TENANT_DOMAINS?: string
+  readonly VITE_TENANT_PATH_PREFIX?: string
+  readonly VITE_TENANT_IGNORED_SUBDOMAINS?: string
+  readonly VITE_TENANT_DEFAULT?: string
+  readonly VITE_TENANT_OVERRIDE_ALLOWLIST?: string
   readonly VITE_APP_NAME?: string
   readonly VITE_DEBUG?: string
   readonly VITE_SUPABASE_URL?: string
   readonly VITE_SUPABASE_ANON_KEY?: string
-  readonly VITE_USE_MOCK_CLIENTS?: string
+  readonly VITE_API_TIMEOUT?: string
+  readonly VITE_API_RETRIES?: string
+  readonly VITE_API_SCHEMA_MODE?: string
+  readonly VITE_API_MOCK?: string
+  readonly VITE_API_MOCK_DELAY?: string
 }
 
 interface ImportMeta {
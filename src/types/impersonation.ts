@@ -0,0 +1,25 @@
+import type { User } from './auth';
+import type { MenuItemDTO } from './menu';
+import type { UserPointsBalance } from '@/services/userPointsService';
+
+/**
+ * ImpersonationSession
+ * pt-BR: Dados do usuário visualizado no modo "ver como": o que o `AuthContext` passa a expor
+ *        no lugar do usuário real, em modo somente leitura.
+ * en-US: Data of the user being viewed in "view as" mode: what `AuthContext` exposes instead
+ *        of the real user, in read-only mode.
+ */
+export interface ImpersonationSession {
+  user: User;
+  permissions: string[];
+  menu: MenuItemDTO[];
+  points_balance: UserPointsBalance | null;
+  started_at: string;
+}
+
+export interface ImpersonationStartResponse {
+  user: User;
+  permissions?: string[];
+  menu?: MenuItemDTO[];
+  points_balance?: UserPointsBalance | null;
+}
@@ -1,12 +1,21 @@
 import { LucideIcon } from "lucide-react";
 
+// Flags de acesso chegam da API como boolean, 0/1 ou '0'/'1'
+export type MenuAccessFlag = boolean | number | '0' | '1';
+
 export interface MenuItemDTO {
   id: number | string;
   parent_id?: number | string | null;
   title: string;
   url?: string;
   icon?: string;
-  can_view?: boolean | number | '0' | '1';
+  // Permissão exigida pelo item no menu padrão (ex.: "settings.audit-log.view")
+  permission?: string;
+  can_view?: MenuAccessFlag;
+  can_create?: MenuAccessFlag;
+  can_edit?: MenuAccessFlag;
+  can_delete?: MenuAccessFlag;
+  can_upload?: MenuAccessFlag;
   items?: MenuItemDTO[];
 }
 
@@ -16,6 +25,10 @@ export interface MenuItemResolved {
   title: string;
   url?: string;
   icon: LucideIcon;
-  can_view?: boolean | number | '0' | '1';
+  can_view?: MenuAccessFlag;
+  can_create?: MenuAccessFlag;
+  can_edit?: MenuAccessFlag;
+  can_delete?: MenuAccessFlag;
+  can_upload?: MenuAccessFlag;
   items?: MenuItemResolved[];
 }
\ No newline at end of file
@@ -52,6 +52,7 @@ export interface PermissionTreeNode {
   id: number | string;
   parent_id?: number | string | null;
   title: string;
+  url?: string;
   level: number;
   children?: PermissionTreeNode[];
   hasChildren: boolean;
@@ -60,6 +61,35 @@ export interface PermissionTreeNode {
 
 export type AccessFlagKey = 'can_view' | 'can_create' | 'can_edit' | 'can_delete' | 'can_upload';
 
+// Flags de acesso por chave do nó da árvore de permissões
+export type AccessFlagsMap = Record<string, AccessFlags>;
+
+export interface PermissionFlagChange {
+  flag: AccessFlagKey;
+  before: boolean;
+  after: boolean;
+}
+
+// Alterações de um item de menu entre dois conjuntos de flags (antes/depois ou grupo A/B)
+export interface PermissionDiffEntry {
+  key: string;
+  title: string;
+  /** Caminho no menu, ex.: "Financeiro › Contas a Pagar" */
+  path: string;
+  changes: PermissionFlagChange[];
+}
+
+export interface PermissionTemplate {
+  id: string;
+  name: string;
+  description: string;
+  /** Regras por prefixo de URL; a mais específica vence / URL prefix rules; the most specific wins */
+  rules: Array<{ match: string; flags: AccessFlagKey[] }>;
+}
+
+// Ação verificada por `useCan` / `<Can>`; corresponde a `can_<ação>` do menu
+export type PermissionAction = 'view' | 'create' | 'edit' | 'delete' | 'upload';
+
 export interface Paginated<T> {
   data: T[];
   current_page?: number;
@@ -0,0 +1,53 @@
+/**
+ * Política de senhas e proteção do login
+ * pt-BR: Regras definidas pelo administrador e devolvidas publicamente pela API, para que
+ *        cadastro, redefinição e troca de senha validem antes de enviar. A API é quem
+ *        garante as regras (inclusive o histórico, que só ela conhece).
+ * en-US: Rules set by the administrator and served publicly by the API, so registration,
+ *        reset and password change validate before sending. The API enforces the rules
+ *        (including the history, which only it knows).
+ */
+
+export interface PasswordPolicy {
+  min_length: number;
+  require_uppercase: boolean;
+  require_lowercase: boolean;
+  require_number: boolean;
+  require_symbol: boolean;
+  /** Quantas senhas anteriores não podem ser reutilizadas (0 = sem restrição) / How many previous passwords cannot be reused */
+  history_size: number;
+  /** Recusa senhas da lista local de senhas vazadas / Rejects passwords from the local breached list */
+  block_breached: boolean;
+}
+
+export interface LoginProtectionPolicy {
+  /** Falhas seguidas até pedir a verificação humana / Consecutive failures before asking for human verification */
+  captcha_after: number;
+  /** Falhas seguidas até bloquear a conta / Consecutive failures before locking the account */
+  lockout_after: number;
+  lockout_minutes: number;
+  /** Clientes da loja podem entrar com código ou link por e-mail / Store clients may sign in with an emailed code or link */
+  passwordless_enabled: boolean;
+}
+
+export interface SecurityPolicy {
+  password: PasswordPolicy;
+  login: LoginProtectionPolicy;
+}
+
+/**
+ * LoginThrottle
+ * pt-BR: Estado do e-mail após uma falha de login, lido do corpo do erro da API.
+ * en-US: Email state after a failed login, read from the API error body.
+ */
+export interface LoginThrottle {
+  email: string;
+  attempts_remaining?: number;
+  /** Momento (ms) a partir do qual pode tentar de novo / Moment (ms) after which it may try again */
+  retry_at?: number;
+  captcha_required?: boolean;
+  /** Provedor de verificação humana (ex.: `local`) / Human verification provider (e.g. `local`) */
+  captcha_provider?: string;
+  /** Conta bloqueada até esta data (ISO) / Account locked until this date (ISO) */
+  locked_until?: string;
+}
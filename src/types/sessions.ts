@@ -0,0 +1,16 @@
+/**
+ * Sessões ativas
+ * pt-BR: Cada login (token) aberto do usuário, com dispositivo, IP e última atividade.
+ * en-US: Each open login (token) of the user, with device, IP and last activity.
+ */
+export interface UserSession {
+  id: string;
+  /** Nome do dispositivo informado pela API, se houver / Device name from the API, if any */
+  device?: string | null;
+  user_agent?: string | null;
+  ip_address?: string | null;
+  last_active_at: string;
+  created_at?: string;
+  /** Sessão do token usado nesta requisição / Session of the token used in this request */
+  is_current?: boolean;
+}
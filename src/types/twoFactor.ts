@@ -0,0 +1,44 @@
+/**
+ * Autenticação em dois fatores (TOTP)
+ * pt-BR: Contratos do segundo passo do login, da ativação no perfil e da política por grupo.
+ * en-US: Contracts for the second login step, profile enrollment and the per-group policy.
+ */
+
+// Resposta de `POST /login` quando a conta exige o código do app autenticador
+export interface TwoFactorChallenge {
+  two_factor_required: true;
+  challenge_token: string;
+  /** E-mail da conta, quando o login não partiu dele (ex.: sem senha) / Account email, when the login did not start from it (e.g. passwordless) */
+  email?: string;
+  message?: string;
+}
+
+export interface TwoFactorVerifyInput {
+  challenge_token: string;
+  /** Código de 6 dígitos do app / 6-digit app code */
+  code?: string;
+  /** Código de recuperação de uso único / Single-use recovery code */
+  recovery_code?: string;
+  /** Dispensa o código neste navegador por um período / Skips the code on this browser for a while */
+  remember_device?: boolean;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  confirmed_at?: string | null;
+  recovery_codes_remaining?: number;
+  /** Obrigatório pelo grupo de permissão do usuário / Required by the user's permission group */
+  required: boolean;
+}
+
+// Retorno de `POST /user/two-factor`: segredo pendente até a confirmação com um código válido
+export interface TwoFactorSetup {
+  secret: string;
+  otpauth_url: string;
+  /** QR code em SVG gerado pela API / SVG QR code generated by the API */
+  qr_code_svg?: string;
+}
+
+export interface TwoFactorRecoveryCodes {
+  recovery_codes: string[];
+}
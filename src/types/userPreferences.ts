@@ -0,0 +1,42 @@
+/**
+ * Preferências do usuário
+ * pt-BR: Guardadas na API por chave, cada uma com a data da última gravação, para seguir o
+ *        usuário entre dispositivos. Conflitos se resolvem por chave: vence a gravação mais recente.
+ * en-US: Stored in the API per key, each with its last write date, so they follow the user
+ *        across devices. Conflicts are resolved per key: the most recent write wins.
+ */
+
+export interface UserPreferenceEntry<T = unknown> {
+  value: T;
+  /** Data (ISO) da gravação / Write date (ISO) */
+  updated_at: string;
+}
+
+export type UserPreferenceEntries = Record<string, UserPreferenceEntry>;
+
+export type ThemePreference = 'light' | 'dark';
+
+/**
+ * Colunas e paginação de uma tabela / Columns and pagination of a table
+ * pt-BR: Salvas na chave `table:<id>`.
+ * en-US: Saved under the `table:<id>` key.
+ */
+export interface TablePreferences {
+  /** Colunas ocultas / Hidden columns */
+  hidden?: string[];
+  /** Ordem das colunas / Column order */
+  order?: string[];
+  page_size?: number;
+}
+
+/**
+ * Filtro salvo de uma listagem / Saved filter of a listing
+ * pt-BR: Salvos na chave `filters:<escopo>`.
+ * en-US: Saved under the `filters:<scope>` key.
+ */
+export interface SavedFilter<T = Record<string, unknown>> {
+  id: string;
+  name: string;
+  values: T;
+  created_at: string;
+}
@@ -94,4 +94,41 @@ export interface Paginated<T> {
     per_page: number;
     total: number;
   };
-}
\ No newline at end of file
+}
+/**
+ * Ações em lote na lista de usuários
+ * pt-BR: Resultado por usuário, para relatar as falhas sem desfazer os sucessos.
+ * en-US: Per-user outcome, to report failures without undoing the successes.
+ */
+export type UserBulkAction =
+  | { type: 'activate' }
+  | { type: 'deactivate' }
+  | { type: 'permission'; permission_id: string }
+  | { type: 'password_reset' };
+
+export interface UserBulkFailure {
+  id: string;
+  label: string;
+  message: string;
+}
+
+export interface UserBulkResult {
+  succeeded: string[];
+  failed: UserBulkFailure[];
+}
+
+/**
+ * Linha da importação de usuários por CSV
+ * pt-BR: `payload` só existe quando a linha passou em todas as validações.
+ * en-US: `payload` only exists when the row passed every validation.
+ */
+export interface UserImportRow {
+  /** Linha na planilha (o cabeçalho é a linha 1) / Spreadsheet line (the header is line 1) */
+  line: number;
+  name: string;
+  email: string;
+  errors: string[];
+  payload: CreateUserInput | null;
+  /** Sem senha na planilha: recebe o e-mail de redefinição após a criação / No password in the sheet: gets the reset email after creation */
+  sendPasswordReset: boolean;
+}